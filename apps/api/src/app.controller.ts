@@ -41,6 +41,7 @@ export class AppController {
 				healthReady: ROUTES.api.health.ready,
 				producers: ROUTES.api.producers.base,
 				farms: ROUTES.api.farms.base,
+				harvests: ROUTES.api.harvests.base,
 				auth: {
 					login: ROUTES.api.auth.login,
 					logout: ROUTES.api.auth.logout,
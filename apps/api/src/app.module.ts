@@ -1,6 +1,6 @@
 import { Module } from "@nestjs/common";
 import { APP_GUARD, APP_INTERCEPTOR, Reflector } from "@nestjs/core";
-import { ThrottlerGuard, ThrottlerModule } from "@nestjs/throttler";
+import { ThrottlerModule } from "@nestjs/throttler";
 import { TypeOrmModule } from "@nestjs/typeorm";
 import { LoggerModule } from "nestjs-pino";
 
@@ -9,23 +9,36 @@ import { createPinoConfig } from "@/config/logger.config";
 
 import { AppController } from "./app.controller";
 import { JwtAuthGuard } from "./common/guards/jwt-auth.guard";
+import { RolesGuard } from "./common/guards/roles.guard";
+import { AppThrottlerGuard } from "./common/guards/throttler.guard";
 import { CorrelationIdInterceptor } from "./common/interceptors/correlation-id.interceptor";
+import { CurrentUserInterceptor } from "./common/interceptors/current-user.interceptor";
 import { LoggingInterceptor } from "./common/interceptors/logging.interceptor";
 import { TransformInterceptor } from "./common/interceptors/transform.interceptor";
 import { AppDataSource } from "./config/database.config";
 import { SeedModule } from "./database/seeds/seed.module";
+import { AuditModule } from "./modules/audit/audit.module";
 import { AuthModule } from "./modules/auth/auth.module";
+import { CropsModule } from "./modules/crops/crops.module";
 import { DashboardModule } from "./modules/dashboard/dashboard.module";
 import { FarmsModule } from "./modules/farms/farms.module";
+import { GraphqlModule } from "./modules/graphql/graphql.module";
+import { HarvestsModule } from "./modules/harvests/harvests.module";
 import { HealthModule } from "./modules/health/health.module";
+import { ImportModule } from "./modules/import/import.module";
+import { PlotsModule } from "./modules/plots/plots.module";
+import { PostalCodeModule } from "./modules/postal-codes/postal-code.module";
 import { ProducersModule } from "./modules/producers/producers.module";
+import { ProductionModule } from "./modules/production/production.module";
+import { SearchModule } from "./modules/search/search.module";
 
 /**
  * Root application module.
  *
  * Configures TypeORM database connection, structured logging with nestjs-pino,
- * correlation ID tracking, rate limiting, health checks, and imports all feature
- * modules. This module serves as the entry point for the NestJS application.
+ * correlation ID tracking, audit logging, rate limiting, health checks, and imports
+ * all feature modules as well as the GraphQL endpoint over them. This module
+ * serves as the entry point for the NestJS application.
  *
  * Rate limiting: 10 requests per 60 seconds per IP address by default.
  *
@@ -50,7 +63,16 @@ import { ProducersModule } from "./modules/producers/producers.module";
 		HealthModule,
 		ProducersModule,
 		FarmsModule,
+		PlotsModule,
+		HarvestsModule,
+		CropsModule,
+		ProductionModule,
 		DashboardModule,
+		AuditModule,
+		ImportModule,
+		PostalCodeModule,
+		SearchModule,
+		GraphqlModule,
 	],
 	controllers: [AppController],
 	providers: [
@@ -58,6 +80,10 @@ import { ProducersModule } from "./modules/producers/producers.module";
 			provide: APP_INTERCEPTOR,
 			useClass: CorrelationIdInterceptor,
 		},
+		{
+			provide: APP_INTERCEPTOR,
+			useClass: CurrentUserInterceptor,
+		},
 		{
 			provide: APP_INTERCEPTOR,
 			useClass: LoggingInterceptor,
@@ -68,13 +94,18 @@ import { ProducersModule } from "./modules/producers/producers.module";
 		},
 		{
 			provide: APP_GUARD,
-			useClass: ThrottlerGuard,
+			useClass: AppThrottlerGuard,
 		},
 		{
 			provide: APP_GUARD,
 			useFactory: (reflector: Reflector) => new JwtAuthGuard(reflector),
 			inject: [Reflector],
 		},
+		{
+			provide: APP_GUARD,
+			useFactory: (reflector: Reflector) => new RolesGuard(reflector),
+			inject: [Reflector],
+		},
 	],
 })
 export class AppModule {}
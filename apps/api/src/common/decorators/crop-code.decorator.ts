@@ -0,0 +1,97 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import {
+	registerDecorator,
+	ValidationArguments,
+	ValidationOptions,
+	ValidatorConstraint,
+	ValidatorConstraintInterface,
+} from "class-validator";
+import { InjectPinoLogger, PinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import { Crop } from "@/modules/crops/entities/crop.entity";
+
+/**
+ * Validates that a crop code exists in the crop catalog
+ *
+ * This constraint queries the crops table so that farms can only record crops
+ * listed in the catalog, and new crops are accepted as soon as they are added.
+ *
+ * @example
+ * ```typescript
+ * class PlantedCropDto {
+ *   @IsCropCode()
+ *   cropType: string;
+ * }
+ * ```
+ */
+@ValidatorConstraint({ name: "IsCropCode", async: true })
+@Injectable()
+export class IsCropCodeConstraint implements ValidatorConstraintInterface {
+	constructor(
+		@InjectRepository(Crop)
+		private readonly cropRepository: Repository<Crop>,
+
+		@InjectPinoLogger(IsCropCodeConstraint.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Validates the crop code exists in the catalog
+	 *
+	 * Fails gracefully if database query encounters errors.
+	 *
+	 * @param code Crop code to validate
+	 *
+	 * @returns `true` if the crop exists, `false` otherwise
+	 */
+	public async validate(code: unknown): Promise<boolean> {
+		if (typeof code !== "string" || !code) return false;
+
+		try {
+			return await this.cropRepository.exists({ where: { code } });
+		} catch (error) {
+			this.logger.error({ err: error, code }, "Failed to validate crop code");
+			return false;
+		}
+	}
+
+	/**
+	 * Returns validation error message
+	 *
+	 * @param args Validation arguments containing the value
+	 *
+	 * @returns Error message string
+	 */
+	public defaultMessage(args: ValidationArguments): string {
+		return `Crop '${String(args.value)}' does not exist in the crop catalog`;
+	}
+}
+
+/**
+ * Decorator that validates a crop code exists in the crop catalog
+ *
+ * @param validationOptions Optional class-validator options
+ *
+ * @returns PropertyDecorator
+ *
+ * @example
+ * ```typescript
+ * class PlantedCropDto {
+ *   @IsCropCode({ message: 'Unknown crop' })
+ *   cropType: string;
+ * }
+ * ```
+ */
+export function IsCropCode(validationOptions?: ValidationOptions) {
+	return function (object: object, propertyName: string) {
+		registerDecorator({
+			target: object.constructor,
+			propertyName: propertyName,
+			options: validationOptions,
+			constraints: [],
+			validator: IsCropCodeConstraint,
+		});
+	};
+}
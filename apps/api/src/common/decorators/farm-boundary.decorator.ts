@@ -0,0 +1,76 @@
+import {
+	registerDecorator,
+	ValidationArguments,
+	ValidationOptions,
+	ValidatorConstraint,
+	ValidatorConstraintInterface,
+} from "class-validator";
+
+import { validateFarmBoundary } from "@agro/shared/validators";
+
+/**
+ * Validates that a value is a GeoJSON Polygon or MultiPolygon usable as a farm boundary
+ *
+ * Checks the geometry structure, that every ring is closed with at least four
+ * positions, and that coordinates are within WGS 84 ranges.
+ *
+ * @example
+ * ```typescript
+ * class CreateFarmDto {
+ *   @IsFarmBoundary()
+ *   boundary?: FarmBoundary;
+ * }
+ * ```
+ */
+@ValidatorConstraint({ name: "IsFarmBoundary", async: false })
+export class IsFarmBoundaryConstraint implements ValidatorConstraintInterface {
+	/**
+	 * Validates the boundary geometry
+	 *
+	 * @param boundary Boundary to validate
+	 *
+	 * @returns `true` if the boundary is a valid Polygon or MultiPolygon, `false` otherwise
+	 */
+	public validate(boundary: unknown): boolean {
+		return validateFarmBoundary(boundary).isValid;
+	}
+
+	/**
+	 * Returns validation error message
+	 *
+	 * @param args Validation arguments containing the value
+	 *
+	 * @returns Error message describing the first problem found in the geometry
+	 */
+	public defaultMessage(args: ValidationArguments): string {
+		return `Invalid boundary: ${validateFarmBoundary(args.value).error ?? "unknown error"}`;
+	}
+}
+
+/**
+ * Decorator that validates a farm boundary as a GeoJSON Polygon or MultiPolygon
+ *
+ * @param validationOptions Optional class-validator options
+ *
+ * @returns PropertyDecorator
+ *
+ * @example
+ * ```typescript
+ * class CreateFarmDto {
+ *   @IsOptional()
+ *   @IsFarmBoundary()
+ *   boundary?: FarmBoundary;
+ * }
+ * ```
+ */
+export function IsFarmBoundary(validationOptions?: ValidationOptions) {
+	return function (object: object, propertyName: string) {
+		registerDecorator({
+			target: object.constructor,
+			propertyName: propertyName,
+			options: validationOptions,
+			constraints: [],
+			validator: IsFarmBoundaryConstraint,
+		});
+	};
+}
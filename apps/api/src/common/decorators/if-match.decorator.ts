@@ -0,0 +1,29 @@
+import { createParamDecorator } from "@nestjs/common";
+
+import type { IfMatchVersions } from "../utils/precondition.util";
+import type { ExecutionContext } from "@nestjs/common";
+import type { Request } from "express";
+
+import { parseIfMatch } from "@agro/shared/utils";
+
+/**
+ * Parameter decorator extracting the versions listed in the `If-Match` header.
+ *
+ * Resolves to `undefined` when the header is missing, in which case the
+ * request is not conditional.
+ *
+ * @example
+ * ```typescript
+ * @Patch(':id')
+ * async update(@Param('id') id: string, @Body() dto: UpdateFarmDto, @IfMatch() ifMatch?: IfMatchVersions) {
+ *   return this.farmsService.update(id, dto, ifMatch);
+ * }
+ * ```
+ */
+export const IfMatch = createParamDecorator(
+	(_data: unknown, context: ExecutionContext): IfMatchVersions | undefined => {
+		const header = context.switchToHttp().getRequest<Request>().headers["if-match"];
+
+		return header === undefined ? undefined : parseIfMatch(header);
+	},
+);
@@ -1,2 +1,9 @@
 export * from "./city-in-state.decorator";
+export * from "./crop-code.decorator";
+export * from "./farm-boundary.decorator";
+export * from "./if-match.decorator";
+export * from "./inscricao-estadual.decorator";
+export * from "./phone.decorator";
+export * from "./postal-code.decorator";
 export * from "./public.decorator";
+export * from "./roles.decorator";
@@ -0,0 +1,97 @@
+import {
+	registerDecorator,
+	ValidationArguments,
+	ValidationOptions,
+	ValidatorConstraint,
+	ValidatorConstraintInterface,
+} from "class-validator";
+
+import type { BrazilianState } from "@agro/shared/enums";
+
+import { validateInscricaoEstadual } from "@agro/shared/validators";
+
+/**
+ * Validates that a value is a state registration (Inscrição Estadual) of the specified state
+ *
+ * Accepts formatted or unformatted numbers and checks them against the length,
+ * prefix and check digit rules of the state. Relies on the `state` property
+ * being present in the DTO.
+ *
+ * @example
+ * ```typescript
+ * class ProducerStateRegistrationDto {
+ *   @IsEnum(BrazilianState)
+ *   state: BrazilianState;
+ *
+ *   @IsInscricaoEstadual()
+ *   number: string;
+ * }
+ * ```
+ */
+@ValidatorConstraint({ name: "IsInscricaoEstadual", async: false })
+export class IsInscricaoEstadualConstraint implements ValidatorConstraintInterface {
+	/**
+	 * Validates the registration against the rules of its state
+	 *
+	 * @param ie Registration number to validate
+	 * @param args Validation arguments containing the DTO object
+	 *
+	 * @returns `true` if the registration is valid in the state, `false` otherwise
+	 */
+	public validate(ie: unknown, args: ValidationArguments): boolean {
+		const { state } = args.object as { state?: BrazilianState };
+
+		if (!state || typeof ie !== "string") return false;
+
+		return validateInscricaoEstadual(ie, state);
+	}
+
+	/**
+	 * Returns validation error message
+	 *
+	 * @param args Validation arguments containing the DTO object and value
+	 *
+	 * @returns Error message string
+	 */
+	public defaultMessage(args: ValidationArguments): string {
+		const { state } = args.object as { state?: BrazilianState };
+
+		if (!state) {
+			return "State must be provided to validate the state registration";
+		}
+
+		return `'${String(args.value)}' is not a valid state registration of '${state}'`;
+	}
+}
+
+/**
+ * Decorator that validates state registrations (Inscrição Estadual)
+ *
+ * Requires a `state` property to be present in the same DTO.
+ *
+ * @param validationOptions Optional class-validator options
+ *
+ * @returns PropertyDecorator
+ *
+ * @example
+ * ```typescript
+ * class ProducerStateRegistrationDto {
+ *   @IsEnum(BrazilianState)
+ *   state: BrazilianState;
+ *
+ *   @IsInscricaoEstadual({ message: "Invalid state registration" })
+ *   number: string;
+ * }
+ * ```
+ */
+export function IsInscricaoEstadual(validationOptions?: ValidationOptions) {
+	return function (object: object, propertyName: string) {
+		registerDecorator({
+			target: object.constructor,
+			propertyName: propertyName,
+			options: validationOptions,
+			constraints: [],
+			validator: IsInscricaoEstadualConstraint,
+		});
+	};
+}
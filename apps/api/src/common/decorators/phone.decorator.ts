@@ -0,0 +1,77 @@
+import {
+	registerDecorator,
+	ValidationArguments,
+	ValidationOptions,
+	ValidatorConstraint,
+	ValidatorConstraintInterface,
+} from "class-validator";
+
+import { validatePhone } from "@agro/shared/validators";
+
+/**
+ * Validates that a value is a Brazilian landline or mobile phone number
+ *
+ * Accepts formatted or unformatted numbers, with or without the `+55` country
+ * code, as long as they start with an area code (DDD) in use.
+ *
+ * @example
+ * ```typescript
+ * class CreateProducerDto {
+ *   @IsPhone({ each: true })
+ *   phones?: Array<string>;
+ * }
+ * ```
+ */
+@ValidatorConstraint({ name: "IsPhone", async: false })
+export class IsPhoneConstraint implements ValidatorConstraintInterface {
+	/**
+	 * Validates the phone number
+	 *
+	 * @param phone Phone number to validate
+	 *
+	 * @returns `true` if the phone number is valid, `false` otherwise
+	 */
+	public validate(phone: unknown): boolean {
+		return typeof phone === "string" && validatePhone(phone);
+	}
+
+	/**
+	 * Returns validation error message
+	 *
+	 * @param args Validation arguments containing the value
+	 *
+	 * @returns Error message string
+	 */
+	public defaultMessage(args: ValidationArguments): string {
+		return `'${String(args.value)}' is not a valid phone number with area code`;
+	}
+}
+
+/**
+ * Decorator that validates Brazilian phone numbers
+ *
+ * @param validationOptions Optional class-validator options, `each` validating every item of an array
+ *
+ * @returns PropertyDecorator
+ *
+ * @example
+ * ```typescript
+ * class CreateProducerDto {
+ *   @IsOptional()
+ *   @IsArray()
+ *   @IsPhone({ each: true })
+ *   phones?: Array<string>;
+ * }
+ * ```
+ */
+export function IsPhone(validationOptions?: ValidationOptions) {
+	return function (object: object, propertyName: string) {
+		registerDecorator({
+			target: object.constructor,
+			propertyName: propertyName,
+			options: validationOptions,
+			constraints: [],
+			validator: IsPhoneConstraint,
+		});
+	};
+}
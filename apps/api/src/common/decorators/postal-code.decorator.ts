@@ -0,0 +1,75 @@
+import {
+	registerDecorator,
+	ValidationArguments,
+	ValidationOptions,
+	ValidatorConstraint,
+	ValidatorConstraintInterface,
+} from "class-validator";
+
+import { validateCEP } from "@agro/shared/validators";
+
+/**
+ * Validates that a value is a well-formed Brazilian postal code (CEP)
+ *
+ * Accepts eight digits, optionally formatted as `NNNNN-NNN`. Only the format
+ * is checked, not whether the CEP is assigned to an address.
+ *
+ * @example
+ * ```typescript
+ * class ProducerAddressDto {
+ *   @IsCEP()
+ *   postalCode: string;
+ * }
+ * ```
+ */
+@ValidatorConstraint({ name: "IsCEP", async: false })
+export class IsCEPConstraint implements ValidatorConstraintInterface {
+	/**
+	 * Validates the CEP format
+	 *
+	 * @param cep CEP to validate
+	 *
+	 * @returns `true` if the CEP is well-formed, `false` otherwise
+	 */
+	public validate(cep: unknown): boolean {
+		return typeof cep === "string" && validateCEP(cep);
+	}
+
+	/**
+	 * Returns validation error message
+	 *
+	 * @param args Validation arguments containing the value
+	 *
+	 * @returns Error message string
+	 */
+	public defaultMessage(args: ValidationArguments): string {
+		return `'${String(args.value)}' is not a valid CEP`;
+	}
+}
+
+/**
+ * Decorator that validates the format of a Brazilian postal code (CEP)
+ *
+ * @param validationOptions Optional class-validator options
+ *
+ * @returns PropertyDecorator
+ *
+ * @example
+ * ```typescript
+ * class ProducerAddressDto {
+ *   @IsCEP({ message: "Postal code must be a valid CEP" })
+ *   postalCode: string;
+ * }
+ * ```
+ */
+export function IsCEP(validationOptions?: ValidationOptions) {
+	return function (object: object, propertyName: string) {
+		registerDecorator({
+			target: object.constructor,
+			propertyName: propertyName,
+			options: validationOptions,
+			constraints: [],
+			validator: IsCEPConstraint,
+		});
+	};
+}
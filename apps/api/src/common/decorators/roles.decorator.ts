@@ -0,0 +1,29 @@
+import { SetMetadata } from "@nestjs/common";
+
+import type { CustomDecorator } from "@nestjs/common";
+
+import type { UserRole } from "@agro/shared/enums";
+
+/**
+ * Metadata key for the roles allowed to access a route.
+ */
+export const ROLES_KEY = "roles";
+
+/**
+ * Decorator to restrict routes to users with one of the given roles.
+ *
+ * Routes without this decorator are accessible to every authenticated user.
+ * Enforced by the {@link RolesGuard}.
+ *
+ * @param roles The roles allowed to access the route
+ *
+ * @example
+ * ```typescript
+ * @Roles(UserRole.Admin)
+ * @Delete(':id/purge')
+ * async purge(@Param('id') id: string) {
+ *   return this.producersService.purge(id);
+ * }
+ * ```
+ */
+export const Roles = (...roles: Array<UserRole>): CustomDecorator => SetMetadata(ROLES_KEY, roles);
@@ -1,4 +1,10 @@
-import { BadRequestException, HttpException, HttpStatus } from "@nestjs/common";
+import {
+	BadRequestException,
+	ConflictException,
+	HttpException,
+	HttpStatus,
+	InternalServerErrorException,
+} from "@nestjs/common";
 import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
 import { Logger } from "nestjs-pino";
 
@@ -62,6 +68,7 @@ describe("HttpExceptionFilter", () => {
 		};
 
 		mockHost = {
+			getType: () => "http",
 			switchToHttp: () => ({
 				getResponse: () => mockResponse,
 				getRequest: () => mockRequest,
@@ -143,6 +150,22 @@ describe("HttpExceptionFilter", () => {
 			);
 		});
 
+		it("should log searches by their length only", () => {
+			mockRequest.url = "/api/producers?search=52998224725";
+			mockRequest.query = { search: "52998224725" };
+
+			filter.catch(new BadRequestException("Bad input"), mockHost);
+
+			expect(logger.warn).toHaveBeenCalledWith(
+				expect.objectContaining({
+					http: expect.objectContaining({
+						url: "/api/producers?search=[11 characters]",
+						query: { search: "[11 characters]" },
+					}),
+				}),
+			);
+		});
+
 		it("should log 5xx errors as errors", () => {
 			const exception = new HttpException("Server error", HttpStatus.INTERNAL_SERVER_ERROR);
 
@@ -193,6 +216,18 @@ describe("HttpExceptionFilter", () => {
 			);
 		});
 
+		it("should mask producer documents in the logged request body", () => {
+			mockRequest.body = { name: "João Silva", document: "111.444.777-35" };
+
+			filter.catch(new ConflictException("A producer with this document already exists"), mockHost);
+
+			expect(logger.warn).toHaveBeenCalledWith(
+				expect.objectContaining({
+					requestBody: { name: "João Silva", document: "***.444.777-**" },
+				}),
+			);
+		});
+
 		it("should not include request body for server errors", () => {
 			mockRequest.body = { field: "value" };
 			const exception = new HttpException("Server error", HttpStatus.INTERNAL_SERVER_ERROR);
@@ -214,5 +249,33 @@ describe("HttpExceptionFilter", () => {
 				}),
 			);
 		});
+
+		describe("in GraphQL resolvers", () => {
+			let graphqlHost: ArgumentsHost;
+
+			beforeEach(() => {
+				graphqlHost = {
+					getType: () => "graphql",
+					getArgs: () => [{}, {}, { req: mockRequest }, {}],
+				} as unknown as ArgumentsHost;
+			});
+
+			it("should log and rethrow HttpExceptions for Apollo to report", () => {
+				const exception = new BadRequestException("Invalid input");
+
+				expect(() => filter.catch(exception, graphqlHost)).toThrow(exception);
+				expect(logger.warn).toHaveBeenCalledWith(
+					expect.objectContaining({ msg: "Client error occurred" }),
+				);
+				expect(mockResponse.json).not.toHaveBeenCalled();
+			});
+
+			it("should rethrow unexpected errors without their details", () => {
+				const exception = new Error("SQLITE_CONSTRAINT: FOREIGN KEY constraint failed");
+
+				expect(() => filter.catch(exception, graphqlHost)).toThrow(InternalServerErrorException);
+				expect(logger.error).toHaveBeenCalled();
+			});
+		});
 	});
 });
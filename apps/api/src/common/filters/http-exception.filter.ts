@@ -1,10 +1,23 @@
-import { ArgumentsHost, Catch, HttpException, HttpStatus } from "@nestjs/common";
+import {
+	ArgumentsHost,
+	Catch,
+	HttpException,
+	HttpStatus,
+	InternalServerErrorException,
+} from "@nestjs/common";
+import { GqlArgumentsHost } from "@nestjs/graphql";
 import { Logger } from "nestjs-pino";
 
 import type { ExceptionFilter } from "@nestjs/common";
+import type { GqlContextType } from "@nestjs/graphql";
 import type { Request, Response } from "express";
 
 import { correlationIdStorage } from "../interceptors/correlation-id.interceptor";
+import {
+	redactBodyDocument,
+	redactSearchQuery,
+	redactSearchUrl,
+} from "../utils/log-redaction.util";
 
 /**
  * Error response structure returned by the exception filter.
@@ -36,7 +49,9 @@ interface ErrorResponse {
  *
  * Provides consistent error response format, includes correlation IDs,
  * and logs errors with full context for debugging. Handles both NestJS
- * HttpExceptions and unexpected runtime errors.
+ * HttpExceptions and unexpected runtime errors. Exceptions of GraphQL
+ * resolvers are logged and rethrown, so Apollo reports them in the
+ * `errors` of the GraphQL response, unexpected errors without their details.
  *
  * @example
  * ```typescript
@@ -55,6 +70,15 @@ export class HttpExceptionFilter implements ExceptionFilter {
 	 * @param host ArgumentsHost providing access to request/response
 	 */
 	catch(exception: unknown, host: ArgumentsHost): void {
+		if (host.getType<GqlContextType>() === "graphql") {
+			const { req } = GqlArgumentsHost.create(host).getContext<{ req: Request }>();
+			const { statusCode } = this.parseException(exception);
+
+			this.logException(exception, req, correlationIdStorage.getStore(), statusCode);
+
+			throw exception instanceof HttpException ? exception : new InternalServerErrorException();
+		}
+
 		const ctx = host.switchToHttp();
 		const response = ctx.getResponse<Response>();
 		const request = ctx.getRequest<Request>();
@@ -136,7 +160,8 @@ export class HttpExceptionFilter implements ExceptionFilter {
 		correlationId: string | undefined,
 		statusCode: HttpStatus,
 	): void {
-		const { method, url, headers, query } = request;
+		const { method, headers } = request;
+		const url = redactSearchUrl(request.url);
 
 		if (statusCode === HttpStatus.NOT_FOUND) {
 			this.logger.debug({
@@ -155,7 +180,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 			http: {
 				method,
 				url,
-				query,
+				query: redactSearchQuery(request.query),
 				statusCode,
 				userAgent: headers["user-agent"],
 			},
@@ -165,7 +190,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 				...(isServerError && exception instanceof Error && { stack: exception.stack }),
 			},
 			...(!isServerError &&
-				statusCode >= HttpStatus.BAD_REQUEST && { requestBody: request.body as unknown }),
+				statusCode >= HttpStatus.BAD_REQUEST && { requestBody: redactBodyDocument(request.body) }),
 		};
 
 		if (isServerError) {
@@ -2,14 +2,18 @@ import { ExecutionContext, Injectable } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
 import { AuthGuard } from "@nestjs/passport";
 
+import type { Request } from "express";
+
 import { IS_PUBLIC_KEY } from "../decorators/public.decorator";
+import { getRequestResponse } from "../utils/execution-context.util";
 
 /**
  * JWT authentication guard for protecting routes.
  *
  * Validates JWT tokens from the Authorization header and attaches
  * user information to the request. Routes marked with `@Public()`
- * decorator bypass authentication.
+ * decorator bypass authentication. GraphQL resolvers are protected
+ * the same way, through the request behind the GraphQL context.
  *
  * @example
  * ```typescript
@@ -49,4 +53,15 @@ export class JwtAuthGuard extends AuthGuard("jwt") {
 
 		return super.canActivate(context);
 	}
+
+	/**
+	 * Resolves the request to authenticate, for route handlers and resolvers alike.
+	 *
+	 * @param context The execution context containing request metadata
+	 *
+	 * @returns The request being handled
+	 */
+	override getRequest(context: ExecutionContext): Request {
+		return getRequestResponse(context).request;
+	}
 }
@@ -0,0 +1,57 @@
+import { ForbiddenException, Injectable } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+
+import type { CanActivate, ExecutionContext } from "@nestjs/common";
+
+import type { UserRole } from "@agro/shared/enums";
+
+import type { AuthenticatedUser } from "@/modules/auth/interfaces/jwt-payload.interface";
+
+import { ROLES_KEY } from "../decorators/roles.decorator";
+import { getRequestResponse } from "../utils/execution-context.util";
+
+/**
+ * Role-based authorization guard.
+ *
+ * Allows access to routes marked with the `@Roles()` decorator only to users
+ * holding one of the given roles. Must run after the {@link JwtAuthGuard}, which
+ * attaches the authenticated user to the request.
+ *
+ * @example
+ * ```typescript
+ * // Apply globally in app.module.ts, after the JWT guard
+ * { provide: APP_GUARD, useFactory: (reflector: Reflector) => new RolesGuard(reflector), inject: [Reflector] }
+ * ```
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+	constructor(private reflector: Reflector) {}
+
+	/**
+	 * Determines if the current user holds one of the roles required by the route.
+	 *
+	 * @param context The execution context containing request metadata
+	 *
+	 * @returns `true` if the route requires no role or the user holds one of them
+	 *
+	 * @throws {ForbiddenException} If the user does not hold any of the required roles
+	 */
+	canActivate(context: ExecutionContext): boolean {
+		const roles = this.reflector.getAllAndOverride<Array<UserRole> | undefined>(ROLES_KEY, [
+			context.getHandler(),
+			context.getClass(),
+		]);
+
+		if (!roles?.length) {
+			return true;
+		}
+
+		const { user } = getRequestResponse(context).request as { user?: AuthenticatedUser };
+
+		if (!user || !roles.includes(user.role)) {
+			throw new ForbiddenException("You do not have permission to perform this operation");
+		}
+
+		return true;
+	}
+}
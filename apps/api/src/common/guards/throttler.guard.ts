@@ -0,0 +1,45 @@
+import { Injectable } from "@nestjs/common";
+import { ThrottlerGuard } from "@nestjs/throttler";
+
+import type { ExecutionContext } from "@nestjs/common";
+
+import { getRequestResponse } from "../utils/execution-context.util";
+
+/**
+ * Rate limiting guard for route handlers and GraphQL resolvers.
+ *
+ * Counts requests per client IP like {@link ThrottlerGuard}, resolving the
+ * request and response of GraphQL operations through the GraphQL context.
+ *
+ * @example
+ * ```typescript
+ * // In app.module.ts
+ * providers: [
+ *   {
+ *     provide: APP_GUARD,
+ *     useClass: AppThrottlerGuard,
+ *   },
+ * ]
+ * ```
+ */
+@Injectable()
+export class AppThrottlerGuard extends ThrottlerGuard {
+	/**
+	 * Resolves the request and response to rate limit.
+	 *
+	 * @param context The execution context containing request metadata
+	 *
+	 * @returns The request being handled and its response
+	 */
+	protected override getRequestResponse(context: ExecutionContext): {
+		req: Record<string, unknown>;
+		res: Record<string, unknown>;
+	} {
+		const { request, response } = getRequestResponse(context);
+
+		return {
+			req: request as unknown as Record<string, unknown>,
+			res: response as unknown as Record<string, unknown>,
+		};
+	}
+}
@@ -6,7 +6,8 @@ import { Observable } from "rxjs";
 import { tap } from "rxjs/operators";
 
 import type { CallHandler, ExecutionContext, NestInterceptor } from "@nestjs/common";
-import type { Request, Response } from "express";
+
+import { getRequestResponse } from "../utils/execution-context.util";
 
 /**
  * Storage for correlation ID throughout the request lifecycle.
@@ -45,8 +46,7 @@ export class CorrelationIdInterceptor implements NestInterceptor {
 	 * @returns Observable that completes when request handling finishes
 	 */
 	intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
-		const request = context.switchToHttp().getRequest<Request>();
-		const response = context.switchToHttp().getResponse<Response>();
+		const { request, response } = getRequestResponse(context);
 
 		const headerValue = request.headers["x-correlation-id"];
 		const correlationId =
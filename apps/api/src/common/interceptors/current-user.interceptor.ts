@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { Injectable } from "@nestjs/common";
+import { Observable } from "rxjs";
+
+import type { CallHandler, ExecutionContext, NestInterceptor } from "@nestjs/common";
+
+import type { Permission } from "@agro/shared/enums";
+
+import type { AuthenticatedUser } from "@/modules/auth/interfaces/jwt-payload.interface";
+
+import { hasPermission } from "@agro/shared/utils";
+
+import { getRequestResponse } from "../utils/execution-context.util";
+
+/**
+ * Storage for the authenticated user throughout the request lifecycle.
+ *
+ * Lets code without access to the request, such as TypeORM subscribers,
+ * know which user performed an operation.
+ */
+export const currentUserStorage = new AsyncLocalStorage<AuthenticatedUser>();
+
+/**
+ * Tells whether the authenticated user of the current request is granted a permission.
+ *
+ * Code running outside of an authenticated request, such as seeding, is granted none.
+ *
+ * @param permission Permission to check
+ *
+ * @returns `true` if the current user's role is granted the permission, `false` otherwise
+ */
+export function currentUserHasPermission(permission: Permission): boolean {
+	return hasPermission(currentUserStorage.getStore()?.role, permission);
+}
+
+/**
+ * Intercepts HTTP requests to make the authenticated user available through
+ * {@link currentUserStorage}.
+ *
+ * Interceptors run after guards, so the user attached by the JWT guard is
+ * already on the request. Public routes run without a stored user.
+ *
+ * @example
+ * ```typescript
+ * // In app.module.ts
+ * providers: [
+ *   {
+ *     provide: APP_INTERCEPTOR,
+ *     useClass: CurrentUserInterceptor,
+ *   },
+ * ]
+ * ```
+ */
+@Injectable()
+export class CurrentUserInterceptor implements NestInterceptor {
+	/**
+	 * Intercepts incoming requests to store the authenticated user.
+	 *
+	 * @param context {@link ExecutionContext} providing access to the request
+	 * @param next {@link CallHandler} to proceed with request handling
+	 *
+	 * @returns Observable that completes when request handling finishes
+	 */
+	intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+		const { user } = getRequestResponse(context).request as { user?: AuthenticatedUser };
+
+		if (!user) {
+			return next.handle();
+		}
+
+		return new Observable((subscriber) => {
+			currentUserStorage.run(user, () => {
+				next.handle().subscribe(subscriber);
+			});
+		});
+	}
+}
@@ -0,0 +1,52 @@
+import { Injectable } from "@nestjs/common";
+import { Observable } from "rxjs";
+import { tap } from "rxjs/operators";
+
+import type { CallHandler, ExecutionContext, NestInterceptor } from "@nestjs/common";
+import type { Response } from "express";
+
+import { toETag } from "@agro/shared/utils";
+
+/**
+ * Sets the `ETag` response header from the `version` of the returned resource.
+ *
+ * Clients send the tag back in `If-Match` when updating or deleting the
+ * resource, so a stale copy cannot overwrite someone else's changes.
+ * Responses without a numeric `version` are left untouched.
+ *
+ * @example
+ * ```typescript
+ * @Get(":id")
+ * @UseInterceptors(ETagInterceptor)
+ * async findOne(@Param("id", ParseUUIDPipe) id: string): Promise<FarmResponseDto> {
+ *   return this.farmsService.findOne(id);
+ * }
+ * ```
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+	/**
+	 * Intercepts the response to add the `ETag` header.
+	 *
+	 * @param context {@link ExecutionContext} providing access to the response
+	 * @param next {@link CallHandler} to proceed with request handling
+	 *
+	 * @returns Observable of the unchanged response data
+	 */
+	intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+		const response = context.switchToHttp().getResponse<Response>();
+
+		return next.handle().pipe(
+			tap((data: unknown) => {
+				if (
+					typeof data === "object" &&
+					data !== null &&
+					"version" in data &&
+					typeof data.version === "number"
+				) {
+					response.setHeader("ETag", toETag(data.version));
+				}
+			}),
+		);
+	}
+}
@@ -1,3 +1,5 @@
 export * from "./correlation-id.interceptor";
+export * from "./current-user.interceptor";
+export * from "./etag.interceptor";
 export * from "./logging.interceptor";
 export * from "./transform.interceptor";
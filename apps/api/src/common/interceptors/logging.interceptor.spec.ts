@@ -58,6 +58,7 @@ describe("LoggingInterceptor", () => {
 		interceptor = new LoggingInterceptor(logger);
 
 		mockContext = {
+			getType: () => "http",
 			switchToHttp: () => ({
 				getRequest: () => mockRequest,
 				getResponse: () => mockResponse,
@@ -151,6 +152,7 @@ describe("LoggingInterceptor", () => {
 		it("should skip logging for health check endpoints", (done) => {
 			const healthRequest = { ...mockRequest, url: "/api/health" };
 			const healthContext = {
+				getType: () => "http",
 				switchToHttp: () => ({
 					getRequest: () => healthRequest,
 					getResponse: () => mockResponse,
@@ -174,6 +176,7 @@ describe("LoggingInterceptor", () => {
 			};
 
 			const sensitiveContext = {
+				getType: () => "http",
 				switchToHttp: () => ({
 					getRequest: () => sensitiveRequest,
 					getResponse: () => mockResponse,
@@ -198,6 +201,63 @@ describe("LoggingInterceptor", () => {
 			});
 		});
 
+		it("should mask producer documents in request body", (done) => {
+			const producerRequest = {
+				...mockRequest,
+				body: { name: "João Silva", document: "111.444.777-35" },
+			};
+
+			const producerContext = {
+				getType: () => "http",
+				switchToHttp: () => ({
+					getRequest: () => producerRequest,
+					getResponse: () => mockResponse,
+				}),
+			} as unknown as ExecutionContext;
+
+			correlationIdStorage.run("test-id", () => {
+				interceptor.intercept(producerContext, mockCallHandler).subscribe(() => {
+					const logCall = logger.info.mock.calls[0]?.[0] as Record<string, unknown>;
+					const httpBody = (logCall["http"] as Record<string, unknown>)["body"] as Record<
+						string,
+						unknown
+					>;
+
+					expect(httpBody).toEqual({ name: "João Silva", document: "***.444.777-**" });
+					done();
+				});
+			});
+		});
+
+		it("should log searches by their length only", (done) => {
+			const searchRequest = {
+				...mockRequest,
+				url: "/api/search?q=529.982.247-25&limit=5",
+				query: { q: "529.982.247-25", limit: "5" },
+			};
+
+			const searchContext = {
+				getType: () => "http",
+				switchToHttp: () => ({
+					getRequest: () => searchRequest,
+					getResponse: () => mockResponse,
+				}),
+			} as unknown as ExecutionContext;
+
+			correlationIdStorage.run("test-id", () => {
+				interceptor.intercept(searchContext, mockCallHandler).subscribe(() => {
+					const [requestLog, responseLog] = logger.info.mock.calls.map(
+						([call]) => (call as Record<string, Record<string, unknown>>)["http"],
+					);
+
+					expect(requestLog?.["url"]).toBe("/api/search?q=[14 characters]&limit=5");
+					expect(requestLog?.["query"]).toEqual({ q: "[14 characters]", limit: "5" });
+					expect(responseLog?.["url"]).toBe("/api/search?q=[14 characters]&limit=5");
+					done();
+				});
+			});
+		});
+
 		it("should extract IP from X-Forwarded-For header", (done) => {
 			const requestWithProxy = {
 				...mockRequest,
@@ -208,6 +268,7 @@ describe("LoggingInterceptor", () => {
 			};
 
 			const proxyContext = {
+				getType: () => "http",
 				switchToHttp: () => ({
 					getRequest: () => requestWithProxy,
 					getResponse: () => mockResponse,
@@ -236,6 +297,7 @@ describe("LoggingInterceptor", () => {
 			};
 
 			const realIpContext = {
+				getType: () => "http",
 				switchToHttp: () => ({
 					getRequest: () => requestWithRealIp,
 					getResponse: () => mockResponse,
@@ -262,6 +324,7 @@ describe("LoggingInterceptor", () => {
 			};
 
 			const directContext = {
+				getType: () => "http",
 				switchToHttp: () => ({
 					getRequest: () => requestWithoutProxy,
 					getResponse: () => mockResponse,
@@ -6,12 +6,20 @@ import { tap } from "rxjs/operators";
 import type { CallHandler, ExecutionContext, NestInterceptor } from "@nestjs/common";
 import type { Request, Response } from "express";
 
+import { getRequestResponse } from "../utils/execution-context.util";
+import {
+	redactBodyDocument,
+	redactSearchQuery,
+	redactSearchUrl,
+} from "../utils/log-redaction.util";
+
 import { correlationIdStorage } from "./correlation-id.interceptor";
 
 /**
  * Intercepts HTTP requests to log request and response details for observability.
  *
  * Logs incoming requests with method, URL, query params, headers, and sanitized body.
+ * Searches typed by users are logged by their length only, since they may hold CPFs.
  * Logs outgoing responses with status code, duration, and response size.
  * Automatically excludes health check endpoints from logging to reduce noise.
  *
@@ -55,8 +63,7 @@ export class LoggingInterceptor implements NestInterceptor {
 	 * @returns Observable that completes when request handling finishes
 	 */
 	intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
-		const request = context.switchToHttp().getRequest<Request>();
-		const response = context.switchToHttp().getResponse<Response>();
+		const { request, response } = getRequestResponse(context);
 
 		const shouldSkipLogging = this.excludedPaths.some((path) => request.url.startsWith(path));
 		if (shouldSkipLogging) return next.handle();
@@ -92,8 +99,8 @@ export class LoggingInterceptor implements NestInterceptor {
 			correlationId,
 			http: {
 				method,
-				url,
-				query,
+				url: redactSearchUrl(url),
+				query: redactSearchQuery(query),
 				userAgent: headers["user-agent"],
 				ip: this.getClientIp(request),
 				body: this.sanitizeBody(request.body),
@@ -126,7 +133,7 @@ export class LoggingInterceptor implements NestInterceptor {
 		this.logger.info({
 			msg: "Outgoing response",
 			correlationId,
-			http: { method, url, statusCode, duration, responseSize },
+			http: { method, url: redactSearchUrl(url), statusCode, duration, responseSize },
 		});
 	}
 
@@ -153,7 +160,7 @@ export class LoggingInterceptor implements NestInterceptor {
 		this.logger.error({
 			msg: "Request failed",
 			correlationId,
-			http: { method, url, statusCode, duration },
+			http: { method, url: redactSearchUrl(url), statusCode, duration },
 			error: { name: error.name, message: error.message, stack: error.stack },
 		});
 	}
@@ -161,6 +168,9 @@ export class LoggingInterceptor implements NestInterceptor {
 	/**
 	 * Sanitizes request body by removing sensitive fields.
 	 *
+	 * Producer documents are personal data under the LGPD, so CPFs are masked
+	 * as in API responses.
+	 *
 	 * @param body Request body object
 	 *
 	 * @returns Sanitized body with sensitive fields masked
@@ -178,7 +188,7 @@ export class LoggingInterceptor implements NestInterceptor {
 			}
 		}
 
-		return sanitized;
+		return redactBodyDocument(sanitized);
 	}
 
 	/**
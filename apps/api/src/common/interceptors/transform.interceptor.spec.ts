@@ -15,7 +15,7 @@ import { TransformInterceptor } from "./transform.interceptor";
 
 describe("TransformInterceptor", () => {
 	let interceptor: TransformInterceptor<unknown>;
-	const mockContext = {} as ExecutionContext;
+	const mockContext = { getType: () => "http" } as unknown as ExecutionContext;
 	const DEFAULT_CORRELATION_ID = "default-correlation-id";
 
 	beforeEach(() => {
@@ -183,6 +183,18 @@ describe("TransformInterceptor", () => {
 			});
 		});
 
+		it("should not wrap GeoJSON documents", (done) => {
+			const featureCollection = { type: "FeatureCollection", features: [] };
+			const mockCallHandler: CallHandler = {
+				handle: () => of(featureCollection),
+			};
+
+			interceptor.intercept(mockContext, mockCallHandler).subscribe((result) => {
+				expect(result as unknown).toEqual(featureCollection);
+				done();
+			});
+		});
+
 		it("should work without correlation ID", (done) => {
 			const mockCallHandler: CallHandler = {
 				handle: () => of({ value: "test" }),
@@ -3,6 +3,7 @@ import { Observable } from "rxjs";
 import { map } from "rxjs/operators";
 
 import type { CallHandler, ExecutionContext, NestInterceptor } from "@nestjs/common";
+import type { GqlContextType } from "@nestjs/graphql";
 
 import { correlationIdStorage } from "./correlation-id.interceptor";
 
@@ -62,7 +63,9 @@ export interface PaginatedData<T> {
  *
  * Automatically wraps all successful responses in `{ data, meta }` structure.
  * Includes correlation ID, timestamp, and pagination metadata (if applicable).
- * Does not transform error responses (handled by HttpExceptionFilter).
+ * Does not transform error responses (handled by HttpExceptionFilter), nor
+ * GeoJSON documents, whose structure is defined by RFC 7946, nor GraphQL
+ * results, whose structure is defined by the query.
  *
  * @template T Type of the response data
  *
@@ -115,10 +118,15 @@ export class TransformInterceptor<T> implements NestInterceptor<T, TransformedRe
 	 * @returns Observable of transformed response
 	 */
 	intercept(context: ExecutionContext, next: CallHandler): Observable<TransformedResponse<T>> {
+		if (context.getType<GqlContextType>() === "graphql") return next.handle();
+
 		const correlationId = correlationIdStorage.getStore();
 
 		return next.handle().pipe(
 			map((data: T) => {
+				// GeoJSON documents are sent as-is, so clients can consume them directly
+				if (this.isGeoJsonDocument(data)) return data as unknown as TransformedResponse<T>;
+
 				const meta: ResponseMeta = {
 					timestamp: new Date().toISOString(),
 					correlationId,
@@ -155,4 +163,20 @@ export class TransformInterceptor<T> implements NestInterceptor<T, TransformedRe
 			Array.isArray((data as PaginatedData<unknown>).items)
 		);
 	}
+
+	/**
+	 * Checks whether data is a GeoJSON FeatureCollection or Feature.
+	 *
+	 * @param data Response data to check
+	 *
+	 * @returns `true` if data is a GeoJSON document, `false` otherwise
+	 */
+	private isGeoJsonDocument(data: unknown): boolean {
+		return (
+			typeof data === "object" &&
+			data != null &&
+			"type" in data &&
+			(data.type === "FeatureCollection" || data.type === "Feature")
+		);
+	}
 }
@@ -4,9 +4,10 @@
  * Contains configuration values unique to the API application.
  */
 
-import { LogLevel, RuntimeEnvironment, SupportedLocale } from "@agro/shared/enums";
+import { ExportFormat, LogLevel, RuntimeEnvironment, SupportedLocale } from "@agro/shared/enums";
 
 import { SeedScale } from "@/database/seeds/seed.constants";
+import { BoundaryAreaMismatchMode, GEOJSON_MEDIA_TYPE } from "@/modules/farms/farms.constants";
 
 import { description, version } from "../../../package.json";
 
@@ -30,6 +31,8 @@ export const environmentDefaults = {
 	API__IBGE_API_BASE_URL: "https://servicodados.ibge.gov.br/api/v1/localidades",
 	API__LOCALE: SupportedLocale.Portuguese,
 	API__SALT_ROUNDS: 10,
+	API__FARM_BOUNDARY_AREA_TOLERANCE: 10,
+	API__FARM_BOUNDARY_AREA_MISMATCH: BoundaryAreaMismatchMode.Warn,
 } as const;
 
 /** API Application metadata */
@@ -56,6 +59,16 @@ export const PAGINATION = {
 	minLimit: 1,
 } as const;
 
+/** Number of records read from the database at a time when exporting lists */
+export const EXPORT_BATCH_SIZE = 500;
+
+/** Media type of the exported files, per export format */
+export const EXPORT_MEDIA_TYPES = {
+	[ExportFormat.Csv]: "text/csv; charset=utf-8",
+	[ExportFormat.Xlsx]: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	[ExportFormat.GeoJson]: GEOJSON_MEDIA_TYPE,
+} as const satisfies Record<ExportFormat, string>;
+
 /** Request timeout configurations (in milliseconds) */
 export const TIMEOUTS = {
 	/** Default request timeout */
@@ -0,0 +1,197 @@
+import { BadRequestException } from "@nestjs/common";
+import { Brackets } from "typeorm";
+
+import type { ObjectLiteral, SelectQueryBuilder } from "typeorm";
+
+import { SortOrder } from "@agro/shared/enums";
+
+/** Options of a cursor paginated query */
+export interface CursorPaginationOptions {
+	/** Alias of the paginated entity in the query */
+	alias: string;
+
+	/** Property the results are sorted by */
+	sortBy: string;
+
+	/**
+	 * SQL expression computing the sort value, when sorting by an aggregate
+	 * rather than a property. The query must select it under the `sortBy` alias.
+	 */
+	sortExpression?: string;
+
+	/** Direction of the sort */
+	sortOrder: SortOrder;
+
+	/** Cursor returned with the previous page, or empty for the first page */
+	cursor?: string;
+
+	/** Number of results per page */
+	limit: number;
+}
+
+/** A page of cursor paginated results */
+export interface CursorPage<T> {
+	/** Results of the page, in order */
+	items: Array<T>;
+
+	/** Cursor of the next page, or `null` on the last page */
+	nextCursor: string | null;
+}
+
+/** Position of the last result of a page, encoded in the cursor of the next page */
+interface CursorPosition {
+	/** Property the results were sorted by */
+	sortBy: string;
+
+	/** Direction of the sort */
+	sortOrder: SortOrder;
+
+	/** Value of the sort property of the last result, dates as ISO 8601 */
+	value: string | number;
+
+	/** Whether the sort property is a date */
+	isDate: boolean;
+
+	/** ID of the last result, breaking ties between equal values */
+	id: string;
+}
+
+/**
+ * Normalizes SQLite datetimes, so values written with and without milliseconds compare equal.
+ *
+ * @param expression SQL expression of the datetime
+ *
+ * @returns SQL expression of the datetime as `YYYY-MM-DD HH:MM:SS.SSS`
+ */
+const normalizeDatetime = (expression: string): string =>
+	`strftime('%Y-%m-%d %H:%M:%f', ${expression})`;
+
+/**
+ * Encodes the position of a result as an opaque cursor.
+ *
+ * @param position Sort and position of the last result of a page
+ *
+ * @returns Base64url cursor
+ */
+function encodeCursor(position: CursorPosition): string {
+	return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor, checking it was issued for the requested sort.
+ *
+ * @param cursor Cursor returned with the previous page
+ * @param sortBy Property the results are sorted by
+ * @param sortOrder Direction of the sort
+ *
+ * @returns Position of the last result of the previous page
+ *
+ * @throws {BadRequestException} If the cursor is malformed or was issued for another sort
+ */
+function decodeCursor(cursor: string, sortBy: string, sortOrder: SortOrder): CursorPosition {
+	let position: Partial<CursorPosition>;
+
+	try {
+		position = JSON.parse(Buffer.from(cursor, "base64url").toString()) as Partial<CursorPosition>;
+	} catch {
+		throw new BadRequestException("Invalid cursor");
+	}
+
+	if (
+		typeof position.id !== "string" ||
+		typeof position.isDate !== "boolean" ||
+		(typeof position.value !== "string" && typeof position.value !== "number")
+	) {
+		throw new BadRequestException("Invalid cursor");
+	}
+
+	if (position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+		throw new BadRequestException("Cursor does not match the requested sort");
+	}
+
+	return position as CursorPosition;
+}
+
+/**
+ * Reads a page of results after a cursor (keyset pagination).
+ *
+ * Results are sorted by the sort property, then by ID, and the next page
+ * starts right after the last result instead of skipping rows, so pages stay
+ * fast on large tables and no result is skipped or repeated when rows are
+ * added meanwhile. No total is counted.
+ *
+ * The sort of the query is replaced; its filters and joins are kept, and
+ * joined rows do not count towards the limit. Sorts by an aggregate read its
+ * value from the raw results.
+ *
+ * @param qb Query selecting the results, filtered
+ * @param options Sort, cursor and page size
+ *
+ * @returns The results of the page and the cursor of the next page
+ *
+ * @throws {BadRequestException} If the cursor is malformed or was issued for another sort
+ *
+ * @example
+ * ```typescript
+ * const { items, nextCursor } = await paginateByCursor(qb, {
+ *   alias: "farm",
+ *   sortBy: FarmSortField.Name,
+ *   sortOrder: SortOrder.Ascending,
+ *   cursor: query.cursor,
+ *   limit: 20,
+ * });
+ * ```
+ */
+export async function paginateByCursor<T extends ObjectLiteral & { id: string }>(
+	qb: SelectQueryBuilder<T>,
+	options: CursorPaginationOptions,
+): Promise<CursorPage<T>> {
+	const { alias, sortBy, sortExpression, sortOrder, cursor, limit } = options;
+	const operator = sortOrder === SortOrder.Ascending ? ">" : "<";
+	const sortColumn = sortExpression ?? `${alias}.${sortBy}`;
+
+	if (cursor) {
+		const position = decodeCursor(cursor, sortBy, sortOrder);
+		const column = position.isDate ? normalizeDatetime(sortColumn) : sortColumn;
+		const value = position.isDate ? normalizeDatetime(":cursorValue") : ":cursorValue";
+
+		qb.andWhere(
+			new Brackets((where) => {
+				where
+					.where(`${column} ${operator} ${value}`)
+					.orWhere(`(${column} = ${value} AND ${alias}.id ${operator} :cursorId)`);
+			}),
+			{ cursorValue: position.value, cursorId: position.id },
+		);
+	}
+
+	qb.orderBy(sortExpression ? sortBy : `${alias}.${sortBy}`, sortOrder)
+		.addOrderBy(`${alias}.id`, sortOrder)
+		.take(limit + 1);
+
+	const { entities: results, raw } =
+		sortExpression ? await qb.getRawAndEntities() : { entities: await qb.getMany(), raw: [] };
+
+	const items = results.slice(0, limit);
+	const last = items.at(-1);
+
+	if (results.length <= limit || !last) return { items, nextCursor: null };
+
+	const value: unknown =
+		sortExpression ?
+			(raw as Array<Record<string, unknown>>).find((row) => row[`${alias}_id`] === last.id)?.[
+				sortBy
+			]
+		:	last[sortBy];
+
+	return {
+		items,
+		nextCursor: encodeCursor({
+			sortBy,
+			sortOrder,
+			value: value instanceof Date ? value.toISOString() : (value as string | number),
+			isDate: value instanceof Date,
+			id: last.id,
+		}),
+	};
+}
@@ -0,0 +1,39 @@
+import { GqlExecutionContext } from "@nestjs/graphql";
+
+import type { ExecutionContext } from "@nestjs/common";
+import type { GqlContextType } from "@nestjs/graphql";
+import type { Request, Response } from "express";
+
+/**
+ * Resolves the HTTP request and response behind an execution context.
+ *
+ * GraphQL resolvers receive the arguments of the resolved field instead of the
+ * request and response, which Apollo exposes through the GraphQL context.
+ *
+ * @param context The execution context of a route handler or resolver
+ *
+ * @returns The request and response being handled
+ *
+ * @example
+ * ```typescript
+ * const { request, response } = getRequestResponse(context);
+ * response.setHeader("X-Correlation-ID", correlationId);
+ * ```
+ */
+export function getRequestResponse(context: ExecutionContext): {
+	request: Request;
+	response: Response;
+} {
+	if (context.getType<GqlContextType>() === "graphql") {
+		const { req, res } = GqlExecutionContext.create(context).getContext<{
+			req: Request;
+			res: Response;
+		}>();
+
+		return { request: req, response: res };
+	}
+
+	const http = context.switchToHttp();
+
+	return { request: http.getRequest<Request>(), response: http.getResponse<Response>() };
+}
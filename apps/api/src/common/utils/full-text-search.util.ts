@@ -0,0 +1,75 @@
+import { stripDocumentFormatting } from "@agro/shared/validators";
+
+/**
+ * Query condition matching producers whose full-text entry matches the `:search` parameter
+ *
+ * Expects the producer alias `producer`, and a match expression built by
+ * {@link toProducerFullTextQuery}.
+ */
+export const PRODUCER_SEARCH_CONDITION = `"producer"."id" IN (SELECT "id" FROM "producers_search" WHERE "producers_search" MATCH :search)`;
+
+/**
+ * Query condition matching farms whose full-text entry matches the `:search` parameter
+ *
+ * Expects the farm alias `farm`, and a match expression built by {@link toFullTextQuery}.
+ */
+export const FARM_SEARCH_CONDITION = `"farm"."id" IN (SELECT "id" FROM "farms_search" WHERE "farms_search" MATCH :search)`;
+
+/**
+ * Builds an FTS5 match expression from a user search.
+ *
+ * Every word of the search must match the start of a word, in any of the
+ * given columns. Punctuation only separates words, so user input can never
+ * break the expression. Case and accents are ignored by the tokenizer of
+ * the full-text tables.
+ *
+ * @param search Search typed by the user
+ * @param columns Columns to match, or every indexed column when empty
+ *
+ * @returns The match expression, or `null` if the search has no words
+ *
+ * @example
+ * ```typescript
+ * toFullTextQuery("São João", ["name"]); // '{name} : ("São"* AND "João"*)'
+ * toFullTextQuery("--"); // null
+ * ```
+ */
+export function toFullTextQuery(search: string, columns: Array<string> = []): string | null {
+	const terms = search
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean)
+		.map((term) => `"${term}"*`);
+
+	if (terms.length === 0) return null;
+
+	const query = terms.join(" AND ");
+
+	return columns.length > 0 ? `{${columns.join(" ")}} : (${query})` : query;
+}
+
+/**
+ * Builds an FTS5 match expression finding producers by name or document.
+ *
+ * Searches containing digits also match the start of the document, formatted
+ * or not, so "111.444" finds the producer with CPF 111.444.777-35.
+ *
+ * @param search Search typed by the user
+ *
+ * @returns The match expression, or `null` if the search has no words
+ *
+ * @example
+ * ```typescript
+ * toProducerFullTextQuery("111.444"); // '{name} : ("111"* AND "444"*) OR {document} : ("111444"*)'
+ * ```
+ */
+export function toProducerFullTextQuery(search: string): string | null {
+	const queries = [toFullTextQuery(search, ["name"])];
+
+	if (/\d/.test(search)) {
+		queries.push(toFullTextQuery(stripDocumentFormatting(search), ["document"]));
+	}
+
+	const matching = queries.filter((query) => query !== null);
+
+	return matching.length > 0 ? matching.join(" OR ") : null;
+}
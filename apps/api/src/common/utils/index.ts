@@ -7,3 +7,11 @@
 
 export * from "./async.util";
 export * from "./constants.util";
+export * from "./cursor.util";
+export * from "./execution-context.util";
+export * from "./full-text-search.util";
+export * from "./log-redaction.util";
+export * from "./precondition.util";
+export * from "./sparse-fieldset.util";
+export * from "./spreadsheet.util";
+export * from "./validation.util";
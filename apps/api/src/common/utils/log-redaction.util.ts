@@ -0,0 +1,99 @@
+import { maskDocument } from "@agro/shared/validators";
+
+/**
+ * Query parameters holding searches typed by users
+ *
+ * Producers can be searched by document, so searches may contain CPFs, which
+ * are personal data under the LGPD and must not reach the logs.
+ */
+const SEARCH_PARAMETERS = ["q", "search"];
+
+/** Matches a search parameter and its value in a URL */
+const SEARCH_PARAMETER_PATTERN = new RegExp(
+	`([?&](?:${SEARCH_PARAMETERS.join("|")})=)([^&#]*)`,
+	"g",
+);
+
+/**
+ * Describes a search by its length only.
+ *
+ * @param search Search typed by the user
+ *
+ * @returns The length of the search, in a placeholder
+ */
+function describeSearch(search: string): string {
+	return `[${String(search.length)} characters]`;
+}
+
+/**
+ * Replaces the searches of a parsed query string with their length, for logging.
+ *
+ * @param query Parsed query string of a request
+ *
+ * @returns A copy of the query with searches redacted, or the query itself if it is not an object
+ *
+ * @example
+ * ```typescript
+ * redactSearchQuery({ q: "529.982.247-25", limit: "5" });
+ * // => { q: "[14 characters]", limit: "5" }
+ * ```
+ */
+export function redactSearchQuery(query: unknown): unknown {
+	if (!query || typeof query !== "object") return query;
+
+	const redacted = { ...query } as Record<string, unknown>;
+
+	for (const parameter of SEARCH_PARAMETERS) {
+		const value = redacted[parameter];
+
+		if (typeof value === "string") {
+			redacted[parameter] = describeSearch(value);
+		} else if (Array.isArray(value)) {
+			redacted[parameter] = value.map((item) => describeSearch(String(item)));
+		}
+	}
+
+	return redacted;
+}
+
+/**
+ * Replaces the searches in the query string of a URL with their length, for logging.
+ *
+ * @param url URL of a request, with its query string
+ *
+ * @returns The URL with searches redacted
+ *
+ * @example
+ * ```typescript
+ * redactSearchUrl("/api/producers?search=52998224725&page=2");
+ * // => "/api/producers?search=[11 characters]&page=2"
+ * ```
+ */
+export function redactSearchUrl(url: string): string {
+	return url.replaceAll(
+		SEARCH_PARAMETER_PATTERN,
+		(_match, parameter: string, value: string) =>
+			`${parameter}${describeSearch(new URLSearchParams(`value=${value}`).get("value") ?? "")}`,
+	);
+}
+
+/**
+ * Masks the document of a request body, for logging.
+ *
+ * @param body Request body
+ *
+ * @returns A copy of the body with its document masked, or the body itself if it has no document
+ *
+ * @example
+ * ```typescript
+ * redactBodyDocument({ name: "João", document: "52998224725" });
+ * // => { name: "João", document: "***.982.247-**" }
+ * ```
+ */
+export function redactBodyDocument(body: unknown): unknown {
+	if (!body || typeof body !== "object" || !("document" in body)) return body;
+
+	const { document } = body;
+
+	return typeof document === "string" ? { ...body, document: maskDocument(document) } : body;
+}
@@ -0,0 +1,113 @@
+import { PreconditionFailedException } from "@nestjs/common";
+import { In } from "typeorm";
+
+import type { EntityManager, EntityTarget, FindOptionsWhere } from "typeorm";
+
+/**
+ * Versions a client expects a resource to be at, parsed from the `If-Match` header.
+ *
+ * `"*"` matches any version.
+ */
+export type IfMatchVersions = Array<number> | "*";
+
+/**
+ * Ensures a resource is still at one of the versions the client expects.
+ *
+ * Requests without an `If-Match` header are not conditional and always pass.
+ *
+ * @param resource Description of the resource, used in the error message
+ * @param version Current version of the resource
+ * @param ifMatch Versions listed in the `If-Match` header, if any
+ *
+ * @throws {PreconditionFailedException} If the current version is not one of the expected versions
+ *
+ * @example
+ * ```typescript
+ * assertVersionMatches(`Farm with ID ${id}`, farm.version, ifMatch);
+ * ```
+ */
+export function assertVersionMatches(
+	resource: string,
+	version: number,
+	ifMatch?: IfMatchVersions,
+): void {
+	if (ifMatch === undefined || ifMatch === "*" || ifMatch.includes(version)) return;
+
+	throw new PreconditionFailedException(
+		`${resource} was modified by someone else (current version ${String(version)})`,
+	);
+}
+
+/**
+ * Ensures nobody else wrote a resource between loading it and a write made in
+ * a transaction.
+ *
+ * Every write bumps the version by exactly one, so the resource must be at the
+ * version it was loaded at, when nothing was written, or at the next one.
+ * Throwing rolls the transaction back. The write must leave the loaded version
+ * out, as saving it would overwrite the version of a concurrent write.
+ * Requests without an `If-Match` header are not conditional and always pass.
+ *
+ * @param resource Description of the resource, used in the error message
+ * @param manager Entity manager of the transaction that wrote the resource
+ * @param target Entity class of the resource
+ * @param loaded ID of the resource and version it was loaded at
+ * @param ifMatch Versions listed in the `If-Match` header, if any
+ *
+ * @throws {PreconditionFailedException} If the resource was written by someone else
+ *
+ * @example
+ * ```typescript
+ * await assertNoConcurrentWrite(`Farm with ID ${id}`, manager, Farm, { id, version }, ifMatch);
+ * ```
+ */
+export async function assertNoConcurrentWrite<Entity extends { id: string; version: number }>(
+	resource: string,
+	manager: EntityManager,
+	target: EntityTarget<Entity>,
+	{ id, version }: { id: string; version: number },
+	ifMatch?: IfMatchVersions,
+): Promise<void> {
+	if (ifMatch === undefined || ifMatch === "*") return;
+
+	const where = { id, version: In([version, version + 1]) } as FindOptionsWhere<Entity>;
+
+	if (await manager.exists(target, { where, withDeleted: true })) return;
+
+	throw new PreconditionFailedException(`${resource} was modified by someone else`);
+}
+
+/**
+ * Claims a resource before removing it, bumping its version in a single
+ * statement only while it is still at one of the versions the client expects.
+ *
+ * Requests without an `If-Match` header are not conditional and always pass.
+ *
+ * @param resource Description of the resource, used in the error message
+ * @param manager Entity manager of the transaction removing the resource
+ * @param target Entity class of the resource
+ * @param id ID of the resource
+ * @param ifMatch Versions listed in the `If-Match` header, if any
+ *
+ * @throws {PreconditionFailedException} If the resource is no longer at any of the expected versions
+ *
+ * @example
+ * ```typescript
+ * await claimVersion(`Farm with ID ${id}`, manager, Farm, id, ifMatch);
+ * ```
+ */
+export async function claimVersion<Entity extends { id: string; version: number }>(
+	resource: string,
+	manager: EntityManager,
+	target: EntityTarget<Entity>,
+	id: string,
+	ifMatch?: IfMatchVersions,
+): Promise<void> {
+	if (ifMatch === undefined || ifMatch === "*") return;
+
+	const { affected } = await manager.increment(target, { id, version: In(ifMatch) }, "version", 1);
+
+	if (affected) return;
+
+	throw new PreconditionFailedException(`${resource} was modified by someone else`);
+}
@@ -0,0 +1,38 @@
+/**
+ * Response limited to the fields a client asked for, always keeping the ID.
+ *
+ * @template T Type of the full response
+ */
+export type SparseFieldset<T extends { id: string }> = Pick<T, "id"> & Partial<T>;
+
+/**
+ * Limits a response to the fields of a sparse fieldset (`?fields=`).
+ *
+ * The ID is always kept, and so are the relations present in the response,
+ * since they are only loaded when included.
+ *
+ * @param response Response with every field
+ * @param fields Fields to keep, every field when empty or omitted
+ * @param relations Keys of the relations of the response
+ *
+ * @returns The response, with only the requested fields and relations
+ *
+ * @example
+ * ```typescript
+ * pickFields(this.mapToResponseDto(producer, { include }), ["name"], ["farms"]);
+ * // Returns: { id: "550e8400-...", name: "João da Silva" }
+ * ```
+ */
+export function pickFields<T extends { id: string }>(
+	response: T,
+	fields: ReadonlyArray<string> | undefined,
+	relations: ReadonlyArray<keyof T> = [],
+): SparseFieldset<T> {
+	if (!fields || fields.length === 0) return response;
+
+	const keys = new Set<PropertyKey>(["id", ...fields, ...relations]);
+
+	return Object.fromEntries(
+		Object.entries(response).filter(([key]) => keys.has(key)),
+	) as SparseFieldset<T>;
+}
@@ -0,0 +1,315 @@
+import { once } from "node:events";
+import { Readable } from "node:stream";
+
+import { BadRequestException } from "@nestjs/common";
+import { stream, Workbook } from "exceljs";
+
+import type { Worksheet } from "exceljs";
+import type { Writable } from "node:stream";
+
+import { ExportFormat, SupportedLocale } from "@agro/shared/enums";
+
+/**
+ * Data row of a spreadsheet, with its cells keyed by column header.
+ */
+export interface SpreadsheetRow {
+	/** Row number in the spreadsheet, the header being row 1 */
+	number: number;
+
+	/** Trimmed cell text by column header */
+	values: Record<string, string>;
+}
+
+/**
+ * Contents of the first sheet of a spreadsheet.
+ */
+export interface SpreadsheetTable {
+	/** Column headers, in file order */
+	columns: Array<string>;
+
+	/** Non-empty data rows */
+	rows: Array<SpreadsheetRow>;
+}
+
+/** Cell value of an exported spreadsheet */
+export type SpreadsheetCellValue = string | number | Date | null;
+
+/**
+ * Column of an exported spreadsheet.
+ *
+ * @template TRow Exported record
+ */
+export interface SpreadsheetColumn<TRow> {
+	/** Column header */
+	header: string;
+
+	/** Reads the cell value of a record */
+	value: (row: TRow) => SpreadsheetCellValue;
+
+	/** Number of decimal places of numeric values, shown as is when omitted */
+	decimals?: number;
+}
+
+/**
+ * Options of a spreadsheet export.
+ *
+ * @template TRow Exported record
+ */
+export interface SpreadsheetWriteOptions<TRow> {
+	/** File format */
+	format: ExportFormat.Csv | ExportFormat.Xlsx;
+
+	/** Name of the XLSX sheet */
+	sheetName: string;
+
+	/** Exported columns, in order */
+	columns: Array<SpreadsheetColumn<TRow>>;
+
+	/** Exported records, in batches */
+	rows: AsyncIterable<Array<TRow>>;
+
+	/** Locale used to format numbers and dates */
+	locale: SupportedLocale;
+}
+
+/**
+ * Writes records to a stream as a CSV or XLSX file, one batch at a time.
+ *
+ * CSV values are formatted for the locale, without thousands separators so
+ * files can be imported back, and separated by semicolons in locales with a
+ * decimal comma. XLSX cells keep numbers and dates typed, with a number format
+ * spreadsheet software displays in the reader's locale.
+ *
+ * @param output Stream receiving the file, ended once the file is complete
+ * @param options Format, columns, records and locale of the export
+ *
+ * @example
+ * ```typescript
+ * await writeSpreadsheet(response, {
+ *   format: ExportFormat.Csv,
+ *   sheetName: "Producers",
+ *   columns: [{ header: "Name", value: (producer) => producer.name }],
+ *   rows: producersInBatches(),
+ *   locale: env.API__LOCALE,
+ * });
+ * ```
+ */
+export async function writeSpreadsheet<TRow>(
+	output: Writable,
+	options: SpreadsheetWriteOptions<TRow>,
+): Promise<void> {
+	if (options.format === ExportFormat.Xlsx) {
+		await writeXlsx(output, options);
+	} else {
+		await writeCsv(output, options);
+	}
+}
+
+/**
+ * Converts a supported locale to a BCP 47 language tag, as used by `Intl`.
+ *
+ * @param locale Supported locale
+ *
+ * @returns The language tag, such as "pt-BR"
+ *
+ * @example
+ * ```typescript
+ * new Intl.NumberFormat(toLanguageTag(SupportedLocale.Portuguese)).format(1.5); // "1,5"
+ * ```
+ */
+export function toLanguageTag(locale: SupportedLocale): string {
+	return locale.replace("_", "-");
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file, its first row being the header.
+ *
+ * The format is taken from the file extension. CSV files may be separated by
+ * commas or semicolons, as exported by spreadsheet software in Brazilian
+ * locales, and their values are kept as text so documents keep leading zeros.
+ * Empty rows are skipped.
+ *
+ * @param buffer Contents of the file
+ * @param fileName Original name of the file
+ *
+ * @returns Column headers and data rows
+ *
+ * @throws {BadRequestException} If the file is neither CSV nor XLSX, or cannot be read
+ *
+ * @example
+ * ```typescript
+ * const { columns, rows } = await readSpreadsheet(file.buffer, file.originalname);
+ * ```
+ */
+export async function readSpreadsheet(buffer: Buffer, fileName: string): Promise<SpreadsheetTable> {
+	const extension = fileName.toLowerCase().split(".").pop();
+
+	if (extension !== "csv" && extension !== "xlsx") {
+		throw new BadRequestException("Unsupported file type, expected a CSV or XLSX file");
+	}
+
+	let worksheet: Worksheet | undefined;
+
+	try {
+		worksheet = extension === "csv" ? await readCsv(buffer) : await readXlsx(buffer);
+	} catch {
+		throw new BadRequestException(`Could not read ${fileName}, the file seems to be corrupted`);
+	}
+
+	if (!worksheet) return { columns: [], rows: [] };
+
+	const headers: Array<string> = [];
+
+	worksheet.getRow(1).eachCell((cell, column) => {
+		headers[column] = cell.text.trim();
+	});
+
+	const rows: Array<SpreadsheetRow> = [];
+
+	worksheet.eachRow((row, number) => {
+		if (number === 1) return;
+
+		const values: Record<string, string> = {};
+
+		row.eachCell((cell, column) => {
+			const header = headers[column];
+			const text = cell.text.trim();
+
+			if (header && text) values[header] = text;
+		});
+
+		if (Object.keys(values).length > 0) rows.push({ number, values });
+	});
+
+	return { columns: headers.filter(Boolean), rows };
+}
+
+/**
+ * Parses a CSV file, guessing its delimiter from the header line.
+ *
+ * @param buffer Contents of the file
+ *
+ * @returns The parsed sheet
+ */
+async function readCsv(buffer: Buffer): Promise<Worksheet> {
+	const text = buffer.toString("utf8").replace(/^\uFEFF/, "");
+	const [headerLine = ""] = text.split("\n", 1);
+	const delimiter = headerLine.split(";").length > headerLine.split(",").length ? ";" : ",";
+
+	return new Workbook().csv.read(Readable.from([text]), {
+		map: (value: unknown) => value,
+		parserOptions: { delimiter },
+	});
+}
+
+/**
+ * Parses an XLSX file.
+ *
+ * @param buffer Contents of the file
+ *
+ * @returns The first sheet of the workbook, if any
+ */
+async function readXlsx(buffer: Buffer): Promise<Worksheet | undefined> {
+	const workbook = new Workbook();
+
+	// exceljs declares its own Buffer type, an ArrayBuffer, which Node buffers are read as
+	await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+
+	return workbook.worksheets[0];
+}
+
+/**
+ * Writes records as a CSV file, waiting for the stream to drain between batches.
+ *
+ * @param output Stream receiving the file
+ * @param options Columns, records and locale of the export
+ */
+async function writeCsv<TRow>(
+	output: Writable,
+	{ columns, rows, locale }: SpreadsheetWriteOptions<TRow>,
+): Promise<void> {
+	const languageTag = toLanguageTag(locale);
+	const decimalSeparator = new Intl.NumberFormat(languageTag).format(1.5).charAt(1);
+	const delimiter = decimalSeparator === "," ? ";" : ",";
+	const dateFormat = new Intl.DateTimeFormat(languageTag, {
+		dateStyle: "short",
+		timeStyle: "short",
+	});
+	const numberFormats = columns.map(
+		({ decimals }) =>
+			new Intl.NumberFormat(languageTag, {
+				minimumFractionDigits: decimals,
+				maximumFractionDigits: decimals ?? 6,
+				useGrouping: false,
+			}),
+	);
+
+	const toCsvLine = (values: Array<string>): string =>
+		`${values
+			.map((value) =>
+				value.includes(delimiter) || /["\r\n]/.test(value) ?
+					`"${value.replaceAll('"', '""')}"`
+				:	value,
+			)
+			.join(delimiter)}\r\n`;
+
+	// The byte order mark makes spreadsheet software read the file as UTF-8
+	output.write(`\uFEFF${toCsvLine(columns.map((column) => column.header))}`);
+
+	for await (const batch of rows) {
+		const lines = batch.map((row) =>
+			toCsvLine(
+				columns.map((column, index) => {
+					const value = column.value(row);
+
+					if (value === null) return "";
+					if (typeof value === "number") return numberFormats[index]?.format(value) ?? "";
+					if (value instanceof Date) return dateFormat.format(value);
+
+					return value;
+				}),
+			),
+		);
+
+		if (!output.write(lines.join(""))) await once(output, "drain");
+	}
+
+	output.end();
+}
+
+/**
+ * Writes records as an XLSX file, committing each row as soon as it is added.
+ *
+ * @param output Stream receiving the file
+ * @param options Sheet name, columns and records of the export
+ */
+async function writeXlsx<TRow>(
+	output: Writable,
+	{ sheetName, columns, rows }: SpreadsheetWriteOptions<TRow>,
+): Promise<void> {
+	const workbook = new stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+	const worksheet = workbook.addWorksheet(sheetName);
+
+	worksheet.columns = columns.map(({ header, decimals }) => ({
+		header,
+		width: Math.max(header.length + 2, 12),
+		style:
+			decimals === undefined ?
+				{}
+			:	{ numFmt: `#,##0${decimals > 0 ? "." : ""}${"0".repeat(decimals)}` },
+	}));
+
+	for await (const batch of rows) {
+		for (const row of batch) {
+			const added = worksheet.addRow(columns.map((column) => column.value(row)));
+
+			added.eachCell((cell) => {
+				if (cell.value instanceof Date) cell.numFmt = "yyyy-mm-dd hh:mm";
+			});
+			added.commit();
+		}
+	}
+
+	worksheet.commit();
+	await workbook.commit();
+}
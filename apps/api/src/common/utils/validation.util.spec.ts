@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { CreateProducerDto } from "@/modules/producers/dto";
+
+import { formatValidationErrors } from "./validation.util";
+
+/**
+ * @fileoverview Tests for {@link formatValidationErrors}.
+ *
+ * Verifies the messages of top-level and nested DTO fields.
+ */
+describe("formatValidationErrors", () => {
+	it("should report top-level fields by their name", async () => {
+		const dto = plainToInstance(CreateProducerDto, { name: "Jo", document: "52998224725" });
+
+		expect(formatValidationErrors(await validate(dto))).toEqual([
+			'name: Name must be between 3 and 255 characters (received: "Jo")',
+		]);
+	});
+
+	it("should report fields of nested DTOs by their path", async () => {
+		const dto = plainToInstance(CreateProducerDto, {
+			name: "João Silva",
+			document: "52998224725",
+			stateRegistrations: [{ state: BrazilianState.SP, number: "123" }],
+		});
+
+		expect(formatValidationErrors(await validate(dto))).toEqual([
+			'stateRegistrations.0.number: State registration number must be valid in its state (received: "123")',
+		]);
+	});
+
+	it("should report a nested DTO along with its failing fields", async () => {
+		const registrations = [
+			{ state: BrazilianState.SP, number: "110.042.490.114" },
+			{ state: BrazilianState.SP, number: "123" },
+		];
+		const dto = plainToInstance(CreateProducerDto, {
+			name: "João Silva",
+			document: "52998224725",
+			stateRegistrations: registrations,
+		});
+
+		expect(formatValidationErrors(await validate(dto))).toEqual([
+			`stateRegistrations: A producer can have at most one state registration per state (received: ${JSON.stringify(registrations)})`,
+			'stateRegistrations.1.number: State registration number must be valid in its state (received: "123")',
+		]);
+	});
+});
@@ -0,0 +1,38 @@
+import type { ValidationError } from "class-validator";
+
+/**
+ * Formats class-validator errors as messages naming the failing fields.
+ *
+ * Errors of nested DTOs are reported by the path of the failing field,
+ * with array items identified by their index.
+ *
+ * @param errors Validation errors of a DTO
+ * @param parentPath Path of the DTO holding the errors, for nested DTOs
+ *
+ * @returns One message per failing field, with its constraints and received value
+ *
+ * @example
+ * ```typescript
+ * formatValidationErrors(await validate(dto));
+ * // => ['stateRegistrations.0.number: State registration number must be valid in its state (received: "123")']
+ * ```
+ */
+export function formatValidationErrors(
+	errors: Array<ValidationError>,
+	parentPath?: string,
+): Array<string> {
+	return errors.flatMap((error) => {
+		const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+		const constraints = error.constraints ? Object.values(error.constraints) : [];
+		const children = formatValidationErrors(error.children ?? [], field);
+
+		if (constraints.length === 0 && children.length > 0) return children;
+
+		const value = error.value as unknown;
+
+		return [
+			`${field}: ${constraints.join(", ")} (received: ${JSON.stringify(value)})`,
+			...children,
+		];
+	});
+}
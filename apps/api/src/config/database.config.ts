@@ -1,13 +1,21 @@
 import { DataSource } from "typeorm";
 
 import { migrations } from "../database/migrations";
+import { AuditLog } from "../modules/audit/entities/audit-log.entity";
 import { User } from "../modules/auth/entities/user.entity";
 import { City } from "../modules/cities/entities/city.entity";
+import { Crop } from "../modules/crops/entities/crop.entity";
 import { FarmHarvestCrop } from "../modules/farms/entities/farm-harvest-crop.entity";
 import { FarmHarvest } from "../modules/farms/entities/farm-harvest.entity";
+import { FarmOwner } from "../modules/farms/entities/farm-owner.entity";
+import { FarmOwnershipHistory } from "../modules/farms/entities/farm-ownership-history.entity";
 import { Farm } from "../modules/farms/entities/farm.entity";
-import { Harvest } from "../modules/farms/entities/harvest.entity";
+import { Harvest } from "../modules/harvests/entities/harvest.entity";
+import { FarmPlot } from "../modules/plots/entities/farm-plot.entity";
+import { PostalCodeDataset } from "../modules/postal-codes/entities/postal-code-dataset.entity";
+import { PostalCodeRange } from "../modules/postal-codes/entities/postal-code-range.entity";
 import { Producer } from "../modules/producers/entities/producer.entity";
+import { ProductionRecord } from "../modules/production/entities/production-record.entity";
 
 import { env } from "./env.config";
 
@@ -26,7 +34,23 @@ import { env } from "./env.config";
 export const AppDataSource = new DataSource({
 	type: "sqlite",
 	database: env.API__DATABASE_PATH,
-	entities: [User, Producer, Farm, Harvest, FarmHarvest, FarmHarvestCrop, City],
+	entities: [
+		User,
+		Producer,
+		Farm,
+		Harvest,
+		FarmHarvest,
+		FarmHarvestCrop,
+		FarmOwner,
+		FarmOwnershipHistory,
+		FarmPlot,
+		ProductionRecord,
+		Crop,
+		City,
+		PostalCodeRange,
+		PostalCodeDataset,
+		AuditLog,
+	],
 	migrations,
 	migrationsTableName: "migrations",
 	migrationsRun: false,
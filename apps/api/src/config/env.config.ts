@@ -5,6 +5,7 @@ import { createEnv } from "@agro/shared/utils";
 
 import { environmentDefaults } from "@/common/utils/constants.util";
 import { SeedScale } from "@/database/seeds/seed.constants";
+import { BoundaryAreaMismatchMode } from "@/modules/farms/farms.constants";
 
 /**
  * API-specific environment schema.
@@ -172,6 +173,28 @@ const apiEnvSchema = z.object({
 	 * @see {@link environmentDefaults.API__SALT_ROUNDS}
 	 */
 	API__SALT_ROUNDS: z.coerce.number().int().min(4).default(environmentDefaults.API__SALT_ROUNDS),
+
+	/**
+	 * Accepted difference between a farm boundary's geodesic area and its total area,
+	 * as a percentage of the total area
+	 *
+	 * @default 10
+	 * @see {@link environmentDefaults.API__FARM_BOUNDARY_AREA_TOLERANCE}
+	 */
+	API__FARM_BOUNDARY_AREA_TOLERANCE: z.coerce
+		.number()
+		.min(0)
+		.default(environmentDefaults.API__FARM_BOUNDARY_AREA_TOLERANCE),
+
+	/**
+	 * Whether to warn about or reject farms whose boundary area exceeds the tolerance (warn/reject)
+	 *
+	 * @default "warn"
+	 * @see {@link environmentDefaults.API__FARM_BOUNDARY_AREA_MISMATCH}
+	 */
+	API__FARM_BOUNDARY_AREA_MISMATCH: z
+		.enum(BoundaryAreaMismatchMode)
+		.default(environmentDefaults.API__FARM_BOUNDARY_AREA_MISMATCH),
 });
 
 /** Type-safe environment variables for the API application */
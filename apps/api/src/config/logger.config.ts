@@ -3,7 +3,7 @@ import type { SerializedRequest, SerializedResponse } from "pino";
 
 import { RuntimeEnvironment } from "@agro/shared/enums";
 
-import { correlationIdStorage } from "@/common";
+import { correlationIdStorage, redactSearchUrl } from "@/common";
 import { env } from "@/config/env.config";
 
 /**
@@ -34,7 +34,7 @@ export function createPinoConfig(): Params {
 				req: (req: SerializedRequest) => ({
 					id: req.id,
 					method: req.method,
-					url: req.url,
+					url: redactSearchUrl(req.url),
 					correlationId: correlationIdStorage.getStore(),
 				}),
 				res: (res: SerializedResponse) => ({
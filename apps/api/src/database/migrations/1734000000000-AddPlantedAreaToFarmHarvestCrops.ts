@@ -0,0 +1,39 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add planted area to farm harvest crops
+ *
+ * Adds a nullable `planted_area` column (hectares) to `farm_harvest_crops`, allowing
+ * each crop of a harvest to record how much of the farm's arable land it occupies.
+ * Existing rows keep a `NULL` value, meaning the planted area is unknown.
+ *
+ * ## Business Rules
+ * - The sum of planted areas within one harvest must not exceed the farm's arable area
+ *   (enforced at application level by `assertValidPlantedArea`)
+ *
+ * @see {@link FarmHarvestCrop} entity for TypeORM configuration
+ */
+export class AddPlantedAreaToFarmHarvestCrops1734000000000 extends MigrationRunner {
+	name = "AddPlantedAreaToFarmHarvestCrops1734000000000";
+
+	/**
+	 * Defines the planted area column for farm harvest crops
+	 *
+	 * @returns Migration script with the column definition
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "farm_harvest_crops.planted_area",
+					sql: {
+						create: `ALTER TABLE "farm_harvest_crops" ADD COLUMN "planted_area" decimal(10,2)`,
+						drop: `ALTER TABLE "farm_harvest_crops" DROP COLUMN "planted_area"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,67 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create production records table
+ *
+ * Stores the quantity produced of each crop planted on a farm during a harvest,
+ * with the unit it was measured in and the date it was harvested. Records are
+ * deleted together with their farm harvest crop.
+ *
+ * ## Indexes
+ * - Index on `farm_harvest_crop_id` for listing the production of a crop
+ * - Index on `harvested_at` for ordering records by date
+ *
+ * @see {@link ProductionRecord} entity for TypeORM configuration
+ */
+export class CreateProductionRecordsTable1734100000000 extends MigrationRunner {
+	name = "CreateProductionRecordsTable1734100000000";
+
+	/**
+	 * Defines production records table and indexes
+	 *
+	 * @returns Migration script with table and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "production_records",
+					sql: {
+						create: `
+							CREATE TABLE "production_records" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"farm_harvest_crop_id" varchar NOT NULL,
+								"quantity" decimal(12,2) NOT NULL,
+								"unit" varchar(20) NOT NULL,
+								"harvested_at" date NOT NULL,
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								"updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "FK_production_records_farm_harvest_crop" FOREIGN KEY ("farm_harvest_crop_id")
+									REFERENCES "farm_harvest_crops" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+							)
+						`,
+						drop: `DROP TABLE "production_records"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_production_records_farm_harvest_crop_id",
+					sql: {
+						create: `CREATE INDEX "IDX_production_records_farm_harvest_crop_id" ON "production_records" ("farm_harvest_crop_id")`,
+						drop: `DROP INDEX "IDX_production_records_farm_harvest_crop_id"`,
+					},
+				},
+				{
+					name: "IDX_production_records_harvested_at",
+					sql: {
+						create: `CREATE INDEX "IDX_production_records_harvested_at" ON "production_records" ("harvested_at")`,
+						drop: `DROP INDEX "IDX_production_records_harvested_at"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from "node:crypto";
+
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Crops available when the catalog is created
+ *
+ * Includes the five crops previously hard-coded in the application, so existing
+ * `farm_harvest_crops.crop_type` values keep referencing valid catalog entries.
+ */
+const DEFAULT_CROPS = [
+	{ code: "soy", labelPtBr: "Soja", labelEn: "Soy", color: "#3B82F6", category: "oilseed" },
+	{ code: "corn", labelPtBr: "Milho", labelEn: "Corn", color: "#10B981", category: "grain" },
+	{ code: "cotton", labelPtBr: "Algodão", labelEn: "Cotton", color: "#EF4444", category: "fiber" },
+	{ code: "coffee", labelPtBr: "Café", labelEn: "Coffee", color: "#F59E0B", category: "beverage" },
+	{
+		code: "sugarcane",
+		labelPtBr: "Cana-de-açúcar",
+		labelEn: "Sugarcane",
+		color: "#8B5CF6",
+		category: "sugar_energy",
+	},
+	{ code: "beans", labelPtBr: "Feijão", labelEn: "Beans", color: "#92400E", category: "grain" },
+	{ code: "wheat", labelPtBr: "Trigo", labelEn: "Wheat", color: "#EAB308", category: "grain" },
+	{ code: "rice", labelPtBr: "Arroz", labelEn: "Rice", color: "#14B8A6", category: "grain" },
+	{ code: "citrus", labelPtBr: "Citros", labelEn: "Citrus", color: "#F97316", category: "fruit" },
+	{
+		code: "eucalyptus",
+		labelPtBr: "Eucalipto",
+		labelEn: "Eucalyptus",
+		color: "#166534",
+		category: "forestry",
+	},
+] as const;
+
+/**
+ * Migration to create the crop catalog
+ *
+ * Replaces the hard-coded crop enumeration with a `crops` table, so new crops
+ * can be added without a code release. Farm crops keep referencing crops by
+ * code through `farm_harvest_crops.crop_type`; the reference is validated by the
+ * API since SQLite cannot add a foreign key to an existing table.
+ *
+ * ## Data
+ * - Inserts the default crops (the five previous crops plus beans, wheat, rice,
+ *   citrus and eucalyptus)
+ *
+ * @see {@link Crop} entity for TypeORM configuration
+ */
+export class CreateCropsTable1734200000000 extends MigrationRunner {
+	name = "CreateCropsTable1734200000000";
+
+	/**
+	 * Defines crops table and default crops
+	 *
+	 * @returns Migration script with table and data definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "crops",
+					sql: {
+						create: `
+							CREATE TABLE "crops" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"code" varchar(50) NOT NULL,
+								"label_pt_br" varchar(100) NOT NULL,
+								"label_en" varchar(100) NOT NULL,
+								"color" varchar(7) NOT NULL,
+								"category" varchar(30) NOT NULL,
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								"updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "UQ_crops_code" UNIQUE ("code")
+							)
+						`,
+						drop: `DROP TABLE "crops"`,
+					},
+				},
+			],
+			data: [
+				{
+					description: "Insert default crops",
+					up: async (qr) => {
+						for (const { code, labelPtBr, labelEn, color, category } of DEFAULT_CROPS) {
+							await qr.query(
+								`INSERT INTO "crops" ("id", "code", "label_pt_br", "label_en", "color", "category") VALUES (?, ?, ?, ?, ?, ?)`,
+								[randomUUID(), code, labelPtBr, labelEn, color, category],
+							);
+						}
+					},
+				},
+			],
+		};
+	}
+}
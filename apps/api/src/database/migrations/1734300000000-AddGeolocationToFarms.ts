@@ -0,0 +1,55 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add geolocation to farms
+ *
+ * Adds nullable `latitude`/`longitude` columns (decimal degrees, WGS 84) for the
+ * farm headquarters and a nullable `boundary` column holding the farm limits as
+ * a GeoJSON Polygon or MultiPolygon serialized to text. Existing farms keep
+ * `NULL` values, meaning their location is unknown.
+ *
+ * ## Business Rules
+ * - Latitude and longitude are set together (enforced at application level)
+ * - The boundary's geodesic area is compared to `total_area` within a configured
+ *   tolerance (enforced at application level by `validateBoundaryArea`)
+ *
+ * @see {@link Farm} entity for TypeORM configuration
+ */
+export class AddGeolocationToFarms1734300000000 extends MigrationRunner {
+	name = "AddGeolocationToFarms1734300000000";
+
+	/**
+	 * Defines the geolocation columns for farms
+	 *
+	 * @returns Migration script with the column definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "farms.latitude",
+					sql: {
+						create: `ALTER TABLE "farms" ADD COLUMN "latitude" decimal(9,6)`,
+						drop: `ALTER TABLE "farms" DROP COLUMN "latitude"`,
+					},
+				},
+				{
+					name: "farms.longitude",
+					sql: {
+						create: `ALTER TABLE "farms" ADD COLUMN "longitude" decimal(9,6)`,
+						drop: `ALTER TABLE "farms" DROP COLUMN "longitude"`,
+					},
+				},
+				{
+					name: "farms.boundary",
+					sql: {
+						create: `ALTER TABLE "farms" ADD COLUMN "boundary" text`,
+						drop: `ALTER TABLE "farms" DROP COLUMN "boundary"`,
+					},
+				},
+			],
+		};
+	}
+}
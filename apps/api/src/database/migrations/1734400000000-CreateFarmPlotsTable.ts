@@ -0,0 +1,84 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create farm plots table
+ *
+ * Stores the plots (talhões) a farm is managed by, each with its own area,
+ * optional GeoJSON boundary and soil type. Plots are deleted together with
+ * their farm.
+ *
+ * Also adds a nullable `plot_id` column to `farm_harvest_crops`, so crops of a
+ * harvest can be assigned to a plot. Existing crops keep `NULL`, meaning they
+ * are planted on the farm as a whole.
+ *
+ * ## Business Rules
+ * - Plot names are unique per farm
+ * - Sum of plot areas cannot exceed the farm's arable area (enforced at
+ *   application level by `validatePlotAreas`)
+ *
+ * ## Indexes
+ * - Unique index on (`farm_id`, `name`) for listing plots and enforcing unique names
+ * - Index on `farm_harvest_crops.plot_id` for finding the crops of a plot
+ *
+ * @see {@link FarmPlot} entity for TypeORM configuration
+ */
+export class CreateFarmPlotsTable1734400000000 extends MigrationRunner {
+	name = "CreateFarmPlotsTable1734400000000";
+
+	/**
+	 * Defines farm plots table, the crop plot column and their indexes
+	 *
+	 * @returns Migration script with table, column and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "farm_plots",
+					sql: {
+						create: `
+							CREATE TABLE "farm_plots" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"farm_id" varchar NOT NULL,
+								"name" varchar(100) NOT NULL,
+								"area" decimal(10,2) NOT NULL,
+								"boundary" text,
+								"soil_type" varchar(20),
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								"updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "FK_farm_plots_farm" FOREIGN KEY ("farm_id")
+									REFERENCES "farms" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+							)
+						`,
+						drop: `DROP TABLE "farm_plots"`,
+					},
+				},
+				{
+					name: "farm_harvest_crops.plot_id",
+					sql: {
+						create: `ALTER TABLE "farm_harvest_crops" ADD COLUMN "plot_id" varchar REFERENCES "farm_plots" ("id") ON DELETE SET NULL`,
+						drop: `ALTER TABLE "farm_harvest_crops" DROP COLUMN "plot_id"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_farm_plots_farm_id_name",
+					sql: {
+						create: `CREATE UNIQUE INDEX "IDX_farm_plots_farm_id_name" ON "farm_plots" ("farm_id", "name")`,
+						drop: `DROP INDEX "IDX_farm_plots_farm_id_name"`,
+					},
+				},
+				{
+					name: "IDX_farm_harvest_crops_plot_id",
+					sql: {
+						create: `CREATE INDEX "IDX_farm_harvest_crops_plot_id" ON "farm_harvest_crops" ("plot_id")`,
+						drop: `DROP INDEX "IDX_farm_harvest_crops_plot_id"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,72 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create farm ownership history table
+ *
+ * Records every transfer of a farm from one producer to another, with the date
+ * the transfer takes effect and its reason. Entries are deleted together with
+ * their farm; when a producer is deleted, its references become `NULL` so the
+ * history of other producers is kept.
+ *
+ * ## Indexes
+ * - Index on (`farm_id`, `effective_date`) for listing the history of a farm
+ * - Index on `previous_producer_id` for listing the farms a producer previously owned
+ *
+ * @see {@link FarmOwnershipHistory} entity for TypeORM configuration
+ */
+export class CreateFarmOwnershipHistoryTable1734500000000 extends MigrationRunner {
+	name = "CreateFarmOwnershipHistoryTable1734500000000";
+
+	/**
+	 * Defines farm ownership history table and indexes
+	 *
+	 * @returns Migration script with table and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "farm_ownership_history",
+					sql: {
+						create: `
+							CREATE TABLE "farm_ownership_history" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"farm_id" varchar NOT NULL,
+								"previous_producer_id" varchar,
+								"new_producer_id" varchar,
+								"effective_date" date NOT NULL,
+								"reason" varchar(500) NOT NULL,
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "FK_farm_ownership_history_farm" FOREIGN KEY ("farm_id")
+									REFERENCES "farms" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+								CONSTRAINT "FK_farm_ownership_history_previous_producer" FOREIGN KEY ("previous_producer_id")
+									REFERENCES "producers" ("id") ON DELETE SET NULL ON UPDATE NO ACTION,
+								CONSTRAINT "FK_farm_ownership_history_new_producer" FOREIGN KEY ("new_producer_id")
+									REFERENCES "producers" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+							)
+						`,
+						drop: `DROP TABLE "farm_ownership_history"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_farm_ownership_history_farm_id_effective_date",
+					sql: {
+						create: `CREATE INDEX "IDX_farm_ownership_history_farm_id_effective_date" ON "farm_ownership_history" ("farm_id", "effective_date")`,
+						drop: `DROP INDEX "IDX_farm_ownership_history_farm_id_effective_date"`,
+					},
+				},
+				{
+					name: "IDX_farm_ownership_history_previous_producer_id",
+					sql: {
+						create: `CREATE INDEX "IDX_farm_ownership_history_previous_producer_id" ON "farm_ownership_history" ("previous_producer_id")`,
+						drop: `DROP INDEX "IDX_farm_ownership_history_previous_producer_id"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,91 @@
+import { randomUUID } from "node:crypto";
+
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create farm owners table
+ *
+ * Allows a farm to be held by several producers (condomínio rural), each with
+ * an ownership percentage. `farms.producer_id` is kept as the main owner, who
+ * is always one of the owners. Shares are deleted together with their farm or
+ * producer.
+ *
+ * ## Indexes
+ * - Unique index on (`farm_id`, `producer_id`), so a producer holds one share per farm
+ * - Index on `producer_id` for listing the farms a producer owns
+ *
+ * ## Data
+ * - Registers the current owner of each existing farm with a 100% share
+ *
+ * @see {@link FarmOwner} entity for TypeORM configuration
+ */
+export class CreateFarmOwnersTable1734600000000 extends MigrationRunner {
+	name = "CreateFarmOwnersTable1734600000000";
+
+	/**
+	 * Defines farm owners table, indexes and the shares of existing farms
+	 *
+	 * @returns Migration script with table, index and data definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "farm_owners",
+					sql: {
+						create: `
+							CREATE TABLE "farm_owners" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"farm_id" varchar NOT NULL,
+								"producer_id" varchar NOT NULL,
+								"percentage" decimal(5,2) NOT NULL,
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								"updated_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "FK_farm_owners_farm" FOREIGN KEY ("farm_id")
+									REFERENCES "farms" ("id") ON DELETE CASCADE ON UPDATE NO ACTION,
+								CONSTRAINT "FK_farm_owners_producer" FOREIGN KEY ("producer_id")
+									REFERENCES "producers" ("id") ON DELETE CASCADE ON UPDATE NO ACTION
+							)
+						`,
+						drop: `DROP TABLE "farm_owners"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_farm_owners_farm_id_producer_id",
+					sql: {
+						create: `CREATE UNIQUE INDEX "IDX_farm_owners_farm_id_producer_id" ON "farm_owners" ("farm_id", "producer_id")`,
+						drop: `DROP INDEX "IDX_farm_owners_farm_id_producer_id"`,
+					},
+				},
+				{
+					name: "IDX_farm_owners_producer_id",
+					sql: {
+						create: `CREATE INDEX "IDX_farm_owners_producer_id" ON "farm_owners" ("producer_id")`,
+						drop: `DROP INDEX "IDX_farm_owners_producer_id"`,
+					},
+				},
+			],
+			data: [
+				{
+					description: "Register the current owner of each farm with a 100% share",
+					up: async (qr) => {
+						const farms: Array<{ id: string; producer_id: string }> = await qr.query(
+							`SELECT "id", "producer_id" FROM "farms"`,
+						);
+
+						for (const farm of farms) {
+							await qr.query(
+								`INSERT INTO "farm_owners" ("id", "farm_id", "producer_id", "percentage") VALUES (?, ?, ?, 100)`,
+								[randomUUID(), farm.id, farm.producer_id],
+							);
+						}
+					},
+				},
+			],
+		};
+	}
+}
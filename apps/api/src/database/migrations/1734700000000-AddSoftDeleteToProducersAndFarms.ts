@@ -0,0 +1,67 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add soft delete to producers and farms
+ *
+ * Adds a nullable `deleted_at` column to `producers` and `farms`. Deleting a
+ * producer or farm now sets this timestamp instead of removing the row, so the
+ * `ON DELETE CASCADE` constraints only apply when a trashed record is purged.
+ * Rows with a `deleted_at` are excluded from every list, statistics and
+ * dashboard query.
+ *
+ * ## Business Rules
+ * - Farms deleted together with their producer share the producer's `deleted_at`,
+ *   so restoring the producer restores them as well (enforced at application level)
+ *
+ * ## Indexes
+ * - Index on `deleted_at` of both tables for filtering active and trashed rows
+ *
+ * @see {@link Producer} and {@link Farm} entities for TypeORM configuration
+ */
+export class AddSoftDeleteToProducersAndFarms1734700000000 extends MigrationRunner {
+	name = "AddSoftDeleteToProducersAndFarms1734700000000";
+
+	/**
+	 * Defines the soft delete columns and indexes of producers and farms
+	 *
+	 * @returns Migration script with column and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "producers.deleted_at",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "deleted_at" datetime`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "deleted_at"`,
+					},
+				},
+				{
+					name: "farms.deleted_at",
+					sql: {
+						create: `ALTER TABLE "farms" ADD COLUMN "deleted_at" datetime`,
+						drop: `ALTER TABLE "farms" DROP COLUMN "deleted_at"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_producers_deleted_at",
+					sql: {
+						create: `CREATE INDEX "IDX_producers_deleted_at" ON "producers" ("deleted_at")`,
+						drop: `DROP INDEX "IDX_producers_deleted_at"`,
+					},
+				},
+				{
+					name: "IDX_farms_deleted_at",
+					sql: {
+						create: `CREATE INDEX "IDX_farms_deleted_at" ON "farms" ("deleted_at")`,
+						drop: `DROP INDEX "IDX_farms_deleted_at"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,46 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add roles to users
+ *
+ * Adds a `role` column to `users`, defaulting to `user`. Admins can perform
+ * destructive operations, such as purging trashed producers and farms.
+ *
+ * ## Data
+ * - Existing users become admins, since they had full access until now
+ *
+ * @see {@link User} entity for TypeORM configuration
+ * @see {@link RolesGuard} for role-based authorization
+ */
+export class AddRoleToUsers1734800000000 extends MigrationRunner {
+	name = "AddRoleToUsers1734800000000";
+
+	/**
+	 * Defines the role column of users and the role of existing users
+	 *
+	 * @returns Migration script with column and data definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "users.role",
+					sql: {
+						create: `ALTER TABLE "users" ADD COLUMN "role" varchar(20) NOT NULL DEFAULT 'user'`,
+						drop: `ALTER TABLE "users" DROP COLUMN "role"`,
+					},
+				},
+			],
+			data: [
+				{
+					description: "Grant the admin role to existing users",
+					up: async (qr) => {
+						await qr.query(`UPDATE "users" SET "role" = 'admin'`);
+					},
+				},
+			],
+		};
+	}
+}
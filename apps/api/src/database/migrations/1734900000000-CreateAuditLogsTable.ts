@@ -0,0 +1,76 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create audit logs table
+ *
+ * Records every create, update and delete on producers, farms, farm harvest
+ * crops and users, with the acting user, the request correlation ID and the
+ * changed fields as JSON. Entries are kept when their user is deleted.
+ *
+ * ## Indexes
+ * - Index on (`entity_type`, `entity_id`) for the history of a record
+ * - Index on `user_id` for the changes of a user
+ * - Index on `created_at` for date range queries
+ *
+ * @see {@link AuditLog} entity for TypeORM configuration
+ */
+export class CreateAuditLogsTable1734900000000 extends MigrationRunner {
+	name = "CreateAuditLogsTable1734900000000";
+
+	/**
+	 * Defines audit logs table and indexes
+	 *
+	 * @returns Migration script with table and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "audit_logs",
+					sql: {
+						create: `
+							CREATE TABLE "audit_logs" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"entity_type" varchar(50) NOT NULL,
+								"entity_id" varchar NOT NULL,
+								"action" varchar(20) NOT NULL,
+								"user_id" varchar,
+								"correlation_id" varchar(255),
+								"changes" text NOT NULL,
+								"created_at" datetime NOT NULL DEFAULT (datetime('now')),
+								CONSTRAINT "FK_audit_logs_user" FOREIGN KEY ("user_id")
+									REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE NO ACTION
+							)
+						`,
+						drop: `DROP TABLE "audit_logs"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_audit_logs_entity_type_entity_id",
+					sql: {
+						create: `CREATE INDEX "IDX_audit_logs_entity_type_entity_id" ON "audit_logs" ("entity_type", "entity_id")`,
+						drop: `DROP INDEX "IDX_audit_logs_entity_type_entity_id"`,
+					},
+				},
+				{
+					name: "IDX_audit_logs_user_id",
+					sql: {
+						create: `CREATE INDEX "IDX_audit_logs_user_id" ON "audit_logs" ("user_id")`,
+						drop: `DROP INDEX "IDX_audit_logs_user_id"`,
+					},
+				},
+				{
+					name: "IDX_audit_logs_created_at",
+					sql: {
+						create: `CREATE INDEX "IDX_audit_logs_created_at" ON "audit_logs" ("created_at")`,
+						drop: `DROP INDEX "IDX_audit_logs_created_at"`,
+					},
+				},
+			],
+		};
+	}
+}
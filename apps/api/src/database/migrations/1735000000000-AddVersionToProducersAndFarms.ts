@@ -0,0 +1,46 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add optimistic concurrency control to producers and farms
+ *
+ * Adds a `version` column to `producers` and `farms`, incremented by TypeORM
+ * on every update. Existing rows start at version 1.
+ *
+ * ## Business Rules
+ * - The version is returned as the `ETag` of the producer and farm endpoints
+ * - Updates and deletes sent with a stale `If-Match` header are rejected with
+ *   `412 Precondition Failed` (enforced at application level)
+ *
+ * @see {@link Producer} and {@link Farm} entities for TypeORM configuration
+ */
+export class AddVersionToProducersAndFarms1735000000000 extends MigrationRunner {
+	name = "AddVersionToProducersAndFarms1735000000000";
+
+	/**
+	 * Defines the version columns of producers and farms
+	 *
+	 * @returns Migration script with column definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "producers.version",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "version" integer NOT NULL DEFAULT (1)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "version"`,
+					},
+				},
+				{
+					name: "farms.version",
+					sql: {
+						create: `ALTER TABLE "farms" ADD COLUMN "version" integer NOT NULL DEFAULT (1)`,
+						drop: `ALTER TABLE "farms" DROP COLUMN "version"`,
+					},
+				},
+			],
+		};
+	}
+}
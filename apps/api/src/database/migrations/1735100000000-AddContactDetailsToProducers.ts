@@ -0,0 +1,89 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add contact details and a postal address to producers
+ *
+ * Adds a nullable `email` column, a `phones` column holding a JSON array of
+ * phone numbers (empty for existing producers), and nullable columns for the
+ * parts of the postal address. Existing producers have no address.
+ *
+ * ## Business Rules
+ * - Phone numbers and the CEP are stored digits only (enforced at application level)
+ * - The address parts are set or cleared together (enforced at application level)
+ * - The address city must exist within its state (enforced by `IsCityInState`)
+ *
+ * @see {@link Producer} entity for TypeORM configuration
+ */
+export class AddContactDetailsToProducers1735100000000 extends MigrationRunner {
+	name = "AddContactDetailsToProducers1735100000000";
+
+	/**
+	 * Defines the contact and address columns of producers
+	 *
+	 * @returns Migration script with the column definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "producers.email",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "email" varchar(255)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "email"`,
+					},
+				},
+				{
+					name: "producers.phones",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "phones" text NOT NULL DEFAULT ('[]')`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "phones"`,
+					},
+				},
+				{
+					name: "producers.postal_code",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "postal_code" varchar(8)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "postal_code"`,
+					},
+				},
+				{
+					name: "producers.street",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "street" varchar(255)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "street"`,
+					},
+				},
+				{
+					name: "producers.street_number",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "street_number" varchar(20)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "street_number"`,
+					},
+				},
+				{
+					name: "producers.district",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "district" varchar(100)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "district"`,
+					},
+				},
+				{
+					name: "producers.city",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "city" varchar(100)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "city"`,
+					},
+				},
+				{
+					name: "producers.state",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "state" varchar(2)`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "state"`,
+					},
+				},
+			],
+		};
+	}
+}
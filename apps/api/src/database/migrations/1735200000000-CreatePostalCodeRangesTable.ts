@@ -0,0 +1,61 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create the postal code ranges table
+ *
+ * Defines the table mapping Brazilian postal code (CEP) ranges to
+ * municipalities, used to fill in addresses from a CEP without calling an
+ * external service. Like the cities, range data is loaded separately in the
+ * application layer:
+ * - Migrations = Schema changes only
+ * - Loader = Bundled dataset
+ *
+ * ## Business Rules
+ * - Codes are stored as 8 digits so ranges can be searched with string comparisons
+ * - A range references its municipality by IBGE code (`cities.ibge_code`)
+ *
+ * @see {@link PostalCodeRange} entity for TypeORM configuration
+ * @see {@link PostalCodeLoader.load} for range data population
+ */
+export class CreatePostalCodeRangesTable1735200000000 extends MigrationRunner {
+	name = "CreatePostalCodeRangesTable1735200000000";
+
+	/**
+	 * Defines postal code ranges table and indexes (schema only)
+	 *
+	 * @returns Migration script with table and index definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "postal_code_ranges",
+					sql: {
+						create: `
+							CREATE TABLE "postal_code_ranges" (
+								"id" varchar PRIMARY KEY NOT NULL,
+								"start_code" varchar(8) NOT NULL,
+								"end_code" varchar(8) NOT NULL,
+								"ibge_code" varchar(7) NOT NULL,
+								"street" varchar(255),
+								"district" varchar(100)
+							)
+						`,
+						drop: `DROP TABLE "postal_code_ranges"`,
+					},
+				},
+			],
+			indexes: [
+				{
+					name: "IDX_postal_code_ranges_codes",
+					sql: {
+						create: `CREATE INDEX "IDX_postal_code_ranges_codes" ON "postal_code_ranges" ("start_code", "end_code")`,
+						drop: `DROP INDEX "IDX_postal_code_ranges_codes"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,39 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to add state registrations (Inscrição Estadual) to producers
+ *
+ * Adds a `state_registrations` column holding a JSON array of the registrations
+ * of a producer, one per state where it operates. Existing producers have none.
+ *
+ * ## Business Rules
+ * - At most one registration per state (enforced at application level)
+ * - Numbers are stored without formatting and validated against the algorithm
+ *   of their state (enforced by `IsInscricaoEstadual`)
+ *
+ * @see {@link Producer} entity for TypeORM configuration
+ */
+export class AddStateRegistrationsToProducers1735300000000 extends MigrationRunner {
+	name = "AddStateRegistrationsToProducers1735300000000";
+
+	/**
+	 * Defines the state registrations column of producers
+	 *
+	 * @returns Migration script with the column definition
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "producers.state_registrations",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "state_registrations" text NOT NULL DEFAULT ('[]')`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "state_registrations"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,38 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to record the anonymization of producers
+ *
+ * Adds an `anonymized_at` column set when the personal data of a producer is
+ * removed on a data subject request (LGPD). Existing producers are not anonymized.
+ *
+ * ## Business Rules
+ * - Anonymized producers keep their farms, so farm statistics are unchanged
+ * - Anonymization cannot be undone
+ *
+ * @see {@link Producer} entity for TypeORM configuration
+ */
+export class AddAnonymizedAtToProducers1735400000000 extends MigrationRunner {
+	name = "AddAnonymizedAtToProducers1735400000000";
+
+	/**
+	 * Defines the anonymization timestamp column of producers
+	 *
+	 * @returns Migration script with the column definition
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "producers.anonymized_at",
+					sql: {
+						create: `ALTER TABLE "producers" ADD COLUMN "anonymized_at" datetime`,
+						drop: `ALTER TABLE "producers" DROP COLUMN "anonymized_at"`,
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,131 @@
+import type { DatabaseObjectScript, MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/** Searchable columns of each indexed table, copied into its `<table>_search` full-text table */
+const SEARCHABLE_COLUMNS = {
+	producers: ["name", "document"],
+	farms: ["name", "city"],
+	cities: ["name", "state"],
+} as const satisfies Record<string, Array<string>>;
+
+type SearchableTable = keyof typeof SEARCHABLE_COLUMNS;
+
+/**
+ * Builds the triggers copying the changes of a table into its full-text table
+ *
+ * Rows are matched by ID rather than rowid, as VACUUM may renumber the rowids
+ * of tables without an INTEGER PRIMARY KEY.
+ *
+ * @param table Indexed table
+ *
+ * @returns Insert, update and delete trigger scripts
+ */
+function createSearchTriggers(table: SearchableTable): Array<DatabaseObjectScript> {
+	const columns = SEARCHABLE_COLUMNS[table];
+	const names = columns.map((column) => `"${column}"`).join(", ");
+	const values = columns.map((column) => `new."${column}"`).join(", ");
+	const assignments = columns.map((column) => `"${column}" = new."${column}"`).join(", ");
+
+	return [
+		{
+			name: `TRG_${table}_search_insert`,
+			sql: {
+				create: `
+					CREATE TRIGGER "TRG_${table}_search_insert" AFTER INSERT ON "${table}" BEGIN
+						INSERT INTO "${table}_search" ("id", ${names}) VALUES (new."id", ${values});
+					END
+				`,
+				drop: `DROP TRIGGER "TRG_${table}_search_insert"`,
+			},
+		},
+		{
+			name: `TRG_${table}_search_update`,
+			sql: {
+				create: `
+					CREATE TRIGGER "TRG_${table}_search_update" AFTER UPDATE OF ${names} ON "${table}" BEGIN
+						UPDATE "${table}_search" SET ${assignments} WHERE "id" = old."id";
+					END
+				`,
+				drop: `DROP TRIGGER "TRG_${table}_search_update"`,
+			},
+		},
+		{
+			name: `TRG_${table}_search_delete`,
+			sql: {
+				create: `
+					CREATE TRIGGER "TRG_${table}_search_delete" AFTER DELETE ON "${table}" BEGIN
+						DELETE FROM "${table}_search" WHERE "id" = old."id";
+					END
+				`,
+				drop: `DROP TRIGGER "TRG_${table}_search_delete"`,
+			},
+		},
+	];
+}
+
+/**
+ * Migration to create the full-text search indexes
+ *
+ * Creates an FTS5 table for producers, farms and cities, so they can be
+ * searched by words regardless of case and accents ("sao joao" finds
+ * "São João"). Each full-text table holds a copy of the searchable columns,
+ * kept up to date by triggers on the indexed table.
+ *
+ * ## Tables
+ * - `producers_search`: name and document (digits and letters only)
+ * - `farms_search`: name and city
+ * - `cities_search`: name and state
+ *
+ * ## Business Rules
+ * - Soft-deleted rows stay indexed, and are left out by the queries joining the indexed table
+ * - The `id` column is not indexed, it only links matches to their row
+ *
+ * ## Data
+ * - Indexes the existing producers, farms and cities
+ *
+ * @see {@link toFullTextQuery} for the queries matching these tables
+ */
+export class CreateSearchIndexes1735500000000 extends MigrationRunner {
+	name = "CreateSearchIndexes1735500000000";
+
+	/**
+	 * Defines the full-text tables, their triggers and the indexing of existing rows
+	 *
+	 * @returns Migration script with table, trigger and data definitions
+	 */
+	protected defineScripts(): MigrationScript {
+		const tables = Object.keys(SEARCHABLE_COLUMNS) as Array<SearchableTable>;
+
+		return {
+			tables: tables.map((table) => ({
+				name: `${table}_search`,
+				sql: {
+					create: `
+						CREATE VIRTUAL TABLE "${table}_search" USING fts5(
+							"id" UNINDEXED,
+							${SEARCHABLE_COLUMNS[table].map((column) => `"${column}"`).join(", ")},
+							tokenize = 'unicode61 remove_diacritics 2'
+						)
+					`,
+					drop: `DROP TABLE "${table}_search"`,
+				},
+			})),
+			triggers: tables.flatMap(createSearchTriggers),
+			data: [
+				{
+					description: "Index the existing producers, farms and cities",
+					up: async (qr) => {
+						for (const table of tables) {
+							const names = SEARCHABLE_COLUMNS[table].map((column) => `"${column}"`).join(", ");
+
+							await qr.query(
+								`INSERT INTO "${table}_search" ("id", ${names}) SELECT "id", ${names} FROM "${table}"`,
+							);
+						}
+					},
+				},
+			],
+		};
+	}
+}
@@ -0,0 +1,42 @@
+import type { MigrationScript } from "./migrationRunner";
+
+import { MigrationRunner } from "./migrationRunner";
+
+/**
+ * Migration to create the postal code datasets table
+ *
+ * Records the checksum of the postal code dataset loaded into
+ * `postal_code_ranges`, so the loader can tell a different dataset from the
+ * stored one even when both have the same number of ranges.
+ *
+ * @see {@link PostalCodeDataset} entity for TypeORM configuration
+ * @see {@link PostalCodeLoader.load} for range data population
+ */
+export class CreatePostalCodeDatasetsTable1735600000000 extends MigrationRunner {
+	name = "CreatePostalCodeDatasetsTable1735600000000";
+
+	/**
+	 * Defines postal code datasets table (schema only)
+	 *
+	 * @returns Migration script with table definition
+	 */
+	protected defineScripts(): MigrationScript {
+		return {
+			tables: [
+				{
+					name: "postal_code_datasets",
+					sql: {
+						create: `
+							CREATE TABLE "postal_code_datasets" (
+								"checksum" varchar(64) PRIMARY KEY NOT NULL,
+								"range_count" integer NOT NULL,
+								"loaded_at" datetime NOT NULL DEFAULT (datetime('now'))
+							)
+						`,
+						drop: `DROP TABLE "postal_code_datasets"`,
+					},
+				},
+			],
+		};
+	}
+}
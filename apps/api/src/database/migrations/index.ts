@@ -8,12 +8,46 @@ import { InitialSchema1732406400000 } from "./1732406400000-InitialSchema";
 import { SeedCities1732406500000 } from "./1732406500000-SeedCities";
 import { AddPerformanceIndexes1732500000000 } from "./1732500000000-AddPerformanceIndexes";
 import { CreateUsersTable1733702400000 } from "./1733702400000-CreateUsersTable";
+import { AddPlantedAreaToFarmHarvestCrops1734000000000 } from "./1734000000000-AddPlantedAreaToFarmHarvestCrops";
+import { CreateProductionRecordsTable1734100000000 } from "./1734100000000-CreateProductionRecordsTable";
+import { CreateCropsTable1734200000000 } from "./1734200000000-CreateCropsTable";
+import { AddGeolocationToFarms1734300000000 } from "./1734300000000-AddGeolocationToFarms";
+import { CreateFarmPlotsTable1734400000000 } from "./1734400000000-CreateFarmPlotsTable";
+import { CreateFarmOwnershipHistoryTable1734500000000 } from "./1734500000000-CreateFarmOwnershipHistoryTable";
+import { CreateFarmOwnersTable1734600000000 } from "./1734600000000-CreateFarmOwnersTable";
+import { AddSoftDeleteToProducersAndFarms1734700000000 } from "./1734700000000-AddSoftDeleteToProducersAndFarms";
+import { AddRoleToUsers1734800000000 } from "./1734800000000-AddRoleToUsers";
+import { CreateAuditLogsTable1734900000000 } from "./1734900000000-CreateAuditLogsTable";
+import { AddVersionToProducersAndFarms1735000000000 } from "./1735000000000-AddVersionToProducersAndFarms";
+import { AddContactDetailsToProducers1735100000000 } from "./1735100000000-AddContactDetailsToProducers";
+import { CreatePostalCodeRangesTable1735200000000 } from "./1735200000000-CreatePostalCodeRangesTable";
+import { AddStateRegistrationsToProducers1735300000000 } from "./1735300000000-AddStateRegistrationsToProducers";
+import { AddAnonymizedAtToProducers1735400000000 } from "./1735400000000-AddAnonymizedAtToProducers";
+import { CreateSearchIndexes1735500000000 } from "./1735500000000-CreateSearchIndexes";
+import { CreatePostalCodeDatasetsTable1735600000000 } from "./1735600000000-CreatePostalCodeDatasetsTable";
 
 export const migrations = [
 	InitialSchema1732406400000,
 	SeedCities1732406500000,
 	AddPerformanceIndexes1732500000000,
 	CreateUsersTable1733702400000,
+	AddPlantedAreaToFarmHarvestCrops1734000000000,
+	CreateProductionRecordsTable1734100000000,
+	CreateCropsTable1734200000000,
+	AddGeolocationToFarms1734300000000,
+	CreateFarmPlotsTable1734400000000,
+	CreateFarmOwnershipHistoryTable1734500000000,
+	CreateFarmOwnersTable1734600000000,
+	AddSoftDeleteToProducersAndFarms1734700000000,
+	AddRoleToUsers1734800000000,
+	CreateAuditLogsTable1734900000000,
+	AddVersionToProducersAndFarms1735000000000,
+	AddContactDetailsToProducers1735100000000,
+	CreatePostalCodeRangesTable1735200000000,
+	AddStateRegistrationsToProducers1735300000000,
+	AddAnonymizedAtToProducers1735400000000,
+	CreateSearchIndexes1735500000000,
+	CreatePostalCodeDatasetsTable1735600000000,
 ];
 
 /**
@@ -6,7 +6,7 @@ import { createLogger } from "@agro/shared/utils";
 /**
  * Database object script definition for CREATE and DROP operations
  *
- * Represents a database object (table, index, constraint) with its
+ * Represents a database object (table, index, trigger, constraint) with its
  * creation and deletion SQL statements.
  */
 export interface DatabaseObjectScript {
@@ -43,8 +43,8 @@ export interface DataScript {
  * Complete migration script structure
  *
  * Organizes all migration operations into logical categories:
- * tables, indexes, and custom data scripts. Executed in order during up(),
- * and in reverse order during down().
+ * tables, indexes, triggers, and custom data scripts. Executed in order
+ * during up(), and in reverse order during down().
  */
 export interface MigrationScript {
 	/** Table creation/deletion scripts */
@@ -53,6 +53,9 @@ export interface MigrationScript {
 	/** Index creation/deletion scripts */
 	indexes?: DatabaseObjectScript[];
 
+	/** Trigger creation/deletion scripts, created once their tables exist */
+	triggers?: DatabaseObjectScript[];
+
 	/** Custom data manipulation scripts (e.g., seeding, API calls) */
 	data?: DataScript[];
 }
@@ -124,10 +127,10 @@ export abstract class MigrationRunner implements MigrationInterface {
 	 * Defines migration scripts declaratively
 	 *
 	 * Concrete migrations MUST implement this method to return their
-	 * table, index, and data scripts. Scripts are executed in the order
-	 * defined: tables → indexes → data (for up), reversed for down.
+	 * table, index, trigger, and data scripts. Scripts are executed in the order
+	 * defined: tables → indexes → triggers → data (for up), reversed for down.
 	 *
-	 * @returns Migration script structure with tables, indexes, and data operations
+	 * @returns Migration script structure with tables, indexes, triggers, and data operations
 	 *
 	 * @example
 	 * ```typescript
@@ -144,7 +147,7 @@ export abstract class MigrationRunner implements MigrationInterface {
 	/**
 	 * Executes migration up (applies changes)
 	 *
-	 * Runs scripts in order: tables → indexes → data.
+	 * Runs scripts in order: tables → indexes → triggers → data.
 	 * Each operation is logged for debugging and audit purposes.
 	 *
 	 * @param qr TypeORM query runner for executing SQL
@@ -168,6 +171,13 @@ export abstract class MigrationRunner implements MigrationInterface {
 			}
 		}
 
+		if (scripts.triggers?.length) {
+			for (const { name, sql } of scripts.triggers) {
+				this.logger.debug({ trigger: name }, "Creating trigger");
+				await qr.query(sql.create);
+			}
+		}
+
 		if (scripts.data?.length) {
 			for (const { description, up } of scripts.data) {
 				this.logger.debug({ operation: description }, "Executing data script");
@@ -179,7 +189,7 @@ export abstract class MigrationRunner implements MigrationInterface {
 	/**
 	 * Executes migration down (reverts changes)
 	 *
-	 * Runs scripts in reverse order: data → indexes → tables.
+	 * Runs scripts in reverse order: data → triggers → indexes → tables.
 	 * This ensures dependent objects are dropped before their dependencies.
 	 *
 	 * @param qr TypeORM query runner for executing SQL
@@ -198,6 +208,13 @@ export abstract class MigrationRunner implements MigrationInterface {
 			}
 		}
 
+		if (scripts.triggers?.length) {
+			for (const { name, sql } of scripts.triggers.reverse()) {
+				this.logger.debug({ trigger: name }, "Dropping trigger");
+				await qr.query(sql.drop);
+			}
+		}
+
 		if (scripts.indexes?.length) {
 			for (const { name, sql } of scripts.indexes.reverse()) {
 				this.logger.debug({ index: name }, "Dropping index");
@@ -5,7 +5,7 @@
  * seeding process, including state weights, crop combinations, and scale configurations.
  */
 
-import { BrazilianState, CropType, SupportedLocale } from "@agro/shared/enums";
+import { BrazilianState, SupportedLocale } from "@agro/shared/enums";
 
 /** Supported database seeding scales */
 export enum SeedScale {
@@ -131,12 +131,12 @@ export const STATE_WEIGHTS: Record<BrazilianState, number> = {
  * - Crop rotation pairs (soybean/corn)
  * - Multi-crop systems
  */
-export const CROP_COMBINATIONS: Array<Array<CropType>> = [
-	[CropType.Soy, CropType.Corn],
-	[CropType.Soy],
-	[CropType.Corn],
-	[CropType.Cotton, CropType.Soy],
-	[CropType.Coffee],
-	[CropType.Sugarcane],
-	[CropType.Soy, CropType.Corn, CropType.Cotton],
+export const CROP_COMBINATIONS: Array<Array<string>> = [
+	["soy", "corn"],
+	["soy"],
+	["corn"],
+	["cotton", "soy"],
+	["coffee"],
+	["sugarcane"],
+	["soy", "corn", "cotton"],
 ];
@@ -7,15 +7,17 @@ import { DataSource } from "typeorm";
 import type { SeedConfig } from "./seed.constants";
 
 import { DEMO_CREDENTIALS } from "@agro/shared/constants";
-import { BrazilianState } from "@agro/shared/enums";
+import { BrazilianState, UserRole } from "@agro/shared/enums";
 import { generateDocument } from "@agro/shared/utils";
+import { maskDocument } from "@agro/shared/validators";
 
 import { delay } from "@/common";
 import { createPinoConfig, env } from "@/config/";
 import { User } from "@/modules/auth/entities/user.entity";
 import { City } from "@/modules/cities/entities";
 import { IbgeApiService } from "@/modules/cities/ibge-api.service";
-import { Farm, FarmHarvest, FarmHarvestCrop, Harvest } from "@/modules/farms/entities";
+import { Farm, FarmHarvest, FarmHarvestCrop, FarmOwner } from "@/modules/farms/entities";
+import { Harvest } from "@/modules/harvests/entities";
 import { Producer } from "@/modules/producers/entities";
 
 import { FARM_NAME_PREFIXES } from "./seed.constants";
@@ -124,6 +126,7 @@ export class SeedService {
 			name: "Admin User",
 			password: hashedPassword,
 			isActive: true,
+			role: UserRole.Admin,
 		});
 
 		await userRepository.save(adminUser);
@@ -212,15 +215,16 @@ export class SeedService {
 					generateDocument.cnpj({ formatted: true })
 				:	generateDocument.cpf({ formatted: true });
 
-			this.logger.debug({ index: index + 1, isCompany, document }, "Creating producer");
+			this.logger.debug(
+				{ index: index + 1, isCompany, document: maskDocument(document) },
+				"Creating producer",
+			);
 
 			const producer = producerRepository.create({
 				name: isCompany ? faker.company.name() : faker.person.fullName(),
 				document,
 			});
 
-			this.logger.debug({ producer }, "Created producer");
-
 			producers.push(producer);
 		}
 
@@ -239,6 +243,7 @@ export class SeedService {
 	 * - Valid total, arable, and vegetation areas
 	 * - Real cities from the cities table
 	 * - Weighted state distribution based on agricultural importance
+	 * - Their producer as sole owner
 	 *
 	 * @returns {Promise<void>}
 	 */
@@ -291,6 +296,11 @@ export class SeedService {
 		}
 
 		await farmRepository.save(farms);
+		await this.dataSource
+			.getRepository(FarmOwner)
+			.save(
+				farms.map((farm) => ({ farmId: farm.id, producerId: farm.producerId, percentage: 100 })),
+			);
 
 		const statesCount = new Set(farms.map((farm) => farm.state)).size;
 		const totalHectares = farms.reduce((sum, farm) => sum + farm.totalArea, 0).toFixed(2);
@@ -400,6 +410,8 @@ export class SeedService {
 					"Creating crop associations",
 				);
 
+				const maxPlantedArea = Math.floor((farm.arableArea / crops.length) * 100) / 100;
+
 				for (const [cropIndex, cropType] of crops.entries()) {
 					const cropContext = {
 						...harvestContext,
@@ -412,6 +424,10 @@ export class SeedService {
 					const crop = farmHarvestCropRepository.create({
 						farmHarvestId: farmHarvest.id,
 						cropType,
+						plantedArea:
+							maxPlantedArea >= 0.01 ?
+								faker.number.float({ min: 0.01, max: maxPlantedArea, fractionDigits: 2 })
+							:	null,
 					});
 
 					await farmHarvestCropRepository.save(crop);
@@ -3,7 +3,7 @@ import { Injectable } from "@nestjs/common";
 
 import type { SeedConfig } from "./seed.constants";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import { BrazilianState } from "@agro/shared/enums";
 
 import { CROP_COMBINATIONS, SeedScale, STATE_WEIGHTS } from "./seed.constants";
 
@@ -146,10 +146,10 @@ export class SeedUtilities {
 	 * ```typescript
 	 * const crops = this.seedUtilities.getRandomCropCombination();
 	 * console.log(crops);
-	 * // [CropType.Soy, CropType.Corn] or [CropType.Coffee]
+	 * // ["soy", "corn"] or ["coffee"]
 	 * ```
 	 */
-	public getRandomCropCombination(): Array<CropType> {
+	public getRandomCropCombination(): Array<string> {
 		return faker.helpers.arrayElement(CROP_COMBINATIONS);
 	}
 }
@@ -1,4 +1,4 @@
-import { BadRequestException, ValidationPipe } from "@nestjs/common";
+import { BadRequestException, HttpStatus, ValidationPipe } from "@nestjs/common";
 import { NestFactory } from "@nestjs/core";
 import { DocumentBuilder, SwaggerModule } from "@nestjs/swagger";
 import { apiReference } from "@scalar/nestjs-api-reference";
@@ -16,6 +16,7 @@ import { version } from "../package.json";
 
 import { AppModule } from "./app.module";
 import { HttpExceptionFilter } from "./common/filters/http-exception.filter";
+import { formatValidationErrors } from "./common/utils/validation.util";
 import { runMigrations } from "./database/migrations";
 
 if (import.meta.main) {
@@ -110,7 +111,8 @@ function setupGlobalPrefix(app: INestApplication): void {
  * Configures global validation pipe with class-validator.
  *
  * Enables automatic DTO validation with whitelist stripping, unknown value
- * rejection, and transformation. Provides detailed validation error messages.
+ * rejection, and transformation. Provides detailed validation error messages,
+ * naming the failing fields of nested DTOs by their path.
  *
  * @param app The NestJS application instance
  */
@@ -125,17 +127,11 @@ function setupValidation(app: INestApplication): void {
 				enableImplicitConversion: true,
 			},
 			exceptionFactory: (errors) => {
-				const messages = errors.map((error) => {
-					const constraints = error.constraints ? Object.values(error.constraints) : [];
-					const field = error.property;
-					const value = error.value as unknown;
-
-					const detailedValidationErrors = `${field}: ${constraints.join(", ")} (received: ${JSON.stringify(value)})`;
-
-					return detailedValidationErrors;
+				return new BadRequestException({
+					statusCode: HttpStatus.BAD_REQUEST,
+					message: formatValidationErrors(errors),
+					error: "Validation Failed",
 				});
-
-				return new BadRequestException({ message: messages, error: "Validation Failed" });
 			},
 		}),
 	);
@@ -157,7 +153,8 @@ function setupExceptionHandling(app: INestApplication, logger: Logger): void {
 /**
  * Configures CORS (Cross-Origin Resource Sharing).
  *
- * Enables CORS with environment-specific origins and credentials support.
+ * Enables CORS with environment-specific origins and credentials support, and
+ * exposes the `ETag` header used for optimistic concurrency.
  *
  * @param app The NestJS application instance
  */
@@ -165,6 +162,7 @@ function setupCors(app: INestApplication): void {
 	app.enableCors({
 		origin: env.API__CORS_ORIGIN,
 		credentials: true,
+		exposedHeaders: ["ETag", "Content-Disposition"],
 	});
 }
 
@@ -188,6 +186,10 @@ function setupOpenApiDocumentation(app: INestApplication): OpenAPIObject {
 		.setVersion(version)
 		.addTag("Producers", "Rural producer management endpoints")
 		.addTag("Farms", "Farm management and statistics endpoints")
+		.addTag("Plots", "Farm plot (talhão) management endpoints")
+		.addTag("Harvests", "Harvest season management endpoints")
+		.addTag("Crops", "Crop catalog management endpoints")
+		.addTag("Production", "Farm production and yield endpoints")
 		.addTag("Health", "Health check and readiness endpoints")
 		.addBearerAuth(
 			{
@@ -240,4 +242,5 @@ async function startServer(app: INestApplication, logger: Logger): Promise<void>
 	logger.log(`Application running: ${env.API__BASE_URL}/api`, "Bootstrap");
 	logger.log(`Swagger documentation: ${env.API__BASE_URL}/api/docs`, "Bootstrap");
 	logger.log(`Scalar API reference: ${env.API__BASE_URL}/api/reference`, "Bootstrap");
+	logger.log(`GraphQL endpoint: ${env.API__BASE_URL}/api/graphql`, "Bootstrap");
 }
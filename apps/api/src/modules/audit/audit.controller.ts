@@ -0,0 +1,54 @@
+import { Controller, Get, HttpStatus, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { AuditService } from "./audit.service";
+import { AuditLogResponseDto, FindAllAuditLogsDto } from "./dto";
+
+/**
+ * Controller handling HTTP requests for the audit log.
+ *
+ * Exposes the recorded creates, updates and deletes of producers, farms,
+ * farm harvest crops and users, with the user who performed each of them.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [AuditController],
+ *   providers: [AuditService]
+ * })
+ * ```
+ */
+@ApiTags("Audit")
+@ApiBearerAuth("JWT")
+@Controller("audit")
+export class AuditController {
+	constructor(private readonly auditService: AuditService) {}
+
+	/**
+	 * Retrieves audit log entries with pagination and filters.
+	 *
+	 * @param query Query parameters for pagination and filters
+	 *
+	 * @returns Paginated audit log response with metadata
+	 */
+	@Get()
+	@ApiOperation({
+		summary: "Get audit log entries with pagination and filters",
+		description:
+			"Retrieves the recorded writes, most recent first. Filters by entity type, entity ID, user and date range.",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Paginated list of audit log entries",
+		type: [AuditLogResponseDto],
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid filters" })
+	public findAll(
+		@Query() query: FindAllAuditLogsDto,
+	): Promise<PaginatedResponse<AuditLogResponseDto>> {
+		return this.auditService.findAll(query);
+	}
+}
@@ -0,0 +1,31 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { AuditController } from "./audit.controller";
+import { AuditService } from "./audit.service";
+import { AuditSubscriber } from "./audit.subscriber";
+import { AuditLog } from "./entities";
+
+/**
+ * NestJS module for the audit log.
+ *
+ * Registers the {@link AuditSubscriber} recording writes to audited entities
+ * and exposes the recorded entries. Exports the {@link AuditService} so other
+ * modules can read and erase the entries of their records.
+ *
+ * @example
+ * ```typescript
+ * // In app.module.ts
+ * @Module({
+ *   imports: [AuditModule],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([AuditLog])],
+	controllers: [AuditController],
+	providers: [AuditService, AuditSubscriber],
+	exports: [AuditService],
+})
+export class AuditModule {}
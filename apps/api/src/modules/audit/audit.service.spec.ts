@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Unit tests for {@link AuditService}.
+ *
+ * Tests audit log filtering and mapping using mocked dependencies.
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+import { AuditAction, AuditEntityType, UserRole } from "@agro/shared/enums";
+
+import { currentUserStorage } from "@/common";
+
+import { AuditService } from "./audit.service";
+import { AuditLog } from "./entities";
+
+describe("AuditService", () => {
+	let service: AuditService;
+
+	interface MockQueryBuilder {
+		leftJoinAndSelect: ReturnType<typeof mock>;
+		andWhere: ReturnType<typeof mock>;
+		orderBy: ReturnType<typeof mock>;
+		skip: ReturnType<typeof mock>;
+		take: ReturnType<typeof mock>;
+		getManyAndCount: ReturnType<typeof mock>;
+	}
+
+	const createMockQueryBuilder = (): MockQueryBuilder => {
+		const qb: Partial<MockQueryBuilder> = {
+			getManyAndCount: mock(),
+		};
+
+		qb.leftJoinAndSelect = mock(() => qb);
+		qb.andWhere = mock(() => qb);
+		qb.orderBy = mock(() => qb);
+		qb.skip = mock(() => qb);
+		qb.take = mock(() => qb);
+
+		return qb as MockQueryBuilder;
+	};
+
+	const mockAuditLogRepository = {
+		createQueryBuilder: mock(createMockQueryBuilder),
+		find: mock(),
+	};
+
+	const mockEntry = {
+		id: "0b6c3f0e-5d1a-4c8e-9f2b-7a4d6e8c1b3a",
+		entityType: AuditEntityType.Farm,
+		entityId: "660e8400-e29b-41d4-a716-446655440001",
+		action: AuditAction.Update,
+		userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+		correlationId: "c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d",
+		changes: { totalArea: { before: 100, after: 120 } },
+		user: { email: "admin@example.com" },
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+	} as unknown as AuditLog;
+
+	const mockProducerEntry = {
+		...mockEntry,
+		entityType: AuditEntityType.Producer,
+		entityId: "550e8400-e29b-41d4-a716-446655440000",
+		changes: {
+			name: { before: "João Silva", after: "João Silva Santos" },
+			document: { before: "11144477735", after: "52998224725" },
+		},
+	} as unknown as AuditLog;
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				AuditService,
+				{
+					provide: getRepositoryToken(AuditLog),
+					useValue: mockAuditLogRepository,
+				},
+			],
+		}).compile();
+
+		service = module.get<AuditService>(AuditService);
+
+		mockAuditLogRepository.createQueryBuilder.mockReset();
+		mockAuditLogRepository.find.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("findAll", () => {
+		it("should return entries most recent first with the email of their user", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([
+				[mockEntry, { ...mockEntry, userId: null, user: null }],
+				2,
+			]);
+			mockAuditLogRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll();
+
+			expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith("audit.user", "user");
+			expect(mockQueryBuilder.andWhere).not.toHaveBeenCalled();
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith("audit.createdAt", "DESC");
+			expect(result.total).toBe(2);
+			expect(result.data[0]?.userEmail).toBe("admin@example.com");
+			expect(result.data[0]?.changes).toEqual({ totalArea: { before: 100, after: 120 } });
+			expect(result.data[1]?.userEmail).toBeNull();
+		});
+
+		it("should filter by entity, user and date range", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockEntry], 1]);
+			mockAuditLogRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({
+				entityType: AuditEntityType.Farm,
+				entityId: mockEntry.entityId,
+				userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+				from: "2025-11-01T00:00:00.000Z",
+				to: "2025-11-30T23:59:59.999Z",
+			});
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("audit.entityType = :entityType", {
+				entityType: AuditEntityType.Farm,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("audit.entityId = :entityId", {
+				entityId: mockEntry.entityId,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("audit.userId = :userId", {
+				userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("audit.createdAt >= :from", {
+				from: new Date("2025-11-01T00:00:00.000Z"),
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("audit.createdAt <= :to", {
+				to: new Date("2025-11-30T23:59:59.999Z"),
+			});
+		});
+
+		it("should paginate entries", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockEntry], 25]);
+			mockAuditLogRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll({ page: 3, limit: 10 });
+
+			expect(mockQueryBuilder.skip).toHaveBeenCalledWith(20);
+			expect(mockQueryBuilder.take).toHaveBeenCalledWith(10);
+			expect(result.totalPages).toBe(3);
+		});
+
+		it("should mask the documents of producer entries", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockProducerEntry], 1]);
+			mockAuditLogRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll();
+
+			expect(result.data[0]?.changes).toEqual({
+				name: { before: "João Silva", after: "João Silva Santos" },
+				document: { before: "***.444.777-**", after: "***.982.247-**" },
+			});
+		});
+
+		it("should reveal the documents of producer entries to admins", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockProducerEntry], 1]);
+			mockAuditLogRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await currentUserStorage.run(
+				{
+					userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+					email: "admin@example.com",
+					role: UserRole.Admin,
+				},
+				() => service.findAll(),
+			);
+
+			expect(result.data[0]?.changes).toEqual(mockProducerEntry.changes);
+		});
+	});
+
+	describe("findAllByEntity", () => {
+		it("should return every entry of the record, most recent first", async () => {
+			mockAuditLogRepository.find.mockResolvedValue([mockEntry]);
+
+			const result = await service.findAllByEntity(AuditEntityType.Farm, mockEntry.entityId);
+
+			expect(mockAuditLogRepository.find).toHaveBeenCalledWith({
+				where: { entityType: AuditEntityType.Farm, entityId: mockEntry.entityId },
+				relations: { user: true },
+				order: { createdAt: "DESC" },
+			});
+			expect(result).toHaveLength(1);
+			expect(result[0]?.userEmail).toBe("admin@example.com");
+		});
+	});
+
+	describe("eraseFields", () => {
+		it("should erase the values of the fields, keeping the other changes", async () => {
+			const mockManager = {
+				find: mock().mockResolvedValue([
+					{
+						...mockProducerEntry,
+						changes: { ...mockProducerEntry.changes, version: { before: 1, after: 2 } },
+					},
+				]),
+				save: mock(),
+			};
+
+			await service.eraseFields(
+				mockManager as never,
+				AuditEntityType.Producer,
+				mockProducerEntry.entityId,
+				["name", "document", "email"],
+			);
+
+			expect(mockManager.find).toHaveBeenCalledWith(AuditLog, {
+				where: { entityType: AuditEntityType.Producer, entityId: mockProducerEntry.entityId },
+			});
+			expect(mockManager.save).toHaveBeenCalledWith(AuditLog, [
+				expect.objectContaining({
+					changes: {
+						name: { before: null, after: null },
+						document: { before: null, after: null },
+						version: { before: 1, after: 2 },
+					},
+				}),
+			]);
+		});
+	});
+});
@@ -0,0 +1,222 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+
+import type { EntityManager } from "typeorm";
+
+import type { AuditFieldChange, PaginatedResponse } from "@agro/shared/types";
+
+import { AuditEntityType, Permission, SortOrder } from "@agro/shared/enums";
+import { maskDocument } from "@agro/shared/validators";
+
+import { currentUserHasPermission } from "@/common";
+
+import { AuditLogResponseDto, FindAllAuditLogsDto } from "./dto";
+import { AuditLog } from "./entities";
+
+/**
+ * Service responsible for querying the audit log.
+ *
+ * Entries are recorded by the {@link AuditSubscriber} as audited entities are
+ * written, so this service only reads them, apart from erasing personal data
+ * when a producer is anonymized.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly auditService: AuditService) {}
+ *
+ * async findAll(query: FindAllAuditLogsDto) {
+ *   return this.auditService.findAll(query);
+ * }
+ * ```
+ */
+@Injectable()
+export class AuditService {
+	/**
+	 * Creates an instance of AuditService.
+	 *
+	 * @param auditLogRepository TypeORM repository for AuditLog entity
+	 */
+	constructor(
+		@InjectRepository(AuditLog)
+		private readonly auditLogRepository: Repository<AuditLog>,
+	) {}
+
+	/**
+	 * Retrieves audit log entries with pagination and filters.
+	 *
+	 * @param query Query parameters for pagination and filters
+	 *
+	 * @returns Paginated response with entries, most recent first, and metadata
+	 *
+	 * @example
+	 * ```typescript
+	 * const history = await service.findAll({
+	 *   entityType: AuditEntityType.Farm,
+	 *   entityId: "660e8400-e29b-41d4-a716-446655440001"
+	 * });
+	 * ```
+	 */
+	public async findAll(
+		query: FindAllAuditLogsDto = {},
+	): Promise<PaginatedResponse<AuditLogResponseDto>> {
+		const { page = 1, limit = 10, entityType, entityId, userId, from, to } = query;
+
+		const qb = this.auditLogRepository
+			.createQueryBuilder("audit")
+			.leftJoinAndSelect("audit.user", "user");
+
+		if (entityType) {
+			qb.andWhere("audit.entityType = :entityType", { entityType });
+		}
+
+		if (entityId) {
+			qb.andWhere("audit.entityId = :entityId", { entityId });
+		}
+
+		if (userId) {
+			qb.andWhere("audit.userId = :userId", { userId });
+		}
+
+		if (from) {
+			qb.andWhere("audit.createdAt >= :from", { from: new Date(from) });
+		}
+
+		if (to) {
+			qb.andWhere("audit.createdAt <= :to", { to: new Date(to) });
+		}
+
+		qb.orderBy("audit.createdAt", SortOrder.Descending);
+
+		const skip = (page - 1) * limit;
+		qb.skip(skip).take(limit);
+
+		const [entries, total] = await qb.getManyAndCount();
+
+		return {
+			data: entries.map((entry) => this.mapToResponseDto(entry)),
+			page,
+			limit,
+			total,
+			totalPages: Math.ceil(total / limit),
+		};
+	}
+
+	/**
+	 * Retrieves every audit log entry of a record.
+	 *
+	 * @param entityType Type of the record
+	 * @param entityId ID of the record
+	 *
+	 * @returns The entries of the record, most recent first
+	 *
+	 * @example
+	 * ```typescript
+	 * const history = await service.findAllByEntity(
+	 *   AuditEntityType.Producer,
+	 *   "550e8400-e29b-41d4-a716-446655440000"
+	 * );
+	 * ```
+	 */
+	public async findAllByEntity(
+		entityType: AuditEntityType,
+		entityId: string,
+	): Promise<Array<AuditLogResponseDto>> {
+		const entries = await this.auditLogRepository.find({
+			where: { entityType, entityId },
+			relations: { user: true },
+			order: { createdAt: SortOrder.Descending },
+		});
+
+		return entries.map((entry) => this.mapToResponseDto(entry));
+	}
+
+	/**
+	 * Erases the values of some fields from every audit log entry of a record.
+	 *
+	 * The entries are kept, so the history still tells when the fields changed
+	 * and who changed them, but their values before and after become `null`.
+	 *
+	 * @param manager Entity manager of the transaction erasing the record's data
+	 * @param entityType Type of the record
+	 * @param entityId ID of the record
+	 * @param properties Names of the fields to erase
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.eraseFields(manager, AuditEntityType.Producer, producerId, ["email"]);
+	 * ```
+	 */
+	public async eraseFields(
+		manager: EntityManager,
+		entityType: AuditEntityType,
+		entityId: string,
+		properties: ReadonlyArray<string>,
+	): Promise<void> {
+		const entries = await manager.find(AuditLog, { where: { entityType, entityId } });
+
+		for (const entry of entries) {
+			const changes = { ...entry.changes };
+
+			for (const property of properties) {
+				if (changes[property]) changes[property] = { before: null, after: null };
+			}
+
+			entry.changes = changes;
+		}
+
+		await manager.save(AuditLog, entries);
+	}
+
+	/**
+	 * Maps an AuditLog entity to AuditLogResponseDto.
+	 *
+	 * @param entry The audit log entity, with its user loaded
+	 *
+	 * @returns The mapped response DTO
+	 */
+	private mapToResponseDto(entry: AuditLog): AuditLogResponseDto {
+		return {
+			id: entry.id,
+			entityType: entry.entityType,
+			entityId: entry.entityId,
+			action: entry.action,
+			userId: entry.userId,
+			userEmail: entry.user?.email ?? null,
+			correlationId: entry.correlationId,
+			changes: this.maskChanges(entry),
+			createdAt: entry.createdAt,
+		};
+	}
+
+	/**
+	 * Masks the producer documents in the changes of an entry.
+	 *
+	 * Documents are masked as in producer responses, unless the current user may
+	 * reveal personal data.
+	 *
+	 * @param entry The audit log entity
+	 *
+	 * @returns The changes of the entry, with the document masked when needed
+	 */
+	private maskChanges(entry: AuditLog): Record<string, AuditFieldChange> {
+		const { document } = entry.changes;
+
+		if (
+			entry.entityType !== AuditEntityType.Producer ||
+			!document ||
+			currentUserHasPermission(Permission.RevealPersonalData)
+		) {
+			return entry.changes;
+		}
+
+		const mask = (value: unknown): unknown =>
+			typeof value === "string" ? maskDocument(value) : value;
+
+		return {
+			...entry.changes,
+			document: { before: mask(document.before), after: mask(document.after) },
+		};
+	}
+}
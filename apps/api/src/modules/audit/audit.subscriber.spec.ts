@@ -0,0 +1,245 @@
+/**
+ * @fileoverview Unit tests for {@link AuditSubscriber}.
+ *
+ * Tests the recorded actions and field-level diffs using mocked entity metadata.
+ */
+
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+import type {
+	DataSource,
+	EntityMetadata,
+	InsertEvent,
+	ObjectLiteral,
+	RemoveEvent,
+	UpdateEvent,
+} from "typeorm";
+
+import { AuditAction, AuditEntityType, UserRole } from "@agro/shared/enums";
+
+import { correlationIdStorage, currentUserStorage } from "@/common";
+import { Farm } from "@/modules/farms/entities";
+import { FarmPlot } from "@/modules/plots/entities";
+
+import { AuditSubscriber } from "./audit.subscriber";
+import { AuditLog } from "./entities";
+
+describe("AuditSubscriber", () => {
+	let subscriber: AuditSubscriber;
+
+	const mockDataSource = { subscribers: [] as Array<unknown> };
+
+	const mockManager = {
+		create: mock((_target: unknown, entry: ObjectLiteral) => entry),
+		save: mock(),
+	};
+
+	/** Audit log entries created through the mocked manager */
+	const recordedEntries = (): Array<AuditLog> =>
+		mockManager.create.mock.calls.map(([, entry]) => entry as AuditLog);
+
+	/** Creates a column metadata stub reading the given property */
+	const createColumn = (
+		propertyName: string,
+		flags: Record<string, boolean> = {},
+	): EntityMetadata["columns"][number] =>
+		({
+			propertyName,
+			isCreateDate: false,
+			isUpdateDate: false,
+			isVersion: false,
+			...flags,
+			getEntityValue: (entity: ObjectLiteral) => entity[propertyName] as unknown,
+		}) as unknown as EntityMetadata["columns"][number];
+
+	const columns = {
+		id: createColumn("id"),
+		name: createColumn("name"),
+		totalArea: createColumn("totalArea"),
+		password: createColumn("password"),
+		createdAt: createColumn("createdAt", { isCreateDate: true }),
+		updatedAt: createColumn("updatedAt", { isUpdateDate: true }),
+		version: createColumn("version", { isVersion: true }),
+		deletedAt: createColumn("deletedAt"),
+	};
+
+	/** Creates an entity metadata stub for the given entity class */
+	const createMetadata = (target: unknown = Farm): EntityMetadata =>
+		({
+			target,
+			columns: Object.values(columns),
+			deleteDateColumn: columns.deletedAt,
+			getEntityIdMixedMap: (entity: ObjectLiteral) => entity["id"] as unknown,
+		}) as unknown as EntityMetadata;
+
+	const farm = {
+		id: "660e8400-e29b-41d4-a716-446655440001",
+		name: "Fazenda Boa Vista",
+		totalArea: 100,
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+		updatedAt: new Date("2025-11-24T10:00:00Z"),
+		version: 1,
+		deletedAt: null,
+	};
+
+	beforeEach(() => {
+		mockDataSource.subscribers = [];
+		subscriber = new AuditSubscriber(mockDataSource as unknown as DataSource);
+
+		mockManager.create.mockClear();
+		mockManager.save.mockReset();
+	});
+
+	it("should register itself on the data source", () => {
+		expect(mockDataSource.subscribers).toContain(subscriber);
+	});
+
+	describe("afterInsert", () => {
+		it("should record the created fields with the acting user and correlation ID", async () => {
+			const event = { metadata: createMetadata(), manager: mockManager, entity: farm };
+
+			await correlationIdStorage.run("c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d", () =>
+				currentUserStorage.run(
+					{
+						userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+						email: "admin@example.com",
+						role: UserRole.Admin,
+					},
+					() => subscriber.afterInsert(event as unknown as InsertEvent<ObjectLiteral>),
+				),
+			);
+
+			expect(mockManager.save).toHaveBeenCalledTimes(1);
+			expect(mockManager.create).toHaveBeenCalledWith(AuditLog, {
+				entityType: AuditEntityType.Farm,
+				entityId: farm.id,
+				action: AuditAction.Create,
+				userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+				correlationId: "c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d",
+				changes: {
+					id: { before: null, after: farm.id },
+					name: { before: null, after: farm.name },
+					totalArea: { before: null, after: 100 },
+				},
+			});
+		});
+
+		it("should record system changes without user or correlation ID", async () => {
+			const event = { metadata: createMetadata(), manager: mockManager, entity: farm };
+
+			await subscriber.afterInsert(event as unknown as InsertEvent<ObjectLiteral>);
+
+			const [entry] = recordedEntries();
+			expect(entry?.userId).toBeNull();
+			expect(entry?.correlationId).toBeNull();
+		});
+
+		it("should ignore entities that are not audited", async () => {
+			const event = { metadata: createMetadata(FarmPlot), manager: mockManager, entity: farm };
+
+			await subscriber.afterInsert(event as unknown as InsertEvent<ObjectLiteral>);
+
+			expect(mockManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should never record secrets", async () => {
+			const event = {
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { ...farm, password: "hashed-password" },
+			};
+
+			await subscriber.afterInsert(event as unknown as InsertEvent<ObjectLiteral>);
+
+			const [entry] = recordedEntries();
+			expect(entry?.changes["password"]).toBeUndefined();
+		});
+	});
+
+	describe("afterUpdate", () => {
+		it("should record only the updated fields", async () => {
+			const event = {
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { id: farm.id, totalArea: 120, updatedAt: new Date(), version: 2 },
+				databaseEntity: farm,
+				updatedColumns: [columns.totalArea, columns.updatedAt, columns.version],
+			};
+
+			await subscriber.afterUpdate(event as unknown as UpdateEvent<ObjectLiteral>);
+
+			const [entry] = recordedEntries();
+			expect(entry?.action).toBe(AuditAction.Update);
+			expect(entry?.entityId).toBe(farm.id);
+			expect(entry?.changes).toEqual({ totalArea: { before: 100, after: 120 } });
+		});
+
+		it("should record moving a record to the trash and restoring it", async () => {
+			const deletedAt = new Date("2025-11-25T10:00:00Z");
+			const updatedColumns = [columns.deletedAt];
+
+			await subscriber.afterUpdate({
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { id: farm.id, deletedAt },
+				databaseEntity: farm,
+				updatedColumns,
+			} as unknown as UpdateEvent<ObjectLiteral>);
+			await subscriber.afterUpdate({
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { id: farm.id, deletedAt: null },
+				databaseEntity: { ...farm, deletedAt },
+				updatedColumns,
+			} as unknown as UpdateEvent<ObjectLiteral>);
+
+			const [trashed, restored] = recordedEntries();
+			expect(trashed?.action).toBe(AuditAction.SoftDelete);
+			expect(trashed?.changes).toEqual({
+				deletedAt: { before: null, after: "2025-11-25T10:00:00.000Z" },
+			});
+			expect(restored?.action).toBe(AuditAction.Restore);
+		});
+
+		it("should skip updates without a loaded record or changed fields", async () => {
+			await subscriber.afterUpdate({
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { totalArea: 120 },
+				databaseEntity: undefined,
+				updatedColumns: [],
+			} as unknown as UpdateEvent<ObjectLiteral>);
+			await subscriber.afterUpdate({
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { id: farm.id, updatedAt: new Date() },
+				databaseEntity: farm,
+				updatedColumns: [columns.updatedAt],
+			} as unknown as UpdateEvent<ObjectLiteral>);
+
+			expect(mockManager.save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("afterRemove", () => {
+		it("should record the deleted fields", async () => {
+			const event = {
+				metadata: createMetadata(),
+				manager: mockManager,
+				entity: { ...farm, id: undefined },
+				databaseEntity: farm,
+			};
+
+			await subscriber.afterRemove(event as unknown as RemoveEvent<ObjectLiteral>);
+
+			const [entry] = recordedEntries();
+			expect(entry?.action).toBe(AuditAction.Delete);
+			expect(entry?.entityId).toBe(farm.id);
+			expect(entry?.changes).toEqual({
+				id: { before: farm.id, after: null },
+				name: { before: farm.name, after: null },
+				totalArea: { before: 100, after: null },
+			});
+		});
+	});
+});
@@ -0,0 +1,221 @@
+import { Injectable } from "@nestjs/common";
+import { InjectDataSource } from "@nestjs/typeorm";
+import { DataSource } from "typeorm";
+
+import type {
+	EntityManager,
+	EntityMetadata,
+	EntitySubscriberInterface,
+	InsertEvent,
+	ObjectLiteral,
+	RemoveEvent,
+	UpdateEvent,
+} from "typeorm";
+
+import type { AuditFieldChange } from "@agro/shared/types";
+
+import { AuditAction, AuditEntityType } from "@agro/shared/enums";
+
+import { correlationIdStorage, currentUserStorage } from "@/common";
+import { User } from "@/modules/auth/entities/user.entity";
+import { Farm, FarmHarvestCrop } from "@/modules/farms/entities";
+import { Producer } from "@/modules/producers/entities";
+
+import { AuditLog } from "./entities";
+
+/** Audited entity classes and the type they are recorded as */
+const AUDITED_ENTITIES = new Map<unknown, AuditEntityType>([
+	[Producer, AuditEntityType.Producer],
+	[Farm, AuditEntityType.Farm],
+	[FarmHarvestCrop, AuditEntityType.FarmHarvestCrop],
+	[User, AuditEntityType.User],
+]);
+
+/** Properties never recorded in the audit log */
+const SECRET_PROPERTIES = new Set(["password"]);
+
+/**
+ * TypeORM subscriber recording writes to audited entities in the audit log.
+ *
+ * Entries are saved through the manager of the write, so they are part of
+ * its transaction. The acting user and correlation ID are read from the
+ * request context.
+ *
+ * Only writes through the persistence methods (`save`, `remove`) are
+ * recorded, as query builder writes such as `update()` and `delete()` do not
+ * expose the affected records. Rows removed by database cascades are not
+ * recorded either.
+ *
+ * @see {@link AuditLog} for the recorded entries
+ */
+@Injectable()
+export class AuditSubscriber implements EntitySubscriberInterface {
+	/**
+	 * Creates an instance of AuditSubscriber and registers it on the data source.
+	 *
+	 * @param dataSource TypeORM data source whose writes are audited
+	 */
+	constructor(@InjectDataSource() dataSource: DataSource) {
+		dataSource.subscribers.push(this);
+	}
+
+	/**
+	 * Records the creation of an audited record.
+	 *
+	 * @param event Insert event with the created record
+	 */
+	async afterInsert(event: InsertEvent<ObjectLiteral>): Promise<void> {
+		const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+
+		if (!entityType) return;
+
+		const changes = this.buildChanges(event.metadata.columns, undefined, event.entity);
+
+		await this.record(event.manager, event.metadata, entityType, event.entity, {
+			action: AuditAction.Create,
+			changes,
+		});
+	}
+
+	/**
+	 * Records the update of an audited record.
+	 *
+	 * Changes to the soft delete column are recorded as moving the record to
+	 * the trash or restoring it.
+	 *
+	 * @param event Update event with the record before and after the update
+	 */
+	async afterUpdate(event: UpdateEvent<ObjectLiteral>): Promise<void> {
+		const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+		const { entity, databaseEntity } = event;
+
+		if (!entityType || !entity || !databaseEntity) return;
+
+		const changes = this.buildChanges(event.updatedColumns, databaseEntity, entity);
+
+		if (Object.keys(changes).length === 0) return;
+
+		await this.record(event.manager, event.metadata, entityType, databaseEntity, {
+			action: this.getUpdateAction(event.metadata, changes),
+			changes,
+		});
+	}
+
+	/**
+	 * Records the permanent deletion of an audited record.
+	 *
+	 * @param event Remove event with the record as loaded before deletion
+	 */
+	async afterRemove(event: RemoveEvent<ObjectLiteral>): Promise<void> {
+		const entityType = AUDITED_ENTITIES.get(event.metadata.target);
+		const { databaseEntity } = event;
+
+		if (!entityType || !databaseEntity) return;
+
+		const changes = this.buildChanges(event.metadata.columns, databaseEntity, undefined);
+
+		await this.record(event.manager, event.metadata, entityType, databaseEntity, {
+			action: AuditAction.Delete,
+			changes,
+		});
+	}
+
+	/**
+	 * Saves an audit log entry for a record.
+	 *
+	 * @param manager Entity manager of the audited write
+	 * @param metadata Metadata of the audited entity
+	 * @param entityType Type the entity is recorded as
+	 * @param entity Record holding the primary key of the changed record
+	 * @param entry Operation performed and changed fields
+	 */
+	private async record(
+		manager: EntityManager,
+		metadata: EntityMetadata,
+		entityType: AuditEntityType,
+		entity: ObjectLiteral,
+		entry: Pick<AuditLog, "action" | "changes">,
+	): Promise<void> {
+		await manager.save(
+			manager.create(AuditLog, {
+				...entry,
+				entityType,
+				entityId: String(metadata.getEntityIdMixedMap(entity)),
+				userId: currentUserStorage.getStore()?.userId ?? null,
+				correlationId: correlationIdStorage.getStore() ?? null,
+			}),
+		);
+	}
+
+	/**
+	 * Builds the field-level diff between two versions of a record.
+	 *
+	 * Timestamps, versions and secrets are left out, as are fields with the same value
+	 * in both versions.
+	 *
+	 * @param columns Columns to compare
+	 * @param before Record before the change, `undefined` when created
+	 * @param after Record after the change, `undefined` when deleted
+	 *
+	 * @returns Changed fields by property name
+	 */
+	private buildChanges(
+		columns: EntityMetadata["columns"],
+		before: ObjectLiteral | undefined,
+		after: ObjectLiteral | undefined,
+	): Record<string, AuditFieldChange> {
+		const changes: Record<string, AuditFieldChange> = {};
+
+		for (const column of columns) {
+			if (
+				column.isCreateDate ||
+				column.isUpdateDate ||
+				column.isVersion ||
+				SECRET_PROPERTIES.has(column.propertyName)
+			) {
+				continue;
+			}
+
+			const change = {
+				before: this.toAuditValue(before && column.getEntityValue(before)),
+				after: this.toAuditValue(after && column.getEntityValue(after)),
+			};
+
+			if (JSON.stringify(change.before) !== JSON.stringify(change.after)) {
+				changes[column.propertyName] = change;
+			}
+		}
+
+		return changes;
+	}
+
+	/**
+	 * Determines the action of an update from its changed fields.
+	 *
+	 * @param metadata Metadata of the updated entity
+	 * @param changes Changed fields of the update
+	 *
+	 * @returns The soft delete or restore action when the soft delete column changed, else update
+	 */
+	private getUpdateAction(
+		metadata: EntityMetadata,
+		changes: Record<string, AuditFieldChange>,
+	): AuditAction {
+		const deletedAt = metadata.deleteDateColumn && changes[metadata.deleteDateColumn.propertyName];
+
+		if (!deletedAt) return AuditAction.Update;
+
+		return deletedAt.before === null ? AuditAction.SoftDelete : AuditAction.Restore;
+	}
+
+	/**
+	 * Converts a column value to its JSON representation in the audit log.
+	 *
+	 * @param value Value of the column
+	 *
+	 * @returns The value, with dates as ISO 8601 strings and missing values as `null`
+	 */
+	private toAuditValue(value: unknown): unknown {
+		return value instanceof Date ? value.toISOString() : (value ?? null);
+	}
+}
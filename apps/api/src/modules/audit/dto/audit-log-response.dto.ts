@@ -0,0 +1,151 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { AuditFieldChange } from "@agro/shared/types";
+
+import { AuditAction, AuditEntityType } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for an audit log entry, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const response: AuditLogResponseDto = {
+ *   id: "0b6c3f0e-5d1a-4c8e-9f2b-7a4d6e8c1b3a",
+ *   entityType: AuditEntityType.Farm,
+ *   entityId: "660e8400-e29b-41d4-a716-446655440001",
+ *   action: AuditAction.Update,
+ *   userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+ *   userEmail: "admin@example.com",
+ *   correlationId: "c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d",
+ *   changes: { totalArea: { before: 100, after: 120 } },
+ *   createdAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class AuditLogResponseDto {
+	/**
+	 * Unique identifier of the entry.
+	 *
+	 * @example "0b6c3f0e-5d1a-4c8e-9f2b-7a4d6e8c1b3a"
+	 */
+	@ApiProperty({
+		description: "Unique identifier of the entry",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Type of the changed entity.
+	 *
+	 * @example "farm"
+	 */
+	@ApiProperty({
+		description: "Type of the changed entity",
+		enum: AuditEntityType,
+		enumName: "AuditEntityType",
+		example: AuditEntityType.Farm,
+	})
+	@Expose()
+	entityType!: AuditEntityType;
+
+	/**
+	 * UUID of the changed record.
+	 *
+	 * @example "660e8400-e29b-41d4-a716-446655440001"
+	 */
+	@ApiProperty({
+		description: "UUID of the changed record",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	entityId!: string;
+
+	/**
+	 * Operation performed on the record.
+	 *
+	 * @example "update"
+	 */
+	@ApiProperty({
+		description: "Operation performed on the record",
+		enum: AuditAction,
+		enumName: "AuditAction",
+		example: AuditAction.Update,
+	})
+	@Expose()
+	action!: AuditAction;
+
+	/**
+	 * UUID of the user who performed the change.
+	 *
+	 * @example "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d"
+	 */
+	@ApiProperty({
+		description: "UUID of the user who performed the change (null for system changes)",
+		example: faker.string.uuid(),
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	userId!: string | null;
+
+	/**
+	 * Email of the user who performed the change.
+	 *
+	 * @example "admin@example.com"
+	 */
+	@ApiProperty({
+		description: "Email of the user who performed the change (null for system changes)",
+		example: faker.internet.email(),
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	userEmail!: string | null;
+
+	/**
+	 * Correlation ID of the request that performed the change.
+	 *
+	 * @example "c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d"
+	 */
+	@ApiProperty({
+		description: "Correlation ID of the request that performed the change",
+		example: faker.string.uuid(),
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	correlationId!: string | null;
+
+	/**
+	 * Changed fields with their values before and after the change.
+	 *
+	 * @example { totalArea: { before: 100, after: 120 } }
+	 */
+	@ApiProperty({
+		description: "Changed fields with their values before and after the change",
+		type: Object,
+		example: { totalArea: { before: 100, after: 120 } },
+	})
+	@Expose()
+	changes!: Record<string, AuditFieldChange>;
+
+	/**
+	 * Timestamp of the change.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Timestamp of the change",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+}
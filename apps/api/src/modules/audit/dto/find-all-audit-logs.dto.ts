@@ -0,0 +1,98 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsDateString, IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from "class-validator";
+
+import { AuditEntityType } from "@agro/shared/enums";
+
+/**
+ * Query parameters for finding audit log entries with pagination and filters.
+ *
+ * Entries are sorted by most recent first.
+ *
+ * @example
+ * ```typescript
+ * const query: FindAllAuditLogsDto = {
+ *   page: 1,
+ *   limit: 20,
+ *   entityType: AuditEntityType.Farm,
+ *   entityId: "660e8400-e29b-41d4-a716-446655440001",
+ *   from: "2025-11-01T00:00:00.000Z"
+ * };
+ * ```
+ */
+export class FindAllAuditLogsDto {
+	/** Page number */
+	@ApiPropertyOptional({
+		description: "Page number",
+		example: 1,
+		minimum: 1,
+		default: 1,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Page must be an integer" })
+	@Min(1, { message: "Page must be at least 1" })
+	page?: number = 1;
+
+	/** Number of items per page. Defaults to 10, max 100 */
+	@ApiPropertyOptional({
+		description: "Number of items per page",
+		example: 10,
+		minimum: 1,
+		maximum: 100,
+		default: 10,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Limit must be an integer" })
+	@Min(1, { message: "Limit must be at least 1" })
+	@Max(100, { message: "Limit cannot exceed 100" })
+	limit?: number = 10;
+
+	/** Type of the changed entity */
+	@ApiPropertyOptional({
+		description: "Only entries of this entity type",
+		enum: AuditEntityType,
+		enumName: "AuditEntityType",
+		example: AuditEntityType.Farm,
+	})
+	@IsOptional()
+	@IsEnum(AuditEntityType, { message: "Invalid entity type" })
+	entityType?: AuditEntityType;
+
+	/** ID of the changed record */
+	@ApiPropertyOptional({
+		description: "Only entries of this record",
+		format: "uuid",
+	})
+	@IsOptional()
+	@IsUUID("4", { message: "Entity ID must be a valid UUID" })
+	entityId?: string;
+
+	/** ID of the user who performed the change */
+	@ApiPropertyOptional({
+		description: "Only entries performed by this user",
+		format: "uuid",
+	})
+	@IsOptional()
+	@IsUUID("4", { message: "User ID must be a valid UUID" })
+	userId?: string;
+
+	/** Start of the date range (inclusive) */
+	@ApiPropertyOptional({
+		description: "Only entries recorded at or after this date (ISO 8601)",
+		example: "2025-11-01T00:00:00.000Z",
+	})
+	@IsOptional()
+	@IsDateString({}, { message: "From must be a valid ISO 8601 date" })
+	from?: string;
+
+	/** End of the date range (inclusive) */
+	@ApiPropertyOptional({
+		description: "Only entries recorded at or before this date (ISO 8601)",
+		example: "2025-11-30T23:59:59.999Z",
+	})
+	@IsOptional()
+	@IsDateString({}, { message: "To must be a valid ISO 8601 date" })
+	to?: string;
+}
@@ -0,0 +1,2 @@
+export * from "./audit-log-response.dto";
+export * from "./find-all-audit-logs.dto";
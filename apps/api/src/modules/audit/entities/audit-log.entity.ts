@@ -0,0 +1,68 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	JoinColumn,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+} from "typeorm";
+
+import type { Relation } from "typeorm";
+
+import type { AuditAction, AuditEntityType } from "@agro/shared/enums";
+import type { AuditFieldChange } from "@agro/shared/types";
+
+import { User } from "../../auth/entities/user.entity";
+
+/**
+ * AuditLog entity recording a write to an audited entity
+ *
+ * Entries are created by the {@link AuditSubscriber} in the same transaction
+ * as the write they record, and are never updated.
+ *
+ * Business Rules:
+ * - The user is `null` for writes outside of an authenticated request (e.g. seeding)
+ * - User references become `null` when the user is deleted
+ * - Timestamps are left out of the changes, as are secrets such as passwords
+ *
+ * @see {@link AuditSubscriber} for the audited entities
+ */
+@Entity("audit_logs")
+export class AuditLog {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/** Type of the changed entity */
+	@Column({ type: "varchar", length: 50, name: "entity_type" })
+	entityType!: AuditEntityType;
+
+	/** ID of the changed record */
+	@Column({ type: "varchar", name: "entity_id" })
+	entityId!: string;
+
+	/** Operation performed on the record */
+	@Column({ type: "varchar", length: 20 })
+	action!: AuditAction;
+
+	/** ID of the user who performed the change, `null` for system changes */
+	@Column({ type: "uuid", name: "user_id", nullable: true })
+	userId!: string | null;
+
+	/** Correlation ID of the request that performed the change */
+	@Column({ type: "varchar", length: 255, name: "correlation_id", nullable: true })
+	correlationId!: string | null;
+
+	/** Changed fields with their values before and after the change */
+	@Column({ type: "simple-json" })
+	changes!: Record<string, AuditFieldChange>;
+
+	/** User who performed the change */
+	@ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "user_id" })
+	user!: Relation<User> | null;
+
+	/** Timestamp of the change */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+}
@@ -0,0 +1 @@
+export * from "./audit-log.entity";
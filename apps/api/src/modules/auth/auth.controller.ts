@@ -31,7 +31,7 @@ export class AuthController {
 	 *
 	 * @param loginDto User credentials (email and password)
 	 *
-	 * @returns JWT access token for API authentication
+	 * @returns JWT access token for API authentication and the user's role
 	 *
 	 * @example
 	 * ```http
@@ -64,8 +64,8 @@ export class AuthController {
 			throw new UnauthorizedException("Invalid email or password");
 		}
 
-		const token = this.authService.generateToken(user.id, user.email);
+		const token = this.authService.generateToken(user.id, user.email, user.role);
 
-		return token;
+		return { ...token, role: user.role };
 	}
 }
@@ -6,6 +6,8 @@ import { Repository } from "typeorm";
 
 import type { JwtPayload } from "./interfaces/jwt-payload.interface";
 
+import type { UserRole } from "@agro/shared/enums";
+
 import { User } from "./entities/user.entity";
 
 /**
@@ -42,7 +44,7 @@ export class AuthService {
 	async validateCredentials(email: string, password: string): Promise<User | null> {
 		const user = await this.userRepository.findOne({
 			where: { email },
-			select: ["id", "email", "name", "password", "isActive"],
+			select: ["id", "email", "name", "password", "isActive", "role"],
 		});
 
 		if (!user || !user.isActive) return null;
@@ -76,18 +78,19 @@ export class AuthService {
 	 *
 	 * @param userId The unique identifier of the user
 	 * @param email The user's email address
+	 * @param role The user's role
 	 *
 	 * @returns An object containing the JWT access token
 	 *
 	 * @example
 	 * ```typescript
-	 * const token = this.authService.generateToken('user-uuid', 'user@example.com');
+	 * const token = this.authService.generateToken('user-uuid', 'user@example.com', UserRole.Admin);
 	 * console.log(token);
 	 * // ^? { accessToken: 'eyJhbGc...' }
 	 * ```
 	 */
-	generateToken(userId: string, email: string): { accessToken: string } {
-		const payload: JwtPayload = { sub: userId, email };
+	generateToken(userId: string, email: string, role: UserRole): { accessToken: string } {
+		const payload: JwtPayload = { sub: userId, email, role };
 		const accessToken = this.jwtService.sign(payload);
 
 		return { accessToken };
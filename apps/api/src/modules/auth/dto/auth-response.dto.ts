@@ -1,10 +1,12 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
 import { ApiProperty } from "@nestjs/swagger";
 
+import { UserRole } from "@agro/shared/enums";
+
 /**
  * Data transfer object for authentication response.
  *
- * Contains the JWT access token for API authentication.
+ * Contains the JWT access token for API authentication and the role of the user.
  */
 export class AuthResponseDto {
 	@ApiProperty({
@@ -12,4 +14,12 @@ export class AuthResponseDto {
 		example: `eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.${faker.string.alphanumeric(50)}.${faker.string.alphanumeric(43)}`,
 	})
 	accessToken!: string;
+
+	@ApiProperty({
+		description: "Role of the authenticated user",
+		enum: UserRole,
+		enumName: "UserRole",
+		example: UserRole.Admin,
+	})
+	role!: UserRole;
 }
@@ -6,6 +6,8 @@ import {
 	UpdateDateColumn,
 } from "typeorm";
 
+import { UserRole } from "@agro/shared/enums";
+
 /**
  * User entity for authentication and authorization.
  *
@@ -35,6 +37,10 @@ export class User {
 	@Column({ name: "is_active", type: "boolean", default: true })
 	isActive!: boolean;
 
+	/** Role of the user, defining which operations they may perform */
+	@Column({ type: "varchar", length: 20, default: UserRole.User })
+	role!: UserRole;
+
 	@CreateDateColumn({ name: "created_at" })
 	createdAt!: Date;
 
@@ -1,3 +1,5 @@
+import type { UserRole } from "@agro/shared/enums";
+
 /**
  * JWT token payload structure.
  *
@@ -10,9 +12,26 @@ export interface JwtPayload {
 	/** User email address */
 	email: string;
 
+	/** User role */
+	role: UserRole;
+
 	/** Token issued at timestamp (added automatically by JWT library) */
 	iat?: number;
 
 	/** Token expiration timestamp (added automatically by JWT library) */
 	exp?: number;
 }
+
+/**
+ * Authenticated user attached to the request as `req.user`.
+ */
+export interface AuthenticatedUser {
+	/** User ID */
+	userId: string;
+
+	/** User email address */
+	email: string;
+
+	/** User role */
+	role: UserRole;
+}
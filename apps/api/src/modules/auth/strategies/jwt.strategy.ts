@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { PassportStrategy } from "@nestjs/passport";
 import { ExtractJwt, Strategy } from "passport-jwt";
 
-import type { JwtPayload } from "../interfaces/jwt-payload.interface";
+import type { AuthenticatedUser, JwtPayload } from "../interfaces/jwt-payload.interface";
 
 import { env } from "@/config/env.config";
 
@@ -35,10 +35,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
 	 * @example
 	 * ```typescript
 	 * // After successful validation, the user object is available:
-	 * // req.user = { userId: 'uuid', email: 'user@example.com' }
+	 * // req.user = { userId: 'uuid', email: 'user@example.com', role: 'admin' }
 	 * ```
 	 */
-	validate(payload: JwtPayload): { userId: string; email: string } {
-		return { userId: payload.sub, email: payload.email };
+	validate(payload: JwtPayload): AuthenticatedUser {
+		return { userId: payload.sub, email: payload.email, role: payload.role };
 	}
 }
@@ -1,7 +1,7 @@
 import { Controller, Get, HttpStatus, Param, Query } from "@nestjs/common";
 import { ApiOperation, ApiParam, ApiResponse, ApiTags } from "@nestjs/swagger";
 
-import type { CitiesByState, PaginatedResponse } from "@agro/shared/types";
+import type { CitiesByState, CursorPaginatedResponse, PaginatedResponse } from "@agro/shared/types";
 
 import { BrazilianState } from "@agro/shared/enums";
 
@@ -33,24 +33,30 @@ export class CitiesController {
 	 * Retrieves all cities with pagination, sorting, and filtering.
 	 *
 	 * Supports filtering by state with configurable sorting and pagination.
-	 * All query parameters are optional.
+	 * All query parameters are optional. Sending a `cursor` switches to cursor
+	 * pagination.
 	 *
 	 * @param query Query parameters for pagination, sorting, and filtering
 	 *
-	 * @returns Paginated city response with metadata
+	 * @returns Paginated city response with metadata, or a page of cities with the next cursor
 	 */
 	@Get()
 	@ApiOperation({
 		summary: "Get all cities with pagination, sorting, and filtering",
 		description:
-			"Retrieves a paginated list of cities. Supports filtering by state, customizable sorting, and pagination.",
+			"Retrieves a paginated list of cities. Supports filtering by state, customizable sorting, and pagination. Send `cursor` (empty for the first page) to page by cursor: the response then has `nextCursor` instead of the page and total.",
 	})
 	@ApiResponse({
 		status: HttpStatus.OK,
 		description: "Paginated list of cities",
 		type: [CityResponseDto],
 	})
-	public findAll(@Query() query: FindAllCitiesDto): Promise<PaginatedResponse<CityResponseDto>> {
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid cursor" })
+	public findAll(
+		@Query() query: FindAllCitiesDto,
+	): Promise<PaginatedResponse<CityResponseDto> | CursorPaginatedResponse<CityResponseDto>> {
+		if (query.cursor !== undefined) return this.citiesService.findAllByCursor(query);
+
 		return this.citiesService.findAll(query);
 	}
 
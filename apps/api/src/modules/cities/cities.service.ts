@@ -5,11 +5,14 @@ import { InjectPinoLogger, PinoLogger } from "nestjs-pino";
 import { Repository } from "typeorm";
 
 import type { CityResponseDto, FindAllCitiesDto } from "./dto";
+import type { SelectQueryBuilder } from "typeorm";
 
-import type { CitiesByState, PaginatedResponse } from "@agro/shared/types";
+import type { CitiesByState, CursorPaginatedResponse, PaginatedResponse } from "@agro/shared/types";
 
 import { BrazilianState, CitySortField, SortOrder } from "@agro/shared/enums";
 
+import { paginateByCursor } from "@/common";
+
 import { City } from "./entities/city.entity";
 
 /**
@@ -62,12 +65,9 @@ export class CitiesService {
 			limit = 10,
 			sortBy = CitySortField.Name,
 			sortOrder = SortOrder.Ascending,
-			state,
 		} = query;
 
-		const qb = this.cityRepository.createQueryBuilder("city");
-
-		if (state) qb.andWhere("city.state = :state", { state });
+		const qb = this.createFindAllQuery(query);
 
 		qb.orderBy(`city.${sortBy}`, sortOrder as SortOrder);
 
@@ -85,6 +85,49 @@ export class CitiesService {
 		};
 	}
 
+	/**
+	 * Retrieves a page of cities after a cursor, sorted and filtered like {@link findAll}.
+	 *
+	 * Reads the page right after the last city of the previous one instead of
+	 * skipping rows, and does not count the total.
+	 *
+	 * @param query Query parameters for the cursor, page size, sorting, and filtering
+	 *
+	 * @returns Cities of the page, with the cursor of the next page
+	 *
+	 * @throws {BadRequestException} If the cursor is invalid or was issued for another sort
+	 *
+	 * @example
+	 * ```typescript
+	 * const first = await service.findAllByCursor({ cursor: "", limit: 50 });
+	 * const second = await service.findAllByCursor({ cursor: first.nextCursor ?? "", limit: 50 });
+	 * ```
+	 */
+	public async findAllByCursor(
+		query: FindAllCitiesDto,
+	): Promise<CursorPaginatedResponse<CityResponseDto>> {
+		const {
+			cursor,
+			limit = 10,
+			sortBy = CitySortField.Name,
+			sortOrder = SortOrder.Ascending,
+		} = query;
+
+		const { items, nextCursor } = await paginateByCursor(this.createFindAllQuery(query), {
+			alias: "city",
+			sortBy,
+			sortOrder: sortOrder as SortOrder,
+			cursor,
+			limit,
+		});
+
+		return {
+			data: items.map((city) => this.mapToResponseDto(city)),
+			limit,
+			nextCursor,
+		};
+	}
+
 	/**
 	 * Retrieves all cities grouped by state for form dropdowns.
 	 *
@@ -245,6 +288,21 @@ export class CitiesService {
 		}
 	}
 
+	/**
+	 * Creates the query of the city listings, filtered by the query parameters.
+	 *
+	 * @param query Query parameters with the filters
+	 *
+	 * @returns Query builder of the filtered cities, aliased `city`, unsorted
+	 */
+	private createFindAllQuery(query: FindAllCitiesDto): SelectQueryBuilder<City> {
+		const qb = this.cityRepository.createQueryBuilder("city");
+
+		if (query.state) qb.andWhere("city.state = :state", { state: query.state });
+
+		return qb;
+	}
+
 	/**
 	 * Maps a {@link City} entity to a {@link CityResponseDto}
 	 *
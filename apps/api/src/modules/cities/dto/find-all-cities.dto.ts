@@ -1,6 +1,6 @@
 import { ApiPropertyOptional } from "@nestjs/swagger";
 import { Type } from "class-transformer";
-import { IsEnum, IsInt, IsOptional, Max, Min } from "class-validator";
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
 
 import { BrazilianState, CitySortField, SortOrder } from "@agro/shared/enums";
 
@@ -10,6 +10,8 @@ import { BrazilianState, CitySortField, SortOrder } from "@agro/shared/enums";
  * Supports filtering cities by state with configurable
  * pagination and sorting options.
  *
+ * Sending a `cursor` switches from page to cursor pagination.
+ *
  * @example
  * ```typescript
  * // Get cities in São Paulo, sorted by name
@@ -51,6 +53,16 @@ export class FindAllCitiesDto {
 	@Max(100, { message: "Limit cannot exceed 100" })
 	limit?: number = 10;
 
+	/** Cursor of the page to read, switching to cursor pagination; empty for the first page */
+	@ApiPropertyOptional({
+		description:
+			"Switches to cursor pagination: send it empty for the first page, then the `nextCursor` of each page. `page` is ignored and no total is counted.",
+		example: "",
+	})
+	@IsOptional()
+	@IsString({ message: "Cursor must be a string" })
+	cursor?: string;
+
 	/** Field to sort by */
 	@ApiPropertyOptional({
 		description: "Field to sort by",
@@ -1,3 +1,4 @@
+import { Field, ID, ObjectType } from "@nestjs/graphql";
 import {
 	Column,
 	CreateDateColumn,
@@ -6,6 +7,8 @@ import {
 	UpdateDateColumn,
 } from "typeorm";
 
+import { BrazilianState } from "@agro/shared/enums";
+
 /**
  * City entity representing Brazilian municipalities
  *
@@ -21,11 +24,13 @@ import {
  * city.ibgeCode = "3509502";
  * ```
  */
+@ObjectType({ description: "Brazilian municipality registered by IBGE" })
 @Entity("cities")
 export class City {
 	/**
 	 * Unique identifier (UUID v4)
 	 */
+	@Field(() => ID)
 	@PrimaryGeneratedColumn("uuid")
 	id!: string;
 
@@ -34,6 +39,7 @@ export class City {
 	 *
 	 * @example "São Paulo"
 	 */
+	@Field(() => String)
 	@Column({ type: "varchar", length: 255, nullable: false })
 	name!: string;
 
@@ -42,6 +48,7 @@ export class City {
 	 *
 	 * @example "SP"
 	 */
+	@Field(() => BrazilianState)
 	@Column({ type: "varchar", length: 2, nullable: false })
 	state!: string;
 
@@ -52,6 +59,7 @@ export class City {
 	 *
 	 * @example "3509502" // (São Paulo city code)
 	 */
+	@Field(() => String)
 	@Column({ name: "ibge_code", type: "varchar", length: 7, nullable: false, unique: true })
 	ibgeCode!: string;
 
@@ -0,0 +1,136 @@
+import { Body, Controller, Delete, Get, HttpStatus, Param, Patch, Post } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import { ParseUUIDPipe } from "@/common";
+
+import { CropsService } from "./crops.service";
+import { CreateCropDto, CropResponseDto, UpdateCropDto } from "./dto";
+
+/**
+ * Controller handling HTTP requests for the crop catalog.
+ *
+ * Provides RESTful endpoints for CRUD operations on crops. Farms can only
+ * record crops listed here, and clients read labels and colors from it.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [CropsController],
+ *   providers: [CropsService]
+ * })
+ * ```
+ */
+@ApiTags("Crops")
+@ApiBearerAuth("JWT")
+@Controller("crops")
+export class CropsController {
+	constructor(private readonly cropsService: CropsService) {}
+
+	/**
+	 * Adds a crop to the catalog.
+	 *
+	 * @param createCropDto Crop data including code, labels, color and category
+	 *
+	 * @returns The created crop with generated ID and timestamps
+	 *
+	 * @throws {ConflictException} If a crop with the same code already exists
+	 */
+	@Post()
+	@ApiOperation({ summary: "Add a crop to the catalog" })
+	@ApiResponse({
+		status: HttpStatus.CREATED,
+		description: "Crop created successfully",
+		type: CropResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Crop code already exists" })
+	public create(@Body() createCropDto: CreateCropDto): Promise<CropResponseDto> {
+		return this.cropsService.create(createCropDto);
+	}
+
+	/**
+	 * Retrieves the whole crop catalog.
+	 *
+	 * @returns All crops sorted by code
+	 */
+	@Get()
+	@ApiOperation({
+		summary: "Get the crop catalog",
+		description: "Retrieves every crop of the catalog, sorted by code. Not paginated.",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Crop catalog",
+		type: [CropResponseDto],
+	})
+	public findAll(): Promise<Array<CropResponseDto>> {
+		return this.cropsService.findAll();
+	}
+
+	/**
+	 * Retrieves a specific crop by ID.
+	 *
+	 * @param id UUID of the crop to retrieve
+	 *
+	 * @returns The crop with the specified ID
+	 *
+	 * @throws {NotFoundException} If crop with the given ID does not exist
+	 */
+	@Get(":id")
+	@ApiOperation({ summary: "Get crop by ID" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Crop found",
+		type: CropResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Crop not found" })
+	public findOne(@Param("id", ParseUUIDPipe) id: string): Promise<CropResponseDto> {
+		return this.cropsService.findOne(id);
+	}
+
+	/**
+	 * Updates a crop of the catalog.
+	 *
+	 * @param id UUID of the crop to update
+	 * @param updateCropDto Fields to update
+	 *
+	 * @returns The updated crop
+	 *
+	 * @throws {NotFoundException} If crop does not exist
+	 */
+	@Patch(":id")
+	@ApiOperation({ summary: "Update crop" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Crop updated successfully",
+		type: CropResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Crop not found" })
+	public update(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Body() updateCropDto: UpdateCropDto,
+	): Promise<CropResponseDto> {
+		return this.cropsService.update(id, updateCropDto);
+	}
+
+	/**
+	 * Deletes a crop from the catalog.
+	 *
+	 * Only crops not planted on any farm can be deleted.
+	 *
+	 * @param id UUID of the crop to delete
+	 *
+	 * @throws {NotFoundException} If crop with the given ID does not exist
+	 * @throws {ConflictException} If the crop is planted on any farm
+	 */
+	@Delete(":id")
+	@ApiOperation({ summary: "Delete crop" })
+	@ApiResponse({ status: HttpStatus.OK, description: "Crop deleted successfully" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Crop not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Crop is planted on farms" })
+	public remove(@Param("id", ParseUUIDPipe) id: string): Promise<void> {
+		return this.cropsService.delete(id);
+	}
+}
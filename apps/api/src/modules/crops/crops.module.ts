@@ -0,0 +1,33 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { CropsController } from "./crops.controller";
+import { CropsService } from "./crops.service";
+import { Crop } from "./entities";
+
+/**
+ * NestJS module for the crop catalog.
+ *
+ * Provides crop-related services and repositories. Farms reference the crops
+ * managed here by code when recording planted crops.
+ *
+ * Note: Imports FarmHarvestCrop entity to prevent deleting crops that are in use.
+ *
+ * @example
+ * ```typescript
+ * // In another module
+ * @Module({
+ *   imports: [CropsModule],
+ * })
+ * export class FarmsModule {}
+ * ```
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([Crop, FarmHarvestCrop])],
+	controllers: [CropsController],
+	providers: [CropsService],
+	exports: [CropsService],
+})
+export class CropsModule {}
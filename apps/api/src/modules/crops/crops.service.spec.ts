@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Unit tests for {@link CropsService}.
+ *
+ * Tests crop catalog business rules and repository interactions using mocked dependencies.
+ */
+
+import { ConflictException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { TestConstants } from "test/fixtures";
+
+import { CropCategory } from "@agro/shared/enums";
+
+import { FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { CropsService } from "./crops.service";
+import { Crop } from "./entities";
+
+describe("CropsService", () => {
+	let service: CropsService;
+
+	const mockCropRepository = {
+		create: mock(),
+		save: mock(),
+		find: mock(),
+		findOne: mock(),
+		exists: mock(),
+		delete: mock(),
+	};
+
+	const mockFarmHarvestCropRepository = {
+		count: mock(),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const mockCrop: Crop = {
+		id: "2f6b1c7e-3d4a-4b8e-9f1a-5c6d7e8f9a0b",
+		code: "eucalyptus",
+		labelPtBr: "Eucalipto",
+		labelEn: "Eucalyptus",
+		color: "#166534",
+		category: CropCategory.Forestry,
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+		updatedAt: new Date("2025-11-24T10:00:00Z"),
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				CropsService,
+				{
+					provide: getRepositoryToken(Crop),
+					useValue: mockCropRepository,
+				},
+				{
+					provide: getRepositoryToken(FarmHarvestCrop),
+					useValue: mockFarmHarvestCropRepository,
+				},
+				{
+					provide: `PinoLogger:${CropsService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<CropsService>(CropsService);
+
+		mockCropRepository.create.mockReset();
+		mockCropRepository.save.mockReset();
+		mockCropRepository.find.mockReset();
+		mockCropRepository.findOne.mockReset();
+		mockCropRepository.exists.mockReset();
+		mockCropRepository.delete.mockReset();
+		mockFarmHarvestCropRepository.count.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("create", () => {
+		it("should add a crop to the catalog", async () => {
+			mockCropRepository.exists.mockResolvedValue(false);
+			mockCropRepository.create.mockReturnValue(mockCrop);
+			mockCropRepository.save.mockResolvedValue(mockCrop);
+
+			const result = await service.create({
+				code: mockCrop.code,
+				labelPtBr: mockCrop.labelPtBr,
+				labelEn: mockCrop.labelEn,
+				color: mockCrop.color,
+				category: mockCrop.category,
+			});
+
+			expect(result).toEqual({
+				id: mockCrop.id,
+				code: mockCrop.code,
+				labelPtBr: mockCrop.labelPtBr,
+				labelEn: mockCrop.labelEn,
+				color: mockCrop.color,
+				category: mockCrop.category,
+				createdAt: mockCrop.createdAt,
+				updatedAt: mockCrop.updatedAt,
+			});
+		});
+
+		it("should throw ConflictException if the code already exists", async () => {
+			mockCropRepository.exists.mockResolvedValue(true);
+
+			expect(
+				service.create({
+					code: mockCrop.code,
+					labelPtBr: mockCrop.labelPtBr,
+					labelEn: mockCrop.labelEn,
+					color: mockCrop.color,
+					category: mockCrop.category,
+				}),
+			).rejects.toThrow(ConflictException);
+			expect(mockCropRepository.save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("findAll", () => {
+		it("should return the whole catalog", async () => {
+			mockCropRepository.find.mockResolvedValue([mockCrop]);
+
+			const result = await service.findAll();
+
+			expect(result).toHaveLength(1);
+			expect(result[0]?.code).toBe(mockCrop.code);
+		});
+	});
+
+	describe("update", () => {
+		it("should update the crop", async () => {
+			mockCropRepository.findOne.mockResolvedValue({ ...mockCrop });
+			mockCropRepository.save.mockImplementation((crop: Crop) => Promise.resolve(crop));
+
+			const result = await service.update(mockCrop.id, { color: "#15803D" });
+
+			expect(result.color).toBe("#15803D");
+			expect(result.code).toBe(mockCrop.code);
+		});
+
+		it("should throw NotFoundException if the crop does not exist", async () => {
+			mockCropRepository.findOne.mockResolvedValue(null);
+
+			expect(service.update(TestConstants.NON_EXISTENT_UUID, { color: "#15803D" })).rejects.toThrow(
+				NotFoundException,
+			);
+		});
+	});
+
+	describe("delete", () => {
+		it("should delete a crop not planted on any farm", async () => {
+			mockCropRepository.findOne.mockResolvedValue(mockCrop);
+			mockFarmHarvestCropRepository.count.mockResolvedValue(0);
+			mockCropRepository.delete.mockResolvedValue({ affected: 1 });
+
+			await service.delete(mockCrop.id);
+
+			expect(mockFarmHarvestCropRepository.count).toHaveBeenCalledWith({
+				where: { cropType: mockCrop.code },
+			});
+			expect(mockCropRepository.delete).toHaveBeenCalledWith(mockCrop.id);
+		});
+
+		it("should throw ConflictException if the crop is planted on farms", async () => {
+			mockCropRepository.findOne.mockResolvedValue(mockCrop);
+			mockFarmHarvestCropRepository.count.mockResolvedValue(3);
+
+			expect(service.delete(mockCrop.id)).rejects.toThrow(ConflictException);
+		});
+	});
+});
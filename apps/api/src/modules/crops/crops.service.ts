@@ -0,0 +1,203 @@
+import { ConflictException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import type { PinoLogger } from "nestjs-pino";
+
+import { SortOrder } from "@agro/shared/enums";
+
+import { FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { CreateCropDto, CropResponseDto, UpdateCropDto } from "./dto";
+import { Crop } from "./entities";
+
+/**
+ * Service responsible for the crop catalog.
+ *
+ * Crops are data rather than code: farms can only record crops listed in the
+ * catalog, and adding an entry makes it available everywhere without a release.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly cropsService: CropsService) {}
+ *
+ * async create(dto: CreateCropDto) {
+ *   return this.cropsService.create(dto);
+ * }
+ * ```
+ */
+@Injectable()
+export class CropsService {
+	/**
+	 * Creates an instance of CropsService.
+	 *
+	 * @param cropRepository TypeORM repository for Crop entity
+	 * @param farmHarvestCropRepository TypeORM repository for FarmHarvestCrop entity
+	 */
+	constructor(
+		@InjectRepository(Crop)
+		private readonly cropRepository: Repository<Crop>,
+
+		@InjectRepository(FarmHarvestCrop)
+		private readonly farmHarvestCropRepository: Repository<FarmHarvestCrop>,
+
+		@InjectPinoLogger(CropsService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Adds a crop to the catalog.
+	 *
+	 * @param createCropDto The crop data to create
+	 *
+	 * @returns The created crop
+	 *
+	 * @throws {ConflictException} If a crop with the same code already exists
+	 *
+	 * @example
+	 * ```typescript
+	 * const crop = await service.create({
+	 *   code: "sorghum",
+	 *   labelPtBr: "Sorgo",
+	 *   labelEn: "Sorghum",
+	 *   color: "#B45309",
+	 *   category: CropCategory.Grain,
+	 * });
+	 * ```
+	 */
+	public async create(createCropDto: CreateCropDto): Promise<CropResponseDto> {
+		const codeExists = await this.cropRepository.exists({ where: { code: createCropDto.code } });
+
+		if (codeExists) {
+			throw new ConflictException(`Crop with code ${createCropDto.code} already exists`);
+		}
+
+		const crop = this.cropRepository.create(createCropDto);
+		const savedCrop = await this.cropRepository.save(crop);
+
+		this.logger.info({ cropId: savedCrop.id, code: savedCrop.code }, "Crop created successfully");
+
+		return this.mapToResponseDto(savedCrop);
+	}
+
+	/**
+	 * Retrieves the whole crop catalog.
+	 *
+	 * The catalog is small and used to populate selects and chart legends, so it
+	 * is not paginated. Sorted by code.
+	 *
+	 * @returns All crops of the catalog
+	 */
+	public async findAll(): Promise<Array<CropResponseDto>> {
+		const crops = await this.cropRepository.find({ order: { code: SortOrder.Ascending } });
+
+		return crops.map((crop) => this.mapToResponseDto(crop));
+	}
+
+	/**
+	 * Retrieves a single crop by ID.
+	 *
+	 * @param id The UUID of the crop
+	 *
+	 * @returns The crop with the specified ID
+	 *
+	 * @throws {NotFoundException} If the crop does not exist
+	 */
+	public async findOne(id: string): Promise<CropResponseDto> {
+		const crop = await this.findCrop(id);
+
+		return this.mapToResponseDto(crop);
+	}
+
+	/**
+	 * Updates a crop of the catalog.
+	 *
+	 * Allows partial updates - only provided fields will be updated.
+	 *
+	 * @param id The UUID of the crop to update
+	 * @param updateCropDto The fields to update
+	 *
+	 * @returns The updated crop
+	 *
+	 * @throws {NotFoundException} If the crop does not exist
+	 */
+	public async update(id: string, updateCropDto: UpdateCropDto): Promise<CropResponseDto> {
+		const crop = await this.findCrop(id);
+
+		Object.assign(crop, updateCropDto);
+		const updatedCrop = await this.cropRepository.save(crop);
+
+		this.logger.info({ cropId: id, code: updatedCrop.code }, "Crop updated successfully");
+
+		return this.mapToResponseDto(updatedCrop);
+	}
+
+	/**
+	 * Deletes a crop from the catalog.
+	 *
+	 * Crops planted on any farm cannot be deleted, since farm crops reference
+	 * them by code.
+	 *
+	 * @param id The UUID of the crop to delete
+	 *
+	 * @throws {NotFoundException} If the crop does not exist
+	 * @throws {ConflictException} If the crop is planted on any farm
+	 */
+	public async delete(id: string): Promise<void> {
+		const crop = await this.findCrop(id);
+		const plantedCount = await this.farmHarvestCropRepository.count({
+			where: { cropType: crop.code },
+		});
+
+		if (plantedCount > 0) {
+			throw new ConflictException(
+				`Crop ${crop.code} is planted on ${String(plantedCount)} farm harvest(s) and cannot be deleted`,
+			);
+		}
+
+		await this.cropRepository.delete(id);
+
+		this.logger.info({ cropId: id, code: crop.code }, "Crop deleted successfully");
+	}
+
+	/**
+	 * Finds a crop by ID.
+	 *
+	 * @param id The UUID of the crop
+	 *
+	 * @returns The crop entity
+	 *
+	 * @throws {NotFoundException} If the crop does not exist
+	 */
+	private async findCrop(id: string): Promise<Crop> {
+		const crop = await this.cropRepository.findOne({ where: { id } });
+
+		if (!crop) {
+			throw new NotFoundException(`Crop with ID ${id} not found`);
+		}
+
+		return crop;
+	}
+
+	/**
+	 * Maps a {@link Crop} entity to a {@link CropResponseDto}.
+	 *
+	 * @param crop The crop entity to map
+	 *
+	 * @returns The mapped response DTO
+	 */
+	private mapToResponseDto(crop: Crop): CropResponseDto {
+		return {
+			id: crop.id,
+			code: crop.code,
+			labelPtBr: crop.labelPtBr,
+			labelEn: crop.labelEn,
+			color: crop.color,
+			category: crop.category,
+			createdAt: crop.createdAt,
+			updatedAt: crop.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,92 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum, IsNotEmpty, IsString, Length, Matches } from "class-validator";
+
+import { CropCategory } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for adding a crop to the catalog.
+ *
+ * The code must be unique and is what farms reference when recording planted
+ * crops, so it cannot be changed later.
+ *
+ * @example
+ * ```typescript
+ * const dto: CreateCropDto = {
+ *   code: "sorghum",
+ *   labelPtBr: "Sorgo",
+ *   labelEn: "Sorghum",
+ *   color: "#B45309",
+ *   category: CropCategory.Grain
+ * };
+ * ```
+ */
+export class CreateCropDto {
+	/**
+	 * Unique crop code.
+	 *
+	 * @example "sorghum"
+	 */
+	@ApiProperty({
+		description: "Unique crop code (lowercase letters, digits and underscores)",
+		example: "sorghum",
+		maxLength: 50,
+	})
+	@IsNotEmpty({ message: "Crop code is required" })
+	@IsString({ message: "Crop code must be a string" })
+	@Matches(/^[a-z][a-z0-9_]{0,49}$/, {
+		message:
+			"Crop code must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 50 characters)",
+	})
+	code!: string;
+
+	/**
+	 * Crop name in Brazilian Portuguese.
+	 *
+	 * @example "Sorgo"
+	 */
+	@ApiProperty({
+		description: "Crop name in Brazilian Portuguese",
+		example: "Sorgo",
+		maxLength: 100,
+	})
+	@IsNotEmpty({ message: "Portuguese label is required" })
+	@IsString({ message: "Portuguese label must be a string" })
+	@Length(1, 100, { message: "Portuguese label must be at most 100 characters" })
+	labelPtBr!: string;
+
+	/**
+	 * Crop name in English.
+	 *
+	 * @example "Sorghum"
+	 */
+	@ApiProperty({ description: "Crop name in English", example: "Sorghum", maxLength: 100 })
+	@IsNotEmpty({ message: "English label is required" })
+	@IsString({ message: "English label must be a string" })
+	@Length(1, 100, { message: "English label must be at most 100 characters" })
+	labelEn!: string;
+
+	/**
+	 * Hex color used to represent the crop.
+	 *
+	 * @example "#B45309"
+	 */
+	@ApiProperty({ description: "Hex color in #RRGGBB format", example: "#B45309" })
+	@IsNotEmpty({ message: "Color is required" })
+	@Matches(/^#[\dA-Fa-f]{6}$/, { message: "Color must be a hex color in the #RRGGBB format" })
+	color!: string;
+
+	/**
+	 * Crop category.
+	 *
+	 * @example CropCategory.Grain
+	 */
+	@ApiProperty({
+		description: "Crop category",
+		example: CropCategory.Grain,
+		enum: CropCategory,
+		enumName: "CropCategory",
+	})
+	@IsNotEmpty({ message: "Category is required" })
+	@IsEnum(CropCategory, { message: "Category must be a valid crop category" })
+	category!: CropCategory;
+}
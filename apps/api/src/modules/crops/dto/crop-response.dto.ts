@@ -0,0 +1,114 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { CropCategory } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for crop catalog responses.
+ *
+ * @example
+ * ```typescript
+ * const response: CropResponseDto = {
+ *   id: "2f6b1c7e-3d4a-4b8e-9f1a-5c6d7e8f9a0b",
+ *   code: "soy",
+ *   labelPtBr: "Soja",
+ *   labelEn: "Soy",
+ *   color: "#3B82F6",
+ *   category: CropCategory.Oilseed,
+ *   createdAt: new Date("2025-11-24T10:00:00Z"),
+ *   updatedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class CropResponseDto {
+	/**
+	 * Unique identifier for the crop (UUID v4).
+	 *
+	 * @example "2f6b1c7e-3d4a-4b8e-9f1a-5c6d7e8f9a0b"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Unique crop code referenced by farm crops.
+	 *
+	 * @example "soy"
+	 */
+	@ApiProperty({ description: "Unique crop code", example: "soy" })
+	@Expose()
+	code!: string;
+
+	/**
+	 * Crop name in Brazilian Portuguese.
+	 *
+	 * @example "Soja"
+	 */
+	@ApiProperty({ description: "Crop name in Brazilian Portuguese", example: "Soja" })
+	@Expose()
+	labelPtBr!: string;
+
+	/**
+	 * Crop name in English.
+	 *
+	 * @example "Soy"
+	 */
+	@ApiProperty({ description: "Crop name in English", example: "Soy" })
+	@Expose()
+	labelEn!: string;
+
+	/**
+	 * Hex color used to represent the crop.
+	 *
+	 * @example "#3B82F6"
+	 */
+	@ApiProperty({ description: "Hex color in #RRGGBB format", example: "#3B82F6" })
+	@Expose()
+	color!: string;
+
+	/**
+	 * Crop category.
+	 *
+	 * @example CropCategory.Oilseed
+	 */
+	@ApiProperty({
+		description: "Crop category",
+		example: CropCategory.Oilseed,
+		enum: CropCategory,
+		enumName: "CropCategory",
+	})
+	@Expose()
+	category!: CropCategory;
+
+	/**
+	 * Timestamp when the crop was created.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Creation timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+
+	/**
+	 * Timestamp when the crop was last updated.
+	 *
+	 * @example "2025-11-24T15:30:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Last update timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	updatedAt!: Date;
+}
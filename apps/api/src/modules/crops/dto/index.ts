@@ -0,0 +1,3 @@
+export * from "./create-crop.dto";
+export * from "./crop-response.dto";
+export * from "./update-crop.dto";
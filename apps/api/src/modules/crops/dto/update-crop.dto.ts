@@ -0,0 +1,72 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsOptional, IsString, Length, Matches } from "class-validator";
+
+import { CropCategory } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for updating a crop of the catalog.
+ *
+ * All fields are optional to allow partial updates. The code cannot be
+ * changed since farm crops reference it.
+ *
+ * @example
+ * ```typescript
+ * const dto: UpdateCropDto = { color: "#92400E" };
+ * ```
+ */
+export class UpdateCropDto {
+	/**
+	 * Updated crop name in Brazilian Portuguese.
+	 *
+	 * @example "Sorgo"
+	 */
+	@ApiPropertyOptional({
+		description: "Updated crop name in Brazilian Portuguese",
+		example: "Sorgo",
+		maxLength: 100,
+	})
+	@IsOptional()
+	@IsString({ message: "Portuguese label must be a string" })
+	@Length(1, 100, { message: "Portuguese label must be between 1 and 100 characters" })
+	labelPtBr?: string;
+
+	/**
+	 * Updated crop name in English.
+	 *
+	 * @example "Sorghum"
+	 */
+	@ApiPropertyOptional({
+		description: "Updated crop name in English",
+		example: "Sorghum",
+		maxLength: 100,
+	})
+	@IsOptional()
+	@IsString({ message: "English label must be a string" })
+	@Length(1, 100, { message: "English label must be between 1 and 100 characters" })
+	labelEn?: string;
+
+	/**
+	 * Updated hex color.
+	 *
+	 * @example "#92400E"
+	 */
+	@ApiPropertyOptional({ description: "Updated hex color in #RRGGBB format", example: "#92400E" })
+	@IsOptional()
+	@Matches(/^#[\dA-Fa-f]{6}$/, { message: "Color must be a hex color in the #RRGGBB format" })
+	color?: string;
+
+	/**
+	 * Updated crop category.
+	 *
+	 * @example CropCategory.Grain
+	 */
+	@ApiPropertyOptional({
+		description: "Updated crop category",
+		example: CropCategory.Grain,
+		enum: CropCategory,
+		enumName: "CropCategory",
+	})
+	@IsOptional()
+	@IsEnum(CropCategory, { message: "Category must be a valid crop category" })
+	category?: CropCategory;
+}
@@ -0,0 +1,61 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	PrimaryGeneratedColumn,
+	UpdateDateColumn,
+} from "typeorm";
+
+import { CropCategory } from "@agro/shared/enums";
+
+/**
+ * Crop entity representing an entry of the crop catalog
+ *
+ * The catalog lists every crop that can be planted on a farm. Farm crops
+ * reference catalog entries by `code`, so new crops can be added without a
+ * code release.
+ *
+ * Business Rules:
+ * - Code is unique and cannot be changed once created
+ * - Crops planted on any farm cannot be deleted
+ *
+ * @see {@link FarmHarvestCrop} for the crops planted on farms
+ */
+@Entity("crops")
+export class Crop {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/**
+	 * Unique crop code referenced by `farm_harvest_crops.crop_type`
+	 *
+	 * Examples: "soy", "corn", "eucalyptus"
+	 */
+	@Column({ type: "varchar", length: 50, unique: true })
+	code!: string;
+
+	/** Crop name in Brazilian Portuguese */
+	@Column({ type: "varchar", length: 100, name: "label_pt_br" })
+	labelPtBr!: string;
+
+	/** Crop name in English */
+	@Column({ type: "varchar", length: 100, name: "label_en" })
+	labelEn!: string;
+
+	/** Hex color (`#RRGGBB`) used to represent the crop in charts and badges */
+	@Column({ type: "varchar", length: 7 })
+	color!: string;
+
+	/** Crop category (grain, fiber, forestry, ...) */
+	@Column({ type: "varchar", length: 30, enum: CropCategory })
+	category!: CropCategory;
+
+	/** Timestamp of record creation */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+
+	/** Timestamp of last record update */
+	@UpdateDateColumn({ name: "updated_at" })
+	updatedAt!: Date;
+}
@@ -0,0 +1 @@
+export * from "./crop.entity";
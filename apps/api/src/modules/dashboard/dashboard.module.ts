@@ -4,6 +4,7 @@ import { TypeOrmModule } from "@nestjs/typeorm";
 import { City } from "@/modules/cities/entities/city.entity";
 import { Farm } from "@/modules/farms/entities/farm.entity";
 import { Producer } from "@/modules/producers/entities/producer.entity";
+import { ProductionRecord } from "@/modules/production/entities/production-record.entity";
 
 import { DashboardController } from "./dashboard.controller";
 import { DashboardService } from "./dashboard.service";
@@ -23,8 +24,9 @@ import { DashboardService } from "./dashboard.service";
  * ```
  */
 @Module({
-	imports: [TypeOrmModule.forFeature([City, Farm, Producer])],
+	imports: [TypeOrmModule.forFeature([City, Farm, Producer, ProductionRecord])],
 	controllers: [DashboardController],
 	providers: [DashboardService],
+	exports: [DashboardService],
 })
 export class DashboardModule {}
@@ -1,23 +1,33 @@
 import { Injectable } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { InjectPinoLogger } from "nestjs-pino";
-import { Repository } from "typeorm";
+import { Repository, SelectQueryBuilder } from "typeorm";
 
 import type {
 	CityDistributionDto,
+	CropProductivityDto,
+	DashboardComplianceDto,
 	DashboardStatsDto,
 	FarmSummaryDto,
 	ProducerSummaryDto,
+	StateProductivityDto,
 } from "./dto";
 import type { PinoLogger } from "nestjs-pino";
 
-import type { CropDistribution, StateDistribution } from "@agro/shared/types";
+import type {
+	CropDistribution,
+	ProducerStateDistribution,
+	StateDistribution,
+} from "@agro/shared/types";
 
-import { BrazilianState, CropType, SortOrder } from "@agro/shared/enums";
+import { BrazilianState, SortOrder } from "@agro/shared/enums";
+import { PRODUCTION_UNIT_TO_TONS } from "@agro/shared/utils";
+import { evaluateLegalReserve } from "@agro/shared/validators";
 
 import { City } from "@/modules/cities/entities";
 import { Farm } from "@/modules/farms/entities";
 import { Producer } from "@/modules/producers/entities";
+import { ProductionRecord } from "@/modules/production/entities";
 
 /**
  * Service responsible for aggregating dashboard statistics.
@@ -48,6 +58,9 @@ export class DashboardService {
 		@InjectRepository(Producer)
 		private readonly producerRepository: Repository<Producer>,
 
+		@InjectRepository(ProductionRecord)
+		private readonly productionRecordRepository: Repository<ProductionRecord>,
+
 		@InjectPinoLogger(DashboardService.name)
 		private readonly logger: PinoLogger,
 	) {}
@@ -78,7 +91,10 @@ export class DashboardService {
 			producersByState,
 			farmsByCity,
 			largestFarms,
-			mostProductiveProducers,
+			producersWithMostFarms,
+			productivityByCrop,
+			productivityByState,
+			compliance,
 		] = await Promise.all([
 			this.getTotalFarms(),
 			this.getTotalProducers(),
@@ -87,7 +103,10 @@ export class DashboardService {
 			this.getProducersByState(),
 			this.getFarmsByCity(10),
 			this.getLargestFarms(5),
-			this.getMostProductiveProducers(5),
+			this.getProducersWithMostFarms(5),
+			this.getProductivityByCrop(),
+			this.getProductivityByState(),
+			this.getCompliance(),
 		]);
 
 		const unusedArea = areaStats.totalArea - areaStats.arableArea - areaStats.vegetationArea;
@@ -121,12 +140,17 @@ export class DashboardService {
 			},
 			topRecords: {
 				largestFarms,
-				mostProductiveProducers,
+				producersWithMostFarms,
+			},
+			productivity: {
+				byCrop: productivityByCrop,
+				byState: productivityByState,
 			},
 			landUse: {
 				arableArea: areaStats.arableArea,
 				vegetationArea: areaStats.vegetationArea,
 			},
+			compliance,
 			timestamp: new Date().toISOString(),
 		};
 	}
@@ -168,23 +192,26 @@ export class DashboardService {
 				.addSelect("SUM(farm.vegetationArea)", "vegetation")
 				.getRawOne();
 
-		const cropResults: Array<{ cropType: string; count: string }> = await this.farmRepository
-			.createQueryBuilder("farm")
-			.innerJoin("farm.farmHarvests", "fh")
-			.innerJoin("fh.crops", "fhc")
-			.select("fhc.cropType", "cropType")
-			.addSelect("COUNT(DISTINCT farm.id)", "count")
-			.groupBy("fhc.cropType")
-			.orderBy("count", SortOrder.Descending)
-			.getRawMany();
+		const cropResults: Array<{ cropType: string; count: string; plantedArea: string | null }> =
+			await this.farmRepository
+				.createQueryBuilder("farm")
+				.innerJoin("farm.farmHarvests", "fh")
+				.innerJoin("fh.crops", "fhc")
+				.select("fhc.cropType", "cropType")
+				.addSelect("COUNT(DISTINCT farm.id)", "count")
+				.addSelect("SUM(fhc.plantedArea)", "plantedArea")
+				.groupBy("fhc.cropType")
+				.orderBy("count", SortOrder.Descending)
+				.getRawMany();
 
 		return {
 			totalArea: Number.parseFloat(areaResult?.total ?? "0") || 0,
 			arableArea: Number.parseFloat(areaResult?.arable ?? "0") || 0,
 			vegetationArea: Number.parseFloat(areaResult?.vegetation ?? "0") || 0,
 			cropDistribution: cropResults.map((result) => ({
-				cropType: result.cropType as CropType,
+				cropType: result.cropType,
 				count: Number.parseInt(result.count, 10),
+				plantedArea: Number.parseFloat(result.plantedArea ?? "0") || 0,
 			})),
 		};
 	}
@@ -212,22 +239,30 @@ export class DashboardService {
 	/**
 	 * Gets producer distribution grouped by state.
 	 *
-	 * Aggregates producers by the states where they own farms.
+	 * Aggregates producers by the states where they own or co-own farms, with
+	 * the area they hold there weighted by their ownership shares. Joining the
+	 * owners' producers leaves out co-owners who are in the trash.
 	 *
 	 * @returns Array of state distributions ordered by count descending
 	 */
-	private async getProducersByState(): Promise<Array<StateDistribution>> {
-		const results: Array<{ state: string; count: string }> = await this.farmRepository
-			.createQueryBuilder("farm")
-			.select("farm.state", "state")
-			.addSelect("COUNT(DISTINCT farm.producerId)", "count")
-			.groupBy("farm.state")
-			.orderBy("count", SortOrder.Descending)
-			.getRawMany();
+	private async getProducersByState(): Promise<Array<ProducerStateDistribution>> {
+		const results: Array<{ state: string; count: string; totalArea: string }> =
+			await this.farmRepository
+				.createQueryBuilder("farm")
+				.innerJoin("farm.owners", "owner")
+				.innerJoin("owner.producer", "ownerProducer")
+				.select("farm.state", "state")
+				.addSelect("COUNT(DISTINCT owner.producerId)", "count")
+				.addSelect("SUM(farm.totalArea * owner.percentage / 100)", "totalArea")
+				.groupBy("farm.state")
+				.orderBy("count", SortOrder.Descending)
+				.addOrderBy("totalArea", SortOrder.Descending)
+				.getRawMany();
 
 		return results.map((result) => ({
 			state: result.state as BrazilianState,
 			count: Number.parseInt(result.count, 10),
+			totalArea: Number.parseFloat(result.totalArea) || 0,
 		}));
 	}
 
@@ -284,13 +319,16 @@ export class DashboardService {
 	/**
 	 * Gets producers with the most farms.
 	 *
-	 * Aggregates farm count and total area per producer.
+	 * Aggregates farm count and total area per producer, counting co-owned farms
+	 * and weighting their area by the producer's ownership share. This ranks
+	 * producers by farm count only; see {@link getProductivityByCrop} for
+	 * yield-based rankings.
 	 *
 	 * @param limit Number of producers to return
 	 *
 	 * @returns Array of producer summaries ordered by farm count descending
 	 */
-	private async getMostProductiveProducers(limit: number): Promise<Array<ProducerSummaryDto>> {
+	private async getProducersWithMostFarms(limit: number): Promise<Array<ProducerSummaryDto>> {
 		const results: Array<{
 			id: string;
 			name: string;
@@ -298,11 +336,12 @@ export class DashboardService {
 			totalArea: string;
 		}> = await this.producerRepository
 			.createQueryBuilder("producer")
-			.innerJoin("producer.farms", "farm")
+			.innerJoin("producer.farmOwnerships", "ownership")
+			.innerJoin("ownership.farm", "farm")
 			.select("producer.id", "id")
 			.addSelect("producer.name", "name")
 			.addSelect("COUNT(farm.id)", "farmCount")
-			.addSelect("SUM(farm.totalArea)", "totalArea")
+			.addSelect("SUM(farm.totalArea * ownership.percentage / 100)", "totalArea")
 			.groupBy("producer.id")
 			.addGroupBy("producer.name")
 			.orderBy("farmCount", SortOrder.Descending)
@@ -317,4 +356,152 @@ export class DashboardService {
 			totalArea: Number.parseFloat(result.totalArea) || 0,
 		}));
 	}
+
+	/**
+	 * Ranks crops by average yield (tons per hectare).
+	 *
+	 * @returns Array of crop productivity ordered by average yield descending
+	 */
+	private async getProductivityByCrop(): Promise<Array<CropProductivityDto>> {
+		const results = await this.createProductivityQuery()
+			.groupBy("fhc.cropType")
+			.orderBy("averageYield", SortOrder.Descending)
+			.getRawMany<RawProductivity>();
+
+		return results.map((result) => this.mapProductivity(result));
+	}
+
+	/**
+	 * Ranks states by average yield (tons per hectare) of each crop.
+	 *
+	 * Yields of different crops are not comparable, so states are ranked per crop.
+	 *
+	 * @returns Array of state productivity ordered by crop, then average yield descending
+	 */
+	private async getProductivityByState(): Promise<Array<StateProductivityDto>> {
+		const results = await this.createProductivityQuery()
+			.addSelect("farm.state", "state")
+			.groupBy("fhc.cropType")
+			.addGroupBy("farm.state")
+			.orderBy("cropType", SortOrder.Ascending)
+			.addOrderBy("averageYield", SortOrder.Descending)
+			.getRawMany<RawProductivity & { state: string }>();
+
+		return results.map((result) => ({
+			...this.mapProductivity(result),
+			state: result.state as BrazilianState,
+		}));
+	}
+
+	/**
+	 * Lists farms whose vegetation area is below the legal reserve (Reserva Legal)
+	 * required for their biome.
+	 *
+	 * The requirement depends on each farm's municipality, so it is evaluated
+	 * per farm rather than aggregated in SQL.
+	 *
+	 * @returns Non-compliant farms ordered by deficit descending, and the total deficit
+	 */
+	private async getCompliance(): Promise<DashboardComplianceDto> {
+		const farms = await this.farmRepository.find({
+			relations: ["producer"],
+			select: {
+				id: true,
+				name: true,
+				state: true,
+				city: true,
+				totalArea: true,
+				vegetationArea: true,
+				producer: { name: true },
+			},
+		});
+
+		const nonCompliantFarms = farms
+			.flatMap((farm) => {
+				const state = farm.state as BrazilianState;
+				const compliance = evaluateLegalReserve({ ...farm, state });
+
+				if (compliance.isCompliant) return [];
+
+				return [
+					{
+						id: farm.id,
+						name: farm.name,
+						state,
+						city: farm.city,
+						producerName: farm.producer.name,
+						biome: compliance.biome,
+						requiredPercentage: compliance.requiredPercentage,
+						vegetationPercentage: compliance.vegetationPercentage,
+						deficit: compliance.deficit,
+					},
+				];
+			})
+			.toSorted((a, b) => b.deficit - a.deficit);
+
+		return {
+			nonCompliantFarms,
+			totalDeficitHectares: nonCompliantFarms.reduce((sum, farm) => sum + farm.deficit, 0),
+		};
+	}
+
+	/**
+	 * Builds the base productivity query.
+	 *
+	 * Sums the production of each farm harvest crop (converted to tons) in a subquery
+	 * so planted areas are not counted once per production record, then aggregates
+	 * production and planted area. Crops without a known planted area are ignored.
+	 *
+	 * @returns Query builder selecting crop type, total production, harvested area and average yield
+	 */
+	private createProductivityQuery(): SelectQueryBuilder<Farm> {
+		const tonsCase = Object.entries(PRODUCTION_UNIT_TO_TONS)
+			.map(([unit, factor]) => `WHEN '${unit}' THEN pr.quantity * ${String(factor)}`)
+			.join(" ");
+
+		const productionByCrop = this.productionRecordRepository
+			.createQueryBuilder("pr")
+			.select("pr.farmHarvestCropId", "farmHarvestCropId")
+			.addSelect(`SUM(CASE pr.unit ${tonsCase} END)`, "tons")
+			.groupBy("pr.farmHarvestCropId");
+
+		return this.farmRepository
+			.createQueryBuilder("farm")
+			.innerJoin("farm.farmHarvests", "fh")
+			.innerJoin("fh.crops", "fhc")
+			.innerJoin(
+				`(${productionByCrop.getQuery()})`,
+				"production",
+				`"production"."farmHarvestCropId" = fhc.id`,
+			)
+			.select("fhc.cropType", "cropType")
+			.addSelect(`SUM("production"."tons")`, "totalProduction")
+			.addSelect("SUM(fhc.plantedArea)", "harvestedArea")
+			.addSelect(`SUM("production"."tons") / SUM(fhc.plantedArea)`, "averageYield")
+			.where("fhc.plantedArea > 0");
+	}
+
+	/**
+	 * Maps a raw productivity row to a {@link CropProductivityDto}.
+	 *
+	 * @param result Raw row returned by the productivity query
+	 *
+	 * @returns The parsed crop productivity
+	 */
+	private mapProductivity(result: RawProductivity): CropProductivityDto {
+		return {
+			cropType: result.cropType,
+			totalProduction: Number.parseFloat(result.totalProduction) || 0,
+			harvestedArea: Number.parseFloat(result.harvestedArea) || 0,
+			averageYield: Number.parseFloat(result.averageYield) || 0,
+		};
+	}
+}
+
+/** Raw row returned by the productivity query */
+interface RawProductivity {
+	cropType: string;
+	totalProduction: string;
+	harvestedArea: string;
+	averageYield: string;
 }
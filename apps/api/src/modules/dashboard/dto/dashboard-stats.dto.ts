@@ -1,6 +1,13 @@
 import { ApiProperty } from "@nestjs/swagger";
 
-import type { CropDistribution, LandUseStats, StateDistribution } from "@agro/shared/types";
+import type {
+	CropDistribution,
+	LandUseStats,
+	ProducerStateDistribution,
+	StateDistribution,
+} from "@agro/shared/types";
+
+import { Biome, BrazilianState } from "@agro/shared/enums";
 
 /**
  * Summary information for a farm.
@@ -125,7 +132,7 @@ export class DashboardDistributionsDto {
 	byCityTop10!: Array<CityDistributionDto>;
 
 	@ApiProperty({ type: [Object], isArray: true })
-	producersByState!: Array<StateDistribution>;
+	producersByState!: Array<ProducerStateDistribution>;
 }
 
 /**
@@ -138,7 +145,102 @@ export class DashboardTopRecordsDto {
 	largestFarms!: Array<FarmSummaryDto>;
 
 	@ApiProperty({ type: [ProducerSummaryDto], isArray: true })
-	mostProductiveProducers!: Array<ProducerSummaryDto>;
+	producersWithMostFarms!: Array<ProducerSummaryDto>;
+}
+
+/**
+ * Average productivity of a crop.
+ *
+ * The average yield is weighted by planted area.
+ */
+export class CropProductivityDto {
+	@ApiProperty({ example: "soy" })
+	cropType!: string;
+
+	@ApiProperty({ example: 5400, description: "Total production in metric tons" })
+	totalProduction!: number;
+
+	@ApiProperty({ example: 1500, description: "Planted area that produced it, in hectares" })
+	harvestedArea!: number;
+
+	@ApiProperty({ example: 3.6, description: "Average yield in tons per hectare" })
+	averageYield!: number;
+}
+
+/**
+ * Average productivity of a crop within a state.
+ */
+export class StateProductivityDto extends CropProductivityDto {
+	@ApiProperty({ example: BrazilianState.MT, enum: BrazilianState, enumName: "BrazilianState" })
+	state!: BrazilianState;
+}
+
+/**
+ * Productivity rankings for the dashboard.
+ *
+ * Ranks crops and states by average yield, built from production records.
+ */
+export class DashboardProductivityDto {
+	@ApiProperty({ type: [CropProductivityDto], isArray: true })
+	byCrop!: Array<CropProductivityDto>;
+
+	@ApiProperty({ type: [StateProductivityDto], isArray: true })
+	byState!: Array<StateProductivityDto>;
+}
+
+/**
+ * Farm whose vegetation area is below the legal reserve requirement of its biome.
+ */
+export class NonCompliantFarmDto {
+	@ApiProperty({ example: "550e8400-e29b-41d4-a716-446655440000" })
+	id!: string;
+
+	@ApiProperty({ example: "Fazenda Rio Verde" })
+	name!: string;
+
+	@ApiProperty({ example: BrazilianState.PA, enum: BrazilianState, enumName: "BrazilianState" })
+	state!: BrazilianState;
+
+	@ApiProperty({ example: "Paragominas" })
+	city!: string;
+
+	@ApiProperty({ example: "João da Silva" })
+	producerName!: string;
+
+	@ApiProperty({ example: Biome.Amazon, enum: Biome, enumName: "Biome" })
+	biome!: Biome;
+
+	@ApiProperty({
+		example: 80,
+		description: "Minimum share of the total area to keep as vegetation, in percent",
+	})
+	requiredPercentage!: number;
+
+	@ApiProperty({
+		example: 50,
+		description: "Current share of the total area kept as vegetation, in percent",
+	})
+	vegetationPercentage!: number;
+
+	@ApiProperty({
+		example: 300,
+		description: "Vegetation area missing to reach the requirement, in hectares",
+	})
+	deficit!: number;
+}
+
+/**
+ * Legal reserve (Reserva Legal) compliance overview for the dashboard.
+ */
+export class DashboardComplianceDto {
+	@ApiProperty({ type: [NonCompliantFarmDto], isArray: true })
+	nonCompliantFarms!: Array<NonCompliantFarmDto>;
+
+	@ApiProperty({
+		example: 320.5,
+		description: "Sum of the deficits of all non-compliant farms, in hectares",
+	})
+	totalDeficitHectares!: number;
 }
 
 /**
@@ -154,7 +256,9 @@ export class DashboardTopRecordsDto {
  *   averages: { areaPerFarm: 101.54, ... },
  *   distributions: { byState: [...], ... },
  *   topRecords: { largestFarms: [...], ... },
+ *   productivity: { byCrop: [...], byState: [...] },
  *   landUse: { arableArea: 10500.5, ... },
+ *   compliance: { nonCompliantFarms: [...], totalDeficitHectares: 320.5 },
  *   timestamp: "2024-01-15T10:30:00.000Z"
  * };
  * ```
@@ -172,9 +276,15 @@ export class DashboardStatsDto {
 	@ApiProperty({ type: DashboardTopRecordsDto })
 	topRecords!: DashboardTopRecordsDto;
 
+	@ApiProperty({ type: DashboardProductivityDto })
+	productivity!: DashboardProductivityDto;
+
 	@ApiProperty({ type: Object })
 	landUse!: LandUseStats;
 
+	@ApiProperty({ type: DashboardComplianceDto })
+	compliance!: DashboardComplianceDto;
+
 	@ApiProperty({ example: "2024-01-15T10:30:00.000Z" })
 	timestamp!: string;
 }
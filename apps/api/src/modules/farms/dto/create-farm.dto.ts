@@ -1,20 +1,34 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, Float, ID, InputType } from "@nestjs/graphql";
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
 import {
+	ArrayNotEmpty,
+	ArrayUnique,
 	IsArray,
 	IsEnum,
 	IsNotEmpty,
 	IsNumber,
+	IsObject,
 	IsOptional,
 	IsString,
 	IsUUID,
 	Length,
+	Max,
 	Min,
+	ValidateIf,
+	ValidateNested,
 } from "class-validator";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
 
 import { IsCityInState } from "@/common/decorators/city-in-state.decorator";
+import { IsFarmBoundary } from "@/common/decorators/farm-boundary.decorator";
+
+import { FarmOwnerDto } from "./farm-owner.dto";
+import { HarvestCropsDto } from "./harvest-crops.dto";
 
 /**
  * Data Transfer Object for creating a new farm.
@@ -22,6 +36,8 @@ import { IsCityInState } from "@/common/decorators/city-in-state.decorator";
  * Validates all required farm information including area measurements and
  * ensures the farm is associated with a valid producer.
  *
+ * Also the input of the `createFarm` GraphQL mutation.
+ *
  * @example
  * ```typescript
  * const dto: CreateFarmDto = {
@@ -31,16 +47,22 @@ import { IsCityInState } from "@/common/decorators/city-in-state.decorator";
  *   totalArea: 100.5,
  *   arableArea: 70.0,
  *   vegetationArea: 25.0,
- *   producerId: "550e8400-e29b-41d4-a716-446655440000"
+ *   producerId: "550e8400-e29b-41d4-a716-446655440000",
+ *   owners: [
+ *     { producerId: "550e8400-e29b-41d4-a716-446655440000", percentage: 60 },
+ *     { producerId: "660e9500-f30c-52e5-b827-557766551111", percentage: 40 }
+ *   ]
  * };
  * ```
  */
+@InputType("CreateFarmInput", { description: "Data of a new farm" })
 export class CreateFarmDto {
 	/**
 	 * Name of the farm.
 	 *
 	 * @example "Fazenda Boa Vista"
 	 */
+	@Field(() => String)
 	@ApiProperty({
 		description: "Name of the farm",
 		example: `Fazenda ${faker.location.city()}`,
@@ -60,6 +82,7 @@ export class CreateFarmDto {
 	 *
 	 * @example "Campinas"
 	 */
+	@Field(() => String)
 	@ApiProperty({
 		description: "City where the farm is located (must exist in the specified state)",
 		example: faker.location.city(),
@@ -79,6 +102,7 @@ export class CreateFarmDto {
 	 *
 	 * @example BrazilianState.SP
 	 */
+	@Field(() => BrazilianState)
 	@ApiProperty({
 		description: "Brazilian state (UF)",
 		example: BrazilianState.SP,
@@ -97,6 +121,7 @@ export class CreateFarmDto {
 	 *
 	 * @example 100.5
 	 */
+	@Field(() => Float)
 	@ApiProperty({
 		description: "Total farm area in hectares",
 		example: faker.number.float({ min: 50, max: 500, fractionDigits: 2 }),
@@ -115,6 +140,7 @@ export class CreateFarmDto {
 	 *
 	 * @example 70.0
 	 */
+	@Field(() => Float)
 	@ApiProperty({
 		description: "Arable area in hectares",
 		example: faker.number.float({ min: 30, max: 300, fractionDigits: 2 }),
@@ -133,6 +159,7 @@ export class CreateFarmDto {
 	 *
 	 * @example 25.0
 	 */
+	@Field(() => Float)
 	@ApiProperty({
 		description: "Vegetation/preservation area in hectares",
 		example: faker.number.float({ min: 10, max: 150, fractionDigits: 2 }),
@@ -143,13 +170,88 @@ export class CreateFarmDto {
 	@Min(0, { message: "Vegetation area cannot be negative" })
 	vegetationArea!: number;
 
+	/**
+	 * Latitude of the farm headquarters in decimal degrees (WGS 84).
+	 *
+	 * Optional, but must be sent along with longitude.
+	 *
+	 * @example -22.9056
+	 */
+	@Field(() => Float, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Latitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.latitude({ min: -33, max: 5, precision: 6 }),
+		minimum: -90,
+		maximum: 90,
+		type: Number,
+	})
+	@ValidateIf((dto: CreateFarmDto) => dto.latitude !== undefined || dto.longitude !== undefined)
+	@IsNotEmpty({ message: "Latitude and longitude must be provided together" })
+	@IsNumber({}, { message: "Latitude must be a number" })
+	@Min(-90, { message: "Latitude must be between -90 and 90" })
+	@Max(90, { message: "Latitude must be between -90 and 90" })
+	latitude?: number;
+
+	/**
+	 * Longitude of the farm headquarters in decimal degrees (WGS 84).
+	 *
+	 * Optional, but must be sent along with latitude.
+	 *
+	 * @example -47.0608
+	 */
+	@Field(() => Float, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Longitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.longitude({ min: -73, max: -35, precision: 6 }),
+		minimum: -180,
+		maximum: 180,
+		type: Number,
+	})
+	@ValidateIf((dto: CreateFarmDto) => dto.latitude !== undefined || dto.longitude !== undefined)
+	@IsNotEmpty({ message: "Latitude and longitude must be provided together" })
+	@IsNumber({}, { message: "Longitude must be a number" })
+	@Min(-180, { message: "Longitude must be between -180 and 180" })
+	@Max(180, { message: "Longitude must be between -180 and 180" })
+	longitude?: number;
+
+	/**
+	 * Boundary of the farm as a GeoJSON Polygon or MultiPolygon.
+	 *
+	 * Optional field. Its geodesic area must match totalArea within the
+	 * configured tolerance (validated at service layer).
+	 *
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
+	 */
+	@ApiPropertyOptional({
+		description: "Boundary of the farm as a GeoJSON Polygon or MultiPolygon",
+		type: Object,
+		example: {
+			type: "Polygon",
+			coordinates: [
+				[
+					[-47.07, -22.91],
+					[-47.06, -22.91],
+					[-47.06, -22.9],
+					[-47.07, -22.9],
+					[-47.07, -22.91],
+				],
+			],
+		},
+	})
+	@IsOptional()
+	@IsObject({ message: "Boundary must be a GeoJSON object" })
+	@IsFarmBoundary()
+	boundary?: FarmBoundary;
+
 	/**
 	 * UUID of the producer who owns this farm.
 	 *
-	 * Must reference an existing producer in the database.
+	 * Must reference an existing producer in the database. With co-owners,
+	 * this is the main owner.
 	 *
 	 * @example "550e8400-e29b-41d4-a716-446655440000"
 	 */
+	@Field(() => ID)
 	@ApiProperty({
 		description: "UUID of the farm owner (producer)",
 		example: faker.string.uuid(),
@@ -160,22 +262,56 @@ export class CreateFarmDto {
 	producerId!: string;
 
 	/**
-	 * Array of crops to be planted on this farm.
+	 * Crops planted on this farm, grouped per harvest.
+	 *
+	 * Optional field. Each entry references an existing harvest, and each
+	 * harvest may appear only once. Planted areas in a harvest cannot
+	 * exceed the arable area.
+	 *
+	 * @example [{ harvestId: "9b2f4c1e-...", crops: [{ cropType: "soy", plantedArea: 45.5 }] }]
+	 */
+	@Field(() => [HarvestCropsDto], { nullable: true })
+	@ApiPropertyOptional({
+		description: "Crops planted on this farm, grouped per harvest",
+		type: [HarvestCropsDto],
+		isArray: true,
+		example: [{ harvestId: faker.string.uuid(), crops: [{ cropType: "soy", plantedArea: 45.5 }] }],
+	})
+	@IsOptional()
+	@IsArray({ message: "Crops by harvest must be an array" })
+	@ArrayUnique((entry: HarvestCropsDto) => entry.harvestId, {
+		message: "Each harvest can only be listed once",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => HarvestCropsDto)
+	cropsByHarvest?: Array<HarvestCropsDto>;
+
+	/**
+	 * Owners of this farm with their shares, for farms held by several producers.
 	 *
-	 * Optional field. Each crop must be a valid CropType enum value.
-	 * Used to initialize crops for the current or next harvest cycle.
+	 * Optional field. Must include the producer above, each producer may appear
+	 * only once, and the shares must add up to 100%. When omitted, the producer
+	 * above owns the whole farm.
 	 *
-	 * @example [CropType.Soy, CropType.Corn]
+	 * @example [{ producerId: "550e8400-...", percentage: 50 }, { producerId: "660e9500-...", percentage: 50 }]
 	 */
+	@Field(() => [FarmOwnerDto], { nullable: true })
 	@ApiPropertyOptional({
-		description: "Array of crops planted on this farm",
-		example: [CropType.Soy, CropType.Corn],
-		enum: CropType,
-		enumName: "CropType",
+		description: "Owners of the farm with their shares, adding up to 100%",
+		type: [FarmOwnerDto],
 		isArray: true,
+		example: [
+			{ producerId: faker.string.uuid(), percentage: 50 },
+			{ producerId: faker.string.uuid(), percentage: 50 },
+		],
 	})
 	@IsOptional()
-	@IsArray({ message: "Crops must be an array" })
-	@IsEnum(CropType, { each: true, message: "Each crop must be a valid crop type" })
-	crops?: Array<CropType>;
+	@IsArray({ message: "Owners must be an array" })
+	@ArrayNotEmpty({ message: "A farm must have at least one owner" })
+	@ArrayUnique((owner: FarmOwnerDto) => owner.producerId, {
+		message: "Each producer can only be listed once as owner",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => FarmOwnerDto)
+	owners?: Array<FarmOwnerDto>;
 }
@@ -0,0 +1,128 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for a soft-deleted farm listed in the trash.
+ *
+ * @example
+ * ```typescript
+ * const response: DeletedFarmResponseDto = {
+ *   id: "770e9600-g40d-63f6-c938-668877662222",
+ *   name: "Fazenda Boa Vista",
+ *   city: "Campinas",
+ *   state: BrazilianState.SP,
+ *   producerId: "550e8400-e29b-41d4-a716-446655440000",
+ *   producerName: "João da Silva",
+ *   producerDeleted: false,
+ *   deletedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class DeletedFarmResponseDto {
+	/**
+	 * Unique identifier for the farm (UUID v4).
+	 *
+	 * @example "770e9600-g40d-63f6-c938-668877662222"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Name of the farm.
+	 *
+	 * @example "Fazenda Boa Vista"
+	 */
+	@ApiProperty({
+		description: "Farm name",
+		example: `Fazenda ${faker.location.city()}`,
+	})
+	@Expose()
+	name!: string;
+
+	/**
+	 * City where the farm is located.
+	 *
+	 * @example "Campinas"
+	 */
+	@ApiProperty({
+		description: "City name",
+		example: faker.location.city(),
+	})
+	@Expose()
+	city!: string;
+
+	/**
+	 * Brazilian state (UF) where the farm is located.
+	 *
+	 * @example "SP"
+	 */
+	@ApiProperty({
+		description: "Brazilian state (UF)",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@Expose()
+	state!: BrazilianState;
+
+	/**
+	 * UUID of the farm's main owner.
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "UUID of the main owner",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	producerId!: string;
+
+	/**
+	 * Name of the farm's main owner.
+	 *
+	 * @example "João da Silva"
+	 */
+	@ApiProperty({
+		description: "Name of the main owner",
+		example: faker.person.fullName(),
+	})
+	@Expose()
+	producerName!: string;
+
+	/**
+	 * Whether the farm's main owner is in the trash as well.
+	 *
+	 * Such a farm is restored together with its producer.
+	 *
+	 * @example false
+	 */
+	@ApiProperty({
+		description: "Whether the main owner is in the trash as well",
+		example: false,
+	})
+	@Expose()
+	producerDeleted!: boolean;
+
+	/**
+	 * Timestamp when the farm was moved to the trash.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Deletion timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	deletedAt!: Date;
+}
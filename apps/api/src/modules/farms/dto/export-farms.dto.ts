@@ -0,0 +1,34 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum } from "class-validator";
+
+import { ExportFormat } from "@agro/shared/enums";
+
+import { FindAllFarmsDto } from "./find-all-farms.dto";
+
+/**
+ * Query parameters for exporting farms: the list filters, plus the file format.
+ *
+ * Every farm matching the filters is exported in the requested order, so
+ * `page` and `limit` are accepted for parity with the list but ignored.
+ *
+ * @example
+ * ```typescript
+ * const query: ExportFarmsDto = {
+ *   format: ExportFormat.Xlsx,
+ *   state: BrazilianState.SP,
+ *   sortBy: FarmSortField.TotalArea,
+ *   sortOrder: SortOrder.Descending
+ * };
+ * ```
+ */
+export class ExportFarmsDto extends FindAllFarmsDto {
+	/** File format of the export */
+	@ApiProperty({
+		description: "File format of the export",
+		enum: ExportFormat,
+		enumName: "ExportFormat",
+		example: ExportFormat.Csv,
+	})
+	@IsEnum(ExportFormat, { message: "Format must be csv, xlsx or geojson" })
+	format!: ExportFormat;
+}
@@ -0,0 +1,145 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { FarmCompliance } from "@agro/shared/types";
+
+import { Biome } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for the legal reserve (Reserva Legal) compliance of a farm.
+ *
+ * The Forest Code requires a minimum share of the farm to be kept as native
+ * vegetation: 80% in the Amazon, 35% in Cerrado within the Legal Amazon and
+ * 20% elsewhere.
+ *
+ * @example
+ * ```typescript
+ * const response: FarmComplianceResponseDto = {
+ *   farmId: "770e9600-g40d-63f6-c938-668877662222",
+ *   biome: Biome.Amazon,
+ *   legalAmazon: true,
+ *   requiredPercentage: 80,
+ *   requiredArea: 800,
+ *   vegetationArea: 500,
+ *   vegetationPercentage: 50,
+ *   deficit: 300,
+ *   isCompliant: false
+ * };
+ * ```
+ */
+@Exclude()
+export class FarmComplianceResponseDto implements FarmCompliance {
+	/**
+	 * UUID of the evaluated farm.
+	 *
+	 * @example "770e9600-g40d-63f6-c938-668877662222"
+	 */
+	@ApiProperty({
+		description: "UUID of the evaluated farm",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	farmId!: string;
+
+	/**
+	 * Biome of the farm's municipality.
+	 *
+	 * @example "amazon"
+	 */
+	@ApiProperty({
+		description: "Biome of the farm's municipality",
+		example: Biome.Amazon,
+		enum: Biome,
+		enumName: "Biome",
+	})
+	@Expose()
+	biome!: Biome;
+
+	/**
+	 * Whether the farm is within the Legal Amazon.
+	 *
+	 * @example true
+	 */
+	@ApiProperty({
+		description: "Whether the farm is within the Legal Amazon",
+		example: true,
+	})
+	@Expose()
+	legalAmazon!: boolean;
+
+	/**
+	 * Minimum share of the total area to keep as native vegetation, in percent.
+	 *
+	 * @example 80
+	 */
+	@ApiProperty({
+		description: "Minimum share of the total area to keep as native vegetation, in percent",
+		example: 80,
+	})
+	@Expose()
+	requiredPercentage!: number;
+
+	/**
+	 * Minimum vegetation area in hectares.
+	 *
+	 * @example 800
+	 */
+	@ApiProperty({
+		description: "Minimum vegetation area in hectares",
+		example: 800,
+	})
+	@Expose()
+	requiredArea!: number;
+
+	/**
+	 * Current vegetation area in hectares.
+	 *
+	 * @example 500
+	 */
+	@ApiProperty({
+		description: "Current vegetation area in hectares",
+		example: 500,
+	})
+	@Expose()
+	vegetationArea!: number;
+
+	/**
+	 * Current share of the total area kept as vegetation, in percent.
+	 *
+	 * @example 50
+	 */
+	@ApiProperty({
+		description: "Current share of the total area kept as vegetation, in percent",
+		example: 50,
+	})
+	@Expose()
+	vegetationPercentage!: number;
+
+	/**
+	 * Vegetation area missing to reach the required area, in hectares.
+	 *
+	 * @example 300
+	 */
+	@ApiProperty({
+		description:
+			"Vegetation area missing to reach the required area, in hectares (0 when compliant)",
+		example: 300,
+		minimum: 0,
+	})
+	@Expose()
+	deficit!: number;
+
+	/**
+	 * Whether the vegetation area meets the required area.
+	 *
+	 * @example false
+	 */
+	@ApiProperty({
+		description: "Whether the vegetation area meets the legal reserve requirement",
+		example: false,
+	})
+	@Expose()
+	isCompliant!: boolean;
+}
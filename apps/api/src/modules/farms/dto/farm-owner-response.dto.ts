@@ -0,0 +1,55 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+/**
+ * Data Transfer Object for a producer's share in a farm, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const response: FarmOwnerResponseDto = {
+ *   producerId: "550e8400-e29b-41d4-a716-446655440000",
+ *   producerName: "João da Silva",
+ *   percentage: 50
+ * };
+ * ```
+ */
+@Exclude()
+export class FarmOwnerResponseDto {
+	/**
+	 * UUID of the co-owner (producer).
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "UUID of the co-owner (producer)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	producerId!: string;
+
+	/**
+	 * Name of the co-owner.
+	 *
+	 * @example "João da Silva"
+	 */
+	@ApiProperty({
+		description: "Name of the co-owner",
+		example: faker.person.fullName(),
+	})
+	@Expose()
+	producerName!: string;
+
+	/**
+	 * Share of the farm held by the producer, as a percentage.
+	 *
+	 * @example 50
+	 */
+	@ApiProperty({
+		description: "Share of the farm held by the producer, as a percentage",
+		example: 50,
+	})
+	@Expose()
+	percentage!: number;
+}
@@ -0,0 +1,50 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, Float, ID, InputType } from "@nestjs/graphql";
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsNumber, IsUUID, Max, Min } from "class-validator";
+
+/**
+ * Data Transfer Object for a producer's share in a farm.
+ *
+ * Used as the element type of `owners` when creating or updating farms. The
+ * shares of all owners must add up to 100% (validated at service layer).
+ *
+ * @example
+ * ```typescript
+ * const dto: FarmOwnerDto = { producerId: "550e8400-e29b-41d4-a716-446655440000", percentage: 50 };
+ * ```
+ */
+@InputType("FarmOwnerInput", { description: "Share of a farm held by a producer" })
+export class FarmOwnerDto {
+	/**
+	 * UUID of the co-owner (producer).
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@Field(() => ID)
+	@ApiProperty({
+		description: "UUID of an existing producer",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@IsNotEmpty({ message: "Owner producer ID is required" })
+	@IsUUID("4", { message: "Owner producer ID must be a valid UUID" })
+	producerId!: string;
+
+	/**
+	 * Share of the farm held by the producer, as a percentage.
+	 *
+	 * @example 50
+	 */
+	@Field(() => Float)
+	@ApiProperty({
+		description: "Share of the farm held by the producer, as a percentage",
+		example: 50,
+		minimum: 0.01,
+		maximum: 100,
+	})
+	@IsNumber({ maxDecimalPlaces: 2 }, { message: "Ownership percentage must be a number" })
+	@Min(0.01, { message: "Ownership percentage must be greater than zero" })
+	@Max(100, { message: "Ownership percentage must be at most 100" })
+	percentage!: number;
+}
@@ -0,0 +1,161 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+/**
+ * Data Transfer Object for an entry of a farm's ownership history, as returned by the API.
+ *
+ * Producer references and names are `null` when the producer has since been deleted.
+ *
+ * @example
+ * ```typescript
+ * const response: FarmOwnershipHistoryResponseDto = {
+ *   id: "8f1e2d3c-4b5a-4c6d-9e8f-7a6b5c4d3e2f",
+ *   farmId: "770e9600-g40d-63f6-c938-668877662222",
+ *   farmName: "Fazenda Boa Vista",
+ *   previousProducerId: "550e8400-e29b-41d4-a716-446655440000",
+ *   previousProducerName: "João da Silva",
+ *   newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+ *   newProducerName: "Maria Souza",
+ *   effectiveDate: "2025-07-01",
+ *   reason: "Sale of the property",
+ *   createdAt: new Date("2025-07-01T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class FarmOwnershipHistoryResponseDto {
+	/**
+	 * Unique identifier of the history entry.
+	 *
+	 * @example "8f1e2d3c-4b5a-4c6d-9e8f-7a6b5c4d3e2f"
+	 */
+	@ApiProperty({
+		description: "Unique identifier of the history entry",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * UUID of the transferred farm.
+	 *
+	 * @example "770e9600-g40d-63f6-c938-668877662222"
+	 */
+	@ApiProperty({
+		description: "UUID of the transferred farm",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	farmId!: string;
+
+	/**
+	 * Name of the transferred farm.
+	 *
+	 * @example "Fazenda Boa Vista"
+	 */
+	@ApiProperty({
+		description: "Name of the transferred farm",
+		example: `Fazenda ${faker.location.city()}`,
+	})
+	@Expose()
+	farmName!: string;
+
+	/**
+	 * UUID of the producer who owned the farm before the transfer.
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "UUID of the previous owner (null if since deleted)",
+		example: faker.string.uuid(),
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	previousProducerId!: string | null;
+
+	/**
+	 * Name of the producer who owned the farm before the transfer.
+	 *
+	 * @example "João da Silva"
+	 */
+	@ApiProperty({
+		description: "Name of the previous owner (null if since deleted)",
+		example: faker.person.fullName(),
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	previousProducerName!: string | null;
+
+	/**
+	 * UUID of the producer who owns the farm after the transfer.
+	 *
+	 * @example "660e9500-f30c-52e5-b827-557766551111"
+	 */
+	@ApiProperty({
+		description: "UUID of the new owner (null if since deleted)",
+		example: faker.string.uuid(),
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	newProducerId!: string | null;
+
+	/**
+	 * Name of the producer who owns the farm after the transfer.
+	 *
+	 * @example "Maria Souza"
+	 */
+	@ApiProperty({
+		description: "Name of the new owner (null if since deleted)",
+		example: faker.person.fullName(),
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	newProducerName!: string | null;
+
+	/**
+	 * Date the transfer takes effect (YYYY-MM-DD).
+	 *
+	 * @example "2025-07-01"
+	 */
+	@ApiProperty({
+		description: "Date the transfer takes effect",
+		example: "2025-07-01",
+		format: "date",
+	})
+	@Expose()
+	effectiveDate!: string;
+
+	/**
+	 * Reason of the transfer.
+	 *
+	 * @example "Sale of the property"
+	 */
+	@ApiProperty({
+		description: "Reason of the transfer",
+		example: "Sale of the property",
+	})
+	@Expose()
+	reason!: string;
+
+	/**
+	 * Timestamp when the transfer was registered.
+	 *
+	 * @example "2025-07-01T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Registration timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+}
@@ -1,8 +1,13 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
-import { ApiProperty } from "@nestjs/swagger";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { Exclude, Expose } from "class-transformer";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { FarmOwnerResponseDto } from "./farm-owner-response.dto";
+import { HarvestCropsResponseDto } from "./harvest-crops-response.dto";
 
 /**
  * Data Transfer Object for farm responses.
@@ -21,8 +26,10 @@ import { BrazilianState, CropType } from "@agro/shared/enums";
  *   arableArea: 70.0,
  *   vegetationArea: 25.0,
  *   producerId: "550e8400-e29b-41d4-a716-446655440000",
+ *   owners: [{ producerId: "550e8400-e29b-41d4-a716-446655440000", producerName: "João da Silva", percentage: 100 }],
  *   createdAt: new Date("2025-11-24T10:00:00Z"),
- *   updatedAt: new Date("2025-11-24T10:00:00Z")
+ *   updatedAt: new Date("2025-11-24T10:00:00Z"),
+ *   version: 1
  * };
  * ```
  */
@@ -116,7 +123,74 @@ export class FarmResponseDto {
 	vegetationArea!: number;
 
 	/**
-	 * UUID of the producer who owns this farm.
+	 * Latitude of the farm headquarters in decimal degrees, `null` when unknown.
+	 *
+	 * @example -22.9056
+	 */
+	@ApiProperty({
+		description: "Latitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.latitude({ min: -33, max: 5, precision: 6 }),
+		type: Number,
+		nullable: true,
+	})
+	@Expose()
+	latitude!: number | null;
+
+	/**
+	 * Longitude of the farm headquarters in decimal degrees, `null` when unknown.
+	 *
+	 * @example -47.0608
+	 */
+	@ApiProperty({
+		description: "Longitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.longitude({ min: -73, max: -35, precision: 6 }),
+		type: Number,
+		nullable: true,
+	})
+	@Expose()
+	longitude!: number | null;
+
+	/**
+	 * Boundary of the farm as a GeoJSON Polygon or MultiPolygon, `null` when unknown.
+	 *
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
+	 */
+	@ApiProperty({
+		description: "Boundary of the farm as a GeoJSON Polygon or MultiPolygon",
+		type: Object,
+		nullable: true,
+		example: {
+			type: "Polygon",
+			coordinates: [
+				[
+					[-47.07, -22.91],
+					[-47.06, -22.91],
+					[-47.06, -22.9],
+					[-47.07, -22.9],
+					[-47.07, -22.91],
+				],
+			],
+		},
+	})
+	@Expose()
+	boundary!: FarmBoundary | null;
+
+	/**
+	 * Geodesic area enclosed by the boundary in hectares, `null` without a boundary.
+	 *
+	 * @example 114.15
+	 */
+	@ApiProperty({
+		description: "Geodesic area enclosed by the boundary in hectares",
+		example: faker.number.float({ min: 50, max: 500, fractionDigits: 2 }),
+		type: Number,
+		nullable: true,
+	})
+	@Expose()
+	boundaryArea!: number | null;
+
+	/**
+	 * UUID of the producer who owns this farm, the main owner when co-owned.
 	 *
 	 * @example "550e8400-e29b-41d4-a716-446655440000"
 	 */
@@ -129,18 +203,48 @@ export class FarmResponseDto {
 	producerId!: string;
 
 	/**
-	 * Array of crop types cultivated on this farm.
+	 * Owners of this farm with their shares, adding up to 100%.
 	 *
-	 * @example ["soy", "corn"]
+	 * Includes the main owner above, and any co-owners. Lists only return them
+	 * when including `owners`.
+	 *
+	 * @example [{ producerId: "550e8400-...", producerName: "João da Silva", percentage: 100 }]
 	 */
-	@ApiProperty({
-		description: "Crops cultivated on this farm",
-		example: [CropType.Soy, CropType.Corn],
-		type: [String],
+	@ApiPropertyOptional({
+		description:
+			"Owners of the farm with their shares, adding up to 100%. Lists only return them when including `owners`.",
+		type: [FarmOwnerResponseDto],
+		isArray: true,
+		example: [
+			{ producerId: faker.string.uuid(), producerName: faker.person.fullName(), percentage: 100 },
+		],
+	})
+	@Expose()
+	owners?: Array<FarmOwnerResponseDto>;
+
+	/**
+	 * Crops cultivated on this farm, grouped per harvest.
+	 *
+	 * Ordered by harvest year, most recent first. Lists only return them when
+	 * including `crops`.
+	 *
+	 * @example [{ harvestId: "9b2f4c1e-...", harvestYear: "2024/2025", crops: ["soy", "corn"] }]
+	 */
+	@ApiPropertyOptional({
+		description:
+			"Crops cultivated on this farm, grouped per harvest. Lists only return them when including `crops`.",
+		type: [HarvestCropsResponseDto],
 		isArray: true,
+		example: [
+			{
+				harvestId: faker.string.uuid(),
+				harvestYear: "2024/2025",
+				crops: [{ cropType: "soy", plantedArea: 45.5 }],
+			},
+		],
 	})
 	@Expose()
-	crops!: Array<string>;
+	cropsByHarvest?: Array<HarvestCropsResponseDto>;
 
 	/**
 	 * Timestamp when the farm was created.
@@ -167,4 +271,18 @@ export class FarmResponseDto {
 	})
 	@Expose()
 	updatedAt!: Date;
+
+	/**
+	 * Version of the farm, incremented on every change.
+	 *
+	 * Also returned as the `ETag` header, to be sent back in `If-Match`.
+	 *
+	 * @example 3
+	 */
+	@ApiProperty({
+		description: "Version of the farm, incremented on every change",
+		example: 3,
+	})
+	@Expose()
+	version!: number;
 }
@@ -1,14 +1,37 @@
 import { ApiPropertyOptional } from "@nestjs/swagger";
 import { Transform, Type } from "class-transformer";
-import { IsArray, IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, Min } from "class-validator";
+import {
+	IsArray,
+	IsDateString,
+	IsEnum,
+	IsInt,
+	IsNumber,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Max,
+	Min,
+} from "class-validator";
 
-import { BrazilianState, CropType, FarmSortField, SortOrder } from "@agro/shared/enums";
+import {
+	BrazilianState,
+	CropsMatch,
+	FarmField,
+	FarmInclude,
+	FarmSortField,
+	SortOrder,
+} from "@agro/shared/enums";
 
 /**
  * Query parameters for finding all farms with pagination, sorting, filtering, and search.
  *
- * Supports filtering farms by state, city, producer, and name search
- * with configurable pagination and sorting options.
+ * Supports filtering farms by state, city, producer, crops, area ranges,
+ * arable share, creation date and name search with configurable pagination
+ * and sorting options. Responses can be limited to some fields, and crops
+ * and owners are only loaded when included. Comma-separated values are
+ * accepted for lists.
+ *
+ * Sending a `cursor` switches from page to cursor pagination.
  *
  * @example
  * ```typescript
@@ -52,6 +75,16 @@ export class FindAllFarmsDto {
 	@Max(100, { message: "Limit cannot exceed 100" })
 	limit? = 10;
 
+	/** Cursor of the page to read, switching to cursor pagination; empty for the first page */
+	@ApiPropertyOptional({
+		description:
+			"Switches to cursor pagination: send it empty for the first page, then the `nextCursor` of each page. `page` is ignored and no total is counted.",
+		example: "",
+	})
+	@IsOptional()
+	@IsString({ message: "Cursor must be a string" })
+	cursor?: string;
+
 	/** Field to sort by */
 	@ApiPropertyOptional({
 		description: "Field to sort by",
@@ -78,7 +111,8 @@ export class FindAllFarmsDto {
 
 	/** Search query for farm name */
 	@ApiPropertyOptional({
-		description: "Search query for farm name (case-insensitive)",
+		description:
+			"Search query matching the start of words of the farm name, ignoring case and accents",
 		example: "Fazenda",
 	})
 	@IsOptional()
@@ -96,6 +130,26 @@ export class FindAllFarmsDto {
 	@IsEnum(BrazilianState, { message: "Invalid state" })
 	state?: string;
 
+	/** Filter by any of several Brazilian states */
+	@ApiPropertyOptional({
+		description: "Filter farms located in any of these states",
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+		isArray: true,
+		example: [BrazilianState.SP, BrazilianState.MG],
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value === "string") {
+			return value.split(",").map((state) => state.trim());
+		}
+
+		return value as unknown;
+	})
+	@IsArray({ message: "States must be an array" })
+	@IsEnum(BrazilianState, { each: true, message: "Invalid state" })
+	states?: Array<string>;
+
 	/** Filter by city name */
 	@ApiPropertyOptional({
 		description: "Filter farms by city name (exact match)",
@@ -114,13 +168,11 @@ export class FindAllFarmsDto {
 	@IsUUID("4", { message: "Producer ID must be a valid UUID" })
 	producerId?: string;
 
-	/** Filter by crop types */
+	/** Filter by crop codes */
 	@ApiPropertyOptional({
-		description: "Filter farms by crop types (farms with at least one of the specified crops)",
-		enum: CropType,
+		description: "Filter farms by crop codes (farms with at least one of the specified crops)",
 		isArray: true,
-		example: [CropType.Soy, CropType.Corn],
-		enumName: "CropType",
+		example: ["soy", "corn"],
 	})
 	@IsOptional()
 	@Transform(({ value }) => {
@@ -130,7 +182,132 @@ export class FindAllFarmsDto {
 
 		return value as unknown;
 	})
+	@Type(() => String)
 	@IsArray({ message: "Crops must be an array" })
-	@IsEnum(CropType, { each: true, message: "Each crop must be a valid CropType" })
-	crops?: Array<CropType>;
+	@IsString({ each: true, message: "Each crop must be a crop code" })
+	crops?: Array<string>;
+
+	/** How the crops filter is matched */
+	@ApiPropertyOptional({
+		description:
+			"How the crops filter is matched: farms growing any, all or none of the crops, in any harvest",
+		default: CropsMatch.Any,
+		enum: CropsMatch,
+		enumName: "CropsMatch",
+	})
+	@IsOptional()
+	@IsEnum(CropsMatch, { message: "Crops match must be any, all or none" })
+	cropsMatch?: CropsMatch;
+
+	/** Minimum total area in hectares */
+	@ApiPropertyOptional({
+		description: "Only farms with at least this total area in hectares",
+		example: 100,
+		minimum: 0,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsNumber({}, { message: "Minimum total area must be a number" })
+	@Min(0, { message: "Minimum total area cannot be negative" })
+	minTotalArea?: number;
+
+	/** Maximum total area in hectares */
+	@ApiPropertyOptional({
+		description: "Only farms with at most this total area in hectares",
+		example: 500,
+		minimum: 0,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsNumber({}, { message: "Maximum total area must be a number" })
+	@Min(0, { message: "Maximum total area cannot be negative" })
+	maxTotalArea?: number;
+
+	/** Minimum share of the total area that is arable, in percent */
+	@ApiPropertyOptional({
+		description: "Only farms whose arable area is at least this percentage of the total area",
+		example: 50,
+		minimum: 0,
+		maximum: 100,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsNumber({}, { message: "Minimum arable percentage must be a number" })
+	@Min(0, { message: "Minimum arable percentage must be between 0 and 100" })
+	@Max(100, { message: "Minimum arable percentage must be between 0 and 100" })
+	minArablePercentage?: number;
+
+	/** Maximum share of the total area that is arable, in percent */
+	@ApiPropertyOptional({
+		description: "Only farms whose arable area is at most this percentage of the total area",
+		example: 80,
+		minimum: 0,
+		maximum: 100,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsNumber({}, { message: "Maximum arable percentage must be a number" })
+	@Min(0, { message: "Maximum arable percentage must be between 0 and 100" })
+	@Max(100, { message: "Maximum arable percentage must be between 0 and 100" })
+	maxArablePercentage?: number;
+
+	/** Start of the creation date range (inclusive) */
+	@ApiPropertyOptional({
+		description: "Only farms created at or after this date (ISO 8601)",
+		example: "2025-01-01T00:00:00.000Z",
+	})
+	@IsOptional()
+	@IsDateString({}, { message: "Created from must be a valid ISO 8601 date" })
+	createdFrom?: string;
+
+	/** End of the creation date range (inclusive) */
+	@ApiPropertyOptional({
+		description: "Only farms created at or before this date (ISO 8601)",
+		example: "2025-12-31T23:59:59.999Z",
+	})
+	@IsOptional()
+	@IsDateString({}, { message: "Created to must be a valid ISO 8601 date" })
+	createdTo?: string;
+
+	/** Fields to return besides the ID */
+	@ApiPropertyOptional({
+		description:
+			"Fields to return besides the ID, every field when omitted. Included relations are always returned; GeoJSON responses ignore it.",
+		enum: FarmField,
+		enumName: "FarmField",
+		isArray: true,
+		example: [FarmField.Name, FarmField.TotalArea],
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value === "string") {
+			return value.split(",").map((field) => field.trim());
+		}
+
+		return value as unknown;
+	})
+	@IsArray({ message: "Fields must be an array" })
+	@IsEnum(FarmField, { each: true, message: "Invalid farm field" })
+	fields?: Array<FarmField>;
+
+	/** Relations to load along with the farms */
+	@ApiPropertyOptional({
+		description:
+			"Relations to load along with the farms, none when omitted: `crops` adds `cropsByHarvest` and `owners` adds `owners`",
+		enum: FarmInclude,
+		enumName: "FarmInclude",
+		isArray: true,
+		example: [FarmInclude.Crops],
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value === "string") {
+			return value.split(",").map((relation) => relation.trim());
+		}
+
+		return value as unknown;
+	})
+	@IsArray({ message: "Include must be an array" })
+	@IsEnum(FarmInclude, { each: true, message: "Invalid farm relation" })
+	include?: Array<FarmInclude>;
 }
@@ -0,0 +1,59 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { PlantedCropResponseDto } from "./planted-crop-response.dto";
+
+/**
+ * Data Transfer Object for the crops of a farm in one harvest, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const response: HarvestCropsResponseDto = {
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   harvestYear: "2024/2025",
+ *   crops: [{ cropType: "soy", plantedArea: 45.5 }]
+ * };
+ * ```
+ */
+@Exclude()
+export class HarvestCropsResponseDto {
+	/**
+	 * UUID of the harvest.
+	 *
+	 * @example "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c"
+	 */
+	@ApiProperty({
+		description: "UUID of the harvest",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	harvestId!: string;
+
+	/**
+	 * Year or season identifier of the harvest.
+	 *
+	 * @example "2024/2025"
+	 */
+	@ApiProperty({
+		description: "Harvest year or season identifier",
+		example: "2024/2025",
+	})
+	@Expose()
+	harvestYear!: string;
+
+	/**
+	 * Crops planted during the harvest, with their planted areas.
+	 *
+	 * @example [{ cropType: "soy", plantedArea: 45.5 }]
+	 */
+	@ApiProperty({
+		description: "Crops planted during the harvest",
+		type: [PlantedCropResponseDto],
+		isArray: true,
+		example: [{ cropType: "soy", plantedArea: 45.5 }],
+	})
+	@Expose()
+	crops!: Array<PlantedCropResponseDto>;
+}
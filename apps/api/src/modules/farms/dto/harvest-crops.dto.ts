@@ -0,0 +1,61 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, ID, InputType } from "@nestjs/graphql";
+import { ApiProperty } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { ArrayUnique, IsArray, IsNotEmpty, IsUUID, ValidateNested } from "class-validator";
+
+import { PlantedCropDto } from "./planted-crop.dto";
+
+/**
+ * Data Transfer Object for the crops planted on a farm during one harvest.
+ *
+ * Used as the element type of `cropsByHarvest` when creating or updating farms.
+ * The harvest must already exist (see the harvests endpoints).
+ *
+ * @example
+ * ```typescript
+ * const dto: HarvestCropsDto = {
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   crops: [{ cropType: "soy", plantedArea: 45.5 }, { cropType: "corn" }]
+ * };
+ * ```
+ */
+@InputType("HarvestCropsInput", { description: "Crops planted on a farm during a harvest" })
+export class HarvestCropsDto {
+	/**
+	 * UUID of the harvest the crops were planted in.
+	 *
+	 * @example "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c"
+	 */
+	@Field(() => ID)
+	@ApiProperty({
+		description: "UUID of an existing harvest",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@IsNotEmpty({ message: "Harvest ID is required" })
+	@IsUUID("4", { message: "Harvest ID must be a valid UUID" })
+	harvestId!: string;
+
+	/**
+	 * Crops planted during the harvest, with their planted areas.
+	 *
+	 * An empty array removes all crops recorded for the harvest.
+	 *
+	 * @example [{ cropType: "soy", plantedArea: 45.5 }, { cropType: "corn" }]
+	 */
+	@Field(() => [PlantedCropDto])
+	@ApiProperty({
+		description: "Crops planted during the harvest",
+		type: [PlantedCropDto],
+		isArray: true,
+		example: [{ cropType: "soy", plantedArea: 45.5 }, { cropType: "corn" }],
+	})
+	@IsArray({ message: "Crops must be an array" })
+	@ArrayUnique((crop: PlantedCropDto) => `${crop.cropType}:${crop.plotId ?? ""}`, {
+		message: "Each crop can only be listed once per plot in a harvest",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => PlantedCropDto)
+	crops!: Array<PlantedCropDto>;
+}
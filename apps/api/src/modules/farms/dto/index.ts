@@ -1,4 +1,15 @@
 export * from "./create-farm.dto";
+export * from "./deleted-farm-response.dto";
+export * from "./export-farms.dto";
+export * from "./farm-compliance-response.dto";
+export * from "./farm-owner-response.dto";
+export * from "./farm-owner.dto";
+export * from "./farm-ownership-history-response.dto";
 export * from "./farm-response.dto";
 export * from "./find-all-farms.dto";
+export * from "./harvest-crops-response.dto";
+export * from "./harvest-crops.dto";
+export * from "./planted-crop-response.dto";
+export * from "./planted-crop.dto";
+export * from "./transfer-farm.dto";
 export * from "./update-farm.dto";
@@ -0,0 +1,55 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+/**
+ * Data Transfer Object for a crop planted during a harvest, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const response: PlantedCropResponseDto = { cropType: "soy", plantedArea: 45.5, plotId: null };
+ * ```
+ */
+@Exclude()
+export class PlantedCropResponseDto {
+	/**
+	 * Type of crop planted.
+	 *
+	 * @example "soy"
+	 */
+	@ApiProperty({
+		description: "Crop type planted",
+		example: "soy",
+	})
+	@Expose()
+	cropType!: string;
+
+	/**
+	 * Area planted with the crop in hectares, `null` when unknown.
+	 *
+	 * @example 45.5
+	 */
+	@ApiProperty({
+		description: "Planted area in hectares (null when unknown)",
+		example: faker.number.float({ min: 10, max: 100, fractionDigits: 2 }),
+		nullable: true,
+		type: Number,
+	})
+	@Expose()
+	plantedArea!: number | null;
+
+	/**
+	 * UUID of the plot the crop is planted on, `null` when planted on the farm as a whole.
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@ApiProperty({
+		description: "UUID of the plot the crop is planted on (null when not assigned to a plot)",
+		example: faker.string.uuid(),
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	plotId!: string | null;
+}
@@ -0,0 +1,72 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, Float, ID, InputType } from "@nestjs/graphql";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsNotEmpty, IsNumber, IsOptional, IsString, IsUUID, Min } from "class-validator";
+
+import { IsCropCode } from "@/common/decorators/crop-code.decorator";
+
+/**
+ * Data Transfer Object for a crop planted on a farm during one harvest.
+ *
+ * The sum of planted areas within a harvest cannot exceed the farm's arable
+ * area, nor the area of the plot the crops are assigned to (validated at
+ * service layer).
+ *
+ * @example
+ * ```typescript
+ * const dto: PlantedCropDto = { cropType: "soy", plantedArea: 45.5, plotId: "5a6b7c8d-..." };
+ * ```
+ */
+@InputType("PlantedCropInput", { description: "Crop planted during a harvest" })
+export class PlantedCropDto {
+	/**
+	 * Code of the crop planted, from the crop catalog.
+	 *
+	 * @example "soy"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: "Code of the crop planted (see GET /api/crops)",
+		example: "soy",
+	})
+	@IsNotEmpty({ message: "Crop type is required" })
+	@IsString({ message: "Crop type must be a string" })
+	@IsCropCode()
+	cropType!: string;
+
+	/**
+	 * Area planted with the crop in hectares.
+	 *
+	 * Optional field. Omit when the planted area is unknown.
+	 *
+	 * @example 45.5
+	 */
+	@Field(() => Float, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Planted area in hectares",
+		example: faker.number.float({ min: 10, max: 100, fractionDigits: 2 }),
+		minimum: 0.01,
+	})
+	@IsOptional()
+	@IsNumber({}, { message: "Planted area must be a number" })
+	@Min(0.01, { message: "Planted area must be greater than zero" })
+	plantedArea?: number;
+
+	/**
+	 * UUID of the plot the crop is planted on.
+	 *
+	 * Optional field. Must reference a plot of the same farm; omit when the
+	 * crop is planted on the farm as a whole.
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@Field(() => ID, { nullable: true })
+	@ApiPropertyOptional({
+		description: "UUID of the plot the crop is planted on (see GET /api/farms/:id/plots)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@IsOptional()
+	@IsUUID("4", { message: "Plot ID must be a valid UUID" })
+	plotId?: string;
+}
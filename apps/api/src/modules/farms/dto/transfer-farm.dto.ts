@@ -0,0 +1,62 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { IsDateString, IsNotEmpty, IsString, IsUUID, MaxLength } from "class-validator";
+
+/**
+ * Data Transfer Object for transferring a farm to another producer.
+ *
+ * The previous owner and the transfer are recorded in the farm's ownership history.
+ *
+ * @example
+ * ```typescript
+ * const dto: TransferFarmDto = {
+ *   newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+ *   effectiveDate: "2025-07-01",
+ *   reason: "Sale of the property"
+ * };
+ * ```
+ */
+export class TransferFarmDto {
+	/**
+	 * UUID of the producer the farm is transferred to.
+	 *
+	 * @example "660e9500-f30c-52e5-b827-557766551111"
+	 */
+	@ApiProperty({
+		description: "UUID of the producer the farm is transferred to",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@IsNotEmpty({ message: "New producer ID is required" })
+	@IsUUID("4", { message: "New producer ID must be a valid UUID" })
+	newProducerId!: string;
+
+	/**
+	 * Date the transfer takes effect (YYYY-MM-DD).
+	 *
+	 * @example "2025-07-01"
+	 */
+	@ApiProperty({
+		description: "Date the transfer takes effect",
+		example: "2025-07-01",
+		format: "date",
+	})
+	@IsNotEmpty({ message: "Effective date is required" })
+	@IsDateString({ strict: true }, { message: "Effective date must be a valid date (YYYY-MM-DD)" })
+	effectiveDate!: string;
+
+	/**
+	 * Reason of the transfer.
+	 *
+	 * @example "Sale of the property"
+	 */
+	@ApiProperty({
+		description: "Reason of the transfer (e.g., sale, inheritance)",
+		example: "Sale of the property",
+		maxLength: 500,
+	})
+	@IsNotEmpty({ message: "Reason is required" })
+	@IsString({ message: "Reason must be a string" })
+	@MaxLength(500, { message: "Reason must be at most 500 characters" })
+	reason!: string;
+}
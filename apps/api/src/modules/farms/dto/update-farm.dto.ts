@@ -1,23 +1,41 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, Float, InputType } from "@nestjs/graphql";
 import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
 import {
+	ArrayNotEmpty,
+	ArrayUnique,
 	IsArray,
 	IsEnum,
+	IsNotEmpty,
 	IsNumber,
+	IsObject,
 	IsOptional,
 	IsString,
-	IsUUID,
 	Length,
+	Max,
 	Min,
+	ValidateIf,
+	ValidateNested,
 } from "class-validator";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { IsFarmBoundary } from "@/common/decorators/farm-boundary.decorator";
+
+import { FarmOwnerDto } from "./farm-owner.dto";
+import { HarvestCropsDto } from "./harvest-crops.dto";
 
 /**
  * Data Transfer Object for updating an existing farm.
  *
  * All fields are optional to allow partial updates. Only the provided fields
- * will be updated in the database.
+ * will be updated in the database. The owner is changed through a transfer
+ * instead, so the previous owner is kept in the ownership history.
+ *
+ * Also the input of the `updateFarm` GraphQL mutation.
  *
  * @example
  * ```typescript
@@ -35,12 +53,14 @@ import { BrazilianState, CropType } from "@agro/shared/enums";
  * };
  * ```
  */
+@InputType("UpdateFarmInput", { description: "Changes to a farm, leaving out what is unchanged" })
 export class UpdateFarmDto {
 	/**
 	 * Updated name of the farm.
 	 *
 	 * @example "Fazenda Boa Vista II"
 	 */
+	@Field(() => String, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated name of the farm",
 		example: `Fazenda ${faker.location.city()}`,
@@ -57,6 +77,7 @@ export class UpdateFarmDto {
 	 *
 	 * @example "São Paulo"
 	 */
+	@Field(() => String, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated city where the farm is located",
 		example: faker.location.city(),
@@ -73,6 +94,7 @@ export class UpdateFarmDto {
 	 *
 	 * @example BrazilianState.RJ
 	 */
+	@Field(() => BrazilianState, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated Brazilian state (UF)",
 		example: BrazilianState.RJ,
@@ -88,6 +110,7 @@ export class UpdateFarmDto {
 	 *
 	 * @example 120
 	 */
+	@Field(() => Float, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated total farm area in hectares",
 		example: faker.number.float({ min: 50, max: 500, fractionDigits: 2 }),
@@ -103,6 +126,7 @@ export class UpdateFarmDto {
 	 *
 	 * @example 80
 	 */
+	@Field(() => Float, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated arable area in hectares",
 		example: faker.number.float({ min: 30, max: 300, fractionDigits: 2 }),
@@ -118,6 +142,7 @@ export class UpdateFarmDto {
 	 *
 	 * @example 30
 	 */
+	@Field(() => Float, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated vegetation/preservation area in hectares",
 		example: faker.number.float({ min: 10, max: 150, fractionDigits: 2 }),
@@ -129,36 +154,131 @@ export class UpdateFarmDto {
 	vegetationArea?: number;
 
 	/**
-	 * Updated UUID of the producer who owns this farm.
+	 * Updated latitude of the farm headquarters in decimal degrees (WGS 84).
+	 *
+	 * Must be sent along with longitude; send both as `null` to clear the coordinates.
+	 *
+	 * @example -22.9056
+	 */
+	@Field(() => Float, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Updated latitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.latitude({ min: -33, max: 5, precision: 6 }),
+		minimum: -90,
+		maximum: 90,
+		type: Number,
+		nullable: true,
+	})
+	@ValidateIf((dto: UpdateFarmDto) => dto.latitude != null || dto.longitude != null)
+	@IsNotEmpty({ message: "Latitude and longitude must be provided together" })
+	@IsNumber({}, { message: "Latitude must be a number" })
+	@Min(-90, { message: "Latitude must be between -90 and 90" })
+	@Max(90, { message: "Latitude must be between -90 and 90" })
+	latitude?: number | null;
+
+	/**
+	 * Updated longitude of the farm headquarters in decimal degrees (WGS 84).
+	 *
+	 * Must be sent along with latitude; send both as `null` to clear the coordinates.
+	 *
+	 * @example -47.0608
+	 */
+	@Field(() => Float, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Updated longitude of the farm headquarters in decimal degrees (WGS 84)",
+		example: faker.location.longitude({ min: -73, max: -35, precision: 6 }),
+		minimum: -180,
+		maximum: 180,
+		type: Number,
+		nullable: true,
+	})
+	@ValidateIf((dto: UpdateFarmDto) => dto.latitude != null || dto.longitude != null)
+	@IsNotEmpty({ message: "Latitude and longitude must be provided together" })
+	@IsNumber({}, { message: "Longitude must be a number" })
+	@Min(-180, { message: "Longitude must be between -180 and 180" })
+	@Max(180, { message: "Longitude must be between -180 and 180" })
+	longitude?: number | null;
+
+	/**
+	 * Updated boundary of the farm as a GeoJSON Polygon or MultiPolygon.
+	 *
+	 * Send `null` to clear it. Its geodesic area is compared to the resulting
+	 * total area (validated at service layer).
 	 *
-	 * @example "660e9500-f30c-52e5-b827-557766551111"
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
 	 */
 	@ApiPropertyOptional({
-		description: "Updated UUID of the farm owner (producer)",
-		example: faker.string.uuid(),
-		format: "uuid",
+		description:
+			"Updated boundary of the farm as a GeoJSON Polygon or MultiPolygon (null to clear)",
+		type: Object,
+		nullable: true,
+		example: {
+			type: "Polygon",
+			coordinates: [
+				[
+					[-47.07, -22.91],
+					[-47.06, -22.91],
+					[-47.06, -22.9],
+					[-47.07, -22.9],
+					[-47.07, -22.91],
+				],
+			],
+		},
 	})
 	@IsOptional()
-	@IsUUID("4", { message: "Producer ID must be a valid UUID" })
-	producerId?: string;
+	@IsObject({ message: "Boundary must be a GeoJSON object" })
+	@IsFarmBoundary()
+	boundary?: FarmBoundary | null;
 
 	/**
-	 * Updated array of crops to be planted on this farm.
+	 * Updated crops planted on this farm, grouped per harvest.
 	 *
-	 * Replaces existing crop associations for the current harvest.
-	 * Pass an empty array to remove all crops.
+	 * Replaces the crops of each listed harvest only; harvests not listed keep
+	 * their crops. Pass an empty `crops` array to clear a harvest.
 	 *
-	 * @example [CropType.Soy, CropType.Corn]
+	 * @example [{ harvestId: "9b2f4c1e-...", crops: [{ cropType: "soy", plantedArea: 45.5 }] }]
 	 */
+	@Field(() => [HarvestCropsDto], { nullable: true })
 	@ApiPropertyOptional({
-		description: "Updated array of crops planted on this farm",
-		example: [CropType.Soy, CropType.Corn],
-		enum: CropType,
-		enumName: "CropType",
+		description: "Updated crops planted on this farm, grouped per harvest",
+		type: [HarvestCropsDto],
 		isArray: true,
+		example: [{ harvestId: faker.string.uuid(), crops: [{ cropType: "soy", plantedArea: 45.5 }] }],
 	})
 	@IsOptional()
-	@IsArray({ message: "Crops must be an array" })
-	@IsEnum(CropType, { each: true, message: "Each crop must be a valid crop type" })
-	crops?: Array<CropType>;
+	@IsArray({ message: "Crops by harvest must be an array" })
+	@ArrayUnique((entry: HarvestCropsDto) => entry.harvestId, {
+		message: "Each harvest can only be listed once",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => HarvestCropsDto)
+	cropsByHarvest?: Array<HarvestCropsDto>;
+
+	/**
+	 * Updated owners of this farm with their shares, replacing the current ones.
+	 *
+	 * Optional field. Must include the farm's main owner, each producer may
+	 * appear only once, and the shares must add up to 100%.
+	 *
+	 * @example [{ producerId: "550e8400-...", percentage: 50 }, { producerId: "660e9500-...", percentage: 50 }]
+	 */
+	@Field(() => [FarmOwnerDto], { nullable: true })
+	@ApiPropertyOptional({
+		description: "Updated owners of the farm with their shares, adding up to 100%",
+		type: [FarmOwnerDto],
+		isArray: true,
+		example: [
+			{ producerId: faker.string.uuid(), percentage: 50 },
+			{ producerId: faker.string.uuid(), percentage: 50 },
+		],
+	})
+	@IsOptional()
+	@IsArray({ message: "Owners must be an array" })
+	@ArrayNotEmpty({ message: "A farm must have at least one owner" })
+	@ArrayUnique((owner: FarmOwnerDto) => owner.producerId, {
+		message: "Each producer can only be listed once as owner",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => FarmOwnerDto)
+	owners?: Array<FarmOwnerDto>;
 }
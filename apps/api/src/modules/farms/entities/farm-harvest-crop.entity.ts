@@ -1,3 +1,4 @@
+import { Field, Float, ID, ObjectType } from "@nestjs/graphql";
 import {
 	Column,
 	CreateDateColumn,
@@ -8,7 +9,9 @@ import {
 	UpdateDateColumn,
 } from "typeorm";
 
-import { CropType } from "@agro/shared/enums";
+import type { Relation } from "typeorm";
+
+import { FarmPlot } from "../../plots/entities/farm-plot.entity";
 
 import { FarmHarvest } from "./farm-harvest.entity";
 
@@ -19,18 +22,24 @@ import { FarmHarvest } from "./farm-harvest.entity";
  * season. It connects FarmHarvest with specific crop types.
  *
  * Relationship Chain:
- * - Farm → FarmHarvest → FarmHarvestCrop (contains CropType)
+ * - Farm → FarmHarvest → FarmHarvestCrop (contains the crop code)
+ * - FarmPlot → FarmHarvestCrop (optional plot the crop is planted on)
  *
  * Business Rules:
  * - A farm can have multiple crops in the same harvest
- * - Each crop type can only appear once per farm-harvest combination
+ * - Each crop type can only appear once per plot in a farm-harvest combination
+ * - The sum of planted areas in a harvest cannot exceed the farm's arable area
+ * - The sum of planted areas on a plot cannot exceed the plot area
  *
  * @see {@link FarmHarvest} for farm-harvest relationship
- * @see {@link CropType} for available crop types
+ * @see {@link FarmPlot} for the plots of a farm
+ * @see {@link Crop} for the crop catalog
  */
+@ObjectType({ description: "Crop planted on a farm during a harvest" })
 @Entity("farm_harvest_crops")
 export class FarmHarvestCrop {
 	/** Unique identifier (UUID v4) */
+	@Field(() => ID)
 	@PrimaryGeneratedColumn("uuid")
 	id!: string;
 
@@ -38,14 +47,30 @@ export class FarmHarvestCrop {
 	@Column({ type: "uuid", name: "farm_harvest_id" })
 	farmHarvestId!: string;
 
-	/** Type of crop planted (soy, corn, cotton, coffee, sugarcane) */
-	@Column({ type: "varchar", length: 50, enum: CropType, name: "crop_type" })
-	cropType!: CropType;
+	/** Code of the crop planted, from the crop catalog (e.g., soy, corn, eucalyptus) */
+	@Field(() => String)
+	@Column({ type: "varchar", length: 50, name: "crop_type" })
+	cropType!: string;
+
+	/** Area planted with this crop in hectares (`null` when unknown) */
+	@Field(() => Float, { nullable: true })
+	@Column({ type: "decimal", precision: 10, scale: 2, name: "planted_area", nullable: true })
+	plantedArea!: number | null;
+
+	/** ID of the plot the crop is planted on (`null` when planted on the farm as a whole) */
+	@Field(() => ID, { nullable: true })
+	@Column({ type: "uuid", name: "plot_id", nullable: true })
+	plotId!: string | null;
 
 	/** Farm-harvest association this crop belongs to */
 	@ManyToOne(() => FarmHarvest, (farmHarvest) => farmHarvest.crops)
 	@JoinColumn({ name: "farm_harvest_id" })
-	farmHarvest!: FarmHarvest;
+	farmHarvest!: Relation<FarmHarvest>;
+
+	/** Plot the crop is planted on */
+	@ManyToOne(() => FarmPlot, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "plot_id" })
+	plot!: Relation<FarmPlot> | null;
 
 	/** Timestamp of record creation */
 	@CreateDateColumn({ name: "created_at" })
@@ -9,9 +9,12 @@ import {
 	UpdateDateColumn,
 } from "typeorm";
 
+import type { Relation } from "typeorm";
+
+import { Harvest } from "../../harvests/entities/harvest.entity";
+
 import { FarmHarvestCrop } from "./farm-harvest-crop.entity";
 import { Farm } from "./farm.entity";
-import { Harvest } from "./harvest.entity";
 
 /**
  * FarmHarvest join entity representing a farm's participation in a harvest
@@ -52,14 +55,14 @@ export class FarmHarvest {
 	 */
 	@ManyToOne(() => Farm, (farm) => farm.farmHarvests)
 	@JoinColumn({ name: "farm_id" })
-	farm!: Farm;
+	farm!: Relation<Farm>;
 
 	/**
 	 * Harvest season this farm is participating in
 	 */
 	@ManyToOne(() => Harvest, (harvest) => harvest.farmHarvests)
 	@JoinColumn({ name: "harvest_id" })
-	harvest!: Harvest;
+	harvest!: Relation<Harvest>;
 
 	/**
 	 * Crops planted in this farm during this harvest
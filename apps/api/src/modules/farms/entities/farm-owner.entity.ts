@@ -0,0 +1,70 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	JoinColumn,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	UpdateDateColumn,
+} from "typeorm";
+
+import type { Relation } from "typeorm";
+
+import { Producer } from "../../producers/entities/producer.entity";
+
+import { Farm } from "./farm.entity";
+
+/**
+ * FarmOwner join entity representing a producer's share in a farm
+ *
+ * Farms held by several family members (condomínio rural) have one record per
+ * co-owner, with the percentage of the farm each one holds. Farms with a
+ * single owner have one record with a 100% share.
+ *
+ * Relationship Chain:
+ * - Farm (1) ←→ (N) FarmOwner (N) ←→ (1) Producer
+ *
+ * Business Rules:
+ * - Shares of a farm must add up to 100%
+ * - A producer holds at most one share per farm
+ * - The farm's main owner (`Farm.producerId`) always holds a share
+ *
+ * @see {@link Farm} for farm details
+ * @see {@link Producer} for co-owner details
+ */
+@Entity("farm_owners")
+export class FarmOwner {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/** ID of the co-owned farm */
+	@Column({ type: "uuid", name: "farm_id" })
+	farmId!: string;
+
+	/** ID of the co-owner */
+	@Column({ type: "uuid", name: "producer_id" })
+	producerId!: string;
+
+	/** Share of the farm held by the producer, as a percentage (0-100] */
+	@Column({ type: "decimal", precision: 5, scale: 2 })
+	percentage!: number;
+
+	/** Co-owned farm */
+	@ManyToOne(() => Farm, (farm) => farm.owners, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "farm_id" })
+	farm!: Relation<Farm>;
+
+	/** Co-owner */
+	@ManyToOne(() => Producer, (producer) => producer.farmOwnerships, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "producer_id" })
+	producer!: Relation<Producer>;
+
+	/** Timestamp of record creation */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+
+	/** Timestamp of last record update */
+	@UpdateDateColumn({ name: "updated_at" })
+	updatedAt!: Date;
+}
@@ -0,0 +1,78 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	JoinColumn,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+} from "typeorm";
+
+import type { Relation } from "typeorm";
+
+import { Producer } from "../../producers/entities/producer.entity";
+
+import { Farm } from "./farm.entity";
+
+/**
+ * FarmOwnershipHistory entity recording a transfer of a farm between producers
+ *
+ * Each entry is created by a farm transfer and is never updated, so the owners
+ * of a farm over time can be traced back.
+ *
+ * Relationship Chain:
+ * - Farm (1) ←→ (N) FarmOwnershipHistory (N) ←→ (1) Producer (previous and new)
+ *
+ * Business Rules:
+ * - A farm cannot be transferred to its current owner
+ * - Transfers cannot take effect before the previous transfer of the farm
+ * - Entries are deleted together with their farm
+ * - Producer references become `null` when the producer is deleted
+ *
+ * @see {@link Farm} for the transferred farm
+ * @see {@link Producer} for the previous and new owners
+ */
+@Entity("farm_ownership_history")
+export class FarmOwnershipHistory {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/** ID of the transferred farm */
+	@Column({ type: "uuid", name: "farm_id" })
+	farmId!: string;
+
+	/** ID of the producer who owned the farm before the transfer, `null` if since deleted */
+	@Column({ type: "uuid", name: "previous_producer_id", nullable: true })
+	previousProducerId!: string | null;
+
+	/** ID of the producer who owns the farm after the transfer, `null` if since deleted */
+	@Column({ type: "uuid", name: "new_producer_id", nullable: true })
+	newProducerId!: string | null;
+
+	/** Date the transfer takes effect (YYYY-MM-DD) */
+	@Column({ type: "date", name: "effective_date" })
+	effectiveDate!: string;
+
+	/** Reason of the transfer (e.g., sale, inheritance) */
+	@Column({ type: "varchar", length: 500 })
+	reason!: string;
+
+	/** Transferred farm */
+	@ManyToOne(() => Farm, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "farm_id" })
+	farm!: Relation<Farm>;
+
+	/** Producer who owned the farm before the transfer */
+	@ManyToOne(() => Producer, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "previous_producer_id" })
+	previousProducer!: Relation<Producer> | null;
+
+	/** Producer who owns the farm after the transfer */
+	@ManyToOne(() => Producer, { nullable: true, onDelete: "SET NULL" })
+	@JoinColumn({ name: "new_producer_id" })
+	newProducer!: Relation<Producer> | null;
+
+	/** Timestamp of the transfer registration */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+}
@@ -1,23 +1,34 @@
+import { Field, Float, ID, Int, ObjectType } from "@nestjs/graphql";
 import {
 	Column,
 	CreateDateColumn,
+	DeleteDateColumn,
 	Entity,
 	JoinColumn,
 	ManyToOne,
 	OneToMany,
 	PrimaryGeneratedColumn,
 	UpdateDateColumn,
+	VersionColumn,
 } from "typeorm";
 
+import type { Relation } from "typeorm";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
 import { Producer } from "../../producers/entities/producer.entity";
 
 import { FarmHarvest } from "./farm-harvest.entity";
+import { FarmOwner } from "./farm-owner.entity";
 
 /**
  * Farm entity representing agricultural properties in the system
  *
- * Each farm belongs to one producer and contains area information for cultivation
- * and vegetation. The farm can participate in multiple harvests with different crops.
+ * Each farm belongs to one main producer, possibly shared with co-owners, and
+ * contains area information for cultivation and vegetation. The farm can
+ * participate in multiple harvests with different crops.
  *
  * Business Rules:
  * - Total area must be positive
@@ -25,25 +36,34 @@ import { FarmHarvest } from "./farm-harvest.entity";
  * - Vegetation area must be ≥ 0
  * - Arable area + Vegetation area MUST be ≤ Total area
  * - City and state are required for location tracking
+ * - Latitude and longitude are optional, but set together
+ * - Boundary area must match total area within the configured tolerance
+ * - Ownership shares must add up to 100% and include the main producer
  *
  * @see {@link Producer} for producer relationship
+ * @see {@link FarmOwner} for co-ownership shares
  * @see {@link FarmHarvest} for harvest-crop relationships
  */
+@ObjectType({ description: "Farm owned by one or more producers" })
 @Entity("farms")
 export class Farm {
 	/** Unique identifier (UUID v4) */
+	@Field(() => ID)
 	@PrimaryGeneratedColumn("uuid")
 	id!: string;
 
 	/** Farm name or identification */
+	@Field(() => String)
 	@Column({ type: "varchar", length: 255 })
 	name!: string;
 
 	/** City where the farm is located */
+	@Field(() => String)
 	@Column({ type: "varchar", length: 255 })
 	city!: string;
 
 	/** Brazilian state (UF) where the farm is located */
+	@Field(() => BrazilianState)
 	@Column({ type: "varchar", length: 2 })
 	state!: string;
 
@@ -53,6 +73,7 @@ export class Farm {
 	 * Must be greater than 0 and greater than or equal to the sum of
 	 * arableArea + vegetationArea.
 	 */
+	@Field(() => Float)
 	@Column({ type: "decimal", precision: 10, scale: 2, name: "total_area" })
 	totalArea!: number;
 
@@ -62,6 +83,7 @@ export class Farm {
 	 * Area available for crop cultivation. Must be ≥ 0 and when summed with
 	 * vegetationArea, must be ≤ totalArea.
 	 */
+	@Field(() => Float)
 	@Column({ type: "decimal", precision: 10, scale: 2, name: "arable_area" })
 	arableArea!: number;
 
@@ -71,10 +93,30 @@ export class Farm {
 	 * Protected or preserved vegetation area. Must be ≥ 0 and when summed with
 	 * arableArea, must be ≤ totalArea.
 	 */
+	@Field(() => Float)
 	@Column({ type: "decimal", precision: 10, scale: 2, name: "vegetation_area" })
 	vegetationArea!: number;
 
-	/** ID of the producer who owns this farm */
+	/** Latitude of the farm headquarters in decimal degrees (WGS 84), `null` when unknown */
+	@Field(() => Float, { nullable: true })
+	@Column({ type: "decimal", precision: 9, scale: 6, nullable: true })
+	latitude!: number | null;
+
+	/** Longitude of the farm headquarters in decimal degrees (WGS 84), `null` when unknown */
+	@Field(() => Float, { nullable: true })
+	@Column({ type: "decimal", precision: 9, scale: 6, nullable: true })
+	longitude!: number | null;
+
+	/**
+	 * Farm limits as a GeoJSON Polygon or MultiPolygon, `null` when unknown
+	 *
+	 * Stored as serialized JSON text.
+	 */
+	@Column({ type: "simple-json", nullable: true })
+	boundary!: FarmBoundary | null;
+
+	/** ID of the main producer who owns this farm, who always holds a share in {@link owners} */
+	@Field(() => ID)
 	@Column({ type: "uuid", name: "producer_id" })
 	producerId!: string;
 
@@ -86,7 +128,7 @@ export class Farm {
 	 */
 	@ManyToOne(() => Producer, (producer) => producer.farms)
 	@JoinColumn({ name: "producer_id" })
-	producer!: Producer;
+	producer!: Relation<Producer>;
 
 	/**
 	 * Harvests associated with this farm
@@ -97,11 +139,40 @@ export class Farm {
 	@OneToMany(() => FarmHarvest, (farmHarvest) => farmHarvest.farm)
 	farmHarvests!: Array<FarmHarvest>;
 
+	/**
+	 * Owners of this farm with their shares
+	 *
+	 * Includes the main producer, and any co-owners.
+	 */
+	@OneToMany(() => FarmOwner, (farmOwner) => farmOwner.farm)
+	owners!: Array<FarmOwner>;
+
 	/** Timestamp of record creation */
+	@Field(() => Date)
 	@CreateDateColumn({ name: "created_at" })
 	createdAt!: Date;
 
 	/** Timestamp of last record update */
+	@Field(() => Date)
 	@UpdateDateColumn({ name: "updated_at" })
 	updatedAt!: Date;
+
+	/**
+	 * Timestamp of soft deletion, `null` while the farm is active
+	 *
+	 * Set when the farm is moved to the trash. Soft-deleted rows are excluded
+	 * from queries unless `withDeleted` is used.
+	 */
+	@DeleteDateColumn({ name: "deleted_at" })
+	deletedAt!: Date | null;
+
+	/**
+	 * Revision of the farm, incremented on every update
+	 *
+	 * Exposed as the `ETag` of the farm endpoints, so clients can send it back in
+	 * `If-Match` and avoid overwriting changes made by someone else.
+	 */
+	@Field(() => Int)
+	@VersionColumn({ default: 1 })
+	version!: number;
 }
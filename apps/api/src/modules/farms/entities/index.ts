@@ -1,4 +1,5 @@
 export * from "./farm.entity";
 export * from "./farm-harvest-crop.entity";
 export * from "./farm-harvest.entity";
-export * from "./harvest.entity";
+export * from "./farm-owner.entity";
+export * from "./farm-ownership-history.entity";
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Farm module constants
+ *
+ * Contains configuration values specific to farm geolocation, including how
+ * boundary area mismatches are handled and the GeoJSON media type, the query
+ * conditions matching farms by owner and crops, and the headers of farm exports.
+ */
+
+import { CropsMatch, SupportedLocale } from "@agro/shared/enums";
+
+/** How a farm boundary whose area differs from the declared total area is handled */
+export enum BoundaryAreaMismatchMode {
+	/** Accept the farm and log a warning */
+	Warn = "warn",
+
+	/** Reject the farm with a validation error */
+	Reject = "reject",
+}
+
+/** Media type of GeoJSON responses (RFC 7946) */
+export const GEOJSON_MEDIA_TYPE = "application/geo+json";
+
+/**
+ * Query condition matching farms in which the `:producerId` parameter holds a share
+ *
+ * Uses a subquery rather than filtering the joined owners, so the other
+ * co-owners of matching farms are still loaded. Expects the farm alias `farm`.
+ */
+export const OWNED_BY_PRODUCER_CONDITION = `EXISTS (SELECT 1 FROM "farm_owners" "farmOwner" WHERE "farmOwner"."farm_id" = "farm"."id" AND "farmOwner"."producer_id" = :producerId)`;
+
+/** Source of the subqueries matching the crops of the `:...crops` parameter grown by the farm, in any harvest */
+const GROWN_CROPS_SOURCE = `FROM "farm_harvest_crops" "grownCrop" INNER JOIN "farm_harvests" "grownFarmHarvest" ON "grownFarmHarvest"."id" = "grownCrop"."farm_harvest_id" WHERE "grownFarmHarvest"."farm_id" = "farm"."id" AND "grownCrop"."crop_type" IN (:...crops)`;
+
+/**
+ * Query conditions matching farms by the crops of the `:...crops` parameter they grow
+ *
+ * Use subqueries rather than filtering the joined crops, so every crop of
+ * matching farms is still loaded. Matching all crops also expects the number
+ * of distinct crops in the `:cropCount` parameter. Expect the farm alias `farm`.
+ */
+export const CROPS_MATCH_CONDITIONS = {
+	[CropsMatch.Any]: `EXISTS (SELECT 1 ${GROWN_CROPS_SOURCE})`,
+	[CropsMatch.All]: `(SELECT COUNT(DISTINCT "grownCrop"."crop_type") ${GROWN_CROPS_SOURCE}) = :cropCount`,
+	[CropsMatch.None]: `NOT EXISTS (SELECT 1 ${GROWN_CROPS_SOURCE})`,
+} as const satisfies Record<CropsMatch, string>;
+
+/**
+ * Headers of the farm export columns, in the locale set by `API__LOCALE`
+ *
+ * Match the headers recognized by the import, so exported files can be
+ * imported back.
+ */
+export const FARM_EXPORT_HEADERS = {
+	[SupportedLocale.Portuguese]: {
+		name: "Nome",
+		city: "Cidade",
+		state: "UF",
+		totalArea: "Área total (ha)",
+		arableArea: "Área agricultável (ha)",
+		vegetationArea: "Área de vegetação (ha)",
+		latitude: "Latitude",
+		longitude: "Longitude",
+		producerDocument: "Documento do produtor",
+		owners: "Proprietários",
+		crops: "Culturas",
+		createdAt: "Criada em",
+	},
+	[SupportedLocale.English]: {
+		name: "Name",
+		city: "City",
+		state: "State",
+		totalArea: "Total area (ha)",
+		arableArea: "Arable area (ha)",
+		vegetationArea: "Vegetation area (ha)",
+		latitude: "Latitude",
+		longitude: "Longitude",
+		producerDocument: "Producer document",
+		owners: "Owners",
+		crops: "Crops",
+		createdAt: "Created at",
+	},
+} as const satisfies Record<SupportedLocale, Record<string, string>>;
+
+/** Name of the worksheet holding XLSX farm exports, in the locale set by `API__LOCALE` */
+export const FARM_EXPORT_SHEET_NAME = {
+	[SupportedLocale.Portuguese]: "Fazendas",
+	[SupportedLocale.English]: "Farms",
+} as const satisfies Record<SupportedLocale, string>;
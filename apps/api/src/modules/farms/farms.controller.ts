@@ -4,26 +4,55 @@ import {
 	Controller,
 	Delete,
 	Get,
+	Headers,
+	HttpCode,
 	HttpStatus,
 	Param,
 	Patch,
 	Post,
 	Query,
+	Res,
+	UseInterceptors,
 } from "@nestjs/common";
-import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from "@nestjs/swagger";
+import {
+	ApiBearerAuth,
+	ApiHeader,
+	ApiOperation,
+	ApiParam,
+	ApiProduces,
+	ApiResponse,
+	ApiTags,
+} from "@nestjs/swagger";
+
+import type { Response } from "express";
 
 import type {
 	CropDistribution,
+	CursorPaginatedResponse,
+	FarmsFeatureCollection,
 	LandUseStats,
 	PaginatedResponse,
 	StateDistribution,
 } from "@agro/shared/types";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import type { IfMatchVersions, SparseFieldset } from "@/common";
+
+import { BrazilianState, UserRole } from "@agro/shared/enums";
 
-import { ParseUUIDPipe } from "@/common";
+import { ETagInterceptor, EXPORT_MEDIA_TYPES, IfMatch, ParseUUIDPipe, Roles } from "@/common";
 
-import { CreateFarmDto, FarmResponseDto, FindAllFarmsDto, UpdateFarmDto } from "./dto";
+import {
+	CreateFarmDto,
+	DeletedFarmResponseDto,
+	ExportFarmsDto,
+	FarmComplianceResponseDto,
+	FarmOwnershipHistoryResponseDto,
+	FarmResponseDto,
+	FindAllFarmsDto,
+	TransferFarmDto,
+	UpdateFarmDto,
+} from "./dto";
+import { GEOJSON_MEDIA_TYPE } from "./farms.constants";
 import { FarmsService } from "./farms.service";
 
 /**
@@ -87,25 +116,93 @@ export class FarmsController {
 	 * Supports filtering by state, city, producer, and name search with
 	 * configurable sorting and pagination. All query parameters are optional.
 	 *
-	 * @param query Query parameters for pagination, sorting, filtering, and search
+	 * Clients sending `Accept: application/geo+json` receive the same page of
+	 * farms as a GeoJSON FeatureCollection instead. Otherwise, sending a
+	 * `cursor` switches to cursor pagination. Crops and owners are only
+	 * returned when included, and `fields` limits the other fields returned.
+	 *
+	 * @param query Query parameters for pagination, sorting, filtering, search, fields and includes
+	 * @param accept Media types accepted by the client
+	 * @param response Express response, used to set the GeoJSON content type
 	 *
-	 * @returns Paginated farm response with metadata
+	 * @returns Paginated farm response with metadata, a page of farms with the next cursor, or a FeatureCollection of farms
 	 */
 	@Get()
 	@ApiOperation({
 		summary: "Get all farms with pagination, sorting, filtering, and search",
 		description:
-			"Retrieves a paginated list of farms. Supports filtering by state, city, producer, name search, customizable sorting, and pagination.",
+			"Retrieves a paginated list of farms. Supports filtering by state, city, producer, name search, customizable sorting, and pagination. Send `cursor` (empty for the first page) to page by cursor: the response then has `nextCursor` instead of the page and total. Send `Accept: application/geo+json` to receive a GeoJSON FeatureCollection. Crops and owners are left out unless included with `include=crops,owners`, and `fields` limits the other fields returned besides the ID.",
 	})
+	@ApiProduces("application/json", GEOJSON_MEDIA_TYPE)
 	@ApiResponse({
 		status: HttpStatus.OK,
-		description: "Paginated list of farms",
+		description:
+			"Paginated list of farms with only the requested fields and relations, or a GeoJSON FeatureCollection of farms",
 		type: [FarmResponseDto],
 	})
-	public findAll(@Query() query: FindAllFarmsDto): Promise<PaginatedResponse<FarmResponseDto>> {
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid cursor" })
+	public findAll(
+		@Query() query: FindAllFarmsDto,
+		@Headers("accept") accept: string | undefined,
+		@Res({ passthrough: true }) response: Response,
+	): Promise<
+		| PaginatedResponse<SparseFieldset<FarmResponseDto>>
+		| CursorPaginatedResponse<SparseFieldset<FarmResponseDto>>
+		| FarmsFeatureCollection
+	> {
+		if (accept?.includes(GEOJSON_MEDIA_TYPE)) {
+			response.type(GEOJSON_MEDIA_TYPE);
+
+			return this.farmsService.findAllAsFeatureCollection(query);
+		}
+
+		if (query.cursor !== undefined) return this.farmsService.findAllByCursor(query);
+
 		return this.farmsService.findAll(query);
 	}
 
+	/**
+	 * Retrieves the farms in the trash.
+	 *
+	 * @returns The deleted farms, most recently deleted first
+	 */
+	@Get("trash")
+	@ApiOperation({ summary: "Get farms in the trash" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Deleted farms, most recently deleted first",
+		type: [DeletedFarmResponseDto],
+	})
+	public findDeleted(): Promise<Array<DeletedFarmResponseDto>> {
+		return this.farmsService.findDeleted();
+	}
+
+	/**
+	 * Exports the farms matching the list filters as a CSV, XLSX or GeoJSON file.
+	 *
+	 * The file is streamed as it is written, with numbers, dates and headers
+	 * formatted for the API locale.
+	 *
+	 * @param query List filters and sorting, plus the file format
+	 * @param response Response the file is streamed to
+	 */
+	@Get("export")
+	@ApiOperation({
+		summary: "Export farms",
+		description:
+			"Downloads every farm matching the list filters, in the requested order, as a CSV, XLSX or GeoJSON file. Pagination is ignored. Numbers, dates and column headers follow the API locale.",
+	})
+	@ApiProduces(...Object.values(EXPORT_MEDIA_TYPES))
+	@ApiResponse({ status: HttpStatus.OK, description: "File with the matching farms" })
+	public async export(@Query() query: ExportFarmsDto, @Res() response: Response): Promise<void> {
+		const date = new Date().toISOString().slice(0, 10);
+
+		response.attachment(`farms-${date}.${query.format}`);
+		response.type(EXPORT_MEDIA_TYPES[query.format]);
+
+		await this.farmsService.export(query, response);
+	}
+
 	/**
 	 * Retrieves a specific farm by ID.
 	 *
@@ -118,6 +215,7 @@ export class FarmsController {
 	 * @throws {NotFoundException} If farm with the given ID does not exist
 	 */
 	@Get(":id")
+	@UseInterceptors(ETagInterceptor)
 	@ApiOperation({ summary: "Get farm by ID" })
 	@ApiResponse({
 		status: HttpStatus.OK,
@@ -129,6 +227,31 @@ export class FarmsController {
 		return this.farmsService.findOne(id);
 	}
 
+	/**
+	 * Evaluates the legal reserve (Reserva Legal) compliance of a farm.
+	 *
+	 * @param id UUID of the farm to evaluate
+	 *
+	 * @returns The required and current vegetation areas, and the deficit in hectares
+	 *
+	 * @throws {NotFoundException} If farm with the given ID does not exist
+	 */
+	@Get(":id/compliance")
+	@ApiOperation({
+		summary: "Get legal reserve compliance of a farm",
+		description:
+			"Compares the farm's vegetation area to the minimum legal reserve of its biome (80% in the Amazon, 35% in Cerrado within the Legal Amazon, 20% elsewhere)",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Compliance evaluated",
+		type: FarmComplianceResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	public getCompliance(@Param("id", ParseUUIDPipe) id: string): Promise<FarmComplianceResponseDto> {
+		return this.farmsService.getCompliance(id);
+	}
+
 	/**
 	 * Retrieves farms by producer ID.
 	 *
@@ -151,6 +274,29 @@ export class FarmsController {
 		return this.farmsService.findByProducer(producerId);
 	}
 
+	/**
+	 * Retrieves the farms a producer previously owned.
+	 *
+	 * @param producerId UUID of the producer
+	 *
+	 * @returns The transfers in which the producer was the previous owner, most recent first
+	 *
+	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 */
+	@Get("producer/:producerId/previously-owned")
+	@ApiOperation({ summary: "Get farms previously owned by producer" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Transfers out of the producer, most recent first",
+		type: [FarmOwnershipHistoryResponseDto],
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
+	public findPreviouslyOwnedByProducer(
+		@Param("producerId", ParseUUIDPipe) producerId: string,
+	): Promise<Array<FarmOwnershipHistoryResponseDto>> {
+		return this.farmsService.findPreviouslyOwnedByProducer(producerId);
+	}
+
 	/**
 	 * Retrieves farms by Brazilian state.
 	 *
@@ -186,14 +332,22 @@ export class FarmsController {
 	 *
 	 * @param id UUID of the farm to update
 	 * @param updateFarmDto Fields to update
+	 * @param ifMatch Versions from the `If-Match` header, if any
 	 *
 	 * @returns The updated farm
 	 *
-	 * @throws {NotFoundException} If farm or new producer does not exist
+	 * @throws {NotFoundException} If farm does not exist
 	 * @throws {BadRequestException} If updated area constraints are violated
+	 * @throws {PreconditionFailedException} If the farm changed since the ETag in If-Match
 	 */
 	@Patch(":id")
+	@UseInterceptors(ETagInterceptor)
 	@ApiOperation({ summary: "Update farm" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the farm as last read, to reject the request if it changed since",
+	})
 	@ApiResponse({
 		status: HttpStatus.OK,
 		description: "Farm updated successfully",
@@ -203,31 +357,187 @@ export class FarmsController {
 		status: HttpStatus.BAD_REQUEST,
 		description: "Invalid input data or area constraints violated",
 	})
-	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm or producer not found" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Farm was modified since the ETag in If-Match",
+	})
 	public update(
 		@Param("id", ParseUUIDPipe) id: string,
 		@Body() updateFarmDto: UpdateFarmDto,
+		@IfMatch() ifMatch?: IfMatchVersions,
+	): Promise<FarmResponseDto> {
+		return this.farmsService.update(id, updateFarmDto, ifMatch);
+	}
+
+	/**
+	 * Transfers a farm to another producer.
+	 *
+	 * Records the previous owner, effective date and reason in the farm's
+	 * ownership history.
+	 *
+	 * @param id UUID of the farm to transfer
+	 * @param transferFarmDto New owner, effective date and reason of the transfer
+	 * @param ifMatch Versions from the `If-Match` header, if any
+	 *
+	 * @returns The farm with its new owner
+	 *
+	 * @throws {NotFoundException} If farm or new producer does not exist
+	 * @throws {BadRequestException} If the new producer already owns the farm or the
+	 * effective date precedes the previous transfer
+	 * @throws {PreconditionFailedException} If the farm changed since the ETag in If-Match
+	 */
+	@Post(":id/transfer")
+	@HttpCode(HttpStatus.OK)
+	@UseInterceptors(ETagInterceptor)
+	@ApiOperation({ summary: "Transfer farm to another producer" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the farm as last read, to reject the request if it changed since",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Farm transferred successfully",
+		type: FarmResponseDto,
+	})
+	@ApiResponse({
+		status: HttpStatus.BAD_REQUEST,
+		description:
+			"Invalid input data, farm already owned by the producer, or effective date out of order",
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm or producer not found" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Farm was modified since the ETag in If-Match",
+	})
+	public transfer(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Body() transferFarmDto: TransferFarmDto,
+		@IfMatch() ifMatch?: IfMatchVersions,
 	): Promise<FarmResponseDto> {
-		return this.farmsService.update(id, updateFarmDto);
+		return this.farmsService.transfer(id, transferFarmDto, ifMatch);
+	}
+
+	/**
+	 * Retrieves the ownership history of a farm.
+	 *
+	 * @param id UUID of the farm
+	 *
+	 * @returns The transfers of the farm, most recent first
+	 *
+	 * @throws {NotFoundException} If farm with the given ID does not exist
+	 */
+	@Get(":id/ownership-history")
+	@ApiOperation({ summary: "Get farm ownership history" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Transfers of the farm, most recent first",
+		type: [FarmOwnershipHistoryResponseDto],
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	public findOwnershipHistory(
+		@Param("id", ParseUUIDPipe) id: string,
+	): Promise<Array<FarmOwnershipHistoryResponseDto>> {
+		return this.farmsService.findOwnershipHistory(id);
 	}
 
 	/**
-	 * Deletes a farm.
+	 * Moves a farm to the trash.
 	 *
-	 * Also deletes all associated farm-harvest records due to CASCADE constraint.
+	 * The farm is kept, with its harvests, plots and shares, until it is restored or purged.
 	 *
 	 * @param id UUID of the farm to delete
+	 * @param ifMatch Versions from the `If-Match` header, if any
 	 *
 	 * @returns Void on successful deletion
 	 *
 	 * @throws {NotFoundException} If farm with the given ID does not exist
+	 * @throws {PreconditionFailedException} If the farm changed since the ETag in If-Match
 	 */
 	@Delete(":id")
-	@ApiOperation({ summary: "Delete farm" })
-	@ApiResponse({ status: HttpStatus.OK, description: "Farm deleted successfully" })
+	@ApiOperation({ summary: "Move farm to the trash" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the farm as last read, to reject the request if it changed since",
+	})
+	@ApiResponse({ status: HttpStatus.OK, description: "Farm moved to the trash successfully" })
 	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
-	public remove(@Param("id", ParseUUIDPipe) id: string): Promise<void> {
-		return this.farmsService.delete(id);
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Farm was modified since the ETag in If-Match",
+	})
+	public remove(
+		@Param("id", ParseUUIDPipe) id: string,
+		@IfMatch() ifMatch?: IfMatchVersions,
+	): Promise<void> {
+		return this.farmsService.delete(id, ifMatch);
+	}
+
+	/**
+	 * Restores a farm from the trash.
+	 *
+	 * @param id UUID of the farm to restore
+	 *
+	 * @returns The restored farm
+	 *
+	 * @throws {NotFoundException} If farm with the given ID does not exist
+	 * @throws {BadRequestException} If the farm is not in the trash, or its producer is
+	 */
+	@Post(":id/restore")
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: "Restore farm from the trash" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Farm restored successfully",
+		type: FarmResponseDto,
+	})
+	@ApiResponse({
+		status: HttpStatus.BAD_REQUEST,
+		description: "Farm is not in the trash, or its producer is",
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	public restore(@Param("id", ParseUUIDPipe) id: string): Promise<FarmResponseDto> {
+		return this.farmsService.restore(id);
+	}
+
+	/**
+	 * Permanently deletes a farm from the trash.
+	 *
+	 * Restricted to admins. Also deletes all associated records due to CASCADE constraints.
+	 *
+	 * @param id UUID of the farm to purge
+	 * @param ifMatch Versions from the `If-Match` header, if any
+	 *
+	 * @returns Void on successful purge
+	 *
+	 * @throws {NotFoundException} If farm with the given ID does not exist
+	 * @throws {BadRequestException} If the farm is not in the trash
+	 * @throws {ForbiddenException} If the user is not an admin
+	 * @throws {PreconditionFailedException} If the farm changed since the ETag in If-Match
+	 */
+	@Delete(":id/purge")
+	@Roles(UserRole.Admin)
+	@ApiOperation({ summary: "Permanently delete farm from the trash (admin only)" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the farm as last read, to reject the request if it changed since",
+	})
+	@ApiResponse({ status: HttpStatus.OK, description: "Farm purged successfully" })
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Farm is not in the trash" })
+	@ApiResponse({ status: HttpStatus.FORBIDDEN, description: "User is not an admin" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Farm was modified since the ETag in If-Match",
+	})
+	public purge(
+		@Param("id", ParseUUIDPipe) id: string,
+		@IfMatch() ifMatch?: IfMatchVersions,
+	): Promise<void> {
+		return this.farmsService.purge(id, ifMatch);
 	}
 
 	/**
@@ -324,22 +634,23 @@ export class FarmsController {
 	/**
 	 * Gets crop distribution statistics.
 	 *
-	 * Dashboard endpoint that returns the count of farms growing each crop type.
-	 * Used for the crops distribution pie chart on the dashboard.
+	 * Dashboard endpoint that returns the count of farms growing each crop type
+	 * and the hectares planted with it. Used for the crops distribution pie chart
+	 * on the dashboard.
 	 *
-	 * @returns Array of objects with crop type and farm count
+	 * @returns Array of objects with crop type, farm count and planted area
 	 */
 	@Get("stats/crops-distribution")
 	@ApiOperation({ summary: "Get crop distribution across farms" })
 	@ApiResponse({
 		status: HttpStatus.OK,
-		description: "Number of farms growing each crop type",
+		description: "Number of farms and planted hectares for each crop type",
 		schema: {
 			type: "array",
 			example: [
-				{ cropType: CropType.Soy, count: 15 },
-				{ cropType: CropType.Corn, count: 12 },
-				{ cropType: CropType.Coffee, count: 8 },
+				{ cropType: "soy", count: 15, plantedArea: 820.5 },
+				{ cropType: "corn", count: 12, plantedArea: 410 },
+				{ cropType: "coffee", count: 8, plantedArea: 95.25 },
 			] satisfies Array<CropDistribution>,
 		},
 	})
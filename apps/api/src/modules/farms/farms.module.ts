@@ -2,12 +2,16 @@ import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 
 import { IsCityInStateConstraint } from "@/common/decorators/city-in-state.decorator";
+import { IsCropCodeConstraint } from "@/common/decorators/crop-code.decorator";
 import { City } from "@/modules/cities/entities/city.entity";
+import { Crop } from "@/modules/crops/entities";
+import { Harvest } from "@/modules/harvests/entities";
+import { FarmPlot } from "@/modules/plots/entities";
 import { Producer } from "@/modules/producers/entities/";
 
 import { CitiesModule } from "../cities/cities.module";
 
-import { Farm, FarmHarvest, FarmHarvestCrop, Harvest } from "./entities/";
+import { Farm, FarmHarvest, FarmHarvestCrop, FarmOwner, FarmOwnershipHistory } from "./entities/";
 import { FarmsController } from "./farms.controller";
 import { FarmsService } from "./farms.service";
 
@@ -18,7 +22,10 @@ import { FarmsService } from "./farms.service";
  * all farm business logic and can be imported by other modules that need
  * farm functionality.
  *
- * Note: Imports Producer entity to enable producer validation in FarmsService.
+ * Note: Imports Producer entity to enable producer validation in FarmsService,
+ * Crop entity to validate planted crops against the crop catalog, FarmPlot
+ * entity to validate crops assigned to plots, FarmOwner entity to record the
+ * shares of co-owners, and FarmOwnershipHistory entity to record farm transfers.
  *
  * @example
  * ```typescript
@@ -31,11 +38,22 @@ import { FarmsService } from "./farms.service";
  */
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([Farm, Producer, City, Harvest, FarmHarvest, FarmHarvestCrop]),
+		TypeOrmModule.forFeature([
+			Farm,
+			Producer,
+			City,
+			Crop,
+			Harvest,
+			FarmHarvest,
+			FarmHarvestCrop,
+			FarmOwner,
+			FarmOwnershipHistory,
+			FarmPlot,
+		]),
 		CitiesModule,
 	],
 	controllers: [FarmsController],
-	providers: [FarmsService, IsCityInStateConstraint],
+	providers: [FarmsService, IsCityInStateConstraint, IsCropCodeConstraint],
 	exports: [FarmsService],
 })
 export class FarmsModule {}
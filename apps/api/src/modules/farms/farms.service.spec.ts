@@ -5,21 +5,48 @@
  * using mocked dependencies and fixture data.
  */
 
-import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { PassThrough } from "node:stream";
+import { buffer, text } from "node:stream/consumers";
+
+import {
+	BadRequestException,
+	NotFoundException,
+	PreconditionFailedException,
+} from "@nestjs/common";
 import { Test, TestingModule } from "@nestjs/testing";
 import { getRepositoryToken } from "@nestjs/typeorm";
-import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+import { Workbook } from "exceljs";
 import { fixtures, TestConstants } from "test/fixtures";
-import { Repository } from "typeorm";
-
-import type { SetRequired } from "type-fest";
-
-import { BrazilianState, CropType } from "@agro/shared/enums";
-
+import { In, Repository } from "typeorm";
+
+import type { FarmBoundary, FarmsFeatureCollection } from "@agro/shared/types";
+
+import {
+	Biome,
+	BrazilianState,
+	CropsMatch,
+	ExportFormat,
+	FarmField,
+	FarmInclude,
+	FarmSortField,
+	SortOrder,
+	SupportedLocale,
+} from "@agro/shared/enums";
+
+import { EXPORT_BATCH_SIZE, FARM_SEARCH_CONDITION } from "@/common";
+import { env } from "@/config/env.config";
+import { Harvest } from "@/modules/harvests/entities";
+import { FarmPlot } from "@/modules/plots/entities";
 import { Producer } from "@/modules/producers/entities/";
 
 import { CreateFarmDto, UpdateFarmDto } from "./dto";
-import { Farm, FarmHarvest, FarmHarvestCrop, Harvest } from "./entities/";
+import { Farm, FarmHarvest, FarmHarvestCrop, FarmOwner, FarmOwnershipHistory } from "./entities/";
+import {
+	BoundaryAreaMismatchMode,
+	CROPS_MATCH_CONDITIONS,
+	OWNED_BY_PRODUCER_CONDITION,
+} from "./farms.constants";
 import { FarmsService } from "./farms.service";
 
 describe("FarmsService", () => {
@@ -35,6 +62,7 @@ describe("FarmsService", () => {
 		where: ReturnType<typeof mock>;
 		andWhere: ReturnType<typeof mock>;
 		orderBy: ReturnType<typeof mock>;
+		addOrderBy: ReturnType<typeof mock>;
 		skip: ReturnType<typeof mock>;
 		take: ReturnType<typeof mock>;
 		select: ReturnType<typeof mock>;
@@ -60,6 +88,7 @@ describe("FarmsService", () => {
 		qb.where = mock(() => qb);
 		qb.andWhere = mock(() => qb);
 		qb.orderBy = mock(() => qb);
+		qb.addOrderBy = mock(() => qb);
 		qb.skip = mock(() => qb);
 		qb.take = mock(() => qb);
 		qb.select = mock(() => qb);
@@ -74,28 +103,55 @@ describe("FarmsService", () => {
 		save: mock(),
 		find: mock(),
 		findOne: mock(),
-		delete: mock(),
+		findOneBy: mock(),
+		exists: mock(),
 		createQueryBuilder: mock(createMockQueryBuilder) as ReturnType<
 			typeof mock<() => Partial<MockQueryBuilder>>
 		>,
+		manager: {
+			transaction: mock(),
+		},
+	};
+
+	const mockEntityManager = {
+		create: mock((_target: unknown, entity: object) => entity),
+		exists: mock(),
+		findOne: mock(),
+		insert: mock(),
+		save: mock(),
+		update: mock(),
+		increment: mock(),
+		delete: mock(),
+		remove: mock(),
 	};
 
 	const mockProducerRepository = {
 		exists: mock(),
+		find: mock(),
 	};
 
 	const mockHarvestRepository = {
-		findOne: mock(),
+		find: mock(),
 	};
 
 	const mockFarmHarvestRepository = {
 		createQueryBuilder: mock(),
+		find: mock(),
 	};
 
 	const mockFarmHarvestCropRepository = {
 		createQueryBuilder: mock(),
 	};
 
+	const mockFarmPlotRepository = {
+		find: mock(),
+	};
+
+	const mockOwnershipHistoryRepository = {
+		find: mock(),
+		findOne: mock(),
+	};
+
 	const mockLogger = {
 		setContext: mock(),
 		info: mock(),
@@ -104,6 +160,20 @@ describe("FarmsService", () => {
 		debug: mock(),
 	};
 
+	/** Square of about 114.15 hectares near Campinas/SP */
+	const mockBoundary: FarmBoundary = {
+		type: "Polygon",
+		coordinates: [
+			[
+				[-47.07, -22.91],
+				[-47.06, -22.91],
+				[-47.06, -22.9],
+				[-47.07, -22.9],
+				[-47.07, -22.91],
+			],
+		],
+	};
+
 	beforeEach(async () => {
 		const module: TestingModule = await Test.createTestingModule({
 			providers: [
@@ -128,6 +198,14 @@ describe("FarmsService", () => {
 					provide: getRepositoryToken(FarmHarvestCrop),
 					useValue: mockFarmHarvestCropRepository,
 				},
+				{
+					provide: getRepositoryToken(FarmPlot),
+					useValue: mockFarmPlotRepository,
+				},
+				{
+					provide: getRepositoryToken(FarmOwnershipHistory),
+					useValue: mockOwnershipHistoryRepository,
+				},
 				{
 					provide: `PinoLogger:${FarmsService.name}`,
 					useValue: mockLogger,
@@ -143,12 +221,32 @@ describe("FarmsService", () => {
 		mockFarmRepository.save.mockReset();
 		mockFarmRepository.find.mockReset();
 		mockFarmRepository.findOne.mockReset();
-		mockFarmRepository.delete.mockReset();
+		mockFarmRepository.findOneBy.mockReset();
+		mockFarmRepository.exists.mockReset();
 		mockFarmRepository.createQueryBuilder.mockReset();
 		mockProducerRepository.exists.mockReset();
-		mockHarvestRepository.findOne.mockReset();
+		mockProducerRepository.find.mockReset();
+		mockHarvestRepository.find.mockReset();
 		mockFarmHarvestRepository.createQueryBuilder.mockReset();
+		mockFarmHarvestRepository.find.mockReset();
 		mockFarmHarvestCropRepository.createQueryBuilder.mockReset();
+		mockFarmPlotRepository.find.mockReset();
+		mockFarmPlotRepository.find.mockResolvedValue([]);
+		mockOwnershipHistoryRepository.find.mockReset();
+		mockOwnershipHistoryRepository.findOne.mockReset();
+		mockEntityManager.exists.mockReset();
+		mockEntityManager.findOne.mockReset();
+		mockEntityManager.insert.mockReset();
+		mockEntityManager.save.mockReset();
+		mockEntityManager.update.mockReset();
+		mockEntityManager.increment.mockReset();
+		mockEntityManager.delete.mockReset();
+		mockEntityManager.remove.mockReset();
+		mockFarmRepository.manager.transaction.mockReset();
+		mockFarmRepository.manager.transaction.mockImplementation(
+			(work: (manager: typeof mockEntityManager) => Promise<unknown>) => work(mockEntityManager),
+		);
+		mockLogger.warn.mockReset();
 	});
 
 	it("should be defined", () => {
@@ -171,18 +269,24 @@ describe("FarmsService", () => {
 				totalArea: createDto.totalArea,
 				arableArea: createDto.arableArea,
 				vegetationArea: createDto.vegetationArea,
+				latitude: null,
+				longitude: null,
+				boundary: null,
 				producerId: createDto.producerId,
 				producer: {} as Producer,
 				farmHarvests: [],
+				owners: [],
 				createdAt: new Date("2025-11-24T10:00:00Z"),
 				updatedAt: new Date("2025-11-24T10:00:00Z"),
+				deletedAt: null,
+				version: 1,
 			};
 		});
 
 		it("should create a farm with valid data", async () => {
 			mockProducerRepository.exists.mockResolvedValue(true);
 			mockFarmRepository.create.mockReturnValue(mockFarm);
-			mockFarmRepository.save.mockResolvedValue(mockFarm);
+			mockEntityManager.save.mockResolvedValue(mockFarm);
 
 			const result = await service.create(createDto);
 
@@ -194,15 +298,112 @@ describe("FarmsService", () => {
 				totalArea: mockFarm.totalArea,
 				arableArea: mockFarm.arableArea,
 				vegetationArea: mockFarm.vegetationArea,
+				latitude: null,
+				longitude: null,
+				boundary: null,
+				boundaryArea: null,
 				producerId: mockFarm.producerId,
-				crops: [],
+				owners: [],
+				cropsByHarvest: [],
 				createdAt: mockFarm.createdAt,
 				updatedAt: mockFarm.updatedAt,
+				version: 1,
 			});
 			expect(mockProducerRepository.exists).toHaveBeenCalledWith({
 				where: { id: createDto.producerId },
 			});
-			expect(mockFarmRepository.save).toHaveBeenCalledWith(mockFarm);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Farm, mockFarm);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(FarmOwner, [
+				{ farmId: mockFarm.id, producerId: createDto.producerId, percentage: 100 },
+			]);
+		});
+
+		it("should record the shares of co-owners", async () => {
+			const coOwnerId = "660e9500-f30c-52e5-b827-557766551111";
+			const owners = [
+				{ producerId: createDto.producerId, percentage: 60 },
+				{ producerId: coOwnerId, percentage: 40 },
+			];
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockProducerRepository.find.mockResolvedValue([{ id: coOwnerId }]);
+			mockFarmRepository.create.mockReturnValue(mockFarm);
+			mockEntityManager.save.mockResolvedValue(mockFarm);
+
+			await service.create({ ...createDto, owners });
+
+			expect(mockEntityManager.delete).toHaveBeenCalledWith(FarmOwner, { farmId: mockFarm.id });
+			expect(mockEntityManager.save).toHaveBeenCalledWith(
+				FarmOwner,
+				owners.map((owner) => ({ farmId: mockFarm.id, ...owner })),
+			);
+		});
+
+		it("should record the farm, its owners and its crops in one transaction", async () => {
+			const harvestId = "9b2f4c1e-6d3a-4f5b-8c7d-1e2f3a4b5c6d";
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockHarvestRepository.find.mockResolvedValue([{ id: harvestId }]);
+			mockFarmRepository.create.mockReturnValue(mockFarm);
+			mockEntityManager.save.mockResolvedValue(mockFarm);
+			mockEntityManager.findOne.mockResolvedValue(null);
+
+			await service.create({
+				...createDto,
+				arableArea: 50,
+				vegetationArea: 30,
+				totalArea: 100,
+				cropsByHarvest: [{ harvestId, crops: [{ cropType: "soy", plantedArea: 20 }] }],
+			});
+
+			expect(mockFarmRepository.manager.transaction).toHaveBeenCalledTimes(1);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Farm, mockFarm);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(FarmOwner, [
+				{ farmId: mockFarm.id, producerId: createDto.producerId, percentage: 100 },
+			]);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(FarmHarvestCrop, [
+				expect.objectContaining({ cropType: "soy", plantedArea: 20, plotId: null }),
+			]);
+		});
+
+		it("should throw BadRequestException when owners do not include the producer", async () => {
+			mockProducerRepository.exists.mockResolvedValue(true);
+
+			expect(
+				service.create({
+					...createDto,
+					owners: [{ producerId: "660e9500-f30c-52e5-b827-557766551111", percentage: 100 }],
+				}),
+			).rejects.toThrow(`Owners must include the main producer with ID ${createDto.producerId}`);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when ownership shares do not add up to 100%", async () => {
+			mockProducerRepository.exists.mockResolvedValue(true);
+
+			expect(
+				service.create({
+					...createDto,
+					owners: [
+						{ producerId: createDto.producerId, percentage: 50 },
+						{ producerId: "660e9500-f30c-52e5-b827-557766551111", percentage: 30 },
+					],
+				}),
+			).rejects.toThrow("Sum of ownership percentages (80.00%) must be 100%");
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException when a co-owner does not exist", async () => {
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockProducerRepository.find.mockResolvedValue([]);
+
+			expect(
+				service.create({
+					...createDto,
+					owners: [
+						{ producerId: createDto.producerId, percentage: 50 },
+						{ producerId: "660e9500-f30c-52e5-b827-557766551111", percentage: 50 },
+					],
+				}),
+			).rejects.toThrow("Producer with ID 660e9500-f30c-52e5-b827-557766551111 not found");
 		});
 
 		it("should throw NotFoundException when producer does not exist", async () => {
@@ -226,6 +427,124 @@ describe("FarmsService", () => {
 			expect(mockFarmRepository.create).not.toHaveBeenCalled();
 		});
 
+		it("should throw NotFoundException when a referenced harvest does not exist", async () => {
+			const dtoWithCrops: CreateFarmDto = {
+				...createDto,
+				cropsByHarvest: [
+					{ harvestId: TestConstants.NON_EXISTENT_UUID, crops: [{ cropType: "soy" }] },
+				],
+			};
+
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockHarvestRepository.find.mockResolvedValue([]);
+
+			expect(service.create(dtoWithCrops)).rejects.toThrow(NotFoundException);
+			expect(mockFarmRepository.create).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when planted areas exceed the arable area", async () => {
+			const dtoWithCrops: CreateFarmDto = {
+				...createDto,
+				cropsByHarvest: [
+					{
+						harvestId: TestConstants.NON_EXISTENT_UUID,
+						crops: [
+							{ cropType: "soy", plantedArea: createDto.arableArea },
+							{ cropType: "corn", plantedArea: 1 },
+						],
+					},
+				],
+			};
+
+			mockProducerRepository.exists.mockResolvedValue(true);
+
+			expect(service.create(dtoWithCrops)).rejects.toThrow(BadRequestException);
+			expect(mockFarmRepository.create).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when a crop is assigned to a plot", async () => {
+			const dtoWithCrops: CreateFarmDto = {
+				...createDto,
+				cropsByHarvest: [
+					{
+						harvestId: TestConstants.NON_EXISTENT_UUID,
+						crops: [{ cropType: "soy", plotId: TestConstants.NON_EXISTENT_UUID }],
+					},
+				],
+			};
+
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockHarvestRepository.find.mockResolvedValue([{ id: TestConstants.NON_EXISTENT_UUID }]);
+
+			expect(service.create(dtoWithCrops)).rejects.toThrow(BadRequestException);
+			expect(mockFarmRepository.create).not.toHaveBeenCalled();
+		});
+
+		describe("with a boundary", () => {
+			const { API__FARM_BOUNDARY_AREA_MISMATCH, API__FARM_BOUNDARY_AREA_TOLERANCE } = env;
+
+			beforeEach(() => {
+				env.API__FARM_BOUNDARY_AREA_TOLERANCE = 5;
+				mockProducerRepository.exists.mockResolvedValue(true);
+				mockFarmRepository.create.mockImplementation((farm: Farm) => ({ ...mockFarm, ...farm }));
+				mockEntityManager.save.mockImplementation((_target: unknown, farm: Farm) =>
+					Promise.resolve(farm),
+				);
+			});
+
+			afterEach(() => {
+				env.API__FARM_BOUNDARY_AREA_MISMATCH = API__FARM_BOUNDARY_AREA_MISMATCH;
+				env.API__FARM_BOUNDARY_AREA_TOLERANCE = API__FARM_BOUNDARY_AREA_TOLERANCE;
+			});
+
+			it("should store the boundary and return its geodesic area", async () => {
+				const result = await service.create({
+					...createDto,
+					totalArea: 115,
+					arableArea: 60,
+					vegetationArea: 30,
+					latitude: -22.905,
+					longitude: -47.065,
+					boundary: mockBoundary,
+				});
+
+				expect(result.boundary).toEqual(mockBoundary);
+				expect(result.boundaryArea).toBe(114.15);
+				expect(result.latitude).toBe(-22.905);
+				expect(mockLogger.warn).not.toHaveBeenCalled();
+			});
+
+			it("should warn when the boundary area exceeds the tolerance in warn mode", async () => {
+				env.API__FARM_BOUNDARY_AREA_MISMATCH = BoundaryAreaMismatchMode.Warn;
+
+				const result = await service.create({
+					...createDto,
+					totalArea: 200,
+					arableArea: 60,
+					vegetationArea: 30,
+					boundary: mockBoundary,
+				});
+
+				expect(result.boundaryArea).toBe(114.15);
+				expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+			});
+
+			it("should throw BadRequestException when the boundary area exceeds the tolerance in reject mode", async () => {
+				env.API__FARM_BOUNDARY_AREA_MISMATCH = BoundaryAreaMismatchMode.Reject;
+
+				expect(
+					service.create({
+						...createDto,
+						totalArea: 200,
+						arableArea: 60,
+						vegetationArea: 30,
+						boundary: mockBoundary,
+					}),
+				).rejects.toThrow(BadRequestException);
+				expect(mockEntityManager.save).not.toHaveBeenCalled();
+			});
+		});
+
 		it("should throw BadRequestException when totalArea is zero", async () => {
 			const invalidDto: CreateFarmDto = {
 				...createDto,
@@ -249,11 +568,17 @@ describe("FarmsService", () => {
 					totalArea: 100.5,
 					arableArea: 70,
 					vegetationArea: 25,
+					latitude: null,
+					longitude: null,
+					boundary: null,
 					producerId: "550e8400-e29b-41d4-a716-446655440000",
 					producer: {} as Producer,
 					farmHarvests: [],
+					owners: [],
 					createdAt: new Date(),
 					updatedAt: new Date(),
+					deletedAt: null,
+					version: 1,
 				},
 			];
 
@@ -269,6 +594,189 @@ describe("FarmsService", () => {
 			expect(mockFarmRepository.createQueryBuilder).toHaveBeenCalledWith("farm");
 		});
 
+		it("should join only the included relations and return the requested fields", async () => {
+			const mockFarm = {
+				id: "770e9600-g40d-63f6-c938-668877662222",
+				name: "Fazenda Boa Vista",
+				totalArea: 100.5,
+				farmHarvests: [
+					{ harvestId: "harvest-1", harvest: { year: "2024/2025" }, crops: [{ cropType: "soy" }] },
+				],
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			} as unknown as Farm;
+
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockFarm], 1]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll({
+				fields: [FarmField.Name, FarmField.TotalArea],
+				include: [FarmInclude.Crops],
+			});
+
+			expect(result.data[0]).toEqual({
+				id: mockFarm.id,
+				name: "Fazenda Boa Vista",
+				totalArea: 100.5,
+				cropsByHarvest: [
+					{
+						harvestId: "harvest-1",
+						harvestYear: "2024/2025",
+						crops: [{ cropType: "soy", plantedArea: null, plotId: null }],
+					},
+				],
+			});
+			expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith(
+				"farm.farmHarvests",
+				"farmHarvest",
+			);
+			expect(mockQueryBuilder.leftJoinAndSelect).not.toHaveBeenCalledWith("farm.owners", "owner");
+		});
+
+		it("should not join any relation unless included", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll();
+
+			expect(mockQueryBuilder.leftJoinAndSelect).not.toHaveBeenCalled();
+		});
+
+		it("should search every word of the farm name regardless of accents", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({ search: "Sitio Esperanca" });
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(FARM_SEARCH_CONDITION, {
+				search: '{name} : ("Sitio"* AND "Esperanca"*)',
+			});
+		});
+
+		it("should match crops through a subquery instead of filtering the joined crops", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({ crops: ["soy", "corn", "soy"], cropsMatch: CropsMatch.All });
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				CROPS_MATCH_CONDITIONS[CropsMatch.All],
+				{
+					crops: ["soy", "corn"],
+					cropCount: 2,
+				},
+			);
+			expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+				expect.stringContaining("crop.cropType"),
+				expect.anything(),
+			);
+		});
+
+		it("should filter by states, area and arable share ranges and creation dates", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({
+				states: [BrazilianState.SP, BrazilianState.MG],
+				minTotalArea: 100,
+				maxTotalArea: 500,
+				minArablePercentage: 50,
+				maxArablePercentage: 90,
+				createdFrom: "2025-01-01T00:00:00.000Z",
+				createdTo: "2025-12-31T23:59:59.999Z",
+			});
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.state IN (:...states)", {
+				states: [BrazilianState.SP, BrazilianState.MG],
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.totalArea >= :minTotalArea", {
+				minTotalArea: 100,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.totalArea <= :maxTotalArea", {
+				maxTotalArea: 500,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				"farm.arableArea * 100 >= farm.totalArea * :minArablePercentage",
+				{ minArablePercentage: 50 },
+			);
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				"farm.arableArea * 100 <= farm.totalArea * :maxArablePercentage",
+				{ maxArablePercentage: 90 },
+			);
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.createdAt >= :createdFrom", {
+				createdFrom: new Date("2025-01-01T00:00:00.000Z"),
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.createdAt <= :createdTo", {
+				createdTo: new Date("2025-12-31T23:59:59.999Z"),
+			});
+		});
+
+		it("should return farms as a GeoJSON FeatureCollection", async () => {
+			const baseFarm = {
+				name: "Fazenda Boa Vista",
+				city: "Campinas",
+				state: BrazilianState.SP,
+				totalArea: 115,
+				arableArea: 70,
+				vegetationArea: 25,
+				producerId: "550e8400-e29b-41d4-a716-446655440000",
+				producer: {} as Producer,
+				farmHarvests: [],
+				owners: [],
+				createdAt: new Date("2025-11-24T10:00:00Z"),
+				updatedAt: new Date("2025-11-24T10:00:00Z"),
+				deletedAt: null,
+				version: 1,
+			};
+			const mockFarms: Array<Farm> = [
+				{
+					...baseFarm,
+					id: "770e9600-g40d-63f6-c938-668877662222",
+					latitude: -22.905,
+					longitude: -47.065,
+					boundary: mockBoundary,
+				},
+				{
+					...baseFarm,
+					id: "880e9600-g40d-63f6-c938-668877663333",
+					latitude: -22.905,
+					longitude: -47.065,
+					boundary: null,
+				},
+				{
+					...baseFarm,
+					id: "990e9600-g40d-63f6-c938-668877664444",
+					latitude: null,
+					longitude: null,
+					boundary: null,
+				},
+			];
+
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue(mockFarms);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAllAsFeatureCollection();
+
+			expect(result.type).toBe("FeatureCollection");
+			expect(result.features.map((feature) => feature.geometry)).toEqual([
+				mockBoundary,
+				{ type: "Point", coordinates: [-47.065, -22.905] },
+				null,
+			]);
+			expect(result.features[0]).toMatchObject({
+				type: "Feature",
+				id: "770e9600-g40d-63f6-c938-668877662222",
+				properties: { boundaryArea: 114.15, createdAt: "2025-11-24T10:00:00.000Z" },
+			});
+			expect(result.features[0]?.properties).not.toHaveProperty("boundary");
+		});
+
 		it("should return an empty array when no farms exist", async () => {
 			const mockQueryBuilder = createMockQueryBuilder();
 			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
@@ -281,6 +789,233 @@ describe("FarmsService", () => {
 		});
 	});
 
+	describe("findAllByCursor", () => {
+		const createMockFarm = (id: string, name: string): Farm => ({
+			id,
+			name,
+			city: "Campinas",
+			state: BrazilianState.SP,
+			totalArea: 100,
+			arableArea: 70,
+			vegetationArea: 25,
+			latitude: null,
+			longitude: null,
+			boundary: null,
+			producerId: "550e8400-e29b-41d4-a716-446655440000",
+			producer: {} as Producer,
+			farmHarvests: [],
+			owners: [],
+			createdAt: new Date(),
+			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
+		});
+
+		const mockFarms = [
+			createMockFarm("770e9600-g40d-63f6-c938-668877662222", "Fazenda Boa Vista"),
+			createMockFarm("880e9600-g40d-63f6-c938-668877663333", "Fazenda Esperança"),
+			createMockFarm("990e9600-g40d-63f6-c938-668877664444", "Sítio Primavera"),
+		];
+
+		it("should return the first page with the cursor of the next one", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue(mockFarms);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAllByCursor({ cursor: "", limit: 2 });
+
+			expect(result.data.map((farm) => farm.name)).toEqual([
+				"Fazenda Boa Vista",
+				"Fazenda Esperança",
+			]);
+			expect(result.limit).toBe(2);
+			expect(result.nextCursor).toEqual(expect.any(String));
+			expect(result).not.toHaveProperty("total");
+			expect(mockQueryBuilder.orderBy).toHaveBeenLastCalledWith("farm.name", SortOrder.Ascending);
+			expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith("farm.id", SortOrder.Ascending);
+			expect(mockQueryBuilder.take).toHaveBeenCalledWith(3);
+			expect(mockQueryBuilder.skip).not.toHaveBeenCalled();
+		});
+
+		it("should continue after the last farm of the previous page", async () => {
+			const firstPageQueryBuilder = createMockQueryBuilder();
+			firstPageQueryBuilder.getMany.mockResolvedValue(mockFarms);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(firstPageQueryBuilder);
+
+			const { nextCursor } = await service.findAllByCursor({ cursor: "", limit: 2 });
+
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue(mockFarms.slice(2));
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAllByCursor({ cursor: nextCursor ?? "", limit: 2 });
+
+			expect(result.data.map((farm) => farm.name)).toEqual(["Sítio Primavera"]);
+			expect(result.nextCursor).toBeNull();
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(expect.anything(), {
+				cursorValue: "Fazenda Esperança",
+				cursorId: "880e9600-g40d-63f6-c938-668877663333",
+			});
+		});
+
+		it("should reject cursors issued for another sort", async () => {
+			const firstPageQueryBuilder = createMockQueryBuilder();
+			firstPageQueryBuilder.getMany.mockResolvedValue(mockFarms);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(firstPageQueryBuilder);
+
+			const { nextCursor } = await service.findAllByCursor({ cursor: "", limit: 2 });
+
+			mockFarmRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+
+			expect(
+				service.findAllByCursor({
+					cursor: nextCursor ?? "",
+					limit: 2,
+					sortBy: FarmSortField.TotalArea,
+				}),
+			).rejects.toThrow(BadRequestException);
+		});
+
+		it("should reject malformed cursors", async () => {
+			mockFarmRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+
+			expect(service.findAllByCursor({ cursor: "not-a-cursor" })).rejects.toThrow(
+				BadRequestException,
+			);
+		});
+	});
+
+	describe("export", () => {
+		const { API__LOCALE } = env;
+
+		const producer = { id: "550e8400-e29b-41d4-a716-446655440000", name: "João da Silva" };
+		const mockFarm = {
+			id: "770e9600-g40d-63f6-c938-668877662222",
+			name: "Fazenda Boa Vista",
+			city: "Campinas",
+			state: BrazilianState.SP,
+			totalArea: 1200.5,
+			arableArea: 800,
+			vegetationArea: 300.25,
+			latitude: -22.905,
+			longitude: -47.065,
+			boundary: null,
+			producerId: producer.id,
+			producer: {} as Producer,
+			farmHarvests: [
+				{
+					harvestId: "harvest-1",
+					harvest: { year: "2024/2025" },
+					crops: [{ cropType: "soy" }, { cropType: "corn" }],
+				},
+			],
+			owners: [
+				{
+					producerId: producer.id,
+					percentage: 60,
+					producer: { ...producer, document: "11144477735" },
+				},
+				{
+					producerId: "660e9500-f30c-52e5-b827-557766551111",
+					percentage: 40,
+					producer: { name: "Maria Santos", document: "11222333000181" },
+				},
+			],
+			createdAt: new Date("2025-11-24T10:00:00Z"),
+			updatedAt: new Date("2025-11-24T10:00:00Z"),
+			deletedAt: null,
+			version: 1,
+		} as unknown as Farm;
+
+		afterEach(() => {
+			env.API__LOCALE = API__LOCALE;
+		});
+
+		it("should write a CSV file formatted for the API locale", async () => {
+			env.API__LOCALE = SupportedLocale.Portuguese;
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue([mockFarm]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			const output = new PassThrough();
+
+			const [, contents] = await Promise.all([
+				service.export({ format: ExportFormat.Csv, state: BrazilianState.SP }, output),
+				text(output),
+			]);
+			const [header, row] = contents.replace(/^\uFEFF/, "").split("\r\n");
+
+			expect(header).toBe(
+				"Nome;Cidade;UF;Área total (ha);Área agricultável (ha);Área de vegetação (ha);Latitude;Longitude;Documento do produtor;Proprietários;Culturas;Criada em",
+			);
+			expect(row).toStartWith(
+				"Fazenda Boa Vista;Campinas;SP;1200,50;800,00;300,25;-22,905000;-47,065000;***.444.777-**;João da Silva (60%), Maria Santos (40%);2024/2025: soy, corn;",
+			);
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith("farm.state = :state", {
+				state: BrazilianState.SP,
+			});
+		});
+
+		it("should write English headers and decimal points", async () => {
+			env.API__LOCALE = SupportedLocale.English;
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue([mockFarm]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			const output = new PassThrough();
+
+			const [, contents] = await Promise.all([
+				service.export({ format: ExportFormat.Csv }, output),
+				text(output),
+			]);
+
+			expect(contents).toContain("Name,City,State,Total area (ha)");
+			expect(contents).toContain("Fazenda Boa Vista,Campinas,SP,1200.50,800.00,300.25");
+			expect(contents).toContain('"João da Silva (60%), Maria Santos (40%)"');
+		});
+
+		it("should read farms in batches and write a GeoJSON FeatureCollection", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany
+				.mockResolvedValueOnce(Array.from({ length: EXPORT_BATCH_SIZE }, () => mockFarm))
+				.mockResolvedValueOnce([{ ...mockFarm, latitude: null, longitude: null }]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			const output = new PassThrough();
+
+			const [, contents] = await Promise.all([
+				service.export({ format: ExportFormat.GeoJson }, output),
+				text(output),
+			]);
+			const collection = JSON.parse(contents) as FarmsFeatureCollection;
+
+			expect(collection.type).toBe("FeatureCollection");
+			expect(collection.features).toHaveLength(EXPORT_BATCH_SIZE + 1);
+			expect(collection.features[0]?.geometry).toEqual({
+				type: "Point",
+				coordinates: [-47.065, -22.905],
+			});
+			expect(collection.features.at(-1)?.geometry).toBeNull();
+			expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith("farm.id");
+			expect(mockQueryBuilder.skip).toHaveBeenCalledWith(EXPORT_BATCH_SIZE);
+		});
+
+		it("should write an XLSX workbook", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue([mockFarm]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			const output = new PassThrough();
+
+			const [, contents] = await Promise.all([
+				service.export({ format: ExportFormat.Xlsx }, output),
+				buffer(output),
+			]);
+			const workbook = new Workbook();
+			await workbook.xlsx.load(contents as unknown as ArrayBuffer);
+			const worksheet = workbook.worksheets[0];
+
+			expect(worksheet?.rowCount).toBe(2);
+			expect(worksheet?.getRow(2).getCell(4).value).toBe(1200.5);
+		});
+	});
+
 	describe("findOne", () => {
 		const mockFarm: Farm = {
 			id: "770e9600-g40d-63f6-c938-668877662222",
@@ -290,11 +1025,17 @@ describe("FarmsService", () => {
 			totalArea: 100.5,
 			arableArea: 70,
 			vegetationArea: 25,
+			latitude: null,
+			longitude: null,
+			boundary: null,
 			producerId: "550e8400-e29b-41d4-a716-446655440000",
 			producer: {} as Producer,
 			farmHarvests: [],
+			owners: [],
 			createdAt: new Date(),
 			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
 		};
 
 		it("should return a farm by ID", async () => {
@@ -310,6 +1051,29 @@ describe("FarmsService", () => {
 			expect(mockQueryBuilder.where).toHaveBeenCalledWith("farm.id = :id", { id: mockFarm.id });
 		});
 
+		it("should leave out owners in the trash", async () => {
+			const coOwnerId = "660e9500-f30c-52e5-b827-557766551111";
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({
+				...mockFarm,
+				owners: [
+					{
+						producerId: mockFarm.producerId,
+						percentage: 60,
+						producer: { name: "Agro Ltda" },
+					},
+					{ producerId: coOwnerId, percentage: 40, producer: null },
+				],
+			});
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findOne(mockFarm.id);
+
+			expect(result.owners).toEqual([
+				{ producerId: mockFarm.producerId, producerName: "Agro Ltda", percentage: 60 },
+			]);
+		});
+
 		it("should throw NotFoundException when farm does not exist", async () => {
 			const mockQueryBuilder = createMockQueryBuilder();
 			mockQueryBuilder.getOne.mockResolvedValue(null);
@@ -319,6 +1083,245 @@ describe("FarmsService", () => {
 		});
 	});
 
+	describe("getCompliance", () => {
+		const mockFarm = {
+			id: "770e9600-g40d-63f6-c938-668877662222",
+			city: "Paragominas",
+			state: BrazilianState.PA,
+			totalArea: 1000,
+			vegetationArea: 500,
+		} as Farm;
+
+		it("should report the legal reserve deficit of the farm's biome", async () => {
+			mockFarmRepository.findOneBy.mockResolvedValue(mockFarm);
+
+			const result = await service.getCompliance(mockFarm.id);
+
+			expect(mockFarmRepository.findOneBy).toHaveBeenCalledWith({ id: mockFarm.id });
+			expect(result).toEqual({
+				farmId: mockFarm.id,
+				biome: Biome.Amazon,
+				legalAmazon: true,
+				requiredPercentage: 80,
+				requiredArea: 800,
+				vegetationArea: 500,
+				vegetationPercentage: 50,
+				deficit: 300,
+				isCompliant: false,
+			});
+		});
+
+		it("should throw NotFoundException when farm does not exist", async () => {
+			mockFarmRepository.findOneBy.mockResolvedValue(null);
+
+			expect(service.getCompliance("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("transfer", () => {
+		const mockFarm = {
+			id: "770e9600-g40d-63f6-c938-668877662222",
+			name: "Fazenda Boa Vista",
+			producerId: "550e8400-e29b-41d4-a716-446655440000",
+			version: 3,
+			farmHarvests: [],
+			owners: [
+				{
+					id: "3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f",
+					producerId: "550e8400-e29b-41d4-a716-446655440000",
+					percentage: 100,
+				},
+			],
+		} as unknown as Farm;
+
+		const transferDto = {
+			newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+			effectiveDate: "2025-07-01",
+			reason: "Sale of the property",
+		};
+
+		/** Resolves the farm and its last transfer as read in the transaction */
+		const mockTransactionReads = (farm: Farm | null, lastTransfer: object | null = null): void => {
+			mockEntityManager.findOne.mockImplementation((target: unknown) =>
+				Promise.resolve(target === Farm ? farm : lastTransfer),
+			);
+		};
+
+		it("should change the owner and record the previous one in the ownership history", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({
+				...mockFarm,
+				producerId: transferDto.newProducerId,
+			});
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			mockTransactionReads(mockFarm, { effectiveDate: "2020-01-15" });
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockEntityManager.exists.mockResolvedValue(true);
+
+			const result = await service.transfer(mockFarm.id, transferDto);
+
+			expect(result.producerId).toBe(transferDto.newProducerId);
+			expect(mockEntityManager.insert).toHaveBeenCalledWith(FarmOwnershipHistory, {
+				farmId: mockFarm.id,
+				previousProducerId: mockFarm.producerId,
+				...transferDto,
+			});
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Farm, {
+				id: mockFarm.id,
+				producerId: transferDto.newProducerId,
+			});
+			expect(mockEntityManager.update).toHaveBeenCalledWith(
+				FarmOwner,
+				{ farmId: mockFarm.id, producerId: mockFarm.producerId },
+				{ producerId: transferDto.newProducerId },
+			);
+		});
+
+		it("should add the previous owner's share to a new owner who already co-owns the farm", async () => {
+			const coOwnedFarm = {
+				...mockFarm,
+				owners: [
+					{
+						id: "3c4d5e6f-7a8b-4c9d-8e0f-1a2b3c4d5e6f",
+						producerId: mockFarm.producerId,
+						percentage: 60,
+					},
+					{
+						id: "4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f7a",
+						producerId: transferDto.newProducerId,
+						percentage: 40,
+					},
+				],
+			};
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({
+				...coOwnedFarm,
+				producerId: transferDto.newProducerId,
+			});
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			mockTransactionReads(coOwnedFarm as unknown as Farm);
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockEntityManager.exists.mockResolvedValue(true);
+
+			await service.transfer(mockFarm.id, transferDto);
+
+			expect(mockEntityManager.update).toHaveBeenCalledWith(
+				FarmOwner,
+				"4d5e6f7a-8b9c-4d0e-9f1a-2b3c4d5e6f7a",
+				{ percentage: 100 },
+			);
+			expect(mockEntityManager.delete).toHaveBeenCalledWith(FarmOwner, {
+				farmId: mockFarm.id,
+				producerId: mockFarm.producerId,
+			});
+		});
+
+		it("should throw BadRequestException when the new producer already owns the farm", async () => {
+			mockTransactionReads(mockFarm);
+
+			expect(
+				service.transfer(mockFarm.id, { ...transferDto, newProducerId: mockFarm.producerId }),
+			).rejects.toThrow(
+				"Farm is already owned by producer with ID 550e8400-e29b-41d4-a716-446655440000",
+			);
+			expect(mockEntityManager.insert).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when the effective date precedes the previous transfer", async () => {
+			mockTransactionReads(mockFarm, { effectiveDate: "2025-09-01" });
+			mockProducerRepository.exists.mockResolvedValue(true);
+
+			expect(service.transfer(mockFarm.id, transferDto)).rejects.toThrow(
+				"Effective date cannot precede the previous transfer of the farm (2025-09-01)",
+			);
+			expect(mockEntityManager.insert).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException when the new producer does not exist", async () => {
+			mockTransactionReads(mockFarm);
+			mockProducerRepository.exists.mockResolvedValue(false);
+
+			expect(service.transfer(mockFarm.id, transferDto)).rejects.toThrow(NotFoundException);
+			expect(mockEntityManager.insert).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException when farm does not exist", async () => {
+			mockTransactionReads(null);
+
+			expect(service.transfer("nonexistent-id", transferDto)).rejects.toThrow(NotFoundException);
+		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockTransactionReads(mockFarm);
+
+			expect(service.transfer(mockFarm.id, transferDto, [2])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.insert).not.toHaveBeenCalled();
+		});
+
+		it("should throw PreconditionFailedException when the farm was written in the meantime", async () => {
+			mockTransactionReads(mockFarm);
+			mockProducerRepository.exists.mockResolvedValue(true);
+			mockEntityManager.exists.mockResolvedValue(false);
+
+			expect(service.transfer(mockFarm.id, transferDto, [3])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.exists).toHaveBeenCalledWith(Farm, {
+				where: { id: mockFarm.id, version: In([3, 4]) },
+				withDeleted: true,
+			});
+		});
+	});
+
+	describe("findOwnershipHistory", () => {
+		it("should map the transfers of the farm with producer names", async () => {
+			const createdAt = new Date();
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockOwnershipHistoryRepository.find.mockResolvedValue([
+				{
+					id: "8f1e2d3c-4b5a-4c6d-9e8f-7a6b5c4d3e2f",
+					farmId: "770e9600-g40d-63f6-c938-668877662222",
+					farm: { name: "Fazenda Boa Vista" },
+					previousProducerId: null,
+					previousProducer: null,
+					newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+					newProducer: { name: "Maria Souza" },
+					effectiveDate: "2025-07-01",
+					reason: "Sale of the property",
+					createdAt,
+				},
+			]);
+
+			const result = await service.findOwnershipHistory("770e9600-g40d-63f6-c938-668877662222");
+
+			expect(result).toEqual([
+				{
+					id: "8f1e2d3c-4b5a-4c6d-9e8f-7a6b5c4d3e2f",
+					farmId: "770e9600-g40d-63f6-c938-668877662222",
+					farmName: "Fazenda Boa Vista",
+					previousProducerId: null,
+					previousProducerName: null,
+					newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+					newProducerName: "Maria Souza",
+					effectiveDate: "2025-07-01",
+					reason: "Sale of the property",
+					createdAt,
+				},
+			]);
+			expect(mockOwnershipHistoryRepository.find).toHaveBeenCalledWith(
+				expect.objectContaining({ where: { farmId: "770e9600-g40d-63f6-c938-668877662222" } }),
+			);
+		});
+
+		it("should throw NotFoundException when farm does not exist", async () => {
+			mockFarmRepository.exists.mockResolvedValue(false);
+
+			expect(service.findOwnershipHistory("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
+	});
+
 	describe("update", () => {
 		const mockFarm: Farm = {
 			id: "770e9600-g40d-63f6-c938-668877662222",
@@ -328,42 +1331,172 @@ describe("FarmsService", () => {
 			totalArea: 100.5,
 			arableArea: 70,
 			vegetationArea: 25,
+			latitude: null,
+			longitude: null,
+			boundary: null,
 			producerId: "550e8400-e29b-41d4-a716-446655440000",
 			producer: {} as Producer,
 			farmHarvests: [],
+			owners: [],
 			createdAt: new Date(),
 			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
 		};
 
+		const mockPlot = {
+			id: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+			farmId: mockFarm.id,
+			name: "Talhão 01",
+			area: 25,
+		} as FarmPlot;
+
 		it("should update farm name", async () => {
 			const updateDto: UpdateFarmDto = { name: "Fazenda Boa Vista II" };
 			const updatedFarm = { ...mockFarm, name: updateDto.name };
 
 			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
-			mockFarmRepository.save.mockResolvedValue(updatedFarm);
+			mockEntityManager.save.mockResolvedValue(updatedFarm);
 
 			const result = await service.update(mockFarm.id, updateDto);
 
 			expect(result.name).toBe("Fazenda Boa Vista II");
-			expect(mockFarmRepository.save).toHaveBeenCalled();
+			expect(mockEntityManager.save).toHaveBeenCalled();
+		});
+
+		it("should replace the owners of the farm", async () => {
+			const coOwnerId = "660e9500-f30c-52e5-b827-557766551111";
+			const owners = [
+				{ producerId: mockFarm.producerId, percentage: 50 },
+				{ producerId: coOwnerId, percentage: 50 },
+			];
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockEntityManager.save.mockResolvedValue(mockFarm);
+			mockProducerRepository.find.mockResolvedValue([{ id: coOwnerId }]);
+
+			await service.update(mockFarm.id, { owners });
+
+			expect(mockEntityManager.delete).toHaveBeenCalledWith(FarmOwner, { farmId: mockFarm.id });
+			expect(mockEntityManager.save).toHaveBeenCalledWith(
+				FarmOwner,
+				owners.map((owner) => ({ farmId: mockFarm.id, ...owner })),
+			);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(
+				Farm,
+				expect.objectContaining({ updatedAt: expect.any(Date) }),
+			);
 		});
 
-		it("should update farm with new producer", async () => {
-			const updateDto: SetRequired<UpdateFarmDto, "producerId"> = {
-				producerId: "660e9500-f30c-52e5-b827-557766551111",
+		it("should save the farm without its loaded version", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({ ...mockFarm });
+			mockEntityManager.save.mockResolvedValue({ ...mockFarm, name: "Fazenda Nova", version: 2 });
+
+			const result = await service.update(mockFarm.id, { name: "Fazenda Nova" });
+
+			expect(mockEntityManager.save.mock.calls[0]?.[1]).not.toHaveProperty("version");
+			expect(result.version).toBe(2);
+		});
+
+		it("should throw PreconditionFailedException when the farm was written in the meantime", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({ ...mockFarm });
+			mockEntityManager.save.mockResolvedValue({ ...mockFarm, name: "Fazenda Nova" });
+			mockEntityManager.exists.mockResolvedValue(false);
+
+			await expect(
+				service.update(mockFarm.id, { name: "Fazenda Nova" }, [mockFarm.version]),
+			).rejects.toThrow(PreconditionFailedException);
+			expect(mockEntityManager.exists).toHaveBeenCalledWith(Farm, {
+				where: { id: mockFarm.id, version: In([mockFarm.version, mockFarm.version + 1]) },
+				withDeleted: true,
+			});
+		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({ ...mockFarm, version: 2 });
+
+			expect(service.update(mockFarm.id, { name: "Fazenda Nova" }, [1])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when the new owners leave out the main owner", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+
+			expect(
+				service.update(mockFarm.id, {
+					owners: [{ producerId: "660e9500-f30c-52e5-b827-557766551111", percentage: 100 }],
+				}),
+			).rejects.toThrow(BadRequestException);
+			expect(mockEntityManager.delete).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when a reduced arable area no longer fits existing crops", async () => {
+			const updateDto: UpdateFarmDto = { arableArea: 40 };
+
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmHarvestRepository.find.mockResolvedValue([
+				{ harvestId: "harvest-id", crops: [{ cropType: "soy", plantedArea: 60 }] },
+			]);
+
+			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(BadRequestException);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when a reduced arable area no longer fits the plots", async () => {
+			const updateDto: UpdateFarmDto = { arableArea: 40 };
+
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmHarvestRepository.find.mockResolvedValue([]);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot, { ...mockPlot, area: 25 }]);
+
+			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(
+				"Sum of plot areas (50.00 ha) exceeds arable area (40.00 ha)",
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when a crop is assigned to a plot of another farm", async () => {
+			const updateDto: UpdateFarmDto = {
+				cropsByHarvest: [
+					{
+						harvestId: "harvest-id",
+						crops: [{ cropType: "soy", plotId: TestConstants.NON_EXISTENT_UUID }],
+					},
+				],
 			};
-			const updatedFarm = { ...mockFarm, producerId: updateDto.producerId };
 
 			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
-			mockProducerRepository.exists.mockResolvedValue(true);
-			mockFarmRepository.save.mockResolvedValue(updatedFarm);
+			mockHarvestRepository.find.mockResolvedValue([{ id: "harvest-id" }]);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot]);
 
-			const result = await service.update(mockFarm.id, updateDto);
+			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(
+				`Plot with ID ${TestConstants.NON_EXISTENT_UUID} does not belong to this farm`,
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
 
-			expect(result.producerId).toBe(updateDto.producerId);
-			expect(mockProducerRepository.exists).toHaveBeenCalledWith({
-				where: { id: updateDto.producerId },
-			});
+		it("should throw BadRequestException when crops planted on a plot exceed its area", async () => {
+			const updateDto: UpdateFarmDto = {
+				cropsByHarvest: [
+					{
+						harvestId: "harvest-id",
+						crops: [
+							{ cropType: "soy", plantedArea: 20, plotId: mockPlot.id },
+							{ cropType: "corn", plantedArea: 10, plotId: mockPlot.id },
+						],
+					},
+				],
+			};
+
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockHarvestRepository.find.mockResolvedValue([{ id: "harvest-id" }]);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot]);
+
+			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(
+				"Plot Talhão 01: Sum of planted areas (30.00 ha) exceeds plot area (25.00 ha)",
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 
 		it("should throw NotFoundException when farm does not exist", async () => {
@@ -371,16 +1504,7 @@ describe("FarmsService", () => {
 			mockFarmRepository.findOne.mockResolvedValue(null);
 
 			expect(service.update("nonexistent-id", updateDto)).rejects.toThrow(NotFoundException);
-			expect(mockFarmRepository.save).not.toHaveBeenCalled();
-		});
-
-		it("should throw NotFoundException when new producer does not exist", async () => {
-			const updateDto: UpdateFarmDto = { producerId: "nonexistent-producer" };
-			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
-			mockProducerRepository.exists.mockResolvedValue(false);
-
-			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(NotFoundException);
-			expect(mockFarmRepository.save).not.toHaveBeenCalled();
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 
 		it("should throw BadRequestException when updated areas violate constraints", async () => {
@@ -388,30 +1512,164 @@ describe("FarmsService", () => {
 			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
 
 			expect(service.update(mockFarm.id, updateDto)).rejects.toThrow(BadRequestException);
-			expect(mockFarmRepository.save).not.toHaveBeenCalled();
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 	});
 
 	describe("delete", () => {
-		it("should delete a farm", async () => {
-			mockFarmRepository.delete.mockResolvedValue({ affected: 1, raw: {} });
+		it("should move a farm to the trash", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: "770e9600-g40d-63f6-c938-668877662222",
+				version: 1,
+			});
+
+			await service.delete("770e9600-g40d-63f6-c938-668877662222", "*");
+
+			const [target, savedFarm] = mockEntityManager.save.mock.calls[0] ?? [];
+			expect(target).toBe(Farm);
+			expect(savedFarm.id).toBe("770e9600-g40d-63f6-c938-668877662222");
+			expect(savedFarm.deletedAt).toBeInstanceOf(Date);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
 
-			await service.delete("770e9600-g40d-63f6-c938-668877662222");
+		it("should throw PreconditionFailedException when the farm was written in the meantime", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: "770e9600-g40d-63f6-c938-668877662222",
+				version: 1,
+			});
+			mockEntityManager.exists.mockResolvedValue(false);
 
-			expect(mockFarmRepository.delete).toHaveBeenCalledWith(
-				"770e9600-g40d-63f6-c938-668877662222",
+			await expect(service.delete("770e9600-g40d-63f6-c938-668877662222", [1])).rejects.toThrow(
+				PreconditionFailedException,
 			);
 		});
 
 		it("should throw NotFoundException when farm does not exist", async () => {
-			mockFarmRepository.delete.mockResolvedValue({ affected: 0, raw: {} });
+			mockFarmRepository.findOne.mockResolvedValue(null);
 
 			expect(service.delete("nonexistent-id")).rejects.toThrow(NotFoundException);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: "770e9600-g40d-63f6-c938-668877662222",
+				version: 3,
+			});
+
+			expect(service.delete("770e9600-g40d-63f6-c938-668877662222", [2])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("restore", () => {
+		const farmId = "770e9600-g40d-63f6-c938-668877662222";
+
+		it("should restore a farm from the trash", async () => {
+			const mockFarm = {
+				id: farmId,
+				producerId: "550e8400-e29b-41d4-a716-446655440000",
+				producer: { deletedAt: null },
+				farmHarvests: [],
+				owners: [],
+				createdAt: new Date(),
+				updatedAt: new Date(),
+				deletedAt: new Date(),
+			} as unknown as Farm;
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({ ...mockFarm, deletedAt: null });
+			mockFarmRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+
+			const result = await service.restore(farmId);
+
+			expect(mockFarmRepository.findOne).toHaveBeenCalledWith({
+				where: { id: farmId },
+				relations: { producer: true },
+				withDeleted: true,
+			});
+			expect(mockFarmRepository.save).toHaveBeenCalledWith({ id: farmId, deletedAt: null });
+			expect(result.id).toBe(farmId);
+		});
+
+		it("should throw BadRequestException when the producer is in the trash", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: farmId,
+				producerId: "550e8400-e29b-41d4-a716-446655440000",
+				producer: { deletedAt: new Date() },
+				deletedAt: new Date(),
+			});
+
+			expect(service.restore(farmId)).rejects.toThrow("must be restored first");
+			expect(mockFarmRepository.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when farm is not in the trash", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({ id: farmId, deletedAt: null });
+
+			expect(service.restore(farmId)).rejects.toThrow(BadRequestException);
+		});
+
+		it("should throw NotFoundException when farm does not exist", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(null);
+
+			expect(service.restore("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("purge", () => {
+		const farmId = "770e9600-g40d-63f6-c938-668877662222";
+
+		it("should permanently delete a farm in the trash", async () => {
+			const mockFarm = { id: farmId, deletedAt: new Date() };
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+
+			await service.purge(farmId);
+
+			expect(mockEntityManager.remove).toHaveBeenCalledWith(mockFarm);
+		});
+
+		it("should claim the farm at the expected version before deleting it", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: farmId,
+				deletedAt: new Date(),
+				version: 2,
+			});
+			mockEntityManager.increment.mockResolvedValue({ affected: 0 });
+
+			await expect(service.purge(farmId, [2])).rejects.toThrow(PreconditionFailedException);
+			expect(mockEntityManager.increment).toHaveBeenCalledWith(
+				Farm,
+				{ id: farmId, version: In([2]) },
+				"version",
+				1,
+			);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when farm is not in the trash", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({ id: farmId, deletedAt: null });
+
+			expect(service.purge(farmId)).rejects.toThrow(BadRequestException);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockFarmRepository.findOne.mockResolvedValue({
+				id: farmId,
+				deletedAt: new Date(),
+				version: 2,
+			});
+
+			expect(service.purge(farmId, [1])).rejects.toThrow(PreconditionFailedException);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
 		});
 	});
 
 	describe("findByProducer", () => {
-		it("should return farms for a specific producer", async () => {
+		it("should return farms owned or co-owned by a specific producer", async () => {
 			const producerId = "550e8400-e29b-41d4-a716-446655440000";
 			const mockFarms: Array<Farm> = [
 				{
@@ -422,11 +1680,17 @@ describe("FarmsService", () => {
 					totalArea: 100.5,
 					arableArea: 70,
 					vegetationArea: 25,
+					latitude: null,
+					longitude: null,
+					boundary: null,
 					producerId,
 					producer: {} as Producer,
 					farmHarvests: [],
+					owners: [],
 					createdAt: new Date(),
 					updatedAt: new Date(),
+					deletedAt: null,
+					version: 1,
 				},
 			];
 
@@ -439,7 +1703,7 @@ describe("FarmsService", () => {
 			expect(result).toHaveLength(1);
 			expect(result[0]?.producerId).toBe(producerId);
 			expect(mockFarmRepository.createQueryBuilder).toHaveBeenCalledWith("farm");
-			expect(mockQueryBuilder.where).toHaveBeenCalledWith("farm.producerId = :producerId", {
+			expect(mockQueryBuilder.where).toHaveBeenCalledWith(OWNED_BY_PRODUCER_CONDITION, {
 				producerId,
 			});
 		});
@@ -456,11 +1720,17 @@ describe("FarmsService", () => {
 					totalArea: 100.5,
 					arableArea: 70,
 					vegetationArea: 25,
+					latitude: null,
+					longitude: null,
+					boundary: null,
 					producerId: "550e8400-e29b-41d4-a716-446655440000",
 					producer: {} as Producer,
 					farmHarvests: [],
+					owners: [],
 					createdAt: new Date(),
 					updatedAt: new Date(),
+					deletedAt: null,
+					version: 1,
 				},
 			];
 
@@ -590,9 +1860,9 @@ describe("FarmsService", () => {
 				groupBy: mock().mockReturnThis(),
 				orderBy: mock().mockReturnThis(),
 				getRawMany: mock().mockResolvedValue([
-					{ cropType: CropType.Soy, count: "15" },
-					{ cropType: CropType.Corn, count: "12" },
-					{ cropType: CropType.Coffee, count: "8" },
+					{ cropType: "soy", count: "15", plantedArea: "820.5" },
+					{ cropType: "corn", count: "12", plantedArea: "410" },
+					{ cropType: "coffee", count: "8", plantedArea: null },
 				]),
 			};
 
@@ -601,13 +1871,18 @@ describe("FarmsService", () => {
 			const result = await service.getCropsDistribution();
 
 			expect(result).toEqual([
-				{ cropType: CropType.Soy, count: 15 },
-				{ cropType: CropType.Corn, count: 12 },
-				{ cropType: CropType.Coffee, count: 8 },
+				{ cropType: "soy", count: 15, plantedArea: 820.5 },
+				{ cropType: "corn", count: 12, plantedArea: 410 },
+				{ cropType: "coffee", count: 8, plantedArea: 0 },
 			]);
 			expect(mockQueryBuilder.innerJoin).toHaveBeenCalledWith("fhc.farmHarvest", "fh");
+			expect(mockQueryBuilder.innerJoin).toHaveBeenCalledWith("fh.farm", "farm");
 			expect(mockQueryBuilder.select).toHaveBeenCalledWith("fhc.cropType", "cropType");
 			expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith("COUNT(DISTINCT fh.farmId)", "count");
+			expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+				"SUM(fhc.plantedArea)",
+				"plantedArea",
+			);
 			expect(mockQueryBuilder.groupBy).toHaveBeenCalledWith("fhc.cropType");
 			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith("count", "DESC");
 		});
@@ -1,20 +1,86 @@
+import { once } from "node:events";
+
 import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { InjectPinoLogger } from "nestjs-pino";
-import { Repository } from "typeorm";
+import { In, IsNull, Not, Repository } from "typeorm";
 
 import type { PinoLogger } from "nestjs-pino";
-
-import type { BrazilianState, CropType } from "@agro/shared/enums";
-import type { CropDistribution, PaginatedResponse, StateDistribution } from "@agro/shared/types";
-
-import { FarmSortField, SortOrder } from "@agro/shared/enums";
-import { assertValidFarmArea } from "@agro/shared/validators";
-
+import type { Writable } from "node:stream";
+import type { EntityManager, FindOptionsWhere, SelectQueryBuilder } from "typeorm";
+
+import type { BrazilianState } from "@agro/shared/enums";
+import type {
+	CropDistribution,
+	CursorPaginatedResponse,
+	FarmBoundary,
+	FarmsFeatureCollection,
+	PaginatedResponse,
+	StateDistribution,
+} from "@agro/shared/types";
+
+import type { IfMatchVersions, SparseFieldset } from "@/common";
+
+import {
+	CropsMatch,
+	ExportFormat,
+	FarmInclude,
+	FarmSortField,
+	Permission,
+	SortOrder,
+} from "@agro/shared/enums";
+import { calculateGeodesicArea } from "@agro/shared/utils";
+import {
+	assertValidFarmArea,
+	assertValidPlantedArea,
+	evaluateLegalReserve,
+	formatDocument,
+	maskDocument,
+	validateBoundaryArea,
+	validateOwnershipShares,
+	validatePlotAreas,
+	validatePlotPlantedArea,
+} from "@agro/shared/validators";
+
+import {
+	assertNoConcurrentWrite,
+	assertVersionMatches,
+	claimVersion,
+	currentUserHasPermission,
+	EXPORT_BATCH_SIZE,
+	FARM_SEARCH_CONDITION,
+	paginateByCursor,
+	pickFields,
+	toFullTextQuery,
+	writeSpreadsheet,
+} from "@/common";
+import { env } from "@/config/env.config";
+import { Harvest } from "@/modules/harvests/entities";
+import { FarmPlot } from "@/modules/plots/entities";
 import { Producer } from "@/modules/producers/entities/";
 
-import { CreateFarmDto, FarmResponseDto, FindAllFarmsDto, UpdateFarmDto } from "./dto";
-import { Farm, FarmHarvest, FarmHarvestCrop, Harvest } from "./entities/";
+import {
+	CreateFarmDto,
+	DeletedFarmResponseDto,
+	ExportFarmsDto,
+	FarmComplianceResponseDto,
+	FarmOwnerDto,
+	FarmOwnershipHistoryResponseDto,
+	FarmResponseDto,
+	FindAllFarmsDto,
+	HarvestCropsDto,
+	HarvestCropsResponseDto,
+	TransferFarmDto,
+	UpdateFarmDto,
+} from "./dto";
+import { Farm, FarmHarvest, FarmHarvestCrop, FarmOwner, FarmOwnershipHistory } from "./entities/";
+import {
+	BoundaryAreaMismatchMode,
+	CROPS_MATCH_CONDITIONS,
+	FARM_EXPORT_HEADERS,
+	FARM_EXPORT_SHEET_NAME,
+	OWNED_BY_PRODUCER_CONDITION,
+} from "./farms.constants";
 
 /**
  * Service responsible for farm business logic and data operations.
@@ -57,6 +123,12 @@ export class FarmsService {
 		@InjectRepository(FarmHarvestCrop)
 		private readonly farmHarvestCropRepository: Repository<FarmHarvestCrop>,
 
+		@InjectRepository(FarmPlot)
+		private readonly farmPlotRepository: Repository<FarmPlot>,
+
+		@InjectRepository(FarmOwnershipHistory)
+		private readonly ownershipHistoryRepository: Repository<FarmOwnershipHistory>,
+
 		@InjectPinoLogger(FarmsService.name)
 		private readonly logger: PinoLogger,
 	) {}
@@ -66,15 +138,25 @@ export class FarmsService {
 	 *
 	 * ## Workflow
 	 * 1. Validates that the producer exists
-	 * 2. Validated that the farm area constraints are met (arableArea + vegetationArea ≤ totalArea)
-	 * 3. Creates and saves the farm entity
+	 * 2. Validates the co-owners and their shares, if given
+	 * 3. Validated that the farm area constraints are met (arableArea + vegetationArea ≤ totalArea)
+	 * 4. Validates that the planted areas of each harvest fit in the arable area
+	 * 5. Validates that every referenced harvest exists
+	 * 6. Rejects crops assigned to plots, since a new farm has none yet
+	 * 7. Compares the boundary area to the total area, if a boundary is given
+	 * 8. Creates and saves the farm entity
+	 * 9. Records the owners' shares, the producer owning the whole farm when no owners are given
+	 * 10. Records the crops planted in each referenced harvest
+	 *
+	 * Steps 8 to 10 run in one transaction, so a farm is never left without owners or crops.
 	 *
 	 * @param createFarmDto The farm data to create
 	 *
 	 * @returns The created farm
 	 *
-	 * @throws {NotFoundException} If the producer does not exist
-	 * @throws {BadRequestException} If area validation fails
+	 * @throws {NotFoundException} If the producer, a co-owner or a referenced harvest does not exist
+	 * @throws {BadRequestException} If area or ownership validation fails, a crop is assigned to a
+	 * plot, or the boundary area exceeds the tolerance in reject mode
 	 *
 	 * @example
 	 * ```typescript
@@ -86,14 +168,30 @@ export class FarmsService {
 	 *   arableArea: 70.0,
 	 *   vegetationArea: 25.0,
 	 *   producerId: "550e8400-e29b-41d4-a716-446655440000",
+	 *   cropsByHarvest: [
+	 *     { harvestId: "9b2f4c1e-...", crops: [{ cropType: "soy", plantedArea: 45.5 }] },
+	 *   ],
 	 * });
 	 * ```
 	 */
 	public async create(createFarmDto: CreateFarmDto): Promise<FarmResponseDto> {
-		const { name, city, state, totalArea, arableArea, vegetationArea, producerId, crops } =
-			createFarmDto;
+		const {
+			name,
+			city,
+			state,
+			totalArea,
+			arableArea,
+			vegetationArea,
+			latitude,
+			longitude,
+			boundary,
+			producerId,
+			owners = [{ producerId, percentage: 100 }],
+			cropsByHarvest,
+		} = createFarmDto;
 
 		await this.verifyProducerExists(producerId);
+		await this.verifyOwners(producerId, owners);
 
 		try {
 			assertValidFarmArea(totalArea, arableArea, vegetationArea);
@@ -101,6 +199,14 @@ export class FarmsService {
 			throw new BadRequestException(error instanceof Error ? error.message : String(error));
 		}
 
+		if (cropsByHarvest != null && cropsByHarvest.length > 0) {
+			this.validatePlantedAreas(arableArea, cropsByHarvest);
+			await this.verifyHarvestsExist(cropsByHarvest.map((entry) => entry.harvestId));
+			this.validatePlotAssignments([], cropsByHarvest);
+		}
+
+		if (boundary) this.verifyBoundaryArea(name, totalArea, boundary);
+
 		const farm = this.farmRepository.create({
 			name,
 			city,
@@ -108,18 +214,27 @@ export class FarmsService {
 			totalArea,
 			arableArea,
 			vegetationArea,
+			latitude: latitude ?? null,
+			longitude: longitude ?? null,
+			boundary: boundary ?? null,
 			producerId,
 		});
 
-		const savedFarm = await this.farmRepository.save(farm);
+		const savedFarm = await this.farmRepository.manager.transaction(async (manager) => {
+			const savedFarm = await manager.save(Farm, farm);
 
-		if (crops != null && crops.length > 0) {
-			await this.associateCropsWithFarm(savedFarm.id, crops);
-		}
+			await this.replaceOwners(manager, savedFarm.id, owners);
+
+			if (cropsByHarvest != null && cropsByHarvest.length > 0) {
+				await this.replaceHarvestCrops(manager, savedFarm.id, cropsByHarvest);
+			}
+
+			return savedFarm;
+		});
 
 		const farmWithRelations = await this.farmRepository.findOne({
 			where: { id: savedFarm.id },
-			relations: { farmHarvests: { crops: true } },
+			relations: { farmHarvests: { crops: true, harvest: true }, owners: { producer: true } },
 		});
 
 		return this.mapToResponseDto(farmWithRelations ?? savedFarm);
@@ -128,11 +243,13 @@ export class FarmsService {
 	/**
 	 * Retrieves all farms with pagination, sorting, filtering, and search.
 	 *
-	 * Supports filtering by state, city, producer, and name search with
-	 * configurable sorting and pagination. Uses TypeORM QueryBuilder
-	 * for efficient database queries.
+	 * Supports filtering by states, city, producer (owner or co-owner), crops,
+	 * area and arable share ranges, creation date, and name search with
+	 * configurable sorting and pagination. Crops and owners are only joined
+	 * when included, so the farms are otherwise paged and counted without
+	 * joined rows, and responses are limited to the requested fields.
 	 *
-	 * @param query Query parameters for pagination, sorting, filtering, and search
+	 * @param query Query parameters for pagination, sorting, filtering, search, fields and includes
 	 *
 	 * @returns Paginated response with farms and metadata
 	 *
@@ -144,38 +261,18 @@ export class FarmsService {
 	 *   sortBy: FarmSortField.TotalArea,
 	 *   sortOrder: SortOrder.Descending,
 	 *   state: BrazilianState.SP,
-	 *   search: "Fazenda"
+	 *   search: "Fazenda",
+	 *   include: [FarmInclude.Crops]
 	 * });
 	 * console.log(`Found ${result.total} farms`);
 	 * ```
 	 */
-	public async findAll(query: FindAllFarmsDto = {}): Promise<PaginatedResponse<FarmResponseDto>> {
-		const {
-			page = 1,
-			limit = 10,
-			sortBy = FarmSortField.Name,
-			sortOrder = SortOrder.Ascending,
-			search,
-			state,
-			city,
-			producerId,
-			crops,
-		} = query;
-
-		const qb = this.farmRepository
-			.createQueryBuilder("farm")
-			.leftJoinAndSelect("farm.farmHarvests", "farmHarvest")
-			.leftJoinAndSelect("farmHarvest.crops", "crop");
+	public async findAll(
+		query: FindAllFarmsDto = {},
+	): Promise<PaginatedResponse<SparseFieldset<FarmResponseDto>>> {
+		const { page = 1, limit = 10, fields, include = [] } = query;
 
-		if (search) qb.andWhere("farm.name LIKE :search", { search: `%${search}%` });
-		if (state) qb.andWhere("farm.state = :state", { state });
-		if (city) qb.andWhere("farm.city = :city", { city });
-		if (producerId) qb.andWhere("farm.producerId = :producerId", { producerId });
-		if (crops && crops.length > 0) {
-			qb.andWhere("crop.cropType IN (:...crops)", { crops });
-		}
-
-		qb.orderBy(`farm.${sortBy}`, sortOrder as SortOrder);
+		const qb = this.createFindAllQuery(query, include);
 
 		const skip = (page - 1) * limit;
 		qb.skip(skip).take(limit);
@@ -183,7 +280,9 @@ export class FarmsService {
 		const [farms, total] = await qb.getManyAndCount();
 
 		return {
-			data: farms.map((farm) => this.mapToResponseDto(farm)),
+			data: farms.map((farm) =>
+				pickFields(this.mapToResponseDto(farm, include), fields, ["owners", "cropsByHarvest"]),
+			),
 			page,
 			limit,
 			total,
@@ -191,6 +290,176 @@ export class FarmsService {
 		};
 	}
 
+	/**
+	 * Retrieves a page of farms after a cursor, sorted and filtered like {@link findAll}.
+	 *
+	 * Reads the page right after the last farm of the previous one instead of
+	 * skipping rows, and does not count the total. Included crops and owners do
+	 * not count towards the limit.
+	 *
+	 * @param query Query parameters for the cursor, page size, sorting, filtering, search, fields and includes
+	 *
+	 * @returns Farms of the page, with the cursor of the next page
+	 *
+	 * @throws {BadRequestException} If the cursor is invalid or was issued for another sort
+	 *
+	 * @example
+	 * ```typescript
+	 * const first = await service.findAllByCursor({ cursor: "", state: BrazilianState.SP });
+	 * const second = await service.findAllByCursor({
+	 *   cursor: first.nextCursor ?? "",
+	 *   state: BrazilianState.SP,
+	 * });
+	 * ```
+	 */
+	public async findAllByCursor(
+		query: FindAllFarmsDto = {},
+	): Promise<CursorPaginatedResponse<SparseFieldset<FarmResponseDto>>> {
+		const {
+			cursor,
+			limit = 10,
+			sortBy = FarmSortField.Name,
+			sortOrder = SortOrder.Ascending,
+			fields,
+			include = [],
+		} = query;
+
+		const { items, nextCursor } = await paginateByCursor(this.createFindAllQuery(query, include), {
+			alias: "farm",
+			sortBy,
+			sortOrder: sortOrder as SortOrder,
+			cursor,
+			limit,
+		});
+
+		return {
+			data: items.map((farm) =>
+				pickFields(this.mapToResponseDto(farm, include), fields, ["owners", "cropsByHarvest"]),
+			),
+			limit,
+			nextCursor,
+		};
+	}
+
+	/**
+	 * Retrieves farms as a GeoJSON FeatureCollection.
+	 *
+	 * Accepts the same pagination, sorting, filters and includes as {@link findAll}.
+	 * Each farm becomes a feature whose geometry is its boundary, or a point at
+	 * its coordinates when it has no boundary, or `null` when it has neither.
+	 * Features always have every field, as the geometry needs the location.
+	 *
+	 * @param query Query parameters for pagination, sorting, filtering, search and includes
+	 *
+	 * @returns FeatureCollection with one feature per farm of the requested page
+	 *
+	 * @example
+	 * ```typescript
+	 * const collection = await service.findAllAsFeatureCollection({ state: BrazilianState.SP });
+	 * // Returns: { type: "FeatureCollection", features: [{ type: "Feature", id: "...", geometry: {...}, properties: {...} }] }
+	 * ```
+	 */
+	public async findAllAsFeatureCollection(
+		query: FindAllFarmsDto = {},
+	): Promise<FarmsFeatureCollection> {
+		const { page = 1, limit = 10, include = [] } = query;
+
+		const farms = await this.createFindAllQuery(query, include)
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getMany();
+
+		return {
+			type: "FeatureCollection",
+			features: farms.map((farm) => this.mapToFeature(this.mapToResponseDto(farm, include))),
+		};
+	}
+
+	/**
+	 * Exports every farm matching the list filters as a CSV, XLSX or GeoJSON file.
+	 *
+	 * Farms are read in batches and written to the stream as they are read, so
+	 * large exports do not have to fit in memory. Numbers and dates are formatted
+	 * for the `API__LOCALE` locale, as are the spreadsheet headers.
+	 *
+	 * @param query List filters and sorting, plus the file format; pagination is ignored
+	 * @param output Stream receiving the file, ended once the file is complete
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.export({ format: ExportFormat.Xlsx, state: BrazilianState.SP }, response);
+	 * ```
+	 */
+	public async export(query: ExportFarmsDto, output: Writable): Promise<void> {
+		const { format } = query;
+
+		this.logger.debug({ format, query }, "Exporting farms");
+
+		if (format === ExportFormat.GeoJson) {
+			await this.writeFeatureCollection(query, output);
+			return;
+		}
+
+		const headers = FARM_EXPORT_HEADERS[env.API__LOCALE];
+
+		await writeSpreadsheet<Farm>(output, {
+			format,
+			sheetName: FARM_EXPORT_SHEET_NAME[env.API__LOCALE],
+			locale: env.API__LOCALE,
+			rows: this.findAllInBatches(query),
+			columns: [
+				{ header: headers.name, value: (farm) => farm.name },
+				{ header: headers.city, value: (farm) => farm.city },
+				{ header: headers.state, value: (farm) => farm.state },
+				{ header: headers.totalArea, value: (farm) => Number(farm.totalArea), decimals: 2 },
+				{ header: headers.arableArea, value: (farm) => Number(farm.arableArea), decimals: 2 },
+				{
+					header: headers.vegetationArea,
+					value: (farm) => Number(farm.vegetationArea),
+					decimals: 2,
+				},
+				{ header: headers.latitude, value: (farm) => farm.latitude ?? null, decimals: 6 },
+				{ header: headers.longitude, value: (farm) => farm.longitude ?? null, decimals: 6 },
+				{
+					header: headers.producerDocument,
+					value: (farm) => {
+						const document = farm.owners.find((owner) => owner.producerId === farm.producerId)
+							?.producer.document;
+
+						if (!document) return null;
+
+						// CPFs are masked as in producer responses
+						if (currentUserHasPermission(Permission.RevealPersonalData)) {
+							return formatDocument(document);
+						}
+
+						return formatDocument(maskDocument(document));
+					},
+				},
+				{
+					header: headers.owners,
+					value: (farm) =>
+						(this.mapToResponseDto(farm).owners ?? [])
+							.map((owner) => `${owner.producerName} (${String(owner.percentage)}%)`)
+							.join(", "),
+				},
+				{
+					header: headers.crops,
+					value: (farm) =>
+						(this.mapToResponseDto(farm).cropsByHarvest ?? [])
+							.map(
+								(entry) =>
+									`${entry.harvestYear}: ${entry.crops.map((crop) => crop.cropType).join(", ")}`,
+							)
+							.join("; "),
+				},
+				{ header: headers.createdAt, value: (farm) => farm.createdAt },
+			],
+		});
+
+		this.logger.info({ format }, "Farms exported successfully");
+	}
+
 	/**
 	 * Retrieves a single farm by ID.
 	 *
@@ -209,7 +478,10 @@ export class FarmsService {
 		const farm = await this.farmRepository
 			.createQueryBuilder("farm")
 			.leftJoinAndSelect("farm.farmHarvests", "farmHarvest")
+			.leftJoinAndSelect("farmHarvest.harvest", "harvest")
 			.leftJoinAndSelect("farmHarvest.crops", "crop")
+			.leftJoinAndSelect("farm.owners", "owner")
+			.leftJoinAndSelect("owner.producer", "ownerProducer")
 			.where("farm.id = :id", { id })
 			.getOne();
 
@@ -220,20 +492,64 @@ export class FarmsService {
 		return this.mapToResponseDto(farm);
 	}
 
+	/**
+	 * Evaluates the legal reserve (Reserva Legal) compliance of a farm.
+	 *
+	 * Compares the farm's vegetation area to the minimum share of its total
+	 * area required by the Forest Code for the biome of its municipality.
+	 *
+	 * @param id The UUID of the farm to evaluate
+	 *
+	 * @returns The compliance evaluation, including the deficit in hectares
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 *
+	 * @example
+	 * ```typescript
+	 * const compliance = await service.getCompliance("770e9600-g40d-63f6-c938-668877662222");
+	 * console.log(compliance.isCompliant, compliance.deficit);
+	 * ```
+	 */
+	public async getCompliance(id: string): Promise<FarmComplianceResponseDto> {
+		const farm = await this.farmRepository.findOneBy({ id });
+
+		if (!farm) {
+			throw new NotFoundException(`Farm with ID ${id} not found`);
+		}
+
+		return {
+			farmId: farm.id,
+			...evaluateLegalReserve({ ...farm, state: farm.state as BrazilianState }),
+		};
+	}
+
 	/**
 	 * Updates an existing farm.
 	 *
 	 * Allows partial updates - only provided fields will be updated.
 	 * If area fields are being updated, validates the new area constraints.
-	 * If producerId is being updated, verifies the new producer exists.
+	 * The owner cannot be changed here; see {@link transfer}.
+	 * If the boundary or total area is being updated, compares the resulting
+	 * boundary area to the resulting total area.
+	 * If cropsByHarvest is provided, replaces the crops of each listed harvest.
+	 * Planted areas are validated against the resulting arable area, including
+	 * harvests not listed when the arable area itself changes. Crops assigned to
+	 * plots must reference plots of this farm and fit in them, and plot areas
+	 * must still fit in a changed arable area.
+	 * If owners are provided, they replace the current shares and must include
+	 * the main owner. The farm, its owners and its crops are written in one
+	 * transaction, rolled back if someone else wrote the farm in the meantime.
 	 *
 	 * @param id The UUID of the farm to update
 	 * @param updateFarmDto The fields to update
+	 * @param ifMatch Versions the client expects the farm to be at, from the `If-Match` header
 	 *
 	 * @returns The updated farm
 	 *
-	 * @throws {NotFoundException} If the farm or new producer does not exist
-	 * @throws {BadRequestException} If new area validation fails
+	 * @throws {NotFoundException} If the farm, a co-owner or a referenced harvest does not exist
+	 * @throws {PreconditionFailedException} If the farm is not at any of the expected versions
+	 * @throws {BadRequestException} If new area or ownership validation fails, a crop is assigned to
+	 * an unknown or too small plot, or the boundary area exceeds the tolerance in reject mode
 	 *
 	 * @example
 	 * ```typescript
@@ -243,16 +559,18 @@ export class FarmsService {
 	 * );
 	 * ```
 	 */
-	public async update(id: string, updateFarmDto: UpdateFarmDto): Promise<FarmResponseDto> {
+	public async update(
+		id: string,
+		updateFarmDto: UpdateFarmDto,
+		ifMatch?: IfMatchVersions,
+	): Promise<FarmResponseDto> {
 		const farm = await this.farmRepository.findOne({ where: { id } });
 
 		if (!farm) {
 			throw new NotFoundException(`Farm with ID ${id} not found`);
 		}
 
-		if (updateFarmDto.producerId) {
-			await this.verifyProducerExists(updateFarmDto.producerId);
-		}
+		assertVersionMatches(`Farm with ID ${id}`, farm.version, ifMatch);
 
 		try {
 			assertValidFarmArea(
@@ -264,52 +582,385 @@ export class FarmsService {
 			throw new BadRequestException(error instanceof Error ? error.message : String(error));
 		}
 
-		const { crops, ...farmData } = updateFarmDto;
+		if (updateFarmDto.owners !== undefined) {
+			await this.verifyOwners(farm.producerId, updateFarmDto.owners);
+		}
 
-		Object.assign(farm, farmData);
-		const updatedFarm = await this.farmRepository.save(farm);
+		const { cropsByHarvest, owners, ...farmData } = updateFarmDto;
+		const listedHarvestIds = new Set(cropsByHarvest?.map((entry) => entry.harvestId));
+		const unlistedHarvests =
+			updateFarmDto.arableArea === undefined ?
+				[]
+			:	(
+					await this.farmHarvestRepository.find({
+						where: { farmId: id },
+						relations: { crops: true },
+					})
+				).filter((farmHarvest) => !listedHarvestIds.has(farmHarvest.harvestId));
+
+		this.validatePlantedAreas(updateFarmDto.arableArea ?? farm.arableArea, [
+			...(cropsByHarvest ?? []),
+			...unlistedHarvests,
+		]);
+
+		const plots =
+			updateFarmDto.arableArea !== undefined || (cropsByHarvest?.length ?? 0) > 0 ?
+				await this.farmPlotRepository.find({ where: { farmId: id } })
+			:	[];
+
+		if (updateFarmDto.arableArea !== undefined) {
+			const result = validatePlotAreas(
+				updateFarmDto.arableArea,
+				plots.map((plot) => plot.area),
+			);
 
-		if (crops !== undefined) {
-			await this.updateFarmCrops(id, crops);
+			if (!result.isValid) throw new BadRequestException(result.error);
 		}
 
+		if (cropsByHarvest !== undefined && cropsByHarvest.length > 0) {
+			await this.verifyHarvestsExist(cropsByHarvest.map((entry) => entry.harvestId));
+			this.validatePlotAssignments(plots, cropsByHarvest);
+		}
+
+		const boundary = updateFarmDto.boundary === undefined ? farm.boundary : updateFarmDto.boundary;
+
+		if (boundary && (updateFarmDto.boundary || updateFarmDto.totalArea !== undefined)) {
+			this.verifyBoundaryArea(
+				updateFarmDto.name ?? farm.name,
+				updateFarmDto.totalArea ?? farm.totalArea,
+				boundary,
+			);
+		}
+
+		const replacesCrops = cropsByHarvest !== undefined && cropsByHarvest.length > 0;
+
+		Object.assign(farm, farmData);
+
+		// Owners and crops live in other tables, so touch the farm to bump its version
+		if (owners !== undefined || replacesCrops) farm.updatedAt = new Date();
+
+		const updatedFarm = await this.farmRepository.manager.transaction(async (manager) => {
+			// Leaves the loaded version out, so a concurrent write is never overwritten with it
+			const { version, ...changes } = farm;
+
+			Object.assign(farm, await manager.save(Farm, changes));
+
+			if (owners !== undefined) await this.replaceOwners(manager, id, owners);
+
+			if (replacesCrops) await this.replaceHarvestCrops(manager, id, cropsByHarvest);
+
+			await assertNoConcurrentWrite(`Farm with ID ${id}`, manager, Farm, { id, version }, ifMatch);
+
+			return farm;
+		});
+
 		const farmWithRelations = await this.farmRepository.findOne({
 			where: { id },
-			relations: { farmHarvests: { crops: true } },
+			relations: { farmHarvests: { crops: true, harvest: true }, owners: { producer: true } },
 		});
 
 		return this.mapToResponseDto(farmWithRelations ?? updatedFarm);
 	}
 
 	/**
-	 * Deletes a farm by ID.
+	 * Transfers a farm to another producer.
 	 *
-	 * Note: This will also cascade delete all associated farm-harvest and
-	 * farm-harvest-crop records due to database foreign key constraints.
+	 * Records the previous and new owners, the effective date and the reason in
+	 * the farm's ownership history, in the same transaction as the owner change.
+	 * The previous owner's share passes to the new producer, added to their own
+	 * share when they already co-own the farm. The farm, its owners and its last
+	 * transfer are read in the same transaction, rolled back if someone else
+	 * wrote the farm in the meantime.
 	 *
-	 * @param id The UUID of the farm to delete
+	 * @param id The UUID of the farm to transfer
+	 * @param transferFarmDto The new owner, effective date and reason of the transfer
+	 * @param ifMatch Versions the client expects the farm to be at, from the `If-Match` header
+	 *
+	 * @returns The farm with its new owner
+	 *
+	 * @throws {NotFoundException} If the farm or the new producer does not exist
+	 * @throws {PreconditionFailedException} If the farm is not at any of the expected versions
+	 * @throws {BadRequestException} If the new producer already owns the farm, or the
+	 * effective date precedes the previous transfer of the farm
+	 *
+	 * @example
+	 * ```typescript
+	 * const farm = await service.transfer("770e9600-g40d-63f6-c938-668877662222", {
+	 *   newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+	 *   effectiveDate: "2025-07-01",
+	 *   reason: "Sale of the property",
+	 * });
+	 * ```
+	 */
+	public async transfer(
+		id: string,
+		transferFarmDto: TransferFarmDto,
+		ifMatch?: IfMatchVersions,
+	): Promise<FarmResponseDto> {
+		const { newProducerId, effectiveDate, reason } = transferFarmDto;
+
+		const previousProducerId = await this.farmRepository.manager.transaction(async (manager) => {
+			const farm = await manager.findOne(Farm, { where: { id }, relations: { owners: true } });
+
+			if (!farm) {
+				throw new NotFoundException(`Farm with ID ${id} not found`);
+			}
+
+			assertVersionMatches(`Farm with ID ${id}`, farm.version, ifMatch);
+
+			if (farm.producerId === newProducerId) {
+				throw new BadRequestException(`Farm is already owned by producer with ID ${newProducerId}`);
+			}
+
+			await this.verifyProducerExists(newProducerId);
+
+			const lastTransfer = await manager.findOne(FarmOwnershipHistory, {
+				where: { farmId: id },
+				order: { effectiveDate: SortOrder.Descending },
+			});
+
+			if (lastTransfer && effectiveDate < lastTransfer.effectiveDate) {
+				throw new BadRequestException(
+					`Effective date cannot precede the previous transfer of the farm (${lastTransfer.effectiveDate})`,
+				);
+			}
+
+			const previousShare = farm.owners.find((owner) => owner.producerId === farm.producerId);
+			const newOwnerShare = farm.owners.find((owner) => owner.producerId === newProducerId);
+
+			await manager.insert(FarmOwnershipHistory, {
+				farmId: id,
+				previousProducerId: farm.producerId,
+				newProducerId,
+				effectiveDate,
+				reason,
+			});
+			await manager.save(Farm, { id, producerId: newProducerId });
+
+			if (newOwnerShare) {
+				await manager.update(FarmOwner, newOwnerShare.id, {
+					percentage: Number(
+						(Number(newOwnerShare.percentage) + Number(previousShare?.percentage ?? 0)).toFixed(2),
+					),
+				});
+				await manager.delete(FarmOwner, { farmId: id, producerId: farm.producerId });
+			} else {
+				await manager.update(
+					FarmOwner,
+					{ farmId: id, producerId: farm.producerId },
+					{ producerId: newProducerId },
+				);
+			}
+
+			await assertNoConcurrentWrite(
+				`Farm with ID ${id}`,
+				manager,
+				Farm,
+				{ id, version: farm.version },
+				ifMatch,
+			);
+
+			return farm.producerId;
+		});
+
+		this.logger.info(
+			{ farmId: id, previousProducerId, newProducerId },
+			"Farm transferred successfully",
+		);
+
+		return this.findOne(id);
+	}
+
+	/**
+	 * Retrieves the ownership history of a farm.
+	 *
+	 * @param id The UUID of the farm
+	 *
+	 * @returns The transfers of the farm, most recent first
 	 *
 	 * @throws {NotFoundException} If the farm does not exist
 	 *
 	 * @example
 	 * ```typescript
+	 * const history = await service.findOwnershipHistory("770e9600-g40d-63f6-c938-668877662222");
+	 * ```
+	 */
+	public async findOwnershipHistory(id: string): Promise<Array<FarmOwnershipHistoryResponseDto>> {
+		const farmExists = await this.farmRepository.exists({ where: { id } });
+
+		if (!farmExists) {
+			throw new NotFoundException(`Farm with ID ${id} not found`);
+		}
+
+		return this.findOwnershipHistoryBy({ farmId: id });
+	}
+
+	/**
+	 * Retrieves the farms a producer previously owned, from the transfers in
+	 * which the producer was the previous owner.
+	 *
+	 * @param producerId The UUID of the producer
+	 *
+	 * @returns The transfers out of the producer, most recent first
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 *
+	 * @example
+	 * ```typescript
+	 * const transfers = await service.findPreviouslyOwnedByProducer("550e8400-e29b-41d4-a716-446655440000");
+	 * ```
+	 */
+	public async findPreviouslyOwnedByProducer(
+		producerId: string,
+	): Promise<Array<FarmOwnershipHistoryResponseDto>> {
+		await this.verifyProducerExists(producerId);
+
+		return this.findOwnershipHistoryBy({ previousProducerId: producerId });
+	}
+
+	/**
+	 * Moves a farm to the trash.
+	 *
+	 * The farm is soft-deleted and excluded from every list and statistic, with
+	 * its harvests, plots and shares kept until it is restored or purged.
+	 *
+	 * @param id The UUID of the farm to delete
+	 * @param ifMatch Versions the client expects the farm to be at, from the `If-Match` header
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or is already in the trash
+	 * @throws {PreconditionFailedException} If the farm is not at any of the expected versions
+	 *
+	 * @example
+	 * ```typescript
 	 * await service.delete("770e9600-g40d-63f6-c938-668877662222");
 	 * ```
 	 */
-	public async delete(id: string): Promise<void> {
-		const result = await this.farmRepository.delete(id);
+	public async delete(id: string, ifMatch?: IfMatchVersions): Promise<void> {
+		const farm = await this.farmRepository.findOne({
+			where: { id },
+			select: { id: true, version: true },
+		});
 
-		if (result.affected === 0) {
+		if (!farm) {
 			throw new NotFoundException(`Farm with ID ${id} not found`);
 		}
+
+		assertVersionMatches(`Farm with ID ${id}`, farm.version, ifMatch);
+
+		await this.farmRepository.manager.transaction(async (manager) => {
+			await manager.save(Farm, { id, deletedAt: new Date() });
+			await assertNoConcurrentWrite(`Farm with ID ${id}`, manager, Farm, farm, ifMatch);
+		});
+	}
+
+	/**
+	 * Restores a farm from the trash.
+	 *
+	 * @param id The UUID of the farm to restore
+	 *
+	 * @returns The restored farm
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 * @throws {BadRequestException} If the farm is not in the trash, or its producer is
+	 *
+	 * @example
+	 * ```typescript
+	 * const farm = await service.restore("770e9600-g40d-63f6-c938-668877662222");
+	 * ```
+	 */
+	public async restore(id: string): Promise<FarmResponseDto> {
+		const farm = await this.findWithDeleted(id);
+
+		if (!farm.deletedAt) {
+			throw new BadRequestException(`Farm with ID ${id} is not in the trash`);
+		}
+
+		if (!farm.producer || farm.producer.deletedAt) {
+			throw new BadRequestException(
+				`Producer with ID ${farm.producerId} is in the trash and must be restored first`,
+			);
+		}
+
+		await this.farmRepository.save({ id, deletedAt: null });
+
+		this.logger.info({ farmId: id }, "Farm restored successfully");
+
+		return this.findOne(id);
+	}
+
+	/**
+	 * Permanently deletes a farm from the trash.
+	 *
+	 * Note: This will also cascade delete all associated farm-harvest,
+	 * farm-harvest-crop, plot and share records due to database foreign key constraints.
+	 *
+	 * @param id The UUID of the farm to purge
+	 * @param ifMatch Versions the client expects the farm to be at, from the `If-Match` header
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 * @throws {BadRequestException} If the farm is not in the trash
+	 * @throws {PreconditionFailedException} If the farm is not at any of the expected versions
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.purge("770e9600-g40d-63f6-c938-668877662222");
+	 * ```
+	 */
+	public async purge(id: string, ifMatch?: IfMatchVersions): Promise<void> {
+		const farm = await this.findWithDeleted(id);
+
+		if (!farm.deletedAt) {
+			throw new BadRequestException(
+				`Farm with ID ${id} must be moved to the trash before being purged`,
+			);
+		}
+
+		assertVersionMatches(`Farm with ID ${id}`, farm.version, ifMatch);
+
+		await this.farmRepository.manager.transaction(async (manager) => {
+			await claimVersion(`Farm with ID ${id}`, manager, Farm, id, ifMatch);
+			await manager.remove(farm);
+		});
+
+		this.logger.info({ farmId: id }, "Farm purged successfully");
 	}
 
 	/**
-	 * Retrieves all farms owned by a specific producer.
+	 * Retrieves the farms in the trash, including those deleted along with their producer.
+	 *
+	 * @returns The deleted farms, most recently deleted first
+	 *
+	 * @example
+	 * ```typescript
+	 * const trash = await service.findDeleted();
+	 * ```
+	 */
+	public async findDeleted(): Promise<Array<DeletedFarmResponseDto>> {
+		const farms = await this.farmRepository.find({
+			where: { deletedAt: Not(IsNull()) },
+			relations: { producer: true },
+			withDeleted: true,
+			order: { deletedAt: SortOrder.Descending },
+		});
+
+		return farms.map((farm) => ({
+			id: farm.id,
+			name: farm.name,
+			city: farm.city,
+			state: farm.state as BrazilianState,
+			producerId: farm.producerId,
+			producerName: farm.producer.name,
+			producerDeleted: farm.producer.deletedAt !== null,
+			deletedAt: farm.deletedAt as Date,
+		}));
+	}
+
+	/**
+	 * Retrieves all farms owned or co-owned by a specific producer.
 	 *
 	 * @param producerId The UUID of the producer
 	 *
-	 * @returns Array of farms owned by the producer
+	 * @returns Array of farms in which the producer holds a share
 	 *
 	 * @example
 	 * ```typescript
@@ -320,8 +971,11 @@ export class FarmsService {
 		const farms = await this.farmRepository
 			.createQueryBuilder("farm")
 			.leftJoinAndSelect("farm.farmHarvests", "farmHarvest")
+			.leftJoinAndSelect("farmHarvest.harvest", "harvest")
 			.leftJoinAndSelect("farmHarvest.crops", "crop")
-			.where("farm.producerId = :producerId", { producerId })
+			.leftJoinAndSelect("farm.owners", "owner")
+			.leftJoinAndSelect("owner.producer", "ownerProducer")
+			.where(OWNED_BY_PRODUCER_CONDITION, { producerId })
 			.orderBy("farm.name", "ASC")
 			.getMany();
 
@@ -344,7 +998,10 @@ export class FarmsService {
 		const farms = await this.farmRepository
 			.createQueryBuilder("farm")
 			.leftJoinAndSelect("farm.farmHarvests", "farmHarvest")
+			.leftJoinAndSelect("farmHarvest.harvest", "harvest")
 			.leftJoinAndSelect("farmHarvest.crops", "crop")
+			.leftJoinAndSelect("farm.owners", "owner")
+			.leftJoinAndSelect("owner.producer", "ownerProducer")
 			.where("farm.state = :state", { state })
 			.orderBy("farm.name", "ASC")
 			.getMany();
@@ -440,45 +1097,288 @@ export class FarmsService {
 	/**
 	 * Gets crop distribution statistics across all farms.
 	 *
-	 * Counts the number of unique farms growing each crop type by aggregating
-	 * farm-harvest-crop associations. This provides data for the dashboard
-	 * crops distribution pie chart.
+	 * Counts the number of unique farms growing each crop type and sums the
+	 * hectares planted with it by aggregating farm-harvest-crop associations.
+	 * This provides data for the dashboard crops distribution pie chart.
 	 *
 	 * ## Implementation Details
 	 * - Uses DISTINCT farm_harvest.farm_id to count unique farms per crop
-	 * - Joins through farm_harvest to access farm relationships
+	 * - Sums planted_area across all harvests (unknown areas are ignored)
+	 * - Joins through farm_harvest to the farm, leaving out farms in the trash
 	 * - Groups by crop_type to aggregate counts
 	 *
-	 * @returns Array of objects with crop type and count of farms growing it
+	 * @returns Array of objects with crop type, count of farms growing it and planted hectares
 	 *
 	 * @example
 	 * ```typescript
 	 * const distribution = await service.getCropsDistribution();
 	 * // Returns: [
-	 * //   { cropType: "soy", count: 15 },
-	 * //   { cropType: "corn", count: 12 },
-	 * //   { cropType: "coffee", count: 8 }
+	 * //   { cropType: "soy", count: 15, plantedArea: 820.5 },
+	 * //   { cropType: "corn", count: 12, plantedArea: 410 },
+	 * //   { cropType: "coffee", count: 8, plantedArea: 95.25 }
 	 * // ]
 	 * ```
 	 */
 	public async getCropsDistribution(): Promise<Array<CropDistribution>> {
-		const results: Array<{ cropType: string; count: string }> = await this.farmHarvestCropRepository
-			.createQueryBuilder("fhc")
-			.innerJoin("fhc.farmHarvest", "fh")
-			.select("fhc.cropType", "cropType")
-			.addSelect("COUNT(DISTINCT fh.farmId)", "count")
-			.groupBy("fhc.cropType")
-			.orderBy("count", "DESC")
-			.getRawMany();
+		const results: Array<{ cropType: string; count: string; plantedArea: string | null }> =
+			await this.farmHarvestCropRepository
+				.createQueryBuilder("fhc")
+				.innerJoin("fhc.farmHarvest", "fh")
+				.innerJoin("fh.farm", "farm")
+				.select("fhc.cropType", "cropType")
+				.addSelect("COUNT(DISTINCT fh.farmId)", "count")
+				.addSelect("SUM(fhc.plantedArea)", "plantedArea")
+				.groupBy("fhc.cropType")
+				.orderBy("count", "DESC")
+				.getRawMany();
 
 		return results.map((result) => {
 			return {
-				cropType: result.cropType as CropType,
+				cropType: result.cropType,
 				count: Number.parseInt(result.count, 10),
+				plantedArea: Number.parseFloat(result.plantedArea ?? "0") || 0,
 			};
 		});
 	}
 
+	/**
+	 * Creates the query listing farms, filtered and sorted, with the included relations.
+	 *
+	 * The search matches words of the name through the `farms_search` full-text
+	 * table, ignoring case and accents. Crops are matched through subqueries,
+	 * so they work without including the crops, and every crop of a matching
+	 * farm is loaded when included.
+	 *
+	 * @param query List filters and sorting; pagination is left to the caller
+	 * @param include Relations to join
+	 *
+	 * @returns Query builder selecting the matching farms
+	 */
+	private createFindAllQuery(
+		query: FindAllFarmsDto,
+		include: ReadonlyArray<FarmInclude>,
+	): SelectQueryBuilder<Farm> {
+		const {
+			sortBy = FarmSortField.Name,
+			sortOrder = SortOrder.Ascending,
+			search,
+			state,
+			city,
+			producerId,
+			crops,
+			cropsMatch = CropsMatch.Any,
+			states,
+			minTotalArea,
+			maxTotalArea,
+			minArablePercentage,
+			maxArablePercentage,
+			createdFrom,
+			createdTo,
+		} = query;
+
+		const qb = this.farmRepository.createQueryBuilder("farm");
+
+		if (include.includes(FarmInclude.Crops)) {
+			qb.leftJoinAndSelect("farm.farmHarvests", "farmHarvest")
+				.leftJoinAndSelect("farmHarvest.harvest", "harvest")
+				.leftJoinAndSelect("farmHarvest.crops", "crop");
+		}
+
+		if (include.includes(FarmInclude.Owners)) {
+			qb.leftJoinAndSelect("farm.owners", "owner").leftJoinAndSelect(
+				"owner.producer",
+				"ownerProducer",
+			);
+		}
+
+		const fullTextQuery = search && toFullTextQuery(search, ["name"]);
+		if (fullTextQuery) qb.andWhere(FARM_SEARCH_CONDITION, { search: fullTextQuery });
+		if (state) qb.andWhere("farm.state = :state", { state });
+		if (states && states.length > 0) qb.andWhere("farm.state IN (:...states)", { states });
+		if (city) qb.andWhere("farm.city = :city", { city });
+		if (producerId) qb.andWhere(OWNED_BY_PRODUCER_CONDITION, { producerId });
+		if (crops && crops.length > 0) {
+			const distinctCrops = [...new Set(crops)];
+
+			qb.andWhere(CROPS_MATCH_CONDITIONS[cropsMatch], {
+				crops: distinctCrops,
+				cropCount: distinctCrops.length,
+			});
+		}
+
+		if (minTotalArea !== undefined) {
+			qb.andWhere("farm.totalArea >= :minTotalArea", { minTotalArea });
+		}
+
+		if (maxTotalArea !== undefined) {
+			qb.andWhere("farm.totalArea <= :maxTotalArea", { maxTotalArea });
+		}
+
+		if (minArablePercentage !== undefined) {
+			qb.andWhere("farm.arableArea * 100 >= farm.totalArea * :minArablePercentage", {
+				minArablePercentage,
+			});
+		}
+
+		if (maxArablePercentage !== undefined) {
+			qb.andWhere("farm.arableArea * 100 <= farm.totalArea * :maxArablePercentage", {
+				maxArablePercentage,
+			});
+		}
+
+		if (createdFrom) {
+			qb.andWhere("farm.createdAt >= :createdFrom", { createdFrom: new Date(createdFrom) });
+		}
+
+		if (createdTo) {
+			qb.andWhere("farm.createdAt <= :createdTo", { createdTo: new Date(createdTo) });
+		}
+
+		qb.orderBy(`farm.${sortBy}`, sortOrder as SortOrder);
+
+		return qb;
+	}
+
+	/**
+	 * Reads every farm matching the list filters, {@link EXPORT_BATCH_SIZE} farms at a time.
+	 *
+	 * Ties in the requested order are broken by ID, so no farm is skipped or
+	 * repeated between batches.
+	 *
+	 * @param query List filters and sorting; pagination and includes are ignored
+	 *
+	 * @returns Batches of farms, with their crops and owners
+	 */
+	private async *findAllInBatches(query: FindAllFarmsDto): AsyncGenerator<Array<Farm>> {
+		for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+			const farms = await this.createFindAllQuery(query, Object.values(FarmInclude))
+				.addOrderBy("farm.id")
+				.skip(skip)
+				.take(EXPORT_BATCH_SIZE)
+				.getMany();
+
+			if (farms.length > 0) yield farms;
+			if (farms.length < EXPORT_BATCH_SIZE) return;
+		}
+	}
+
+	/**
+	 * Writes every farm matching the list filters as a GeoJSON FeatureCollection.
+	 *
+	 * @param query List filters and sorting; pagination is ignored
+	 * @param output Stream receiving the file, ended once the file is complete
+	 */
+	private async writeFeatureCollection(query: FindAllFarmsDto, output: Writable): Promise<void> {
+		let separator = "";
+
+		output.write('{"type":"FeatureCollection","features":[');
+
+		for await (const farms of this.findAllInBatches(query)) {
+			const features = farms.map((farm) =>
+				JSON.stringify(this.mapToFeature(this.mapToResponseDto(farm))),
+			);
+
+			if (!output.write(`${separator}${features.join(",")}`)) await once(output, "drain");
+
+			separator = ",";
+		}
+
+		output.end("]}");
+	}
+
+	/**
+	 * Lists ownership history entries with their farm and producers, most recent first.
+	 *
+	 * Entries of farms in the trash are left out.
+	 *
+	 * @param where Filter on the farm or the previous owner
+	 *
+	 * @returns The matching history entries
+	 */
+	private async findOwnershipHistoryBy(
+		where: FindOptionsWhere<FarmOwnershipHistory>,
+	): Promise<Array<FarmOwnershipHistoryResponseDto>> {
+		const entries = await this.ownershipHistoryRepository.find({
+			where,
+			relations: { farm: true, previousProducer: true, newProducer: true },
+			order: { effectiveDate: SortOrder.Descending, createdAt: SortOrder.Descending },
+		});
+
+		return entries
+			.filter((entry) => entry.farm)
+			.map((entry) => ({
+				id: entry.id,
+				farmId: entry.farmId,
+				farmName: entry.farm.name,
+				previousProducerId: entry.previousProducerId,
+				previousProducerName: entry.previousProducer?.name ?? null,
+				newProducerId: entry.newProducerId,
+				newProducerName: entry.newProducer?.name ?? null,
+				effectiveDate: entry.effectiveDate,
+				reason: entry.reason,
+				createdAt: entry.createdAt,
+			}));
+	}
+
+	/**
+	 * Retrieves a farm by ID with its main owner, including farms and producers in the trash.
+	 *
+	 * @param id The UUID of the farm
+	 *
+	 * @returns The farm
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	private async findWithDeleted(id: string): Promise<Farm> {
+		const farm = await this.farmRepository.findOne({
+			where: { id },
+			relations: { producer: true },
+			withDeleted: true,
+		});
+
+		if (!farm) {
+			throw new NotFoundException(`Farm with ID ${id} not found`);
+		}
+
+		return farm;
+	}
+
+	/**
+	 * Validates the owners of a farm and verifies that the co-owners exist.
+	 *
+	 * @param producerId The UUID of the farm's main owner, who must hold a share
+	 * @param owners The owners of the farm with their shares
+	 *
+	 * @throws {BadRequestException} If the main owner holds no share, or the shares do not add up to 100%
+	 * @throws {NotFoundException} If any of the co-owners does not exist
+	 */
+	private async verifyOwners(producerId: string, owners: Array<FarmOwnerDto>): Promise<void> {
+		if (!owners.some((owner) => owner.producerId === producerId)) {
+			throw new BadRequestException(`Owners must include the main producer with ID ${producerId}`);
+		}
+
+		const result = validateOwnershipShares(owners.map((owner) => owner.percentage));
+
+		if (!result.isValid) throw new BadRequestException(result.error);
+
+		const coOwnerIds = owners
+			.map((owner) => owner.producerId)
+			.filter((ownerId) => ownerId !== producerId);
+
+		if (coOwnerIds.length === 0) return;
+
+		const producers = await this.producerRepository.find({
+			select: { id: true },
+			where: { id: In(coOwnerIds) },
+		});
+		const foundIds = new Set(producers.map((producer) => producer.id));
+		const missingId = coOwnerIds.find((ownerId) => !foundIds.has(ownerId));
+
+		if (missingId !== undefined) {
+			throw new NotFoundException(`Producer with ID ${missingId} not found`);
+		}
+	}
+
 	/**
 	 * Verifies that a producer exists in the database.
 	 *
@@ -495,143 +1395,249 @@ export class FarmsService {
 	}
 
 	/**
-	 * Gets or creates the current harvest year.
+	 * Verifies that all referenced harvests exist in the database.
+	 *
+	 * Harvests are never created implicitly; they must be registered through
+	 * the harvests endpoints before crops can be recorded against them.
 	 *
-	 * Creates a harvest record for the current year if it doesn't exist.
-	 * This is used as the default harvest for new farms.
+	 * @param harvestIds The UUIDs of the harvests to verify
 	 *
-	 * @returns The current harvest entity
+	 * @throws {NotFoundException} If any of the harvests does not exist
 	 */
-	private async getCurrentHarvest(): Promise<Harvest> {
-		const currentYear = new Date().getFullYear();
-		const yearStr = String(currentYear);
-
-		let harvest = await this.harvestRepository.findOne({ where: { year: yearStr } });
-
-		if (!harvest) {
-			this.logger.info({ year: yearStr }, "Creating harvest for current year");
-
-			harvest = this.harvestRepository.create({
-				year: yearStr,
-				description: `Safra ${yearStr}/${String(currentYear + 1)}`,
-			});
+	private async verifyHarvestsExist(harvestIds: Array<string>): Promise<void> {
+		const harvests = await this.harvestRepository.find({
+			select: { id: true },
+			where: { id: In(harvestIds) },
+		});
+		const foundIds = new Set(harvests.map((harvest) => harvest.id));
+		const missingId = harvestIds.find((harvestId) => !foundIds.has(harvestId));
 
-			await this.harvestRepository.save(harvest);
+		if (missingId !== undefined) {
+			throw new NotFoundException(`Harvest with ID ${missingId} not found`);
 		}
+	}
 
-		return harvest;
+	/**
+	 * Validates that the planted areas of each harvest fit in the farm's arable area.
+	 *
+	 * Crops without a known planted area are ignored.
+	 *
+	 * @param arableArea The arable area of the farm in hectares
+	 * @param harvests The crops of each harvest to validate
+	 *
+	 * @throws {BadRequestException} If the planted areas of any harvest exceed the arable area
+	 */
+	private validatePlantedAreas(
+		arableArea: number,
+		harvests: Array<{ crops: Array<{ plantedArea?: number | null }> }>,
+	): void {
+		try {
+			for (const { crops } of harvests) {
+				assertValidPlantedArea(
+					arableArea,
+					crops.flatMap((crop) => crop.plantedArea ?? []),
+				);
+			}
+		} catch (error) {
+			throw new BadRequestException(error instanceof Error ? error.message : String(error));
+		}
 	}
 
 	/**
-	 * Associates crops with a farm through the current harvest.
+	 * Validates the crops assigned to plots in each harvest.
 	 *
-	 * Creates FarmHarvest and FarmHarvestCrop records to link the farm
-	 * with the specified crop types.
+	 * Every referenced plot must belong to the farm, and the planted areas of the
+	 * crops assigned to a plot in a harvest cannot exceed the plot area. Crops
+	 * without a known planted area are ignored.
 	 *
-	 * @param farmId The UUID of the farm
-	 * @param crops Array of crop types to associate
+	 * @param plots The plots of the farm
+	 * @param cropsByHarvest Crops to record, grouped per harvest
+	 *
+	 * @throws {BadRequestException} If a plot does not belong to the farm, or the planted areas
+	 * of a plot exceed its area
 	 */
-	private async associateCropsWithFarm(farmId: string, crops: Array<CropType>): Promise<void> {
-		const harvest = await this.getCurrentHarvest();
+	private validatePlotAssignments(
+		plots: Array<FarmPlot>,
+		cropsByHarvest: Array<HarvestCropsDto>,
+	): void {
+		const plotsById = new Map(plots.map((plot) => [plot.id, plot]));
 
-		let farmHarvest = await this.farmHarvestRepository.findOne({
-			where: { farmId, harvestId: harvest.id },
-		});
+		for (const { crops } of cropsByHarvest) {
+			const cropsByPlot = Map.groupBy(crops, (crop) => crop.plotId);
 
-		if (!farmHarvest) {
-			farmHarvest = this.farmHarvestRepository.create({
-				farmId,
-				harvestId: harvest.id,
-			});
+			for (const [plotId, plotCrops] of cropsByPlot) {
+				if (plotId === undefined) continue;
+
+				const plot = plotsById.get(plotId);
+
+				if (!plot) {
+					throw new BadRequestException(`Plot with ID ${plotId} does not belong to this farm`);
+				}
 
-			await this.farmHarvestRepository.save(farmHarvest);
+				const result = validatePlotPlantedArea(
+					plot.area,
+					plotCrops.flatMap((crop) => crop.plantedArea ?? []),
+				);
+
+				if (!result.isValid) throw new BadRequestException(`Plot ${plot.name}: ${result.error}`);
+			}
 		}
+	}
 
-		const cropEntities = crops.map((cropType) =>
-			this.farmHarvestCropRepository.create({
-				farmHarvestId: farmHarvest.id,
-				cropType,
-			}),
+	/**
+	 * Compares the geodesic area of a farm boundary to its declared total area.
+	 *
+	 * Differences beyond `API__FARM_BOUNDARY_AREA_TOLERANCE` are rejected or only
+	 * logged, depending on `API__FARM_BOUNDARY_AREA_MISMATCH`.
+	 *
+	 * @param farmName Name of the farm, for logging
+	 * @param totalArea Declared total area of the farm in hectares
+	 * @param boundary Boundary of the farm
+	 *
+	 * @throws {BadRequestException} If the difference exceeds the tolerance in reject mode
+	 */
+	private verifyBoundaryArea(farmName: string, totalArea: number, boundary: FarmBoundary): void {
+		const boundaryArea = calculateGeodesicArea(boundary);
+		const result = validateBoundaryArea(
+			totalArea,
+			boundaryArea,
+			env.API__FARM_BOUNDARY_AREA_TOLERANCE,
 		);
 
-		await this.farmHarvestCropRepository.save(cropEntities);
+		if (result.isValid) return;
 
-		this.logger.info(
-			{ farmId, harvestId: harvest.id, cropCount: crops.length },
-			"Associated crops with farm",
-		);
+		if (env.API__FARM_BOUNDARY_AREA_MISMATCH === BoundaryAreaMismatchMode.Reject) {
+			throw new BadRequestException(result.error);
+		}
+
+		this.logger.warn({ farmName, totalArea, boundaryArea }, result.error);
 	}
 
 	/**
-	 * Updates crops for a farm in the current harvest.
+	 * Replaces the crops recorded for a farm in each of the given harvests.
 	 *
-	 * Removes existing crop associations for the current harvest and creates
-	 * new ones based on the provided crop types.
+	 * For every entry, crops no longer listed are removed, crops still listed keep
+	 * their record (and production history) with an updated planted area, and new
+	 * crops are added. A crop is identified by its type and plot. An entry with an empty crops array removes the farm from
+	 * the harvest entirely. Harvests not listed are left untouched.
 	 *
+	 * @param manager Entity manager of the transaction writing the farm
 	 * @param farmId The UUID of the farm
-	 * @param crops Array of crop types (empty array removes all crops)
+	 * @param cropsByHarvest Crops to record, grouped per harvest
 	 */
-	private async updateFarmCrops(farmId: string, crops: Array<CropType>): Promise<void> {
-		const harvest = await this.getCurrentHarvest();
+	private async replaceHarvestCrops(
+		manager: EntityManager,
+		farmId: string,
+		cropsByHarvest: Array<HarvestCropsDto>,
+	): Promise<void> {
+		for (const { harvestId, crops } of cropsByHarvest) {
+			let farmHarvest = await manager.findOne(FarmHarvest, {
+				where: { farmId, harvestId },
+				relations: { crops: true },
+			});
 
-		const farmHarvest = await this.farmHarvestRepository.findOne({
-			where: { farmId, harvestId: harvest.id },
-			relations: { crops: true },
-		});
+			if (crops.length === 0) {
+				if (farmHarvest) {
+					await manager.remove(FarmHarvestCrop, farmHarvest.crops);
+					await manager.remove(FarmHarvest, farmHarvest);
+				}
 
-		if (farmHarvest) {
-			if (farmHarvest.crops.length > 0) {
-				await this.farmHarvestCropRepository.remove(farmHarvest.crops);
+				continue;
 			}
 
-			if (crops.length > 0) {
-				const cropEntities = crops.map((cropType) =>
-					this.farmHarvestCropRepository.create({
-						farmHarvestId: farmHarvest.id,
-						cropType,
-					}),
-				);
-
-				await this.farmHarvestCropRepository.save(cropEntities);
+			if (!farmHarvest) {
+				farmHarvest = manager.create(FarmHarvest, { farmId, harvestId, crops: [] });
+				await manager.save(FarmHarvest, farmHarvest);
 			}
-		} else if (crops.length > 0) {
-			await this.associateCropsWithFarm(farmId, crops);
+
+			const { id: farmHarvestId, crops: existingCrops } = farmHarvest;
+			const isSameCrop = (
+				crop: { cropType: string; plotId?: string | null },
+				other: { cropType: string; plotId?: string | null },
+			): boolean =>
+				crop.cropType === other.cropType && (crop.plotId ?? null) === (other.plotId ?? null);
+			const removedCrops = existingCrops.filter(
+				(existingCrop) => !crops.some((crop) => isSameCrop(crop, existingCrop)),
+			);
+			const cropEntities = crops.map(({ cropType, plantedArea, plotId }) => {
+				const existingCrop = existingCrops.find((crop) => isSameCrop(crop, { cropType, plotId }));
+
+				return manager.create(FarmHarvestCrop, {
+					...existingCrop,
+					farmHarvestId,
+					cropType,
+					plantedArea: plantedArea ?? null,
+					plotId: plotId ?? null,
+				});
+			});
+
+			if (removedCrops.length > 0) await manager.remove(FarmHarvestCrop, removedCrops);
+
+			await manager.save(FarmHarvestCrop, cropEntities);
 		}
 
 		this.logger.info(
-			{ farmId, harvestId: harvest.id, cropCount: crops.length },
-			"Updated farm crops",
+			{ farmId, harvestIds: cropsByHarvest.map((entry) => entry.harvestId) },
+			"Updated farm crops by harvest",
+		);
+	}
+
+	/**
+	 * Replaces the owners of a farm with the given shares.
+	 *
+	 * @param manager Entity manager of the transaction writing the farm
+	 * @param farmId The UUID of the farm
+	 * @param owners The owners of the farm with their shares, already validated
+	 */
+	private async replaceOwners(
+		manager: EntityManager,
+		farmId: string,
+		owners: Array<FarmOwnerDto>,
+	): Promise<void> {
+		await manager.delete(FarmOwner, { farmId });
+		await manager.save(
+			FarmOwner,
+			owners.map(({ producerId, percentage }) =>
+				manager.create(FarmOwner, { farmId, producerId, percentage }),
+			),
+		);
+
+		this.logger.info(
+			{ farmId, ownerIds: owners.map((owner) => owner.producerId) },
+			"Updated farm owners",
 		);
 	}
 
 	/**
 	 * Maps a {@link Farm} entity to a {@link FarmResponseDto}.
 	 *
-	 * Extracts unique crop types from all farm harvests and flattens them
-	 * into a single array of crop types for the response.
+	 * Groups the crops of each farm harvest into one entry per harvest,
+	 * ordered by harvest year (most recent first). Harvests without crops are omitted.
+	 * Owners are ordered by share, largest first. Crops and owners are only
+	 * mapped when included.
 	 *
-	 * @param farm The farm entity to map (with eagerly loaded farmHarvests and crops)
+	 * @param farm The farm entity to map, with the included relations loaded
+	 * @param include Relations to map, every relation by default
 	 *
-	 * @returns The mapped response DTO with flattened crops array
+	 * @returns The mapped response DTO with crops grouped per harvest
 	 */
 	private mapToResponseDto(
-		farm:
-			| Farm
-			| (Omit<Farm, "farmHarvests"> & {
-					farmHarvests?: Array<{ crops?: Array<{ cropType?: CropType }> }>;
-			  }),
+		farm: Farm,
+		include: ReadonlyArray<FarmInclude> = Object.values(FarmInclude),
 	): FarmResponseDto {
-		const cropSet = new Set<string>();
-
-		if (Array.isArray(farm.farmHarvests) && farm.farmHarvests.length > 0) {
-			for (const farmHarvest of farm.farmHarvests) {
-				const harvestCrops = Array.isArray(farmHarvest.crops) ? farmHarvest.crops : [];
-
-				for (const crop of harvestCrops) {
-					if (crop.cropType) cropSet.add(crop.cropType);
-				}
-			}
-		}
+		const farmHarvests = Array.isArray(farm.farmHarvests) ? farm.farmHarvests : [];
+		const cropsByHarvest: Array<HarvestCropsResponseDto> = farmHarvests
+			.filter((farmHarvest) => Array.isArray(farmHarvest.crops) && farmHarvest.crops.length > 0)
+			.map((farmHarvest) => ({
+				harvestId: farmHarvest.harvestId,
+				harvestYear: farmHarvest.harvest?.year ?? "",
+				crops: farmHarvest.crops.map(({ cropType, plantedArea, plotId }) => ({
+					cropType,
+					plantedArea: plantedArea ?? null,
+					plotId: plotId ?? null,
+				})),
+			}))
+			.sort((a, b) => b.harvestYear.localeCompare(a.harvestYear));
 
 		return {
 			id: farm.id,
@@ -641,10 +1647,58 @@ export class FarmsService {
 			totalArea: farm.totalArea,
 			arableArea: farm.arableArea,
 			vegetationArea: farm.vegetationArea,
+			latitude: farm.latitude ?? null,
+			longitude: farm.longitude ?? null,
+			boundary: farm.boundary ?? null,
+			boundaryArea: farm.boundary ? Number(calculateGeodesicArea(farm.boundary).toFixed(2)) : null,
 			producerId: farm.producerId,
-			crops: Array.from(cropSet),
+			...(include.includes(FarmInclude.Owners) && {
+				// Owners in the trash are not joined, so they are left out
+				owners: (farm.owners ?? [])
+					.filter((owner) => owner.producer)
+					.map((owner) => ({
+						producerId: owner.producerId,
+						producerName: owner.producer.name,
+						percentage: Number(owner.percentage),
+					}))
+					.sort((a, b) => b.percentage - a.percentage),
+			}),
+			...(include.includes(FarmInclude.Crops) && { cropsByHarvest }),
 			createdAt: farm.createdAt,
 			updatedAt: farm.updatedAt,
+			version: farm.version,
+		};
+	}
+	/**
+	 * Maps a farm to a GeoJSON feature.
+	 *
+	 * The geometry is the farm boundary, or a point at its coordinates when it
+	 * has no boundary, or `null` when it has neither.
+	 *
+	 * @param farm The farm to map
+	 *
+	 * @returns Feature with the other farm fields as properties
+	 */
+	private mapToFeature({
+		latitude,
+		longitude,
+		boundary,
+		...properties
+	}: FarmResponseDto): FarmsFeatureCollection["features"][number] {
+		return {
+			type: "Feature",
+			id: properties.id,
+			geometry:
+				boundary ??
+				(latitude !== null && longitude !== null ?
+					{ type: "Point", coordinates: [longitude, latitude] }
+				:	null),
+			properties: {
+				...properties,
+				state: properties.state as BrazilianState,
+				createdAt: properties.createdAt.toISOString(),
+				updatedAt: properties.updatedAt.toISOString(),
+			},
 		};
 	}
 }
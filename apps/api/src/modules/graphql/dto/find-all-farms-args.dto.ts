@@ -0,0 +1,33 @@
+import { ArgsType, Field, ID } from "@nestjs/graphql";
+import { IsEnum, IsOptional, IsUUID } from "class-validator";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { PaginationArgs } from "./pagination-args.dto";
+
+/**
+ * Arguments of the `farms` GraphQL query.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   farms(state: MT, limit: 100) {
+ *     data { name totalArea crops { cropType harvest { year } } }
+ *   }
+ * }
+ * ```
+ */
+@ArgsType()
+export class FindAllFarmsArgs extends PaginationArgs {
+	/** Filter by Brazilian state */
+	@Field(() => BrazilianState, { description: "State (UF) of the farms", nullable: true })
+	@IsOptional()
+	@IsEnum(BrazilianState, { message: "Invalid state" })
+	state?: BrazilianState;
+
+	/** Filter by main producer */
+	@Field(() => ID, { description: "UUID of the main producer of the farms", nullable: true })
+	@IsOptional()
+	@IsUUID("4", { message: "Producer ID must be a valid UUID" })
+	producerId?: string;
+}
@@ -0,0 +1,26 @@
+import { ArgsType, Field } from "@nestjs/graphql";
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+import { PaginationArgs } from "./pagination-args.dto";
+
+/**
+ * Arguments of the `producers` GraphQL query.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   producers(search: "Silva") {
+ *     data { name farms { name } }
+ *   }
+ * }
+ * ```
+ */
+@ArgsType()
+export class FindAllProducersArgs extends PaginationArgs {
+	/** Part of the name of the producers to find */
+	@Field(() => String, { description: "Part of the name of the producers", nullable: true })
+	@IsOptional()
+	@IsString({ message: "Search must be a string" })
+	@MaxLength(255, { message: "Search must be at most 255 characters" })
+	search?: string;
+}
@@ -0,0 +1,22 @@
+import { ArgsType, Field } from "@nestjs/graphql";
+import { IsEnum } from "class-validator";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+/**
+ * Arguments of the `cities` GraphQL query.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   cities(state: SP) { name ibgeCode }
+ * }
+ * ```
+ */
+@ArgsType()
+export class FindCitiesArgs {
+	/** State of the municipalities */
+	@Field(() => BrazilianState, { description: "State (UF) of the municipalities" })
+	@IsEnum(BrazilianState, { message: "Invalid state" })
+	state!: BrazilianState;
+}
@@ -0,0 +1,11 @@
+/**
+ * GraphQL DTOs barrel export module.
+ *
+ * Provides the arguments of the GraphQL queries. Mutations take the DTOs of
+ * the REST endpoints as inputs.
+ */
+
+export * from "./find-all-farms-args.dto";
+export * from "./find-all-producers-args.dto";
+export * from "./find-cities-args.dto";
+export * from "./pagination-args.dto";
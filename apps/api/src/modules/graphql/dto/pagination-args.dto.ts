@@ -0,0 +1,33 @@
+import { ArgsType, Field, Int } from "@nestjs/graphql";
+import { IsInt, IsOptional, Max, Min } from "class-validator";
+
+/**
+ * Pagination arguments of GraphQL list queries.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   producers(page: 2, limit: 50) {
+ *     total
+ *     data { id name }
+ *   }
+ * }
+ * ```
+ */
+@ArgsType()
+export class PaginationArgs {
+	/** Page number */
+	@Field(() => Int, { description: "Page number", defaultValue: 1 })
+	@IsOptional()
+	@IsInt({ message: "Page must be an integer" })
+	@Min(1, { message: "Page must be at least 1" })
+	page = 1;
+
+	/** Number of items per page. Defaults to 10, max 100 */
+	@Field(() => Int, { description: "Number of items per page, at most 100", defaultValue: 10 })
+	@IsOptional()
+	@IsInt({ message: "Limit must be an integer" })
+	@Min(1, { message: "Limit must be at least 1" })
+	@Max(100, { message: "Limit cannot exceed 100" })
+	limit = 10;
+}
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Unit tests for {@link formatGraphqlError}.
+ *
+ * Tests the error codes reported for the HTTP exceptions thrown by resolvers.
+ */
+
+import { ConflictException, NotFoundException, PreconditionFailedException } from "@nestjs/common";
+import { describe, expect, it } from "bun:test";
+import { GraphQLError } from "graphql";
+
+import { formatGraphqlError } from "./graphql.errors";
+
+describe("formatGraphqlError", () => {
+	/** Wraps an exception as Apollo does for errors thrown by resolvers */
+	const resolverError = (exception: Error): GraphQLError =>
+		new GraphQLError(exception.message, { path: ["updateFarm"], originalError: exception });
+
+	it("should report failed preconditions as PRECONDITION_FAILED", () => {
+		const error = resolverError(new PreconditionFailedException("Farm was modified"));
+
+		const formatted = formatGraphqlError(
+			{ message: error.message, extensions: { code: "INTERNAL_SERVER_ERROR", status: 412 } },
+			error,
+		);
+
+		expect(formatted.extensions).toEqual({ code: "PRECONDITION_FAILED", status: 412 });
+	});
+
+	it("should report conflicts as CONFLICT", () => {
+		const error = resolverError(new ConflictException("Document already in use"));
+
+		const formatted = formatGraphqlError(
+			{ message: error.message, extensions: { code: "INTERNAL_SERVER_ERROR", status: 409 } },
+			error,
+		);
+
+		expect(formatted.extensions?.["code"]).toBe("CONFLICT");
+	});
+
+	it("should keep the code of other errors", () => {
+		const error = resolverError(new NotFoundException("Farm not found"));
+		const formattedError = {
+			message: error.message,
+			extensions: { code: "INTERNAL_SERVER_ERROR", status: 404 },
+		};
+
+		expect(formatGraphqlError(formattedError, error)).toBe(formattedError);
+		expect(formatGraphqlError(formattedError, new Error("Unexpected"))).toBe(formattedError);
+	});
+});
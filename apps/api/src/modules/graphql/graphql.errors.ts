@@ -0,0 +1,45 @@
+import { unwrapResolverError } from "@apollo/server/errors";
+import { HttpException, HttpStatus } from "@nestjs/common";
+
+import type { GraphQLFormattedError } from "graphql";
+
+/**
+ * Error codes of the HTTP exceptions that Apollo would otherwise report as
+ * `INTERNAL_SERVER_ERROR`, by status.
+ *
+ * Clients rely on them to tell a stale `ifMatch` version or a conflicting
+ * write apart from a server failure.
+ */
+const HTTP_ERROR_CODES: Partial<Record<HttpStatus, string>> = {
+	[HttpStatus.CONFLICT]: "CONFLICT",
+	[HttpStatus.PRECONDITION_FAILED]: "PRECONDITION_FAILED",
+};
+
+/**
+ * Formats the errors of GraphQL operations, reporting conflicts and failed
+ * preconditions by their own `extensions.code`.
+ *
+ * @param formattedError Error as formatted by Apollo and the Nest driver
+ * @param error Error thrown while executing the operation
+ *
+ * @returns The formatted error, with the code of the HTTP exception behind it
+ *
+ * @example
+ * ```typescript
+ * GraphQLModule.forRoot<ApolloDriverConfig>({ formatError: formatGraphqlError });
+ * ```
+ */
+export function formatGraphqlError(
+	formattedError: GraphQLFormattedError,
+	error: unknown,
+): GraphQLFormattedError {
+	const exception = unwrapResolverError(error);
+	const code =
+		exception instanceof HttpException ?
+			HTTP_ERROR_CODES[exception.getStatus() as HttpStatus]
+		:	undefined;
+
+	if (!code) return formattedError;
+
+	return { ...formattedError, extensions: { ...formattedError.extensions, code } };
+}
@@ -0,0 +1,189 @@
+import DataLoader from "dataloader";
+import { In } from "typeorm";
+
+import type { DataSource } from "typeorm";
+
+import { SortOrder } from "@agro/shared/enums";
+
+import { City } from "@/modules/cities/entities";
+import { Farm, FarmHarvestCrop, FarmOwner } from "@/modules/farms/entities";
+import { Harvest } from "@/modules/harvests/entities";
+import { Producer } from "@/modules/producers/entities";
+
+/** Key of a municipality, as farms reference it */
+export interface CityKey {
+	/** Name of the city, in any letter case */
+	name: string;
+
+	/** State (UF) of the city */
+	state: string;
+}
+
+/**
+ * DataLoaders of a GraphQL operation.
+ *
+ * Each loader gathers the keys requested while resolving a level of the query
+ * and loads them with a single query, so nested lists do not issue one query
+ * per parent.
+ */
+export interface GraphqlLoaders {
+	/** Producers by ID */
+	producers: DataLoader<string, Producer | null>;
+
+	/** Farms by ID */
+	farms: DataLoader<string, Farm | null>;
+
+	/** Farms each producer owns or co-owns, by producer ID */
+	farmsByProducer: DataLoader<string, Array<Farm>>;
+
+	/** Crops planted on each farm across harvests, by farm ID, with their farm harvest */
+	cropsByFarm: DataLoader<string, Array<FarmHarvestCrop>>;
+
+	/** Harvests by ID */
+	harvests: DataLoader<string, Harvest | null>;
+
+	/** Municipalities by state and name */
+	cities: DataLoader<CityKey, City | null, string>;
+}
+
+/**
+ * Creates the DataLoaders of a GraphQL operation.
+ *
+ * Loaders cache what they load, so they are created for each operation and
+ * never share entities between users.
+ *
+ * @param dataSource TypeORM data source to load entities from
+ *
+ * @returns The loaders of the operation
+ *
+ * @example
+ * ```typescript
+ * const loaders = createLoaders(dataSource);
+ * const [first, second] = await Promise.all([
+ *   loaders.farmsByProducer.load(firstProducerId),
+ *   loaders.farmsByProducer.load(secondProducerId),
+ * ]); // One query for both producers
+ * ```
+ */
+export function createLoaders(dataSource: DataSource): GraphqlLoaders {
+	return {
+		producers: new DataLoader(async (ids) => {
+			const producers = await dataSource.getRepository(Producer).findBy({ id: In([...ids]) });
+
+			return matchKeys(ids, producers, (producer) => producer.id);
+		}),
+
+		farms: new DataLoader(async (ids) => {
+			const farms = await dataSource.getRepository(Farm).findBy({ id: In([...ids]) });
+
+			return matchKeys(ids, farms, (farm) => farm.id);
+		}),
+
+		farmsByProducer: new DataLoader(async (producerIds) => {
+			const ownerships = await dataSource.getRepository(FarmOwner).find({
+				where: { producerId: In([...producerIds]) },
+				relations: { farm: true },
+				order: { farm: { name: SortOrder.Ascending } },
+			});
+
+			return groupByKeys(
+				producerIds,
+				ownerships.filter((ownership) => ownership.farm),
+				(ownership) => ownership.producerId,
+			).map((producerOwnerships) => producerOwnerships.map(({ farm }) => farm));
+		}),
+
+		cropsByFarm: new DataLoader(async (farmIds) => {
+			const crops = await dataSource.getRepository(FarmHarvestCrop).find({
+				where: { farmHarvest: { farmId: In([...farmIds]) } },
+				relations: { farmHarvest: true },
+				order: { cropType: SortOrder.Ascending },
+			});
+
+			return groupByKeys(farmIds, crops, (crop) => crop.farmHarvest.farmId);
+		}),
+
+		harvests: new DataLoader(async (ids) => {
+			const harvests = await dataSource.getRepository(Harvest).findBy({ id: In([...ids]) });
+
+			return matchKeys(ids, harvests, (harvest) => harvest.id);
+		}),
+
+		cities: new DataLoader(
+			async (keys) => {
+				const cities = await dataSource
+					.getRepository(City)
+					.createQueryBuilder("city")
+					.where("city.state IN (:...states)", { states: keys.map(({ state }) => state) })
+					.andWhere("LOWER(city.name) IN (:...names)", {
+						names: keys.map(({ name }) => lowerAscii(name)),
+					})
+					.getMany();
+
+				return matchKeys(keys.map(toCityCacheKey), cities, toCityCacheKey);
+			},
+			{ cacheKeyFn: toCityCacheKey },
+		),
+	};
+}
+
+/**
+ * Lines up loaded entities with the keys they were loaded by.
+ *
+ * @param keys Keys in the order requested
+ * @param entities Entities loaded, in any order
+ * @param keyOf Key of an entity
+ *
+ * @returns The entity of each key, `null` for keys without one
+ */
+function matchKeys<K, T>(
+	keys: ReadonlyArray<K>,
+	entities: Array<T>,
+	keyOf: (entity: T) => K,
+): Array<T | null> {
+	const entitiesByKey = new Map(entities.map((entity) => [keyOf(entity), entity]));
+
+	return keys.map((key) => entitiesByKey.get(key) ?? null);
+}
+
+/**
+ * Groups loaded entities by the keys they were loaded by, keeping their order.
+ *
+ * @param keys Keys in the order requested
+ * @param entities Entities loaded
+ * @param keyOf Key of an entity
+ *
+ * @returns The entities of each key, empty for keys without any
+ */
+function groupByKeys<K, T>(
+	keys: ReadonlyArray<K>,
+	entities: Array<T>,
+	keyOf: (entity: T) => K,
+): Array<Array<T>> {
+	const entitiesByKey = Map.groupBy(entities, keyOf);
+
+	return keys.map((key) => entitiesByKey.get(key) ?? []);
+}
+
+/**
+ * Cache key of a municipality, ignoring the letter case of its name.
+ *
+ * @param city State and name of the municipality
+ *
+ * @returns The cache key, such as `SP:campinas`
+ */
+function toCityCacheKey({ name, state }: CityKey): string {
+	return `${state}:${lowerAscii(name)}`;
+}
+
+/**
+ * Lowers the ASCII letters of a text, like SQLite's `LOWER()`, which leaves
+ * accented letters as they are.
+ *
+ * @param text Text to lower
+ *
+ * @returns The text with its ASCII letters lowered
+ */
+function lowerAscii(text: string): string {
+	return text.replace(/[A-Z]/g, (letter) => letter.toLowerCase());
+}
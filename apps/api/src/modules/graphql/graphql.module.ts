@@ -0,0 +1,88 @@
+import { ApolloDriver } from "@nestjs/apollo";
+import { Module } from "@nestjs/common";
+import { GraphQLModule, registerEnumType } from "@nestjs/graphql";
+import { TypeOrmModule } from "@nestjs/typeorm";
+import { DataSource } from "typeorm";
+
+import type { GraphqlContext } from "./interfaces";
+import type { ApolloDriverConfig } from "@nestjs/apollo";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { CitiesModule } from "@/modules/cities/cities.module";
+import { DashboardModule } from "@/modules/dashboard/dashboard.module";
+import { Farm } from "@/modules/farms/entities";
+import { FarmsModule } from "@/modules/farms/farms.module";
+import { Harvest } from "@/modules/harvests/entities";
+import { Producer } from "@/modules/producers/entities";
+import { ProducersModule } from "@/modules/producers/producers.module";
+
+import { formatGraphqlError } from "./graphql.errors";
+import { createLoaders } from "./graphql.loaders";
+import { GraphqlService } from "./graphql.service";
+import {
+	CitiesResolver,
+	DashboardResolver,
+	FarmHarvestCropsResolver,
+	FarmsResolver,
+	HarvestsResolver,
+	ProducersResolver,
+} from "./resolvers";
+
+registerEnumType(BrazilianState, { name: "BrazilianState", description: "Brazilian state (UF)" });
+
+/**
+ * GraphQL module serving producers, farms, crops per harvest and the dashboard
+ * aggregates at `/api/graphql`, for clients that fetch them in one round trip.
+ *
+ * The schema is generated code first from the entities. Operations go through
+ * the same global guards as the REST endpoints, so they require a JWT, and
+ * mutations reuse the validation of {@link ProducersService} and
+ * {@link FarmsService}. Each operation gets its own DataLoaders, see
+ * {@link createLoaders}, and conflicts and failed preconditions keep their
+ * error codes, see {@link formatGraphqlError}.
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [GraphqlModule],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({
+	imports: [
+		GraphQLModule.forRootAsync<ApolloDriverConfig>({
+			driver: ApolloDriver,
+			inject: [DataSource],
+			useFactory: (dataSource: DataSource) => ({
+				path: "graphql",
+				useGlobalPrefix: true,
+				autoSchemaFile: true,
+				sortSchema: true,
+				playground: false,
+				formatError: formatGraphqlError,
+				context: ({ req, res }: Pick<GraphqlContext, "req" | "res">): GraphqlContext => ({
+					req,
+					res,
+					loaders: createLoaders(dataSource),
+				}),
+			}),
+		}),
+		TypeOrmModule.forFeature([Producer, Farm, Harvest]),
+		ProducersModule,
+		FarmsModule,
+		CitiesModule,
+		DashboardModule,
+	],
+	providers: [
+		GraphqlService,
+		ProducersResolver,
+		FarmsResolver,
+		FarmHarvestCropsResolver,
+		HarvestsResolver,
+		CitiesResolver,
+		DashboardResolver,
+	],
+})
+export class GraphqlModule {}
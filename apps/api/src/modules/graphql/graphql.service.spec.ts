@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Unit tests for {@link GraphqlService}.
+ *
+ * Tests the pagination, filters and ordering of the root lists of the GraphQL
+ * API, using mocked repositories.
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+import { BrazilianState, SortOrder } from "@agro/shared/enums";
+
+import { Farm } from "@/modules/farms/entities";
+import { Harvest } from "@/modules/harvests/entities";
+import { Producer } from "@/modules/producers/entities";
+
+import { GraphqlService } from "./graphql.service";
+
+describe("GraphqlService", () => {
+	let service: GraphqlService;
+
+	/** Query builder methods used by the lists */
+	interface MockQueryBuilder {
+		andWhere: ReturnType<typeof mock>;
+		orderBy: ReturnType<typeof mock>;
+		addOrderBy: ReturnType<typeof mock>;
+		skip: ReturnType<typeof mock>;
+		take: ReturnType<typeof mock>;
+		getManyAndCount: ReturnType<typeof mock>;
+	}
+
+	/** Creates a chainable query builder resolving `getManyAndCount` to the given page */
+	const createMockQueryBuilder = (
+		rows: Array<unknown> = [],
+		total = rows.length,
+	): MockQueryBuilder => {
+		const qb: MockQueryBuilder = {
+			andWhere: mock(() => qb),
+			orderBy: mock(() => qb),
+			addOrderBy: mock(() => qb),
+			skip: mock(() => qb),
+			take: mock(() => qb),
+			getManyAndCount: mock(() => Promise.resolve([rows, total])),
+		};
+
+		return qb;
+	};
+
+	const mockProducerRepository = { createQueryBuilder: mock() };
+	const mockFarmRepository = { createQueryBuilder: mock() };
+	const mockHarvestRepository = { find: mock() };
+
+	const mockProducer = {
+		id: "550e8400-e29b-41d4-a716-446655440000",
+		name: "João da Silva",
+		document: "11144477735",
+	} as Producer;
+
+	const mockFarm = {
+		id: "660e8400-e29b-41d4-a716-446655440001",
+		name: "Fazenda São João",
+		city: "Campinas",
+		state: BrazilianState.SP,
+		producerId: "550e8400-e29b-41d4-a716-446655440000",
+	} as Farm;
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				GraphqlService,
+				{
+					provide: getRepositoryToken(Producer),
+					useValue: mockProducerRepository,
+				},
+				{
+					provide: getRepositoryToken(Farm),
+					useValue: mockFarmRepository,
+				},
+				{
+					provide: getRepositoryToken(Harvest),
+					useValue: mockHarvestRepository,
+				},
+			],
+		}).compile();
+
+		service = module.get<GraphqlService>(GraphqlService);
+
+		mockProducerRepository.createQueryBuilder.mockReset();
+		mockFarmRepository.createQueryBuilder.mockReset();
+		mockHarvestRepository.find.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("findProducers", () => {
+		it("should return a page of producers sorted by name", async () => {
+			const qb = createMockQueryBuilder([mockProducer], 21);
+			mockProducerRepository.createQueryBuilder.mockReturnValue(qb);
+
+			const result = await service.findProducers({ page: 3, limit: 10 });
+
+			expect(result).toEqual({
+				data: [mockProducer],
+				page: 3,
+				limit: 10,
+				total: 21,
+				totalPages: 3,
+			});
+			expect(qb.andWhere).not.toHaveBeenCalled();
+			expect(qb.orderBy).toHaveBeenCalledWith("producer.name", SortOrder.Ascending);
+			expect(qb.addOrderBy).toHaveBeenCalledWith("producer.id", SortOrder.Ascending);
+			expect(qb.skip).toHaveBeenCalledWith(20);
+			expect(qb.take).toHaveBeenCalledWith(10);
+		});
+
+		it("should search the names of the producers", async () => {
+			const qb = createMockQueryBuilder();
+			mockProducerRepository.createQueryBuilder.mockReturnValue(qb);
+
+			await service.findProducers({ page: 1, limit: 10, search: "Silva" });
+
+			expect(qb.andWhere).toHaveBeenCalledWith("producer.name LIKE :search", { search: "%Silva%" });
+		});
+	});
+
+	describe("findFarms", () => {
+		it("should filter farms by state and main producer", async () => {
+			const qb = createMockQueryBuilder([mockFarm]);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(qb);
+
+			const result = await service.findFarms({
+				page: 1,
+				limit: 10,
+				state: BrazilianState.SP,
+				producerId: mockProducer.id,
+			});
+
+			expect(result).toEqual({ data: [mockFarm], page: 1, limit: 10, total: 1, totalPages: 1 });
+			expect(qb.andWhere).toHaveBeenCalledWith("farm.state = :state", { state: BrazilianState.SP });
+			expect(qb.andWhere).toHaveBeenCalledWith("farm.producerId = :producerId", {
+				producerId: mockProducer.id,
+			});
+			expect(qb.orderBy).toHaveBeenCalledWith("farm.name", SortOrder.Ascending);
+		});
+
+		it("should return an empty page when no farm matches", async () => {
+			mockFarmRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+
+			const result = await service.findFarms({ page: 1, limit: 10 });
+
+			expect(result).toEqual({ data: [], page: 1, limit: 10, total: 0, totalPages: 0 });
+		});
+	});
+
+	describe("findHarvests", () => {
+		it("should return the harvests, the most recent season first", async () => {
+			const harvests = [
+				{ id: "h2", year: "2024/2025" },
+				{ id: "h1", year: "2023/2024" },
+			] as Array<Harvest>;
+			mockHarvestRepository.find.mockResolvedValue(harvests);
+
+			const result = await service.findHarvests();
+
+			expect(result).toEqual(harvests);
+			expect(mockHarvestRepository.find).toHaveBeenCalledWith({
+				order: { year: SortOrder.Descending },
+			});
+		});
+	});
+});
@@ -0,0 +1,131 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { Repository } from "typeorm";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { SortOrder } from "@agro/shared/enums";
+
+import { Farm } from "@/modules/farms/entities";
+import { Harvest } from "@/modules/harvests/entities";
+import { Producer } from "@/modules/producers/entities";
+
+import { FindAllFarmsArgs, FindAllProducersArgs } from "./dto";
+
+/**
+ * Service responsible for the root lists of the GraphQL API.
+ *
+ * Lists return entities, whose relations are resolved field by field through
+ * the DataLoaders of the operation, so only what a query selects is loaded.
+ *
+ * @example
+ * ```typescript
+ * // In a resolver
+ * constructor(private readonly graphqlService: GraphqlService) {}
+ *
+ * @Query(() => PaginatedFarms)
+ * async farms(@Args() args: FindAllFarmsArgs) {
+ *   return this.graphqlService.findFarms(args);
+ * }
+ * ```
+ */
+@Injectable()
+export class GraphqlService {
+	/**
+	 * Creates an instance of GraphqlService.
+	 *
+	 * @param producerRepository TypeORM repository for Producer entity
+	 * @param farmRepository TypeORM repository for Farm entity
+	 * @param harvestRepository TypeORM repository for Harvest entity
+	 */
+	constructor(
+		@InjectRepository(Producer)
+		private readonly producerRepository: Repository<Producer>,
+
+		@InjectRepository(Farm)
+		private readonly farmRepository: Repository<Farm>,
+
+		@InjectRepository(Harvest)
+		private readonly harvestRepository: Repository<Harvest>,
+	) {}
+
+	/**
+	 * Retrieves a page of producers sorted by name, optionally searching their names.
+	 *
+	 * @param args Pagination and search arguments
+	 *
+	 * @returns Page of producers
+	 *
+	 * @example
+	 * ```typescript
+	 * const page = await service.findProducers({ page: 1, limit: 10, search: "Silva" });
+	 * ```
+	 */
+	public async findProducers({
+		page,
+		limit,
+		search,
+	}: FindAllProducersArgs): Promise<PaginatedResponse<Producer>> {
+		const qb = this.producerRepository.createQueryBuilder("producer");
+
+		if (search) {
+			qb.andWhere("producer.name LIKE :search", { search: `%${search}%` });
+		}
+
+		const [producers, total] = await qb
+			.orderBy("producer.name", SortOrder.Ascending)
+			.addOrderBy("producer.id", SortOrder.Ascending)
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return { data: producers, page, limit, total, totalPages: Math.ceil(total / limit) };
+	}
+
+	/**
+	 * Retrieves a page of farms sorted by name, optionally of a state or a main producer.
+	 *
+	 * @param args Pagination and filter arguments
+	 *
+	 * @returns Page of farms
+	 *
+	 * @example
+	 * ```typescript
+	 * const page = await service.findFarms({ page: 1, limit: 10, state: BrazilianState.MT });
+	 * ```
+	 */
+	public async findFarms({
+		page,
+		limit,
+		state,
+		producerId,
+	}: FindAllFarmsArgs): Promise<PaginatedResponse<Farm>> {
+		const qb = this.farmRepository.createQueryBuilder("farm");
+
+		if (state) {
+			qb.andWhere("farm.state = :state", { state });
+		}
+
+		if (producerId) {
+			qb.andWhere("farm.producerId = :producerId", { producerId });
+		}
+
+		const [farms, total] = await qb
+			.orderBy("farm.name", SortOrder.Ascending)
+			.addOrderBy("farm.id", SortOrder.Ascending)
+			.skip((page - 1) * limit)
+			.take(limit)
+			.getManyAndCount();
+
+		return { data: farms, page, limit, total, totalPages: Math.ceil(total / limit) };
+	}
+
+	/**
+	 * Retrieves every harvest, the most recent season first.
+	 *
+	 * @returns All harvests
+	 */
+	public async findHarvests(): Promise<Array<Harvest>> {
+		return this.harvestRepository.find({ order: { year: SortOrder.Descending } });
+	}
+}
@@ -0,0 +1,16 @@
+import type { GraphqlLoaders } from "../graphql.loaders";
+import type { Request, Response } from "express";
+
+import type { AuthenticatedUser } from "@/modules/auth/interfaces/jwt-payload.interface";
+
+/** Context shared by the resolvers of a GraphQL operation */
+export interface GraphqlContext {
+	/** HTTP request of the operation, with the user attached by the JWT guard */
+	req: Request & { user?: AuthenticatedUser };
+
+	/** HTTP response of the operation */
+	res: Response;
+
+	/** DataLoaders batching the relations resolved during the operation */
+	loaders: GraphqlLoaders;
+}
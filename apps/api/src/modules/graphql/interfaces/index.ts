@@ -0,0 +1 @@
+export * from "./graphql-context.interface";
@@ -0,0 +1,157 @@
+import { Field, Float, Int, ObjectType } from "@nestjs/graphql";
+
+import type {
+	CropDistribution,
+	LandUseStats,
+	ProducerStateDistribution,
+	StateDistribution,
+} from "@agro/shared/types";
+
+import type {
+	CityDistributionDto,
+	DashboardAveragesDto,
+	DashboardDistributionsDto,
+	DashboardTotalsDto,
+} from "@/modules/dashboard/dto";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+/** Totals of the dashboard, across all farms and producers */
+@ObjectType("DashboardTotals", { description: "Totals across all farms and producers" })
+export class DashboardTotalsModel implements DashboardTotalsDto {
+	@Field(() => Int)
+	farms!: number;
+
+	@Field(() => Int)
+	producers!: number;
+
+	@Field(() => Float)
+	totalAreaHectares!: number;
+
+	@Field(() => Float)
+	arableAreaHectares!: number;
+
+	@Field(() => Float)
+	vegetationAreaHectares!: number;
+
+	@Field(() => Float)
+	unusedAreaHectares!: number;
+}
+
+/** Averages of the dashboard */
+@ObjectType("DashboardAverages", { description: "Averages across all farms and producers" })
+export class DashboardAveragesModel implements DashboardAveragesDto {
+	@Field(() => Float)
+	areaPerFarm!: number;
+
+	@Field(() => Float)
+	farmsPerProducer!: number;
+
+	@Field(() => Float)
+	arablePercentage!: number;
+
+	@Field(() => Float)
+	vegetationPercentage!: number;
+
+	@Field(() => Float)
+	unusedPercentage!: number;
+}
+
+/** Count of farms or producers in a state */
+@ObjectType("StateDistribution", { description: "Count of farms or producers in a state" })
+export class StateDistributionModel implements StateDistribution {
+	@Field(() => BrazilianState)
+	state!: BrazilianState;
+
+	@Field(() => Int)
+	count!: number;
+}
+
+/** Count of producers in a state, with the area they hold there */
+@ObjectType("ProducerStateDistribution", {
+	description: "Count of producers in a state, with the area they hold there",
+})
+export class ProducerStateDistributionModel
+	extends StateDistributionModel
+	implements ProducerStateDistribution
+{
+	@Field(() => Float, {
+		description: "Area held by the producers, in hectares, weighted by their ownership shares",
+	})
+	totalArea!: number;
+}
+
+/** Count of farms growing a crop, with the area planted */
+@ObjectType("CropDistribution", { description: "Count of farms growing a crop" })
+export class CropDistributionModel implements CropDistribution {
+	@Field(() => String)
+	cropType!: string;
+
+	@Field(() => Int)
+	count!: number;
+
+	@Field(() => Float, { description: "Area planted with the crop, in hectares" })
+	plantedArea!: number;
+}
+
+/** Count of farms in a city */
+@ObjectType("CityDistribution", { description: "Count of farms in a city" })
+export class CityDistributionModel implements CityDistributionDto {
+	@Field(() => String)
+	city!: string;
+
+	@Field(() => String)
+	state!: string;
+
+	@Field(() => Int)
+	count!: number;
+}
+
+/** Distributions of the dashboard */
+@ObjectType("DashboardDistributions", {
+	description: "Farms and producers by state, crop and city",
+})
+export class DashboardDistributionsModel implements DashboardDistributionsDto {
+	@Field(() => [StateDistributionModel], { description: "Farms by state" })
+	byState!: Array<StateDistributionModel>;
+
+	@Field(() => [CropDistributionModel], { description: "Farms by crop" })
+	byCrop!: Array<CropDistributionModel>;
+
+	@Field(() => [CityDistributionModel], { description: "The 10 cities with the most farms" })
+	byCityTop10!: Array<CityDistributionModel>;
+
+	@Field(() => [ProducerStateDistributionModel], { description: "Producers by state" })
+	producersByState!: Array<ProducerStateDistributionModel>;
+}
+
+/** Land use of the dashboard */
+@ObjectType("LandUse", { description: "Arable and vegetation areas across all farms" })
+export class LandUseModel implements LandUseStats {
+	@Field(() => Float)
+	arableArea!: number;
+
+	@Field(() => Float)
+	vegetationArea!: number;
+}
+
+/**
+ * Aggregates of the dashboard, as computed for `GET /api/dashboard/stats`.
+ */
+@ObjectType("Dashboard", { description: "Aggregates across all farms and producers" })
+export class DashboardModel {
+	@Field(() => DashboardTotalsModel)
+	totals!: DashboardTotalsModel;
+
+	@Field(() => DashboardAveragesModel)
+	averages!: DashboardAveragesModel;
+
+	@Field(() => DashboardDistributionsModel)
+	distributions!: DashboardDistributionsModel;
+
+	@Field(() => LandUseModel)
+	landUse!: LandUseModel;
+
+	@Field(() => String, { description: "When the aggregates were computed (ISO 8601)" })
+	timestamp!: string;
+}
@@ -0,0 +1,2 @@
+export * from "./dashboard.model";
+export * from "./paginated.model";
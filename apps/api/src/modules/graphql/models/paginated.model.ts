@@ -0,0 +1,52 @@
+import { Field, Int, ObjectType } from "@nestjs/graphql";
+
+import type { Type } from "@nestjs/common";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { Farm } from "@/modules/farms/entities";
+import { Producer } from "@/modules/producers/entities";
+
+/**
+ * Creates the GraphQL type of a page of items, shaped like the paginated
+ * responses of the REST endpoints.
+ *
+ * @param itemType GraphQL type of the items
+ *
+ * @returns The abstract type to extend, one per item type
+ *
+ * @example
+ * ```typescript
+ * @ObjectType()
+ * export class PaginatedFarms extends Paginated(Farm) {}
+ * ```
+ */
+function Paginated<T>(itemType: Type<T>): Type<PaginatedResponse<T>> {
+	@ObjectType({ isAbstract: true })
+	abstract class PaginatedType implements PaginatedResponse<T> {
+		@Field(() => [itemType])
+		data!: Array<T>;
+
+		@Field(() => Int, { description: "Current page number" })
+		page!: number;
+
+		@Field(() => Int, { description: "Number of items per page" })
+		limit!: number;
+
+		@Field(() => Int, { description: "Total number of items across all pages" })
+		total!: number;
+
+		@Field(() => Int, { description: "Total number of pages" })
+		totalPages!: number;
+	}
+
+	return PaginatedType as Type<PaginatedResponse<T>>;
+}
+
+/** Page of producers */
+@ObjectType({ description: "Page of producers" })
+export class PaginatedProducers extends Paginated(Producer) {}
+
+/** Page of farms */
+@ObjectType({ description: "Page of farms" })
+export class PaginatedFarms extends Paginated(Farm) {}
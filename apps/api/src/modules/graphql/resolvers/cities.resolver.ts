@@ -0,0 +1,26 @@
+import { Args, Query, Resolver } from "@nestjs/graphql";
+
+import { CitiesService } from "@/modules/cities/cities.service";
+import { City } from "@/modules/cities/entities";
+
+import { FindCitiesArgs } from "../dto";
+
+/**
+ * Resolver of the IBGE municipalities of the GraphQL API.
+ */
+@Resolver(() => City)
+export class CitiesResolver {
+	constructor(private readonly citiesService: CitiesService) {}
+
+	/**
+	 * Retrieves the municipalities of a state.
+	 *
+	 * @param args State of the municipalities
+	 *
+	 * @returns The municipalities of the state, sorted by name
+	 */
+	@Query(() => [City], { description: "IBGE municipalities of a state, sorted by name" })
+	public cities(@Args() { state }: FindCitiesArgs): Promise<Array<City>> {
+		return this.citiesService.findByState(state);
+	}
+}
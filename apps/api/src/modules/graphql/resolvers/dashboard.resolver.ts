@@ -0,0 +1,25 @@
+import { Query, Resolver } from "@nestjs/graphql";
+
+import type { DashboardStatsDto } from "@/modules/dashboard/dto";
+
+import { DashboardService } from "@/modules/dashboard/dashboard.service";
+
+import { DashboardModel } from "../models";
+
+/**
+ * Resolver of the dashboard aggregates of the GraphQL API.
+ */
+@Resolver(() => DashboardModel)
+export class DashboardResolver {
+	constructor(private readonly dashboardService: DashboardService) {}
+
+	/**
+	 * Retrieves the dashboard aggregates.
+	 *
+	 * @returns Totals, averages, distributions and land use across all farms
+	 */
+	@Query(() => DashboardModel, { description: "Aggregates, like `GET /api/dashboard/stats`" })
+	public dashboard(): Promise<DashboardStatsDto> {
+		return this.dashboardService.getStats();
+	}
+}
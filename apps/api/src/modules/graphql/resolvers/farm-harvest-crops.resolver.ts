@@ -0,0 +1,28 @@
+import { Context, Parent, ResolveField, Resolver } from "@nestjs/graphql";
+
+import type { GraphqlContext } from "../interfaces";
+
+import { FarmHarvestCrop } from "@/modules/farms/entities";
+import { Harvest } from "@/modules/harvests/entities";
+
+/**
+ * Resolver of the crops planted on farms, linking each crop to its harvest.
+ */
+@Resolver(() => FarmHarvestCrop)
+export class FarmHarvestCropsResolver {
+	/**
+	 * Resolves the harvest a crop was planted in, batched across crops.
+	 *
+	 * @param crop The crop, loaded with its farm harvest
+	 * @param context Context of the operation
+	 *
+	 * @returns The harvest, or `null` if it has been deleted
+	 */
+	@ResolveField(() => Harvest, { description: "Harvest the crop was planted in", nullable: true })
+	public harvest(
+		@Parent() crop: FarmHarvestCrop,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Harvest | null> {
+		return loaders.harvests.load(crop.farmHarvest.harvestId);
+	}
+}
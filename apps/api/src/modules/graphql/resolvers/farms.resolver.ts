@@ -0,0 +1,212 @@
+import { NotFoundException } from "@nestjs/common";
+import {
+	Args,
+	Context,
+	ID,
+	Int,
+	Mutation,
+	Parent,
+	Query,
+	ResolveField,
+	Resolver,
+} from "@nestjs/graphql";
+
+import type { GraphqlLoaders } from "../graphql.loaders";
+import type { GraphqlContext } from "../interfaces";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { ParseUUIDPipe } from "@/common";
+import { City } from "@/modules/cities/entities";
+import { CreateFarmDto, UpdateFarmDto } from "@/modules/farms/dto";
+import { Farm, FarmHarvestCrop } from "@/modules/farms/entities";
+import { FarmsService } from "@/modules/farms/farms.service";
+import { Producer } from "@/modules/producers/entities";
+
+import { FindAllFarmsArgs } from "../dto";
+import { GraphqlService } from "../graphql.service";
+import { PaginatedFarms } from "../models";
+
+/**
+ * Resolver of the farms of the GraphQL API.
+ *
+ * Mutations go through {@link FarmsService}, so areas, owners and crops are
+ * validated exactly like through the REST endpoints.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   farms(state: MT) {
+ *     data { name producer { name } crops { cropType harvest { year } } }
+ *   }
+ * }
+ * ```
+ */
+@Resolver(() => Farm)
+export class FarmsResolver {
+	constructor(
+		private readonly graphqlService: GraphqlService,
+		private readonly farmsService: FarmsService,
+	) {}
+
+	/**
+	 * Retrieves a page of farms sorted by name.
+	 *
+	 * @param args Pagination and filter arguments
+	 *
+	 * @returns Page of farms
+	 */
+	@Query(() => PaginatedFarms, { description: "Farms sorted by name" })
+	public farms(@Args() args: FindAllFarmsArgs): Promise<PaginatedResponse<Farm>> {
+		return this.graphqlService.findFarms(args);
+	}
+
+	/**
+	 * Retrieves a farm by ID.
+	 *
+	 * @param id UUID of the farm
+	 * @param context Context of the operation
+	 *
+	 * @returns The farm
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	@Query(() => Farm, { description: "Farm by ID" })
+	public farm(
+		@Args("id", { type: () => ID }, ParseUUIDPipe) id: string,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Farm> {
+		return this.loadFarm(loaders, id);
+	}
+
+	/**
+	 * Creates a farm.
+	 *
+	 * @param input Data of the farm
+	 * @param context Context of the operation
+	 *
+	 * @returns The created farm
+	 *
+	 * @throws {NotFoundException} If the producer, a co-owner or a referenced harvest does not exist
+	 * @throws {BadRequestException} If area, ownership or crop validation fails
+	 */
+	@Mutation(() => Farm, { description: "Creates a farm, like `POST /api/farms`" })
+	public async createFarm(
+		@Args("input") input: CreateFarmDto,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Farm> {
+		const { id } = await this.farmsService.create(input);
+
+		return this.loadFarm(loaders, id);
+	}
+
+	/**
+	 * Updates a farm.
+	 *
+	 * @param id UUID of the farm
+	 * @param input Changes to the farm
+	 * @param version Version the changes were made on, like `If-Match`, if any
+	 * @param context Context of the operation
+	 *
+	 * @returns The updated farm
+	 *
+	 * @throws {NotFoundException} If the farm, a co-owner or a referenced harvest does not exist
+	 * @throws {PreconditionFailedException} If the farm is no longer at `version`
+	 * @throws {BadRequestException} If area, ownership or crop validation fails
+	 */
+	@Mutation(() => Farm, { description: "Updates a farm, like `PATCH /api/farms/:id`" })
+	public async updateFarm(
+		@Args("id", { type: () => ID }, ParseUUIDPipe) id: string,
+		@Args("input") input: UpdateFarmDto,
+		@Args("version", {
+			type: () => Int,
+			description: "Version the changes were made on, rejected once modified by someone else",
+			nullable: true,
+		})
+		version: number | null | undefined,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Farm> {
+		await this.farmsService.update(id, input, version == null ? undefined : [version]);
+
+		return this.loadFarm(loaders, id);
+	}
+
+	/**
+	 * Resolves the main producer of a farm, batched across farms.
+	 *
+	 * @param farm The farm
+	 * @param context Context of the operation
+	 *
+	 * @returns The main producer, or `null` if it has been deleted
+	 */
+	@ResolveField(() => Producer, { description: "Main producer of the farm", nullable: true })
+	public producer(
+		@Parent() farm: Farm,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Producer | null> {
+		return loaders.producers.load(farm.producerId);
+	}
+
+	/**
+	 * Resolves the crops planted on a farm, batched across farms.
+	 *
+	 * @param farm The farm
+	 * @param harvestId UUID of the harvest to restrict the crops to, if any
+	 * @param context Context of the operation
+	 *
+	 * @returns The crops of the farm, sorted by crop type
+	 */
+	@ResolveField(() => [FarmHarvestCrop], { description: "Crops planted on the farm, per harvest" })
+	public async crops(
+		@Parent() farm: Farm,
+		@Args("harvestId", {
+			type: () => ID,
+			description: "Only crops of this harvest",
+			nullable: true,
+		})
+		harvestId: string | null | undefined,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Array<FarmHarvestCrop>> {
+		const crops = await loaders.cropsByFarm.load(farm.id);
+
+		if (!harvestId) return crops;
+
+		return crops.filter((crop) => crop.farmHarvest.harvestId === harvestId);
+	}
+
+	/**
+	 * Resolves the IBGE municipality a farm is in, batched across farms.
+	 *
+	 * @param farm The farm
+	 * @param context Context of the operation
+	 *
+	 * @returns The municipality, or `null` if the city is not a known one
+	 */
+	@ResolveField(() => City, { description: "IBGE municipality the farm is in", nullable: true })
+	public municipality(
+		@Parent() farm: Farm,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<City | null> {
+		return loaders.cities.load({ name: farm.city, state: farm.state });
+	}
+
+	/**
+	 * Loads a farm, bypassing what the operation cached before a mutation.
+	 *
+	 * @param loaders Loaders of the operation
+	 * @param id UUID of the farm
+	 *
+	 * @returns The farm
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	private async loadFarm(loaders: GraphqlLoaders, id: string): Promise<Farm> {
+		const farm = await loaders.farms.clear(id).load(id);
+
+		if (!farm) {
+			throw new NotFoundException(`Farm with ID ${id} not found`);
+		}
+
+		return farm;
+	}
+}
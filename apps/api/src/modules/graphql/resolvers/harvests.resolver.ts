@@ -0,0 +1,23 @@
+import { Query, Resolver } from "@nestjs/graphql";
+
+import { Harvest } from "@/modules/harvests/entities";
+
+import { GraphqlService } from "../graphql.service";
+
+/**
+ * Resolver of the harvests of the GraphQL API.
+ */
+@Resolver(() => Harvest)
+export class HarvestsResolver {
+	constructor(private readonly graphqlService: GraphqlService) {}
+
+	/**
+	 * Retrieves every harvest.
+	 *
+	 * @returns All harvests, the most recent season first
+	 */
+	@Query(() => [Harvest], { description: "Harvests, the most recent season first" })
+	public harvests(): Promise<Array<Harvest>> {
+		return this.graphqlService.findHarvests();
+	}
+}
@@ -0,0 +1,10 @@
+/**
+ * GraphQL resolvers barrel export module.
+ */
+
+export * from "./cities.resolver";
+export * from "./dashboard.resolver";
+export * from "./farm-harvest-crops.resolver";
+export * from "./farms.resolver";
+export * from "./harvests.resolver";
+export * from "./producers.resolver";
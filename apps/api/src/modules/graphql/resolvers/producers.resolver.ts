@@ -0,0 +1,187 @@
+import { NotFoundException } from "@nestjs/common";
+import {
+	Args,
+	Context,
+	ID,
+	Int,
+	Mutation,
+	Parent,
+	Query,
+	ResolveField,
+	Resolver,
+} from "@nestjs/graphql";
+
+import type { GraphqlLoaders } from "../graphql.loaders";
+import type { GraphqlContext } from "../interfaces";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { Permission } from "@agro/shared/enums";
+import { hasPermission } from "@agro/shared/utils";
+import { maskDocument } from "@agro/shared/validators";
+
+import { ParseUUIDPipe } from "@/common";
+import { Farm } from "@/modules/farms/entities";
+import { CreateProducerDto, UpdateProducerDto } from "@/modules/producers/dto";
+import { Producer } from "@/modules/producers/entities";
+import { ProducersService } from "@/modules/producers/producers.service";
+
+import { FindAllProducersArgs } from "../dto";
+import { GraphqlService } from "../graphql.service";
+import { PaginatedProducers } from "../models";
+
+/**
+ * Resolver of the producers of the GraphQL API.
+ *
+ * Mutations go through {@link ProducersService}, so producers are validated
+ * exactly like through the REST endpoints.
+ *
+ * @example
+ * ```graphql
+ * query {
+ *   producers(limit: 20) {
+ *     data { name document farms { name totalArea } }
+ *   }
+ * }
+ * ```
+ */
+@Resolver(() => Producer)
+export class ProducersResolver {
+	constructor(
+		private readonly graphqlService: GraphqlService,
+		private readonly producersService: ProducersService,
+	) {}
+
+	/**
+	 * Retrieves a page of producers sorted by name.
+	 *
+	 * @param args Pagination and search arguments
+	 *
+	 * @returns Page of producers
+	 */
+	@Query(() => PaginatedProducers, { description: "Producers sorted by name" })
+	public producers(@Args() args: FindAllProducersArgs): Promise<PaginatedResponse<Producer>> {
+		return this.graphqlService.findProducers(args);
+	}
+
+	/**
+	 * Retrieves a producer by ID.
+	 *
+	 * @param id UUID of the producer
+	 * @param context Context of the operation
+	 *
+	 * @returns The producer
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 */
+	@Query(() => Producer, { description: "Producer by ID" })
+	public producer(
+		@Args("id", { type: () => ID }, ParseUUIDPipe) id: string,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Producer> {
+		return this.loadProducer(loaders, id);
+	}
+
+	/**
+	 * Creates a producer.
+	 *
+	 * @param input Data of the producer
+	 * @param context Context of the operation
+	 *
+	 * @returns The created producer
+	 *
+	 * @throws {BadRequestException} If the document is not a valid CPF or CNPJ
+	 * @throws {ConflictException} If a producer with the same document already exists
+	 */
+	@Mutation(() => Producer, { description: "Creates a producer, like `POST /api/producers`" })
+	public async createProducer(
+		@Args("input") input: CreateProducerDto,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Producer> {
+		const { id } = await this.producersService.create(input);
+
+		return this.loadProducer(loaders, id);
+	}
+
+	/**
+	 * Updates a producer.
+	 *
+	 * @param id UUID of the producer
+	 * @param input Changes to the producer
+	 * @param version Version the changes were made on, like `If-Match`, if any
+	 * @param context Context of the operation
+	 *
+	 * @returns The updated producer
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {PreconditionFailedException} If the producer is no longer at `version`
+	 */
+	@Mutation(() => Producer, { description: "Updates a producer, like `PATCH /api/producers/:id`" })
+	public async updateProducer(
+		@Args("id", { type: () => ID }, ParseUUIDPipe) id: string,
+		@Args("input") input: UpdateProducerDto,
+		@Args("version", {
+			type: () => Int,
+			description: "Version the changes were made on, rejected once modified by someone else",
+			nullable: true,
+		})
+		version: number | null | undefined,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Producer> {
+		await this.producersService.update(id, input, version == null ? undefined : [version]);
+
+		return this.loadProducer(loaders, id);
+	}
+
+	/**
+	 * Resolves the document of a producer, masked like in the REST responses
+	 * unless the user may reveal personal data.
+	 *
+	 * @param producer The producer
+	 * @param context Context of the operation
+	 *
+	 * @returns The document, formatted or masked
+	 */
+	@ResolveField(() => String)
+	public document(@Parent() producer: Producer, @Context() { req }: GraphqlContext): string {
+		if (hasPermission(req.user?.role, Permission.RevealPersonalData)) return producer.document;
+
+		return maskDocument(producer.document);
+	}
+
+	/**
+	 * Resolves the farms a producer owns or co-owns, batched across producers.
+	 *
+	 * @param producer The producer
+	 * @param context Context of the operation
+	 *
+	 * @returns The farms of the producer, sorted by name
+	 */
+	@ResolveField(() => [Farm], { description: "Farms the producer owns or co-owns" })
+	public farms(
+		@Parent() producer: Producer,
+		@Context() { loaders }: GraphqlContext,
+	): Promise<Array<Farm>> {
+		return loaders.farmsByProducer.load(producer.id);
+	}
+
+	/**
+	 * Loads a producer, bypassing what the operation cached before a mutation.
+	 *
+	 * @param loaders Loaders of the operation
+	 * @param id UUID of the producer
+	 *
+	 * @returns The producer
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 */
+	private async loadProducer(loaders: GraphqlLoaders, id: string): Promise<Producer> {
+		const producer = await loaders.producers.clear(id).load(id);
+
+		if (!producer) {
+			throw new NotFoundException(`Producer with ID ${id} not found`);
+		}
+
+		return producer;
+	}
+}
@@ -0,0 +1,51 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsNotEmpty, IsOptional, IsString, Length, Matches } from "class-validator";
+
+/**
+ * Data Transfer Object for creating a new harvest season.
+ *
+ * The year identifier must be unique across harvests. Both single-year
+ * ("2025") and crop-year ("2025/2026") notations are accepted.
+ *
+ * @example
+ * ```typescript
+ * const dto: CreateHarvestDto = {
+ *   year: "2025/2026",
+ *   description: "Safra 2025/2026"
+ * };
+ * ```
+ */
+export class CreateHarvestDto {
+	/**
+	 * Harvest year or season identifier.
+	 *
+	 * @example "2025/2026"
+	 */
+	@ApiProperty({
+		description: "Harvest year or season identifier (YYYY or YYYY/YYYY)",
+		example: "2025/2026",
+		maxLength: 20,
+	})
+	@IsNotEmpty({ message: "Harvest year is required" })
+	@IsString({ message: "Harvest year must be a string" })
+	@Matches(/^\d{4}(\/\d{4})?$/, {
+		message: "Harvest year must follow the YYYY or YYYY/YYYY format",
+	})
+	year!: string;
+
+	/**
+	 * Optional description of the harvest season.
+	 *
+	 * @example "Safra 2025/2026"
+	 */
+	@ApiPropertyOptional({
+		description: "Description of the harvest season",
+		example: `Safra ${String(faker.date.recent().getFullYear())}`,
+		maxLength: 255,
+	})
+	@IsOptional()
+	@IsString({ message: "Description must be a string" })
+	@Length(0, 255, { message: "Description must be at most 255 characters" })
+	description?: string;
+}
@@ -0,0 +1,85 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
+
+import { HarvestSortField, SortOrder } from "@agro/shared/enums";
+
+/**
+ * Query parameters for finding all harvests with pagination, sorting, and search.
+ *
+ * Defaults to the most recent seasons first so form dropdowns list the
+ * current harvest at the top.
+ *
+ * @example
+ * ```typescript
+ * const query: FindAllHarvestsDto = {
+ *   page: 1,
+ *   limit: 20,
+ *   sortBy: HarvestSortField.Year,
+ *   sortOrder: SortOrder.Descending,
+ *   search: "2024"
+ * };
+ * ```
+ */
+export class FindAllHarvestsDto {
+	/** Page number */
+	@ApiPropertyOptional({
+		description: "Page number",
+		example: 1,
+		minimum: 1,
+		default: 1,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Page must be an integer" })
+	@Min(1, { message: "Page must be at least 1" })
+	page?: number = 1;
+
+	/** Number of items per page. Defaults to 10, max 100 */
+	@ApiPropertyOptional({
+		description: "Number of items per page",
+		example: 10,
+		minimum: 1,
+		maximum: 100,
+		default: 10,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Limit must be an integer" })
+	@Min(1, { message: "Limit must be at least 1" })
+	@Max(100, { message: "Limit cannot exceed 100" })
+	limit?: number = 10;
+
+	/** Field to sort by */
+	@ApiPropertyOptional({
+		description: "Field to sort by",
+		default: HarvestSortField.Year,
+		enum: HarvestSortField,
+		examples: [HarvestSortField.Year, HarvestSortField.CreatedAt],
+		enumName: "HarvestSortField",
+	})
+	@IsOptional()
+	@IsEnum(HarvestSortField, { message: "Invalid sort field" })
+	sortBy?: string;
+
+	/** Sort direction (ASC or DESC) */
+	@ApiPropertyOptional({
+		description: "Sort order direction",
+		default: SortOrder.Descending,
+		enum: SortOrder,
+		examples: [SortOrder.Ascending, SortOrder.Descending],
+		enumName: "SortOrder",
+	})
+	@IsOptional()
+	@IsEnum(SortOrder, { message: "Invalid sort order" })
+	sortOrder?: string;
+
+	/** Search query for harvest year or description */
+	@ApiPropertyOptional({
+		description: "Search query for harvest year or description (case-insensitive)",
+		example: "2024",
+	})
+	@IsOptional()
+	@IsString({ message: "Search must be a string" })
+	search?: string;
+}
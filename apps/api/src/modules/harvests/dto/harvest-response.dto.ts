@@ -0,0 +1,86 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+/**
+ * Data Transfer Object for harvest responses.
+ *
+ * Defines the structure of harvest data returned by the API. Uses class-transformer
+ * decorators to control which fields are exposed in the response.
+ *
+ * @example
+ * ```typescript
+ * const response: HarvestResponseDto = {
+ *   id: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   year: "2024/2025",
+ *   description: "Safra 2024/2025",
+ *   createdAt: new Date("2025-11-24T10:00:00Z"),
+ *   updatedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class HarvestResponseDto {
+	/**
+	 * Unique identifier for the harvest (UUID v4).
+	 *
+	 * @example "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Harvest year or season identifier.
+	 *
+	 * @example "2024/2025"
+	 */
+	@ApiProperty({
+		description: "Harvest year or season identifier",
+		example: "2024/2025",
+	})
+	@Expose()
+	year!: string;
+
+	/**
+	 * Description of the harvest season.
+	 *
+	 * @example "Safra 2024/2025"
+	 */
+	@ApiPropertyOptional({
+		description: "Description of the harvest season",
+		example: "Safra 2024/2025",
+	})
+	@Expose()
+	description?: string;
+
+	/**
+	 * Timestamp when the harvest was created.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Creation timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+
+	/**
+	 * Timestamp when the harvest was last updated.
+	 *
+	 * @example "2025-11-24T15:30:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Last update timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	updatedAt!: Date;
+}
@@ -0,0 +1,4 @@
+export * from "./create-harvest.dto";
+export * from "./find-all-harvests.dto";
+export * from "./harvest-response.dto";
+export * from "./update-harvest.dto";
@@ -0,0 +1,50 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsOptional, IsString, Length, Matches } from "class-validator";
+
+/**
+ * Data Transfer Object for updating an existing harvest season.
+ *
+ * All fields are optional to allow partial updates. Only the provided fields
+ * will be updated in the database.
+ *
+ * @example
+ * ```typescript
+ * const dto: UpdateHarvestDto = {
+ *   description: "Safra 2025/2026 (replantio)"
+ * };
+ * ```
+ */
+export class UpdateHarvestDto {
+	/**
+	 * Updated harvest year or season identifier.
+	 *
+	 * @example "2025/2026"
+	 */
+	@ApiPropertyOptional({
+		description: "Updated harvest year or season identifier (YYYY or YYYY/YYYY)",
+		example: "2025/2026",
+		maxLength: 20,
+	})
+	@IsOptional()
+	@IsString({ message: "Harvest year must be a string" })
+	@Matches(/^\d{4}(\/\d{4})?$/, {
+		message: "Harvest year must follow the YYYY or YYYY/YYYY format",
+	})
+	year?: string;
+
+	/**
+	 * Updated description of the harvest season.
+	 *
+	 * @example "Safra 2025/2026"
+	 */
+	@ApiPropertyOptional({
+		description: "Updated description of the harvest season",
+		example: `Safra ${String(faker.date.recent().getFullYear())}`,
+		maxLength: 255,
+	})
+	@IsOptional()
+	@IsString({ message: "Description must be a string" })
+	@Length(0, 255, { message: "Description must be at most 255 characters" })
+	description?: string;
+}
@@ -1,3 +1,4 @@
+import { Field, ID, ObjectType } from "@nestjs/graphql";
 import {
 	Column,
 	CreateDateColumn,
@@ -7,7 +8,7 @@ import {
 	UpdateDateColumn,
 } from "typeorm";
 
-import { FarmHarvest } from "./farm-harvest.entity";
+import { FarmHarvest } from "../../farms/entities/farm-harvest.entity";
 
 /**
  * Harvest entity representing agricultural seasons/cycles
@@ -21,9 +22,11 @@ import { FarmHarvest } from "./farm-harvest.entity";
  *
  * @see {@link FarmHarvest} for farm-harvest-crop relationships
  */
+@ObjectType({ description: "Harvest season, such as 2024/2025" })
 @Entity("harvests")
 export class Harvest {
 	/** Unique identifier (UUID v4) */
+	@Field(() => ID)
 	@PrimaryGeneratedColumn("uuid")
 	id!: string;
 
@@ -32,10 +35,12 @@ export class Harvest {
 	 *
 	 * Examples: "2024", "2024/2025", "2025"
 	 */
+	@Field(() => String)
 	@Column({ type: "varchar", length: 20, unique: true })
 	year!: string;
 
 	/** Optional description of the harvest season */
+	@Field(() => String, { nullable: true })
 	@Column({ type: "text", nullable: true })
 	description?: string;
 
@@ -48,10 +53,12 @@ export class Harvest {
 	farmHarvests!: Array<FarmHarvest>;
 
 	/** Timestamp of record creation */
+	@Field(() => Date)
 	@CreateDateColumn({ name: "created_at" })
 	createdAt!: Date;
 
 	/** Timestamp of last record update */
+	@Field(() => Date)
 	@UpdateDateColumn({ name: "updated_at" })
 	updatedAt!: Date;
 }
@@ -0,0 +1,155 @@
+import {
+	Body,
+	Controller,
+	Delete,
+	Get,
+	HttpStatus,
+	Param,
+	Patch,
+	Post,
+	Query,
+} from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { ParseUUIDPipe } from "@/common";
+
+import { CreateHarvestDto, FindAllHarvestsDto, HarvestResponseDto, UpdateHarvestDto } from "./dto";
+import { HarvestsService } from "./harvests.service";
+
+/**
+ * Controller handling HTTP requests for harvest season management.
+ *
+ * Provides RESTful endpoints for CRUD operations on harvests. Farms reference
+ * these harvests by ID when recording crops per season.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [HarvestsController],
+ *   providers: [HarvestsService]
+ * })
+ * ```
+ */
+@ApiTags("Harvests")
+@ApiBearerAuth("JWT")
+@Controller("harvests")
+export class HarvestsController {
+	constructor(private readonly harvestsService: HarvestsService) {}
+
+	/**
+	 * Creates a new harvest season.
+	 *
+	 * @param createHarvestDto Harvest data including year and description
+	 *
+	 * @returns The created harvest with generated ID and timestamps
+	 *
+	 * @throws {ConflictException} If a harvest with the same year already exists
+	 */
+	@Post()
+	@ApiOperation({ summary: "Create a new harvest" })
+	@ApiResponse({
+		status: HttpStatus.CREATED,
+		description: "Harvest created successfully",
+		type: HarvestResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Harvest year already exists" })
+	public create(@Body() createHarvestDto: CreateHarvestDto): Promise<HarvestResponseDto> {
+		return this.harvestsService.create(createHarvestDto);
+	}
+
+	/**
+	 * Retrieves all harvests with pagination, sorting, and search.
+	 *
+	 * @param query Query parameters for pagination, sorting, and search
+	 *
+	 * @returns Paginated harvest response with metadata
+	 */
+	@Get()
+	@ApiOperation({
+		summary: "Get all harvests with pagination, sorting, and search",
+		description:
+			"Retrieves a paginated list of harvests. Sorted by year descending unless specified otherwise.",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Paginated list of harvests",
+		type: [HarvestResponseDto],
+	})
+	public findAll(
+		@Query() query: FindAllHarvestsDto,
+	): Promise<PaginatedResponse<HarvestResponseDto>> {
+		return this.harvestsService.findAll(query);
+	}
+
+	/**
+	 * Retrieves a specific harvest by ID.
+	 *
+	 * @param id UUID of the harvest to retrieve
+	 *
+	 * @returns The harvest with the specified ID
+	 *
+	 * @throws {NotFoundException} If harvest with the given ID does not exist
+	 */
+	@Get(":id")
+	@ApiOperation({ summary: "Get harvest by ID" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Harvest found",
+		type: HarvestResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Harvest not found" })
+	public findOne(@Param("id", ParseUUIDPipe) id: string): Promise<HarvestResponseDto> {
+		return this.harvestsService.findOne(id);
+	}
+
+	/**
+	 * Updates an existing harvest.
+	 *
+	 * @param id UUID of the harvest to update
+	 * @param updateHarvestDto Fields to update
+	 *
+	 * @returns The updated harvest
+	 *
+	 * @throws {NotFoundException} If harvest does not exist
+	 * @throws {ConflictException} If the new year is already in use
+	 */
+	@Patch(":id")
+	@ApiOperation({ summary: "Update harvest" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Harvest updated successfully",
+		type: HarvestResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Harvest not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Harvest year already exists" })
+	public update(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Body() updateHarvestDto: UpdateHarvestDto,
+	): Promise<HarvestResponseDto> {
+		return this.harvestsService.update(id, updateHarvestDto);
+	}
+
+	/**
+	 * Deletes a harvest.
+	 *
+	 * Only harvests without recorded farm crops can be deleted.
+	 *
+	 * @param id UUID of the harvest to delete
+	 *
+	 * @throws {NotFoundException} If harvest with the given ID does not exist
+	 * @throws {ConflictException} If farms have crops recorded for the harvest
+	 */
+	@Delete(":id")
+	@ApiOperation({ summary: "Delete harvest" })
+	@ApiResponse({ status: HttpStatus.OK, description: "Harvest deleted successfully" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Harvest not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Harvest has recorded farm crops" })
+	public remove(@Param("id", ParseUUIDPipe) id: string): Promise<void> {
+		return this.harvestsService.delete(id);
+	}
+}
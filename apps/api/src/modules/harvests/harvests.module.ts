@@ -0,0 +1,33 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { FarmHarvest } from "@/modules/farms/entities";
+
+import { Harvest } from "./entities";
+import { HarvestsController } from "./harvests.controller";
+import { HarvestsService } from "./harvests.service";
+
+/**
+ * NestJS module for harvest season management.
+ *
+ * Provides harvest-related services and repositories. Farms reference the
+ * harvests managed here when recording planted crops.
+ *
+ * Note: Imports FarmHarvest entity to prevent deleting harvests that are in use.
+ *
+ * @example
+ * ```typescript
+ * // In another module
+ * @Module({
+ *   imports: [HarvestsModule],
+ * })
+ * export class DashboardModule {}
+ * ```
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([Harvest, FarmHarvest])],
+	controllers: [HarvestsController],
+	providers: [HarvestsService],
+	exports: [HarvestsService],
+})
+export class HarvestsModule {}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Unit tests for {@link HarvestsService}.
+ *
+ * Tests CRUD business rules and repository interactions using mocked dependencies.
+ */
+
+import { ConflictException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { TestConstants } from "test/fixtures";
+
+import { FarmHarvest } from "@/modules/farms/entities";
+
+import { Harvest } from "./entities";
+import { HarvestsService } from "./harvests.service";
+
+describe("HarvestsService", () => {
+	let service: HarvestsService;
+
+	interface MockQueryBuilder {
+		andWhere: ReturnType<typeof mock>;
+		orderBy: ReturnType<typeof mock>;
+		skip: ReturnType<typeof mock>;
+		take: ReturnType<typeof mock>;
+		getManyAndCount: ReturnType<typeof mock>;
+	}
+
+	const createMockQueryBuilder = (): MockQueryBuilder => {
+		const qb: Partial<MockQueryBuilder> = {
+			getManyAndCount: mock(),
+		};
+
+		qb.andWhere = mock(() => qb);
+		qb.orderBy = mock(() => qb);
+		qb.skip = mock(() => qb);
+		qb.take = mock(() => qb);
+
+		return qb as MockQueryBuilder;
+	};
+
+	const mockHarvestRepository = {
+		create: mock(),
+		save: mock(),
+		findOne: mock(),
+		exists: mock(),
+		delete: mock(),
+		createQueryBuilder: mock(createMockQueryBuilder),
+	};
+
+	const mockFarmHarvestRepository = {
+		count: mock(),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const mockHarvest: Harvest = {
+		id: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+		year: "2024/2025",
+		description: "Safra 2024/2025",
+		farmHarvests: [],
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+		updatedAt: new Date("2025-11-24T10:00:00Z"),
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				HarvestsService,
+				{
+					provide: getRepositoryToken(Harvest),
+					useValue: mockHarvestRepository,
+				},
+				{
+					provide: getRepositoryToken(FarmHarvest),
+					useValue: mockFarmHarvestRepository,
+				},
+				{
+					provide: `PinoLogger:${HarvestsService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<HarvestsService>(HarvestsService);
+
+		mockHarvestRepository.create.mockReset();
+		mockHarvestRepository.save.mockReset();
+		mockHarvestRepository.findOne.mockReset();
+		mockHarvestRepository.exists.mockReset();
+		mockHarvestRepository.delete.mockReset();
+		mockHarvestRepository.createQueryBuilder.mockReset();
+		mockFarmHarvestRepository.count.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("create", () => {
+		it("should create a harvest", async () => {
+			mockHarvestRepository.findOne.mockResolvedValue(null);
+			mockHarvestRepository.create.mockReturnValue(mockHarvest);
+			mockHarvestRepository.save.mockResolvedValue(mockHarvest);
+
+			const result = await service.create({
+				year: mockHarvest.year,
+				description: "Safra 2024/2025",
+			});
+
+			expect(result).toEqual({
+				id: mockHarvest.id,
+				year: mockHarvest.year,
+				description: mockHarvest.description,
+				createdAt: mockHarvest.createdAt,
+				updatedAt: mockHarvest.updatedAt,
+			});
+			expect(mockHarvestRepository.findOne).toHaveBeenCalledWith({
+				where: { year: mockHarvest.year },
+			});
+		});
+
+		it("should throw ConflictException for duplicate year", async () => {
+			mockHarvestRepository.findOne.mockResolvedValue(mockHarvest);
+
+			expect(service.create({ year: mockHarvest.year })).rejects.toThrow(ConflictException);
+			expect(mockHarvestRepository.create).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("findAll", () => {
+		it("should return harvests sorted by year descending by default", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockHarvest], 1]);
+			mockHarvestRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll();
+
+			expect(result.data).toHaveLength(1);
+			expect(result.total).toBe(1);
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith("harvest.year", "DESC");
+		});
+	});
+
+	describe("findOne", () => {
+		it("should return a harvest by ID", async () => {
+			mockHarvestRepository.findOne.mockResolvedValue(mockHarvest);
+
+			const result = await service.findOne(mockHarvest.id);
+
+			expect(result.year).toBe(mockHarvest.year);
+		});
+
+		it("should throw NotFoundException when harvest does not exist", async () => {
+			mockHarvestRepository.findOne.mockResolvedValue(null);
+
+			expect(service.findOne(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("update", () => {
+		it("should update harvest description", async () => {
+			const updatedHarvest = { ...mockHarvest, description: "Safra de inverno" };
+
+			mockHarvestRepository.findOne.mockResolvedValue({ ...mockHarvest });
+			mockHarvestRepository.save.mockResolvedValue(updatedHarvest);
+
+			const result = await service.update(mockHarvest.id, { description: "Safra de inverno" });
+
+			expect(result.description).toBe("Safra de inverno");
+		});
+
+		it("should throw ConflictException when year belongs to another harvest", async () => {
+			mockHarvestRepository.findOne
+				.mockResolvedValueOnce({ ...mockHarvest })
+				.mockResolvedValueOnce({ ...mockHarvest, id: "different-id", year: "2025/2026" });
+
+			expect(service.update(mockHarvest.id, { year: "2025/2026" })).rejects.toThrow(
+				ConflictException,
+			);
+		});
+	});
+
+	describe("delete", () => {
+		it("should delete an unused harvest", async () => {
+			mockHarvestRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.count.mockResolvedValue(0);
+			mockHarvestRepository.delete.mockResolvedValue({ affected: 1 });
+
+			await service.delete(mockHarvest.id);
+
+			expect(mockHarvestRepository.delete).toHaveBeenCalledWith(mockHarvest.id);
+		});
+
+		it("should throw ConflictException when farms have crops in the harvest", async () => {
+			mockHarvestRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.count.mockResolvedValue(3);
+
+			expect(service.delete(mockHarvest.id)).rejects.toThrow(ConflictException);
+		});
+
+		it("should throw NotFoundException when harvest does not exist", async () => {
+			mockHarvestRepository.exists.mockResolvedValue(false);
+
+			expect(service.delete(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(NotFoundException);
+		});
+	});
+});
@@ -0,0 +1,243 @@
+import { ConflictException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import type { PinoLogger } from "nestjs-pino";
+
+import type { PaginatedResponse } from "@agro/shared/types";
+
+import { HarvestSortField, SortOrder } from "@agro/shared/enums";
+
+import { FarmHarvest } from "@/modules/farms/entities";
+
+import { CreateHarvestDto, FindAllHarvestsDto, HarvestResponseDto, UpdateHarvestDto } from "./dto";
+import { Harvest } from "./entities";
+
+/**
+ * Service responsible for harvest business logic and data operations.
+ *
+ * Harvest seasons are created explicitly through this service and referenced
+ * by farms when recording planted crops, so past and future seasons can be
+ * tracked alongside the current one.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly harvestsService: HarvestsService) {}
+ *
+ * async create(dto: CreateHarvestDto) {
+ *   return this.harvestsService.create(dto);
+ * }
+ * ```
+ */
+@Injectable()
+export class HarvestsService {
+	/**
+	 * Creates an instance of HarvestsService.
+	 *
+	 * @param harvestRepository TypeORM repository for Harvest entity
+	 * @param farmHarvestRepository TypeORM repository for FarmHarvest entity
+	 */
+	constructor(
+		@InjectRepository(Harvest)
+		private readonly harvestRepository: Repository<Harvest>,
+
+		@InjectRepository(FarmHarvest)
+		private readonly farmHarvestRepository: Repository<FarmHarvest>,
+
+		@InjectPinoLogger(HarvestsService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Creates a new harvest season.
+	 *
+	 * @param createHarvestDto The harvest data to create
+	 *
+	 * @returns The created harvest
+	 *
+	 * @throws {ConflictException} If a harvest with the same year already exists
+	 *
+	 * @example
+	 * ```typescript
+	 * const harvest = await service.create({ year: "2025/2026", description: "Safra 2025/2026" });
+	 * ```
+	 */
+	public async create(createHarvestDto: CreateHarvestDto): Promise<HarvestResponseDto> {
+		const { year, description } = createHarvestDto;
+
+		await this.checkDuplicateYear(year);
+
+		const harvest = this.harvestRepository.create({ year, description });
+		const savedHarvest = await this.harvestRepository.save(harvest);
+
+		this.logger.info({ harvestId: savedHarvest.id, year }, "Harvest created successfully");
+
+		return this.mapToResponseDto(savedHarvest);
+	}
+
+	/**
+	 * Retrieves all harvests with pagination, sorting, and search.
+	 *
+	 * Sorted by year descending by default so the most recent season comes first.
+	 *
+	 * @param query Query parameters for pagination, sorting, and search
+	 *
+	 * @returns Paginated response with harvests and metadata
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await service.findAll({ page: 1, limit: 10, search: "2024" });
+	 * ```
+	 */
+	public async findAll(
+		query: FindAllHarvestsDto = {},
+	): Promise<PaginatedResponse<HarvestResponseDto>> {
+		const {
+			page = 1,
+			limit = 10,
+			sortBy = HarvestSortField.Year,
+			sortOrder = SortOrder.Descending,
+			search,
+		} = query;
+
+		const qb = this.harvestRepository.createQueryBuilder("harvest");
+
+		if (search) {
+			qb.andWhere("(harvest.year LIKE :search OR harvest.description LIKE :search)", {
+				search: `%${search}%`,
+			});
+		}
+
+		qb.orderBy(`harvest.${sortBy}`, sortOrder as SortOrder);
+
+		const skip = (page - 1) * limit;
+		qb.skip(skip).take(limit);
+
+		const [harvests, total] = await qb.getManyAndCount();
+
+		return {
+			data: harvests.map((harvest) => this.mapToResponseDto(harvest)),
+			page,
+			limit,
+			total,
+			totalPages: Math.ceil(total / limit),
+		};
+	}
+
+	/**
+	 * Retrieves a single harvest by ID.
+	 *
+	 * @param id The UUID of the harvest to retrieve
+	 *
+	 * @returns The harvest with the specified ID
+	 *
+	 * @throws {NotFoundException} If the harvest does not exist
+	 */
+	public async findOne(id: string): Promise<HarvestResponseDto> {
+		const harvest = await this.harvestRepository.findOne({ where: { id } });
+
+		if (!harvest) {
+			throw new NotFoundException(`Harvest with ID ${id} not found`);
+		}
+
+		return this.mapToResponseDto(harvest);
+	}
+
+	/**
+	 * Updates an existing harvest.
+	 *
+	 * Allows partial updates - only provided fields will be updated.
+	 *
+	 * @param id The UUID of the harvest to update
+	 * @param updateHarvestDto The fields to update
+	 *
+	 * @returns The updated harvest
+	 *
+	 * @throws {NotFoundException} If the harvest does not exist
+	 * @throws {ConflictException} If the new year is already used by another harvest
+	 */
+	public async update(id: string, updateHarvestDto: UpdateHarvestDto): Promise<HarvestResponseDto> {
+		const harvest = await this.harvestRepository.findOne({ where: { id } });
+
+		if (!harvest) {
+			throw new NotFoundException(`Harvest with ID ${id} not found`);
+		}
+
+		if (updateHarvestDto.year && updateHarvestDto.year !== harvest.year) {
+			await this.checkDuplicateYear(updateHarvestDto.year, id);
+		}
+
+		Object.assign(harvest, updateHarvestDto);
+		const updatedHarvest = await this.harvestRepository.save(harvest);
+
+		this.logger.info({ harvestId: id, year: updatedHarvest.year }, "Harvest updated successfully");
+
+		return this.mapToResponseDto(updatedHarvest);
+	}
+
+	/**
+	 * Deletes a harvest by ID.
+	 *
+	 * Harvests that already have crops recorded for any farm cannot be deleted,
+	 * since the database would cascade the delete and erase that history.
+	 *
+	 * @param id The UUID of the harvest to delete
+	 *
+	 * @throws {NotFoundException} If the harvest does not exist
+	 * @throws {ConflictException} If farms have crops recorded for the harvest
+	 */
+	public async delete(id: string): Promise<void> {
+		const harvestExists = await this.harvestRepository.exists({ where: { id } });
+
+		if (!harvestExists) {
+			throw new NotFoundException(`Harvest with ID ${id} not found`);
+		}
+
+		const farmCount = await this.farmHarvestRepository.count({ where: { harvestId: id } });
+
+		if (farmCount > 0) {
+			throw new ConflictException(
+				`Harvest with ID ${id} has crops recorded for ${String(farmCount)} farm(s) and cannot be deleted`,
+			);
+		}
+
+		await this.harvestRepository.delete(id);
+
+		this.logger.info({ harvestId: id }, "Harvest deleted successfully");
+	}
+
+	/**
+	 * Checks if a harvest year is already registered.
+	 *
+	 * @param year The harvest year to check
+	 * @param excludeId Optional harvest ID to exclude from the check (for updates)
+	 *
+	 * @throws {ConflictException} If the year is already in use
+	 */
+	private async checkDuplicateYear(year: string, excludeId?: string): Promise<void> {
+		const existingHarvest = await this.harvestRepository.findOne({ where: { year } });
+
+		if (existingHarvest && existingHarvest.id !== excludeId) {
+			throw new ConflictException(`Harvest with year ${year} already exists`);
+		}
+	}
+
+	/**
+	 * Maps a {@link Harvest} entity to a {@link HarvestResponseDto}.
+	 *
+	 * @param harvest The harvest entity to map
+	 *
+	 * @returns The mapped response DTO
+	 */
+	private mapToResponseDto(harvest: Harvest): HarvestResponseDto {
+		return {
+			id: harvest.id,
+			year: harvest.year,
+			description: harvest.description,
+			createdAt: harvest.createdAt,
+			updatedAt: harvest.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,65 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsObject, IsOptional } from "class-validator";
+
+import type { ImportColumnMapping, ImportRequestOptions } from "@agro/shared/types";
+
+/**
+ * Data Transfer Object for the options of a spreadsheet import.
+ *
+ * Sent as multipart form fields along with the file, so `dryRun` arrives as
+ * text and `mapping` as a JSON string.
+ *
+ * @example
+ * ```typescript
+ * const dto: ImportOptionsDto = {
+ *   dryRun: true,
+ *   mapping: { name: "Nome", document: "CPF/CNPJ" }
+ * };
+ * ```
+ */
+export class ImportOptionsDto implements ImportRequestOptions {
+	/**
+	 * Validate the rows and report errors without writing anything.
+	 *
+	 * @example true
+	 */
+	@ApiPropertyOptional({
+		description: "Validate the rows and report errors without writing anything",
+		example: true,
+		default: false,
+		type: Boolean,
+	})
+	@IsOptional()
+	@Transform(({ obj }: { obj: Record<string, unknown> }) =>
+		obj["dryRun"] === undefined ? undefined : obj["dryRun"] === true || obj["dryRun"] === "true",
+	)
+	@IsBoolean({ message: "Dry run must be a boolean" })
+	dryRun?: boolean;
+
+	/**
+	 * Column to read each field from, as a JSON object.
+	 *
+	 * Fields left out are matched to a column by header name.
+	 *
+	 * @example { name: "Nome", document: "CPF/CNPJ" }
+	 */
+	@ApiPropertyOptional({
+		description:
+			"Column header to read each field from, as a JSON object. Fields left out are matched by header name",
+		example: '{"name":"Nome","document":"CPF/CNPJ"}',
+		type: String,
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value !== "string") return value as unknown;
+
+		try {
+			return JSON.parse(value) as unknown;
+		} catch {
+			return value;
+		}
+	})
+	@IsObject({ message: "Mapping must be a JSON object" })
+	mapping?: ImportColumnMapping;
+}
@@ -0,0 +1,135 @@
+import { ApiProperty } from "@nestjs/swagger";
+
+import type { ImportColumnMapping, ImportReport, ImportRowError } from "@agro/shared/types";
+
+/**
+ * Data Transfer Object for the errors of an invalid spreadsheet row.
+ *
+ * @example
+ * ```typescript
+ * const error: ImportRowErrorDto = { row: 3, messages: ["Invalid CPF format"] };
+ * ```
+ */
+export class ImportRowErrorDto implements ImportRowError {
+	/**
+	 * Row number in the spreadsheet, the header being row 1.
+	 *
+	 * @example 3
+	 */
+	@ApiProperty({ description: "Row number in the spreadsheet, the header being row 1", example: 3 })
+	row!: number;
+
+	/**
+	 * Validation error messages of the row.
+	 *
+	 * @example ["Invalid CPF format"]
+	 */
+	@ApiProperty({
+		description: "Validation error messages of the row",
+		example: ["Invalid CPF format"],
+		type: [String],
+		isArray: true,
+	})
+	messages!: Array<string>;
+}
+
+/**
+ * Data Transfer Object for the row-by-row report of a spreadsheet import.
+ *
+ * @example
+ * ```typescript
+ * const report: ImportReportDto = {
+ *   dryRun: true,
+ *   columns: ["Nome", "CPF/CNPJ"],
+ *   mapping: { name: "Nome", document: "CPF/CNPJ" },
+ *   unmappedFields: [],
+ *   totalRows: 2,
+ *   validRows: 1,
+ *   importedRows: 0,
+ *   errors: [{ row: 3, messages: ["Invalid CPF format"] }]
+ * };
+ * ```
+ */
+export class ImportReportDto implements ImportReport {
+	/**
+	 * Whether the import was only validated.
+	 *
+	 * @example true
+	 */
+	@ApiProperty({ description: "Whether the import was only validated", example: true })
+	dryRun!: boolean;
+
+	/**
+	 * Column headers found in the file.
+	 *
+	 * @example ["Nome", "CPF/CNPJ"]
+	 */
+	@ApiProperty({
+		description: "Column headers found in the file",
+		example: ["Nome", "CPF/CNPJ"],
+		type: [String],
+		isArray: true,
+	})
+	columns!: Array<string>;
+
+	/**
+	 * Column each field was read from.
+	 *
+	 * @example { name: "Nome", document: "CPF/CNPJ" }
+	 */
+	@ApiProperty({
+		description: "Column header each field was read from",
+		example: { name: "Nome", document: "CPF/CNPJ" },
+		type: Object,
+	})
+	mapping!: ImportColumnMapping;
+
+	/**
+	 * Fields without a column, preventing the rows from being validated.
+	 *
+	 * @example []
+	 */
+	@ApiProperty({
+		description: "Fields without a column, preventing the rows from being validated",
+		example: [],
+		type: [String],
+		isArray: true,
+	})
+	unmappedFields!: Array<string>;
+
+	/**
+	 * Number of data rows in the file.
+	 *
+	 * @example 2
+	 */
+	@ApiProperty({ description: "Number of data rows in the file", example: 2 })
+	totalRows!: number;
+
+	/**
+	 * Number of rows without errors.
+	 *
+	 * @example 1
+	 */
+	@ApiProperty({ description: "Number of rows without errors", example: 1 })
+	validRows!: number;
+
+	/**
+	 * Number of rows written, always `0` on dry runs.
+	 *
+	 * @example 0
+	 */
+	@ApiProperty({ description: "Number of rows written, always 0 on dry runs", example: 0 })
+	importedRows!: number;
+
+	/**
+	 * Errors of the invalid rows, by row number.
+	 *
+	 * @example [{ row: 3, messages: ["Invalid CPF format"] }]
+	 */
+	@ApiProperty({
+		description: "Errors of the invalid rows, by row number",
+		type: [ImportRowErrorDto],
+		isArray: true,
+	})
+	errors!: Array<ImportRowErrorDto>;
+}
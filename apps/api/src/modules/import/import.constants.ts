@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Import module constants
+ *
+ * Contains the column headers recognized for each importable field when no
+ * mapping is given, in English and Portuguese.
+ */
+
+import type { FarmImportField, ProducerImportField } from "@agro/shared/types";
+
+/**
+ * Normalized headers recognized for each producer field.
+ *
+ * Headers are compared lowercased, without accents, spaces or punctuation.
+ */
+export const PRODUCER_COLUMN_ALIASES: Record<ProducerImportField, Array<string>> = {
+	name: ["name", "nome", "produtor", "nomedoprodutor"],
+	document: ["document", "documento", "cpf", "cnpj", "cpfcnpj"],
+};
+
+/**
+ * Normalized headers recognized for each farm field.
+ *
+ * Headers are compared lowercased, without accents, spaces or punctuation.
+ */
+export const FARM_COLUMN_ALIASES: Record<FarmImportField, Array<string>> = {
+	name: ["name", "nome", "fazenda", "nomedafazenda"],
+	city: ["city", "cidade", "municipio"],
+	state: ["state", "estado", "uf"],
+	totalArea: ["totalarea", "totalareaha", "areatotal", "areatotalha"],
+	arableArea: ["arablearea", "arableareaha", "areaagricultavel", "areaagricultavelha"],
+	vegetationArea: [
+		"vegetationarea",
+		"vegetationareaha",
+		"areadevegetacao",
+		"areavegetacao",
+		"areadevegetacaoha",
+	],
+	producerDocument: [
+		"producerdocument",
+		"documentodoprodutor",
+		"cpfcnpj",
+		"cpf",
+		"cnpj",
+		"documento",
+	],
+};
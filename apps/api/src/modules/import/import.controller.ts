@@ -0,0 +1,122 @@
+import {
+	Body,
+	Controller,
+	HttpCode,
+	HttpStatus,
+	Post,
+	UploadedFile,
+	UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+	ApiBearerAuth,
+	ApiBody,
+	ApiConsumes,
+	ApiOperation,
+	ApiResponse,
+	ApiTags,
+} from "@nestjs/swagger";
+
+import { MAX_IMPORT_FILE_SIZE } from "@agro/shared/constants";
+
+import { ImportOptionsDto, ImportReportDto } from "./dto";
+import { ImportService } from "./import.service";
+
+/** Multipart body of the import endpoints, as documented in the OpenAPI spec */
+const IMPORT_BODY_SCHEMA = {
+	type: "object",
+	required: ["file"],
+	properties: {
+		file: { type: "string", format: "binary", description: "CSV or XLSX file" },
+		dryRun: { type: "boolean", description: "Validate the rows without writing anything" },
+		mapping: {
+			type: "string",
+			description: "Column header to read each field from, as a JSON object",
+		},
+	},
+};
+
+/**
+ * Controller handling bulk imports of producers and farms from spreadsheets.
+ *
+ * Files are uploaded as `multipart/form-data` in the `file` field, along with
+ * the import options. Each endpoint answers with a row-by-row report, whether
+ * the import is a dry run or not.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [ImportController],
+ *   providers: [ImportService]
+ * })
+ * ```
+ */
+@ApiTags("Import")
+@ApiBearerAuth("JWT")
+@Controller("import")
+export class ImportController {
+	constructor(private readonly importService: ImportService) {}
+
+	/**
+	 * Imports producers from a CSV or XLSX file.
+	 *
+	 * @param file Uploaded spreadsheet
+	 * @param options Dry run flag and column mapping
+	 *
+	 * @returns Row-by-row report of the import
+	 *
+	 * @throws {BadRequestException} If the file or mapping is invalid
+	 * @throws {PayloadTooLargeException} If the file exceeds the size limit
+	 */
+	@Post("producers")
+	@HttpCode(HttpStatus.OK)
+	@UseInterceptors(FileInterceptor("file", { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+	@ApiOperation({
+		summary: "Import producers from a CSV or XLSX file",
+		description:
+			"Validates every row like the create endpoint does and writes the valid ones in a single transaction. With `dryRun`, only reports the errors of each row.",
+	})
+	@ApiConsumes("multipart/form-data")
+	@ApiBody({ schema: IMPORT_BODY_SCHEMA })
+	@ApiResponse({ status: HttpStatus.OK, description: "Import report", type: ImportReportDto })
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid file or mapping" })
+	@ApiResponse({ status: HttpStatus.PAYLOAD_TOO_LARGE, description: "File too large" })
+	public importProducers(
+		@UploadedFile() file: Express.Multer.File | undefined,
+		@Body() options: ImportOptionsDto,
+	): Promise<ImportReportDto> {
+		return this.importService.importProducers(file, options);
+	}
+
+	/**
+	 * Imports farms from a CSV or XLSX file.
+	 *
+	 * @param file Uploaded spreadsheet
+	 * @param options Dry run flag and column mapping
+	 *
+	 * @returns Row-by-row report of the import
+	 *
+	 * @throws {BadRequestException} If the file or mapping is invalid
+	 * @throws {PayloadTooLargeException} If the file exceeds the size limit
+	 */
+	@Post("farms")
+	@HttpCode(HttpStatus.OK)
+	@UseInterceptors(FileInterceptor("file", { limits: { fileSize: MAX_IMPORT_FILE_SIZE } }))
+	@ApiOperation({
+		summary: "Import farms from a CSV or XLSX file",
+		description:
+			"Validates every row like the create endpoint does, finding the producer by CPF/CNPJ, and writes the valid ones in a single transaction. With `dryRun`, only reports the errors of each row.",
+	})
+	@ApiConsumes("multipart/form-data")
+	@ApiBody({ schema: IMPORT_BODY_SCHEMA })
+	@ApiResponse({ status: HttpStatus.OK, description: "Import report", type: ImportReportDto })
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid file or mapping" })
+	@ApiResponse({ status: HttpStatus.PAYLOAD_TOO_LARGE, description: "File too large" })
+	public importFarms(
+		@UploadedFile() file: Express.Multer.File | undefined,
+		@Body() options: ImportOptionsDto,
+	): Promise<ImportReportDto> {
+		return this.importService.importFarms(file, options);
+	}
+}
@@ -0,0 +1,30 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { Producer } from "@/modules/producers/entities";
+
+import { ImportController } from "./import.controller";
+import { ImportService } from "./import.service";
+
+/**
+ * NestJS module for bulk imports of producers and farms from spreadsheets.
+ *
+ * Note: The city of each imported farm is validated by the IsCityInState
+ * constraint provided by FarmsModule, resolved through the class-validator
+ * container set up in main.ts.
+ *
+ * @example
+ * ```typescript
+ * // In app.module.ts
+ * @Module({
+ *   imports: [ImportModule],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([Producer])],
+	controllers: [ImportController],
+	providers: [ImportService],
+})
+export class ImportModule {}
@@ -0,0 +1,306 @@
+/**
+ * @fileoverview Unit tests for {@link ImportService}.
+ *
+ * Tests column mapping, row validation and the dry run and transactional
+ * writes of spreadsheet imports, using in-memory CSV and XLSX files and
+ * mocked dependencies.
+ */
+
+import { BadRequestException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, mock } from "bun:test";
+import { useContainer } from "class-validator";
+import { Workbook } from "exceljs";
+
+import { IsCityInStateConstraint } from "@/common/decorators/city-in-state.decorator";
+import { Farm, FarmOwner } from "@/modules/farms/entities";
+import { Producer } from "@/modules/producers/entities";
+
+import { ImportService } from "./import.service";
+
+describe("ImportService", () => {
+	let service: ImportService;
+
+	/** Mock of the constraint looking cities up in the database */
+	const cityConstraint = {
+		validate: mock((_city: string): Promise<boolean> => Promise.resolve(true)),
+		defaultMessage: () => "City does not exist in state",
+	};
+
+	const mockRepository = {
+		find: mock(),
+		manager: {
+			transaction: mock(),
+		},
+	};
+
+	const mockEntityManager = {
+		create: mock((_entity: unknown, data: object) => data),
+		save: mock((_entity: unknown, data: Array<object>) =>
+			Promise.resolve(data.map((item, index) => ({ id: `id-${String(index)}`, ...item }))),
+		),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	/**
+	 * Creates an uploaded file from its contents.
+	 *
+	 * @param contents CSV text or XLSX bytes
+	 * @param originalname Name of the file
+	 *
+	 * @returns The file as received by the controller
+	 */
+	const createFile = (
+		contents: string | Buffer,
+		originalname = "import.csv",
+	): Express.Multer.File =>
+		({
+			buffer: Buffer.from(contents),
+			originalname,
+			size: contents.length,
+		}) as Express.Multer.File;
+
+	beforeAll(() => {
+		useContainer(
+			{
+				get: <T>(someClass: unknown): T =>
+					(someClass === IsCityInStateConstraint ? cityConstraint : undefined) as T,
+			},
+			{ fallback: true },
+		);
+	});
+
+	afterAll(() => {
+		useContainer({ get: <T>(): T => undefined as T }, { fallback: true });
+	});
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				ImportService,
+				{
+					provide: getRepositoryToken(Producer),
+					useValue: mockRepository,
+				},
+				{
+					provide: `PinoLogger:${ImportService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<ImportService>(ImportService);
+
+		mockRepository.find.mockReset();
+		mockRepository.find.mockResolvedValue([]);
+		mockRepository.manager.transaction.mockReset();
+		mockRepository.manager.transaction.mockImplementation(
+			(work: (manager: typeof mockEntityManager) => Promise<void>) => work(mockEntityManager),
+		);
+		mockEntityManager.create.mockClear();
+		mockEntityManager.save.mockClear();
+		cityConstraint.validate.mockClear();
+		cityConstraint.validate.mockResolvedValue(true);
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("importProducers", () => {
+		it("should map Portuguese headers and only report on dry runs", async () => {
+			const file = createFile("Nome;CPF/CNPJ\nJoão da Silva;111.444.777-35\n");
+
+			const report = await service.importProducers(file, { dryRun: true });
+
+			expect(report).toEqual({
+				dryRun: true,
+				columns: ["Nome", "CPF/CNPJ"],
+				mapping: { name: "Nome", document: "CPF/CNPJ" },
+				unmappedFields: [],
+				totalRows: 1,
+				validRows: 1,
+				importedRows: 0,
+				errors: [],
+			});
+			expect(mockRepository.manager.transaction).not.toHaveBeenCalled();
+		});
+
+		it("should report invalid, existing and repeated documents by row", async () => {
+			mockRepository.find.mockResolvedValue([
+				{ id: "existing", document: "52998224725", deletedAt: new Date() },
+			]);
+			const file = createFile(
+				[
+					"name,document",
+					"Valid Producer,11222333000181",
+					"Invalid Document,111.444.777-36",
+					"In The Trash,529.982.247-25",
+					"Repeated,11.222.333/0001-81",
+					"Jo,111.444.777-35",
+				].join("\n"),
+			);
+
+			const report = await service.importProducers(file, { dryRun: true });
+
+			expect(report.validRows).toBe(1);
+			expect(report.errors).toEqual([
+				{ row: 3, messages: ["Invalid CPF format"] },
+				{ row: 4, messages: ["Producer with document 52998224725 already exists in the trash"] },
+				{ row: 5, messages: ["Document 11222333000181 is repeated from row 2"] },
+				{ row: 6, messages: ["Name must be between 3 and 255 characters"] },
+			]);
+		});
+
+		it("should save the valid rows in a single transaction", async () => {
+			const file = createFile("name,document\nJoão da Silva,111.444.777-35\nBad,123\n");
+
+			const report = await service.importProducers(file, {});
+
+			expect(report.importedRows).toBe(1);
+			expect(report.errors).toHaveLength(1);
+			expect(mockRepository.manager.transaction).toHaveBeenCalledTimes(1);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Producer, [
+				{ name: "João da Silva", document: "11144477735" },
+			]);
+		});
+
+		it("should use the requested mapping", async () => {
+			const file = createFile("Produtor,Documento fiscal\nJoão da Silva,111.444.777-35\n");
+
+			const report = await service.importProducers(file, {
+				dryRun: true,
+				mapping: { document: "Documento fiscal" },
+			});
+
+			expect(report.mapping).toEqual({ document: "Documento fiscal", name: "Produtor" });
+			expect(report.validRows).toBe(1);
+		});
+
+		it("should read XLSX files", async () => {
+			const workbook = new Workbook();
+			const worksheet = workbook.addWorksheet("Produtores");
+			worksheet.addRow(["Nome", "CPF"]);
+			worksheet.addRow(["João da Silva", "111.444.777-35"]);
+			const file = createFile(Buffer.from(await workbook.xlsx.writeBuffer()), "produtores.xlsx");
+
+			const report = await service.importProducers(file, { dryRun: true });
+
+			expect(report.totalRows).toBe(1);
+			expect(report.validRows).toBe(1);
+		});
+
+		it("should report unmapped fields on dry runs without validating rows", async () => {
+			const file = createFile("Nome\nJoão da Silva\n");
+
+			const report = await service.importProducers(file, { dryRun: true });
+
+			expect(report.unmappedFields).toEqual(["document"]);
+			expect(report.validRows).toBe(0);
+			expect(mockRepository.find).not.toHaveBeenCalled();
+		});
+
+		it("should reject imports with unmapped fields", () => {
+			const file = createFile("Nome\nJoão da Silva\n");
+
+			expect(service.importProducers(file, {})).rejects.toThrow(
+				new BadRequestException("Every field must be mapped to a column, missing: document"),
+			);
+		});
+
+		it("should reject mappings to unknown fields or columns", () => {
+			const file = createFile("Nome;CPF\nJoão da Silva;111.444.777-35\n");
+
+			expect(service.importProducers(file, { mapping: { email: "Nome" } })).rejects.toThrow(
+				new BadRequestException("Unknown import field: email"),
+			);
+			expect(service.importProducers(file, { mapping: { name: "Name" } })).rejects.toThrow(
+				new BadRequestException("Column Name not found in the file"),
+			);
+		});
+
+		it("should reject missing and unsupported files", () => {
+			expect(service.importProducers(undefined, {})).rejects.toThrow(
+				new BadRequestException("File is required"),
+			);
+			expect(service.importProducers(createFile("name", "import.txt"), {})).rejects.toThrow(
+				new BadRequestException("Unsupported file type, expected a CSV or XLSX file"),
+			);
+		});
+	});
+
+	describe("importFarms", () => {
+		const header = "Fazenda;Município;UF;Área total;Área agricultável;Área de vegetação;CPF";
+
+		it("should save farms owned by the producer found by document", async () => {
+			mockRepository.find.mockResolvedValue([{ id: "producer-1", document: "11144477735" }]);
+			const file = createFile(
+				`${header}\nFazenda Boa Vista;Campinas;sp;1.200,50;800;300,5;111.444.777-35\n`,
+			);
+
+			const report = await service.importFarms(file, {});
+
+			expect(report.errors).toEqual([]);
+			expect(report.importedRows).toBe(1);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Farm, [
+				{
+					name: "Fazenda Boa Vista",
+					city: "Campinas",
+					state: "SP",
+					totalArea: 1200.5,
+					arableArea: 800,
+					vegetationArea: 300.5,
+					producerId: "producer-1",
+				},
+			]);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(FarmOwner, [
+				{ farmId: "id-0", producerId: "producer-1", percentage: 100 },
+			]);
+		});
+
+		it("should report unknown producers, invalid areas and cities by row", async () => {
+			mockRepository.find.mockResolvedValue([{ id: "producer-1", document: "11144477735" }]);
+			cityConstraint.validate.mockImplementation((city: string) =>
+				Promise.resolve(city !== "Atlantis"),
+			);
+			const file = createFile(
+				[
+					header,
+					"Fazenda Um;Campinas;SP;100;50;20;529.982.247-25",
+					"Fazenda Dois;Campinas;SP;100;80;30;111.444.777-35",
+					"Fazenda Três;Atlantis;SP;abc;50;20;111.444.777-35",
+				].join("\n"),
+			);
+
+			const report = await service.importFarms(file, { dryRun: true });
+
+			expect(report.validRows).toBe(0);
+			expect(report.errors).toEqual([
+				{ row: 2, messages: ["Producer with document 529.982.247-25 not found"] },
+				{
+					row: 3,
+					messages: [
+						"Sum of arable and vegetation areas (110.00 ha) exceeds total area (100.00 ha)",
+					],
+				},
+				{
+					row: 4,
+					messages: [
+						"City must exist within the specified state",
+						"Total area must be greater than zero",
+						"Total area must be a number",
+					],
+				},
+			]);
+			expect(mockRepository.manager.transaction).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,454 @@
+import { BadRequestException, Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+import { InjectPinoLogger } from "nestjs-pino";
+import { In, Repository } from "typeorm";
+
+import type { PinoLogger } from "nestjs-pino";
+
+import type { FarmImportField, ImportColumnMapping, ProducerImportField } from "@agro/shared/types";
+
+import type { SpreadsheetRow, SpreadsheetTable } from "@/common";
+
+import {
+	FARM_IMPORT_FIELDS,
+	MAX_IMPORT_ROWS,
+	PRODUCER_IMPORT_FIELDS,
+} from "@agro/shared/constants";
+import {
+	assertValidFarmArea,
+	isCPFDocument,
+	stripDocumentFormatting,
+	validateCNPJ,
+	validateCPF,
+} from "@agro/shared/validators";
+
+import { readSpreadsheet } from "@/common";
+import { CreateFarmDto } from "@/modules/farms/dto";
+import { Farm, FarmOwner } from "@/modules/farms/entities";
+import { CreateProducerDto } from "@/modules/producers/dto";
+import { Producer } from "@/modules/producers/entities";
+
+import { ImportOptionsDto, ImportReportDto } from "./dto";
+import { FARM_COLUMN_ALIASES, PRODUCER_COLUMN_ALIASES } from "./import.constants";
+
+/**
+ * Service responsible for importing producers and farms from spreadsheets.
+ *
+ * Each row goes through the same validation as the create endpoints: the DTO
+ * constraints (including the city lookup), the CPF/CNPJ check digits and the
+ * farm area constraints. Rows are reported one by one, and the valid ones are
+ * written in a single transaction unless the import is a dry run.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly importService: ImportService) {}
+ *
+ * async importProducers(file: Express.Multer.File, options: ImportOptionsDto) {
+ *   return this.importService.importProducers(file, options);
+ * }
+ * ```
+ */
+@Injectable()
+export class ImportService {
+	/**
+	 * Creates an instance of ImportService.
+	 *
+	 * @param producerRepository TypeORM repository for Producer entity
+	 */
+	constructor(
+		@InjectRepository(Producer)
+		private readonly producerRepository: Repository<Producer>,
+
+		@InjectPinoLogger(ImportService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Imports producers from a CSV or XLSX file.
+	 *
+	 * Rows are rejected when their document is invalid, already belongs to a
+	 * producer (including the ones in the trash) or repeats an earlier row.
+	 *
+	 * @param file Uploaded spreadsheet
+	 * @param options Dry run flag and column mapping
+	 *
+	 * @returns Row-by-row report of the import
+	 *
+	 * @throws {BadRequestException} If the file is missing, unreadable or too large, the mapping
+	 * is invalid, or a field has no column outside of a dry run
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = await service.importProducers(file, { dryRun: true });
+	 * console.log(`${report.validRows} of ${report.totalRows} rows are valid`);
+	 * ```
+	 */
+	public async importProducers(
+		file: Express.Multer.File | undefined,
+		options: ImportOptionsDto = {},
+	): Promise<ImportReportDto> {
+		const table = await this.readFile(file);
+		const report = this.createReport(
+			PRODUCER_IMPORT_FIELDS,
+			PRODUCER_COLUMN_ALIASES,
+			table,
+			options,
+		);
+
+		if (report.unmappedFields.length > 0) return report;
+
+		const mapping = report.mapping as Required<ImportColumnMapping<ProducerImportField>>;
+		const documents = table.rows.map((row) =>
+			stripDocumentFormatting(row.values[mapping.document] ?? ""),
+		);
+		const existingProducers = await this.producerRepository.find({
+			where: { document: In(documents) },
+			select: { id: true, document: true, deletedAt: true },
+			withDeleted: true,
+		});
+		const existingDocuments = new Map(
+			existingProducers.map((producer) => [producer.document, producer]),
+		);
+		const documentRows = new Map<string, number>();
+		const producers: Array<Pick<Producer, "name" | "document">> = [];
+
+		for (const row of table.rows) {
+			const dto = plainToInstance(CreateProducerDto, this.readRow(row, mapping));
+			const messages = await this.validateDto(dto);
+
+			if (messages.length === 0) {
+				const isCPF = isCPFDocument(dto.document);
+				const document = stripDocumentFormatting(dto.document);
+				const existingProducer = existingDocuments.get(document);
+				const earlierRow = documentRows.get(document);
+
+				if (isCPF ? !validateCPF(dto.document) : !validateCNPJ(dto.document)) {
+					messages.push(isCPF ? "Invalid CPF format" : "Invalid CNPJ format");
+				} else if (existingProducer) {
+					messages.push(
+						existingProducer.deletedAt ?
+							`Producer with document ${document} already exists in the trash`
+						:	`Producer with document ${document} already exists`,
+					);
+				} else if (earlierRow !== undefined) {
+					messages.push(`Document ${document} is repeated from row ${String(earlierRow)}`);
+				} else {
+					documentRows.set(document, row.number);
+					producers.push({ name: dto.name, document });
+				}
+			}
+
+			if (messages.length > 0) report.errors.push({ row: row.number, messages });
+		}
+
+		report.validRows = producers.length;
+
+		if (!report.dryRun && producers.length > 0) {
+			await this.producerRepository.manager.transaction(async (manager) => {
+				await manager.save(
+					Producer,
+					producers.map((producer) => manager.create(Producer, producer)),
+				);
+			});
+
+			report.importedRows = producers.length;
+		}
+
+		this.logger.info(
+			{ dryRun: report.dryRun, totalRows: report.totalRows, importedRows: report.importedRows },
+			"Producers import completed",
+		);
+
+		return report;
+	}
+
+	/**
+	 * Imports farms from a CSV or XLSX file.
+	 *
+	 * Each farm is owned entirely by the producer whose CPF/CNPJ is in the
+	 * `producerDocument` column, who must not be in the trash. Areas may use a
+	 * decimal comma, as in "1.234,56".
+	 *
+	 * @param file Uploaded spreadsheet
+	 * @param options Dry run flag and column mapping
+	 *
+	 * @returns Row-by-row report of the import
+	 *
+	 * @throws {BadRequestException} If the file is missing, unreadable or too large, the mapping
+	 * is invalid, or a field has no column outside of a dry run
+	 *
+	 * @example
+	 * ```typescript
+	 * const report = await service.importFarms(file, {
+	 *   mapping: { producerDocument: "CPF do produtor" }
+	 * });
+	 * console.log(`${report.importedRows} farms imported`);
+	 * ```
+	 */
+	public async importFarms(
+		file: Express.Multer.File | undefined,
+		options: ImportOptionsDto = {},
+	): Promise<ImportReportDto> {
+		const table = await this.readFile(file);
+		const report = this.createReport(FARM_IMPORT_FIELDS, FARM_COLUMN_ALIASES, table, options);
+
+		if (report.unmappedFields.length > 0) return report;
+
+		const mapping = report.mapping as Required<ImportColumnMapping<FarmImportField>>;
+		const documents = table.rows.map((row) =>
+			stripDocumentFormatting(row.values[mapping.producerDocument] ?? ""),
+		);
+		const producers = await this.producerRepository.find({
+			where: { document: In(documents) },
+			select: { id: true, document: true },
+		});
+		const producerIds = new Map(producers.map((producer) => [producer.document, producer.id]));
+		const farms: Array<CreateFarmDto> = [];
+
+		for (const row of table.rows) {
+			const { producerDocument, totalArea, arableArea, vegetationArea, state, ...values } =
+				this.readRow(row, mapping);
+			const producerId = producerIds.get(stripDocumentFormatting(producerDocument ?? ""));
+			const dto = plainToInstance(CreateFarmDto, {
+				...values,
+				state: state?.toUpperCase(),
+				totalArea: this.parseDecimal(totalArea),
+				arableArea: this.parseDecimal(arableArea),
+				vegetationArea: this.parseDecimal(vegetationArea),
+				producerId,
+			});
+			const messages = await this.validateDto(dto, ["producerId"]);
+
+			if (!producerDocument) {
+				messages.push("Producer document is required");
+			} else if (!producerId) {
+				messages.push(`Producer with document ${producerDocument} not found`);
+			}
+
+			if (messages.length === 0) {
+				try {
+					assertValidFarmArea(dto.totalArea, dto.arableArea, dto.vegetationArea);
+				} catch (error) {
+					messages.push(error instanceof Error ? error.message : String(error));
+				}
+			}
+
+			if (messages.length > 0) {
+				report.errors.push({ row: row.number, messages });
+			} else {
+				farms.push(dto);
+			}
+		}
+
+		report.validRows = farms.length;
+
+		if (!report.dryRun && farms.length > 0) {
+			await this.producerRepository.manager.transaction(async (manager) => {
+				const savedFarms = await manager.save(
+					Farm,
+					farms.map(({ name, city, state, totalArea, arableArea, vegetationArea, producerId }) =>
+						manager.create(Farm, {
+							name,
+							city,
+							state,
+							totalArea,
+							arableArea,
+							vegetationArea,
+							producerId,
+						}),
+					),
+				);
+
+				await manager.save(
+					FarmOwner,
+					savedFarms.map((farm) =>
+						manager.create(FarmOwner, {
+							farmId: farm.id,
+							producerId: farm.producerId,
+							percentage: 100,
+						}),
+					),
+				);
+			});
+
+			report.importedRows = farms.length;
+		}
+
+		this.logger.info(
+			{ dryRun: report.dryRun, totalRows: report.totalRows, importedRows: report.importedRows },
+			"Farms import completed",
+		);
+
+		return report;
+	}
+
+	/**
+	 * Reads the uploaded spreadsheet.
+	 *
+	 * @param file Uploaded spreadsheet
+	 *
+	 * @returns Column headers and data rows of the first sheet
+	 *
+	 * @throws {BadRequestException} If the file is missing, unreadable or has too many rows
+	 */
+	private async readFile(file: Express.Multer.File | undefined): Promise<SpreadsheetTable> {
+		if (!file) throw new BadRequestException("File is required");
+
+		this.logger.debug({ fileName: file.originalname, size: file.size }, "Reading import file");
+
+		const table = await readSpreadsheet(file.buffer, file.originalname);
+
+		if (table.rows.length > MAX_IMPORT_ROWS) {
+			throw new BadRequestException(
+				`File has ${String(table.rows.length)} rows, the limit is ${String(MAX_IMPORT_ROWS)}`,
+			);
+		}
+
+		return table;
+	}
+
+	/**
+	 * Creates the report of an import, before its rows are validated.
+	 *
+	 * Fields missing from the given mapping are matched to a column by header
+	 * name, using the known aliases of each field.
+	 *
+	 * @param fields Importable fields
+	 * @param aliases Normalized headers recognized for each field
+	 * @param table Contents of the spreadsheet
+	 * @param options Dry run flag and column mapping
+	 *
+	 * @returns Empty report with the resolved mapping and unmapped fields
+	 *
+	 * @throws {BadRequestException} If the mapping names an unknown field or column, or a field
+	 * has no column outside of a dry run
+	 */
+	private createReport<TField extends string>(
+		fields: ReadonlyArray<TField>,
+		aliases: Record<TField, Array<string>>,
+		table: SpreadsheetTable,
+		options: ImportOptionsDto,
+	): ImportReportDto & { mapping: ImportColumnMapping<TField>; unmappedFields: Array<TField> } {
+		const { dryRun = false, mapping: requestedMapping = {} } = options;
+		const mapping: ImportColumnMapping<TField> = {};
+
+		for (const [field, column] of Object.entries(requestedMapping)) {
+			if (!fields.includes(field as TField)) {
+				throw new BadRequestException(`Unknown import field: ${field}`);
+			}
+
+			if (typeof column !== "string" || !table.columns.includes(column)) {
+				throw new BadRequestException(`Column ${String(column)} not found in the file`);
+			}
+
+			mapping[field as TField] = column;
+		}
+
+		for (const field of fields) {
+			if (mapping[field]) continue;
+
+			const usedColumns = new Set(Object.values(mapping));
+			const column = aliases[field]
+				.map((alias) =>
+					table.columns.find(
+						(header) => !usedColumns.has(header) && this.normalizeHeader(header) === alias,
+					),
+				)
+				.find(Boolean);
+
+			if (column) mapping[field] = column;
+		}
+
+		const unmappedFields = fields.filter((field) => !mapping[field]);
+
+		if (unmappedFields.length > 0 && !dryRun) {
+			throw new BadRequestException(
+				`Every field must be mapped to a column, missing: ${unmappedFields.join(", ")}`,
+			);
+		}
+
+		return {
+			dryRun,
+			columns: table.columns,
+			mapping,
+			unmappedFields,
+			totalRows: table.rows.length,
+			validRows: 0,
+			importedRows: 0,
+			errors: [],
+		};
+	}
+
+	/**
+	 * Reads the mapped cells of a row.
+	 *
+	 * @param row Spreadsheet row
+	 * @param mapping Column of each field
+	 *
+	 * @returns Cell text by field, missing for empty cells
+	 */
+	private readRow<TField extends string>(
+		row: SpreadsheetRow,
+		mapping: Required<ImportColumnMapping<TField>>,
+	): Partial<Record<TField, string>> {
+		const values: Partial<Record<TField, string>> = {};
+
+		for (const [field, column] of Object.entries(mapping) as Array<[TField, string]>) {
+			values[field] = row.values[column];
+		}
+
+		return values;
+	}
+
+	/**
+	 * Validates a DTO against its class-validator constraints.
+	 *
+	 * @param dto DTO instance to validate
+	 * @param ignoredProperties Properties whose errors are reported otherwise
+	 *
+	 * @returns Constraint messages of the invalid properties
+	 */
+	private async validateDto(
+		dto: object,
+		ignoredProperties: Array<string> = [],
+	): Promise<Array<string>> {
+		const errors = await validate(dto);
+
+		return errors
+			.filter((error) => !ignoredProperties.includes(error.property))
+			.flatMap((error) => Object.values(error.constraints ?? {}));
+	}
+
+	/**
+	 * Parses a decimal number written with either a decimal point or a decimal comma.
+	 *
+	 * With a comma, dots are taken as thousands separators ("1.234,56").
+	 *
+	 * @param value Cell text
+	 *
+	 * @returns The parsed number, `NaN` if not a number, or `undefined` for empty cells
+	 */
+	private parseDecimal(value: string | undefined): number | undefined {
+		if (!value) return undefined;
+
+		return Number(value.includes(",") ? value.replaceAll(".", "").replace(",", ".") : value);
+	}
+
+	/**
+	 * Normalizes a column header for comparison with the field aliases.
+	 *
+	 * @param header Column header
+	 *
+	 * @returns The header lowercased, without accents, spaces or punctuation
+	 */
+	private normalizeHeader(header: string): string {
+		return header
+			.normalize("NFD")
+			.replaceAll(/[\u0300-\u036f]/g, "")
+			.toLowerCase()
+			.replaceAll(/[^a-z0-9]/g, "");
+	}
+}
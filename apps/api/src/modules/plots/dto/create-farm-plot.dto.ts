@@ -0,0 +1,102 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+	IsEnum,
+	IsNotEmpty,
+	IsNumber,
+	IsObject,
+	IsOptional,
+	IsString,
+	Length,
+	Min,
+} from "class-validator";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { SoilType } from "@agro/shared/enums";
+
+import { IsFarmBoundary } from "@/common/decorators/farm-boundary.decorator";
+
+/**
+ * Data Transfer Object for creating a plot (talhão) of a farm.
+ *
+ * The plot name must be unique within the farm, and the sum of plot areas
+ * cannot exceed the farm's arable area (validated at service layer).
+ *
+ * @example
+ * ```typescript
+ * const dto: CreateFarmPlotDto = {
+ *   name: "Talhão 01",
+ *   area: 25.5,
+ *   soilType: SoilType.Clayey
+ * };
+ * ```
+ */
+export class CreateFarmPlotDto {
+	/**
+	 * Plot name or identification.
+	 *
+	 * @example "Talhão 01"
+	 */
+	@ApiProperty({ description: "Plot name or identification", example: "Talhão 01", maxLength: 100 })
+	@IsNotEmpty({ message: "Plot name is required" })
+	@IsString({ message: "Plot name must be a string" })
+	@Length(1, 100, { message: "Plot name must be at most 100 characters" })
+	name!: string;
+
+	/**
+	 * Plot area in hectares.
+	 *
+	 * @example 25.5
+	 */
+	@ApiProperty({
+		description: "Plot area in hectares",
+		example: faker.number.float({ min: 5, max: 50, fractionDigits: 2 }),
+		minimum: 0.01,
+	})
+	@IsNotEmpty({ message: "Plot area is required" })
+	@IsNumber({}, { message: "Plot area must be a number" })
+	@Min(0.01, { message: "Plot area must be greater than zero" })
+	area!: number;
+
+	/**
+	 * Boundary of the plot as a GeoJSON Polygon or MultiPolygon.
+	 *
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
+	 */
+	@ApiPropertyOptional({
+		description: "Boundary of the plot as a GeoJSON Polygon or MultiPolygon",
+		type: Object,
+		example: {
+			type: "Polygon",
+			coordinates: [
+				[
+					[-47.07, -22.91],
+					[-47.065, -22.91],
+					[-47.065, -22.905],
+					[-47.07, -22.905],
+					[-47.07, -22.91],
+				],
+			],
+		},
+	})
+	@IsOptional()
+	@IsObject({ message: "Boundary must be a GeoJSON object" })
+	@IsFarmBoundary()
+	boundary?: FarmBoundary;
+
+	/**
+	 * Soil texture class of the plot.
+	 *
+	 * @example SoilType.Clayey
+	 */
+	@ApiPropertyOptional({
+		description: "Soil texture class of the plot",
+		example: SoilType.Clayey,
+		enum: SoilType,
+		enumName: "SoilType",
+	})
+	@IsOptional()
+	@IsEnum(SoilType, { message: "Soil type must be a valid soil type" })
+	soilType?: SoilType;
+}
@@ -0,0 +1,144 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { SoilType } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for farm plot responses.
+ *
+ * @example
+ * ```typescript
+ * const response: FarmPlotResponseDto = {
+ *   id: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+ *   farmId: "550e8400-e29b-41d4-a716-446655440001",
+ *   name: "Talhão 01",
+ *   area: 25.5,
+ *   boundary: null,
+ *   boundaryArea: null,
+ *   soilType: SoilType.Clayey,
+ *   createdAt: new Date("2025-11-24T10:00:00Z"),
+ *   updatedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class FarmPlotResponseDto {
+	/**
+	 * Unique identifier for the plot (UUID v4).
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * UUID of the farm the plot belongs to.
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440001"
+	 */
+	@ApiProperty({
+		description: "UUID of the farm the plot belongs to",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	farmId!: string;
+
+	/**
+	 * Plot name or identification.
+	 *
+	 * @example "Talhão 01"
+	 */
+	@ApiProperty({ description: "Plot name or identification", example: "Talhão 01" })
+	@Expose()
+	name!: string;
+
+	/**
+	 * Plot area in hectares.
+	 *
+	 * @example 25.5
+	 */
+	@ApiProperty({
+		description: "Plot area in hectares",
+		example: faker.number.float({ min: 5, max: 50, fractionDigits: 2 }),
+	})
+	@Expose()
+	area!: number;
+
+	/**
+	 * Boundary of the plot as a GeoJSON Polygon or MultiPolygon, `null` when unknown.
+	 *
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
+	 */
+	@ApiProperty({
+		description: "Boundary of the plot as a GeoJSON Polygon or MultiPolygon",
+		type: Object,
+		nullable: true,
+		example: null,
+	})
+	@Expose()
+	boundary!: FarmBoundary | null;
+
+	/**
+	 * Geodesic area enclosed by the boundary in hectares, `null` without a boundary.
+	 *
+	 * @example 25.43
+	 */
+	@ApiProperty({
+		description: "Geodesic area enclosed by the boundary in hectares",
+		example: faker.number.float({ min: 5, max: 50, fractionDigits: 2 }),
+		type: Number,
+		nullable: true,
+	})
+	@Expose()
+	boundaryArea!: number | null;
+
+	/**
+	 * Soil texture class of the plot, `null` when unknown.
+	 *
+	 * @example SoilType.Clayey
+	 */
+	@ApiProperty({
+		description: "Soil texture class of the plot",
+		example: SoilType.Clayey,
+		enum: SoilType,
+		enumName: "SoilType",
+		nullable: true,
+	})
+	@Expose()
+	soilType!: SoilType | null;
+
+	/**
+	 * Timestamp when the plot was created.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Creation timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+
+	/**
+	 * Timestamp when the plot was last updated.
+	 *
+	 * @example "2025-11-24T15:30:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Last update timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	updatedAt!: Date;
+}
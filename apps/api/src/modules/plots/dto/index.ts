@@ -0,0 +1,3 @@
+export * from "./create-farm-plot.dto";
+export * from "./farm-plot-response.dto";
+export * from "./update-farm-plot.dto";
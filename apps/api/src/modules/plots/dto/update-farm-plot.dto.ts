@@ -0,0 +1,92 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsNumber, IsObject, IsOptional, IsString, Length, Min } from "class-validator";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { SoilType } from "@agro/shared/enums";
+
+import { IsFarmBoundary } from "@/common/decorators/farm-boundary.decorator";
+
+/**
+ * Data Transfer Object for updating a plot (talhão) of a farm.
+ *
+ * All fields are optional to allow partial updates. Send `null` to clear the
+ * boundary or the soil type.
+ *
+ * @example
+ * ```typescript
+ * const dto: UpdateFarmPlotDto = { area: 30, soilType: null };
+ * ```
+ */
+export class UpdateFarmPlotDto {
+	/**
+	 * Updated plot name.
+	 *
+	 * @example "Talhão 02"
+	 */
+	@ApiPropertyOptional({ description: "Updated plot name", example: "Talhão 02", maxLength: 100 })
+	@IsOptional()
+	@IsString({ message: "Plot name must be a string" })
+	@Length(1, 100, { message: "Plot name must be between 1 and 100 characters" })
+	name?: string;
+
+	/**
+	 * Updated plot area in hectares.
+	 *
+	 * @example 30
+	 */
+	@ApiPropertyOptional({
+		description: "Updated plot area in hectares",
+		example: faker.number.float({ min: 5, max: 50, fractionDigits: 2 }),
+		minimum: 0.01,
+	})
+	@IsOptional()
+	@IsNumber({}, { message: "Plot area must be a number" })
+	@Min(0.01, { message: "Plot area must be greater than zero" })
+	area?: number;
+
+	/**
+	 * Updated boundary of the plot as a GeoJSON Polygon or MultiPolygon.
+	 *
+	 * @example { type: "Polygon", coordinates: [[[-47.07, -22.91], ...]] }
+	 */
+	@ApiPropertyOptional({
+		description:
+			"Updated boundary of the plot as a GeoJSON Polygon or MultiPolygon (null to clear)",
+		type: Object,
+		nullable: true,
+		example: {
+			type: "Polygon",
+			coordinates: [
+				[
+					[-47.07, -22.91],
+					[-47.065, -22.91],
+					[-47.065, -22.905],
+					[-47.07, -22.905],
+					[-47.07, -22.91],
+				],
+			],
+		},
+	})
+	@IsOptional()
+	@IsObject({ message: "Boundary must be a GeoJSON object" })
+	@IsFarmBoundary()
+	boundary?: FarmBoundary | null;
+
+	/**
+	 * Updated soil texture class of the plot.
+	 *
+	 * @example SoilType.Sandy
+	 */
+	@ApiPropertyOptional({
+		description: "Updated soil texture class of the plot (null to clear)",
+		example: SoilType.Sandy,
+		enum: SoilType,
+		enumName: "SoilType",
+		nullable: true,
+	})
+	@IsOptional()
+	@IsEnum(SoilType, { message: "Soil type must be a valid soil type" })
+	soilType?: SoilType | null;
+}
@@ -0,0 +1,80 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	JoinColumn,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	UpdateDateColumn,
+} from "typeorm";
+
+import type { Relation } from "typeorm";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { SoilType } from "@agro/shared/enums";
+
+import { Farm } from "../../farms/entities/farm.entity";
+
+/**
+ * FarmPlot entity representing a plot (talhão) of a farm
+ *
+ * Large farms are managed by plot rather than as a single block. Each plot has
+ * its own area, soil type and optional limits, and crops of a harvest can be
+ * assigned to it.
+ *
+ * Relationship Chain:
+ * - Farm → FarmPlot ← FarmHarvestCrop
+ *
+ * Business Rules:
+ * - Area must be greater than 0
+ * - Plot names are unique per farm
+ * - Sum of plot areas cannot exceed the farm's arable area
+ * - Plots with crops assigned cannot be deleted
+ *
+ * @see {@link Farm} for the farm the plot belongs to
+ * @see {@link FarmHarvestCrop} for the crops planted on the plot
+ */
+@Entity("farm_plots")
+export class FarmPlot {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/** ID of the farm this plot belongs to */
+	@Column({ type: "uuid", name: "farm_id" })
+	farmId!: string;
+
+	/** Plot name or identification (e.g., "Talhão 01") */
+	@Column({ type: "varchar", length: 100 })
+	name!: string;
+
+	/** Plot area in hectares */
+	@Column({ type: "decimal", precision: 10, scale: 2 })
+	area!: number;
+
+	/**
+	 * Plot limits as a GeoJSON Polygon or MultiPolygon, `null` when unknown
+	 *
+	 * Stored as serialized JSON text.
+	 */
+	@Column({ type: "simple-json", nullable: true })
+	boundary!: FarmBoundary | null;
+
+	/** Soil texture class of the plot, `null` when unknown */
+	@Column({ type: "varchar", length: 20, name: "soil_type", enum: SoilType, nullable: true })
+	soilType!: SoilType | null;
+
+	/** Farm this plot belongs to */
+	@ManyToOne(() => Farm, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "farm_id" })
+	farm!: Relation<Farm>;
+
+	/** Timestamp of record creation */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+
+	/** Timestamp of last record update */
+	@UpdateDateColumn({ name: "updated_at" })
+	updatedAt!: Date;
+}
@@ -0,0 +1 @@
+export * from "./farm-plot.entity";
@@ -0,0 +1,164 @@
+import { Body, Controller, Delete, Get, HttpStatus, Param, Patch, Post } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import { ParseUUIDPipe } from "@/common";
+
+import { CreateFarmPlotDto, FarmPlotResponseDto, UpdateFarmPlotDto } from "./dto";
+import { PlotsService } from "./plots.service";
+
+/**
+ * Controller handling HTTP requests for farm plots (talhões).
+ *
+ * Exposes plots as a sub-resource of a farm. Crops of a harvest can then be
+ * assigned to a plot through the farm endpoints.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [PlotsController],
+ *   providers: [PlotsService]
+ * })
+ * ```
+ */
+@ApiTags("Plots")
+@ApiBearerAuth("JWT")
+@Controller("farms/:id/plots")
+export class PlotsController {
+	constructor(private readonly plotsService: PlotsService) {}
+
+	/**
+	 * Adds a plot to a farm.
+	 *
+	 * @param id UUID of the farm
+	 * @param createFarmPlotDto Plot name, area, boundary and soil type
+	 *
+	 * @returns The created plot
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 * @throws {ConflictException} If the farm already has a plot with the same name
+	 * @throws {BadRequestException} If the sum of plot areas would exceed the arable area
+	 */
+	@Post()
+	@ApiOperation({ summary: "Add a plot to a farm" })
+	@ApiResponse({
+		status: HttpStatus.CREATED,
+		description: "Plot created successfully",
+		type: FarmPlotResponseDto,
+	})
+	@ApiResponse({
+		status: HttpStatus.BAD_REQUEST,
+		description: "Invalid input data or plot areas exceed the arable area",
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Plot name already in use on the farm" })
+	public create(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Body() createFarmPlotDto: CreateFarmPlotDto,
+	): Promise<FarmPlotResponseDto> {
+		return this.plotsService.create(id, createFarmPlotDto);
+	}
+
+	/**
+	 * Retrieves all plots of a farm.
+	 *
+	 * @param id UUID of the farm
+	 *
+	 * @returns Plots sorted by name
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	@Get()
+	@ApiOperation({ summary: "Get the plots of a farm" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "List of plots",
+		type: [FarmPlotResponseDto],
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm not found" })
+	public findAll(@Param("id", ParseUUIDPipe) id: string): Promise<Array<FarmPlotResponseDto>> {
+		return this.plotsService.findAll(id);
+	}
+
+	/**
+	 * Retrieves a plot of a farm.
+	 *
+	 * @param id UUID of the farm
+	 * @param plotId UUID of the plot
+	 *
+	 * @returns The plot with the specified ID
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 */
+	@Get(":plotId")
+	@ApiOperation({ summary: "Get plot by ID" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Plot found",
+		type: FarmPlotResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Plot not found" })
+	public findOne(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("plotId", ParseUUIDPipe) plotId: string,
+	): Promise<FarmPlotResponseDto> {
+		return this.plotsService.findOne(id, plotId);
+	}
+
+	/**
+	 * Updates a plot of a farm.
+	 *
+	 * @param id UUID of the farm
+	 * @param plotId UUID of the plot to update
+	 * @param updateFarmPlotDto Fields to update
+	 *
+	 * @returns The updated plot
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 * @throws {ConflictException} If the farm already has another plot with the new name
+	 * @throws {BadRequestException} If the new area does not fit the arable area or the planted crops
+	 */
+	@Patch(":plotId")
+	@ApiOperation({ summary: "Update plot" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Plot updated successfully",
+		type: FarmPlotResponseDto,
+	})
+	@ApiResponse({
+		status: HttpStatus.BAD_REQUEST,
+		description: "Invalid input data or area does not fit the arable area or planted crops",
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Plot not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Plot name already in use on the farm" })
+	public update(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("plotId", ParseUUIDPipe) plotId: string,
+		@Body() updateFarmPlotDto: UpdateFarmPlotDto,
+	): Promise<FarmPlotResponseDto> {
+		return this.plotsService.update(id, plotId, updateFarmPlotDto);
+	}
+
+	/**
+	 * Deletes a plot of a farm.
+	 *
+	 * Only plots without crops assigned can be deleted.
+	 *
+	 * @param id UUID of the farm
+	 * @param plotId UUID of the plot to delete
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 * @throws {ConflictException} If crops are assigned to the plot
+	 */
+	@Delete(":plotId")
+	@ApiOperation({ summary: "Delete plot" })
+	@ApiResponse({ status: HttpStatus.OK, description: "Plot deleted successfully" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Plot not found" })
+	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Crops are assigned to the plot" })
+	public remove(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("plotId", ParseUUIDPipe) plotId: string,
+	): Promise<void> {
+		return this.plotsService.delete(id, plotId);
+	}
+}
@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { Farm, FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { FarmPlot } from "./entities";
+import { PlotsController } from "./plots.controller";
+import { PlotsService } from "./plots.service";
+
+/**
+ * NestJS module for farm plots (talhões).
+ *
+ * Provides plot endpoints nested under a farm.
+ *
+ * Note: Imports Farm and FarmHarvestCrop entities to validate plot areas against
+ * the farm's arable area and the crops assigned to each plot.
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([FarmPlot, Farm, FarmHarvestCrop])],
+	controllers: [PlotsController],
+	providers: [PlotsService],
+	exports: [PlotsService],
+})
+export class PlotsModule {}
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Unit tests for {@link PlotsService}.
+ *
+ * Tests farm plot business rules and area validation using mocked dependencies.
+ */
+
+import { BadRequestException, ConflictException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { TestConstants } from "test/fixtures";
+
+import { SoilType } from "@agro/shared/enums";
+
+import { Farm, FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { FarmPlot } from "./entities";
+import { PlotsService } from "./plots.service";
+
+describe("PlotsService", () => {
+	let service: PlotsService;
+
+	const mockFarmPlotRepository = {
+		create: mock(),
+		save: mock(),
+		find: mock(),
+		findOne: mock(),
+		exists: mock(),
+		delete: mock(),
+	};
+
+	const mockFarmRepository = {
+		findOne: mock(),
+	};
+
+	const mockFarmHarvestCropRepository = {
+		find: mock(),
+		count: mock(),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const mockFarm = {
+		id: "550e8400-e29b-41d4-a716-446655440001",
+		arableArea: 70,
+	} as Farm;
+
+	const mockPlot: FarmPlot = {
+		id: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+		farmId: mockFarm.id,
+		name: "Talhão 01",
+		area: 40,
+		boundary: null,
+		soilType: SoilType.Clayey,
+		farm: mockFarm,
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+		updatedAt: new Date("2025-11-24T10:00:00Z"),
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				PlotsService,
+				{
+					provide: getRepositoryToken(FarmPlot),
+					useValue: mockFarmPlotRepository,
+				},
+				{
+					provide: getRepositoryToken(Farm),
+					useValue: mockFarmRepository,
+				},
+				{
+					provide: getRepositoryToken(FarmHarvestCrop),
+					useValue: mockFarmHarvestCropRepository,
+				},
+				{
+					provide: `PinoLogger:${PlotsService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<PlotsService>(PlotsService);
+
+		mockFarmPlotRepository.create.mockReset();
+		mockFarmPlotRepository.save.mockReset();
+		mockFarmPlotRepository.find.mockReset();
+		mockFarmPlotRepository.findOne.mockReset();
+		mockFarmPlotRepository.exists.mockReset();
+		mockFarmPlotRepository.delete.mockReset();
+		mockFarmRepository.findOne.mockReset();
+		mockFarmHarvestCropRepository.find.mockReset();
+		mockFarmHarvestCropRepository.count.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("create", () => {
+		it("should add a plot to the farm", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmPlotRepository.exists.mockResolvedValue(false);
+			mockFarmPlotRepository.find.mockResolvedValue([]);
+			mockFarmPlotRepository.create.mockReturnValue(mockPlot);
+			mockFarmPlotRepository.save.mockResolvedValue(mockPlot);
+
+			const result = await service.create(mockFarm.id, {
+				name: mockPlot.name,
+				area: mockPlot.area,
+				soilType: SoilType.Clayey,
+			});
+
+			expect(mockFarmPlotRepository.create).toHaveBeenCalledWith({
+				name: mockPlot.name,
+				area: mockPlot.area,
+				farmId: mockFarm.id,
+				boundary: null,
+				soilType: SoilType.Clayey,
+			});
+			expect(result).toEqual({
+				id: mockPlot.id,
+				farmId: mockFarm.id,
+				name: mockPlot.name,
+				area: mockPlot.area,
+				boundary: null,
+				boundaryArea: null,
+				soilType: SoilType.Clayey,
+				createdAt: mockPlot.createdAt,
+				updatedAt: mockPlot.updatedAt,
+			});
+		});
+
+		it("should throw BadRequestException if plot areas would exceed the arable area", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmPlotRepository.exists.mockResolvedValue(false);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot]);
+
+			expect(service.create(mockFarm.id, { name: "Talhão 02", area: 31 })).rejects.toThrow(
+				"Sum of plot areas (71.00 ha) exceeds arable area (70.00 ha)",
+			);
+			expect(mockFarmPlotRepository.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw ConflictException if the farm already has a plot with the name", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmPlotRepository.exists.mockResolvedValue(true);
+
+			expect(service.create(mockFarm.id, { name: mockPlot.name, area: 10 })).rejects.toThrow(
+				ConflictException,
+			);
+		});
+
+		it("should throw NotFoundException if the farm does not exist", async () => {
+			mockFarmRepository.findOne.mockResolvedValue(null);
+
+			expect(
+				service.create(TestConstants.NON_EXISTENT_UUID, { name: mockPlot.name, area: 10 }),
+			).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("update", () => {
+		it("should resize the plot when the new area fits", async () => {
+			mockFarmPlotRepository.findOne.mockResolvedValue({ ...mockPlot });
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot]);
+			mockFarmHarvestCropRepository.find.mockResolvedValue([]);
+			mockFarmPlotRepository.save.mockImplementation((plot: FarmPlot) => Promise.resolve(plot));
+
+			const result = await service.update(mockFarm.id, mockPlot.id, { area: 70 });
+
+			expect(result.area).toBe(70);
+		});
+
+		it("should throw BadRequestException if planted crops no longer fit the plot", async () => {
+			mockFarmPlotRepository.findOne.mockResolvedValue({ ...mockPlot });
+			mockFarmRepository.findOne.mockResolvedValue(mockFarm);
+			mockFarmPlotRepository.find.mockResolvedValue([mockPlot]);
+			mockFarmHarvestCropRepository.find.mockResolvedValue([
+				{ farmHarvestId: "farm-harvest-id", plantedArea: 25 },
+				{ farmHarvestId: "farm-harvest-id", plantedArea: 10 },
+			]);
+
+			expect(service.update(mockFarm.id, mockPlot.id, { area: 30 })).rejects.toThrow(
+				BadRequestException,
+			);
+			expect(mockFarmPlotRepository.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException if the plot does not exist on the farm", async () => {
+			mockFarmPlotRepository.findOne.mockResolvedValue(null);
+
+			expect(
+				service.update(mockFarm.id, TestConstants.NON_EXISTENT_UUID, { name: "Talhão 02" }),
+			).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("delete", () => {
+		it("should delete a plot without crops assigned", async () => {
+			mockFarmPlotRepository.findOne.mockResolvedValue(mockPlot);
+			mockFarmHarvestCropRepository.count.mockResolvedValue(0);
+			mockFarmPlotRepository.delete.mockResolvedValue({ affected: 1 });
+
+			await service.delete(mockFarm.id, mockPlot.id);
+
+			expect(mockFarmHarvestCropRepository.count).toHaveBeenCalledWith({
+				where: { plotId: mockPlot.id },
+			});
+			expect(mockFarmPlotRepository.delete).toHaveBeenCalledWith(mockPlot.id);
+		});
+
+		it("should throw ConflictException if crops are assigned to the plot", async () => {
+			mockFarmPlotRepository.findOne.mockResolvedValue(mockPlot);
+			mockFarmHarvestCropRepository.count.mockResolvedValue(2);
+
+			expect(service.delete(mockFarm.id, mockPlot.id)).rejects.toThrow(ConflictException);
+		});
+	});
+});
@@ -0,0 +1,338 @@
+import {
+	BadRequestException,
+	ConflictException,
+	Injectable,
+	NotFoundException,
+} from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger } from "nestjs-pino";
+import { Not, Repository } from "typeorm";
+
+import type { PinoLogger } from "nestjs-pino";
+
+import { SortOrder } from "@agro/shared/enums";
+import { calculateGeodesicArea } from "@agro/shared/utils";
+import { validatePlotAreas, validatePlotPlantedArea } from "@agro/shared/validators";
+
+import { Farm, FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { CreateFarmPlotDto, FarmPlotResponseDto, UpdateFarmPlotDto } from "./dto";
+import { FarmPlot } from "./entities";
+
+/**
+ * Service responsible for the plots (talhões) of a farm.
+ *
+ * Plots subdivide a farm's arable land, so their areas must fit in it. Crops
+ * of a harvest can be assigned to a plot, which keeps plots with crops from
+ * being deleted or shrunk below their planted area.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly plotsService: PlotsService) {}
+ *
+ * async create(farmId: string, dto: CreateFarmPlotDto) {
+ *   return this.plotsService.create(farmId, dto);
+ * }
+ * ```
+ */
+@Injectable()
+export class PlotsService {
+	/**
+	 * Creates an instance of PlotsService.
+	 *
+	 * @param farmPlotRepository TypeORM repository for FarmPlot entity
+	 * @param farmRepository TypeORM repository for Farm entity
+	 * @param farmHarvestCropRepository TypeORM repository for FarmHarvestCrop entity
+	 */
+	constructor(
+		@InjectRepository(FarmPlot)
+		private readonly farmPlotRepository: Repository<FarmPlot>,
+
+		@InjectRepository(Farm)
+		private readonly farmRepository: Repository<Farm>,
+
+		@InjectRepository(FarmHarvestCrop)
+		private readonly farmHarvestCropRepository: Repository<FarmHarvestCrop>,
+
+		@InjectPinoLogger(PlotsService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Adds a plot to a farm.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param createFarmPlotDto The plot data to create
+	 *
+	 * @returns The created plot
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 * @throws {ConflictException} If the farm already has a plot with the same name
+	 * @throws {BadRequestException} If the sum of plot areas would exceed the farm's arable area
+	 *
+	 * @example
+	 * ```typescript
+	 * const plot = await service.create(farmId, {
+	 *   name: "Talhão 01",
+	 *   area: 25.5,
+	 *   soilType: SoilType.Clayey,
+	 * });
+	 * ```
+	 */
+	public async create(
+		farmId: string,
+		createFarmPlotDto: CreateFarmPlotDto,
+	): Promise<FarmPlotResponseDto> {
+		const farm = await this.findFarm(farmId);
+
+		await this.verifyNameAvailable(farmId, createFarmPlotDto.name);
+		await this.verifyPlotAreas(farm, createFarmPlotDto.area);
+
+		const plot = this.farmPlotRepository.create({
+			...createFarmPlotDto,
+			farmId,
+			boundary: createFarmPlotDto.boundary ?? null,
+			soilType: createFarmPlotDto.soilType ?? null,
+		});
+		const savedPlot = await this.farmPlotRepository.save(plot);
+
+		this.logger.info({ farmId, plotId: savedPlot.id }, "Farm plot created successfully");
+
+		return this.mapToResponseDto(savedPlot);
+	}
+
+	/**
+	 * Retrieves all plots of a farm, sorted by name.
+	 *
+	 * @param farmId The UUID of the farm
+	 *
+	 * @returns The plots of the farm
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	public async findAll(farmId: string): Promise<Array<FarmPlotResponseDto>> {
+		await this.findFarm(farmId);
+
+		const plots = await this.farmPlotRepository.find({
+			where: { farmId },
+			order: { name: SortOrder.Ascending },
+		});
+
+		return plots.map((plot) => this.mapToResponseDto(plot));
+	}
+
+	/**
+	 * Retrieves a single plot of a farm.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param plotId The UUID of the plot
+	 *
+	 * @returns The plot with the specified ID
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 */
+	public async findOne(farmId: string, plotId: string): Promise<FarmPlotResponseDto> {
+		const plot = await this.findPlot(farmId, plotId);
+
+		return this.mapToResponseDto(plot);
+	}
+
+	/**
+	 * Updates a plot of a farm.
+	 *
+	 * Allows partial updates - only provided fields will be updated. When the
+	 * area changes, plot areas are validated against the farm's arable area and
+	 * the crops assigned to the plot in each harvest must still fit in it.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param plotId The UUID of the plot to update
+	 * @param updateFarmPlotDto The fields to update
+	 *
+	 * @returns The updated plot
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 * @throws {ConflictException} If the farm already has another plot with the new name
+	 * @throws {BadRequestException} If the new area does not fit the farm's arable area or the
+	 * crops planted on the plot
+	 */
+	public async update(
+		farmId: string,
+		plotId: string,
+		updateFarmPlotDto: UpdateFarmPlotDto,
+	): Promise<FarmPlotResponseDto> {
+		const plot = await this.findPlot(farmId, plotId);
+
+		if (updateFarmPlotDto.name !== undefined && updateFarmPlotDto.name !== plot.name) {
+			await this.verifyNameAvailable(farmId, updateFarmPlotDto.name, plotId);
+		}
+
+		if (updateFarmPlotDto.area !== undefined && updateFarmPlotDto.area !== plot.area) {
+			const farm = await this.findFarm(farmId);
+
+			await this.verifyPlotAreas(farm, updateFarmPlotDto.area, plotId);
+			await this.verifyPlantedAreasFit(plotId, updateFarmPlotDto.area);
+		}
+
+		Object.assign(plot, updateFarmPlotDto);
+		const updatedPlot = await this.farmPlotRepository.save(plot);
+
+		this.logger.info({ farmId, plotId }, "Farm plot updated successfully");
+
+		return this.mapToResponseDto(updatedPlot);
+	}
+
+	/**
+	 * Deletes a plot of a farm.
+	 *
+	 * Plots with crops assigned in any harvest cannot be deleted; reassign or
+	 * remove those crops first.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param plotId The UUID of the plot to delete
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 * @throws {ConflictException} If crops are assigned to the plot
+	 */
+	public async delete(farmId: string, plotId: string): Promise<void> {
+		const plot = await this.findPlot(farmId, plotId);
+		const cropCount = await this.farmHarvestCropRepository.count({ where: { plotId } });
+
+		if (cropCount > 0) {
+			throw new ConflictException(
+				`Plot ${plot.name} has ${String(cropCount)} crop(s) assigned and cannot be deleted`,
+			);
+		}
+
+		await this.farmPlotRepository.delete(plotId);
+
+		this.logger.info({ farmId, plotId }, "Farm plot deleted successfully");
+	}
+
+	/**
+	 * Finds a farm by ID.
+	 *
+	 * @param farmId The UUID of the farm
+	 *
+	 * @returns The farm entity
+	 *
+	 * @throws {NotFoundException} If the farm does not exist
+	 */
+	private async findFarm(farmId: string): Promise<Farm> {
+		const farm = await this.farmRepository.findOne({ where: { id: farmId } });
+
+		if (!farm) {
+			throw new NotFoundException(`Farm with ID ${farmId} not found`);
+		}
+
+		return farm;
+	}
+
+	/**
+	 * Finds a plot of a farm by ID.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param plotId The UUID of the plot
+	 *
+	 * @returns The plot entity
+	 *
+	 * @throws {NotFoundException} If the plot does not exist on the farm
+	 */
+	private async findPlot(farmId: string, plotId: string): Promise<FarmPlot> {
+		const plot = await this.farmPlotRepository.findOne({ where: { id: plotId, farmId } });
+
+		if (!plot) {
+			throw new NotFoundException(`Plot with ID ${plotId} not found on farm ${farmId}`);
+		}
+
+		return plot;
+	}
+
+	/**
+	 * Verifies that no other plot of the farm uses the given name.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param name The plot name to check
+	 * @param excludedPlotId The UUID of the plot being updated, if any
+	 *
+	 * @throws {ConflictException} If another plot of the farm has the same name
+	 */
+	private async verifyNameAvailable(
+		farmId: string,
+		name: string,
+		excludedPlotId?: string,
+	): Promise<void> {
+		const nameExists = await this.farmPlotRepository.exists({
+			where: { farmId, name, ...(excludedPlotId && { id: Not(excludedPlotId) }) },
+		});
+
+		if (nameExists) {
+			throw new ConflictException(`Farm already has a plot named ${name}`);
+		}
+	}
+
+	/**
+	 * Validates that the farm's plot areas, with a new or resized plot, fit in its arable area.
+	 *
+	 * @param farm The farm entity
+	 * @param area The area of the new or resized plot in hectares
+	 * @param excludedPlotId The UUID of the plot being resized, if any
+	 *
+	 * @throws {BadRequestException} If the sum of plot areas exceeds the arable area
+	 */
+	private async verifyPlotAreas(farm: Farm, area: number, excludedPlotId?: string): Promise<void> {
+		const plots = await this.farmPlotRepository.find({
+			select: { id: true, area: true },
+			where: { farmId: farm.id },
+		});
+		const otherAreas = plots.filter((plot) => plot.id !== excludedPlotId).map((plot) => plot.area);
+		const result = validatePlotAreas(farm.arableArea, [...otherAreas, area]);
+
+		if (!result.isValid) throw new BadRequestException(result.error);
+	}
+
+	/**
+	 * Validates that the crops assigned to a plot still fit in it in every harvest.
+	 *
+	 * Crops without a known planted area are ignored.
+	 *
+	 * @param plotId The UUID of the plot
+	 * @param area The new area of the plot in hectares
+	 *
+	 * @throws {BadRequestException} If the planted areas of any harvest exceed the new area
+	 */
+	private async verifyPlantedAreasFit(plotId: string, area: number): Promise<void> {
+		const crops = await this.farmHarvestCropRepository.find({ where: { plotId } });
+		const cropsByFarmHarvest = Map.groupBy(crops, (crop) => crop.farmHarvestId);
+
+		for (const harvestCrops of cropsByFarmHarvest.values()) {
+			const result = validatePlotPlantedArea(
+				area,
+				harvestCrops.flatMap((crop) => crop.plantedArea ?? []),
+			);
+
+			if (!result.isValid) throw new BadRequestException(result.error);
+		}
+	}
+
+	/**
+	 * Maps a {@link FarmPlot} entity to a {@link FarmPlotResponseDto}.
+	 *
+	 * @param plot The plot entity to map
+	 *
+	 * @returns The mapped response DTO
+	 */
+	private mapToResponseDto(plot: FarmPlot): FarmPlotResponseDto {
+		return {
+			id: plot.id,
+			farmId: plot.farmId,
+			name: plot.name,
+			area: plot.area,
+			boundary: plot.boundary ?? null,
+			boundaryArea: plot.boundary ? Number(calculateGeodesicArea(plot.boundary).toFixed(2)) : null,
+			soilType: plot.soilType ?? null,
+			createdAt: plot.createdAt,
+			updatedAt: plot.updatedAt,
+		};
+	}
+}
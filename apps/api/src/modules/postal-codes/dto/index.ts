@@ -0,0 +1 @@
+export * from "./postal-code-response.dto";
@@ -0,0 +1,91 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose, Type } from "class-transformer";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { CityResponseDto } from "@/modules/cities/dto";
+
+/**
+ * Data Transfer Object for postal code (CEP) lookup responses.
+ *
+ * The street and district are only known for CEPs assigned to a single
+ * street, and are `null` for CEPs identifying a whole municipality.
+ *
+ * @example
+ * ```typescript
+ * const response: PostalCodeResponseDto = {
+ *   postalCode: "01310100",
+ *   street: "Avenida Paulista",
+ *   district: "Bela Vista",
+ *   state: BrazilianState.SP,
+ *   city: { id: "...", name: "São Paulo", state: "SP", ibgeCode: "3550308", ... }
+ * };
+ * ```
+ */
+@Exclude()
+export class PostalCodeResponseDto {
+	/**
+	 * Postal code, digits only.
+	 *
+	 * @example "01310100"
+	 */
+	@ApiProperty({
+		description: "Postal code (CEP), digits only",
+		example: "01310100",
+	})
+	@Expose()
+	postalCode!: string;
+
+	/**
+	 * Street the CEP is assigned to, `null` when unknown.
+	 *
+	 * @example "Avenida Paulista"
+	 */
+	@ApiProperty({
+		description: "Street the CEP is assigned to",
+		example: "Avenida Paulista",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	street!: string | null;
+
+	/**
+	 * District the CEP is assigned to, `null` when unknown.
+	 *
+	 * @example "Bela Vista"
+	 */
+	@ApiProperty({
+		description: "District the CEP is assigned to",
+		example: "Bela Vista",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	district!: string | null;
+
+	/**
+	 * Brazilian state (UF) of the city.
+	 *
+	 * @example "SP"
+	 */
+	@ApiProperty({
+		description: "Brazilian state (UF)",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@Expose()
+	state!: BrazilianState;
+
+	/**
+	 * City the CEP belongs to, matched by IBGE code.
+	 */
+	@ApiProperty({
+		description: "City the CEP belongs to",
+		type: CityResponseDto,
+	})
+	@Expose()
+	@Type(() => CityResponseDto)
+	city!: CityResponseDto;
+}
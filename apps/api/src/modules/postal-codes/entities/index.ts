@@ -0,0 +1,2 @@
+export * from "./postal-code-dataset.entity";
+export * from "./postal-code-range.entity";
@@ -0,0 +1,32 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from "typeorm";
+
+/**
+ * Postal code dataset entity recording which dataset the stored ranges come from
+ *
+ * Holds a single row, replaced along with the ranges whenever a different
+ * dataset is loaded.
+ *
+ * @see {@link PostalCodeLoader} for the dataset import
+ */
+@Entity("postal_code_datasets")
+export class PostalCodeDataset {
+	/**
+	 * SHA-256 checksum of the dataset, hex encoded
+	 *
+	 * @example "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08"
+	 */
+	@PrimaryColumn({ type: "varchar", length: 64 })
+	checksum!: string;
+
+	/**
+	 * Number of ranges in the dataset
+	 *
+	 * @example 44
+	 */
+	@Column({ name: "range_count", type: "integer" })
+	rangeCount!: number;
+
+	/** When the dataset was loaded */
+	@CreateDateColumn({ name: "loaded_at" })
+	loadedAt!: Date;
+}
@@ -0,0 +1,63 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * Postal code range entity mapping Brazilian postal codes (CEP) to places
+ *
+ * Each range covers the CEPs from `startCode` to `endCode` and belongs to the
+ * municipality identified by `ibgeCode`. Ranges of a single CEP may also name
+ * the street and district it is assigned to. Data is loaded from the dataset
+ * bundled with the API, so lookups work offline.
+ *
+ * Business Rules:
+ * - Codes are stored as 8 digits, so they can be compared as strings
+ * - When ranges overlap, the narrowest one containing a CEP is the most specific
+ *
+ * @see {@link PostalCodeLoader} for the dataset import
+ */
+@Entity("postal_code_ranges")
+@Index("IDX_postal_code_ranges_codes", ["startCode", "endCode"])
+export class PostalCodeRange {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/**
+	 * First CEP of the range, digits only
+	 *
+	 * @example "13000000"
+	 */
+	@Column({ name: "start_code", type: "varchar", length: 8 })
+	startCode!: string;
+
+	/**
+	 * Last CEP of the range, digits only
+	 *
+	 * @example "13139999"
+	 */
+	@Column({ name: "end_code", type: "varchar", length: 8 })
+	endCode!: string;
+
+	/**
+	 * IBGE code of the municipality the range belongs to
+	 *
+	 * @example "3509502" // (Campinas)
+	 */
+	@Column({ name: "ibge_code", type: "varchar", length: 7 })
+	ibgeCode!: string;
+
+	/**
+	 * Street of a single-CEP range, or `null` for ranges spanning many streets
+	 *
+	 * @example "Avenida Paulista"
+	 */
+	@Column({ type: "varchar", length: 255, nullable: true })
+	street!: string | null;
+
+	/**
+	 * District of a single-CEP range, or `null` for ranges spanning many districts
+	 *
+	 * @example "Bela Vista"
+	 */
+	@Column({ type: "varchar", length: 100, nullable: true })
+	district!: string | null;
+}
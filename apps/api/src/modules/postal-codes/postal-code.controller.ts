@@ -0,0 +1,50 @@
+import { Controller, Get, HttpStatus, Param } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import { PostalCodeResponseDto } from "./dto";
+import { PostalCodeService } from "./postal-code.service";
+
+/**
+ * Controller handling HTTP requests for postal code (CEP) lookups.
+ *
+ * Resolves CEPs from the dataset bundled with the API, so address forms can
+ * be filled in without calling an external service.
+ */
+@ApiTags("Postal Codes")
+@ApiBearerAuth("JWT")
+@Controller("postal-codes")
+export class PostalCodeController {
+	constructor(private readonly postalCodeService: PostalCodeService) {}
+
+	/**
+	 * Retrieves the address of a postal code
+	 *
+	 * @param cep Postal code, formatted or unformatted (e.g., "01310-100")
+	 *
+	 * @returns The address of the CEP with its city
+	 *
+	 * @throws {BadRequestException} If the CEP is invalid
+	 * @throws {NotFoundException} If the CEP is not found
+	 */
+	@Get(":cep")
+	@ApiOperation({
+		summary: "Get the address of a postal code (CEP)",
+		description:
+			"Looks the CEP up in the bundled postal code dataset and returns its city, matched by IBGE code. Street and district are only returned for CEPs assigned to a single street.",
+	})
+	@ApiParam({
+		name: "cep",
+		description: "Postal code (CEP), formatted or unformatted",
+		example: "01310-100",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Address found",
+		type: PostalCodeResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid CEP format" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Postal code not found" })
+	public findByCode(@Param("cep") cep: string): Promise<PostalCodeResponseDto> {
+		return this.postalCodeService.findByCode(cep);
+	}
+}
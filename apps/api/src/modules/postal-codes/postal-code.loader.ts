@@ -0,0 +1,125 @@
+import { createHash } from "node:crypto";
+
+import { Injectable, OnApplicationBootstrap } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger, PinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import postalCodeRanges from "./data/postal-code-ranges.json";
+import { PostalCodeDataset, PostalCodeRange } from "./entities";
+
+/** Range of postal codes as listed in the bundled dataset */
+interface PostalCodeRangeRow {
+	/** First CEP of the range, digits only */
+	start: string;
+
+	/** Last CEP of the range, digits only */
+	end: string;
+
+	/** IBGE code of the municipality */
+	ibgeCode: string;
+
+	/** Street, for ranges of a single CEP */
+	street?: string;
+
+	/** District, for ranges of a single CEP */
+	district?: string;
+}
+
+/** Ranges of the dataset bundled with the API */
+const POSTAL_CODE_RANGES: Array<PostalCodeRangeRow> = postalCodeRanges;
+
+/** SHA-256 checksum of the bundled dataset, hex encoded */
+const POSTAL_CODE_DATASET_CHECKSUM = createHash("sha256")
+	.update(JSON.stringify(POSTAL_CODE_RANGES))
+	.digest("hex");
+
+/** Number of ranges inserted per statement */
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Loader importing the bundled postal code (CEP) dataset into the database.
+ *
+ * The dataset ships with the API in `data/postal-code-ranges.json`, so CEP
+ * lookups never depend on an external service. The bundled file is only a
+ * sample, with ranges for about 40 large municipalities and a couple of
+ * single-CEP streets, so CEPs elsewhere are not found. It can be replaced by a
+ * full dataset with the same format, such as one built from the Correios
+ * address database; ranges are reloaded on the next start whenever the
+ * checksum of the dataset differs from the one recorded with the stored ranges.
+ *
+ * Runs on application bootstrap, regardless of database seeding, since lookups
+ * must work in every environment.
+ */
+@Injectable()
+export class PostalCodeLoader implements OnApplicationBootstrap {
+	constructor(
+		@InjectRepository(PostalCodeDataset)
+		private readonly postalCodeDatasetRepository: Repository<PostalCodeDataset>,
+
+		@InjectPinoLogger(PostalCodeLoader.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Loads the dataset once the application has started.
+	 *
+	 * @returns {Promise<void>}
+	 */
+	public async onApplicationBootstrap(): Promise<void> {
+		await this.load();
+	}
+
+	/**
+	 * Replaces the stored postal code ranges with the bundled dataset.
+	 *
+	 * Skips the import when the stored ranges were loaded from a dataset with the
+	 * same checksum, otherwise clears and inserts every range, along with the
+	 * checksum of the dataset, in a single transaction.
+	 *
+	 * @returns {Promise<void>}
+	 */
+	public async load(): Promise<void> {
+		const checksum = POSTAL_CODE_DATASET_CHECKSUM;
+		const loadedDataset = await this.postalCodeDatasetRepository.findOne({ where: {} });
+
+		if (loadedDataset?.checksum === checksum) {
+			this.logger.debug(
+				{ checksum, rangeCount: loadedDataset.rangeCount },
+				"Postal code ranges already loaded, skipping",
+			);
+
+			return;
+		}
+
+		this.logger.info(
+			{
+				checksum,
+				loadedChecksum: loadedDataset?.checksum ?? null,
+				rangeCount: POSTAL_CODE_RANGES.length,
+			},
+			"Loading postal code ranges",
+		);
+
+		await this.postalCodeDatasetRepository.manager.transaction(async (manager) => {
+			await manager.clear(PostalCodeDataset);
+			await manager.clear(PostalCodeRange);
+			await manager.save(
+				PostalCodeRange,
+				POSTAL_CODE_RANGES.map(({ start, end, ibgeCode, street, district }) =>
+					manager.create(PostalCodeRange, {
+						startCode: start,
+						endCode: end,
+						ibgeCode,
+						street: street ?? null,
+						district: district ?? null,
+					}),
+				),
+				{ chunk: INSERT_CHUNK_SIZE },
+			);
+			await manager.save(PostalCodeDataset, { checksum, rangeCount: POSTAL_CODE_RANGES.length });
+		});
+
+		this.logger.info({ rangeCount: POSTAL_CODE_RANGES.length }, "Loaded postal code ranges");
+	}
+}
@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { CitiesModule } from "@/modules/cities/cities.module";
+
+import { PostalCodeDataset, PostalCodeRange } from "./entities";
+import { PostalCodeController } from "./postal-code.controller";
+import { PostalCodeLoader } from "./postal-code.loader";
+import { PostalCodeService } from "./postal-code.service";
+
+/**
+ * NestJS module for offline postal code (CEP) lookups.
+ *
+ * Loads the bundled postal code dataset into the database on startup through
+ * the {@link PostalCodeLoader}, and resolves CEPs to addresses with their
+ * city, provided by the {@link CitiesModule}.
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([PostalCodeRange, PostalCodeDataset]), CitiesModule],
+	controllers: [PostalCodeController],
+	providers: [PostalCodeService, PostalCodeLoader],
+	exports: [PostalCodeService],
+})
+export class PostalCodeModule {}
@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Unit tests for {@link PostalCodeService}.
+ *
+ * Tests CEP validation and the matching of postal code ranges to cities using
+ * mocked dependencies.
+ */
+
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { CitiesService } from "@/modules/cities/cities.service";
+import { City } from "@/modules/cities/entities";
+
+import { PostalCodeRange } from "./entities";
+import { PostalCodeService } from "./postal-code.service";
+
+describe("PostalCodeService", () => {
+	let service: PostalCodeService;
+
+	const mockQueryBuilder = {
+		where: mock(),
+		andWhere: mock(),
+		orderBy: mock(),
+		getOne: mock(),
+	};
+
+	const mockRepository = {
+		createQueryBuilder: mock(() => mockQueryBuilder),
+	};
+
+	const mockCitiesService = {
+		findByIbgeCode: mock(),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const mockCity: City = {
+		id: "0b5d4c5e-8f3e-4a8a-9a57-3c0c6f1b2d4e",
+		name: "São Paulo",
+		state: BrazilianState.SP,
+		ibgeCode: "3550308",
+		createdAt: new Date("2025-11-24T10:00:00Z"),
+		updatedAt: new Date("2025-11-24T10:00:00Z"),
+	};
+
+	const mockRange: PostalCodeRange = {
+		id: "5e0f3a9c-1b2d-4c6e-8f7a-9b0c1d2e3f4a",
+		startCode: "01310100",
+		endCode: "01310100",
+		ibgeCode: "3550308",
+		street: "Avenida Paulista",
+		district: "Bela Vista",
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				PostalCodeService,
+				{
+					provide: getRepositoryToken(PostalCodeRange),
+					useValue: mockRepository,
+				},
+				{
+					provide: CitiesService,
+					useValue: mockCitiesService,
+				},
+				{
+					provide: `PinoLogger:${PostalCodeService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<PostalCodeService>(PostalCodeService);
+
+		mockQueryBuilder.where.mockReset();
+		mockQueryBuilder.where.mockReturnValue(mockQueryBuilder);
+		mockQueryBuilder.andWhere.mockReset();
+		mockQueryBuilder.andWhere.mockReturnValue(mockQueryBuilder);
+		mockQueryBuilder.orderBy.mockReset();
+		mockQueryBuilder.orderBy.mockReturnValue(mockQueryBuilder);
+		mockQueryBuilder.getOne.mockReset();
+		mockCitiesService.findByIbgeCode.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("findByCode", () => {
+		it("should return the address of the narrowest range with its city", async () => {
+			mockQueryBuilder.getOne.mockResolvedValue(mockRange);
+			mockCitiesService.findByIbgeCode.mockResolvedValue(mockCity);
+
+			const result = await service.findByCode("01310-100");
+
+			expect(result).toEqual({
+				postalCode: "01310100",
+				street: "Avenida Paulista",
+				district: "Bela Vista",
+				state: BrazilianState.SP,
+				city: mockCity,
+			});
+			expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+				"postalCodeRange.startCode <= :postalCode",
+				{ postalCode: "01310100" },
+			);
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				"CAST(postalCodeRange.endCode AS INTEGER) - CAST(postalCodeRange.startCode AS INTEGER)",
+				"ASC",
+			);
+			expect(mockCitiesService.findByIbgeCode).toHaveBeenCalledWith("3550308");
+		});
+
+		it("should leave the street and district empty for municipality ranges", async () => {
+			mockQueryBuilder.getOne.mockResolvedValue({
+				...mockRange,
+				startCode: "01000000",
+				endCode: "05999999",
+				street: null,
+				district: null,
+			});
+			mockCitiesService.findByIbgeCode.mockResolvedValue(mockCity);
+
+			const result = await service.findByCode("04567000");
+
+			expect(result.street).toBeNull();
+			expect(result.district).toBeNull();
+			expect(result.city.name).toBe("São Paulo");
+		});
+
+		it("should reject invalid postal codes", () => {
+			expect(service.findByCode("1234")).rejects.toThrow(
+				new BadRequestException("Invalid CEP format"),
+			);
+			expect(mockQueryBuilder.getOne).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException when no range contains the postal code", () => {
+			mockQueryBuilder.getOne.mockResolvedValue(null);
+
+			expect(service.findByCode("99999-999")).rejects.toThrow(
+				new NotFoundException("Postal code 99999999 not found"),
+			);
+		});
+
+		it("should throw NotFoundException when the city of the range is missing", () => {
+			mockQueryBuilder.getOne.mockResolvedValue(mockRange);
+			mockCitiesService.findByIbgeCode.mockResolvedValue(null);
+
+			expect(service.findByCode("01310100")).rejects.toThrow(
+				new NotFoundException("City of postal code 01310100 not found"),
+			);
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger, PinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import type { PostalCodeResponseDto } from "./dto";
+
+import type { BrazilianState } from "@agro/shared/enums";
+
+import { stripCEPFormatting, validateCEP } from "@agro/shared/validators";
+
+import { CitiesService } from "@/modules/cities/cities.service";
+
+import { PostalCodeRange } from "./entities";
+
+/**
+ * Service for offline postal code (CEP) lookups.
+ *
+ * Resolves a CEP against the postal code ranges loaded from the bundled
+ * dataset, and matches the range to its city by IBGE code.
+ *
+ * @example
+ * ```typescript
+ * const address = await postalCodeService.findByCode("01310-100");
+ * console.log(address.city.name); // "São Paulo"
+ * ```
+ */
+@Injectable()
+export class PostalCodeService {
+	constructor(
+		@InjectRepository(PostalCodeRange)
+		private readonly postalCodeRangeRepository: Repository<PostalCodeRange>,
+
+		private readonly citiesService: CitiesService,
+
+		@InjectPinoLogger(PostalCodeService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Finds the address of a postal code.
+	 *
+	 * When several ranges contain the CEP, the narrowest one is used, so a CEP
+	 * assigned to a single street wins over the range of its municipality.
+	 *
+	 * @param cep Postal code, formatted or unformatted
+	 *
+	 * @returns The address of the CEP with its city
+	 *
+	 * @throws {BadRequestException} If the CEP is invalid
+	 * @throws {NotFoundException} If no range or city matches the CEP
+	 *
+	 * @example
+	 * ```typescript
+	 * const address = await postalCodeService.findByCode("13015-904");
+	 * // { postalCode: "13015904", street: null, district: null, state: "SP", city: { name: "Campinas", ... } }
+	 * ```
+	 */
+	public async findByCode(cep: string): Promise<PostalCodeResponseDto> {
+		if (!validateCEP(cep)) {
+			throw new BadRequestException("Invalid CEP format");
+		}
+
+		const postalCode = stripCEPFormatting(cep);
+
+		const range = await this.postalCodeRangeRepository
+			.createQueryBuilder("postalCodeRange")
+			.where("postalCodeRange.startCode <= :postalCode", { postalCode })
+			.andWhere("postalCodeRange.endCode >= :postalCode", { postalCode })
+			.orderBy(
+				"CAST(postalCodeRange.endCode AS INTEGER) - CAST(postalCodeRange.startCode AS INTEGER)",
+				"ASC",
+			)
+			.getOne();
+
+		if (!range) {
+			throw new NotFoundException(`Postal code ${postalCode} not found`);
+		}
+
+		const city = await this.citiesService.findByIbgeCode(range.ibgeCode);
+
+		if (!city) {
+			this.logger.warn(
+				{ postalCode, ibgeCode: range.ibgeCode },
+				"City of postal code range not found",
+			);
+
+			throw new NotFoundException(`City of postal code ${postalCode} not found`);
+		}
+
+		return {
+			postalCode,
+			street: range.street,
+			district: range.district,
+			state: city.state as BrazilianState,
+			city,
+		};
+	}
+}
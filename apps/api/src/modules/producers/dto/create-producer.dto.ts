@@ -1,9 +1,28 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
-import { ApiProperty } from "@nestjs/swagger";
-import { IsNotEmpty, IsString, Length } from "class-validator";
+import { Field, InputType } from "@nestjs/graphql";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+	ArrayMaxSize,
+	ArrayUnique,
+	IsArray,
+	IsEmail,
+	IsNotEmpty,
+	IsObject,
+	IsOptional,
+	IsString,
+	Length,
+	MaxLength,
+	ValidateNested,
+} from "class-validator";
 
 import { generateDocument } from "@agro/shared/utils";
 
+import { IsPhone } from "@/common/decorators/phone.decorator";
+
+import { ProducerAddressDto } from "./producer-address.dto";
+import { ProducerStateRegistrationDto } from "./producer-state-registration.dto";
+
 /**
  * Data Transfer Object for creating a new rural producer.
  *
@@ -11,6 +30,8 @@ import { generateDocument } from "@agro/shared/utils";
  * Document format validation is handled at the service layer using validators
  * from the shared package.
  *
+ * Also the input of the `createProducer` GraphQL mutation.
+ *
  * @example
  * ```typescript
  * const dto: CreateProducerDto = {
@@ -24,6 +45,7 @@ import { generateDocument } from "@agro/shared/utils";
  * };
  * ```
  */
+@InputType("CreateProducerInput", { description: "Data of a new producer" })
 export class CreateProducerDto {
 	/**
 	 * The full name of the rural producer or company.
@@ -31,6 +53,7 @@ export class CreateProducerDto {
 	 * @example "João da Silva"
 	 * @example "Agropecuária XYZ Ltda"
 	 */
+	@Field(() => String)
 	@ApiProperty({
 		description: "Full name of the producer or company",
 		example: faker.person.fullName(),
@@ -48,18 +71,22 @@ export class CreateProducerDto {
 	 * Can be provided in formatted or unformatted style:
 	 * - CPF: "111.444.777-35" or "11144477735"
 	 * - CNPJ: "11.222.333/0001-81" or "11222333000181"
+	 * - Alphanumeric CNPJ: "12.ABC.345/01DE-35" or "12ABC34501DE35"
 	 *
 	 * Validation is performed at the service layer to ensure the document
 	 * follows Brazilian government algorithms.
 	 *
 	 * @example "111.444.777-35"
 	 * @example "11.222.333/0001-81"
+	 * @example "12.ABC.345/01DE-35"
 	 */
+	@Field(() => String)
 	@ApiProperty({
 		description: "CPF or CNPJ document number",
 		example: faker.helpers.arrayElement([
 			generateDocument.cpf({ formatted: true }),
 			generateDocument.cnpj({ formatted: true }),
+			generateDocument.cnpj({ formatted: true, alphanumeric: true }),
 		]),
 		minLength: 11,
 		maxLength: 18,
@@ -68,4 +95,82 @@ export class CreateProducerDto {
 	@IsString({ message: "Document must be a string" })
 	@Length(11, 18, { message: "Document must be a valid CPF or CNPJ" })
 	document!: string;
+
+	/**
+	 * Contact email address.
+	 *
+	 * @example "joao.silva@example.com"
+	 */
+	@Field(() => String, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Contact email address",
+		example: faker.internet.email(),
+		maxLength: 255,
+		nullable: true,
+		type: String,
+	})
+	@IsOptional()
+	@IsEmail({}, { message: "Email must be a valid email address" })
+	@MaxLength(255, { message: "Email must be at most 255 characters" })
+	email?: string | null;
+
+	/**
+	 * Phone numbers with area code (DDD), formatted or unformatted.
+	 *
+	 * Stored without formatting. Numbers may include the `+55` country code.
+	 *
+	 * @example ["(11) 98765-4321", "(19) 3456-7890"]
+	 */
+	@Field(() => [String], { nullable: true })
+	@ApiPropertyOptional({
+		description: "Phone numbers with area code (DDD)",
+		type: [String],
+		isArray: true,
+		maxItems: 5,
+		example: ["(11) 98765-4321"],
+	})
+	@IsOptional()
+	@Type(() => String)
+	@IsArray({ message: "Phones must be an array" })
+	@ArrayMaxSize(5, { message: "A producer can have at most 5 phones" })
+	@IsPhone({ each: true, message: "Each phone must be a valid phone number with area code" })
+	phones?: Array<string>;
+
+	/**
+	 * Postal address.
+	 *
+	 * @example { postalCode: "13010-111", street: "Rua Barão de Jaguara", number: "1000", district: "Centro", city: "Campinas", state: "SP" }
+	 */
+	@Field(() => ProducerAddressDto, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Postal address",
+		type: ProducerAddressDto,
+		nullable: true,
+	})
+	@IsOptional()
+	@IsObject({ message: "Address must be an object" })
+	@ValidateNested()
+	@Type(() => ProducerAddressDto)
+	address?: ProducerAddressDto | null;
+
+	/**
+	 * State registrations (Inscrição Estadual), at most one per state where the producer operates.
+	 *
+	 * Numbers are stored without formatting.
+	 *
+	 * @example [{ state: "SP", number: "110.042.490.114" }]
+	 */
+	@ApiPropertyOptional({
+		description: "State registrations, at most one per state",
+		type: [ProducerStateRegistrationDto],
+		isArray: true,
+	})
+	@IsOptional()
+	@IsArray({ message: "State registrations must be an array" })
+	@ArrayUnique((registration: ProducerStateRegistrationDto) => registration.state, {
+		message: "A producer can have at most one state registration per state",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => ProducerStateRegistrationDto)
+	stateRegistrations?: Array<ProducerStateRegistrationDto>;
 }
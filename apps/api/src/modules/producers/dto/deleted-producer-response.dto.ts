@@ -0,0 +1,74 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { generateDocument } from "@agro/shared/utils";
+
+/**
+ * Data Transfer Object for a soft-deleted producer listed in the trash.
+ *
+ * @example
+ * ```typescript
+ * const response: DeletedProducerResponseDto = {
+ *   id: "550e8400-e29b-41d4-a716-446655440000",
+ *   name: "João da Silva",
+ *   document: "11144477735",
+ *   deletedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class DeletedProducerResponseDto {
+	/**
+	 * Unique identifier for the producer (UUID v4).
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Full name of the rural producer or company.
+	 *
+	 * @example "João da Silva"
+	 */
+	@ApiProperty({
+		description: "Full name of the producer or company",
+		example: faker.person.fullName(),
+	})
+	@Expose()
+	name!: string;
+
+	/**
+	 * Brazilian document number (CPF or CNPJ), without formatting.
+	 *
+	 * CPFs are masked (e.g., "***.444.777-**") unless the user may reveal personal data.
+	 *
+	 * @example "11144477735"
+	 */
+	@ApiProperty({
+		description:
+			"CPF or CNPJ document number, CPFs masked unless the user may reveal personal data",
+		example: generateDocument.cpf(),
+	})
+	@Expose()
+	document!: string;
+
+	/**
+	 * Timestamp when the producer was moved to the trash.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Deletion timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	deletedAt!: Date;
+}
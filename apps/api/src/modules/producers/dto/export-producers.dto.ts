@@ -0,0 +1,32 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum } from "class-validator";
+
+import { ExportFormat } from "@agro/shared/enums";
+
+import { FindAllProducersDto } from "./find-all-producers.dto";
+
+/** Export formats available for producers, which have no geometry to export as GeoJSON */
+const PRODUCER_EXPORT_FORMATS = { Csv: ExportFormat.Csv, Xlsx: ExportFormat.Xlsx } as const;
+
+/**
+ * Query parameters for exporting producers: the list filters, plus the file format.
+ *
+ * Every producer matching the filters is exported in the requested order, so
+ * `page` and `limit` are accepted for parity with the list but ignored.
+ *
+ * @example
+ * ```typescript
+ * const query: ExportProducersDto = { format: ExportFormat.Csv, search: "Silva" };
+ * ```
+ */
+export class ExportProducersDto extends FindAllProducersDto {
+	/** File format of the export */
+	@ApiProperty({
+		description: "File format of the export",
+		enum: PRODUCER_EXPORT_FORMATS,
+		enumName: "ProducerExportFormat",
+		example: ExportFormat.Csv,
+	})
+	@IsEnum(PRODUCER_EXPORT_FORMATS, { message: "Format must be csv or xlsx" })
+	format!: ExportFormat.Csv | ExportFormat.Xlsx;
+}
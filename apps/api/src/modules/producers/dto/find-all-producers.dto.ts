@@ -1,14 +1,27 @@
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { Type } from "class-transformer";
-import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { IsArray, IsEnum, IsInt, IsOptional, IsString, Max, Min } from "class-validator";
 
-import { ProducerSortField, SortOrder } from "@agro/shared/enums";
+import {
+	BrazilianState,
+	DocumentType,
+	ProducerField,
+	ProducerInclude,
+	ProducerSortField,
+	SortOrder,
+} from "@agro/shared/enums";
 
 /**
- * Query parameters for finding all producers with pagination, sorting, and search.
+ * Query parameters for finding all producers with pagination, sorting, filtering, and search.
  *
- * Supports filtering producers by name search with configurable
- * pagination and sorting options.
+ * Supports filtering producers by name or document search, by the states and
+ * crops of their farms, by document type and by farm count, with configurable
+ * pagination and sorting options, including by farm count and total area.
+ *
+ * Responses can be limited to some fields, and farms are only loaded when
+ * included. Comma-separated values are accepted for lists.
+ *
+ * Sending a `cursor` switches from page to cursor pagination.
  *
  * @example
  * ```typescript
@@ -51,12 +64,28 @@ export class FindAllProducersDto {
 	@Max(100, { message: "Limit cannot exceed 100" })
 	limit?: number = 10;
 
+	/** Cursor of the page to read, switching to cursor pagination; empty for the first page */
+	@ApiPropertyOptional({
+		description:
+			"Switches to cursor pagination: send it empty for the first page, then the `nextCursor` of each page. `page` is ignored and no total is counted.",
+		example: "",
+	})
+	@IsOptional()
+	@IsString({ message: "Cursor must be a string" })
+	cursor?: string;
+
 	/** Field to sort by */
 	@ApiPropertyOptional({
 		description: "Field to sort by",
 		default: ProducerSortField.Name,
 		enum: ProducerSortField,
-		examples: [ProducerSortField.Name, ProducerSortField.Document, ProducerSortField.CreatedAt],
+		examples: [
+			ProducerSortField.Name,
+			ProducerSortField.Document,
+			ProducerSortField.CreatedAt,
+			ProducerSortField.FarmCount,
+			ProducerSortField.TotalArea,
+		],
 		enumName: "ProducerSortField",
 	})
 	@IsOptional()
@@ -75,12 +104,111 @@ export class FindAllProducersDto {
 	@IsEnum(SortOrder, { message: "Invalid sort order" })
 	sortOrder?: string;
 
-	/** Search query for producer name */
+	/** Search query for producer name or document */
 	@ApiPropertyOptional({
-		description: "Search query for producer name (case-insensitive)",
+		description:
+			"Search query matching the start of words of the producer name, or of the document (formatted or not), ignoring case and accents",
 		example: "Silva",
 	})
 	@IsOptional()
 	@IsString({ message: "Search must be a string" })
 	search?: string;
+
+	/** Filter by state of the producer's farms */
+	@ApiPropertyOptional({
+		description: "Filter producers owning or co-owning a farm in this state",
+		enum: BrazilianState,
+		example: BrazilianState.MT,
+		enumName: "BrazilianState",
+	})
+	@IsOptional()
+	@IsEnum(BrazilianState, { message: "Invalid operating state" })
+	operatingState?: string;
+
+	/** Filter by crop grown on the producer's farms */
+	@ApiPropertyOptional({
+		description:
+			"Filter producers owning or co-owning a farm growing this crop code, in any harvest",
+		example: "soy",
+	})
+	@IsOptional()
+	@IsString({ message: "Crop must be a crop code" })
+	crop?: string;
+
+	/** Filter by document type */
+	@ApiPropertyOptional({
+		description: "Filter producers by document type",
+		enum: DocumentType,
+		example: DocumentType.CPF,
+		enumName: "DocumentType",
+	})
+	@IsOptional()
+	@IsEnum(DocumentType, { message: "Document type must be cpf or cnpj" })
+	documentType?: DocumentType;
+
+	/** Minimum number of farms */
+	@ApiPropertyOptional({
+		description: "Only producers owning or co-owning at least this number of farms",
+		example: 1,
+		minimum: 0,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Minimum farm count must be an integer" })
+	@Min(0, { message: "Minimum farm count cannot be negative" })
+	minFarmCount?: number;
+
+	/** Maximum number of farms */
+	@ApiPropertyOptional({
+		description: "Only producers owning or co-owning at most this number of farms",
+		example: 5,
+		minimum: 0,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Maximum farm count must be an integer" })
+	@Min(0, { message: "Maximum farm count cannot be negative" })
+	maxFarmCount?: number;
+
+	/** Fields to return besides the ID */
+	@ApiPropertyOptional({
+		description:
+			"Fields to return besides the ID, every field when omitted. Included relations are always returned.",
+		enum: ProducerField,
+		enumName: "ProducerField",
+		isArray: true,
+		example: [ProducerField.Name, ProducerField.Document],
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value === "string") {
+			return value.split(",").map((field) => field.trim());
+		}
+
+		return value as unknown;
+	})
+	@IsArray({ message: "Fields must be an array" })
+	@IsEnum(ProducerField, { each: true, message: "Invalid producer field" })
+	fields?: Array<ProducerField>;
+
+	/** Relations to load along with the producers */
+	@ApiPropertyOptional({
+		description:
+			"Relations to load along with the producers, none when omitted: `farms` adds the farms of each producer, `farms.crops` and `farms.owners` their crops and owners as well",
+		enum: ProducerInclude,
+		enumName: "ProducerInclude",
+		isArray: true,
+		example: [ProducerInclude.Farms, ProducerInclude.FarmCrops],
+	})
+	@IsOptional()
+	@Transform(({ value }) => {
+		if (typeof value === "string") {
+			return value.split(",").map((relation) => relation.trim());
+		}
+
+		return value as unknown;
+	})
+	@IsArray({ message: "Include must be an array" })
+	@IsEnum(ProducerInclude, { each: true, message: "Invalid producer relation" })
+	include?: Array<ProducerInclude>;
 }
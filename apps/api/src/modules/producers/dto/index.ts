@@ -5,6 +5,11 @@
  */
 
 export * from "./create-producer.dto";
+export * from "./deleted-producer-response.dto";
+export * from "./export-producers.dto";
 export * from "./find-all-producers.dto";
+export * from "./producer-address.dto";
+export * from "./producer-personal-data-response.dto";
 export * from "./producer-response.dto";
+export * from "./producer-state-registration.dto";
 export * from "./update-producer.dto";
@@ -0,0 +1,130 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, InputType } from "@nestjs/graphql";
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum, IsNotEmpty, IsString, Length } from "class-validator";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { IsCityInState } from "@/common/decorators/city-in-state.decorator";
+import { IsCEP } from "@/common/decorators/postal-code.decorator";
+
+/**
+ * Data Transfer Object for a producer's postal address.
+ *
+ * Used as the `address` of producer requests and responses. Every part is
+ * required, and the city must exist within the state.
+ *
+ * @example
+ * ```typescript
+ * const dto: ProducerAddressDto = {
+ *   postalCode: "13010-111",
+ *   street: "Rua Barão de Jaguara",
+ *   number: "1000",
+ *   district: "Centro",
+ *   city: "Campinas",
+ *   state: BrazilianState.SP
+ * };
+ * ```
+ */
+@InputType("ProducerAddressInput", { description: "Postal address of a producer" })
+export class ProducerAddressDto {
+	/**
+	 * Postal code (CEP), formatted or unformatted in requests and digits only in responses.
+	 *
+	 * @example "13010-111"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: "Postal code (CEP), digits only in responses",
+		example: faker.location.zipCode(),
+	})
+	@IsNotEmpty({ message: "Postal code is required" })
+	@IsString({ message: "Postal code must be a string" })
+	@IsCEP({ message: "Postal code must be a valid CEP" })
+	postalCode!: string;
+
+	/**
+	 * Street name.
+	 *
+	 * @example "Rua Barão de Jaguara"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: "Street name",
+		example: faker.location.street(),
+		minLength: 2,
+		maxLength: 255,
+	})
+	@IsNotEmpty({ message: "Street is required" })
+	@IsString({ message: "Street must be a string" })
+	@Length(2, 255, { message: "Street must be between 2 and 255 characters" })
+	street!: string;
+
+	/**
+	 * Street number, or "S/N" for addresses without one.
+	 *
+	 * @example "1000"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: 'Street number, or "S/N" for addresses without one',
+		example: faker.location.buildingNumber(),
+		minLength: 1,
+		maxLength: 20,
+	})
+	@IsNotEmpty({ message: "Street number is required" })
+	@IsString({ message: "Street number must be a string" })
+	@Length(1, 20, { message: "Street number must be between 1 and 20 characters" })
+	number!: string;
+
+	/**
+	 * District (bairro).
+	 *
+	 * @example "Centro"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: "District (bairro)",
+		example: faker.location.county(),
+		minLength: 2,
+		maxLength: 100,
+	})
+	@IsNotEmpty({ message: "District is required" })
+	@IsString({ message: "District must be a string" })
+	@Length(2, 100, { message: "District must be between 2 and 100 characters" })
+	district!: string;
+
+	/**
+	 * City name, which must exist within the state.
+	 *
+	 * @example "Campinas"
+	 */
+	@Field(() => String)
+	@ApiProperty({
+		description: "City (must exist in the specified state)",
+		example: faker.location.city(),
+		minLength: 2,
+		maxLength: 100,
+	})
+	@IsNotEmpty({ message: "City is required" })
+	@IsString({ message: "City must be a string" })
+	@Length(2, 100, { message: "City must be between 2 and 100 characters" })
+	@IsCityInState({ message: "City must exist within the specified state" })
+	city!: string;
+
+	/**
+	 * Brazilian state (UF).
+	 *
+	 * @example BrazilianState.SP
+	 */
+	@Field(() => BrazilianState)
+	@ApiProperty({
+		description: "Brazilian state (UF)",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@IsNotEmpty({ message: "State is required" })
+	@IsEnum(BrazilianState, { message: "State must be a valid Brazilian state code" })
+	state!: BrazilianState;
+}
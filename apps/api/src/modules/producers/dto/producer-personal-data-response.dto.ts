@@ -0,0 +1,72 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { AuditLogResponseDto } from "@/modules/audit/dto";
+import { FarmOwnershipHistoryResponseDto } from "@/modules/farms/dto";
+
+import { ProducerResponseDto } from "./producer-response.dto";
+
+/**
+ * Data Transfer Object for everything held about a producer, exported on a
+ * data subject request (LGPD).
+ *
+ * Documents are never masked in this export.
+ *
+ * @example
+ * ```typescript
+ * const response: ProducerPersonalDataResponseDto = {
+ *   producer: { id: "550e8400-e29b-41d4-a716-446655440000", name: "João da Silva", ... },
+ *   ownershipHistory: [],
+ *   auditLogs: [],
+ *   exportedAt: new Date("2025-11-24T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class ProducerPersonalDataResponseDto {
+	/**
+	 * The producer with their contact details, address and farms.
+	 */
+	@ApiProperty({
+		description: "The producer with their contact details, address and farms",
+		type: ProducerResponseDto,
+	})
+	@Expose()
+	producer!: ProducerResponseDto;
+
+	/**
+	 * Transfers of farms to or from the producer, most recent first.
+	 */
+	@ApiProperty({
+		description: "Transfers of farms to or from the producer, most recent first",
+		type: [FarmOwnershipHistoryResponseDto],
+		isArray: true,
+	})
+	@Expose()
+	ownershipHistory!: Array<FarmOwnershipHistoryResponseDto>;
+
+	/**
+	 * Recorded changes to the producer, most recent first.
+	 */
+	@ApiProperty({
+		description: "Recorded changes to the producer, most recent first",
+		type: [AuditLogResponseDto],
+		isArray: true,
+	})
+	@Expose()
+	auditLogs!: Array<AuditLogResponseDto>;
+
+	/**
+	 * Timestamp when the export was generated.
+	 *
+	 * @example "2025-11-24T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Export timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	exportedAt!: Date;
+}
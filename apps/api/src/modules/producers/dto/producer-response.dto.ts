@@ -1,11 +1,16 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
-import { ApiProperty } from "@nestjs/swagger";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { Exclude, Expose } from "class-transformer";
 
 import type { Farm } from "@agro/shared/types";
 
 import { generateDocument } from "@agro/shared/utils";
 
+import { FarmResponseDto } from "@/modules/farms/dto";
+
+import { ProducerAddressDto } from "./producer-address.dto";
+import { ProducerStateRegistrationDto } from "./producer-state-registration.dto";
+
 /**
  * Data Transfer Object for producer responses.
  *
@@ -18,8 +23,14 @@ import { generateDocument } from "@agro/shared/utils";
  *   id: "550e8400-e29b-41d4-a716-446655440000",
  *   name: "João da Silva",
  *   document: "111.444.777-35",
+ *   email: "joao.silva@example.com",
+ *   phones: ["11987654321"],
+ *   address: null,
+ *   stateRegistrations: [],
+ *   anonymizedAt: null,
  *   createdAt: new Date("2025-11-24T10:00:00Z"),
- *   updatedAt: new Date("2025-11-24T10:00:00Z")
+ *   updatedAt: new Date("2025-11-24T10:00:00Z"),
+ *   version: 1
  * };
  * ```
  */
@@ -57,17 +68,78 @@ export class ProducerResponseDto {
 	 * - CPF: "111.444.777-35"
 	 * - CNPJ: "11.222.333/0001-81"
 	 *
+	 * CPFs are masked (e.g., "***.444.777-**") unless the user may reveal
+	 * personal data, and anonymized producers hold a masked placeholder.
+	 *
 	 * @example "111.444.777-35"
 	 */
 	@ApiProperty({
-		description: "CPF or CNPJ document number",
+		description:
+			"CPF or CNPJ document number, CPFs masked unless the user may reveal personal data",
 		example: generateDocument.cpf({ formatted: true }),
 	})
 	@Expose()
 	document!: string;
 
 	/**
-	 * Array of farms owned by the producer.
+	 * Contact email address, `null` when unknown.
+	 *
+	 * @example "joao.silva@example.com"
+	 */
+	@ApiProperty({
+		description: "Contact email address",
+		example: faker.internet.email(),
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	email!: string | null;
+
+	/**
+	 * Phone numbers with area code (DDD), digits only.
+	 *
+	 * @example ["11987654321"]
+	 */
+	@ApiProperty({
+		description: "Phone numbers with area code (DDD), digits only",
+		type: [String],
+		isArray: true,
+		example: ["11987654321"],
+	})
+	@Expose()
+	phones!: Array<string>;
+
+	/**
+	 * Postal address, `null` when unknown. The CEP is returned digits only.
+	 *
+	 * @example { postalCode: "13010111", street: "Rua Barão de Jaguara", number: "1000", district: "Centro", city: "Campinas", state: "SP" }
+	 */
+	@ApiProperty({
+		description: "Postal address",
+		type: ProducerAddressDto,
+		nullable: true,
+	})
+	@Expose()
+	address!: ProducerAddressDto | null;
+
+	/**
+	 * State registrations (Inscrição Estadual), without formatting.
+	 *
+	 * @example [{ state: "SP", number: "110042490114" }]
+	 */
+	@ApiProperty({
+		description: "State registrations, at most one per state",
+		type: [ProducerStateRegistrationDto],
+		isArray: true,
+	})
+	@Expose()
+	stateRegistrations!: Array<ProducerStateRegistrationDto>;
+
+	/**
+	 * Array of farms owned by the producer, including co-owned farms.
+	 *
+	 * Lists only return them when including `farms`, and return their crops and
+	 * owners when including `farms.crops` and `farms.owners`.
 	 *
 	 * @example
 	 * ```json
@@ -78,19 +150,35 @@ export class ProducerResponseDto {
 	 *     "city": "Campinas",
 	 *     "state": "SP",
 	 *     "producerId": "550e8400-e29b-41d4-a716-446655440000",
+	 *     "owners": [{ "producerId": "550e8400-e29b-41d4-a716-446655440000", "producerName": "João da Silva", "percentage": 100 }],
 	 *     "createdAt": "2025-11-24T10:00:00.000Z",
 	 *     "updatedAt": "2025-11-24T10:00:00.000Z"
 	 *   }
 	 * ]
 	 * ```
 	 */
-	@ApiProperty({
-		description: "Farms owned by the producer",
-		type: [Array<Farm>],
+	@ApiPropertyOptional({
+		description:
+			"Farms owned or co-owned by the producer. Lists only return them when including `farms`, with `cropsByHarvest` and `owners` when including `farms.crops` and `farms.owners`.",
+		type: () => FarmResponseDto,
 		isArray: true,
 	})
 	@Expose()
-	farms!: Array<Farm>;
+	farms?: Array<Farm>;
+
+	/**
+	 * Timestamp when the producer's personal data was removed, `null` when it is kept.
+	 *
+	 * @example null
+	 */
+	@ApiProperty({
+		description: "Anonymization timestamp, null when the personal data is kept",
+		example: null,
+		nullable: true,
+		type: Date,
+	})
+	@Expose()
+	anonymizedAt!: Date | null;
 
 	/**
 	 * Timestamp when the producer was created.
@@ -117,4 +205,18 @@ export class ProducerResponseDto {
 	})
 	@Expose()
 	updatedAt!: Date;
+
+	/**
+	 * Version of the producer, incremented on every change.
+	 *
+	 * Also returned as the `ETag` header, to be sent back in `If-Match`.
+	 *
+	 * @example 3
+	 */
+	@ApiProperty({
+		description: "Version of the producer, incremented on every change",
+		example: 3,
+	})
+	@Expose()
+	version!: number;
 }
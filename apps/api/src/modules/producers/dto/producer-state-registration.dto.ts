@@ -0,0 +1,51 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsEnum, IsNotEmpty, IsString } from "class-validator";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { IsInscricaoEstadual } from "@/common/decorators/inscricao-estadual.decorator";
+
+/**
+ * Data Transfer Object for a producer's state registration (Inscrição Estadual).
+ *
+ * Used in the `stateRegistrations` of producer requests and responses. The
+ * number must be valid according to the algorithm of its state.
+ *
+ * @example
+ * ```typescript
+ * const dto: ProducerStateRegistrationDto = {
+ *   state: BrazilianState.SP,
+ *   number: "110.042.490.114"
+ * };
+ * ```
+ */
+export class ProducerStateRegistrationDto {
+	/**
+	 * Brazilian state (UF) that issued the registration.
+	 *
+	 * @example BrazilianState.SP
+	 */
+	@ApiProperty({
+		description: "Brazilian state (UF) that issued the registration",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@IsNotEmpty({ message: "State is required" })
+	@IsEnum(BrazilianState, { message: "State must be a valid Brazilian state code" })
+	state!: BrazilianState;
+
+	/**
+	 * Registration number, formatted or unformatted in requests and without formatting in responses.
+	 *
+	 * @example "110.042.490.114"
+	 */
+	@ApiProperty({
+		description: "Registration number, without formatting in responses",
+		example: "110042490114",
+	})
+	@IsNotEmpty({ message: "State registration number is required" })
+	@IsString({ message: "State registration number must be a string" })
+	@IsInscricaoEstadual({ message: "State registration number must be valid in its state" })
+	number!: string;
+}
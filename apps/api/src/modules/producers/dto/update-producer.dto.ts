@@ -1,15 +1,35 @@
 import { faker } from "@faker-js/faker/locale/pt_BR";
+import { Field, InputType } from "@nestjs/graphql";
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { IsOptional, IsString, Length } from "class-validator";
+import { Type } from "class-transformer";
+import {
+	ArrayMaxSize,
+	ArrayUnique,
+	IsArray,
+	IsEmail,
+	IsObject,
+	IsOptional,
+	IsString,
+	Length,
+	MaxLength,
+	ValidateNested,
+} from "class-validator";
 
 import { generateDocument } from "@agro/shared/utils";
 
+import { IsPhone } from "@/common/decorators/phone.decorator";
+
+import { ProducerAddressDto } from "./producer-address.dto";
+import { ProducerStateRegistrationDto } from "./producer-state-registration.dto";
+
 /**
  * Data Transfer Object for updating an existing rural producer.
  *
  * All fields are optional to allow partial updates. Only the provided fields
  * will be updated in the database.
  *
+ * Also the input of the `updateProducer` GraphQL mutation.
+ *
  * @example
  * ```typescript
  * // Update only the name
@@ -29,12 +49,16 @@ import { generateDocument } from "@agro/shared/utils";
  * };
  * ```
  */
+@InputType("UpdateProducerInput", {
+	description: "Changes to a producer, leaving out what is unchanged",
+})
 export class UpdateProducerDto {
 	/**
 	 * The updated full name of the rural producer or company.
 	 *
 	 * @example "João da Silva Santos"
 	 */
+	@Field(() => String, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated full name of the producer or company",
 		example: faker.person.fullName(),
@@ -49,17 +73,20 @@ export class UpdateProducerDto {
 	/**
 	 * The updated Brazilian document number (CPF or CNPJ).
 	 *
-	 * Can be provided in formatted or unformatted style.
+	 * Can be provided in formatted or unformatted style, and CNPJs may be alphanumeric.
 	 * Validation is performed at the service layer.
 	 *
 	 * @example "222.555.888-46"
 	 * @example "22.333.444/0001-92"
+	 * @example "12.ABC.345/01DE-35"
 	 */
+	@Field(() => String, { nullable: true })
 	@ApiPropertyOptional({
 		description: "Updated CPF or CNPJ document number",
 		example: faker.helpers.arrayElement([
 			generateDocument.cpf({ formatted: true }),
 			generateDocument.cnpj({ formatted: true }),
+			generateDocument.cnpj({ formatted: true, alphanumeric: true }),
 		]),
 		minLength: 11,
 		maxLength: 18,
@@ -68,4 +95,83 @@ export class UpdateProducerDto {
 	@IsString({ message: "Document must be a string" })
 	@Length(11, 18, { message: "Document must be a valid CPF or CNPJ" })
 	document?: string;
+
+	/**
+	 * Contact email address. Send `null` to remove it.
+	 *
+	 * @example "joao.silva@example.com"
+	 */
+	@Field(() => String, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Contact email address",
+		example: faker.internet.email(),
+		maxLength: 255,
+		nullable: true,
+		type: String,
+	})
+	@IsOptional()
+	@IsEmail({}, { message: "Email must be a valid email address" })
+	@MaxLength(255, { message: "Email must be at most 255 characters" })
+	email?: string | null;
+
+	/**
+	 * Phone numbers with area code (DDD), formatted or unformatted.
+	 *
+	 * Replaces the current phones. Stored without formatting. Numbers may
+	 * include the `+55` country code.
+	 *
+	 * @example ["(11) 98765-4321", "(19) 3456-7890"]
+	 */
+	@Field(() => [String], { nullable: true })
+	@ApiPropertyOptional({
+		description: "Phone numbers with area code (DDD)",
+		type: [String],
+		isArray: true,
+		maxItems: 5,
+		example: ["(11) 98765-4321"],
+	})
+	@IsOptional()
+	@Type(() => String)
+	@IsArray({ message: "Phones must be an array" })
+	@ArrayMaxSize(5, { message: "A producer can have at most 5 phones" })
+	@IsPhone({ each: true, message: "Each phone must be a valid phone number with area code" })
+	phones?: Array<string>;
+
+	/**
+	 * Postal address. Send `null` to remove it.
+	 *
+	 * @example { postalCode: "13010-111", street: "Rua Barão de Jaguara", number: "1000", district: "Centro", city: "Campinas", state: "SP" }
+	 */
+	@Field(() => ProducerAddressDto, { nullable: true })
+	@ApiPropertyOptional({
+		description: "Postal address",
+		type: ProducerAddressDto,
+		nullable: true,
+	})
+	@IsOptional()
+	@IsObject({ message: "Address must be an object" })
+	@ValidateNested()
+	@Type(() => ProducerAddressDto)
+	address?: ProducerAddressDto | null;
+
+	/**
+	 * State registrations (Inscrição Estadual), at most one per state where the producer operates.
+	 *
+	 * Replaces the current registrations. Numbers are stored without formatting.
+	 *
+	 * @example [{ state: "SP", number: "110.042.490.114" }]
+	 */
+	@ApiPropertyOptional({
+		description: "State registrations, at most one per state",
+		type: [ProducerStateRegistrationDto],
+		isArray: true,
+	})
+	@IsOptional()
+	@IsArray({ message: "State registrations must be an array" })
+	@ArrayUnique((registration: ProducerStateRegistrationDto) => registration.state, {
+		message: "A producer can have at most one state registration per state",
+	})
+	@ValidateNested({ each: true })
+	@Type(() => ProducerStateRegistrationDto)
+	stateRegistrations?: Array<ProducerStateRegistrationDto>;
 }
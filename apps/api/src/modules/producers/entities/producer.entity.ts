@@ -1,32 +1,41 @@
+import { Field, ID, Int, ObjectType } from "@nestjs/graphql";
 import {
 	Column,
 	CreateDateColumn,
+	DeleteDateColumn,
 	Entity,
 	OneToMany,
 	PrimaryGeneratedColumn,
 	UpdateDateColumn,
+	VersionColumn,
 } from "typeorm";
 
-import { Farm } from "@/modules/farms/entities";
+import type { ProducerStateRegistration } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+import { Farm, FarmOwner } from "@/modules/farms/entities";
 
 /**
  * Producer entity representing a rural producer in the agricultural management system
  *
- * A producer can own multiple farms (0..N relationship) and is identified by either
- * CPF (individual) or CNPJ (legal entity). The document number is validated according
- * to Brazilian standards before persistence.
+ * A producer can own multiple farms (0..N relationship), alone or with co-owners,
+ * and is identified by either CPF (individual) or CNPJ (legal entity). The document
+ * number is validated according to Brazilian standards before persistence.
  *
  * Business Rules:
  * - CPF must be valid (11 digits with verification algorithm)
- * - CNPJ must be valid (14 digits with verification algorithm)
+ * - CNPJ must be valid (14 characters with verification algorithm), numeric or alphanumeric
  * - Document number must be unique across all producers
  * - Name is required and cannot be empty
  *
  * @see {@link Farm} for farm relationship details
  */
+@ObjectType({ description: "Rural producer, identified by a CPF or CNPJ" })
 @Entity("producers")
 export class Producer {
 	/** Unique identifier (UUID v4) */
+	@Field(() => ID)
 	@PrimaryGeneratedColumn("uuid")
 	id!: string;
 
@@ -35,17 +44,85 @@ export class Producer {
 	 *
 	 * Must be validated before persistence:
 	 * - CPF: 11 digits (e.g., "12345678900")
-	 * - CNPJ: 14 digits (e.g., "12345678000190")
+	 * - CNPJ: 14 characters, the first 12 of which may be uppercase letters
+	 *   (e.g., "12345678000190" or "12ABC34501DE35")
 	 *
-	 * Stored without formatting (digits only).
+	 * Stored without formatting (digits and uppercase letters only). Anonymized
+	 * producers hold a unique placeholder starting with "*" instead.
 	 */
+	@Field(() => String, {
+		description: "CPF or CNPJ, masked unless the user may reveal personal data",
+	})
 	@Column({ type: "varchar", length: 14, unique: true })
 	document!: string;
 
 	/** Producer's full name or company name */
+	@Field(() => String)
 	@Column({ type: "varchar", length: 255 })
 	name!: string;
 
+	/** Contact email address, `null` when unknown */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 255, nullable: true })
+	email!: string | null;
+
+	/** Phone numbers with area code (DDD), stored without formatting (digits only) */
+	@Field(() => [String])
+	@Column({ type: "simple-json", default: "[]" })
+	phones!: Array<string>;
+
+	/**
+	 * Postal code (CEP) of the producer's address, digits only
+	 *
+	 * The address columns are all set, or all `null` when the address is unknown.
+	 */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 8, name: "postal_code", nullable: true })
+	postalCode!: string | null;
+
+	/** Street of the producer's address */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 255, nullable: true })
+	street!: string | null;
+
+	/** Street number of the producer's address, "S/N" when there is none */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 20, name: "street_number", nullable: true })
+	streetNumber!: string | null;
+
+	/** District (bairro) of the producer's address */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 100, nullable: true })
+	district!: string | null;
+
+	/** City of the producer's address, which must exist within `state` */
+	@Field(() => String, { nullable: true })
+	@Column({ type: "varchar", length: 100, nullable: true })
+	city!: string | null;
+
+	/** State (UF) of the producer's address */
+	@Field(() => BrazilianState, { nullable: true })
+	@Column({ type: "varchar", length: 2, nullable: true })
+	state!: string | null;
+
+	/**
+	 * State registrations (Inscrição Estadual), at most one per state
+	 *
+	 * Numbers are stored without formatting, keeping the "P" of São Paulo rural producers.
+	 */
+	@Column({ type: "simple-json", name: "state_registrations", default: "[]" })
+	stateRegistrations!: Array<ProducerStateRegistration>;
+
+	/**
+	 * Timestamp of anonymization, `null` while the producer's personal data is kept
+	 *
+	 * Set when the personal data of the producer is removed on a data subject
+	 * request. The producer and their farms are kept, so statistics are unchanged.
+	 */
+	@Field(() => Date, { nullable: true })
+	@Column({ type: "datetime", name: "anonymized_at", nullable: true })
+	anonymizedAt!: Date | null;
+
 	/**
 	 * Farms owned by this producer
 	 *
@@ -60,11 +137,41 @@ export class Producer {
 	@OneToMany(() => Farm, (farm) => farm.producer)
 	farms!: Array<Farm>;
 
+	/**
+	 * Shares held by this producer in farms, including co-owned farms
+	 *
+	 * Load explicitly with the `farmOwnerships.farm` relation when needed.
+	 */
+	@OneToMany(() => FarmOwner, (farmOwner) => farmOwner.producer)
+	farmOwnerships!: Array<FarmOwner>;
+
 	/** Timestamp of record creation */
+	@Field(() => Date)
 	@CreateDateColumn({ name: "created_at" })
 	createdAt!: Date;
 
 	/** Timestamp of last record update */
+	@Field(() => Date)
 	@UpdateDateColumn({ name: "updated_at" })
 	updatedAt!: Date;
+
+	/**
+	 * Timestamp of soft deletion, `null` while the producer is active
+	 *
+	 * Set when the producer is moved to the trash. Soft-deleted rows are excluded
+	 * from queries unless `withDeleted` is used. Farms deleted along with the
+	 * producer share this timestamp, so they are restored together.
+	 */
+	@DeleteDateColumn({ name: "deleted_at" })
+	deletedAt!: Date | null;
+
+	/**
+	 * Revision of the producer, incremented on every update
+	 *
+	 * Exposed as the `ETag` of the producer endpoints, so clients can send it back in
+	 * `If-Match` and avoid overwriting changes made by someone else.
+	 */
+	@Field(() => Int)
+	@VersionColumn({ default: 1 })
+	version!: number;
 }
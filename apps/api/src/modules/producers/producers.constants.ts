@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Producer module constants
+ *
+ * Contains the headers and worksheet name of producer exports, the personal
+ * data removed when anonymizing producers, the condition joining their farm
+ * ownerships, and the query expressions filtering and sorting producers by
+ * their farms.
+ */
+
+import type { Producer } from "./entities/producer.entity";
+
+import { DocumentType, ProducerSortField, SupportedLocale } from "@agro/shared/enums";
+
+/**
+ * Headers of the producer export columns, in the locale set by `API__LOCALE`
+ *
+ * Match the headers recognized by the import, so exported files can be
+ * imported back.
+ */
+export const PRODUCER_EXPORT_HEADERS = {
+	[SupportedLocale.Portuguese]: {
+		name: "Nome",
+		document: "CPF/CNPJ",
+		farms: "Fazendas",
+		totalArea: "Área total (ha)",
+		createdAt: "Criado em",
+	},
+	[SupportedLocale.English]: {
+		name: "Name",
+		document: "Document",
+		farms: "Farms",
+		totalArea: "Total area (ha)",
+		createdAt: "Created at",
+	},
+} as const satisfies Record<SupportedLocale, Record<string, string>>;
+
+/** Name of the worksheet holding XLSX producer exports, in the locale set by `API__LOCALE` */
+export const PRODUCER_EXPORT_SHEET_NAME = {
+	[SupportedLocale.Portuguese]: "Produtores",
+	[SupportedLocale.English]: "Producers",
+} as const satisfies Record<SupportedLocale, string>;
+
+/** Name given to anonymized producers, in the locale set by `API__LOCALE` */
+export const ANONYMIZED_PRODUCER_NAME = {
+	[SupportedLocale.Portuguese]: "Produtor anonimizado",
+	[SupportedLocale.English]: "Anonymized producer",
+} as const satisfies Record<SupportedLocale, string>;
+
+/**
+ * Producer properties holding personal data, removed on anonymization
+ *
+ * Their values are also erased from the producer's audit log entries.
+ */
+export const PRODUCER_PERSONAL_DATA_PROPERTIES = [
+	"name",
+	"document",
+	"email",
+	"phones",
+	"postalCode",
+	"street",
+	"streetNumber",
+	"district",
+	"city",
+	"state",
+	"stateRegistrations",
+] as const satisfies ReadonlyArray<keyof Producer>;
+
+/**
+ * Join condition leaving out the ownerships of farms in the trash
+ *
+ * Farms in the trash are not joined, so their ownerships would be loaded
+ * without a farm. Expects the ownership alias `ownership`.
+ */
+export const ACTIVE_FARM_OWNERSHIP_CONDITION = `"ownership"."farm_id" IN (SELECT "id" FROM "farms" WHERE "deleted_at" IS NULL)`;
+
+/** Joins the farms owned or co-owned by the producer, leaving out farms in the trash */
+const OWNED_FARMS_JOIN = `FROM "farm_owners" "ownedFarmOwner" INNER JOIN "farms" "ownedFarm" ON "ownedFarm"."id" = "ownedFarmOwner"."farm_id" AND "ownedFarm"."deleted_at" IS NULL`;
+
+/** Matches the farms joined by {@link OWNED_FARMS_JOIN} to the producer of alias `producer` */
+const OWNED_BY_PRODUCER = `"ownedFarmOwner"."producer_id" = "producer"."id"`;
+
+/**
+ * Query expressions computing the farm aggregates producers can be sorted by
+ *
+ * Computed by subqueries rather than from the joined farms, so the database
+ * sorts and paginates producers without loading their farms. Expect the
+ * producer alias `producer`.
+ */
+export const PRODUCER_AGGREGATE_EXPRESSIONS = {
+	[ProducerSortField.FarmCount]: `(SELECT COUNT(*) ${OWNED_FARMS_JOIN} WHERE ${OWNED_BY_PRODUCER})`,
+	[ProducerSortField.TotalArea]: `(SELECT COALESCE(SUM("ownedFarm"."total_area"), 0) ${OWNED_FARMS_JOIN} WHERE ${OWNED_BY_PRODUCER})`,
+} as const satisfies Partial<Record<ProducerSortField, string>>;
+
+/** Query condition matching producers owning a farm in the `:operatingState` parameter */
+export const OPERATES_IN_STATE_CONDITION = `EXISTS (SELECT 1 ${OWNED_FARMS_JOIN} WHERE ${OWNED_BY_PRODUCER} AND "ownedFarm"."state" = :operatingState)`;
+
+/** Query condition matching producers owning a farm growing the `:crop` parameter, in any harvest */
+export const GROWS_CROP_CONDITION = `EXISTS (SELECT 1 ${OWNED_FARMS_JOIN} INNER JOIN "farm_harvests" "ownedFarmHarvest" ON "ownedFarmHarvest"."farm_id" = "ownedFarm"."id" INNER JOIN "farm_harvest_crops" "ownedCrop" ON "ownedCrop"."farm_harvest_id" = "ownedFarmHarvest"."id" WHERE ${OWNED_BY_PRODUCER} AND "ownedCrop"."crop_type" = :crop)`;
+
+/**
+ * Query conditions matching producers by the type of their document
+ *
+ * Documents are stored stripped of formatting, so the type follows from the
+ * length. Anonymized documents, starting with `*`, match neither type.
+ */
+export const DOCUMENT_TYPE_CONDITIONS = {
+	[DocumentType.CPF]: `(LENGTH("producer"."document") = 11 AND "producer"."document" NOT LIKE '*%')`,
+	[DocumentType.CNPJ]: `(LENGTH("producer"."document") = 14 AND "producer"."document" NOT LIKE '*%')`,
+} as const satisfies Record<DocumentType, string>;
@@ -4,21 +4,40 @@ import {
 	Controller,
 	Delete,
 	Get,
+	HttpCode,
 	HttpStatus,
 	Param,
 	Patch,
 	Post,
 	Query,
+	Res,
+	UseInterceptors,
 } from "@nestjs/common";
-import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+import {
+	ApiBearerAuth,
+	ApiHeader,
+	ApiOperation,
+	ApiProduces,
+	ApiResponse,
+	ApiTags,
+} from "@nestjs/swagger";
+
+import type { Response } from "express";
+
+import type { CursorPaginatedResponse, PaginatedResponse } from "@agro/shared/types";
 
-import type { PaginatedResponse } from "@agro/shared/types";
+import type { IfMatchVersions, SparseFieldset } from "@/common";
 
-import { ParseUUIDPipe } from "@/common";
+import { ExportFormat, UserRole } from "@agro/shared/enums";
+
+import { ETagInterceptor, EXPORT_MEDIA_TYPES, IfMatch, ParseUUIDPipe, Roles } from "@/common";
 
 import {
 	CreateProducerDto,
+	DeletedProducerResponseDto,
+	ExportProducersDto,
 	FindAllProducersDto,
+	ProducerPersonalDataResponseDto,
 	ProducerResponseDto,
 	UpdateProducerDto,
 } from "./dto";
@@ -80,29 +99,82 @@ export class ProducersController {
 	 * Retrieves all producers with pagination, sorting, and search.
 	 *
 	 * Supports filtering by name search with configurable sorting and pagination.
-	 * All query parameters are optional with sensible defaults.
+	 * All query parameters are optional with sensible defaults. Sending a
+	 * `cursor` switches to cursor pagination. Farms are only returned when
+	 * included, and `fields` limits the other fields returned.
 	 *
-	 * @param query Query parameters for pagination, sorting, and search
+	 * @param query Query parameters for pagination, sorting, search, fields and includes
 	 *
-	 * @returns Paginated producer response with metadata
+	 * @returns Paginated producer response with metadata, or a page of producers with the next cursor
 	 */
 	@Get()
 	@ApiOperation({
 		summary: "Get all producers with pagination, sorting, and search",
 		description:
-			"Retrieves a paginated list of producers. Supports name search, customizable sorting, and pagination.",
+			"Retrieves a paginated list of producers. Supports name search, customizable sorting, and pagination. Send `cursor` (empty for the first page) to page by cursor: the response then has `nextCursor` instead of the page and total. Farms are left out unless included with `include=farms` (adding `farms.crops` or `farms.owners` for their crops and owners), and `fields` limits the other fields returned besides the ID.",
 	})
 	@ApiResponse({
 		status: HttpStatus.OK,
-		description: "Paginated list of producers",
+		description: "Paginated list of producers, with only the requested fields and relations",
 		type: [ProducerResponseDto],
 	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid cursor" })
 	public findAll(
 		@Query() query: FindAllProducersDto,
-	): Promise<PaginatedResponse<ProducerResponseDto>> {
+	): Promise<
+		| PaginatedResponse<SparseFieldset<ProducerResponseDto>>
+		| CursorPaginatedResponse<SparseFieldset<ProducerResponseDto>>
+	> {
+		if (query.cursor !== undefined) return this.producersService.findAllByCursor(query);
+
 		return this.producersService.findAll(query);
 	}
 
+	/**
+	 * Retrieves the producers in the trash.
+	 *
+	 * @returns The deleted producers, most recently deleted first
+	 */
+	@Get("trash")
+	@ApiOperation({ summary: "Get producers in the trash" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Deleted producers, most recently deleted first",
+		type: [DeletedProducerResponseDto],
+	})
+	public findDeleted(): Promise<Array<DeletedProducerResponseDto>> {
+		return this.producersService.findDeleted();
+	}
+
+	/**
+	 * Exports the producers matching the list filters as a CSV or XLSX file.
+	 *
+	 * The file is streamed as it is written, with numbers, dates and headers
+	 * formatted for the API locale.
+	 *
+	 * @param query List filters and sorting, plus the file format
+	 * @param response Response the file is streamed to
+	 */
+	@Get("export")
+	@ApiOperation({
+		summary: "Export producers",
+		description:
+			"Downloads every producer matching the list filters, in the requested order, as a CSV or XLSX file. Pagination is ignored. Numbers, dates and column headers follow the API locale.",
+	})
+	@ApiProduces(EXPORT_MEDIA_TYPES[ExportFormat.Csv], EXPORT_MEDIA_TYPES[ExportFormat.Xlsx])
+	@ApiResponse({ status: HttpStatus.OK, description: "File with the matching producers" })
+	public async export(
+		@Query() query: ExportProducersDto,
+		@Res() response: Response,
+	): Promise<void> {
+		const date = new Date().toISOString().slice(0, 10);
+
+		response.attachment(`producers-${date}.${query.format}`);
+		response.type(EXPORT_MEDIA_TYPES[query.format]);
+
+		await this.producersService.export(query, response);
+	}
+
 	/**
 	 * Retrieves a specific producer by ID.
 	 *
@@ -115,6 +187,7 @@ export class ProducersController {
 	 * @throws {NotFoundException} If producer with the given ID does not exist
 	 */
 	@Get(":id")
+	@UseInterceptors(ETagInterceptor)
 	@ApiOperation({ summary: "Get producer by ID" })
 	@ApiResponse({
 		status: HttpStatus.OK,
@@ -135,15 +208,23 @@ export class ProducersController {
 	 *
 	 * @param id UUID of the producer to update
 	 * @param updateProducerDto Fields to update
+	 * @param ifMatch Versions from the `If-Match` header, if any
 	 *
 	 * @returns The updated producer
 	 *
 	 * @throws {NotFoundException} If producer with the given ID does not exist
 	 * @throws {BadRequestException} If new document format is invalid
 	 * @throws {ConflictException} If new document is already in use
+	 * @throws {PreconditionFailedException} If the producer changed since the ETag in If-Match
 	 */
 	@Patch(":id")
+	@UseInterceptors(ETagInterceptor)
 	@ApiOperation({ summary: "Update producer" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the producer as last read, to reject the request if it changed since",
+	})
 	@ApiResponse({
 		status: HttpStatus.OK,
 		description: "Producer updated successfully",
@@ -152,30 +233,165 @@ export class ProducersController {
 	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
 	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
 	@ApiResponse({ status: HttpStatus.CONFLICT, description: "Document already exists" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Producer was modified since the ETag in If-Match",
+	})
 	public update(
 		@Param("id", ParseUUIDPipe) id: string,
 		@Body() updateProducerDto: UpdateProducerDto,
+		@IfMatch() ifMatch?: IfMatchVersions,
 	): Promise<ProducerResponseDto> {
-		return this.producersService.update(id, updateProducerDto);
+		return this.producersService.update(id, updateProducerDto, ifMatch);
 	}
 
 	/**
-	 * Deletes a producer.
+	 * Moves a producer to the trash.
 	 *
-	 * Also deletes all associated farms due to CASCADE constraint.
+	 * The farms owned by the producer are moved to the trash along with them.
 	 *
 	 * @param id UUID of the producer to delete
+	 * @param ifMatch Versions from the `If-Match` header, if any
 	 *
 	 * @returns Void on successful deletion
 	 *
 	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 * @throws {PreconditionFailedException} If the producer changed since the ETag in If-Match
 	 */
 	@Delete(":id")
-	@ApiOperation({ summary: "Delete producer" })
-	@ApiResponse({ status: HttpStatus.OK, description: "Producer deleted successfully" })
+	@ApiOperation({ summary: "Move producer to the trash" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the producer as last read, to reject the request if it changed since",
+	})
+	@ApiResponse({ status: HttpStatus.OK, description: "Producer moved to the trash successfully" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Producer was modified since the ETag in If-Match",
+	})
+	public remove(
+		@Param("id", ParseUUIDPipe) id: string,
+		@IfMatch() ifMatch?: IfMatchVersions,
+	): Promise<void> {
+		return this.producersService.delete(id, ifMatch);
+	}
+
+	/**
+	 * Restores a producer from the trash.
+	 *
+	 * @param id UUID of the producer to restore
+	 *
+	 * @returns The restored producer
+	 *
+	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 * @throws {BadRequestException} If the producer is not in the trash
+	 */
+	@Post(":id/restore")
+	@HttpCode(HttpStatus.OK)
+	@ApiOperation({ summary: "Restore producer from the trash" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Producer restored successfully",
+		type: ProducerResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Producer is not in the trash" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
+	public restore(@Param("id", ParseUUIDPipe) id: string): Promise<ProducerResponseDto> {
+		return this.producersService.restore(id);
+	}
+
+	/**
+	 * Permanently deletes a producer from the trash.
+	 *
+	 * Restricted to admins. Also deletes all associated records due to CASCADE constraints.
+	 *
+	 * @param id UUID of the producer to purge
+	 * @param ifMatch Versions from the `If-Match` header, if any
+	 *
+	 * @returns Void on successful purge
+	 *
+	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 * @throws {BadRequestException} If the producer is not in the trash
+	 * @throws {ForbiddenException} If the user is not an admin
+	 * @throws {PreconditionFailedException} If the producer changed since the ETag in If-Match
+	 */
+	@Delete(":id/purge")
+	@Roles(UserRole.Admin)
+	@ApiOperation({ summary: "Permanently delete producer from the trash (admin only)" })
+	@ApiHeader({
+		name: "If-Match",
+		required: false,
+		description: "ETag of the producer as last read, to reject the request if it changed since",
+	})
+	@ApiResponse({ status: HttpStatus.OK, description: "Producer purged successfully" })
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Producer is not in the trash" })
+	@ApiResponse({ status: HttpStatus.FORBIDDEN, description: "User is not an admin" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
+	@ApiResponse({
+		status: HttpStatus.PRECONDITION_FAILED,
+		description: "Producer was modified since the ETag in If-Match",
+	})
+	public purge(
+		@Param("id", ParseUUIDPipe) id: string,
+		@IfMatch() ifMatch?: IfMatchVersions,
+	): Promise<void> {
+		return this.producersService.purge(id, ifMatch);
+	}
+
+	/**
+	 * Exports everything held about a producer, on a data subject request (LGPD).
+	 *
+	 * Restricted to admins. Includes producers in the trash, with their documents unmasked.
+	 *
+	 * @param id UUID of the producer
+	 *
+	 * @returns The producer, the transfers of their farms and their change history
+	 *
+	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 * @throws {ForbiddenException} If the user is not an admin
+	 */
+	@Get(":id/personal-data")
+	@Roles(UserRole.Admin)
+	@ApiOperation({ summary: "Export the personal data held about a producer (admin only)" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Personal data of the producer",
+		type: ProducerPersonalDataResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.FORBIDDEN, description: "User is not an admin" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
+	public exportPersonalData(
+		@Param("id", ParseUUIDPipe) id: string,
+	): Promise<ProducerPersonalDataResponseDto> {
+		return this.producersService.exportPersonalData(id);
+	}
+
+	/**
+	 * Removes the personal data of a producer, on a data subject request (LGPD).
+	 *
+	 * Restricted to admins. The producer and their farms are kept, so farm
+	 * statistics are unchanged. Cannot be undone.
+	 *
+	 * @param id UUID of the producer to anonymize
+	 *
+	 * @returns Void on successful anonymization
+	 *
+	 * @throws {NotFoundException} If producer with the given ID does not exist
+	 * @throws {BadRequestException} If the producer is already anonymized
+	 * @throws {ForbiddenException} If the user is not an admin
+	 */
+	@Post(":id/anonymize")
+	@HttpCode(HttpStatus.OK)
+	@Roles(UserRole.Admin)
+	@ApiOperation({ summary: "Remove the personal data of a producer (admin only)" })
+	@ApiResponse({ status: HttpStatus.OK, description: "Producer anonymized successfully" })
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Producer is already anonymized" })
+	@ApiResponse({ status: HttpStatus.FORBIDDEN, description: "User is not an admin" })
 	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Producer not found" })
-	public remove(@Param("id", ParseUUIDPipe) id: string): Promise<void> {
-		return this.producersService.delete(id);
+	public anonymize(@Param("id", ParseUUIDPipe) id: string): Promise<void> {
+		return this.producersService.anonymize(id);
 	}
 
 	/**
@@ -57,6 +57,16 @@ describe("Producers E2E", () => {
 			expect(producer.name).toBe(createProducerDto.name);
 		});
 
+		it("should create a producer with valid alphanumeric CNPJ", async () => {
+			const createProducerDto = fixtures.producer.validAlphanumericCNPJ();
+
+			const response = await scenarios.producers.create(createProducerDto);
+
+			expect(response.status).toBe(HttpStatus.CREATED);
+			const producer = assertSuccessResponse(response.body);
+			expect(producer.document).toBe(createProducerDto.document.replaceAll(/[^A-Z\d]/g, ""));
+		});
+
 		it("should reject invalid CPF", async () => {
 			const createProducerDto = fixtures.producer.invalidCPF();
 
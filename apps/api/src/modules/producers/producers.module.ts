@@ -1,6 +1,9 @@
 import { Module } from "@nestjs/common";
 import { TypeOrmModule } from "@nestjs/typeorm";
 
+import { AuditModule } from "@/modules/audit/audit.module";
+import { FarmOwnershipHistory } from "@/modules/farms/entities";
+
 import { Producer } from "./entities/producer.entity";
 import { ProducersController } from "./producers.controller";
 import { ProducersService } from "./producers.service";
@@ -9,8 +12,9 @@ import { ProducersService } from "./producers.service";
  * NestJS module for producer management.
  *
  * Provides producer-related services and repositories. This module encapsulates
- * all producer business logic and can be imported by other modules that need
- * producer functionality.
+ * all producer business logic, including the data subject requests reading the
+ * farm ownership history and audit log of producers, and can be imported by
+ * other modules that need producer functionality.
  *
  * @example
  * ```typescript
@@ -22,7 +26,7 @@ import { ProducersService } from "./producers.service";
  * ```
  */
 @Module({
-	imports: [TypeOrmModule.forFeature([Producer])],
+	imports: [TypeOrmModule.forFeature([Producer, FarmOwnershipHistory]), AuditModule],
 	controllers: [ProducersController],
 	providers: [ProducersService],
 	exports: [ProducersService],
@@ -5,21 +5,75 @@
  * using mocked dependencies and test constants.
  */
 
-import { BadRequestException, ConflictException, NotFoundException } from "@nestjs/common";
+import { PassThrough } from "node:stream";
+import { text } from "node:stream/consumers";
+
+import {
+	BadRequestException,
+	ConflictException,
+	NotFoundException,
+	PreconditionFailedException,
+} from "@nestjs/common";
 import { Test, TestingModule } from "@nestjs/testing";
 import { getRepositoryToken } from "@nestjs/typeorm";
-import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
 import { fixtures, TestConstants } from "test/fixtures";
-import { Repository } from "typeorm";
+import { In, Not, Repository } from "typeorm";
+
+import {
+	AuditEntityType,
+	BrazilianState,
+	DocumentType,
+	ExportFormat,
+	ProducerField,
+	ProducerInclude,
+	ProducerSortField,
+	SortOrder,
+	SupportedLocale,
+	UserRole,
+} from "@agro/shared/enums";
+import { maskDocument, stripDocumentFormatting } from "@agro/shared/validators";
+
+import { currentUserStorage, PRODUCER_SEARCH_CONDITION } from "@/common";
+import { env } from "@/config/env.config";
+import { AuditService } from "@/modules/audit/audit.service";
+import { Farm, FarmOwner, FarmOwnershipHistory } from "@/modules/farms/entities";
 
 import { UpdateProducerDto } from "./dto";
 import { Producer } from "./entities/producer.entity";
+import {
+	DOCUMENT_TYPE_CONDITIONS,
+	GROWS_CROP_CONDITION,
+	OPERATES_IN_STATE_CONDITION,
+	PRODUCER_AGGREGATE_EXPRESSIONS,
+} from "./producers.constants";
 import { ProducersService } from "./producers.service";
 
 describe("ProducersService", () => {
 	let service: ProducersService;
 	let repository: Repository<Producer>;
 
+	/** Contact, address, registration and anonymization columns of a producer without contact details */
+	const withoutContactDetails = {
+		email: null,
+		phones: [],
+		postalCode: null,
+		street: null,
+		streetNumber: null,
+		district: null,
+		city: null,
+		state: null,
+		stateRegistrations: [],
+		anonymizedAt: null,
+	};
+
+	/** Admin user, who may reveal personal data */
+	const adminUser = {
+		userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+		email: "admin@example.com",
+		role: UserRole.Admin,
+	};
+
 	/**
 	 * Mock repositories with common methods.
 	 */
@@ -28,6 +82,7 @@ describe("ProducersService", () => {
 		where: ReturnType<typeof mock>;
 		andWhere: ReturnType<typeof mock>;
 		orderBy: ReturnType<typeof mock>;
+		addOrderBy: ReturnType<typeof mock>;
 		skip: ReturnType<typeof mock>;
 		take: ReturnType<typeof mock>;
 		select: ReturnType<typeof mock>;
@@ -37,7 +92,9 @@ describe("ProducersService", () => {
 		getMany: ReturnType<typeof mock>;
 		getOne: ReturnType<typeof mock>;
 		getManyAndCount: ReturnType<typeof mock>;
+		getRawAndEntities: ReturnType<typeof mock>;
 		getRawOne: ReturnType<typeof mock>;
+		withDeleted: ReturnType<typeof mock>;
 	}
 
 	const createMockQueryBuilder = (): MockQueryBuilder => {
@@ -46,6 +103,7 @@ describe("ProducersService", () => {
 			getMany: mock(),
 			getOne: mock(),
 			getManyAndCount: mock(),
+			getRawAndEntities: mock(),
 			getRawOne: mock(),
 		};
 
@@ -53,11 +111,13 @@ describe("ProducersService", () => {
 		qb.where = mock(() => qb);
 		qb.andWhere = mock(() => qb);
 		qb.orderBy = mock(() => qb);
+		qb.addOrderBy = mock(() => qb);
 		qb.skip = mock(() => qb);
 		qb.take = mock(() => qb);
 		qb.select = mock(() => qb);
 		qb.addSelect = mock(() => qb);
 		qb.groupBy = mock(() => qb);
+		qb.withDeleted = mock(() => qb);
 
 		return qb as MockQueryBuilder;
 	};
@@ -68,10 +128,31 @@ describe("ProducersService", () => {
 		save: mock(),
 		find: mock(),
 		findOne: mock(),
-		delete: mock(),
 		createQueryBuilder: mock(createMockQueryBuilder) as ReturnType<
 			typeof mock<() => Partial<MockQueryBuilder>>
 		>,
+		manager: {
+			count: mock(),
+			exists: mock(),
+			transaction: mock(),
+		},
+	};
+
+	const mockEntityManager = {
+		exists: mock(),
+		find: mock(),
+		increment: mock(),
+		remove: mock(),
+		save: mock(),
+	};
+
+	const mockOwnershipHistoryRepository = {
+		find: mock(),
+	};
+
+	const mockAuditService = {
+		findAllByEntity: mock(),
+		eraseFields: mock(),
 	};
 
 	const mockLogger = {
@@ -90,6 +171,14 @@ describe("ProducersService", () => {
 					provide: getRepositoryToken(Producer),
 					useValue: mockRepository,
 				},
+				{
+					provide: getRepositoryToken(FarmOwnershipHistory),
+					useValue: mockOwnershipHistoryRepository,
+				},
+				{
+					provide: AuditService,
+					useValue: mockAuditService,
+				},
 				{
 					provide: `PinoLogger:${ProducersService.name}`,
 					useValue: mockLogger,
@@ -104,8 +193,22 @@ describe("ProducersService", () => {
 		mockRepository.save.mockReset();
 		mockRepository.find.mockReset();
 		mockRepository.findOne.mockReset();
-		mockRepository.delete.mockReset();
 		mockRepository.createQueryBuilder.mockReset();
+		mockEntityManager.exists.mockReset();
+		mockEntityManager.find.mockReset();
+		mockEntityManager.increment.mockReset();
+		mockEntityManager.remove.mockReset();
+		mockEntityManager.save.mockReset();
+		mockOwnershipHistoryRepository.find.mockReset();
+		mockAuditService.findAllByEntity.mockReset();
+		mockAuditService.eraseFields.mockReset();
+		mockRepository.manager.count.mockReset();
+		mockRepository.manager.exists.mockReset();
+		mockRepository.manager.exists.mockResolvedValue(false);
+		mockRepository.manager.transaction.mockReset();
+		mockRepository.manager.transaction.mockImplementation(
+			(work: (manager: typeof mockEntityManager) => Promise<unknown>) => work(mockEntityManager),
+		);
 	});
 
 	it("should be defined", () => {
@@ -124,8 +227,12 @@ describe("ProducersService", () => {
 				name: createDto.name,
 				document: createDto.document.replaceAll(/\D/g, ""),
 				farms: [],
+				farmOwnerships: [],
+				...withoutContactDetails,
 				createdAt: new Date("2025-11-24T10:00:00Z"),
 				updatedAt: new Date("2025-11-24T10:00:00Z"),
+				deletedAt: null,
+				version: 1,
 			};
 		});
 
@@ -139,10 +246,16 @@ describe("ProducersService", () => {
 			expect(result).toEqual({
 				id: mockProducer.id,
 				name: mockProducer.name,
-				document: mockProducer.document,
+				document: maskDocument(mockProducer.document),
+				email: null,
+				phones: [],
+				address: null,
+				stateRegistrations: [],
 				farms: [],
+				anonymizedAt: null,
 				createdAt: mockProducer.createdAt,
 				updatedAt: mockProducer.updatedAt,
+				version: 1,
 			});
 			expect(mockRepository.create).toHaveBeenCalled();
 			expect(mockRepository.save).toHaveBeenCalledWith(mockProducer);
@@ -164,6 +277,70 @@ describe("ProducersService", () => {
 			expect(mockRepository.create).toHaveBeenCalled();
 		});
 
+		it("should create a producer with a valid alphanumeric CNPJ", async () => {
+			const cnpjDto = { ...fixtures.producer.validCNPJ(), document: "12.abc.345/01de-35" };
+			mockRepository.findOne.mockResolvedValue(null);
+			mockRepository.create.mockImplementation((producer: Partial<Producer>) => ({
+				...mockProducer,
+				...producer,
+			}));
+			mockRepository.save.mockImplementation((producer: Producer) => Promise.resolve(producer));
+
+			const result = await service.create(cnpjDto);
+
+			expect(result.document).toBe("12ABC34501DE35");
+		});
+
+		it("should reject an alphanumeric CNPJ with wrong check digits", async () => {
+			mockRepository.findOne.mockResolvedValue(null);
+
+			expect(service.create({ ...createDto, document: "12.ABC.345/01DE-36" })).rejects.toThrow(
+				new BadRequestException("Invalid CNPJ format"),
+			);
+			expect(mockRepository.save).not.toHaveBeenCalled();
+		});
+
+		it("should store contact details without formatting", async () => {
+			mockRepository.findOne.mockResolvedValue(null);
+			mockRepository.create.mockImplementation((producer: Partial<Producer>) => ({
+				...mockProducer,
+				...producer,
+			}));
+			mockRepository.save.mockImplementation((producer: Producer) => Promise.resolve(producer));
+
+			const result = await service.create({
+				...createDto,
+				email: " joao@example.com ",
+				phones: ["(11) 98765-4321", "+55 11 98765-4321", "(19) 3456-7890"],
+				address: {
+					postalCode: "13010-111",
+					street: "Rua Barão de Jaguara",
+					number: "1000",
+					district: "Centro",
+					city: "Campinas",
+					state: BrazilianState.SP,
+				},
+			});
+
+			expect(mockRepository.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					email: "joao@example.com",
+					phones: ["11987654321", "1934567890"],
+					postalCode: "13010111",
+					streetNumber: "1000",
+					state: BrazilianState.SP,
+				}),
+			);
+			expect(result.address).toEqual({
+				postalCode: "13010111",
+				street: "Rua Barão de Jaguara",
+				number: "1000",
+				district: "Centro",
+				city: "Campinas",
+				state: BrazilianState.SP,
+			});
+		});
+
 		it("should throw BadRequestException for invalid CPF", async () => {
 			const invalidDto = fixtures.producer.invalidCPF();
 
@@ -184,6 +361,29 @@ describe("ProducersService", () => {
 			expect(service.create(createDto)).rejects.toThrow(ConflictException);
 			expect(mockRepository.create).not.toHaveBeenCalled();
 		});
+
+		it("should keep the document out of the duplicate document message", async () => {
+			mockRepository.findOne.mockResolvedValue(mockProducer);
+
+			const error = await service.create(createDto).catch((error: unknown) => error);
+
+			expect(error).toBeInstanceOf(ConflictException);
+			expect((error as ConflictException).message).toBe(
+				"A producer with this document already exists",
+			);
+			expect((error as ConflictException).message).not.toContain(
+				stripDocumentFormatting(createDto.document),
+			);
+		});
+
+		it("should throw ConflictException for a document of a producer in the trash", async () => {
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer, deletedAt: new Date() });
+
+			expect(service.create(createDto)).rejects.toThrow("already exists in the trash");
+			expect(mockRepository.findOne).toHaveBeenCalledWith(
+				expect.objectContaining({ withDeleted: true }),
+			);
+		});
 	});
 
 	describe("findAll", () => {
@@ -194,16 +394,24 @@ describe("ProducersService", () => {
 					name: "João da Silva",
 					document: "11144477735",
 					farms: [],
+					farmOwnerships: [],
+					...withoutContactDetails,
 					createdAt: new Date(),
 					updatedAt: new Date(),
+					deletedAt: null,
+					version: 1,
 				},
 				{
 					id: "660e9500-f30c-52e5-b827-557766551111",
 					name: "Maria Santos",
 					document: "22255588846",
 					farms: [],
+					farmOwnerships: [],
+					...withoutContactDetails,
 					createdAt: new Date(),
 					updatedAt: new Date(),
+					deletedAt: null,
+					version: 1,
 				},
 			];
 
@@ -228,6 +436,72 @@ describe("ProducersService", () => {
 			expect(mockRepository.createQueryBuilder).toHaveBeenCalledWith("producer");
 		});
 
+		it("should only join the farms, and the relations of farms, that are included", async () => {
+			const mockProducer = {
+				id: "550e8400-e29b-41d4-a716-446655440000",
+				name: "João da Silva",
+				document: "11144477735",
+				farmOwnerships: [
+					{
+						farm: {
+							id: "770e9600-g40d-63f6-c938-668877662222",
+							name: "Fazenda Boa Vista",
+							farmHarvests: [],
+							createdAt: new Date(),
+							updatedAt: new Date(),
+						},
+					},
+				],
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			} as unknown as Producer;
+
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[mockProducer], 1]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll({
+				fields: [ProducerField.Name],
+				include: [ProducerInclude.FarmCrops],
+			});
+
+			expect(Object.keys(result.data[0] ?? {})).toEqual(["id", "name", "farms"]);
+			expect(result.data[0]?.farms?.[0]).toMatchObject({
+				name: "Fazenda Boa Vista",
+				cropsByHarvest: [],
+			});
+			expect(result.data[0]?.farms?.[0]).not.toHaveProperty("owners");
+			expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith("ownership.farm", "farms");
+			expect(mockQueryBuilder.leftJoinAndSelect).toHaveBeenCalledWith(
+				"farmHarvests.crops",
+				"crops",
+			);
+			expect(mockQueryBuilder.leftJoinAndSelect).not.toHaveBeenCalledWith(
+				"farms.owners",
+				"farmOwner",
+			);
+		});
+
+		it("should leave the farms out unless included", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([
+				[
+					{
+						id: "550e8400-e29b-41d4-a716-446655440000",
+						name: "João da Silva",
+						document: "11144477735",
+					},
+				],
+				1,
+			]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findAll();
+
+			expect(result.data[0]).not.toHaveProperty("farms");
+			expect(mockQueryBuilder.leftJoinAndSelect).not.toHaveBeenCalled();
+		});
+
 		it("should return an empty array when no producers exist", async () => {
 			const mockQueryBuilder = createMockQueryBuilder();
 			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
@@ -237,6 +511,235 @@ describe("ProducersService", () => {
 
 			expect(result.data).toEqual([]);
 		});
+
+		it("should search every word of the name regardless of accents", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({ search: "Sao Joao" });
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(PRODUCER_SEARCH_CONDITION, {
+				search: '{name} : ("Sao"* AND "Joao"*)',
+			});
+		});
+
+		it("should also search the document when the search has digits", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({ search: "111.444.777-35" });
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(PRODUCER_SEARCH_CONDITION, {
+				search:
+					'{name} : ("111"* AND "444"* AND "777"* AND "35"*) OR {document} : ("11144477735"*)',
+			});
+		});
+
+		it("should ignore searches without words", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({ search: '"*' });
+
+			expect(mockQueryBuilder.andWhere).not.toHaveBeenCalled();
+		});
+
+		it("should filter by farm state, crop, document type and farm count", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({
+				operatingState: BrazilianState.MT,
+				crop: "soy",
+				documentType: DocumentType.CNPJ,
+				minFarmCount: 2,
+				maxFarmCount: 5,
+			});
+
+			const farmCount = PRODUCER_AGGREGATE_EXPRESSIONS[ProducerSortField.FarmCount];
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(OPERATES_IN_STATE_CONDITION, {
+				operatingState: BrazilianState.MT,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(GROWS_CROP_CONDITION, { crop: "soy" });
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				DOCUMENT_TYPE_CONDITIONS[DocumentType.CNPJ],
+			);
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(`${farmCount} >= :minFarmCount`, {
+				minFarmCount: 2,
+			});
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(`${farmCount} <= :maxFarmCount`, {
+				maxFarmCount: 5,
+			});
+		});
+
+		it("should sort by farm aggregates computed by the database", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getManyAndCount.mockResolvedValue([[], 0]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			await service.findAll({
+				sortBy: ProducerSortField.TotalArea,
+				sortOrder: SortOrder.Descending,
+			});
+
+			expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+				PRODUCER_AGGREGATE_EXPRESSIONS[ProducerSortField.TotalArea],
+				ProducerSortField.TotalArea,
+			);
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				ProducerSortField.TotalArea,
+				SortOrder.Descending,
+			);
+		});
+	});
+
+	describe("findAllByCursor", () => {
+		const createMockProducer = (id: string, name: string, createdAt: Date): Producer => ({
+			id,
+			name,
+			document: "11144477735",
+			farms: [],
+			farmOwnerships: [],
+			...withoutContactDetails,
+			createdAt,
+			updatedAt: createdAt,
+			deletedAt: null,
+			version: 1,
+		});
+
+		const mockProducers = [
+			createMockProducer(
+				"660e9500-f30c-52e5-b827-557766551111",
+				"Maria Santos",
+				new Date("2025-11-24T10:00:00Z"),
+			),
+			createMockProducer(
+				"550e8400-e29b-41d4-a716-446655440000",
+				"João da Silva",
+				new Date("2025-11-23T10:00:00Z"),
+			),
+		];
+
+		it("should page by creation date, encoding the date of the last producer", async () => {
+			const firstPageQueryBuilder = createMockQueryBuilder();
+			firstPageQueryBuilder.getMany.mockResolvedValue(mockProducers);
+			mockRepository.createQueryBuilder.mockReturnValue(firstPageQueryBuilder);
+
+			const query = { sortBy: ProducerSortField.CreatedAt, sortOrder: SortOrder.Descending };
+			const firstPage = await service.findAllByCursor({ ...query, cursor: "", limit: 1 });
+
+			expect(firstPage.data.map((producer) => producer.name)).toEqual(["Maria Santos"]);
+			expect(firstPageQueryBuilder.take).toHaveBeenCalledWith(2);
+			expect(firstPageQueryBuilder.andWhere).not.toHaveBeenCalled();
+
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue(mockProducers.slice(1));
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const secondPage = await service.findAllByCursor({
+				...query,
+				cursor: firstPage.nextCursor ?? "",
+				limit: 1,
+			});
+
+			expect(secondPage.data.map((producer) => producer.name)).toEqual(["João da Silva"]);
+			expect(secondPage.nextCursor).toBeNull();
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(expect.anything(), {
+				cursorValue: "2025-11-24T10:00:00.000Z",
+				cursorId: "660e9500-f30c-52e5-b827-557766551111",
+			});
+			expect(mockQueryBuilder.orderBy).toHaveBeenLastCalledWith(
+				"producer.createdAt",
+				SortOrder.Descending,
+			);
+		});
+
+		it("should page by farm count, reading the count of the last producer from the raw results", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getRawAndEntities.mockResolvedValue({
+				entities: mockProducers,
+				raw: [
+					{ producer_id: mockProducers[0]?.id, farmCount: 3 },
+					{ producer_id: mockProducers[1]?.id, farmCount: 1 },
+				],
+			});
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const query = { sortBy: ProducerSortField.FarmCount, sortOrder: SortOrder.Descending };
+			const page = await service.findAllByCursor({ ...query, cursor: "", limit: 1 });
+			const cursor = JSON.parse(
+				Buffer.from(page.nextCursor ?? "", "base64url").toString(),
+			) as Record<string, unknown>;
+
+			expect(cursor).toMatchObject({ value: 3, id: mockProducers[0]?.id });
+			expect(mockQueryBuilder.orderBy).toHaveBeenLastCalledWith(
+				ProducerSortField.FarmCount,
+				SortOrder.Descending,
+			);
+		});
+
+		it("should reject malformed cursors", async () => {
+			mockRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+
+			expect(service.findAllByCursor({ cursor: "bm90LWpzb24" })).rejects.toThrow(
+				BadRequestException,
+			);
+		});
+	});
+
+	describe("export", () => {
+		const { API__LOCALE } = env;
+
+		const mockProducer = {
+			id: "550e8400-e29b-41d4-a716-446655440000",
+			name: "João da Silva",
+			document: "11144477735",
+			farms: [],
+			farmOwnerships: [
+				{ farm: { name: "Fazenda Boa Vista", totalArea: 1200.5 } },
+				{ farm: { name: "Sítio Esperança", totalArea: "50.25" } },
+			],
+			createdAt: new Date("2025-11-24T10:00:00Z"),
+			updatedAt: new Date("2025-11-24T10:00:00Z"),
+			deletedAt: null,
+			version: 1,
+		} as unknown as Producer;
+
+		afterEach(() => {
+			env.API__LOCALE = API__LOCALE;
+		});
+
+		it("should write a CSV file formatted for the API locale", async () => {
+			env.API__LOCALE = SupportedLocale.Portuguese;
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getMany.mockResolvedValue([
+				mockProducer,
+				{ ...mockProducer, name: "Agro Ltda", document: "11222333000181", farmOwnerships: [] },
+			]);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			const output = new PassThrough();
+
+			const [, contents] = await Promise.all([
+				service.export({ format: ExportFormat.Csv, search: "Silva" }, output),
+				text(output),
+			]);
+			const [header, first, second] = contents.replace(/^\uFEFF/, "").split("\r\n");
+
+			expect(header).toBe("Nome;CPF/CNPJ;Fazendas;Área total (ha);Criado em");
+			expect(first).toStartWith(
+				"João da Silva;***.444.777-**;Fazenda Boa Vista, Sítio Esperança;1250,75;",
+			);
+			expect(second).toStartWith("Agro Ltda;11.222.333/0001-81;;0,00;");
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(PRODUCER_SEARCH_CONDITION, {
+				search: '{name} : ("Silva"*)',
+			});
+			expect(mockQueryBuilder.addOrderBy).toHaveBeenCalledWith("producer.id");
+		});
 	});
 
 	describe("findOne", () => {
@@ -245,8 +748,12 @@ describe("ProducersService", () => {
 			name: "João da Silva",
 			document: "11144477735",
 			farms: [],
+			farmOwnerships: [],
+			...withoutContactDetails,
 			createdAt: new Date(),
 			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
 		};
 
 		it("should return a producer by ID", async () => {
@@ -264,6 +771,40 @@ describe("ProducersService", () => {
 			});
 		});
 
+		it("should mask the CPF for users who may not reveal personal data", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue(mockProducer);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await currentUserStorage.run({ ...adminUser, role: UserRole.User }, () =>
+				service.findOne(mockProducer.id),
+			);
+
+			expect(result.document).toBe("***.444.777-**");
+		});
+
+		it("should reveal the CPF to admins", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue(mockProducer);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await currentUserStorage.run(adminUser, () =>
+				service.findOne(mockProducer.id),
+			);
+
+			expect(result.document).toBe("11144477735");
+		});
+
+		it("should not mask CNPJs", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({ ...mockProducer, document: "11222333000181" });
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			const result = await service.findOne(mockProducer.id);
+
+			expect(result.document).toBe("11222333000181");
+		});
+
 		it("should throw NotFoundException when producer does not exist", async () => {
 			const mockQueryBuilder = createMockQueryBuilder();
 			mockQueryBuilder.getOne.mockResolvedValue(null);
@@ -273,14 +814,86 @@ describe("ProducersService", () => {
 		});
 	});
 
+	describe("exportPersonalData", () => {
+		const mockProducer: Producer = {
+			id: "550e8400-e29b-41d4-a716-446655440000",
+			name: "João da Silva",
+			document: "11144477735",
+			farms: [],
+			farmOwnerships: [],
+			...withoutContactDetails,
+			email: "joao.silva@example.com",
+			createdAt: new Date(),
+			updatedAt: new Date(),
+			deletedAt: new Date(),
+			version: 1,
+		};
+
+		it("should export the unmasked producer, their farm transfers and change history", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue(mockProducer);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			mockOwnershipHistoryRepository.find.mockResolvedValue([
+				{
+					id: "8f1e2d3c-4b5a-4c6d-9e8f-7a6b5c4d3e2f",
+					farmId: "770e9600-g40d-63f6-c938-668877662222",
+					farm: { name: "Fazenda Boa Vista" },
+					previousProducerId: mockProducer.id,
+					previousProducer: mockProducer,
+					newProducerId: null,
+					newProducer: null,
+					effectiveDate: "2025-07-01",
+					reason: "Sale of the property",
+					createdAt: new Date("2025-07-01T10:00:00Z"),
+				},
+			]);
+			mockAuditService.findAllByEntity.mockResolvedValue([{ id: "audit-1" }]);
+
+			const result = await service.exportPersonalData(mockProducer.id);
+
+			expect(mockQueryBuilder.withDeleted).toHaveBeenCalled();
+			expect(result.producer.document).toBe("11144477735");
+			expect(result.producer.email).toBe("joao.silva@example.com");
+			expect(result.ownershipHistory).toEqual([
+				expect.objectContaining({
+					farmName: "Fazenda Boa Vista",
+					previousProducerName: "João da Silva",
+					newProducerName: null,
+				}),
+			]);
+			expect(mockOwnershipHistoryRepository.find).toHaveBeenCalledWith(
+				expect.objectContaining({
+					where: [{ previousProducerId: mockProducer.id }, { newProducerId: mockProducer.id }],
+				}),
+			);
+			expect(result.auditLogs).toEqual([{ id: "audit-1" }] as never);
+			expect(mockAuditService.findAllByEntity).toHaveBeenCalledWith(
+				AuditEntityType.Producer,
+				mockProducer.id,
+			);
+		});
+
+		it("should throw NotFoundException when producer does not exist", async () => {
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue(null);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+
+			expect(service.exportPersonalData("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
+	});
+
 	describe("update", () => {
 		const mockProducer: Producer = {
 			id: "550e8400-e29b-41d4-a716-446655440000",
 			name: "João da Silva",
 			document: "11144477735",
 			farms: [],
+			farmOwnerships: [],
+			...withoutContactDetails,
 			createdAt: new Date(),
 			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
 		};
 
 		it("should update producer name", async () => {
@@ -288,12 +901,12 @@ describe("ProducersService", () => {
 			const updatedProducer = { ...mockProducer, name: updateDto.name };
 
 			mockRepository.findOne.mockResolvedValue(mockProducer);
-			mockRepository.save.mockResolvedValue(updatedProducer);
+			mockEntityManager.save.mockResolvedValue(updatedProducer);
 
 			const result = await service.update(mockProducer.id, updateDto);
 
 			expect(result.name).toBe("João Silva Santos");
-			expect(mockRepository.save).toHaveBeenCalled();
+			expect(mockEntityManager.save).toHaveBeenCalled();
 		});
 
 		it("should update producer document with valid CPF", async () => {
@@ -305,19 +918,81 @@ describe("ProducersService", () => {
 			};
 
 			mockRepository.findOne.mockResolvedValueOnce(mockProducer).mockResolvedValueOnce(null);
-			mockRepository.save.mockResolvedValue(updatedProducer);
+			mockEntityManager.save.mockResolvedValue(updatedProducer);
 
-			const result = await service.update(mockProducer.id, updateDto);
+			const result = await currentUserStorage.run(adminUser, () =>
+				service.update(mockProducer.id, updateDto),
+			);
 
 			expect(result.document).toBe(newProducer.document.replaceAll(/\D/g, ""));
 		});
 
+		it("should clear the address and keep the phones not sent", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				...mockProducer,
+				phones: ["11987654321"],
+				postalCode: "13010111",
+				street: "Rua Barão de Jaguara",
+				streetNumber: "1000",
+				district: "Centro",
+				city: "Campinas",
+				state: BrazilianState.SP,
+			});
+			mockEntityManager.save.mockImplementation((_target: unknown, producer: Producer) =>
+				Promise.resolve(producer),
+			);
+
+			const result = await service.update(mockProducer.id, { address: null, email: null });
+
+			expect(result.address).toBeNull();
+			expect(result.email).toBeNull();
+			expect(result.phones).toEqual(["11987654321"]);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(
+				Producer,
+				expect.objectContaining({ postalCode: null, city: null, state: null }),
+			);
+		});
+
+		it("should replace the state registrations without formatting", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				...mockProducer,
+				stateRegistrations: [{ state: BrazilianState.MG, number: "0623079040081" }],
+			});
+			mockEntityManager.save.mockImplementation((_target: unknown, producer: Producer) =>
+				Promise.resolve(producer),
+			);
+
+			const result = await service.update(mockProducer.id, {
+				stateRegistrations: [
+					{ state: BrazilianState.SP, number: "p-01100424.3/002" },
+					{ state: BrazilianState.GO, number: "10.987.654-7" },
+				],
+			});
+
+			expect(result.stateRegistrations).toEqual([
+				{ state: BrazilianState.SP, number: "P011004243002" },
+				{ state: BrazilianState.GO, number: "109876547" },
+			]);
+		});
+
+		it("should keep the state registrations not sent", async () => {
+			const stateRegistrations = [{ state: BrazilianState.MG, number: "0623079040081" }];
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer, stateRegistrations });
+			mockEntityManager.save.mockImplementation((_target: unknown, producer: Producer) =>
+				Promise.resolve(producer),
+			);
+
+			const result = await service.update(mockProducer.id, { name: "João Silva Santos" });
+
+			expect(result.stateRegistrations).toEqual(stateRegistrations);
+		});
+
 		it("should throw NotFoundException when producer does not exist", async () => {
 			const updateDto: UpdateProducerDto = { name: "New Name" };
 			mockRepository.findOne.mockResolvedValue(null);
 
 			expect(service.update("nonexistent-id", updateDto)).rejects.toThrow(NotFoundException);
-			expect(mockRepository.save).not.toHaveBeenCalled();
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 
 		it("should throw BadRequestException for invalid document", async () => {
@@ -325,7 +1000,7 @@ describe("ProducersService", () => {
 			mockRepository.findOne.mockResolvedValue(mockProducer);
 
 			expect(service.update(mockProducer.id, updateDto)).rejects.toThrow(BadRequestException);
-			expect(mockRepository.save).not.toHaveBeenCalled();
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 
 		it("should throw ConflictException when document is already in use", async () => {
@@ -351,23 +1026,303 @@ describe("ProducersService", () => {
 			);
 
 			expect(service.update(mockProducer.id, updateDto)).rejects.toThrow(ConflictException);
-			expect(mockRepository.save).not.toHaveBeenCalled();
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should update producer when If-Match lists the current version", async () => {
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer, version: 3 });
+			mockEntityManager.save.mockResolvedValue({ ...mockProducer, version: 4 });
+			mockEntityManager.exists.mockResolvedValue(true);
+
+			const result = await service.update(mockProducer.id, { name: "João Silva Santos" }, [2, 3]);
+
+			expect(result.version).toBe(4);
+			expect(mockEntityManager.save.mock.calls[0]?.[1]).not.toHaveProperty("version");
+		});
+
+		it("should throw PreconditionFailedException when the producer was written in the meantime", async () => {
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer, version: 3 });
+			mockEntityManager.save.mockResolvedValue({ ...mockProducer, version: 5 });
+			mockEntityManager.exists.mockResolvedValue(false);
+
+			await expect(
+				service.update(mockProducer.id, { name: "João Silva Santos" }, [3]),
+			).rejects.toThrow(PreconditionFailedException);
+			expect(mockEntityManager.exists).toHaveBeenCalledWith(Producer, {
+				where: { id: mockProducer.id, version: In([3, 4]) },
+				withDeleted: true,
+			});
+		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer, version: 3 });
+
+			expect(service.update(mockProducer.id, { name: "João Silva Santos" }, [2])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
 		});
 	});
 
 	describe("delete", () => {
-		it("should delete a producer", async () => {
-			mockRepository.delete.mockResolvedValue({ affected: 1, raw: {} });
+		it("should move a producer and their farms to the trash with the same timestamp", async () => {
+			mockRepository.findOne.mockResolvedValue({ id: TestConstants.NON_EXISTENT_UUID, version: 1 });
+			mockEntityManager.find.mockResolvedValue([{ id: "farm-1" }, { id: "farm-2" }]);
 
 			await service.delete(TestConstants.NON_EXISTENT_UUID);
 
-			expect(mockRepository.delete).toHaveBeenCalledWith("550e8400-e29b-41d4-a716-446655440000");
+			const [farmsCall, producerCall] = mockEntityManager.save.mock.calls;
+			const deletedAt = producerCall?.[1].deletedAt;
+			expect(mockEntityManager.find).toHaveBeenCalledWith(Farm, {
+				where: { producerId: TestConstants.NON_EXISTENT_UUID },
+				select: { id: true },
+			});
+			expect(farmsCall?.[0]).toBe(Farm);
+			expect(farmsCall?.[1]).toEqual([
+				{ id: "farm-1", deletedAt },
+				{ id: "farm-2", deletedAt },
+			]);
+			expect(producerCall?.[0]).toBe(Producer);
+			expect(producerCall?.[1].id).toBe(TestConstants.NON_EXISTENT_UUID);
+			expect(deletedAt).toBeInstanceOf(Date);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+
+		it("should throw PreconditionFailedException when the producer was written in the meantime", async () => {
+			mockRepository.findOne.mockResolvedValue({ id: TestConstants.NON_EXISTENT_UUID, version: 1 });
+			mockEntityManager.find.mockResolvedValue([]);
+			mockEntityManager.exists.mockResolvedValue(false);
+
+			await expect(service.delete(TestConstants.NON_EXISTENT_UUID, [1])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+		});
+
+		it("should throw ConflictException when producer owns farms shared with other producers", async () => {
+			mockRepository.findOne.mockResolvedValue({ id: TestConstants.NON_EXISTENT_UUID, version: 1 });
+			mockRepository.manager.exists.mockResolvedValue(true);
+
+			await expect(service.delete(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(
+				ConflictException,
+			);
+			expect(mockRepository.manager.exists).toHaveBeenCalledWith(FarmOwner, {
+				where: {
+					farm: { producerId: TestConstants.NON_EXISTENT_UUID },
+					producerId: Not(TestConstants.NON_EXISTENT_UUID),
+				},
+			});
+			expect(mockRepository.manager.transaction).not.toHaveBeenCalled();
 		});
 
 		it("should throw NotFoundException when producer does not exist", async () => {
-			mockRepository.delete.mockResolvedValue({ affected: 0, raw: {} });
+			mockRepository.findOne.mockResolvedValue(null);
 
 			expect(service.delete("nonexistent-id")).rejects.toThrow(NotFoundException);
 		});
+
+		it("should throw PreconditionFailedException when If-Match lists a stale version", async () => {
+			mockRepository.findOne.mockResolvedValue({ id: TestConstants.NON_EXISTENT_UUID, version: 2 });
+
+			expect(service.delete(TestConstants.NON_EXISTENT_UUID, [1])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockRepository.manager.transaction).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("restore", () => {
+		it("should restore a producer and the farms deleted with them", async () => {
+			const deletedAt = new Date("2025-11-24T10:00:00Z");
+			const mockProducer = {
+				id: TestConstants.NON_EXISTENT_UUID,
+				name: "João da Silva",
+				document: "11144477735",
+				farms: [],
+				farmOwnerships: [],
+				...withoutContactDetails,
+				createdAt: new Date(),
+				updatedAt: new Date(),
+				deletedAt,
+				version: 2,
+			};
+			const mockQueryBuilder = createMockQueryBuilder();
+			mockQueryBuilder.getOne.mockResolvedValue({ ...mockProducer, deletedAt: null });
+			mockRepository.findOne.mockResolvedValue(mockProducer);
+			mockRepository.createQueryBuilder.mockReturnValue(mockQueryBuilder);
+			mockEntityManager.find.mockResolvedValue([{ id: "farm-1" }]);
+
+			const result = await service.restore(TestConstants.NON_EXISTENT_UUID);
+
+			expect(mockRepository.findOne).toHaveBeenCalledWith({
+				where: { id: TestConstants.NON_EXISTENT_UUID },
+				withDeleted: true,
+			});
+			expect(mockEntityManager.find).toHaveBeenCalledWith(Farm, {
+				where: { producerId: TestConstants.NON_EXISTENT_UUID, deletedAt },
+				select: { id: true },
+				withDeleted: true,
+			});
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Farm, [
+				{ id: "farm-1", deletedAt: null },
+			]);
+			expect(mockEntityManager.save).toHaveBeenCalledWith(Producer, {
+				id: TestConstants.NON_EXISTENT_UUID,
+				deletedAt: null,
+			});
+			expect(result.id).toBe(TestConstants.NON_EXISTENT_UUID);
+		});
+
+		it("should throw BadRequestException when producer is not in the trash", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				id: TestConstants.NON_EXISTENT_UUID,
+				deletedAt: null,
+			});
+
+			expect(service.restore(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(BadRequestException);
+		});
+
+		it("should throw NotFoundException when producer does not exist", async () => {
+			mockRepository.findOne.mockResolvedValue(null);
+
+			expect(service.restore("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("purge", () => {
+		it("should permanently delete a producer in the trash", async () => {
+			const mockProducer = { id: TestConstants.NON_EXISTENT_UUID, deletedAt: new Date() };
+			mockRepository.findOne.mockResolvedValue(mockProducer);
+			mockRepository.manager.count.mockResolvedValue(0);
+
+			await service.purge(TestConstants.NON_EXISTENT_UUID);
+
+			expect(mockEntityManager.remove).toHaveBeenCalledWith(mockProducer);
+		});
+
+		it("should claim the producer at the expected version before deleting it", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				id: TestConstants.NON_EXISTENT_UUID,
+				deletedAt: new Date(),
+				version: 2,
+			});
+			mockRepository.manager.count.mockResolvedValue(0);
+			mockEntityManager.increment.mockResolvedValue({ affected: 0 });
+
+			await expect(service.purge(TestConstants.NON_EXISTENT_UUID, [2])).rejects.toThrow(
+				PreconditionFailedException,
+			);
+			expect(mockEntityManager.increment).toHaveBeenCalledWith(
+				Producer,
+				{ id: TestConstants.NON_EXISTENT_UUID, version: In([2]) },
+				"version",
+				1,
+			);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+
+		it("should throw ConflictException when producer shares farms of other producers", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				id: TestConstants.NON_EXISTENT_UUID,
+				deletedAt: new Date(),
+			});
+			mockRepository.manager.count.mockResolvedValue(1);
+
+			await expect(service.purge(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(
+				ConflictException,
+			);
+			expect(mockRepository.manager.count).toHaveBeenCalledWith(FarmOwner, {
+				where: {
+					producerId: TestConstants.NON_EXISTENT_UUID,
+					farm: { producerId: Not(TestConstants.NON_EXISTENT_UUID) },
+				},
+				withDeleted: true,
+			});
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+
+		it("should throw BadRequestException when producer is not in the trash", async () => {
+			mockRepository.findOne.mockResolvedValue({
+				id: TestConstants.NON_EXISTENT_UUID,
+				deletedAt: null,
+			});
+
+			expect(service.purge(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(BadRequestException);
+			expect(mockEntityManager.remove).not.toHaveBeenCalled();
+		});
+	});
+	describe("anonymize", () => {
+		const { API__LOCALE } = env;
+
+		const mockProducer = (): Producer => ({
+			id: TestConstants.NON_EXISTENT_UUID,
+			name: "João da Silva",
+			document: "11144477735",
+			farms: [],
+			farmOwnerships: [],
+			...withoutContactDetails,
+			email: "joao.silva@example.com",
+			phones: ["11987654321"],
+			postalCode: "13010111",
+			street: "Rua Barão de Jaguara",
+			streetNumber: "1000",
+			district: "Centro",
+			city: "Campinas",
+			state: BrazilianState.SP,
+			stateRegistrations: [{ state: BrazilianState.SP, number: "110042490114" }],
+			createdAt: new Date(),
+			updatedAt: new Date(),
+			deletedAt: null,
+			version: 1,
+		});
+
+		afterEach(() => {
+			env.API__LOCALE = API__LOCALE;
+		});
+
+		it("should remove the personal data of the producer and its audit log", async () => {
+			env.API__LOCALE = SupportedLocale.English;
+			mockRepository.findOne.mockResolvedValue(mockProducer());
+
+			await service.anonymize(TestConstants.NON_EXISTENT_UUID);
+
+			const saved = mockEntityManager.save.mock.calls[0]?.[1] as Producer;
+
+			expect(mockEntityManager.save.mock.calls[0]?.[0]).toBe(Producer);
+			expect(saved).toMatchObject({
+				name: "Anonymized producer",
+				email: null,
+				phones: [],
+				postalCode: null,
+				street: null,
+				streetNumber: null,
+				district: null,
+				city: null,
+				state: null,
+				stateRegistrations: [],
+			});
+			expect(saved.document).toMatch(/^\*[0-9a-f]{13}$/);
+			expect(saved.anonymizedAt).toBeInstanceOf(Date);
+			expect(mockAuditService.eraseFields).toHaveBeenCalledWith(
+				mockEntityManager,
+				AuditEntityType.Producer,
+				TestConstants.NON_EXISTENT_UUID,
+				expect.arrayContaining(["name", "document", "email", "phones", "stateRegistrations"]),
+			);
+		});
+
+		it("should throw BadRequestException when producer is already anonymized", async () => {
+			mockRepository.findOne.mockResolvedValue({ ...mockProducer(), anonymizedAt: new Date() });
+
+			expect(service.anonymize(TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(
+				BadRequestException,
+			);
+			expect(mockEntityManager.save).not.toHaveBeenCalled();
+		});
+
+		it("should throw NotFoundException when producer does not exist", async () => {
+			mockRepository.findOne.mockResolvedValue(null);
+
+			expect(service.anonymize("nonexistent-id")).rejects.toThrow(NotFoundException);
+		});
 	});
 });
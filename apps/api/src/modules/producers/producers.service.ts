@@ -1,3 +1,5 @@
+import { randomUUID } from "node:crypto";
+
 import {
 	BadRequestException,
 	ConflictException,
@@ -6,37 +8,86 @@ import {
 } from "@nestjs/common";
 import { InjectRepository } from "@nestjs/typeorm";
 import { InjectPinoLogger } from "nestjs-pino";
-import { Repository } from "typeorm";
+import { IsNull, Not, Repository } from "typeorm";
 
 import type { PinoLogger } from "nestjs-pino";
+import type { Writable } from "node:stream";
+import type { SelectQueryBuilder } from "typeorm";
+
+import type { BrazilianState } from "@agro/shared/enums";
+import type {
+	CursorPaginatedResponse,
+	Farm as FarmType,
+	HarvestCrops,
+	PaginatedResponse,
+} from "@agro/shared/types";
 
-import type { BrazilianState, CropType } from "@agro/shared/enums";
-import type { Farm as FarmType, PaginatedResponse } from "@agro/shared/types";
+import type { IfMatchVersions, SparseFieldset } from "@/common";
 
-import { ProducerSortField, SortOrder } from "@agro/shared/enums";
 import {
-	stripCNPJFormatting,
-	stripCPFFormatting,
+	AuditEntityType,
+	Permission,
+	ProducerInclude,
+	ProducerSortField,
+	SortOrder,
+} from "@agro/shared/enums";
+import {
+	formatDocument,
+	isCPFDocument,
+	maskDocument,
+	stripCEPFormatting,
+	stripDocumentFormatting,
+	stripInscricaoEstadualFormatting,
+	stripPhoneFormatting,
 	validateCNPJ,
 	validateCPF,
 } from "@agro/shared/validators";
 
-import { Farm } from "@/modules/farms/entities";
+import {
+	assertNoConcurrentWrite,
+	assertVersionMatches,
+	claimVersion,
+	currentUserHasPermission,
+	EXPORT_BATCH_SIZE,
+	paginateByCursor,
+	pickFields,
+	PRODUCER_SEARCH_CONDITION,
+	toProducerFullTextQuery,
+	writeSpreadsheet,
+} from "@/common";
+import { env } from "@/config/env.config";
+import { AuditService } from "@/modules/audit/audit.service";
+import { Farm, FarmOwner, FarmOwnershipHistory } from "@/modules/farms/entities";
 
 import {
 	CreateProducerDto,
+	DeletedProducerResponseDto,
+	ExportProducersDto,
 	FindAllProducersDto,
+	ProducerPersonalDataResponseDto,
 	ProducerResponseDto,
 	UpdateProducerDto,
 } from "./dto";
 import { Producer } from "./entities/producer.entity";
+import {
+	ACTIVE_FARM_OWNERSHIP_CONDITION,
+	ANONYMIZED_PRODUCER_NAME,
+	DOCUMENT_TYPE_CONDITIONS,
+	GROWS_CROP_CONDITION,
+	OPERATES_IN_STATE_CONDITION,
+	PRODUCER_AGGREGATE_EXPRESSIONS,
+	PRODUCER_EXPORT_HEADERS,
+	PRODUCER_EXPORT_SHEET_NAME,
+	PRODUCER_PERSONAL_DATA_PROPERTIES,
+} from "./producers.constants";
 
 /**
  * Service responsible for producer business logic and data operations.
  *
  * Handles CRUD operations for rural producers with comprehensive validation
- * of Brazilian documents (CPF/CNPJ). Uses TypeORM's Data Mapper pattern
- * with repository injection for database access.
+ * of Brazilian documents (CPF/CNPJ), and the data subject requests of the LGPD.
+ * CPFs are masked in responses unless the current user may reveal personal data.
+ * Uses TypeORM's Data Mapper pattern with repository injection for database access.
  *
  * @example
  * ```typescript
@@ -54,11 +105,18 @@ export class ProducersService {
 	 * Creates an instance of ProducersService.
 	 *
 	 * @param producerRepository TypeORM repository for Producer entity
+	 * @param ownershipHistoryRepository TypeORM repository for FarmOwnershipHistory entity
+	 * @param auditService Service reading and erasing the audit log of producers
 	 */
 	constructor(
 		@InjectRepository(Producer)
 		private readonly producerRepository: Repository<Producer>,
 
+		@InjectRepository(FarmOwnershipHistory)
+		private readonly ownershipHistoryRepository: Repository<FarmOwnershipHistory>,
+
+		private readonly auditService: AuditService,
+
 		@InjectPinoLogger(ProducersService.name)
 		private readonly logger: PinoLogger,
 	) {}
@@ -96,6 +154,8 @@ export class ProducersService {
 		const producer = this.producerRepository.create({
 			name,
 			document: strippedDocument,
+			...this.mapContactDetails(createProducerDto),
+			...this.mapStateRegistrations(createProducerDto.stateRegistrations),
 		});
 
 		const savedProducer = await this.producerRepository.save(producer);
@@ -106,12 +166,16 @@ export class ProducersService {
 	}
 
 	/**
-	 * Retrieves all producers with pagination, sorting, and search.
+	 * Retrieves all producers with pagination, sorting, filtering, and search.
 	 *
-	 * Supports filtering by name search with configurable sorting and pagination.
-	 * Uses TypeORM QueryBuilder for efficient database queries.
+	 * Supports filtering by name search, farm states and crops, document type
+	 * and farm count, with configurable sorting and pagination. Farm counts and
+	 * total areas are computed by the database, so sorting by them does not
+	 * load every farm. Farms are only joined when included, so the producers
+	 * are otherwise paged and counted without joined rows, and responses are
+	 * limited to the requested fields.
 	 *
-	 * @param query Query parameters for pagination, sorting, and search
+	 * @param query Query parameters for pagination, sorting, search, fields and includes
 	 *
 	 * @returns Paginated response with producers and metadata
 	 *
@@ -122,33 +186,30 @@ export class ProducersService {
 	 *   limit: 10,
 	 *   sortBy: ProducerSortField.Name,
 	 *   sortOrder: SortOrder.Ascending,
-	 *   search: "Silva"
+	 *   search: "Silva",
+	 *   include: [ProducerInclude.Farms]
 	 * });
 	 * console.log(`Found ${result.total} producers`);
 	 * ```
 	 */
 	public async findAll(
 		query: FindAllProducersDto = {},
-	): Promise<PaginatedResponse<ProducerResponseDto>> {
+	): Promise<PaginatedResponse<SparseFieldset<ProducerResponseDto>>> {
 		const {
 			page = 1,
 			limit = 10,
 			sortBy = ProducerSortField.Name,
-			sortOrder = SortOrder.Ascending,
 			search,
+			fields,
+			include = [],
 		} = query;
 
-		this.logger.debug({ page, limit, search, sortBy }, "Fetching producers");
-
-		const qb = this.producerRepository
-			.createQueryBuilder("producer")
-			.leftJoinAndSelect("producer.farms", "farms")
-			.leftJoinAndSelect("farms.farmHarvests", "farmHarvests")
-			.leftJoinAndSelect("farmHarvests.crops", "crops");
-
-		if (search) qb.andWhere("producer.name LIKE :search", { search: `%${search}%` });
+		this.logger.debug(
+			{ page, limit, searchLength: search?.length, sortBy, include },
+			"Fetching producers",
+		);
 
-		qb.orderBy(`producer.${sortBy}`, sortOrder as SortOrder);
+		const qb = this.createFindAllQuery(query, include);
 
 		const skip = (page - 1) * limit;
 		qb.skip(skip).take(limit);
@@ -166,7 +227,9 @@ export class ProducersService {
 		);
 
 		return {
-			data: producers.map((producer) => this.mapToResponseDto(producer)),
+			data: producers.map((producer) =>
+				pickFields(this.mapToResponseDto(producer, { include }), fields, ["farms"]),
+			),
 			page,
 			limit,
 			total,
@@ -174,6 +237,112 @@ export class ProducersService {
 		};
 	}
 
+	/**
+	 * Retrieves a page of producers after a cursor, sorted and searched like {@link findAll}.
+	 *
+	 * Reads the page right after the last producer of the previous one instead
+	 * of skipping rows, and does not count the total. Included farms do not
+	 * count towards the limit.
+	 *
+	 * @param query Query parameters for the cursor, page size, sorting, search, fields and includes
+	 *
+	 * @returns Producers of the page, with the cursor of the next page
+	 *
+	 * @throws {BadRequestException} If the cursor is invalid or was issued for another sort
+	 *
+	 * @example
+	 * ```typescript
+	 * const first = await service.findAllByCursor({ cursor: "", limit: 20 });
+	 * const second = await service.findAllByCursor({ cursor: first.nextCursor ?? "", limit: 20 });
+	 * ```
+	 */
+	public async findAllByCursor(
+		query: FindAllProducersDto = {},
+	): Promise<CursorPaginatedResponse<SparseFieldset<ProducerResponseDto>>> {
+		const {
+			cursor,
+			limit = 10,
+			sortBy = ProducerSortField.Name,
+			sortOrder = SortOrder.Ascending,
+			search,
+			fields,
+			include = [],
+		} = query;
+
+		this.logger.debug(
+			{ cursor, limit, searchLength: search?.length, sortBy, include },
+			"Fetching producers by cursor",
+		);
+
+		const qb = this.createFindAllQuery(query, include);
+		const { items, nextCursor } = await paginateByCursor(qb, {
+			alias: "producer",
+			sortBy,
+			sortExpression: this.getAggregateExpression(sortBy),
+			sortOrder: sortOrder as SortOrder,
+			cursor,
+			limit,
+		});
+
+		return {
+			data: items.map((producer) =>
+				pickFields(this.mapToResponseDto(producer, { include }), fields, ["farms"]),
+			),
+			limit,
+			nextCursor,
+		};
+	}
+
+	/**
+	 * Exports every producer matching the list filters as a CSV or XLSX file.
+	 *
+	 * Producers are read in batches and written to the stream as they are read,
+	 * so large exports do not have to fit in memory. Numbers and dates are
+	 * formatted for the `API__LOCALE` locale, as are the spreadsheet headers.
+	 *
+	 * @param query List filters and sorting, plus the file format; pagination is ignored
+	 * @param output Stream receiving the file, ended once the file is complete
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.export({ format: ExportFormat.Csv, search: "Silva" }, response);
+	 * ```
+	 */
+	public async export(query: ExportProducersDto, output: Writable): Promise<void> {
+		const { format } = query;
+
+		this.logger.debug({ format, query }, "Exporting producers");
+
+		const headers = PRODUCER_EXPORT_HEADERS[env.API__LOCALE];
+
+		await writeSpreadsheet<Producer>(output, {
+			format,
+			sheetName: PRODUCER_EXPORT_SHEET_NAME[env.API__LOCALE],
+			locale: env.API__LOCALE,
+			rows: this.findAllInBatches(query),
+			columns: [
+				{ header: headers.name, value: (producer) => producer.name },
+				{
+					header: headers.document,
+					value: (producer) => formatDocument(this.presentDocument(producer.document)),
+				},
+				{
+					header: headers.farms,
+					value: (producer) => producer.farmOwnerships.map(({ farm }) => farm.name).join(", "),
+				},
+				{
+					header: headers.totalArea,
+					value: (producer) =>
+						producer.farmOwnerships.reduce((sum, { farm }) => sum + Number(farm.totalArea), 0),
+					decimals: 2,
+				},
+				{ header: headers.createdAt, value: (producer) => producer.createdAt },
+			],
+		});
+
+		this.logger.info({ format }, "Producers exported successfully");
+	}
+
 	/**
 	 * Retrieves a single producer by ID.
 	 *
@@ -191,13 +360,7 @@ export class ProducersService {
 	public async findOne(id: string): Promise<ProducerResponseDto> {
 		this.logger.debug({ producerId: id }, "Fetching producer by ID");
 
-		const producer = await this.producerRepository
-			.createQueryBuilder("producer")
-			.leftJoinAndSelect("producer.farms", "farms")
-			.leftJoinAndSelect("farms.farmHarvests", "farmHarvests")
-			.leftJoinAndSelect("farmHarvests.crops", "crops")
-			.where("producer.id = :id", { id })
-			.getOne();
+		const producer = await this.createFindOneQuery(id).getOne();
 
 		if (!producer) {
 			this.logger.warn({ producerId: id }, "Producer not found");
@@ -209,6 +372,112 @@ export class ProducersService {
 		return this.mapToResponseDto(producer);
 	}
 
+	/**
+	 * Exports everything held about a producer, on a data subject request.
+	 *
+	 * Includes producers in the trash. Documents are never masked in the export.
+	 *
+	 * @param id The UUID of the producer
+	 *
+	 * @returns The producer with their farms, the transfers of farms to or from
+	 * them, and their audit log entries
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 *
+	 * @example
+	 * ```typescript
+	 * const data = await service.exportPersonalData("550e8400-e29b-41d4-a716-446655440000");
+	 * ```
+	 */
+	public async exportPersonalData(id: string): Promise<ProducerPersonalDataResponseDto> {
+		this.logger.debug({ producerId: id }, "Exporting producer personal data");
+
+		const producer = await this.createFindOneQuery(id).withDeleted().getOne();
+
+		if (!producer) {
+			this.logger.warn({ producerId: id }, "Producer not found for personal data export");
+			throw new NotFoundException(`Producer with ID ${id} not found`);
+		}
+
+		const ownershipHistory = await this.ownershipHistoryRepository.find({
+			where: [{ previousProducerId: id }, { newProducerId: id }],
+			relations: { farm: true, previousProducer: true, newProducer: true },
+			order: { effectiveDate: SortOrder.Descending, createdAt: SortOrder.Descending },
+			withDeleted: true,
+		});
+		const auditLogs = await this.auditService.findAllByEntity(AuditEntityType.Producer, id);
+
+		this.logger.info({ producerId: id }, "Producer personal data exported successfully");
+
+		return {
+			producer: this.mapToResponseDto(producer, { revealDocument: true }),
+			ownershipHistory: ownershipHistory.map((entry) => ({
+				id: entry.id,
+				farmId: entry.farmId,
+				farmName: entry.farm.name,
+				previousProducerId: entry.previousProducerId,
+				previousProducerName: entry.previousProducer?.name ?? null,
+				newProducerId: entry.newProducerId,
+				newProducerName: entry.newProducer?.name ?? null,
+				effectiveDate: entry.effectiveDate,
+				reason: entry.reason,
+				createdAt: entry.createdAt,
+			})),
+			auditLogs,
+			exportedAt: new Date(),
+		};
+	}
+
+	/**
+	 * Removes the personal data of a producer, on a data subject request.
+	 *
+	 * The name is replaced by a placeholder and the document by a unique masked
+	 * placeholder, while the contact details, address and state registrations
+	 * are cleared. Their values are erased from the producer's audit log as
+	 * well. The producer keeps their farms, so farm statistics are unchanged.
+	 * Producers in the trash can be anonymized too.
+	 *
+	 * @param id The UUID of the producer to anonymize
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {BadRequestException} If the producer is already anonymized
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.anonymize("550e8400-e29b-41d4-a716-446655440000");
+	 * ```
+	 */
+	public async anonymize(id: string): Promise<void> {
+		this.logger.debug({ producerId: id }, "Anonymizing producer");
+
+		const producer = await this.findWithDeleted(id);
+
+		if (producer.anonymizedAt) {
+			throw new BadRequestException(`Producer with ID ${id} is already anonymized`);
+		}
+
+		Object.assign(producer, {
+			name: ANONYMIZED_PRODUCER_NAME[env.API__LOCALE],
+			// Documents are unique, and masked ones are never mistaken for a CPF or CNPJ
+			document: `*${randomUUID().replaceAll("-", "").slice(0, 13)}`,
+			...this.mapContactDetails({ email: null, phones: [], address: null }),
+			stateRegistrations: [],
+			anonymizedAt: new Date(),
+		});
+
+		await this.producerRepository.manager.transaction(async (manager) => {
+			await manager.save(Producer, producer);
+			await this.auditService.eraseFields(
+				manager,
+				AuditEntityType.Producer,
+				id,
+				PRODUCER_PERSONAL_DATA_PROPERTIES,
+			);
+		});
+
+		this.logger.info({ producerId: id }, "Producer anonymized successfully");
+	}
+
 	/**
 	 * Updates an existing producer.
 	 *
@@ -218,10 +487,12 @@ export class ProducersService {
 	 *
 	 * @param id The UUID of the producer to update
 	 * @param updateProducerDto The fields to update
+	 * @param ifMatch Versions the client expects the producer to be at, from the `If-Match` header
 	 *
 	 * @returns The updated producer
 	 *
 	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {PreconditionFailedException} If the producer is not at any of the expected versions
 	 * @throws {BadRequestException} If the new document format is invalid
 	 * @throws {ConflictException} If the new document is already in use
 	 *
@@ -236,6 +507,7 @@ export class ProducersService {
 	public async update(
 		id: string,
 		updateProducerDto: UpdateProducerDto,
+		ifMatch?: IfMatchVersions,
 	): Promise<ProducerResponseDto> {
 		this.logger.debug(
 			{ producerId: id, updates: Object.keys(updateProducerDto) },
@@ -249,6 +521,8 @@ export class ProducersService {
 			throw new NotFoundException(`Producer with ID ${id} not found`);
 		}
 
+		assertVersionMatches(`Producer with ID ${id}`, producer.version, ifMatch);
+
 		if (updateProducerDto.document) {
 			this.logger.debug({ producerId: id }, "Validating new document");
 			const strippedDocument = this.validateAndStripDocument(updateProducerDto.document);
@@ -259,8 +533,29 @@ export class ProducersService {
 			}
 		}
 
-		Object.assign(producer, updateProducerDto);
-		const updatedProducer = await this.producerRepository.save(producer);
+		const { email, phones, address, stateRegistrations, ...fields } = updateProducerDto;
+
+		Object.assign(
+			producer,
+			fields,
+			this.mapContactDetails({ email, phones, address }),
+			this.mapStateRegistrations(stateRegistrations),
+		);
+		const updatedProducer = await this.producerRepository.manager.transaction(async (manager) => {
+			// Leaves the loaded version out, so a concurrent write is never overwritten with it
+			const { version, ...changes } = producer;
+
+			Object.assign(producer, await manager.save(Producer, changes));
+			await assertNoConcurrentWrite(
+				`Producer with ID ${id}`,
+				manager,
+				Producer,
+				{ id, version },
+				ifMatch,
+			);
+
+			return producer;
+		});
 
 		this.logger.info(
 			{ producerId: updatedProducer.id, name: updatedProducer.name },
@@ -271,36 +566,193 @@ export class ProducersService {
 	}
 
 	/**
-	 * Deletes a producer by ID.
+	 * Moves a producer and the farms they own to the trash.
 	 *
-	 * Note: This will also cascade delete all associated farms due to
-	 * the database foreign key constraint with ON DELETE CASCADE.
+	 * The producer and their farms are soft-deleted with the same timestamp, so
+	 * they can be restored together. Farms the producer only co-owns are kept,
+	 * and leave out the producer from their owners while in the trash. Producers
+	 * owning farms shared with other producers cannot be moved to the trash, as
+	 * those farms would disappear for their co-owners.
 	 *
 	 * @param id The UUID of the producer to delete
+	 * @param ifMatch Versions the client expects the producer to be at, from the `If-Match` header
 	 *
-	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {NotFoundException} If the producer does not exist or is already in the trash
+	 * @throws {ConflictException} If the producer owns farms shared with other producers
+	 * @throws {PreconditionFailedException} If the producer is not at any of the expected versions
 	 *
 	 * @example
 	 * ```typescript
 	 * await service.delete("550e8400-e29b-41d4-a716-446655440000");
 	 * ```
 	 */
-	public async delete(id: string): Promise<void> {
+	public async delete(id: string, ifMatch?: IfMatchVersions): Promise<void> {
 		this.logger.debug({ producerId: id }, "Deleting producer");
 
-		const result = await this.producerRepository.delete(id);
+		const producer = await this.producerRepository.findOne({
+			where: { id },
+			select: { id: true, version: true },
+		});
 
-		if (result.affected === 0) {
+		if (!producer) {
 			this.logger.warn({ producerId: id }, "Producer not found for deletion");
 			throw new NotFoundException(`Producer with ID ${id} not found`);
 		}
 
-		this.logger.info({ producerId: id }, "Producer deleted successfully");
+		assertVersionMatches(`Producer with ID ${id}`, producer.version, ifMatch);
+
+		const ownsSharedFarms = await this.producerRepository.manager.exists(FarmOwner, {
+			where: { farm: { producerId: id }, producerId: Not(id) },
+		});
+
+		if (ownsSharedFarms) {
+			throw new ConflictException(
+				`Producer with ID ${id} owns farms shared with other producers and cannot be moved to the trash`,
+			);
+		}
+
+		const deletedAt = new Date();
+
+		await this.producerRepository.manager.transaction(async (manager) => {
+			const farms = await manager.find(Farm, { where: { producerId: id }, select: { id: true } });
+
+			await manager.save(
+				Farm,
+				farms.map((farm) => ({ id: farm.id, deletedAt })),
+			);
+			await manager.save(Producer, { id, deletedAt });
+			await assertNoConcurrentWrite(`Producer with ID ${id}`, manager, Producer, producer, ifMatch);
+		});
+
+		this.logger.info({ producerId: id }, "Producer moved to trash successfully");
+	}
+
+	/**
+	 * Restores a producer from the trash, along with the farms deleted with them.
+	 *
+	 * @param id The UUID of the producer to restore
+	 *
+	 * @returns The restored producer
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {BadRequestException} If the producer is not in the trash
+	 *
+	 * @example
+	 * ```typescript
+	 * const producer = await service.restore("550e8400-e29b-41d4-a716-446655440000");
+	 * ```
+	 */
+	public async restore(id: string): Promise<ProducerResponseDto> {
+		this.logger.debug({ producerId: id }, "Restoring producer");
+
+		const producer = await this.findWithDeleted(id);
+
+		if (!producer.deletedAt) {
+			throw new BadRequestException(`Producer with ID ${id} is not in the trash`);
+		}
+
+		const { deletedAt } = producer;
+
+		await this.producerRepository.manager.transaction(async (manager) => {
+			const farms = await manager.find(Farm, {
+				where: { producerId: id, deletedAt },
+				select: { id: true },
+				withDeleted: true,
+			});
+
+			await manager.save(
+				Farm,
+				farms.map((farm) => ({ id: farm.id, deletedAt: null })),
+			);
+			await manager.save(Producer, { id, deletedAt: null });
+		});
+
+		this.logger.info({ producerId: id }, "Producer restored successfully");
+
+		return this.findOne(id);
+	}
+
+	/**
+	 * Permanently deletes a producer from the trash.
+	 *
+	 * Note: This will also cascade delete all the producer's farms and farm
+	 * shares due to the database foreign key constraints with ON DELETE CASCADE.
+	 * Producers still sharing farms of other producers cannot be purged, as
+	 * the shares left on those farms would no longer add up to 100%.
+	 *
+	 * @param id The UUID of the producer to purge
+	 * @param ifMatch Versions the client expects the producer to be at, from the `If-Match` header
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 * @throws {BadRequestException} If the producer is not in the trash
+	 * @throws {ConflictException} If the producer shares farms of other producers, even in the trash
+	 * @throws {PreconditionFailedException} If the producer is not at any of the expected versions
+	 *
+	 * @example
+	 * ```typescript
+	 * await service.purge("550e8400-e29b-41d4-a716-446655440000");
+	 * ```
+	 */
+	public async purge(id: string, ifMatch?: IfMatchVersions): Promise<void> {
+		const producer = await this.findWithDeleted(id);
+
+		if (!producer.deletedAt) {
+			throw new BadRequestException(
+				`Producer with ID ${id} must be moved to the trash before being purged`,
+			);
+		}
+
+		assertVersionMatches(`Producer with ID ${id}`, producer.version, ifMatch);
+
+		const sharedFarmCount = await this.producerRepository.manager.count(FarmOwner, {
+			where: { producerId: id, farm: { producerId: Not(id) } },
+			withDeleted: true,
+		});
+
+		if (sharedFarmCount > 0) {
+			throw new ConflictException(
+				`Producer with ID ${id} shares ${sharedFarmCount} farm(s) of other producers and cannot be purged`,
+			);
+		}
+
+		await this.producerRepository.manager.transaction(async (manager) => {
+			await claimVersion(`Producer with ID ${id}`, manager, Producer, id, ifMatch);
+			await manager.remove(producer);
+		});
+
+		this.logger.info({ producerId: id }, "Producer purged successfully");
+	}
+
+	/**
+	 * Retrieves the producers in the trash.
+	 *
+	 * @returns The deleted producers, most recently deleted first
+	 *
+	 * @example
+	 * ```typescript
+	 * const trash = await service.findDeleted();
+	 * ```
+	 */
+	public async findDeleted(): Promise<Array<DeletedProducerResponseDto>> {
+		const producers = await this.producerRepository.find({
+			where: { deletedAt: Not(IsNull()) },
+			withDeleted: true,
+			order: { deletedAt: SortOrder.Descending },
+		});
+
+		return producers.map(({ id, name, document, deletedAt }) => ({
+			id,
+			name,
+			document: this.presentDocument(document),
+			deletedAt: deletedAt as Date,
+		}));
 	}
 
 	/**
 	 * Gets the total count of all producers.
 	 *
+	 * Producers in the trash are not counted.
+	 *
 	 * @returns Total producer count
 	 */
 	public async getTotalCount(): Promise<number> {
@@ -310,22 +762,23 @@ export class ProducersService {
 	/**
 	 * Validates a Brazilian document (CPF or CNPJ) and strips formatting.
 	 *
-	 * Determines whether the document is CPF (11 digits) or CNPJ
-	 * and validates using the appropriate algorithm.
+	 * Determines whether the document is CPF (11 characters) or CNPJ
+	 * and validates using the appropriate algorithm. The letters of
+	 * alphanumeric CNPJs are kept, upper-cased.
 	 *
 	 * @param document The document to validate (formatted or unformatted)
 	 *
-	 * @returns The document without formatting (digits only)
+	 * @returns The document without formatting (digits and uppercase letters only)
 	 *
 	 * @throws {BadRequestException} If the document format is invalid
 	 *
 	 */
 	private validateAndStripDocument(document: string): string {
-		const digitsOnly = document.replaceAll(/\D/g, "");
+		const strippedDocument = stripDocumentFormatting(document);
 
-		this.logger.debug({ documentLength: digitsOnly.length }, "Validating document format");
+		this.logger.debug({ documentLength: strippedDocument.length }, "Validating document format");
 
-		if (digitsOnly.length === 11) {
+		if (isCPFDocument(strippedDocument)) {
 			if (!validateCPF(document)) {
 				this.logger.warn("Invalid CPF format provided");
 				throw new BadRequestException("Invalid CPF format");
@@ -333,7 +786,7 @@ export class ProducersService {
 
 			this.logger.debug("CPF validated successfully");
 
-			return stripCPFFormatting(document);
+			return strippedDocument;
 		} else {
 			if (!validateCNPJ(document)) {
 				this.logger.warn("Invalid CNPJ format provided");
@@ -343,13 +796,36 @@ export class ProducersService {
 
 			this.logger.debug("CNPJ validated successfully");
 
-			return stripCNPJFormatting(document);
+			return strippedDocument;
+		}
+	}
+
+	/**
+	 * Retrieves a producer by ID, including producers in the trash.
+	 *
+	 * @param id The UUID of the producer
+	 *
+	 * @returns The producer
+	 *
+	 * @throws {NotFoundException} If the producer does not exist
+	 */
+	private async findWithDeleted(id: string): Promise<Producer> {
+		const producer = await this.producerRepository.findOne({ where: { id }, withDeleted: true });
+
+		if (!producer) {
+			this.logger.warn({ producerId: id }, "Producer not found");
+			throw new NotFoundException(`Producer with ID ${id} not found`);
 		}
+
+		return producer;
 	}
 
 	/**
 	 * Checks if a document is already registered in the database.
 	 *
+	 * Producers in the trash are included, since their document stays reserved
+	 * until they are purged.
+	 *
 	 * @param document The document to check (already stripped of formatting)
 	 * @param excludeId Optional producer ID to exclude from the check (for updates)
 	 *
@@ -361,6 +837,7 @@ export class ProducersService {
 
 		const existingProducer = await this.producerRepository.findOne({
 			where: { document },
+			withDeleted: true,
 		});
 
 		if (existingProducer && existingProducer.id !== excludeId) {
@@ -368,58 +845,306 @@ export class ProducersService {
 				{ existingProducerId: existingProducer.id, excludeId },
 				"Duplicate document detected",
 			);
-			throw new ConflictException(`Producer with document ${document} already exists`);
+			throw new ConflictException(
+				existingProducer.deletedAt ?
+					"A producer with this document already exists in the trash"
+				:	"A producer with this document already exists",
+			);
 		}
 
 		this.logger.debug("Document uniqueness verified");
 	}
 
+	/**
+	 * Creates the query retrieving a producer by ID with their farms.
+	 *
+	 * @param id The UUID of the producer
+	 *
+	 * @returns Query builder selecting the producer
+	 */
+	private createFindOneQuery(id: string): SelectQueryBuilder<Producer> {
+		return this.producerRepository
+			.createQueryBuilder("producer")
+			.leftJoinAndSelect("producer.farmOwnerships", "ownership", ACTIVE_FARM_OWNERSHIP_CONDITION)
+			.leftJoinAndSelect("ownership.farm", "farms")
+			.leftJoinAndSelect("farms.owners", "farmOwner")
+			.leftJoinAndSelect("farmOwner.producer", "farmOwnerProducer")
+			.leftJoinAndSelect("farms.farmHarvests", "farmHarvests")
+			.leftJoinAndSelect("farmHarvests.harvest", "harvest")
+			.leftJoinAndSelect("farmHarvests.crops", "crops")
+			.where("producer.id = :id", { id });
+	}
+
+	/**
+	 * Creates the query listing producers, filtered and sorted, with the included relations.
+	 *
+	 * The search matches words of the name, or the document, through the
+	 * `producers_search` full-text table, ignoring case and accents. Farm
+	 * filters and aggregates use subqueries rather than joined farms, so they
+	 * work without including the farms, and every farm of a matching producer
+	 * is loaded when included; aggregates sorted by are selected under the
+	 * name of the sort field.
+	 *
+	 * @param query List filters and sorting; pagination is left to the caller
+	 * @param include Relations to join; any of them joins the farms
+	 *
+	 * @returns Query builder selecting the matching producers
+	 */
+	private createFindAllQuery(
+		query: FindAllProducersDto,
+		include: ReadonlyArray<ProducerInclude>,
+	): SelectQueryBuilder<Producer> {
+		const {
+			sortBy = ProducerSortField.Name,
+			sortOrder = SortOrder.Ascending,
+			search,
+			operatingState,
+			crop,
+			documentType,
+			minFarmCount,
+			maxFarmCount,
+		} = query;
+
+		const qb = this.producerRepository.createQueryBuilder("producer");
+
+		if (include.length > 0) {
+			qb.leftJoinAndSelect(
+				"producer.farmOwnerships",
+				"ownership",
+				ACTIVE_FARM_OWNERSHIP_CONDITION,
+			).leftJoinAndSelect("ownership.farm", "farms");
+		}
+
+		if (include.includes(ProducerInclude.FarmOwners)) {
+			qb.leftJoinAndSelect("farms.owners", "farmOwner").leftJoinAndSelect(
+				"farmOwner.producer",
+				"farmOwnerProducer",
+			);
+		}
+
+		if (include.includes(ProducerInclude.FarmCrops)) {
+			qb.leftJoinAndSelect("farms.farmHarvests", "farmHarvests")
+				.leftJoinAndSelect("farmHarvests.harvest", "harvest")
+				.leftJoinAndSelect("farmHarvests.crops", "crops");
+		}
+
+		const fullTextQuery = search && toProducerFullTextQuery(search);
+		if (fullTextQuery) qb.andWhere(PRODUCER_SEARCH_CONDITION, { search: fullTextQuery });
+		if (operatingState) qb.andWhere(OPERATES_IN_STATE_CONDITION, { operatingState });
+		if (crop) qb.andWhere(GROWS_CROP_CONDITION, { crop });
+		if (documentType) qb.andWhere(DOCUMENT_TYPE_CONDITIONS[documentType]);
+
+		const farmCount = PRODUCER_AGGREGATE_EXPRESSIONS[ProducerSortField.FarmCount];
+
+		if (minFarmCount !== undefined) {
+			qb.andWhere(`${farmCount} >= :minFarmCount`, { minFarmCount });
+		}
+
+		if (maxFarmCount !== undefined) {
+			qb.andWhere(`${farmCount} <= :maxFarmCount`, { maxFarmCount });
+		}
+
+		const aggregateExpression = this.getAggregateExpression(sortBy);
+
+		if (aggregateExpression) {
+			qb.addSelect(aggregateExpression, sortBy).orderBy(sortBy, sortOrder as SortOrder);
+		} else {
+			qb.orderBy(`producer.${sortBy}`, sortOrder as SortOrder);
+		}
+
+		return qb;
+	}
+
+	/**
+	 * Gets the query expression computing a sort field, for sorts on farm aggregates.
+	 *
+	 * @param sortBy Field the producers are sorted by
+	 *
+	 * @returns Expression computing the field, or `undefined` for producer properties
+	 */
+	private getAggregateExpression(sortBy: string): string | undefined {
+		return Object.entries(PRODUCER_AGGREGATE_EXPRESSIONS).find(([field]) => field === sortBy)?.[1];
+	}
+
+	/**
+	 * Reads every producer matching the list filters, {@link EXPORT_BATCH_SIZE} producers at a time.
+	 *
+	 * Ties in the requested order are broken by ID, so no producer is skipped or
+	 * repeated between batches.
+	 *
+	 * @param query List filters and sorting; pagination and includes are ignored
+	 *
+	 * @returns Batches of producers, with their farms
+	 */
+	private async *findAllInBatches(query: FindAllProducersDto): AsyncGenerator<Array<Producer>> {
+		for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+			const producers = await this.createFindAllQuery(query, [ProducerInclude.Farms])
+				.addOrderBy("producer.id")
+				.skip(skip)
+				.take(EXPORT_BATCH_SIZE)
+				.getMany();
+
+			if (producers.length > 0) yield producers;
+			if (producers.length < EXPORT_BATCH_SIZE) return;
+		}
+	}
+
+	/**
+	 * Maps the contact details of a request to producer columns.
+	 *
+	 * Only the details present in the request are mapped, so partial updates
+	 * keep the others. Phone numbers and the CEP are stored digits only, and a
+	 * `null` address clears every address column.
+	 *
+	 * @param details Email, phones and address from a create or update request
+	 *
+	 * @returns Producer columns to assign
+	 */
+	private mapContactDetails({
+		email,
+		phones,
+		address,
+	}: Pick<UpdateProducerDto, "email" | "phones" | "address">): Partial<Producer> {
+		const columns: Partial<Producer> = {};
+
+		if (email !== undefined) columns.email = email?.trim() || null;
+		if (phones !== undefined) columns.phones = [...new Set(phones.map(stripPhoneFormatting))];
+		if (address !== undefined) {
+			columns.postalCode = address ? stripCEPFormatting(address.postalCode) : null;
+			columns.street = address?.street.trim() ?? null;
+			columns.streetNumber = address?.number.trim() ?? null;
+			columns.district = address?.district.trim() ?? null;
+			columns.city = address?.city.trim() ?? null;
+			columns.state = address?.state ?? null;
+		}
+
+		return columns;
+	}
+
+	/**
+	 * Maps the state registrations of a request to producer columns.
+	 *
+	 * Registrations absent from the request are kept, otherwise they are
+	 * replaced and stored without formatting.
+	 *
+	 * @param stateRegistrations State registrations from a create or update request
+	 *
+	 * @returns Producer columns to assign
+	 */
+	private mapStateRegistrations(
+		stateRegistrations: UpdateProducerDto["stateRegistrations"],
+	): Partial<Producer> {
+		if (stateRegistrations === undefined) return {};
+
+		return {
+			stateRegistrations: stateRegistrations.map(({ state, number }) => ({
+				state,
+				number: stripInscricaoEstadualFormatting(number),
+			})),
+		};
+	}
+
+	/**
+	 * Masks a document unless the current user may reveal personal data.
+	 *
+	 * @param document The stored document of a producer
+	 *
+	 * @returns The document, with CPFs masked when the user may not see them
+	 */
+	private presentDocument(document: string): string {
+		if (currentUserHasPermission(Permission.RevealPersonalData)) return document;
+
+		return maskDocument(document);
+	}
+
 	/**
 	 * Maps a Producer entity to a ProducerResponseDto.
 	 *
-	 * Extracts crops from each farm's harvests and includes them in the response.
+	 * Includes the farms the producer owns or co-owns when any relation is
+	 * included, with their owners' shares and their crops grouped per harvest
+	 * when these are included as well.
 	 *
-	 * @param producer The producer entity to map (with eagerly loaded farms, farmHarvests, and crops)
+	 * @param producer The producer entity to map, with the included relations loaded
+	 * @param options What to include, every relation by default, and whether to
+	 * return the document unmasked, regardless of the current user
 	 *
-	 * @returns The mapped response DTO with farms containing flattened crops arrays
+	 * @returns The mapped response DTO
 	 */
-	private mapToResponseDto(producer: Producer): ProducerResponseDto {
-		const farmsWithCrops =
-			producer.farms?.map((farm: Farm) => {
-				const cropSet = new Set<string>();
-
-				if (Array.isArray(farm.farmHarvests) && farm.farmHarvests.length > 0) {
-					for (const farmHarvest of farm.farmHarvests) {
-						const harvestCrops = Array.isArray(farmHarvest.crops) ? farmHarvest.crops : [];
-
-						for (const crop of harvestCrops) {
-							if (crop.cropType) cropSet.add(crop.cropType);
-						}
-					}
-				}
-
-				return {
-					id: farm.id,
-					name: farm.name,
-					city: farm.city,
-					state: farm.state as BrazilianState,
-					totalArea: farm.totalArea,
-					arableArea: farm.arableArea,
-					vegetationArea: farm.vegetationArea,
-					crops: Array.from(cropSet) as Array<CropType>,
-					producerId: farm.producerId,
-					createdAt: farm.createdAt.toISOString(),
-					updatedAt: farm.updatedAt.toISOString(),
-				} as FarmType;
-			}) ?? [];
+	private mapToResponseDto(
+		producer: Producer,
+		{
+			include = Object.values(ProducerInclude),
+			revealDocument = false,
+		}: { include?: ReadonlyArray<ProducerInclude>; revealDocument?: boolean } = {},
+	): ProducerResponseDto {
+		const includesCrops = include.includes(ProducerInclude.FarmCrops);
+		const includesOwners = include.includes(ProducerInclude.FarmOwners);
+
+		const farmsWithCrops = (producer.farmOwnerships ?? []).map(({ farm }) => {
+			const farmHarvests = Array.isArray(farm.farmHarvests) ? farm.farmHarvests : [];
+			const cropsByHarvest: Array<HarvestCrops> = farmHarvests
+				.filter((farmHarvest) => Array.isArray(farmHarvest.crops) && farmHarvest.crops.length > 0)
+				.map((farmHarvest) => ({
+					harvestId: farmHarvest.harvestId,
+					harvestYear: farmHarvest.harvest?.year ?? "",
+					crops: farmHarvest.crops.map(({ cropType, plantedArea, plotId }) => ({
+						cropType,
+						plantedArea: plantedArea ?? null,
+						plotId: plotId ?? null,
+					})),
+				}))
+				.sort((a, b) => b.harvestYear.localeCompare(a.harvestYear));
+
+			return {
+				id: farm.id,
+				name: farm.name,
+				city: farm.city,
+				state: farm.state as BrazilianState,
+				totalArea: farm.totalArea,
+				arableArea: farm.arableArea,
+				vegetationArea: farm.vegetationArea,
+				...(includesCrops && { cropsByHarvest }),
+				producerId: farm.producerId,
+				...(includesOwners && {
+					// Owners in the trash are not joined, so they are left out
+					owners: (farm.owners ?? [])
+						.filter((owner) => owner.producer)
+						.map((owner) => ({
+							producerId: owner.producerId,
+							producerName: owner.producer.name,
+							percentage: Number(owner.percentage),
+						}))
+						.sort((a, b) => b.percentage - a.percentage),
+				}),
+				createdAt: farm.createdAt.toISOString(),
+				updatedAt: farm.updatedAt.toISOString(),
+				version: farm.version,
+			} as FarmType;
+		});
 
 		return {
 			id: producer.id,
 			name: producer.name,
-			farms: farmsWithCrops,
-			document: producer.document,
+			...(include.length > 0 && { farms: farmsWithCrops }),
+			document: revealDocument ? producer.document : this.presentDocument(producer.document),
+			email: producer.email ?? null,
+			phones: producer.phones ?? [],
+			address:
+				producer.postalCode ?
+					{
+						postalCode: producer.postalCode,
+						street: producer.street ?? "",
+						number: producer.streetNumber ?? "",
+						district: producer.district ?? "",
+						city: producer.city ?? "",
+						state: producer.state as BrazilianState,
+					}
+				:	null,
+			stateRegistrations: producer.stateRegistrations ?? [],
+			anonymizedAt: producer.anonymizedAt ?? null,
 			createdAt: producer.createdAt,
 			updatedAt: producer.updatedAt,
+			version: producer.version,
 		};
 	}
 }
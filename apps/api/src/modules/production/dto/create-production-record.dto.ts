@@ -0,0 +1,105 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+	IsDateString,
+	IsEnum,
+	IsNotEmpty,
+	IsNumber,
+	IsOptional,
+	IsString,
+	IsUUID,
+	Min,
+} from "class-validator";
+
+import { ProductionUnit } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for recording the production of a crop.
+ *
+ * The crop must be planted on the farm in the harvest given by the route, on
+ * the given plot when one is given.
+ *
+ * @example
+ * ```typescript
+ * const dto: CreateProductionRecordDto = {
+ *   cropType: "soy",
+ *   quantity: 3000,
+ *   unit: ProductionUnit.Sacks60Kg,
+ *   harvestedAt: "2025-03-20"
+ * };
+ * ```
+ */
+export class CreateProductionRecordDto {
+	/**
+	 * Crop that was harvested.
+	 *
+	 * @example "soy"
+	 */
+	@ApiProperty({
+		description: "Code of the crop that was harvested",
+		example: "soy",
+	})
+	@IsNotEmpty({ message: "Crop type is required" })
+	@IsString({ message: "Crop type must be a string" })
+	cropType!: string;
+
+	/**
+	 * UUID of the plot the crop was harvested from.
+	 *
+	 * Optional field. Omit for crops not assigned to a plot.
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@ApiPropertyOptional({
+		description: "UUID of the plot the crop was harvested from",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@IsOptional()
+	@IsUUID("4", { message: "Plot ID must be a valid UUID" })
+	plotId?: string;
+
+	/**
+	 * Quantity produced, in `unit`.
+	 *
+	 * @example 3000
+	 */
+	@ApiProperty({
+		description: "Quantity produced",
+		example: faker.number.float({ min: 100, max: 5000, fractionDigits: 2 }),
+		minimum: 0.01,
+	})
+	@IsNotEmpty({ message: "Quantity is required" })
+	@IsNumber({}, { message: "Quantity must be a number" })
+	@Min(0.01, { message: "Quantity must be greater than zero" })
+	quantity!: number;
+
+	/**
+	 * Unit the quantity was recorded in.
+	 *
+	 * @example ProductionUnit.Sacks60Kg
+	 */
+	@ApiProperty({
+		description: "Unit the quantity was recorded in",
+		example: ProductionUnit.Sacks60Kg,
+		enum: ProductionUnit,
+		enumName: "ProductionUnit",
+	})
+	@IsNotEmpty({ message: "Unit is required" })
+	@IsEnum(ProductionUnit, { message: "Unit must be one of: tons, sacks_60kg, arrobas" })
+	unit!: ProductionUnit;
+
+	/**
+	 * Date the crop was harvested (YYYY-MM-DD).
+	 *
+	 * @example "2025-03-20"
+	 */
+	@ApiProperty({
+		description: "Date the crop was harvested",
+		example: "2025-03-20",
+		format: "date",
+	})
+	@IsNotEmpty({ message: "Harvested date is required" })
+	@IsDateString({ strict: true }, { message: "Harvested date must be a valid date (YYYY-MM-DD)" })
+	harvestedAt!: string;
+}
@@ -0,0 +1,86 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+/**
+ * Data Transfer Object for the yield of a crop in a harvest.
+ *
+ * @example
+ * ```typescript
+ * const response: CropYieldResponseDto = {
+ *   cropType: "soy",
+ *   plotId: null,
+ *   plantedArea: 50,
+ *   totalProduction: 180,
+ *   yieldPerHectare: 3.6
+ * };
+ * ```
+ */
+@Exclude()
+export class CropYieldResponseDto {
+	/**
+	 * Crop type.
+	 *
+	 * @example "soy"
+	 */
+	@ApiProperty({
+		description: "Crop type",
+		example: "soy",
+	})
+	@Expose()
+	cropType!: string;
+
+	/**
+	 * UUID of the plot the crop was planted on, `null` when not assigned to a plot.
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@ApiProperty({
+		description: "UUID of the plot the crop was planted on (null when not assigned to a plot)",
+		example: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	plotId!: string | null;
+
+	/**
+	 * Planted area in hectares, `null` when unknown.
+	 *
+	 * @example 50
+	 */
+	@ApiProperty({
+		description: "Planted area in hectares (null when unknown)",
+		example: 50,
+		nullable: true,
+		type: Number,
+	})
+	@Expose()
+	plantedArea!: number | null;
+
+	/**
+	 * Total production in metric tons.
+	 *
+	 * @example 180
+	 */
+	@ApiProperty({
+		description: "Total production in metric tons",
+		example: 180,
+	})
+	@Expose()
+	totalProduction!: number;
+
+	/**
+	 * Yield in tons per hectare, `null` when the planted area is unknown.
+	 *
+	 * @example 3.6
+	 */
+	@ApiProperty({
+		description: "Yield in tons per hectare (null when the planted area is unknown)",
+		example: 3.6,
+		nullable: true,
+		type: Number,
+	})
+	@Expose()
+	yieldPerHectare!: number | null;
+}
@@ -0,0 +1,4 @@
+export * from "./create-production-record.dto";
+export * from "./crop-yield-response.dto";
+export * from "./production-record-response.dto";
+export * from "./update-production-record.dto";
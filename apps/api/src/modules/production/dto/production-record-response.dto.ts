@@ -0,0 +1,171 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import { ProductionUnit } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for production record responses.
+ *
+ * @example
+ * ```typescript
+ * const response: ProductionRecordResponseDto = {
+ *   id: "3f1b2c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+ *   farmId: "550e8400-e29b-41d4-a716-446655440000",
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   cropType: "soy",
+ *   plotId: null,
+ *   quantity: 3000,
+ *   unit: ProductionUnit.Sacks60Kg,
+ *   quantityInTons: 180,
+ *   harvestedAt: "2025-03-20",
+ *   createdAt: new Date("2025-03-21T10:00:00Z"),
+ *   updatedAt: new Date("2025-03-21T10:00:00Z")
+ * };
+ * ```
+ */
+@Exclude()
+export class ProductionRecordResponseDto {
+	/**
+	 * Unique identifier for the record (UUID v4).
+	 *
+	 * @example "3f1b2c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d"
+	 */
+	@ApiProperty({
+		description: "Unique identifier (UUID)",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * UUID of the farm.
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "UUID of the farm",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	farmId!: string;
+
+	/**
+	 * UUID of the harvest.
+	 *
+	 * @example "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c"
+	 */
+	@ApiProperty({
+		description: "UUID of the harvest",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	harvestId!: string;
+
+	/**
+	 * Crop that was harvested.
+	 *
+	 * @example "soy"
+	 */
+	@ApiProperty({
+		description: "Crop that was harvested",
+		example: "soy",
+	})
+	@Expose()
+	cropType!: string;
+
+	/**
+	 * UUID of the plot the crop was planted on, `null` when not assigned to a plot.
+	 *
+	 * @example "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d"
+	 */
+	@ApiProperty({
+		description: "UUID of the plot the crop was planted on (null when not assigned to a plot)",
+		example: faker.string.uuid(),
+		format: "uuid",
+		nullable: true,
+		type: String,
+	})
+	@Expose()
+	plotId!: string | null;
+
+	/**
+	 * Quantity produced, in `unit`.
+	 *
+	 * @example 3000
+	 */
+	@ApiProperty({
+		description: "Quantity produced",
+		example: 3000,
+	})
+	@Expose()
+	quantity!: number;
+
+	/**
+	 * Unit the quantity was recorded in.
+	 *
+	 * @example "sacks_60kg"
+	 */
+	@ApiProperty({
+		description: "Unit the quantity was recorded in",
+		example: ProductionUnit.Sacks60Kg,
+		enum: ProductionUnit,
+		enumName: "ProductionUnit",
+	})
+	@Expose()
+	unit!: ProductionUnit;
+
+	/**
+	 * Quantity produced converted to metric tons.
+	 *
+	 * @example 180
+	 */
+	@ApiProperty({
+		description: "Quantity produced in metric tons",
+		example: 180,
+	})
+	@Expose()
+	quantityInTons!: number;
+
+	/**
+	 * Date the crop was harvested.
+	 *
+	 * @example "2025-03-20"
+	 */
+	@ApiProperty({
+		description: "Date the crop was harvested",
+		example: "2025-03-20",
+		format: "date",
+	})
+	@Expose()
+	harvestedAt!: string;
+
+	/**
+	 * Timestamp when the record was created.
+	 *
+	 * @example "2025-03-21T10:00:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Creation timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	createdAt!: Date;
+
+	/**
+	 * Timestamp when the record was last updated.
+	 *
+	 * @example "2025-03-21T15:30:00.000Z"
+	 */
+	@ApiProperty({
+		description: "Last update timestamp",
+		example: faker.date.recent(),
+		type: Date,
+	})
+	@Expose()
+	updatedAt!: Date;
+}
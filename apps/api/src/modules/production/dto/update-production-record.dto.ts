@@ -0,0 +1,62 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsEnum, IsNumber, IsOptional, Min } from "class-validator";
+
+import { ProductionUnit } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for updating a production record.
+ *
+ * All fields are optional to allow partial updates. The crop and plot of an
+ * existing record cannot be changed; delete it and record it again instead.
+ *
+ * @example
+ * ```typescript
+ * const dto: UpdateProductionRecordDto = { quantity: 3200 };
+ * ```
+ */
+export class UpdateProductionRecordDto {
+	/**
+	 * Updated quantity produced, in `unit`.
+	 *
+	 * @example 3200
+	 */
+	@ApiPropertyOptional({
+		description: "Updated quantity produced",
+		example: faker.number.float({ min: 100, max: 5000, fractionDigits: 2 }),
+		minimum: 0.01,
+	})
+	@IsOptional()
+	@IsNumber({}, { message: "Quantity must be a number" })
+	@Min(0.01, { message: "Quantity must be greater than zero" })
+	quantity?: number;
+
+	/**
+	 * Updated unit the quantity was recorded in.
+	 *
+	 * @example ProductionUnit.Tons
+	 */
+	@ApiPropertyOptional({
+		description: "Updated unit the quantity was recorded in",
+		example: ProductionUnit.Tons,
+		enum: ProductionUnit,
+		enumName: "ProductionUnit",
+	})
+	@IsOptional()
+	@IsEnum(ProductionUnit, { message: "Unit must be one of: tons, sacks_60kg, arrobas" })
+	unit?: ProductionUnit;
+
+	/**
+	 * Updated harvested date (YYYY-MM-DD).
+	 *
+	 * @example "2025-03-22"
+	 */
+	@ApiPropertyOptional({
+		description: "Updated date the crop was harvested",
+		example: "2025-03-22",
+		format: "date",
+	})
+	@IsOptional()
+	@IsDateString({ strict: true }, { message: "Harvested date must be a valid date (YYYY-MM-DD)" })
+	harvestedAt?: string;
+}
@@ -0,0 +1 @@
+export * from "./production-record.entity";
@@ -0,0 +1,67 @@
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	JoinColumn,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	UpdateDateColumn,
+} from "typeorm";
+
+import type { Relation } from "typeorm";
+
+import { ProductionUnit } from "@agro/shared/enums";
+
+import { FarmHarvestCrop } from "../../farms/entities/farm-harvest-crop.entity";
+
+/**
+ * ProductionRecord entity representing what a farm produced of a crop during a harvest
+ *
+ * Each record stores the quantity harvested on a given date, in the unit it was
+ * measured in. A crop may have several records per harvest (e.g., partial harvests).
+ *
+ * Relationship Chain:
+ * - Farm → FarmHarvest → FarmHarvestCrop → ProductionRecord
+ *
+ * Business Rules:
+ * - Quantity must be greater than 0
+ * - Records are deleted together with their farm harvest crop
+ *
+ * @see {@link FarmHarvestCrop} for the crop the production refers to
+ * @see {@link ProductionUnit} for available units
+ */
+@Entity("production_records")
+export class ProductionRecord {
+	/** Unique identifier (UUID v4) */
+	@PrimaryGeneratedColumn("uuid")
+	id!: string;
+
+	/** ID of the farm harvest crop this production refers to */
+	@Column({ type: "uuid", name: "farm_harvest_crop_id" })
+	farmHarvestCropId!: string;
+
+	/** Quantity produced, in `unit` */
+	@Column({ type: "decimal", precision: 12, scale: 2 })
+	quantity!: number;
+
+	/** Unit the quantity was recorded in (tons, 60 kg sacks, arrobas) */
+	@Column({ type: "varchar", length: 20, enum: ProductionUnit })
+	unit!: ProductionUnit;
+
+	/** Date the crop was harvested (YYYY-MM-DD) */
+	@Column({ type: "date", name: "harvested_at" })
+	harvestedAt!: string;
+
+	/** Farm harvest crop this production refers to */
+	@ManyToOne(() => FarmHarvestCrop, { onDelete: "CASCADE" })
+	@JoinColumn({ name: "farm_harvest_crop_id" })
+	farmHarvestCrop!: Relation<FarmHarvestCrop>;
+
+	/** Timestamp of record creation */
+	@CreateDateColumn({ name: "created_at" })
+	createdAt!: Date;
+
+	/** Timestamp of last record update */
+	@UpdateDateColumn({ name: "updated_at" })
+	updatedAt!: Date;
+}
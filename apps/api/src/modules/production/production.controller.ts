@@ -0,0 +1,191 @@
+import { Body, Controller, Delete, Get, HttpStatus, Param, Patch, Post } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import { ParseUUIDPipe } from "@/common";
+
+import {
+	CreateProductionRecordDto,
+	CropYieldResponseDto,
+	ProductionRecordResponseDto,
+	UpdateProductionRecordDto,
+} from "./dto";
+import { ProductionService } from "./production.service";
+
+/**
+ * Controller handling HTTP requests for farm production records.
+ *
+ * Exposes production as a sub-resource of a farm's harvest, so records are
+ * always scoped to the crops planted on that farm in that season.
+ *
+ * @example
+ * ```typescript
+ * // Usage in NestJS module
+ * @Module({
+ *   controllers: [ProductionController],
+ *   providers: [ProductionService]
+ * })
+ * ```
+ */
+@ApiTags("Production")
+@ApiBearerAuth("JWT")
+@Controller("farms/:id/harvests/:harvestId/production")
+export class ProductionController {
+	constructor(private readonly productionService: ProductionService) {}
+
+	/**
+	 * Records the production of a crop.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 * @param createProductionRecordDto Crop, quantity, unit and harvested date
+	 *
+	 * @returns The created production record
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or has no crops in the harvest
+	 * @throws {BadRequestException} If the crop was not planted on the farm in the harvest
+	 */
+	@Post()
+	@ApiOperation({ summary: "Record the production of a crop" })
+	@ApiResponse({
+		status: HttpStatus.CREATED,
+		description: "Production record created successfully",
+		type: ProductionRecordResponseDto,
+	})
+	@ApiResponse({
+		status: HttpStatus.BAD_REQUEST,
+		description: "Invalid input data or crop not planted in the harvest",
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm or farm harvest not found" })
+	public create(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+		@Body() createProductionRecordDto: CreateProductionRecordDto,
+	): Promise<ProductionRecordResponseDto> {
+		return this.productionService.create(id, harvestId, createProductionRecordDto);
+	}
+
+	/**
+	 * Retrieves all production records of a farm in a harvest.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 *
+	 * @returns Production records, most recent first
+	 */
+	@Get()
+	@ApiOperation({ summary: "Get the production records of a farm in a harvest" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "List of production records",
+		type: [ProductionRecordResponseDto],
+		isArray: true,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm or farm harvest not found" })
+	public findAll(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+	): Promise<Array<ProductionRecordResponseDto>> {
+		return this.productionService.findAll(id, harvestId);
+	}
+
+	/**
+	 * Calculates the yield per hectare of each crop of a farm in a harvest.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 *
+	 * @returns Total production (tons) and yield (tons/ha) per crop
+	 */
+	@Get("yield")
+	@ApiOperation({
+		summary: "Get the yield per hectare of each crop",
+		description:
+			"Sums the production records of each crop (converted to tons) and divides it by its planted area. " +
+			"The yield is null when the planted area is unknown.",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Yield of each crop with production records",
+		type: [CropYieldResponseDto],
+		isArray: true,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Farm or farm harvest not found" })
+	public getYield(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+	): Promise<Array<CropYieldResponseDto>> {
+		return this.productionService.getYield(id, harvestId);
+	}
+
+	/**
+	 * Retrieves a specific production record.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 * @param recordId UUID of the production record
+	 *
+	 * @returns The production record
+	 */
+	@Get(":recordId")
+	@ApiOperation({ summary: "Get production record by ID" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Production record found",
+		type: ProductionRecordResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Production record not found" })
+	public findOne(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+		@Param("recordId", ParseUUIDPipe) recordId: string,
+	): Promise<ProductionRecordResponseDto> {
+		return this.productionService.findOne(id, harvestId, recordId);
+	}
+
+	/**
+	 * Updates a production record.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 * @param recordId UUID of the production record
+	 * @param updateProductionRecordDto Fields to update
+	 *
+	 * @returns The updated production record
+	 */
+	@Patch(":recordId")
+	@ApiOperation({ summary: "Update production record" })
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Production record updated successfully",
+		type: ProductionRecordResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid input data" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Production record not found" })
+	public update(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+		@Param("recordId", ParseUUIDPipe) recordId: string,
+		@Body() updateProductionRecordDto: UpdateProductionRecordDto,
+	): Promise<ProductionRecordResponseDto> {
+		return this.productionService.update(id, harvestId, recordId, updateProductionRecordDto);
+	}
+
+	/**
+	 * Deletes a production record.
+	 *
+	 * @param id UUID of the farm
+	 * @param harvestId UUID of the harvest
+	 * @param recordId UUID of the production record
+	 */
+	@Delete(":recordId")
+	@ApiOperation({ summary: "Delete production record" })
+	@ApiResponse({ status: HttpStatus.OK, description: "Production record deleted successfully" })
+	@ApiResponse({ status: HttpStatus.NOT_FOUND, description: "Production record not found" })
+	public remove(
+		@Param("id", ParseUUIDPipe) id: string,
+		@Param("harvestId", ParseUUIDPipe) harvestId: string,
+		@Param("recordId", ParseUUIDPipe) recordId: string,
+	): Promise<void> {
+		return this.productionService.delete(id, harvestId, recordId);
+	}
+}
@@ -0,0 +1,24 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { Farm, FarmHarvest } from "@/modules/farms/entities";
+
+import { ProductionRecord } from "./entities";
+import { ProductionController } from "./production.controller";
+import { ProductionService } from "./production.service";
+
+/**
+ * NestJS module for farm production records.
+ *
+ * Provides production and yield endpoints nested under a farm's harvest.
+ *
+ * Note: Imports Farm and FarmHarvest entities to scope records to the crops
+ * planted on a farm in a harvest.
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([ProductionRecord, Farm, FarmHarvest])],
+	controllers: [ProductionController],
+	providers: [ProductionService],
+	exports: [ProductionService],
+})
+export class ProductionModule {}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Unit tests for {@link ProductionService}.
+ *
+ * Tests production record business rules and yield calculations using mocked dependencies.
+ */
+
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+import { TestConstants } from "test/fixtures";
+
+import { ProductionUnit } from "@agro/shared/enums";
+
+import { Farm, FarmHarvest, FarmHarvestCrop } from "@/modules/farms/entities";
+
+import { ProductionRecord } from "./entities";
+import { ProductionService } from "./production.service";
+
+describe("ProductionService", () => {
+	let service: ProductionService;
+
+	const mockFarmRepository = {
+		exists: mock(),
+	};
+
+	const mockFarmHarvestRepository = {
+		findOne: mock(),
+	};
+
+	const mockProductionRecordRepository = {
+		create: mock(),
+		save: mock(),
+		find: mock(),
+		findOne: mock(),
+		remove: mock(),
+	};
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const farmId = "550e8400-e29b-41d4-a716-446655440001";
+	const harvestId = "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c";
+
+	const mockSoyCrop = {
+		id: "3f1e2d4c-5b6a-4789-8a0b-1c2d3e4f5a6b",
+		farmHarvestId: "7c8d9e0f-1a2b-4c3d-8e4f-5a6b7c8d9e0f",
+		cropType: "soy",
+		plantedArea: 50,
+		plotId: null,
+	} as FarmHarvestCrop;
+
+	const mockCornCrop = {
+		id: "4a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+		farmHarvestId: mockSoyCrop.farmHarvestId,
+		cropType: "corn",
+		plantedArea: null,
+		plotId: null,
+	} as FarmHarvestCrop;
+
+	const mockFarmHarvest = {
+		id: mockSoyCrop.farmHarvestId,
+		farmId,
+		harvestId,
+		crops: [mockSoyCrop, mockCornCrop],
+	} as FarmHarvest;
+
+	const mockRecord: ProductionRecord = {
+		id: "6d7e8f9a-0b1c-4d2e-8f3a-4b5c6d7e8f9a",
+		farmHarvestCropId: mockSoyCrop.id,
+		quantity: 3000,
+		unit: ProductionUnit.Sacks60Kg,
+		harvestedAt: "2025-03-20",
+		farmHarvestCrop: mockSoyCrop,
+		createdAt: new Date("2025-03-21T10:00:00Z"),
+		updatedAt: new Date("2025-03-21T10:00:00Z"),
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				ProductionService,
+				{
+					provide: getRepositoryToken(Farm),
+					useValue: mockFarmRepository,
+				},
+				{
+					provide: getRepositoryToken(FarmHarvest),
+					useValue: mockFarmHarvestRepository,
+				},
+				{
+					provide: getRepositoryToken(ProductionRecord),
+					useValue: mockProductionRecordRepository,
+				},
+				{
+					provide: `PinoLogger:${ProductionService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<ProductionService>(ProductionService);
+
+		mockFarmRepository.exists.mockReset();
+		mockFarmHarvestRepository.findOne.mockReset();
+		mockProductionRecordRepository.create.mockReset();
+		mockProductionRecordRepository.save.mockReset();
+		mockProductionRecordRepository.find.mockReset();
+		mockProductionRecordRepository.findOne.mockReset();
+		mockProductionRecordRepository.remove.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("create", () => {
+		it("should record production for a planted crop", async () => {
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue(mockFarmHarvest);
+			mockProductionRecordRepository.create.mockReturnValue(mockRecord);
+			mockProductionRecordRepository.save.mockResolvedValue(mockRecord);
+
+			const result = await service.create(farmId, harvestId, {
+				cropType: "soy",
+				quantity: 3000,
+				unit: ProductionUnit.Sacks60Kg,
+				harvestedAt: "2025-03-20",
+			});
+
+			expect(mockProductionRecordRepository.create).toHaveBeenCalledWith({
+				farmHarvestCropId: mockSoyCrop.id,
+				quantity: 3000,
+				unit: ProductionUnit.Sacks60Kg,
+				harvestedAt: "2025-03-20",
+			});
+			expect(result).toMatchObject({
+				id: mockRecord.id,
+				farmId,
+				harvestId,
+				cropType: "soy",
+				quantityInTons: 180,
+			});
+		});
+
+		it("should throw BadRequestException if the crop was not planted in the harvest", async () => {
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue(mockFarmHarvest);
+
+			expect(
+				service.create(farmId, harvestId, {
+					cropType: "coffee",
+					quantity: 100,
+					unit: ProductionUnit.Tons,
+					harvestedAt: "2025-03-20",
+				}),
+			).rejects.toThrow(BadRequestException);
+		});
+
+		it("should record production for the crop planted on the given plot", async () => {
+			const plotId = "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d";
+			const plotSoyCrop = {
+				...mockSoyCrop,
+				id: "8e9f0a1b-2c3d-4e5f-8a6b-7c8d9e0f1a2b",
+				plotId,
+			} as FarmHarvestCrop;
+
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue({
+				...mockFarmHarvest,
+				crops: [mockSoyCrop, plotSoyCrop],
+			});
+			mockProductionRecordRepository.create.mockReturnValue(mockRecord);
+			mockProductionRecordRepository.save.mockResolvedValue(mockRecord);
+
+			const result = await service.create(farmId, harvestId, {
+				cropType: "soy",
+				plotId,
+				quantity: 3000,
+				unit: ProductionUnit.Sacks60Kg,
+				harvestedAt: "2025-03-20",
+			});
+
+			expect(mockProductionRecordRepository.create).toHaveBeenCalledWith(
+				expect.objectContaining({ farmHarvestCropId: plotSoyCrop.id }),
+			);
+			expect(result.plotId).toBe(plotId);
+		});
+
+		it("should throw BadRequestException if the crop was not planted on the given plot", async () => {
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue(mockFarmHarvest);
+
+			expect(
+				service.create(farmId, harvestId, {
+					cropType: "soy",
+					plotId: "5a6b7c8d-9e0f-4a1b-8c2d-3e4f5a6b7c8d",
+					quantity: 100,
+					unit: ProductionUnit.Tons,
+					harvestedAt: "2025-03-20",
+				}),
+			).rejects.toThrow(BadRequestException);
+		});
+
+		it("should throw NotFoundException if the farm does not exist", async () => {
+			mockFarmRepository.exists.mockResolvedValue(false);
+
+			expect(
+				service.create(TestConstants.NON_EXISTENT_UUID, harvestId, {
+					cropType: "soy",
+					quantity: 100,
+					unit: ProductionUnit.Tons,
+					harvestedAt: "2025-03-20",
+				}),
+			).rejects.toThrow(NotFoundException);
+		});
+	});
+
+	describe("findOne", () => {
+		it("should throw NotFoundException if the record does not exist", async () => {
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue(mockFarmHarvest);
+			mockProductionRecordRepository.findOne.mockResolvedValue(null);
+
+			expect(service.findOne(farmId, harvestId, TestConstants.NON_EXISTENT_UUID)).rejects.toThrow(
+				NotFoundException,
+			);
+		});
+	});
+
+	describe("getYield", () => {
+		it("should sum production in tons and divide it by the planted area", async () => {
+			mockFarmRepository.exists.mockResolvedValue(true);
+			mockFarmHarvestRepository.findOne.mockResolvedValue(mockFarmHarvest);
+			mockProductionRecordRepository.find.mockResolvedValue([
+				mockRecord,
+				{
+					...mockRecord,
+					id: "1b2c3d4e-5f6a-4b7c-8d9e-0f1a2b3c4d5e",
+					quantity: 90,
+					unit: ProductionUnit.Tons,
+				},
+				{
+					...mockRecord,
+					id: "2c3d4e5f-6a7b-4c8d-9e0f-1a2b3c4d5e6f",
+					farmHarvestCropId: mockCornCrop.id,
+					farmHarvestCrop: mockCornCrop,
+					quantity: 10,
+					unit: ProductionUnit.Tons,
+				},
+			]);
+
+			const result = await service.getYield(farmId, harvestId);
+
+			expect(result).toEqual([
+				{
+					cropType: "soy",
+					plotId: null,
+					plantedArea: 50,
+					totalProduction: 270,
+					yieldPerHectare: 5.4,
+				},
+				{
+					cropType: "corn",
+					plotId: null,
+					plantedArea: null,
+					totalProduction: 10,
+					yieldPerHectare: null,
+				},
+			]);
+		});
+	});
+});
@@ -0,0 +1,357 @@
+import { BadRequestException, Injectable, NotFoundException } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import type { PinoLogger } from "nestjs-pino";
+
+import { SortOrder } from "@agro/shared/enums";
+import { calculateYieldPerHectare, convertToTons } from "@agro/shared/utils";
+
+import { Farm, FarmHarvest } from "@/modules/farms/entities";
+
+import {
+	CreateProductionRecordDto,
+	CropYieldResponseDto,
+	ProductionRecordResponseDto,
+	UpdateProductionRecordDto,
+} from "./dto";
+import { ProductionRecord } from "./entities";
+
+/**
+ * Service responsible for production records and yield calculations.
+ *
+ * Production is always recorded against a crop planted on a farm during a
+ * harvest, so every operation is scoped to a farm and a harvest.
+ *
+ * @example
+ * ```typescript
+ * // In a controller
+ * constructor(private readonly productionService: ProductionService) {}
+ *
+ * async create(farmId: string, harvestId: string, dto: CreateProductionRecordDto) {
+ *   return this.productionService.create(farmId, harvestId, dto);
+ * }
+ * ```
+ */
+@Injectable()
+export class ProductionService {
+	/**
+	 * Creates an instance of ProductionService.
+	 *
+	 * @param farmRepository TypeORM repository for Farm entity
+	 * @param farmHarvestRepository TypeORM repository for FarmHarvest entity
+	 * @param productionRecordRepository TypeORM repository for ProductionRecord entity
+	 */
+	constructor(
+		@InjectRepository(Farm)
+		private readonly farmRepository: Repository<Farm>,
+
+		@InjectRepository(FarmHarvest)
+		private readonly farmHarvestRepository: Repository<FarmHarvest>,
+
+		@InjectRepository(ProductionRecord)
+		private readonly productionRecordRepository: Repository<ProductionRecord>,
+
+		@InjectPinoLogger(ProductionService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Records the production of a crop planted on a farm during a harvest.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 * @param createProductionRecordDto The production data to record
+	 *
+	 * @returns The created production record
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or has no crops in the harvest
+	 * @throws {BadRequestException} If the crop was not planted on the farm (or plot) in the harvest
+	 *
+	 * @example
+	 * ```typescript
+	 * const record = await service.create(farmId, harvestId, {
+	 *   cropType: "soy",
+	 *   quantity: 3000,
+	 *   unit: ProductionUnit.Sacks60Kg,
+	 *   harvestedAt: "2025-03-20",
+	 * });
+	 * ```
+	 */
+	public async create(
+		farmId: string,
+		harvestId: string,
+		createProductionRecordDto: CreateProductionRecordDto,
+	): Promise<ProductionRecordResponseDto> {
+		const { cropType, plotId, quantity, unit, harvestedAt } = createProductionRecordDto;
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const crop = farmHarvest.crops.find(
+			(farmHarvestCrop) =>
+				farmHarvestCrop.cropType === cropType && farmHarvestCrop.plotId === (plotId ?? null),
+		);
+
+		if (!crop) {
+			throw new BadRequestException(
+				plotId === undefined ?
+					`Crop ${cropType} is not planted on farm ${farmId} in harvest ${harvestId}`
+				:	`Crop ${cropType} is not planted on plot ${plotId} of farm ${farmId} in harvest ${harvestId}`,
+			);
+		}
+
+		const record = this.productionRecordRepository.create({
+			farmHarvestCropId: crop.id,
+			quantity,
+			unit,
+			harvestedAt,
+		});
+		const savedRecord = await this.productionRecordRepository.save(record);
+
+		this.logger.info(
+			{ farmId, harvestId, cropType, plotId, productionRecordId: savedRecord.id },
+			"Production record created successfully",
+		);
+
+		return this.mapToResponseDto({ ...savedRecord, farmHarvestCrop: crop }, farmHarvest);
+	}
+
+	/**
+	 * Retrieves all production records of a farm in a harvest.
+	 *
+	 * Sorted by harvested date, most recent first.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 *
+	 * @returns The production records of every crop in the harvest
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or has no crops in the harvest
+	 */
+	public async findAll(
+		farmId: string,
+		harvestId: string,
+	): Promise<Array<ProductionRecordResponseDto>> {
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const records = await this.findRecords(farmHarvest);
+
+		return records.map((record) => this.mapToResponseDto(record, farmHarvest));
+	}
+
+	/**
+	 * Retrieves a single production record.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 * @param id The UUID of the production record
+	 *
+	 * @returns The production record with the specified ID
+	 *
+	 * @throws {NotFoundException} If the farm, its crops in the harvest, or the record do not exist
+	 */
+	public async findOne(
+		farmId: string,
+		harvestId: string,
+		id: string,
+	): Promise<ProductionRecordResponseDto> {
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const record = await this.findRecord(farmHarvest, id);
+
+		return this.mapToResponseDto(record, farmHarvest);
+	}
+
+	/**
+	 * Updates a production record.
+	 *
+	 * Allows partial updates - only provided fields will be updated.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 * @param id The UUID of the production record
+	 * @param updateProductionRecordDto The fields to update
+	 *
+	 * @returns The updated production record
+	 *
+	 * @throws {NotFoundException} If the farm, its crops in the harvest, or the record do not exist
+	 */
+	public async update(
+		farmId: string,
+		harvestId: string,
+		id: string,
+		updateProductionRecordDto: UpdateProductionRecordDto,
+	): Promise<ProductionRecordResponseDto> {
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const record = await this.findRecord(farmHarvest, id);
+
+		Object.assign(record, updateProductionRecordDto);
+		const updatedRecord = await this.productionRecordRepository.save(record);
+
+		this.logger.info(
+			{ farmId, harvestId, productionRecordId: id },
+			"Production record updated successfully",
+		);
+
+		return this.mapToResponseDto(updatedRecord, farmHarvest);
+	}
+
+	/**
+	 * Deletes a production record.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 * @param id The UUID of the production record
+	 *
+	 * @throws {NotFoundException} If the farm, its crops in the harvest, or the record do not exist
+	 */
+	public async delete(farmId: string, harvestId: string, id: string): Promise<void> {
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const record = await this.findRecord(farmHarvest, id);
+
+		await this.productionRecordRepository.remove(record);
+
+		this.logger.info(
+			{ farmId, harvestId, productionRecordId: id },
+			"Production record deleted successfully",
+		);
+	}
+
+	/**
+	 * Calculates the yield of each crop of a farm in a harvest.
+	 *
+	 * Sums every production record of a crop (converted to tons) and divides it by
+	 * the crop's planted area. Crops without production records are omitted.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 *
+	 * @returns The total production and yield per hectare of each crop
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or has no crops in the harvest
+	 *
+	 * @example
+	 * ```typescript
+	 * const yields = await service.getYield(farmId, harvestId);
+	 * // Returns: [{ cropType: "soy", plotId: null, plantedArea: 50, totalProduction: 180, yieldPerHectare: 3.6 }]
+	 * ```
+	 */
+	public async getYield(farmId: string, harvestId: string): Promise<Array<CropYieldResponseDto>> {
+		const farmHarvest = await this.findFarmHarvest(farmId, harvestId);
+		const records = await this.findRecords(farmHarvest);
+
+		return farmHarvest.crops.flatMap((crop) => {
+			const cropRecords = records.filter((record) => record.farmHarvestCropId === crop.id);
+
+			if (cropRecords.length === 0) return [];
+
+			const totalProduction = cropRecords.reduce(
+				(sum, record) => sum + convertToTons(record.quantity, record.unit),
+				0,
+			);
+
+			return [
+				{
+					cropType: crop.cropType,
+					plotId: crop.plotId,
+					plantedArea: crop.plantedArea,
+					totalProduction,
+					yieldPerHectare: calculateYieldPerHectare(totalProduction, crop.plantedArea),
+				},
+			];
+		});
+	}
+
+	/**
+	 * Finds the crops of a farm in a harvest.
+	 *
+	 * @param farmId The UUID of the farm
+	 * @param harvestId The UUID of the harvest
+	 *
+	 * @returns The farm-harvest association with its crops
+	 *
+	 * @throws {NotFoundException} If the farm does not exist or has no crops in the harvest
+	 */
+	private async findFarmHarvest(farmId: string, harvestId: string): Promise<FarmHarvest> {
+		const farmExists = await this.farmRepository.exists({ where: { id: farmId } });
+
+		if (!farmExists) {
+			throw new NotFoundException(`Farm with ID ${farmId} not found`);
+		}
+
+		const farmHarvest = await this.farmHarvestRepository.findOne({
+			where: { farmId, harvestId },
+			relations: { crops: true },
+		});
+
+		if (!farmHarvest) {
+			throw new NotFoundException(
+				`Farm with ID ${farmId} has no crops recorded for harvest with ID ${harvestId}`,
+			);
+		}
+
+		return farmHarvest;
+	}
+
+	/**
+	 * Finds the production records of every crop of a farm harvest.
+	 *
+	 * @param farmHarvest The farm-harvest association
+	 *
+	 * @returns The production records, most recent first
+	 */
+	private findRecords(farmHarvest: FarmHarvest): Promise<Array<ProductionRecord>> {
+		return this.productionRecordRepository.find({
+			where: { farmHarvestCrop: { farmHarvestId: farmHarvest.id } },
+			relations: { farmHarvestCrop: true },
+			order: { harvestedAt: SortOrder.Descending, createdAt: SortOrder.Descending },
+		});
+	}
+
+	/**
+	 * Finds a production record of a farm harvest.
+	 *
+	 * @param farmHarvest The farm-harvest association
+	 * @param id The UUID of the production record
+	 *
+	 * @returns The production record
+	 *
+	 * @throws {NotFoundException} If the record does not exist in the farm harvest
+	 */
+	private async findRecord(farmHarvest: FarmHarvest, id: string): Promise<ProductionRecord> {
+		const record = await this.productionRecordRepository.findOne({
+			where: { id, farmHarvestCrop: { farmHarvestId: farmHarvest.id } },
+			relations: { farmHarvestCrop: true },
+		});
+
+		if (!record) {
+			throw new NotFoundException(`Production record with ID ${id} not found`);
+		}
+
+		return record;
+	}
+
+	/**
+	 * Maps a {@link ProductionRecord} entity to a {@link ProductionRecordResponseDto}.
+	 *
+	 * @param record The production record entity to map (with its farm harvest crop loaded)
+	 * @param farmHarvest The farm-harvest association the record belongs to
+	 *
+	 * @returns The mapped response DTO including the quantity in tons
+	 */
+	private mapToResponseDto(
+		record: ProductionRecord,
+		farmHarvest: FarmHarvest,
+	): ProductionRecordResponseDto {
+		return {
+			id: record.id,
+			farmId: farmHarvest.farmId,
+			harvestId: farmHarvest.harvestId,
+			cropType: record.farmHarvestCrop.cropType,
+			plotId: record.farmHarvestCrop.plotId,
+			quantity: record.quantity,
+			unit: record.unit,
+			quantityInTons: convertToTons(record.quantity, record.unit),
+			harvestedAt: record.harvestedAt,
+			createdAt: record.createdAt,
+			updatedAt: record.updatedAt,
+		};
+	}
+}
@@ -0,0 +1,61 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { CitySearchResult } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for a city found by a global search.
+ *
+ * @example
+ * ```typescript
+ * const result: CitySearchResultDto = {
+ *   id: "0b5d4c5e-8f3e-4a8a-9a57-3c0c6f1b2d4e",
+ *   name: "São João da Boa Vista",
+ *   state: BrazilianState.SP
+ * };
+ * ```
+ */
+@Exclude()
+export class CitySearchResultDto implements CitySearchResult {
+	/**
+	 * Unique identifier of the city.
+	 *
+	 * @example "0b5d4c5e-8f3e-4a8a-9a57-3c0c6f1b2d4e"
+	 */
+	@ApiProperty({
+		description: "Unique identifier of the city",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * City name.
+	 *
+	 * @example "São João da Boa Vista"
+	 */
+	@ApiProperty({
+		description: "City name",
+		example: "São João da Boa Vista",
+	})
+	@Expose()
+	name!: string;
+
+	/**
+	 * Brazilian state (UF) of the city.
+	 *
+	 * @example "SP"
+	 */
+	@ApiProperty({
+		description: "Brazilian state (UF)",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@Expose()
+	state!: BrazilianState;
+}
@@ -0,0 +1,74 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { FarmSearchResult } from "@agro/shared/types";
+
+import { BrazilianState } from "@agro/shared/enums";
+
+/**
+ * Data Transfer Object for a farm found by a global search.
+ *
+ * @example
+ * ```typescript
+ * const result: FarmSearchResultDto = {
+ *   id: "660e8400-e29b-41d4-a716-446655440001",
+ *   name: "Fazenda São João",
+ *   city: "Campinas",
+ *   state: BrazilianState.SP
+ * };
+ * ```
+ */
+@Exclude()
+export class FarmSearchResultDto implements FarmSearchResult {
+	/**
+	 * Unique identifier of the farm.
+	 *
+	 * @example "660e8400-e29b-41d4-a716-446655440001"
+	 */
+	@ApiProperty({
+		description: "Unique identifier of the farm",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Farm name.
+	 *
+	 * @example "Fazenda São João"
+	 */
+	@ApiProperty({
+		description: "Farm name",
+		example: "Fazenda São João",
+	})
+	@Expose()
+	name!: string;
+
+	/**
+	 * City where the farm is located.
+	 *
+	 * @example "Campinas"
+	 */
+	@ApiProperty({
+		description: "City where the farm is located",
+		example: "Campinas",
+	})
+	@Expose()
+	city!: string;
+
+	/**
+	 * Brazilian state (UF) where the farm is located.
+	 *
+	 * @example "SP"
+	 */
+	@ApiProperty({
+		description: "Brazilian state (UF)",
+		example: BrazilianState.SP,
+		enum: BrazilianState,
+		enumName: "BrazilianState",
+	})
+	@Expose()
+	state!: BrazilianState;
+}
@@ -0,0 +1,5 @@
+export * from "./city-search-result.dto";
+export * from "./farm-search-result.dto";
+export * from "./producer-search-result.dto";
+export * from "./search-query.dto";
+export * from "./search-results-response.dto";
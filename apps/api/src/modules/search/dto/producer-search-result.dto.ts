@@ -0,0 +1,58 @@
+import { faker } from "@faker-js/faker/locale/pt_BR";
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { ProducerSearchResult } from "@agro/shared/types";
+
+/**
+ * Data Transfer Object for a producer found by a global search.
+ *
+ * @example
+ * ```typescript
+ * const result: ProducerSearchResultDto = {
+ *   id: "550e8400-e29b-41d4-a716-446655440000",
+ *   name: "João da Silva",
+ *   document: "***.444.777-**"
+ * };
+ * ```
+ */
+@Exclude()
+export class ProducerSearchResultDto implements ProducerSearchResult {
+	/**
+	 * Unique identifier of the producer.
+	 *
+	 * @example "550e8400-e29b-41d4-a716-446655440000"
+	 */
+	@ApiProperty({
+		description: "Unique identifier of the producer",
+		example: faker.string.uuid(),
+		format: "uuid",
+	})
+	@Expose()
+	id!: string;
+
+	/**
+	 * Producer name.
+	 *
+	 * @example "João da Silva"
+	 */
+	@ApiProperty({
+		description: "Producer name",
+		example: faker.person.fullName(),
+	})
+	@Expose()
+	name!: string;
+
+	/**
+	 * CPF or CNPJ without formatting, with CPFs masked unless the user may reveal personal data.
+	 *
+	 * @example "***.444.777-**"
+	 */
+	@ApiProperty({
+		description:
+			"CPF or CNPJ without formatting. CPFs are masked unless the user may reveal personal data.",
+		example: "***.444.777-**",
+	})
+	@Expose()
+	document!: string;
+}
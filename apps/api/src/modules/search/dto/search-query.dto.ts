@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from "class-validator";
+
+/**
+ * Query parameters of a global search across producers, farms and cities.
+ *
+ * @example
+ * ```typescript
+ * const query: SearchQueryDto = {
+ *   q: "sao joao",
+ *   limit: 5
+ * };
+ * ```
+ */
+export class SearchQueryDto {
+	/** Words to search for, ignoring case and accents */
+	@ApiProperty({
+		description:
+			"Words to search for. Each word matches the start of a word, ignoring case and accents. Producers are also matched by document, formatted or not.",
+		example: "sao joao",
+		maxLength: 100,
+	})
+	@IsString({ message: "Search must be a string" })
+	@IsNotEmpty({ message: "Search is required" })
+	@MaxLength(100, { message: "Search cannot exceed 100 characters" })
+	q!: string;
+
+	/** Maximum number of results of each kind. Defaults to 5, max 20 */
+	@ApiPropertyOptional({
+		description: "Maximum number of results of each kind",
+		example: 5,
+		minimum: 1,
+		maximum: 20,
+		default: 5,
+	})
+	@IsOptional()
+	@Type(() => Number)
+	@IsInt({ message: "Limit must be an integer" })
+	@Min(1, { message: "Limit must be at least 1" })
+	@Max(20, { message: "Limit cannot exceed 20" })
+	limit?: number = 5;
+}
@@ -0,0 +1,58 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { Exclude, Expose } from "class-transformer";
+
+import type { SearchResults } from "@agro/shared/types";
+
+import { CitySearchResultDto } from "./city-search-result.dto";
+import { FarmSearchResultDto } from "./farm-search-result.dto";
+import { ProducerSearchResultDto } from "./producer-search-result.dto";
+
+/**
+ * Data Transfer Object for the results of a global search, grouped by kind.
+ *
+ * Each group is sorted by relevance, best match first.
+ *
+ * @example
+ * ```typescript
+ * const response: SearchResultsResponseDto = {
+ *   producers: [{ id: "...", name: "João da Silva", document: "***.444.777-**" }],
+ *   farms: [{ id: "...", name: "Fazenda São João", city: "Campinas", state: "SP" }],
+ *   cities: [{ id: "...", name: "São João da Boa Vista", state: "SP" }]
+ * };
+ * ```
+ */
+@Exclude()
+export class SearchResultsResponseDto implements SearchResults {
+	/**
+	 * Producers matching by name or document.
+	 */
+	@ApiProperty({
+		description: "Producers matching by name or document, best match first",
+		type: [ProducerSearchResultDto],
+		isArray: true,
+	})
+	@Expose()
+	producers!: Array<ProducerSearchResultDto>;
+
+	/**
+	 * Farms matching by name or city.
+	 */
+	@ApiProperty({
+		description: "Farms matching by name or city, best match first",
+		type: [FarmSearchResultDto],
+		isArray: true,
+	})
+	@Expose()
+	farms!: Array<FarmSearchResultDto>;
+
+	/**
+	 * Cities matching by name or state.
+	 */
+	@ApiProperty({
+		description: "Cities matching by name or state, best match first",
+		type: [CitySearchResultDto],
+		isArray: true,
+	})
+	@Expose()
+	cities!: Array<CitySearchResultDto>;
+}
@@ -0,0 +1,41 @@
+import { Controller, Get, HttpStatus, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from "@nestjs/swagger";
+
+import { SearchQueryDto, SearchResultsResponseDto } from "./dto";
+import { SearchService } from "./search.service";
+
+/**
+ * Controller handling HTTP requests for the global search.
+ *
+ * Finds producers, farms and cities in a single request, so the search box
+ * of the web app can suggest all of them as the user types.
+ */
+@ApiTags("Search")
+@ApiBearerAuth("JWT")
+@Controller("search")
+export class SearchController {
+	constructor(private readonly searchService: SearchService) {}
+
+	/**
+	 * Searches producers, farms and cities
+	 *
+	 * @param query Search words and the maximum number of results of each kind
+	 *
+	 * @returns Results grouped by kind, best match first
+	 */
+	@Get()
+	@ApiOperation({
+		summary: "Search producers, farms and cities",
+		description:
+			"Matches the start of every word of the search, ignoring case and accents, and ranks the results by relevance. Producers are matched by name or document (formatted or not), farms by name or city, and cities by name or state. Deleted producers and farms are left out.",
+	})
+	@ApiResponse({
+		status: HttpStatus.OK,
+		description: "Search results grouped by kind",
+		type: SearchResultsResponseDto,
+	})
+	@ApiResponse({ status: HttpStatus.BAD_REQUEST, description: "Invalid search" })
+	public search(@Query() query: SearchQueryDto): Promise<SearchResultsResponseDto> {
+		return this.searchService.search(query);
+	}
+}
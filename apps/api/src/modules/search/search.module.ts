@@ -0,0 +1,22 @@
+import { Module } from "@nestjs/common";
+import { TypeOrmModule } from "@nestjs/typeorm";
+
+import { City } from "@/modules/cities/entities/city.entity";
+import { Farm } from "@/modules/farms/entities/farm.entity";
+import { Producer } from "@/modules/producers/entities/producer.entity";
+
+import { SearchController } from "./search.controller";
+import { SearchService } from "./search.service";
+
+/**
+ * NestJS module for the global search across producers, farms and cities.
+ *
+ * Queries the full-text tables created by the `CreateSearchIndexes` migration,
+ * which triggers keep in sync with the producers, farms and cities tables.
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([City, Farm, Producer])],
+	controllers: [SearchController],
+	providers: [SearchService],
+})
+export class SearchModule {}
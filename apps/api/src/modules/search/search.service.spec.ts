@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Unit tests for {@link SearchService}.
+ *
+ * Tests the full-text queries of the global search, the masking of producer
+ * documents and the handling of searches without words, using mocked
+ * repositories.
+ */
+
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { beforeEach, describe, expect, it, mock } from "bun:test";
+
+import { BrazilianState, UserRole } from "@agro/shared/enums";
+
+import { currentUserStorage } from "@/common";
+import { City } from "@/modules/cities/entities/city.entity";
+import { Farm } from "@/modules/farms/entities/farm.entity";
+import { Producer } from "@/modules/producers/entities/producer.entity";
+
+import { SearchService } from "./search.service";
+
+describe("SearchService", () => {
+	let service: SearchService;
+
+	/** Query builder methods used by the search */
+	interface MockQueryBuilder {
+		innerJoin: ReturnType<typeof mock>;
+		where: ReturnType<typeof mock>;
+		orderBy: ReturnType<typeof mock>;
+		limit: ReturnType<typeof mock>;
+		getMany: ReturnType<typeof mock>;
+	}
+
+	/** Creates a chainable query builder resolving `getMany` to the given rows */
+	const createMockQueryBuilder = (rows: Array<unknown> = []): MockQueryBuilder => {
+		const qb: MockQueryBuilder = {
+			innerJoin: mock(() => qb),
+			where: mock(() => qb),
+			orderBy: mock(() => qb),
+			limit: mock(() => qb),
+			getMany: mock(() => Promise.resolve(rows)),
+		};
+
+		return qb;
+	};
+
+	const mockProducerRepository = { createQueryBuilder: mock() };
+	const mockFarmRepository = { createQueryBuilder: mock() };
+	const mockCityRepository = { createQueryBuilder: mock() };
+
+	const mockLogger = {
+		setContext: mock(),
+		info: mock(),
+		warn: mock(),
+		error: mock(),
+		debug: mock(),
+	};
+
+	const adminUser = {
+		userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+		email: "admin@example.com",
+		role: UserRole.Admin,
+	};
+
+	const mockProducer = {
+		id: "550e8400-e29b-41d4-a716-446655440000",
+		name: "João da Silva",
+		document: "11144477735",
+	};
+
+	const mockFarm = {
+		id: "660e8400-e29b-41d4-a716-446655440001",
+		name: "Fazenda São João",
+		city: "Campinas",
+		state: BrazilianState.SP,
+	};
+
+	const mockCity = {
+		id: "0b5d4c5e-8f3e-4a8a-9a57-3c0c6f1b2d4e",
+		name: "São João da Boa Vista",
+		state: BrazilianState.SP,
+	};
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				SearchService,
+				{
+					provide: getRepositoryToken(Producer),
+					useValue: mockProducerRepository,
+				},
+				{
+					provide: getRepositoryToken(Farm),
+					useValue: mockFarmRepository,
+				},
+				{
+					provide: getRepositoryToken(City),
+					useValue: mockCityRepository,
+				},
+				{
+					provide: `PinoLogger:${SearchService.name}`,
+					useValue: mockLogger,
+				},
+			],
+		}).compile();
+
+		service = module.get<SearchService>(SearchService);
+
+		mockProducerRepository.createQueryBuilder.mockReset();
+		mockFarmRepository.createQueryBuilder.mockReset();
+		mockCityRepository.createQueryBuilder.mockReset();
+	});
+
+	it("should be defined", () => {
+		expect(service).toBeDefined();
+	});
+
+	describe("search", () => {
+		it("should return the matches of each kind, ranked by relevance", async () => {
+			const producerQb = createMockQueryBuilder([{ ...mockProducer, document: "11222333000181" }]);
+			const farmQb = createMockQueryBuilder([mockFarm]);
+			const cityQb = createMockQueryBuilder([mockCity]);
+			mockProducerRepository.createQueryBuilder.mockReturnValue(producerQb);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(farmQb);
+			mockCityRepository.createQueryBuilder.mockReturnValue(cityQb);
+
+			const result = await service.search({ q: "Sao Joao", limit: 3 });
+
+			expect(result).toEqual({
+				producers: [{ ...mockProducer, document: "11222333000181" }],
+				farms: [mockFarm],
+				cities: [mockCity],
+			});
+			expect(producerQb.where).toHaveBeenCalledWith(`"producers_search" MATCH :search`, {
+				search: '{name} : ("Sao"* AND "Joao"*)',
+			});
+			expect(farmQb.where).toHaveBeenCalledWith(`"farms_search" MATCH :search`, {
+				search: '"Sao"* AND "Joao"*',
+			});
+			expect(cityQb.orderBy).toHaveBeenCalledWith(`"cities_search"."rank"`);
+			expect(cityQb.limit).toHaveBeenCalledWith(3);
+		});
+
+		it("should match producers by document when the search has digits", async () => {
+			const producerQb = createMockQueryBuilder();
+			mockProducerRepository.createQueryBuilder.mockReturnValue(producerQb);
+			mockFarmRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+			mockCityRepository.createQueryBuilder.mockReturnValue(createMockQueryBuilder());
+
+			await service.search({ q: "111.444" });
+
+			expect(producerQb.where).toHaveBeenCalledWith(`"producers_search" MATCH :search`, {
+				search: '{name} : ("111"* AND "444"*) OR {document} : ("111444"*)',
+			});
+			expect(producerQb.limit).toHaveBeenCalledWith(5);
+		});
+
+		it("should mask CPFs unless the user may reveal personal data", async () => {
+			mockProducerRepository.createQueryBuilder.mockImplementation(() =>
+				createMockQueryBuilder([mockProducer]),
+			);
+			mockFarmRepository.createQueryBuilder.mockImplementation(() => createMockQueryBuilder());
+			mockCityRepository.createQueryBuilder.mockImplementation(() => createMockQueryBuilder());
+
+			const masked = await currentUserStorage.run({ ...adminUser, role: UserRole.User }, () =>
+				service.search({ q: "Silva" }),
+			);
+			const revealed = await currentUserStorage.run(adminUser, () =>
+				service.search({ q: "Silva" }),
+			);
+
+			expect(masked.producers[0]?.document).toBe("***.444.777-**");
+			expect(revealed.producers[0]?.document).toBe("11144477735");
+		});
+
+		it("should return no results for searches without words", async () => {
+			const result = await service.search({ q: '"*' });
+
+			expect(result).toEqual({ producers: [], farms: [], cities: [] });
+			expect(mockProducerRepository.createQueryBuilder).not.toHaveBeenCalled();
+			expect(mockFarmRepository.createQueryBuilder).not.toHaveBeenCalled();
+			expect(mockCityRepository.createQueryBuilder).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,179 @@
+import { Injectable } from "@nestjs/common";
+import { InjectRepository } from "@nestjs/typeorm";
+import { InjectPinoLogger, PinoLogger } from "nestjs-pino";
+import { Repository } from "typeorm";
+
+import type {
+	CitySearchResultDto,
+	FarmSearchResultDto,
+	ProducerSearchResultDto,
+	SearchQueryDto,
+	SearchResultsResponseDto,
+} from "./dto";
+
+import type { BrazilianState } from "@agro/shared/enums";
+
+import { Permission } from "@agro/shared/enums";
+import { maskDocument } from "@agro/shared/validators";
+
+import { currentUserHasPermission, toFullTextQuery, toProducerFullTextQuery } from "@/common";
+import { City } from "@/modules/cities/entities/city.entity";
+import { Farm } from "@/modules/farms/entities/farm.entity";
+import { Producer } from "@/modules/producers/entities/producer.entity";
+
+/**
+ * Service for the global search across producers, farms and cities.
+ *
+ * Matches the full-text tables kept up to date by triggers (`producers_search`,
+ * `farms_search` and `cities_search`), so searches ignore case and accents
+ * and are ranked by relevance (BM25).
+ *
+ * @example
+ * ```typescript
+ * const results = await searchService.search({ q: "sao joao" });
+ * console.log(results.cities[0]?.name); // "São João da Boa Vista"
+ * ```
+ */
+@Injectable()
+export class SearchService {
+	constructor(
+		@InjectRepository(Producer)
+		private readonly producerRepository: Repository<Producer>,
+
+		@InjectRepository(Farm)
+		private readonly farmRepository: Repository<Farm>,
+
+		@InjectRepository(City)
+		private readonly cityRepository: Repository<City>,
+
+		@InjectPinoLogger(SearchService.name)
+		private readonly logger: PinoLogger,
+	) {}
+
+	/**
+	 * Searches producers, farms and cities.
+	 *
+	 * Every word of the search must match the start of a word. Producers are
+	 * matched by name, or by document when the search has digits; farms by
+	 * name or city; cities by name or state. Deleted producers and farms are
+	 * left out, and CPFs are masked unless the user may reveal personal data.
+	 *
+	 * @param query Search words and the maximum number of results of each kind
+	 *
+	 * @returns Results grouped by kind, best match first; empty if the search has no words
+	 *
+	 * @example
+	 * ```typescript
+	 * const results = await searchService.search({ q: "111.444.777-35", limit: 5 });
+	 * // { producers: [{ name: "João da Silva", document: "***.444.777-**", ... }], farms: [], cities: [] }
+	 * ```
+	 */
+	public async search(query: SearchQueryDto): Promise<SearchResultsResponseDto> {
+		const { q, limit = 5 } = query;
+
+		const producerQuery = toProducerFullTextQuery(q);
+		const fullTextQuery = toFullTextQuery(q);
+
+		if (!producerQuery || !fullTextQuery) {
+			this.logger.debug({ queryLength: q.length }, "Search has no words");
+
+			return { producers: [], farms: [], cities: [] };
+		}
+
+		const [producers, farms, cities] = await Promise.all([
+			this.searchProducers(producerQuery, limit),
+			this.searchFarms(fullTextQuery, limit),
+			this.searchCities(fullTextQuery, limit),
+		]);
+
+		this.logger.debug(
+			{
+				queryLength: q.length,
+				producers: producers.length,
+				farms: farms.length,
+				cities: cities.length,
+			},
+			"Search completed",
+		);
+
+		return { producers, farms, cities };
+	}
+
+	/**
+	 * Finds the producers matching a full-text query.
+	 *
+	 * @param search FTS5 match expression of the `producers_search` table
+	 * @param limit Maximum number of producers
+	 *
+	 * @returns Matching producers, best match first
+	 */
+	private async searchProducers(
+		search: string,
+		limit: number,
+	): Promise<Array<ProducerSearchResultDto>> {
+		const producers = await this.producerRepository
+			.createQueryBuilder("producer")
+			.innerJoin(
+				"producers_search",
+				"producers_search",
+				`"producers_search"."id" = "producer"."id"`,
+			)
+			.where(`"producers_search" MATCH :search`, { search })
+			.orderBy(`"producers_search"."rank"`)
+			.limit(limit)
+			.getMany();
+
+		const revealDocument = currentUserHasPermission(Permission.RevealPersonalData);
+
+		return producers.map(({ id, name, document }) => ({
+			id,
+			name,
+			document: revealDocument ? document : maskDocument(document),
+		}));
+	}
+
+	/**
+	 * Finds the farms matching a full-text query.
+	 *
+	 * @param search FTS5 match expression of the `farms_search` table
+	 * @param limit Maximum number of farms
+	 *
+	 * @returns Matching farms, best match first
+	 */
+	private async searchFarms(search: string, limit: number): Promise<Array<FarmSearchResultDto>> {
+		const farms = await this.farmRepository
+			.createQueryBuilder("farm")
+			.innerJoin("farms_search", "farms_search", `"farms_search"."id" = "farm"."id"`)
+			.where(`"farms_search" MATCH :search`, { search })
+			.orderBy(`"farms_search"."rank"`)
+			.limit(limit)
+			.getMany();
+
+		return farms.map(({ id, name, city, state }) => ({
+			id,
+			name,
+			city,
+			state: state as BrazilianState,
+		}));
+	}
+
+	/**
+	 * Finds the cities matching a full-text query.
+	 *
+	 * @param search FTS5 match expression of the `cities_search` table
+	 * @param limit Maximum number of cities
+	 *
+	 * @returns Matching cities, best match first
+	 */
+	private async searchCities(search: string, limit: number): Promise<Array<CitySearchResultDto>> {
+		const cities = await this.cityRepository
+			.createQueryBuilder("city")
+			.innerJoin("cities_search", "cities_search", `"cities_search"."id" = "city"."id"`)
+			.where(`"cities_search" MATCH :search`, { search })
+			.orderBy(`"cities_search"."rank"`)
+			.limit(limit)
+			.getMany();
+
+		return cities.map(({ id, name, state }) => ({ id, name, state: state as BrazilianState }));
+	}
+}
@@ -46,6 +46,18 @@ export const producerFixtures = {
 		};
 	},
 
+	/**
+	 * Valid producer with an alphanumeric CNPJ document.
+	 *
+	 * @returns Valid producer creation data
+	 */
+	validAlphanumericCNPJ(): CreateProducerDto {
+		return {
+			name: faker.company.name(),
+			document: generateDocument.cnpj({ formatted: true, alphanumeric: true }),
+		};
+	},
+
 	/**
 	 * Producer with custom name and valid CPF.
 	 *
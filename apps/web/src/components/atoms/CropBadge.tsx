@@ -0,0 +1,55 @@
+import { Badge } from "@radix-ui/themes";
+import styled from "styled-components";
+
+import type { ReactElement, ReactNode } from "react";
+
+/** Props for the CropBadge component */
+export interface CropBadgeProps {
+	/** Hex color of the crop, from the crop catalog */
+	color: string;
+
+	/** Badge content, usually the crop label */
+	children: ReactNode;
+
+	/** Whether the badge is filled with the crop color */
+	selected?: boolean;
+
+	/** Badge size */
+	size?: "1" | "2";
+
+	/** Click handler, makes the badge act as a toggle */
+	onClick?: () => void;
+}
+
+/**
+ * Badge colored with the hex color of a crop.
+ *
+ * Radix badges only accept theme accent colors, while crop colors come from
+ * the crop catalog, so the colors are applied through styles instead.
+ *
+ * @example
+ * ```tsx
+ * <CropBadge color={getCropColor("soy")} selected={isSelected} onClick={toggle}>
+ *   {getCropLabel("soy")}
+ * </CropBadge>
+ * ```
+ */
+export function CropBadge({ color, children, selected = false, size = "1", onClick }: CropBadgeProps): ReactElement {
+	return (
+		<StyledBadge
+			$cropColor={color}
+			$selected={selected}
+			variant={selected ? "solid" : "soft"}
+			size={size}
+			onClick={onClick}
+			style={onClick ? { cursor: "pointer" } : undefined}
+		>
+			{children}
+		</StyledBadge>
+	);
+}
+
+const StyledBadge = styled(Badge)<{ $cropColor: string; $selected: boolean }>`
+	background-color: ${(props) => (props.$selected ? props.$cropColor : `${props.$cropColor}26`)};
+	color: ${(props) => (props.$selected ? "#FFFFFF" : props.$cropColor)};
+`;
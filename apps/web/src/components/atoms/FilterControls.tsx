@@ -1,16 +1,26 @@
-import { Badge, Box, Button, Flex, Select, Text, TextField } from "@radix-ui/themes";
-import { FilterIcon, FilterXIcon, SearchIcon } from "lucide-react";
+import { Badge, Box, Button, CheckboxGroup, Dialog, Flex, Grid, Select, Text, TextField } from "@radix-ui/themes";
+import { FilterIcon, FilterXIcon, SearchIcon, SlidersHorizontalIcon } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 
 import type { FarmFilterOptions, ProducersFilterOptions } from "@agro/shared/types";
 
-import { BrazilianState, CropType, FarmSortField, ProducerSortField, SortOrder } from "@agro/shared/enums";
+import {
+	BrazilianState,
+	CropsMatch,
+	DocumentType,
+	FarmSortField,
+	ProducerSortField,
+	SortOrder,
+} from "@agro/shared/enums";
 
 import { Autocomplete } from "@/components/molecules";
 import { useLocalStorageContext } from "@/contexts";
+import { useCropCatalog } from "@/hooks";
 import { STORAGE_KEYS } from "@/utils";
 
+import { CropBadge } from "./CropBadge";
+
 /**
  * Base props for filter controls component
  *
@@ -42,11 +52,36 @@ type FarmFilterControlsProps = BaseFilterControlProps<FarmFilterOptions, "farms"
 /** Union type for discriminated props */
 type FilterControlsProps = ProducerFilterControlsProps | FarmFilterControlsProps;
 
+/** Advanced farm filters being edited in the drawer, as entered in its fields */
+interface AdvancedFarmFiltersDraft {
+	states: BrazilianState[];
+	cropsMatch: CropsMatch;
+	minTotalArea: string;
+	maxTotalArea: string;
+	minArablePercentage: string;
+	maxArablePercentage: string;
+	createdFrom: string;
+	createdTo: string;
+}
+
+/** Keys of the farm filters set in the advanced filters drawer */
+const ADVANCED_FARM_FILTER_KEYS = [
+	"states",
+	"minTotalArea",
+	"maxTotalArea",
+	"minArablePercentage",
+	"maxArablePercentage",
+	"createdFrom",
+	"createdTo",
+] as const satisfies (keyof FarmFilterOptions)[];
+
 /**
  * Reusable filter controls component for producers and farms lists.
  *
  * Provides search input, sort field selector, sort order toggle, and
- * entity-specific filters (state, city, producer for farms).
+ * entity-specific filters (operating state, crop, document type and farm count
+ * for producers; state, city, producer and crops for farms, plus an
+ * advanced filters drawer).
  * Built with Radix UI primitives for accessibility and consistency.
  *
  * @example
@@ -85,6 +120,8 @@ export function FilterControls(props: FilterControlsProps) {
 		producers: [
 			{ value: ProducerSortField.Name, label: t(($) => $.producers.name) },
 			{ value: ProducerSortField.Document, label: t(($) => $.producers.document) },
+			{ value: ProducerSortField.FarmCount, label: t(($) => $.producers.farmCount) },
+			{ value: ProducerSortField.TotalArea, label: t(($) => $.farms.totalArea) },
 			{ value: ProducerSortField.CreatedAt, label: t(($) => $.form.createdAt) },
 		],
 		farms: [
@@ -112,13 +149,21 @@ export function FilterControls(props: FilterControlsProps) {
 		const hasSearch = Boolean(filters.search && filters.search.trim() !== "");
 
 		if (type === "producers") {
-			return !isDefaultSort || hasSearch;
+			const hasProducerSpecificFilters =
+				Boolean(filters.operatingState) ||
+				Boolean(filters.crop) ||
+				Boolean(filters.documentType) ||
+				filters.minFarmCount !== undefined ||
+				filters.maxFarmCount !== undefined;
+
+			return !isDefaultSort || hasSearch || hasProducerSpecificFilters;
 		} else {
 			const hasFarmSpecificFilters =
 				Boolean(filters.state) ||
 				Boolean(filters.city) ||
 				Boolean(filters.producerId) ||
-				Boolean(filters.crops && filters.crops.length > 0);
+				Boolean(filters.crops && filters.crops.length > 0) ||
+				countAdvancedFarmFilters(filters) > 0;
 
 			return !isDefaultSort || hasSearch || hasFarmSpecificFilters;
 		}
@@ -232,7 +277,7 @@ export function FilterControls(props: FilterControlsProps) {
 						onFiltersChange={onFiltersChange}
 						availableProducers={props.availableProducers}
 					/>
-				:	null}
+				:	<ProducerFilters filters={filters} isLoading={isLoading} onFiltersChange={onFiltersChange} />}
 
 				{/* Active Filters Indicator */}
 				{hasActiveFilters && (
@@ -248,6 +293,129 @@ export function FilterControls(props: FilterControlsProps) {
 	);
 }
 
+/** Component for producer-specific filters */
+function ProducerFilters({ filters, isLoading, onFiltersChange }: Omit<ProducerFilterControlsProps, "type">) {
+	const { t } = useTranslation();
+	const { crops, getCropLabel } = useCropCatalog();
+
+	const documentTypeOptions = [
+		{ value: DocumentType.CPF, label: t(($) => $.filters.documentTypeCpf) },
+		{ value: DocumentType.CNPJ, label: t(($) => $.filters.documentTypeCnpj) },
+	];
+
+	const farmCountFields = [
+		{ key: "minFarmCount", placeholder: t(($) => $.filters.min) },
+		{ key: "maxFarmCount", placeholder: t(($) => $.filters.max) },
+	] as const;
+
+	return (
+		<Flex gap="3" wrap="wrap" mb="2">
+			{/* Operating State Filter */}
+			<Box style={{ flex: "1 1 180px", minWidth: "110px" }}>
+				<Text as="label" size="2" weight="medium">
+					{t(($) => $.filters.operatingState)}
+				</Text>
+				<Select.Root
+					value={filters.operatingState ?? ""}
+					onValueChange={(value) => {
+						onFiltersChange({
+							...filters,
+							operatingState: value === "" ? undefined : (value as BrazilianState),
+						});
+					}}
+					disabled={isLoading}
+				>
+					<Select.Trigger placeholder={t(($) => $.farms.selectState)} style={{ width: "100%" }} />
+					<Select.Content>
+						{Object.values(BrazilianState).map((state) => (
+							<Select.Item key={state} value={state}>
+								{t(($) => $.states[state])}
+							</Select.Item>
+						))}
+					</Select.Content>
+				</Select.Root>
+			</Box>
+
+			{/* Crop Filter */}
+			<Box style={{ flex: "1 1 180px", minWidth: "110px" }}>
+				<Text as="label" size="2" weight="medium">
+					{t(($) => $.filters.crop)}
+				</Text>
+				<Select.Root
+					value={filters.crop ?? ""}
+					onValueChange={(value) => {
+						onFiltersChange({ ...filters, crop: value === "" ? undefined : value });
+					}}
+					disabled={isLoading}
+				>
+					<Select.Trigger placeholder={t(($) => $.filters.selectCrop)} style={{ width: "100%" }} />
+					<Select.Content>
+						{crops.map(({ code }) => (
+							<Select.Item key={code} value={code}>
+								{getCropLabel(code)}
+							</Select.Item>
+						))}
+					</Select.Content>
+				</Select.Root>
+			</Box>
+
+			{/* Document Type Filter */}
+			<Box style={{ flex: "1 1 160px", minWidth: "110px" }}>
+				<Text as="label" size="2" weight="medium">
+					{t(($) => $.filters.documentType)}
+				</Text>
+				<Select.Root
+					value={filters.documentType ?? ""}
+					onValueChange={(value) => {
+						onFiltersChange({
+							...filters,
+							documentType: value === "" ? undefined : (value as DocumentType),
+						});
+					}}
+					disabled={isLoading}
+				>
+					<Select.Trigger placeholder={t(($) => $.filters.selectDocumentType)} style={{ width: "100%" }} />
+					<Select.Content>
+						{documentTypeOptions.map((option) => (
+							<Select.Item key={option.value} value={option.value}>
+								{option.label}
+							</Select.Item>
+						))}
+					</Select.Content>
+				</Select.Root>
+			</Box>
+
+			{/* Farm Count Range */}
+			<Box style={{ flex: "1 1 200px", minWidth: "160px" }}>
+				<Text as="label" size="2" weight="medium">
+					{t(($) => $.filters.farmCountRange)}
+				</Text>
+				<Flex gap="2">
+					{farmCountFields.map(({ key, placeholder }) => (
+						<TextField.Root
+							key={key}
+							type="number"
+							min={0}
+							step={1}
+							placeholder={placeholder}
+							value={filters[key]?.toString() ?? ""}
+							onChange={(event) => {
+								const count = toOptionalNumber(event.target.value);
+
+								onFiltersChange({
+									...filters,
+									[key]: count === undefined ? undefined : Math.max(0, Math.trunc(count)),
+								});
+							}}
+							disabled={isLoading}
+						/>
+					))}
+				</Flex>
+			</Box>
+		</Flex>
+	);
+}
+
 /** Component for farm-specific filters */
 function FarmFilters({
 	filters,
@@ -257,6 +425,7 @@ function FarmFilters({
 }: Omit<FarmFilterControlsProps, "type">) {
 	const { t } = useTranslation();
 	const storage = useLocalStorageContext();
+	const { crops, getCropLabel } = useCropCatalog();
 
 	/** Get cities from localStorage */
 	const availableCities = useMemo<Record<BrazilianState, string[]>>(() => {
@@ -341,23 +510,15 @@ function FarmFilters({
 					{t(($) => $.dashboard.crops)}
 				</Text>
 				<Flex gap="2" wrap="wrap" mt="2">
-					{Object.values(CropType).map((crop) => {
+					{crops.map(({ code: crop, color }) => {
 						const isSelected = filters.crops?.includes(crop) ?? false;
-						const cropToColor: Record<CropType, "blue" | "green" | "orange" | "gray" | "red"> = {
-							[CropType.Corn]: "green",
-							[CropType.Soy]: "blue",
-							[CropType.Coffee]: "orange",
-							[CropType.Sugarcane]: "gray",
-							[CropType.Cotton]: "red",
-						};
 
 						return (
-							<Badge
+							<CropBadge
 								key={crop}
-								color={cropToColor[crop]}
-								variant={isSelected ? "solid" : "soft"}
+								color={color}
+								selected={isSelected}
 								size="2"
-								style={{ cursor: "pointer" }}
 								onClick={() => {
 									const currentCrops = filters.crops ?? [];
 									const newCrops =
@@ -366,12 +527,298 @@ function FarmFilters({
 									onFiltersChange({ ...filters, crops: newCrops.length > 0 ? newCrops : undefined });
 								}}
 							>
-								{t(($) => $.crops[crop])}
-							</Badge>
+								{getCropLabel(crop)}
+							</CropBadge>
 						);
 					})}
 				</Flex>
 			</Box>
+
+			{/* Advanced Filters Drawer */}
+			<Flex align="end">
+				<AdvancedFarmFilters filters={filters} isLoading={isLoading} onFiltersChange={onFiltersChange} />
+			</Flex>
 		</Flex>
 	);
 }
+
+/**
+ * Counts the advanced farm filters that are set.
+ *
+ * @param filters Current farm filters
+ *
+ * @returns Number of advanced filters set, counting a non-default crops match
+ */
+function countAdvancedFarmFilters(filters: FarmFilterOptions): number {
+	const setFilters = ADVANCED_FARM_FILTER_KEYS.filter((key) => {
+		const value = filters[key];
+
+		return Array.isArray(value) ? value.length > 0 : value !== undefined && value !== "";
+	});
+
+	const hasCropsMatch = filters.cropsMatch !== undefined && filters.cropsMatch !== CropsMatch.Any;
+
+	return setFilters.length + (hasCropsMatch ? 1 : 0);
+}
+
+/**
+ * Formats an ISO 8601 timestamp as the local date of a date input.
+ *
+ * @param value ISO 8601 timestamp, if any
+ *
+ * @returns Local date as `YYYY-MM-DD`, or an empty string
+ */
+function toDateInputValue(value: string | undefined): string {
+	if (!value) return "";
+
+	const date = new Date(value);
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+
+	return `${String(date.getFullYear())}-${month}-${day}`;
+}
+
+/**
+ * Parses a number typed in a filter field.
+ *
+ * @param value Contents of the field
+ *
+ * @returns The number, or `undefined` when the field is empty or invalid
+ */
+function toOptionalNumber(value: string): number | undefined {
+	if (value.trim() === "") return undefined;
+
+	const number = Number(value);
+
+	return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Creates the drawer draft from the current farm filters.
+ *
+ * @param filters Current farm filters
+ *
+ * @returns Draft of the advanced filters
+ */
+function toAdvancedFarmFiltersDraft(filters: FarmFilterOptions): AdvancedFarmFiltersDraft {
+	return {
+		states: filters.states ?? [],
+		cropsMatch: filters.cropsMatch ?? CropsMatch.Any,
+		minTotalArea: filters.minTotalArea?.toString() ?? "",
+		maxTotalArea: filters.maxTotalArea?.toString() ?? "",
+		minArablePercentage: filters.minArablePercentage?.toString() ?? "",
+		maxArablePercentage: filters.maxArablePercentage?.toString() ?? "",
+		createdFrom: toDateInputValue(filters.createdFrom),
+		createdTo: toDateInputValue(filters.createdTo),
+	};
+}
+
+/**
+ * Drawer with the advanced farm filters: several states, total area and
+ * arable share ranges, creation date range and how crops are matched.
+ *
+ * Changes are kept in a draft and only applied on confirmation, so the list is
+ * not reloaded on every keystroke. Dates are sent as the start and end of the
+ * chosen local days.
+ */
+function AdvancedFarmFilters({
+	filters,
+	isLoading,
+	onFiltersChange,
+}: Pick<FarmFilterControlsProps, "filters" | "isLoading" | "onFiltersChange">) {
+	const { t } = useTranslation();
+	const [open, setOpen] = useState(false);
+	const [draft, setDraft] = useState(() => toAdvancedFarmFiltersDraft(filters));
+	const activeCount = countAdvancedFarmFilters(filters);
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (isOpen) setDraft(toAdvancedFarmFiltersDraft(filters));
+
+		setOpen(isOpen);
+	};
+
+	const updateDraft = (changes: Partial<AdvancedFarmFiltersDraft>) => {
+		setDraft((current) => ({ ...current, ...changes }));
+	};
+
+	const handleApply = () => {
+		onFiltersChange({
+			...filters,
+			states: draft.states.length > 0 ? draft.states : undefined,
+			cropsMatch: draft.cropsMatch === CropsMatch.Any ? undefined : draft.cropsMatch,
+			minTotalArea: toOptionalNumber(draft.minTotalArea),
+			maxTotalArea: toOptionalNumber(draft.maxTotalArea),
+			minArablePercentage: toOptionalNumber(draft.minArablePercentage),
+			maxArablePercentage: toOptionalNumber(draft.maxArablePercentage),
+			createdFrom: draft.createdFrom ? new Date(`${draft.createdFrom}T00:00:00`).toISOString() : undefined,
+			createdTo: draft.createdTo ? new Date(`${draft.createdTo}T23:59:59.999`).toISOString() : undefined,
+		});
+		setOpen(false);
+	};
+
+	const handleReset = () => {
+		setDraft(toAdvancedFarmFiltersDraft({}));
+	};
+
+	const cropsMatchOptions = [
+		{ value: CropsMatch.Any, label: t(($) => $.filters.cropsMatchAny) },
+		{ value: CropsMatch.All, label: t(($) => $.filters.cropsMatchAll) },
+		{ value: CropsMatch.None, label: t(($) => $.filters.cropsMatchNone) },
+	];
+
+	const rangeFields = [
+		{
+			label: t(($) => $.filters.totalAreaRange),
+			min: "minTotalArea",
+			max: "maxTotalArea",
+			maxValue: undefined,
+		},
+		{
+			label: t(($) => $.filters.arablePercentageRange),
+			min: "minArablePercentage",
+			max: "maxArablePercentage",
+			maxValue: 100,
+		},
+	] as const;
+
+	return (
+		<Dialog.Root open={open} onOpenChange={handleOpenChange}>
+			<Dialog.Trigger>
+				<Button variant="soft" disabled={isLoading}>
+					<SlidersHorizontalIcon size={16} />
+					{t(($) => $.filters.advanced)}
+					{activeCount > 0 && (
+						<Badge variant="solid" radius="full">
+							{activeCount}
+						</Badge>
+					)}
+				</Button>
+			</Dialog.Trigger>
+
+			<Dialog.Content
+				maxWidth="420px"
+				style={{ position: "fixed", top: 0, right: 0, height: "100vh", maxHeight: "100vh", borderRadius: 0 }}
+			>
+				<Dialog.Title>{t(($) => $.filters.advanced)}</Dialog.Title>
+				<Dialog.Description size="2" mb="4">
+					{t(($) => $.filters.advancedDescription)}
+				</Dialog.Description>
+
+				<Flex direction="column" gap="4">
+					{/* States */}
+					<Box>
+						<Text as="div" size="2" weight="medium" mb="2">
+							{t(($) => $.filters.states)}
+						</Text>
+						<CheckboxGroup.Root
+							value={draft.states}
+							onValueChange={(states) => {
+								updateDraft({ states: states as BrazilianState[] });
+							}}
+						>
+							<Grid columns="5" gap="2">
+								{Object.values(BrazilianState).map((state) => (
+									<CheckboxGroup.Item key={state} value={state}>
+										{state}
+									</CheckboxGroup.Item>
+								))}
+							</Grid>
+						</CheckboxGroup.Root>
+					</Box>
+
+					{/* Area and Arable Share Ranges */}
+					{rangeFields.map(({ label, min, max, maxValue }) => (
+						<Box key={min}>
+							<Text as="div" size="2" weight="medium" mb="1">
+								{label}
+							</Text>
+							<Flex gap="2">
+								<TextField.Root
+									type="number"
+									min={0}
+									max={maxValue}
+									placeholder={t(($) => $.filters.min)}
+									value={draft[min]}
+									onChange={(event) => {
+										updateDraft({ [min]: event.target.value });
+									}}
+								/>
+								<TextField.Root
+									type="number"
+									min={0}
+									max={maxValue}
+									placeholder={t(($) => $.filters.max)}
+									value={draft[max]}
+									onChange={(event) => {
+										updateDraft({ [max]: event.target.value });
+									}}
+								/>
+							</Flex>
+						</Box>
+					))}
+
+					{/* Creation Date Range */}
+					<Box>
+						<Text as="div" size="2" weight="medium" mb="1">
+							{t(($) => $.filters.createdAtRange)}
+						</Text>
+						<Flex gap="2">
+							<TextField.Root
+								type="date"
+								aria-label={t(($) => $.filters.from)}
+								value={draft.createdFrom}
+								max={draft.createdTo || undefined}
+								onChange={(event) => {
+									updateDraft({ createdFrom: event.target.value });
+								}}
+							/>
+							<TextField.Root
+								type="date"
+								aria-label={t(($) => $.filters.to)}
+								value={draft.createdTo}
+								min={draft.createdFrom || undefined}
+								onChange={(event) => {
+									updateDraft({ createdTo: event.target.value });
+								}}
+							/>
+						</Flex>
+					</Box>
+
+					{/* Crops Match */}
+					<Box>
+						<Text as="div" size="2" weight="medium" mb="1">
+							{t(($) => $.filters.cropsMatch)}
+						</Text>
+						<Select.Root
+							value={draft.cropsMatch}
+							onValueChange={(value) => {
+								updateDraft({ cropsMatch: value as CropsMatch });
+							}}
+						>
+							<Select.Trigger style={{ width: "100%" }} />
+							<Select.Content>
+								{cropsMatchOptions.map((option) => (
+									<Select.Item key={option.value} value={option.value}>
+										{option.label}
+									</Select.Item>
+								))}
+							</Select.Content>
+						</Select.Root>
+					</Box>
+				</Flex>
+
+				<Flex gap="3" mt="5" justify="end">
+					<Button variant="soft" color="gray" onClick={handleReset}>
+						{t(($) => $.filters.reset)}
+					</Button>
+					<Dialog.Close>
+						<Button variant="soft" color="gray">
+							{t(($) => $.common.cancel)}
+						</Button>
+					</Dialog.Close>
+					<Button onClick={handleApply}>{t(($) => $.filters.apply)}</Button>
+				</Flex>
+			</Dialog.Content>
+		</Dialog.Root>
+	);
+}
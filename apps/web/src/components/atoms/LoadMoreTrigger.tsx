@@ -0,0 +1,55 @@
+import { Button, Flex } from "@radix-ui/themes";
+import { useEffect, useRef } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+/** Props for the {@link LoadMoreTrigger} component */
+export interface LoadMoreTriggerProps {
+	/** Whether the next page is being loaded */
+	isLoading: boolean;
+
+	/** Callback loading the next page */
+	onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page of an infinite list when scrolled into view.
+ *
+ * Render it after the last item while there are more pages. The button also
+ * loads the next page, for keyboard users and screens tall enough to show the
+ * trigger without scrolling.
+ *
+ * @example
+ * ```tsx
+ * {hasNextPage ?
+ *   <LoadMoreTrigger isLoading={isFetchingNextPage} onLoadMore={() => void fetchNextPage()} />
+ * :	null}
+ * ```
+ */
+export function LoadMoreTrigger({ isLoading, onLoadMore }: LoadMoreTriggerProps): ReactElement {
+	const { t } = useTranslation();
+	const triggerRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		const trigger = triggerRef.current;
+		if (!trigger || isLoading) return;
+
+		const observer = new IntersectionObserver(([entry]) => {
+			if (entry?.isIntersecting) onLoadMore();
+		});
+		observer.observe(trigger);
+
+		return () => {
+			observer.disconnect();
+		};
+	}, [isLoading, onLoadMore]);
+
+	return (
+		<Flex ref={triggerRef} justify="center">
+			<Button variant="soft" size="2" onClick={onLoadMore} loading={isLoading}>
+				{t(($) => $.common.loadMore)}
+			</Button>
+		</Flex>
+	);
+}
@@ -1,7 +1,9 @@
+export * from "./CropBadge";
 export * from "./ErrorMessage";
 export * from "./FilterControls";
 export * from "./Input";
 export * from "./Label";
+export * from "./LoadMoreTrigger";
 export * from "./PaginationControls";
 export * from "./Spinner";
 export * from "./Typography";
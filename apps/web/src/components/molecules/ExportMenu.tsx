@@ -0,0 +1,62 @@
+import { Button, DropdownMenu } from "@radix-ui/themes";
+import { DownloadIcon } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { ExportFormat } from "@agro/shared/enums";
+
+/**
+ * Props for the ExportMenu component
+ *
+ * @template TFormat File formats offered in the menu
+ */
+export interface ExportMenuProps<TFormat extends ExportFormat> {
+	/** File formats offered in the menu */
+	formats: TFormat[];
+
+	/** Callback when a file format is chosen */
+	onExport: (format: TFormat) => void;
+
+	/** Whether an export is being downloaded */
+	isExporting?: boolean;
+}
+
+/**
+ * Dropdown menu downloading the current list in one of the given file formats.
+ *
+ * @example
+ * ```tsx
+ * <ExportMenu
+ *   formats={[ExportFormat.Csv, ExportFormat.Xlsx]}
+ *   onExport={(format) => exportProducers({ ...filters, format })}
+ *   isExporting={isExporting}
+ * />
+ * ```
+ */
+export function ExportMenu<TFormat extends ExportFormat>({
+	formats,
+	onExport,
+	isExporting = false,
+}: ExportMenuProps<TFormat>): ReactElement {
+	const { t } = useTranslation();
+
+	return (
+		<DropdownMenu.Root>
+			<DropdownMenu.Trigger disabled={isExporting}>
+				<Button variant="soft" loading={isExporting}>
+					<DownloadIcon size={16} />
+					{t(($) => $.export.button)}
+					<DropdownMenu.TriggerIcon />
+				</Button>
+			</DropdownMenu.Trigger>
+			<DropdownMenu.Content>
+				{formats.map((format) => (
+					<DropdownMenu.Item key={format} onSelect={() => onExport(format)}>
+						{t(($) => $.export[format])}
+					</DropdownMenu.Item>
+				))}
+			</DropdownMenu.Content>
+		</DropdownMenu.Root>
+	);
+}
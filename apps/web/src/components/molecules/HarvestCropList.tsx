@@ -0,0 +1,61 @@
+import { Flex, Text } from "@radix-ui/themes";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { HarvestCrops } from "@agro/shared/types";
+
+import { CropBadge } from "@/components/atoms/CropBadge";
+import { useCropCatalog } from "@/hooks";
+
+/** Props for the HarvestCropList component */
+export interface HarvestCropListProps {
+	/** Crops grouped per harvest, as returned by the farms API */
+	cropsByHarvest: HarvestCrops[];
+
+	/** Badge size */
+	size?: "1" | "2";
+}
+
+/**
+ * Displays the crops of a farm grouped per harvest.
+ *
+ * Renders one line per harvest with the harvest year followed by crop badges,
+ * including the planted area when known.
+ * Shows a "none" placeholder when no crops were recorded.
+ *
+ * @example
+ * ```tsx
+ * <HarvestCropList cropsByHarvest={farm.cropsByHarvest} />
+ * ```
+ */
+export function HarvestCropList({ cropsByHarvest, size = "1" }: HarvestCropListProps): ReactElement {
+	const { t } = useTranslation();
+	const { getCropLabel, getCropColor } = useCropCatalog();
+
+	if (cropsByHarvest.length === 0) {
+		return (
+			<Text size="2" color="gray">
+				{t(($) => $.common.none)}
+			</Text>
+		);
+	}
+
+	return (
+		<Flex direction="column" gap="1">
+			{cropsByHarvest.map(({ harvestId, harvestYear, crops }) => (
+				<Flex key={harvestId} gap="1" wrap="wrap" align="center">
+					<Text size="1" color="gray">
+						{harvestYear}
+					</Text>
+					{crops.map(({ cropType, plantedArea }) => (
+						<CropBadge key={cropType} color={getCropColor(cropType)} size={size}>
+							{getCropLabel(cropType)}
+							{plantedArea !== null && ` · ${plantedArea.toFixed(2)} ${t(($) => $.dashboard.hectares)}`}
+						</CropBadge>
+					))}
+				</Flex>
+			))}
+		</Flex>
+	);
+}
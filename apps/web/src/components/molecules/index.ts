@@ -1,6 +1,8 @@
 export * from "./Autocomplete";
 export * from "./Card";
 export * from "./EmptyState";
+export * from "./ExportMenu";
 export * from "./FormField";
+export * from "./HarvestCropList";
 export * from "./LoadingState";
 export * from "./ProtectedRoute";
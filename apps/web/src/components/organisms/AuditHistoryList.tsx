@@ -0,0 +1,138 @@
+import { Badge, Flex, Skeleton, Table, Text } from "@radix-ui/themes";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { AuditLogEntry } from "@agro/shared/types";
+
+import { AuditAction } from "@agro/shared/enums";
+
+import { ErrorMessage } from "../ui/ErrorMessage";
+
+/** Badge color of each audit action */
+const ACTION_COLORS = {
+	[AuditAction.Create]: "green",
+	[AuditAction.Update]: "blue",
+	[AuditAction.SoftDelete]: "orange",
+	[AuditAction.Restore]: "teal",
+	[AuditAction.Delete]: "red",
+} as const;
+
+/** Props for the AuditHistoryList component */
+export interface AuditHistoryListProps {
+	/** Audit log entries to display, most recent first */
+	entries?: AuditLogEntry[];
+
+	/** Whether data is loading */
+	isLoading?: boolean;
+
+	/** Error message if fetch failed */
+	error?: string;
+
+	/** Callback for retrying failed request */
+	onRetry?: () => void;
+}
+
+/**
+ * List component for displaying the change history of a record, with who
+ * changed it and the value of each changed field before and after.
+ *
+ * Handles loading, error, and empty states automatically.
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading } = useGetAuditLogsQuery({ entityType: AuditEntityType.Farm, entityId });
+ *
+ * <AuditHistoryList entries={data?.data} isLoading={isLoading} />
+ * ```
+ */
+export function AuditHistoryList({
+	entries = [],
+	isLoading = false,
+	error,
+	onRetry,
+}: AuditHistoryListProps): ReactElement {
+	const { t } = useTranslation();
+
+	if (error) {
+		return <ErrorMessage message={error} onRetry={onRetry} />;
+	}
+
+	if (!isLoading && entries.length === 0) {
+		return (
+			<Text size="2" color="gray">
+				{t(($) => $.audit.noEntries)}
+			</Text>
+		);
+	}
+
+	return (
+		<Table.Root variant="surface" size="2">
+			<Table.Header>
+				<Table.Row>
+					<Table.ColumnHeaderCell>{t(($) => $.audit.date)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.audit.user)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.audit.action)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.audit.changes)}</Table.ColumnHeaderCell>
+				</Table.Row>
+			</Table.Header>
+
+			<Table.Body>
+				{isLoading ?
+					<LoadingState />
+				:	entries.map((entry) => (
+						<Table.Row key={entry.id}>
+							<Table.RowHeaderCell>
+								<Text size="2">{new Date(entry.createdAt).toLocaleString()}</Text>
+							</Table.RowHeaderCell>
+							<Table.Cell>
+								<Text size="2" color={entry.userEmail ? undefined : "gray"}>
+									{entry.userEmail ?? t(($) => $.audit.system)}
+								</Text>
+							</Table.Cell>
+							<Table.Cell>
+								<Badge color={ACTION_COLORS[entry.action]}>{t(($) => $.audit.actions[entry.action])}</Badge>
+							</Table.Cell>
+							<Table.Cell>
+								<Flex direction="column" gap="1">
+									{Object.entries(entry.changes).map(([field, change]) => (
+										<Text key={field} size="1">
+											<Text weight="bold">{field}</Text>: {formatValue(change.before)} → {formatValue(change.after)}
+										</Text>
+									))}
+								</Flex>
+							</Table.Cell>
+						</Table.Row>
+					))
+				}
+			</Table.Body>
+		</Table.Root>
+	);
+
+	function LoadingState() {
+		return Array.from({ length: 2 }).map((_, index) => (
+			<Table.Row key={index}>
+				{Array.from({ length: 4 }).map((_, cellIndex) => (
+					<Table.Cell key={cellIndex}>
+						<Skeleton>
+							<Text>{t(($) => $.common.loading)}</Text>
+						</Skeleton>
+					</Table.Cell>
+				))}
+			</Table.Row>
+		));
+	}
+}
+
+/**
+ * Formats a field value of an audit log entry for display.
+ *
+ * @param value Value before or after the change
+ *
+ * @returns A dash for empty values, the value as JSON for objects, or the value itself
+ */
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) return "—";
+
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,136 @@
+import { AlertDialog, Button, Flex, Table, Text } from "@radix-ui/themes";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+/** A field of the edited record, as submitted and as currently saved */
+export interface ConflictField {
+	/** Translated field label */
+	label: string;
+
+	/** Value submitted by the user, formatted for display */
+	submitted: string;
+
+	/** Value currently saved, formatted for display */
+	current: string;
+}
+
+/** Props for the ConflictDialog component */
+export interface ConflictDialogProps {
+	/** Whether dialog is open */
+	open: boolean;
+
+	/** Callback when dialog open state changes */
+	onOpenChange: (open: boolean) => void;
+
+	/** Fields of the record to compare */
+	fields: ConflictField[];
+
+	/** Callback to discard the user's changes and edit the latest version */
+	onReload: () => void;
+
+	/** Whether the latest version is still loading */
+	isLoading?: boolean;
+}
+
+/**
+ * Dialog shown when a record was changed by someone else while being edited.
+ *
+ * Offers to reload the latest version, discarding the user's changes, or to
+ * compare the submitted values with the saved ones field by field. Closing the
+ * dialog keeps the user's changes in the form.
+ *
+ * @example
+ * ```tsx
+ * <ConflictDialog
+ *   open={!!conflict}
+ *   onOpenChange={(open) => !open && setConflict(undefined)}
+ *   fields={[{ label: "Name", submitted: "Fazenda Nova", current: "Fazenda Boa Vista" }]}
+ *   onReload={handleReload}
+ * />
+ * ```
+ */
+export function ConflictDialog({
+	open,
+	onOpenChange,
+	fields,
+	onReload,
+	isLoading = false,
+}: ConflictDialogProps): ReactElement {
+	const { t } = useTranslation();
+	const [isComparing, setIsComparing] = useState(false);
+
+	const handleOpenChange = (isOpen: boolean) => {
+		if (!isOpen) setIsComparing(false);
+		onOpenChange(isOpen);
+	};
+
+	return (
+		<AlertDialog.Root open={open} onOpenChange={handleOpenChange}>
+			<AlertDialog.Content maxWidth={isComparing ? "640px" : "450px"}>
+				<AlertDialog.Title>{t(($) => $.conflict.title)}</AlertDialog.Title>
+				<AlertDialog.Description size="2">{t(($) => $.conflict.description)}</AlertDialog.Description>
+
+				{isComparing && (
+					<Table.Root variant="surface" size="1" mt="4">
+						<Table.Header>
+							<Table.Row>
+								<Table.ColumnHeaderCell>{t(($) => $.conflict.field)}</Table.ColumnHeaderCell>
+								<Table.ColumnHeaderCell>{t(($) => $.conflict.yours)}</Table.ColumnHeaderCell>
+								<Table.ColumnHeaderCell>{t(($) => $.conflict.current)}</Table.ColumnHeaderCell>
+							</Table.Row>
+						</Table.Header>
+
+						<Table.Body>
+							{fields.map((field) => {
+								const weight = field.submitted === field.current ? undefined : "bold";
+
+								return (
+									<Table.Row key={field.label}>
+										<Table.RowHeaderCell>
+											<Text size="2">{field.label}</Text>
+										</Table.RowHeaderCell>
+										<Table.Cell>
+											<Text size="2" weight={weight}>
+												{field.submitted}
+											</Text>
+										</Table.Cell>
+										<Table.Cell>
+											<Text size="2" weight={weight}>
+												{isLoading ? t(($) => $.common.loading) : field.current}
+											</Text>
+										</Table.Cell>
+									</Table.Row>
+								);
+							})}
+						</Table.Body>
+					</Table.Root>
+				)}
+
+				<Flex gap="3" mt="4" justify="end">
+					<AlertDialog.Cancel>
+						<Button variant="soft" color="gray">
+							{t(($) => $.conflict.keepEditing)}
+						</Button>
+					</AlertDialog.Cancel>
+					{!isComparing && (
+						<Button
+							variant="soft"
+							onClick={() => {
+								setIsComparing(true);
+							}}
+						>
+							{t(($) => $.conflict.compare)}
+						</Button>
+					)}
+					<AlertDialog.Action>
+						<Button onClick={onReload} disabled={isLoading} loading={isLoading}>
+							{t(($) => $.conflict.reload)}
+						</Button>
+					</AlertDialog.Action>
+				</Flex>
+			</AlertDialog.Content>
+		</AlertDialog.Root>
+	);
+}
@@ -33,7 +33,7 @@ interface DashboardDataTableProps<T> {
 /**
  * Displays tabular data with customizable columns.
  *
- * Used for showing top records like largest farms or most productive producers.
+ * Used for showing top records like largest farms or producers with the most farms.
  *
  * @example
  * ```tsx
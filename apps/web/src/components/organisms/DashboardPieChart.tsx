@@ -2,7 +2,7 @@ import { useTranslation } from "react-i18next";
 import { Cell, Legend, Pie, PieChart as RechartPieChart, ResponsiveContainer, Tooltip } from "recharts";
 import styled from "styled-components";
 
-import type { ReactElement } from "react";
+import type { ReactElement, ReactNode } from "react";
 import type { PieProps } from "recharts";
 
 /** Props for the {@link DashboardPieChart} component */
@@ -24,6 +24,9 @@ interface DashboardPieChartProps {
 
 	/** Optional Recharts Pie component props overrides */
 	overrides?: Partial<PieProps>;
+
+	/** Optional controls rendered next to the title (e.g., a metric switcher) */
+	actions?: ReactNode;
 }
 
 const DEFAULT_COLORS = ["#10B981", "#F59E0B", "#8B5CF6", "#3B82F6", "#EF4444", "#EC4899"];
@@ -51,6 +54,7 @@ export function DashboardPieChart({
 	isLoading,
 	error,
 	overrides,
+	actions,
 	colors = DEFAULT_COLORS,
 }: DashboardPieChartProps): ReactElement {
 	const { t } = useTranslation();
@@ -69,7 +73,10 @@ export function DashboardPieChart({
 
 	return (
 		<Container>
-			<Title>{title}</Title>
+			<Header>
+				<Title>{title}</Title>
+				{actions}
+			</Header>
 			<ChartContainer>
 				<ResponsiveContainer width="100%" height={300}>
 					<RechartPieChart>
@@ -125,6 +132,13 @@ const Container = styled.div`
 	box-shadow: ${(props) => props.theme.shadows.sm};
 `;
 
+const Header = styled.div`
+	display: flex;
+	align-items: center;
+	justify-content: space-between;
+	gap: ${(props) => props.theme.spacing.md};
+`;
+
 const Title = styled.h3`
 	margin: 0;
 	font-size: ${(props) => props.theme.typography.fontSize.lg};
@@ -1,18 +1,27 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Badge, Button, Flex, Grid, Select, Text, TextField } from "@radix-ui/themes";
+import { Button, Card, Flex, Grid, IconButton, Select, Text, TextField } from "@radix-ui/themes";
+import { PlusIcon, TrashIcon } from "lucide-react";
 import { useMemo, useState } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { useTranslation } from "react-i18next";
 
 import type { ReactElement } from "react";
 
+import type { CropCode, FarmPlot } from "@agro/shared/types";
+
 import type { CreateFarmFormData } from "@/schemas";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
+import { BrazilianState } from "@agro/shared/enums";
 
+import { CropBadge } from "@/components/atoms/CropBadge";
 import { useLocalStorageContext } from "@/contexts/LocalStorageContext";
+import { useCropCatalog } from "@/hooks";
 import { createFarmSchema } from "@/schemas";
-import { CROP_TO_COLOR, STORAGE_KEYS } from "@/utils";
+import { useGetHarvestsQuery } from "@/store/api";
+import { STORAGE_KEYS } from "@/utils";
+
+/** Select value standing for "whole farm", since Radix Select items cannot use an empty value */
+const WHOLE_FARM = "none";
 
 /** Props for the FarmForm component */
 export interface FarmFormProps {
@@ -27,13 +36,18 @@ export interface FarmFormProps {
 
 	/** Producer ID to associate the farm with */
 	producerId: string;
+
+	/** Plots of the farm the crops can be assigned to, when editing */
+	plots?: FarmPlot[];
 }
 
 /**
  * Form component for creating and editing farms.
  *
  * Integrates react-hook-form with Zod validation for type-safe form handling.
- * Validates farm areas ensuring arable + vegetation ≤ total area.
+ * Validates farm areas ensuring arable + vegetation ≤ total area, and records
+ * the crops planted in each selected harvest, optionally assigned to one of
+ * the farm's plots.
  *
  * @example
  * ```tsx
@@ -48,7 +62,13 @@ export interface FarmFormProps {
  * />
  * ```
  */
-export function FarmForm({ onSubmit, isLoading = false, defaultValues, producerId }: FarmFormProps): ReactElement {
+export function FarmForm({
+	onSubmit,
+	isLoading = false,
+	defaultValues,
+	producerId,
+	plots = [],
+}: FarmFormProps): ReactElement {
 	const { t } = useTranslation();
 	const storage = useLocalStorageContext();
 	const [selectedState, setSelectedState] = useState<string>(defaultValues?.state ?? "");
@@ -59,6 +79,7 @@ export function FarmForm({ onSubmit, isLoading = false, defaultValues, producerI
 		handleSubmit,
 		formState: { errors },
 		setValue,
+		control,
 	} = useForm({
 		resolver: zodResolver(createFarmSchema),
 		defaultValues: {
@@ -68,12 +89,18 @@ export function FarmForm({ onSubmit, isLoading = false, defaultValues, producerI
 			totalArea: defaultValues?.totalArea ?? 0,
 			arableArea: defaultValues?.arableArea ?? 0,
 			vegetationArea: defaultValues?.vegetationArea ?? 0,
-			crops: defaultValues?.crops ?? [],
+			cropsByHarvest: defaultValues?.cropsByHarvest ?? [{ harvestId: "", crops: [] }],
 			producerId,
 		},
 	});
 
-	const [selectedCrops, setSelectedCrops] = useState<CropType[]>(defaultValues?.crops ?? []);
+	const { fields, append, remove } = useFieldArray({ control, name: "cropsByHarvest" });
+	const cropsByHarvest = useWatch({ control, name: "cropsByHarvest" });
+
+	const { data: harvestsData } = useGetHarvestsQuery({ page: 1, limit: 100 });
+	const harvests = harvestsData?.data ?? [];
+	const selectedHarvestIds = new Set(cropsByHarvest.map((entry) => entry.harvestId));
+	const { crops, getCropLabel } = useCropCatalog();
 
 	/** Get cities from localStorage and filter by selected state */
 	const availableCities = useMemo(() => {
@@ -84,14 +111,29 @@ export function FarmForm({ onSubmit, isLoading = false, defaultValues, producerI
 		return citiesData?.[selectedState] ?? [];
 	}, [selectedState, storage]);
 
-	const handleCropToggle = (crop: CropType): void => {
+	/** Toggle a crop within the harvest entry at the given index */
+	const handleCropToggle = (index: number, crop: CropCode): void => {
+		const selectedCrops = cropsByHarvest[index]?.crops ?? [];
 		const newCrops =
-			selectedCrops.includes(crop) ?
-				selectedCrops.filter((selectedCrop) => selectedCrop !== crop)
-			:	[...selectedCrops, crop];
+			selectedCrops.some((selectedCrop) => selectedCrop.cropType === crop) ?
+				selectedCrops.filter((selectedCrop) => selectedCrop.cropType !== crop)
+			:	[...selectedCrops, { cropType: crop }];
+
+		setValue(`cropsByHarvest.${index}.crops`, newCrops, { shouldValidate: true });
+	};
+
+	/** Update the planted area of a crop within the harvest entry at the given index */
+	const handlePlantedAreaChange = (index: number, cropIndex: number, value: string): void => {
+		setValue(`cropsByHarvest.${index}.crops.${cropIndex}.plantedArea`, value === "" ? undefined : Number(value), {
+			shouldValidate: true,
+		});
+	};
 
-		setSelectedCrops(newCrops);
-		setValue("crops", newCrops, { shouldValidate: true });
+	/** Assign a crop within the harvest entry at the given index to a plot, or to the whole farm */
+	const handlePlotChange = (index: number, cropIndex: number, value: string): void => {
+		setValue(`cropsByHarvest.${index}.crops.${cropIndex}.plotId`, value === WHOLE_FARM ? undefined : value, {
+			shouldValidate: true,
+		});
 	};
 
 	/** Handle state change and reset city */
@@ -269,43 +311,175 @@ export function FarmForm({ onSubmit, isLoading = false, defaultValues, producerI
 					</label>
 				</Grid>
 
-				{/* Crops */}
-				<label>
-					<Text as="div" size="2" weight="medium" mb="1">
-						{t(($) => $.farms.crops)} <Text color="red">*</Text>
+				{/* Crops per Harvest */}
+				<Flex direction="column" gap="2">
+					<Text as="div" size="2" weight="medium">
+						{t(($) => $.farms.cropsByHarvest)} <Text color="red">*</Text>
 					</Text>
-					<Text as="div" size="1" color="gray" mb="1">
-						{t(($) => $.farms.cropsHint)}
+					<Text as="div" size="1" color="gray">
+						{t(($) => $.farms.cropsByHarvestHint)}
 					</Text>
-					<Flex wrap="wrap" gap="2" mt="2">
-						{Object.values(CropType).map((crop) => {
-							const isSelected = selectedCrops.includes(crop);
-
-							return (
-								<Badge
-									key={crop}
-									color={CROP_TO_COLOR[crop]}
-									variant={isSelected ? "solid" : "soft"}
-									size="2"
-									style={{ cursor: "pointer" }}
-									onClick={() => {
-										handleCropToggle(crop);
-									}}
-								>
-									<Flex gap="1" align="center">
-										{isSelected && "✓ "}
-										{t(($) => $.crops[crop])}
+
+					{fields.map((field, index) => {
+						const entry = cropsByHarvest[index];
+						const entryErrors = errors.cropsByHarvest?.[index];
+
+						return (
+							<Card key={field.id}>
+								<Flex direction="column" gap="2">
+									<Flex gap="2" align="center">
+										<Select.Root
+											value={entry?.harvestId ?? ""}
+											onValueChange={(value) => {
+												setValue(`cropsByHarvest.${index}.harvestId`, value, { shouldValidate: true });
+											}}
+											disabled={isLoading || harvests.length === 0}
+										>
+											<Select.Trigger
+												style={{ flex: 1 }}
+												placeholder={
+													harvests.length === 0 ?
+														t(($) => $.farms.noHarvestsAvailable)
+													:	t(($) => $.farms.selectHarvest)
+												}
+											/>
+											<Select.Content>
+												{harvests.map((harvest) => (
+													<Select.Item
+														key={harvest.id}
+														value={harvest.id}
+														disabled={harvest.id !== entry?.harvestId && selectedHarvestIds.has(harvest.id)}
+													>
+														{harvest.year}
+													</Select.Item>
+												))}
+											</Select.Content>
+										</Select.Root>
+										<IconButton
+											type="button"
+											variant="soft"
+											color="red"
+											aria-label={t(($) => $.farms.removeHarvest)}
+											disabled={isLoading || fields.length === 1}
+											onClick={() => {
+												remove(index);
+											}}
+										>
+											<TrashIcon size={16} />
+										</IconButton>
+									</Flex>
+									{entryErrors?.harvestId && (
+										<Text size="1" color="red">
+											{entryErrors.harvestId.message}
+										</Text>
+									)}
+
+									<Flex wrap="wrap" gap="2">
+										{crops.map(({ code, color }) => {
+											const isSelected = entry?.crops.some((selectedCrop) => selectedCrop.cropType === code) ?? false;
+
+											return (
+												<CropBadge
+													key={code}
+													color={color}
+													selected={isSelected}
+													size="2"
+													onClick={() => {
+														handleCropToggle(index, code);
+													}}
+												>
+													<Flex gap="1" align="center">
+														{isSelected && "✓ "}
+														{getCropLabel(code)}
+													</Flex>
+												</CropBadge>
+											);
+										})}
 									</Flex>
-								</Badge>
-							);
-						})}
+									{entry && entry.crops.length > 0 && (
+										<Flex direction="column" gap="1">
+											<Text size="1" color="gray">
+												{t(($) => $.farms.plantedAreaHint)}
+											</Text>
+											<Grid columns={{ initial: "1", sm: "3" }} gap="2">
+												{entry.crops.map((crop, cropIndex) => (
+													<label key={crop.cropType}>
+														<Text as="div" size="1" weight="medium" mb="1">
+															{getCropLabel(crop.cropType)} - {t(($) => $.farms.plantedArea)}
+														</Text>
+														<TextField.Root
+															type="number"
+															step="0.01"
+															min="0.01"
+															placeholder="0.00"
+															value={crop.plantedArea ?? ""}
+															onChange={(event) => {
+																handlePlantedAreaChange(index, cropIndex, event.target.value);
+															}}
+															disabled={isLoading}
+															color={entryErrors?.crops?.[cropIndex]?.plantedArea ? "red" : undefined}
+														/>
+														{entryErrors?.crops?.[cropIndex]?.plantedArea && (
+															<Text size="1" color="red" mt="1">
+																{entryErrors.crops[cropIndex].plantedArea.message}
+															</Text>
+														)}
+														{plots.length > 0 && (
+															<Select.Root
+																value={crop.plotId ?? WHOLE_FARM}
+																onValueChange={(value) => {
+																	handlePlotChange(index, cropIndex, value);
+																}}
+																disabled={isLoading}
+															>
+																<Select.Trigger
+																	aria-label={t(($) => $.farms.plot)}
+																	style={{ width: "100%", marginTop: 4 }}
+																/>
+																<Select.Content>
+																	<Select.Item value={WHOLE_FARM}>{t(($) => $.farms.wholeFarm)}</Select.Item>
+																	{plots.map((plot) => (
+																		<Select.Item key={plot.id} value={plot.id}>
+																			{plot.name}
+																		</Select.Item>
+																	))}
+																</Select.Content>
+															</Select.Root>
+														)}
+													</label>
+												))}
+											</Grid>
+										</Flex>
+									)}
+									{(entryErrors?.crops?.message ?? entryErrors?.crops?.root?.message) && (
+										<Text size="1" color="red">
+											{entryErrors.crops.message ?? entryErrors.crops.root?.message}
+										</Text>
+									)}
+								</Flex>
+							</Card>
+						);
+					})}
+
+					<Flex>
+						<Button
+							type="button"
+							variant="soft"
+							disabled={isLoading || fields.length >= harvests.length}
+							onClick={() => {
+								append({ harvestId: "", crops: [] });
+							}}
+						>
+							<PlusIcon size={16} />
+							{t(($) => $.farms.addHarvest)}
+						</Button>
 					</Flex>
-					{errors.crops && (
-						<Text size="1" color="red" mt="1">
-							{errors.crops.message}
+					{(errors.cropsByHarvest?.message ?? errors.cropsByHarvest?.root?.message) && (
+						<Text size="1" color="red">
+							{errors.cropsByHarvest.message ?? errors.cropsByHarvest.root?.message}
 						</Text>
 					)}
-				</label>
+				</Flex>
 
 				{/* Submit Button */}
 				<Flex justify="end" mt="2">
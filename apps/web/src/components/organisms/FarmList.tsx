@@ -7,9 +7,8 @@ import type { ReactElement } from "react";
 
 import type { Farm } from "@agro/shared/types";
 
-import { CropType } from "@agro/shared/enums";
-
-import { PaginationControls } from "../atoms/";
+import { LoadMoreTrigger } from "../atoms/";
+import { HarvestCropList } from "../molecules/HarvestCropList";
 import { EmptyState } from "../ui/EmptyState";
 import { ErrorMessage } from "../ui/ErrorMessage";
 
@@ -33,40 +32,38 @@ export interface FarmListProps {
 	/** Whether delete operation is in progress */
 	isDeletingId?: string;
 
-	/**
-	 * Current page number
-	 *
-	 * @default 1
-	 */
-	page?: number;
-
-	/** Total number of items */
-	total?: number;
+	/** Whether more farms can be loaded */
+	hasNextPage?: boolean;
 
-	/** Number of items per page */
-	limit?: number;
+	/** Whether the next page of farms is loading */
+	isFetchingNextPage?: boolean;
 
-	/** Callback when page changes */
-	onPageChange?: (page: number) => void;
+	/** Callback loading the next page, when scrolled to the end of the list */
+	onLoadMore?: () => void;
 }
 
 /**
  * List component for displaying farms with actions.
  *
- * Handles loading, error, and empty states automatically.
+ * Handles loading, error, and empty states automatically, and loads the
+ * next page when scrolled to the end of the list.
  * Provides edit and delete actions for each farm in a table format.
  *
  * @example
  * ```tsx
- * const { data, isLoading, error, refetch } = useGetFarmsQuery();
+ * const { data, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+ *   useGetFarmPagesInfiniteQuery({});
  * const [deleteFarm] = useDeleteFarmMutation();
  *
  * <FarmList
- *   farms={data?.data}
+ *   farms={data?.pages.flatMap((page) => page.data)}
  *   isLoading={isLoading}
  *   error={error?.message}
  *   onRetry={refetch}
  *   onDelete={(id) => deleteFarm(id)}
+ *   hasNextPage={hasNextPage}
+ *   isFetchingNextPage={isFetchingNextPage}
+ *   onLoadMore={() => void fetchNextPage()}
  * />
  * ```
  */
@@ -77,17 +74,13 @@ export function FarmList({
 	onRetry,
 	onDelete,
 	isDeletingId,
-	page = 1,
-	total = 0,
-	limit = 10,
-	onPageChange,
+	hasNextPage = false,
+	isFetchingNextPage = false,
+	onLoadMore,
 }: FarmListProps): ReactElement {
 	const { t } = useTranslation();
 	const navigate = useNavigate();
 
-	const totalPages = Math.ceil(total / limit);
-	const showPagination = total > limit;
-
 	if (error) {
 		return <ErrorMessage message={error} onRetry={onRetry} />;
 	}
@@ -111,14 +104,6 @@ export function FarmList({
 		);
 	}
 
-	const cropToColor: Record<CropType, "blue" | "green" | "orange" | "gray" | "red"> = {
-		[CropType.Corn]: "green",
-		[CropType.Soy]: "blue",
-		[CropType.Coffee]: "orange",
-		[CropType.Sugarcane]: "gray",
-		[CropType.Cotton]: "red",
-	};
-
 	return (
 		<Flex direction="column" gap="4">
 			<Table.Root variant="surface" size="2">
@@ -141,14 +126,8 @@ export function FarmList({
 				</Table.Body>
 			</Table.Root>
 
-			{showPagination ?
-				<PaginationControls
-					page={page}
-					total={total}
-					isLoading={isLoading}
-					totalPages={totalPages}
-					onPageChange={onPageChange}
-				/>
+			{hasNextPage && onLoadMore ?
+				<LoadMoreTrigger isLoading={isFetchingNextPage} onLoadMore={onLoadMore} />
 			:	null}
 		</Flex>
 	);
@@ -180,18 +159,7 @@ export function FarmList({
 					</Text>
 				</Table.Cell>
 				<Table.Cell>
-					{farm.crops.length > 0 ?
-						<Flex gap="1" wrap="wrap">
-							{farm.crops.map((crop, index) => (
-								<Badge key={index} color={cropToColor[crop]} variant="soft" size="1">
-									{t(($) => $.crops[crop])}
-								</Badge>
-							))}
-						</Flex>
-					:	<Text size="2" color="gray">
-							{t(($) => $.common.none)}
-						</Text>
-					}
+					<HarvestCropList cropsByHarvest={farm.cropsByHarvest ?? []} />
 				</Table.Cell>
 				<Table.Cell>
 					<Flex gap="2">
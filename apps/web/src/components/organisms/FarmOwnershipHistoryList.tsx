@@ -0,0 +1,109 @@
+import { Skeleton, Table, Text } from "@radix-ui/themes";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { FarmOwnershipHistoryEntry } from "@agro/shared/types";
+
+import { ErrorMessage } from "../ui/ErrorMessage";
+
+/** Props for the FarmOwnershipHistoryList component */
+export interface FarmOwnershipHistoryListProps {
+	/** Transfers to display, most recent first */
+	entries?: FarmOwnershipHistoryEntry[];
+
+	/** Whether data is loading */
+	isLoading?: boolean;
+
+	/** Error message if fetch failed */
+	error?: string;
+
+	/** Callback for retrying failed request */
+	onRetry?: () => void;
+}
+
+/**
+ * List component for displaying farm transfers, such as the farms a producer
+ * previously owned.
+ *
+ * Handles loading, error, and empty states automatically.
+ *
+ * @example
+ * ```tsx
+ * const { data: transfers, isLoading } = useGetPreviouslyOwnedFarmsQuery(producerId);
+ *
+ * <FarmOwnershipHistoryList entries={transfers} isLoading={isLoading} />
+ * ```
+ */
+export function FarmOwnershipHistoryList({
+	entries = [],
+	isLoading = false,
+	error,
+	onRetry,
+}: FarmOwnershipHistoryListProps): ReactElement {
+	const { t } = useTranslation();
+
+	if (error) {
+		return <ErrorMessage message={error} onRetry={onRetry} />;
+	}
+
+	if (!isLoading && entries.length === 0) {
+		return (
+			<Text size="2" color="gray">
+				{t(($) => $.producers.noPreviouslyOwnedFarms)}
+			</Text>
+		);
+	}
+
+	return (
+		<Table.Root variant="surface" size="2">
+			<Table.Header>
+				<Table.Row>
+					<Table.ColumnHeaderCell>{t(($) => $.producers.farm)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.producers.transferredOn)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.producers.newOwner)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.producers.transferReason)}</Table.ColumnHeaderCell>
+				</Table.Row>
+			</Table.Header>
+
+			<Table.Body>
+				{isLoading ?
+					<LoadingState />
+				:	entries.map((entry) => (
+						<Table.Row key={entry.id}>
+							<Table.RowHeaderCell>
+								<Text>{entry.farmName}</Text>
+							</Table.RowHeaderCell>
+							<Table.Cell>
+								{/* Parsed as local midnight, since a bare date would be parsed as UTC */}
+								<Text size="2">{new Date(`${entry.effectiveDate}T00:00:00`).toLocaleDateString()}</Text>
+							</Table.Cell>
+							<Table.Cell>
+								<Text size="2" color={entry.newProducerName ? undefined : "gray"}>
+									{entry.newProducerName ?? t(($) => $.producers.deletedProducer)}
+								</Text>
+							</Table.Cell>
+							<Table.Cell>
+								<Text size="2">{entry.reason}</Text>
+							</Table.Cell>
+						</Table.Row>
+					))
+				}
+			</Table.Body>
+		</Table.Root>
+	);
+
+	function LoadingState() {
+		return Array.from({ length: 2 }).map((_, index) => (
+			<Table.Row key={index}>
+				{Array.from({ length: 4 }).map((_, cellIndex) => (
+					<Table.Cell key={cellIndex}>
+						<Skeleton>
+							<Text>{t(($) => $.common.loading)}</Text>
+						</Skeleton>
+					</Table.Cell>
+				))}
+			</Table.Row>
+		));
+	}
+}
@@ -0,0 +1,173 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button, Flex, Select, Text, TextField } from "@radix-ui/themes";
+import { useForm, useWatch } from "react-hook-form";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { FarmPlotFormData } from "@/schemas";
+
+import { SoilType } from "@agro/shared/enums";
+
+import { farmPlotSchema } from "@/schemas";
+
+/** Select value standing for "no soil type", since Radix Select items cannot use an empty value */
+const NO_SOIL_TYPE = "none";
+
+/** Props for the FarmPlotForm component */
+export interface FarmPlotFormProps {
+	/** Callback when form is successfully submitted */
+	onSubmit: (data: FarmPlotFormData) => void | Promise<void>;
+
+	/** Callback when the cancel button is clicked */
+	onCancel?: () => void;
+
+	/** Whether the form is in loading/submitting state */
+	isLoading?: boolean;
+
+	/** Initial form values for editing */
+	defaultValues?: Partial<FarmPlotFormData>;
+}
+
+/**
+ * Form component for creating and editing the plots (talhões) of a farm.
+ *
+ * Integrates react-hook-form with Zod validation. The sum of plot areas
+ * against the farm's arable area is validated by the API.
+ *
+ * @example
+ * ```tsx
+ * const [createFarmPlot] = useCreateFarmPlotMutation();
+ *
+ * <FarmPlotForm
+ *   onSubmit={async (data) => {
+ *     await createFarmPlot({ farmId, ...data }).unwrap();
+ *   }}
+ *   isLoading={isLoading}
+ * />
+ * ```
+ */
+export function FarmPlotForm({
+	onSubmit,
+	onCancel,
+	isLoading = false,
+	defaultValues,
+}: FarmPlotFormProps): ReactElement {
+	const { t } = useTranslation();
+
+	const {
+		register,
+		handleSubmit,
+		formState: { errors },
+		setValue,
+		control,
+	} = useForm({
+		resolver: zodResolver(farmPlotSchema),
+		defaultValues: {
+			name: defaultValues?.name ?? "",
+			area: defaultValues?.area ?? 0,
+			soilType: defaultValues?.soilType,
+		},
+	});
+
+	const soilType = useWatch({ control, name: "soilType" });
+
+	return (
+		<form
+			onSubmit={(event) => {
+				void handleSubmit(onSubmit)(event);
+			}}
+			noValidate
+		>
+			<Flex direction="column" gap="4">
+				{/* Plot Name */}
+				<label>
+					<Text as="div" size="2" weight="medium" mb="1">
+						{t(($) => $.plots.name)} <Text color="red">*</Text>
+					</Text>
+					<Text as="div" size="1" color="gray" mb="1">
+						{t(($) => $.plots.nameHint)}
+					</Text>
+					<TextField.Root
+						{...register("name")}
+						placeholder="Talhão 01"
+						disabled={isLoading}
+						color={errors.name ? "red" : undefined}
+					/>
+					{errors.name && (
+						<Text size="1" color="red" mt="1">
+							{errors.name.message}
+						</Text>
+					)}
+				</label>
+
+				{/* Area */}
+				<label>
+					<Text as="div" size="2" weight="medium" mb="1">
+						{t(($) => $.plots.area)} <Text color="red">*</Text>
+					</Text>
+					<Text as="div" size="1" color="gray" mb="1">
+						{t(($) => $.plots.areaHint)}
+					</Text>
+					<TextField.Root
+						{...register("area", { valueAsNumber: true })}
+						type="number"
+						step="0.01"
+						min="0.01"
+						placeholder="25.00"
+						disabled={isLoading}
+						color={errors.area ? "red" : undefined}
+					/>
+					{errors.area && (
+						<Text size="1" color="red" mt="1">
+							{errors.area.message}
+						</Text>
+					)}
+				</label>
+
+				{/* Soil Type */}
+				<label>
+					<Text as="div" size="2" weight="medium" mb="1">
+						{t(($) => $.plots.soilType)}
+					</Text>
+					<Select.Root
+						value={soilType ?? NO_SOIL_TYPE}
+						onValueChange={(value) => {
+							setValue("soilType", value === NO_SOIL_TYPE ? undefined : (value as SoilType), {
+								shouldValidate: true,
+							});
+						}}
+						disabled={isLoading}
+					>
+						<Select.Trigger placeholder={t(($) => $.plots.selectSoilType)} style={{ width: "100%" }} />
+						<Select.Content>
+							<Select.Item value={NO_SOIL_TYPE}>{t(($) => $.common.none)}</Select.Item>
+							{Object.values(SoilType).map((type) => (
+								<Select.Item key={type} value={type}>
+									{t(($) => $.plots.soilTypes[type])}
+								</Select.Item>
+							))}
+						</Select.Content>
+					</Select.Root>
+					{errors.soilType && (
+						<Text size="1" color="red" mt="1">
+							{errors.soilType.message}
+						</Text>
+					)}
+				</label>
+
+				{/* Actions */}
+				<Flex justify="end" gap="3" mt="2">
+					{onCancel && (
+						<Button type="button" variant="soft" color="gray" onClick={onCancel} disabled={isLoading}>
+							{t(($) => $.common.cancel)}
+						</Button>
+					)}
+					<Button type="submit" disabled={isLoading} loading={isLoading}>
+						{t(($) => $.plots.submitLabel)}
+					</Button>
+				</Flex>
+			</Flex>
+		</form>
+	);
+}
@@ -0,0 +1,205 @@
+import { Badge, Button, Flex, Skeleton, Table, Text } from "@radix-ui/themes";
+import { BadgeXIcon as DeleteIcon, SquarePenIcon as EditIcon } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { FarmPlot } from "@agro/shared/types";
+
+import { EmptyState } from "../ui/EmptyState";
+import { ErrorMessage } from "../ui/ErrorMessage";
+
+/** Props for the FarmPlotList component */
+export interface FarmPlotListProps {
+	/** Plots of the farm to display */
+	plots?: FarmPlot[];
+
+	/** Arable area of the farm in hectares, shared by its plots */
+	arableArea: number;
+
+	/** Whether data is loading */
+	isLoading?: boolean;
+
+	/** Error message if fetch failed */
+	error?: string;
+
+	/** Callback for retrying failed request */
+	onRetry?: () => void;
+
+	/** Callback when the add button is clicked */
+	onAdd?: () => void;
+
+	/** Callback when the edit button of a plot is clicked */
+	onEdit?: (plot: FarmPlot) => void;
+
+	/** Callback when the delete button of a plot is clicked */
+	onDelete?: (id: string) => void;
+
+	/** Whether delete operation is in progress */
+	isDeletingId?: string;
+}
+
+/**
+ * List component for displaying the plots (talhões) of a farm with actions.
+ *
+ * Handles loading, error, and empty states automatically, and shows how much
+ * of the farm's arable area is allocated to plots.
+ *
+ * @example
+ * ```tsx
+ * const { data: plots, isLoading } = useGetFarmPlotsQuery(farmId);
+ *
+ * <FarmPlotList
+ *   plots={plots}
+ *   arableArea={farm.arableArea}
+ *   isLoading={isLoading}
+ *   onAdd={openCreateDialog}
+ *   onEdit={openEditDialog}
+ *   onDelete={(id) => deleteFarmPlot({ farmId, id })}
+ * />
+ * ```
+ */
+export function FarmPlotList({
+	plots = [],
+	arableArea,
+	isLoading = false,
+	error,
+	onRetry,
+	onAdd,
+	onEdit,
+	onDelete,
+	isDeletingId,
+}: FarmPlotListProps): ReactElement {
+	const { t } = useTranslation();
+
+	const allocatedArea = plots.reduce((sum, plot) => sum + plot.area, 0);
+
+	if (error) {
+		return <ErrorMessage message={error} onRetry={onRetry} />;
+	}
+
+	if (!isLoading && plots.length === 0) {
+		return (
+			<EmptyState
+				title={t(($) => $.plots.noPlots)}
+				description={t(($) => $.plots.createFirstPlot)}
+				icon="🗺️"
+				action={<Button onClick={onAdd}>{t(($) => $.plots.addPlot)}</Button>}
+			/>
+		);
+	}
+
+	return (
+		<Flex direction="column" gap="4">
+			<Flex justify="between" align="center" gap="3">
+				<Text size="2" color="gray">
+					{t(($) => $.plots.allocatedArea, {
+						allocated: allocatedArea.toFixed(2),
+						arable: arableArea.toFixed(2),
+					})}
+				</Text>
+				<Button onClick={onAdd} disabled={isLoading}>
+					{t(($) => $.plots.addPlot)}
+				</Button>
+			</Flex>
+
+			<Table.Root variant="surface" size="2">
+				<Table.Header>
+					<Table.Row>
+						<Table.ColumnHeaderCell>{t(($) => $.plots.name)}</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>{t(($) => $.plots.area)}</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>{t(($) => $.plots.soilType)}</Table.ColumnHeaderCell>
+						<Table.ColumnHeaderCell>{t(($) => $.common.actions)}</Table.ColumnHeaderCell>
+					</Table.Row>
+				</Table.Header>
+
+				<Table.Body>
+					{isLoading ?
+						<LoadingState />
+					:	plots.map((plot) => PlotDataRow(plot))}
+				</Table.Body>
+			</Table.Root>
+		</Flex>
+	);
+
+	function PlotDataRow(plot: FarmPlot) {
+		const { soilType } = plot;
+
+		return (
+			<Table.Row key={plot.id}>
+				<Table.RowHeaderCell>
+					<Text>{plot.name}</Text>
+				</Table.RowHeaderCell>
+				<Table.Cell>
+					<Text size="2">
+						{plot.area.toFixed(2)} {t(($) => $.abbreviations.hectares)}
+					</Text>
+				</Table.Cell>
+				<Table.Cell>
+					{soilType ?
+						<Badge variant="soft">{t(($) => $.plots.soilTypes[soilType])}</Badge>
+					:	<Text size="2" color="gray">
+							{t(($) => $.common.none)}
+						</Text>
+					}
+				</Table.Cell>
+				<Table.Cell>
+					<Flex gap="2">
+						<Button variant="soft" size="1" onClick={() => onEdit?.(plot)}>
+							<Flex>
+								<EditIcon size={16} aria-hidden="true" style={{ marginRight: 4 }} />
+								{t(($) => $.common.edit)}
+							</Flex>
+						</Button>
+						<Button
+							color="red"
+							variant="soft"
+							size="1"
+							onClick={() => onDelete?.(plot.id)}
+							disabled={isDeletingId === plot.id}
+							loading={isDeletingId === plot.id}
+						>
+							<Flex>
+								<DeleteIcon size={16} aria-hidden="true" style={{ marginRight: 4 }} />
+								{t(($) => $.common.delete)}
+							</Flex>
+						</Button>
+					</Flex>
+				</Table.Cell>
+			</Table.Row>
+		);
+	}
+
+	function LoadingState() {
+		return Array.from({ length: 3 }).map((_, index) => (
+			<Table.Row key={index}>
+				<Table.Cell>
+					<Skeleton>
+						<Text>
+							{t(($) => $.common.loading)} {t(($) => $.plots.name)}
+						</Text>
+					</Skeleton>
+				</Table.Cell>
+				<Table.Cell>
+					<Skeleton>
+						<Text>000.00 {t(($) => $.abbreviations.hectares)}</Text>
+					</Skeleton>
+				</Table.Cell>
+				<Table.Cell>
+					<Skeleton>
+						<Badge>{t(($) => $.common.loading)}</Badge>
+					</Skeleton>
+				</Table.Cell>
+				<Table.Cell>
+					<Skeleton>
+						<Flex gap="2">
+							<Button disabled={true} size="1">
+								{t(($) => $.common.edit)}
+							</Button>
+						</Flex>
+					</Skeleton>
+				</Table.Cell>
+			</Table.Row>
+		));
+	}
+}
@@ -0,0 +1,307 @@
+import { MapPin as CityIcon, Factory as FarmIcon, Users as ProducerIcon, SearchIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import styled from "styled-components";
+
+import type { ReactElement, ReactNode } from "react";
+
+import { ROUTES } from "@agro/shared/constants";
+import { formatDocument } from "@agro/shared/validators";
+
+import { useSearchQuery } from "@/store/api";
+
+/** Shortest search sent to the API, as single letters match too many records */
+const MIN_SEARCH_LENGTH = 2;
+
+/** Delay after the last keystroke before searching, in milliseconds */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** A search result, as shown in the dropdown */
+interface SearchResultItem {
+	/** Unique key of the result */
+	key: string;
+
+	/** Main line of the result */
+	label: string;
+
+	/** Secondary line of the result */
+	description: string;
+
+	/** Page opened when the result is picked */
+	to: string;
+}
+
+/** A group of search results of the same kind */
+interface SearchResultGroup {
+	/** Heading of the group */
+	title: string;
+
+	/** Icon shown next to each result */
+	icon: ReactNode;
+
+	/** Results of the group, best match first */
+	items: SearchResultItem[];
+}
+
+/**
+ * Search box finding producers, farms and cities from any page.
+ *
+ * Searches as the user types, ignoring case and accents, and lists the best
+ * matches of each kind. Picking a producer or farm opens it for editing;
+ * picking a city lists the farms located there.
+ *
+ * @example
+ * ```tsx
+ * <Header>
+ *   <GlobalSearch />
+ * </Header>
+ * ```
+ */
+export function GlobalSearch(): ReactElement {
+	const { t } = useTranslation();
+	const navigate = useNavigate();
+	const [term, setTerm] = useState("");
+	const [query, setQuery] = useState("");
+	const [isOpen, setIsOpen] = useState(false);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => {
+			setQuery(term.trim());
+		}, SEARCH_DEBOUNCE_MS);
+
+		return () => {
+			clearTimeout(timeout);
+		};
+	}, [term]);
+
+	const canSearch = query.length >= MIN_SEARCH_LENGTH;
+	const { data, isFetching, isError } = useSearchQuery({ q: query }, { skip: !canSearch });
+
+	const groups: SearchResultGroup[] =
+		data ?
+			[
+				{
+					title: t(($) => $.search.producers),
+					icon: <ProducerIcon size={16} />,
+					items: data.producers.map((producer) => ({
+						key: producer.id,
+						label: producer.name,
+						description: formatDocument(producer.document),
+						to: ROUTES.web.producers.edit(producer.id),
+					})),
+				},
+				{
+					title: t(($) => $.search.farms),
+					icon: <FarmIcon size={16} />,
+					items: data.farms.map((farm) => ({
+						key: farm.id,
+						label: farm.name,
+						description: `${farm.city} - ${farm.state}`,
+						to: ROUTES.web.farms.edit(farm.id),
+					})),
+				},
+				{
+					title: t(($) => $.search.cities),
+					icon: <CityIcon size={16} />,
+					items: data.cities.map((city) => ({
+						key: city.id,
+						label: city.name,
+						description: t(($) => $.states[city.state]),
+						to: `${ROUTES.web.farms.list}?${new URLSearchParams({ state: city.state, city: city.name }).toString()}`,
+					})),
+				},
+			].filter((group) => group.items.length > 0)
+		:	[];
+
+	const handleSelect = (to: string): void => {
+		setIsOpen(false);
+		setTerm("");
+		void navigate(to);
+	};
+
+	const renderStatus = (): ReactNode => {
+		if (isError) return <Status>{t(($) => $.search.loadError)}</Status>;
+		if (isFetching && groups.length === 0) return <Status>{t(($) => $.search.searching)}</Status>;
+		if (groups.length === 0) return <Status>{t(($) => $.search.noResults, { query })}</Status>;
+
+		return null;
+	};
+
+	return (
+		<SearchContainer
+			onBlur={(event) => {
+				if (!event.currentTarget.contains(event.relatedTarget)) setIsOpen(false);
+			}}
+			onKeyDown={(event) => {
+				if (event.key === "Escape") setIsOpen(false);
+			}}
+		>
+			<SearchIconWrapper>
+				<SearchIcon size={18} />
+			</SearchIconWrapper>
+			<SearchInput
+				type="search"
+				value={term}
+				onChange={(event) => {
+					setTerm(event.target.value);
+					setIsOpen(true);
+				}}
+				onFocus={() => {
+					setIsOpen(true);
+				}}
+				placeholder={t(($) => $.search.placeholder)}
+				aria-label={t(($) => $.search.label)}
+				aria-expanded={isOpen && canSearch}
+			/>
+
+			{isOpen && canSearch && (
+				<Dropdown>
+					{renderStatus()}
+					{groups.map((group) => (
+						<section key={group.title}>
+							<GroupTitle>{group.title}</GroupTitle>
+							{group.items.map((item) => (
+								<ResultButton
+									key={item.key}
+									type="button"
+									onClick={() => {
+										handleSelect(item.to);
+									}}
+								>
+									{group.icon}
+									<ResultText>
+										<ResultLabel>{item.label}</ResultLabel>
+										<ResultDescription>{item.description}</ResultDescription>
+									</ResultText>
+								</ResultButton>
+							))}
+						</section>
+					))}
+				</Dropdown>
+			)}
+		</SearchContainer>
+	);
+}
+
+const SearchContainer = styled.div`
+	position: relative;
+	display: flex;
+	align-items: center;
+	flex: 1;
+	max-width: 420px;
+	margin: 0 ${(props) => props.theme.spacing.lg};
+
+	@media (max-width: ${(props) => props.theme.breakpoints.sm}) {
+		margin: 0 ${(props) => props.theme.spacing.sm};
+	}
+`;
+
+const SearchIconWrapper = styled.div`
+	position: absolute;
+	left: ${(props) => props.theme.spacing.md};
+	display: flex;
+	align-items: center;
+	pointer-events: none;
+	color: ${(props) => props.theme.colors.textSecondary};
+`;
+
+const SearchInput = styled.input`
+	width: 100%;
+	padding: ${(props) => props.theme.spacing.sm} ${(props) => props.theme.spacing.md};
+	padding-left: calc(${(props) => props.theme.spacing.md} + 18px + ${(props) => props.theme.spacing.sm});
+	font-family: ${(props) => props.theme.typography.fontFamily.base};
+	font-size: ${(props) => props.theme.typography.fontSize.base};
+	color: ${(props) => props.theme.colors.text};
+	background-color: ${(props) => props.theme.colors.backgroundAlt};
+	border: 1px solid ${(props) => props.theme.colors.border};
+	border-radius: ${(props) => props.theme.borderRadius.md};
+	transition: all ${(props) => props.theme.transitions.fast};
+
+	&::placeholder {
+		color: ${(props) => props.theme.colors.textSecondary};
+	}
+
+	&:focus {
+		outline: none;
+		background-color: ${(props) => props.theme.colors.surface};
+		border-color: ${(props) => props.theme.colors.primary};
+		box-shadow: 0 0 0 3px ${(props) => props.theme.colors.primary}20;
+	}
+`;
+
+const Dropdown = styled.div`
+	position: absolute;
+	top: calc(100% + ${(props) => props.theme.spacing.xs});
+	left: 0;
+	right: 0;
+	max-height: 420px;
+	overflow-y: auto;
+	background: ${(props) => props.theme.colors.surface};
+	border: 1px solid ${(props) => props.theme.colors.border};
+	border-radius: ${(props) => props.theme.borderRadius.md};
+	box-shadow: ${(props) => props.theme.shadows.lg};
+	z-index: ${(props) => props.theme.zIndex.dropdown};
+	padding: ${(props) => props.theme.spacing.xs} 0;
+`;
+
+const Status = styled.p`
+	margin: 0;
+	padding: ${(props) => props.theme.spacing.sm} ${(props) => props.theme.spacing.md};
+	font-size: ${(props) => props.theme.typography.fontSize.sm};
+	color: ${(props) => props.theme.colors.textSecondary};
+`;
+
+const GroupTitle = styled.h2`
+	margin: 0;
+	padding: ${(props) => props.theme.spacing.sm} ${(props) => props.theme.spacing.md}
+		${(props) => props.theme.spacing.xs};
+	font-size: ${(props) => props.theme.typography.fontSize.xs};
+	font-weight: ${(props) => props.theme.typography.fontWeight.semibold};
+	color: ${(props) => props.theme.colors.textSecondary};
+	text-transform: uppercase;
+`;
+
+const ResultButton = styled.button`
+	display: flex;
+	align-items: center;
+	gap: ${(props) => props.theme.spacing.sm};
+	width: 100%;
+	padding: ${(props) => props.theme.spacing.sm} ${(props) => props.theme.spacing.md};
+	background: none;
+	border: none;
+	text-align: left;
+	cursor: pointer;
+	color: ${(props) => props.theme.colors.textSecondary};
+
+	&:hover,
+	&:focus-visible {
+		outline: none;
+		background-color: ${(props) => props.theme.colors.backgroundAlt};
+		color: ${(props) => props.theme.colors.primary};
+	}
+
+	svg {
+		flex-shrink: 0;
+	}
+`;
+
+const ResultText = styled.span`
+	display: flex;
+	flex-direction: column;
+	min-width: 0;
+`;
+
+const ResultLabel = styled.span`
+	font-size: ${(props) => props.theme.typography.fontSize.sm};
+	font-weight: ${(props) => props.theme.typography.fontWeight.medium};
+	color: ${(props) => props.theme.colors.text};
+	overflow: hidden;
+	text-overflow: ellipsis;
+	white-space: nowrap;
+`;
+
+const ResultDescription = styled.span`
+	font-size: ${(props) => props.theme.typography.fontSize.xs};
+	color: ${(props) => props.theme.colors.textSecondary};
+`;
@@ -0,0 +1,95 @@
+import { Grid, Select, Text } from "@radix-ui/themes";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+/** Select value standing for "no column", since Radix Select items cannot use an empty value */
+const UNMAPPED = "__unmapped__";
+
+/** Field that can be filled from a spreadsheet column */
+export interface ImportField {
+	/** Field name, as expected by the API */
+	name: string;
+
+	/** Translated field label */
+	label: string;
+}
+
+/** Props for the ImportColumnMapper component */
+export interface ImportColumnMapperProps {
+	/** Fields to map */
+	fields: ImportField[];
+
+	/** Column headers found in the file */
+	columns: string[];
+
+	/** Column currently mapped to each field */
+	mapping: Partial<Record<string, string>>;
+
+	/** Callback when the column of a field changes, `undefined` clearing it */
+	onChange: (field: string, column: string | undefined) => void;
+
+	/** Whether the selects are disabled */
+	disabled?: boolean;
+}
+
+/**
+ * Form mapping each importable field to a column of the uploaded spreadsheet.
+ *
+ * Fields without a column are highlighted, as the file cannot be imported
+ * until every field is mapped.
+ *
+ * @example
+ * ```tsx
+ * <ImportColumnMapper
+ *   fields={[{ name: "name", label: "Name" }, { name: "document", label: "CPF/CNPJ" }]}
+ *   columns={report.columns}
+ *   mapping={mapping}
+ *   onChange={(field, column) => setMapping({ ...mapping, [field]: column })}
+ * />
+ * ```
+ */
+export function ImportColumnMapper({
+	fields,
+	columns,
+	mapping,
+	onChange,
+	disabled = false,
+}: ImportColumnMapperProps): ReactElement {
+	const { t } = useTranslation();
+
+	return (
+		<Grid columns={{ initial: "1", sm: "2" }} gap="3">
+			{fields.map((field) => {
+				const column = mapping[field.name];
+
+				return (
+					<label key={field.name}>
+						<Text as="div" size="2" weight="medium" mb="1">
+							{field.label} <Text color="red">*</Text>
+						</Text>
+						<Select.Root
+							value={column ?? UNMAPPED}
+							onValueChange={(value) => onChange(field.name, value === UNMAPPED ? undefined : value)}
+							disabled={disabled}
+						>
+							<Select.Trigger
+								style={{ width: "100%" }}
+								color={column ? undefined : "red"}
+								variant={column ? "surface" : "soft"}
+							/>
+							<Select.Content>
+								<Select.Item value={UNMAPPED}>{t(($) => $.import.noColumn)}</Select.Item>
+								{columns.map((header) => (
+									<Select.Item key={header} value={header}>
+										{header}
+									</Select.Item>
+								))}
+							</Select.Content>
+						</Select.Root>
+					</label>
+				);
+			})}
+		</Grid>
+	);
+}
@@ -0,0 +1,75 @@
+import { Badge, Flex, Table, Text } from "@radix-ui/themes";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { ImportReport } from "@agro/shared/types";
+
+/** Props for the ImportReportTable component */
+export interface ImportReportTableProps {
+	/** Report of the last import or dry run */
+	report: ImportReport;
+}
+
+/**
+ * Summary of an import report, followed by the errors of each invalid row.
+ *
+ * @example
+ * ```tsx
+ * <ImportReportTable report={report} />
+ * ```
+ */
+export function ImportReportTable({ report }: ImportReportTableProps): ReactElement {
+	const { t } = useTranslation();
+
+	return (
+		<Flex direction="column" gap="3">
+			<Flex gap="2" wrap="wrap">
+				<Badge color="gray" size="2">
+					{t(($) => $.import.totalRows, { count: report.totalRows })}
+				</Badge>
+				<Badge color="green" size="2">
+					{t(($) => $.import.validRows, { count: report.validRows })}
+				</Badge>
+				<Badge color={report.errors.length > 0 ? "red" : "gray"} size="2">
+					{t(($) => $.import.invalidRows, { count: report.errors.length })}
+				</Badge>
+				{!report.dryRun && (
+					<Badge color="blue" size="2">
+						{t(($) => $.import.importedRows, { count: report.importedRows })}
+					</Badge>
+				)}
+			</Flex>
+
+			{report.errors.length > 0 && (
+				<Table.Root variant="surface" size="1">
+					<Table.Header>
+						<Table.Row>
+							<Table.ColumnHeaderCell width="80px">{t(($) => $.import.row)}</Table.ColumnHeaderCell>
+							<Table.ColumnHeaderCell>{t(($) => $.import.errors)}</Table.ColumnHeaderCell>
+						</Table.Row>
+					</Table.Header>
+
+					<Table.Body>
+						{report.errors.map((error) => (
+							<Table.Row key={error.row}>
+								<Table.RowHeaderCell>
+									<Text size="2">{error.row}</Text>
+								</Table.RowHeaderCell>
+								<Table.Cell>
+									<Flex direction="column" gap="1">
+										{error.messages.map((message) => (
+											<Text key={message} size="2" color="red">
+												{message}
+											</Text>
+										))}
+									</Flex>
+								</Table.Cell>
+							</Table.Row>
+						))}
+					</Table.Body>
+				</Table.Root>
+			)}
+		</Flex>
+	);
+}
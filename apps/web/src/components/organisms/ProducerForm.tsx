@@ -1,13 +1,54 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Button, Flex, Text, TextField } from "@radix-ui/themes";
-import { useForm } from "react-hook-form";
+import { Button, Card, Flex, Grid, IconButton, Select, Spinner, Text, TextField } from "@radix-ui/themes";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { useMemo, useState } from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
 import { useTranslation } from "react-i18next";
 
 import type { ReactElement } from "react";
+import type { UseFormRegisterReturn } from "react-hook-form";
 
-import type { CreateProducerFormData } from "@/schemas";
+import type { CreateProducerFormData, CreateProducerFormValues } from "@/schemas";
 
-import { createProducerSchema } from "@/schemas";
+import { BrazilianState } from "@agro/shared/enums";
+import { stripCEPFormatting, validateCEP } from "@agro/shared/validators";
+
+import { useLocalStorageContext } from "@/contexts/LocalStorageContext";
+import { createProducerSchema, lockedDocumentProducerSchema } from "@/schemas";
+import { useLazyGetPostalCodeQuery } from "@/store/api";
+import { maskCEP, maskPhone, STORAGE_KEYS } from "@/utils";
+
+/** Maximum number of phone numbers a producer can have */
+const MAX_PHONES = 5;
+
+/** Empty address added when the producer starts filling one in */
+const EMPTY_ADDRESS = {
+	postalCode: "",
+	street: "",
+	number: "",
+	district: "",
+	city: "",
+	state: "" as BrazilianState,
+};
+
+/**
+ * Rewrites the value of an input with a mask before react-hook-form reads it.
+ *
+ * @param registration Registration returned by `register`
+ * @param mask Mask applied to the typed value
+ *
+ * @returns The registration with a masking change handler
+ */
+function withMask(registration: UseFormRegisterReturn, mask: (value: string) => string): UseFormRegisterReturn {
+	return {
+		...registration,
+		onChange: (event: { target: HTMLInputElement }) => {
+			event.target.value = mask(event.target.value);
+
+			return registration.onChange(event);
+		},
+	};
+}
 
 /** Props for the ProducerForm component */
 export interface ProducerFormProps {
@@ -18,14 +59,26 @@ export interface ProducerFormProps {
 	isLoading?: boolean;
 
 	/** Initial form values for editing */
-	defaultValues?: Partial<CreateProducerFormData>;
+	defaultValues?: Partial<CreateProducerFormValues>;
+
+	/**
+	 * Whether the document is masked, so it cannot be validated nor edited.
+	 *
+	 * The submitted document is then the masked one, which must not be sent to the API.
+	 */
+	isDocumentLocked?: boolean;
 }
 
 /**
  * Form component for creating and editing producers.
  *
  * Integrates react-hook-form with Zod validation for type-safe form handling.
- * Validates CPF/CNPJ documents using Brazilian government algorithms.
+ * Validates CPF/CNPJ documents using Brazilian government algorithms, and
+ * masks phone numbers and the postal code (CEP) of the optional address as
+ * they are typed. State registrations are checked against the algorithm of
+ * their state. Once a complete CEP is typed, the rest of the address is
+ * filled in from the API's offline postal code lookup. Masked documents are
+ * shown read-only.
  *
  * @example
  * ```tsx
@@ -39,25 +92,88 @@ export interface ProducerFormProps {
  * />
  * ```
  */
-export function ProducerForm({ onSubmit, isLoading = false, defaultValues }: ProducerFormProps): ReactElement {
+export function ProducerForm({
+	onSubmit,
+	isLoading = false,
+	defaultValues,
+	isDocumentLocked = false,
+}: ProducerFormProps): ReactElement {
 	const { t } = useTranslation();
+	const storage = useLocalStorageContext();
+	const [getPostalCode, { isFetching: isFetchingPostalCode }] = useLazyGetPostalCodeQuery();
+	const [isPostalCodeNotFound, setIsPostalCodeNotFound] = useState(false);
 	const {
 		register,
 		handleSubmit,
 		formState: { errors },
-	} = useForm<CreateProducerFormData>({
-		resolver: zodResolver(createProducerSchema),
-		defaultValues,
+		setValue,
+		control,
+	} = useForm({
+		resolver: zodResolver(isDocumentLocked ? lockedDocumentProducerSchema : createProducerSchema),
+		defaultValues: {
+			name: defaultValues?.name ?? "",
+			document: defaultValues?.document ?? "",
+			email: defaultValues?.email ?? "",
+			phones: defaultValues?.phones ?? [],
+			address: defaultValues?.address ?? null,
+			stateRegistrations: defaultValues?.stateRegistrations ?? [],
+		},
 		mode: "onSubmit",
 	});
 
+	const { fields: phoneFields, append: appendPhone, remove: removePhone } = useFieldArray({ control, name: "phones" });
+	const {
+		fields: stateRegistrationFields,
+		append: appendStateRegistration,
+		remove: removeStateRegistration,
+	} = useFieldArray({ control, name: "stateRegistrations" });
+	const address = useWatch({ control, name: "address" });
+	const stateRegistrations = useWatch({ control, name: "stateRegistrations" });
+	const selectedState = address?.state ?? "";
+
+	/** Get cities from localStorage and filter by selected state */
+	const availableCities = useMemo(() => {
+		if (!selectedState) return [];
+
+		const citiesData = storage.getItem<Record<string, string[]>>(STORAGE_KEYS.citiesByState as string);
+
+		return citiesData?.[selectedState] ?? [];
+	}, [selectedState, storage]);
+
+	/** Handle state change and reset city */
+	const handleStateChange = (state: string): void => {
+		setValue("address.state", state as BrazilianState, { shouldValidate: true });
+		setValue("address.city", "", { shouldValidate: false });
+	};
+
+	/** Fill in the state, city, street and district of a complete CEP */
+	const handlePostalCodeChange = async (postalCode: string): Promise<void> => {
+		setIsPostalCodeNotFound(false);
+
+		if (!validateCEP(postalCode)) return;
+
+		try {
+			const found = await getPostalCode(stripCEPFormatting(postalCode), true).unwrap();
+
+			setValue("address.state", found.state, { shouldValidate: true });
+			setValue("address.city", found.city.name, { shouldValidate: true });
+
+			if (found.street) setValue("address.street", found.street, { shouldValidate: true });
+			if (found.district) setValue("address.district", found.district, { shouldValidate: true });
+		} catch {
+			setIsPostalCodeNotFound(true);
+		}
+	};
+
+	const postalCodeField = withMask(register("address.postalCode"), maskCEP);
+
 	return (
 		<form
 			onSubmit={(event) => {
 				void handleSubmit(onSubmit)(event);
 			}}
 			noValidate
-			style={{ maxWidth: "600px" }}
+			style={{ maxWidth: "800px" }}
 		>
 			<Flex direction="column" gap="4">
 				{/* Producer Name */}
@@ -87,12 +203,13 @@ export function ProducerForm({ onSubmit, isLoading = false, defaultValues }: Pro
 						{t(($) => $.producers.document)} <Text color="red">*</Text>
 					</Text>
 					<Text as="div" size="1" color="gray" mb="1">
-						{t(($) => $.producers.documentHint)}
+						{isDocumentLocked ? t(($) => $.producers.documentMaskedHint) : t(($) => $.producers.documentHint)}
 					</Text>
 					<TextField.Root
 						{...register("document")}
 						placeholder="111.444.777-35 or 11.222.333/0001-81"
 						disabled={isLoading}
+						readOnly={isDocumentLocked}
 						color={errors.document ? "red" : undefined}
 					/>
 					{errors.document && (
@@ -102,6 +219,350 @@ export function ProducerForm({ onSubmit, isLoading = false, defaultValues }: Pro
 					)}
 				</label>
 
+				{/* Email */}
+				<label>
+					<Text as="div" size="2" weight="medium" mb="1">
+						{t(($) => $.producers.email)}
+					</Text>
+					<TextField.Root
+						{...register("email")}
+						type="email"
+						placeholder="joao@example.com"
+						disabled={isLoading}
+						color={errors.email ? "red" : undefined}
+					/>
+					{errors.email && (
+						<Text size="1" color="red" mt="1">
+							{errors.email.message}
+						</Text>
+					)}
+				</label>
+
+				{/* Phones */}
+				<Flex direction="column" gap="2">
+					<Text as="div" size="2" weight="medium">
+						{t(($) => $.producers.phones)}
+					</Text>
+					<Text as="div" size="1" color="gray">
+						{t(($) => $.producers.phonesHint)}
+					</Text>
+
+					{phoneFields.map((field, index) => (
+						<Flex key={field.id} direction="column" gap="1">
+							<Flex gap="2" align="center">
+								<TextField.Root
+									{...withMask(register(`phones.${index}.number`), maskPhone)}
+									type="tel"
+									inputMode="numeric"
+									placeholder="(11) 98765-4321"
+									aria-label={t(($) => $.producers.phone)}
+									disabled={isLoading}
+									color={errors.phones?.[index]?.number ? "red" : undefined}
+									style={{ flex: 1 }}
+								/>
+								<IconButton
+									type="button"
+									variant="soft"
+									color="red"
+									aria-label={t(($) => $.producers.removePhone)}
+									disabled={isLoading}
+									onClick={() => {
+										removePhone(index);
+									}}
+								>
+									<TrashIcon size={16} />
+								</IconButton>
+							</Flex>
+							{errors.phones?.[index]?.number && (
+								<Text size="1" color="red">
+									{errors.phones[index].number.message}
+								</Text>
+							)}
+						</Flex>
+					))}
+
+					<Flex>
+						<Button
+							type="button"
+							variant="soft"
+							disabled={isLoading || phoneFields.length >= MAX_PHONES}
+							onClick={() => {
+								appendPhone({ number: "" });
+							}}
+						>
+							<PlusIcon size={16} />
+							{t(($) => $.producers.addPhone)}
+						</Button>
+					</Flex>
+				</Flex>
+
+				{/* State Registrations */}
+				<Flex direction="column" gap="2">
+					<Text as="div" size="2" weight="medium">
+						{t(($) => $.producers.stateRegistrations)}
+					</Text>
+					<Text as="div" size="1" color="gray">
+						{t(($) => $.producers.stateRegistrationsHint)}
+					</Text>
+
+					{stateRegistrationFields.map((field, index) => (
+						<Flex key={field.id} direction="column" gap="1">
+							<Flex gap="2" align="center">
+								<Select.Root
+									value={stateRegistrations[index]?.state ?? ""}
+									onValueChange={(value) => {
+										setValue(`stateRegistrations.${index}.state`, value as BrazilianState, {
+											shouldValidate: true,
+										});
+									}}
+									disabled={isLoading}
+								>
+									<Select.Trigger
+										placeholder={t(($) => $.farms.selectState)}
+										aria-label={t(($) => $.producers.state)}
+										color={errors.stateRegistrations?.[index]?.state ? "red" : undefined}
+										style={{ width: "200px" }}
+									/>
+									<Select.Content>
+										{Object.values(BrazilianState).map((state) => (
+											<Select.Item key={state} value={state}>
+												{t(($) => $.states[state])}
+											</Select.Item>
+										))}
+									</Select.Content>
+								</Select.Root>
+								<TextField.Root
+									{...register(`stateRegistrations.${index}.number`)}
+									placeholder="110.042.490.114"
+									aria-label={t(($) => $.producers.stateRegistrationNumber)}
+									disabled={isLoading}
+									color={errors.stateRegistrations?.[index]?.number ? "red" : undefined}
+									style={{ flex: 1 }}
+								/>
+								<IconButton
+									type="button"
+									variant="soft"
+									color="red"
+									aria-label={t(($) => $.producers.removeStateRegistration)}
+									disabled={isLoading}
+									onClick={() => {
+										removeStateRegistration(index);
+									}}
+								>
+									<TrashIcon size={16} />
+								</IconButton>
+							</Flex>
+							{errors.stateRegistrations?.[index]?.state && (
+								<Text size="1" color="red">
+									{errors.stateRegistrations[index].state.message}
+								</Text>
+							)}
+							{errors.stateRegistrations?.[index]?.number && (
+								<Text size="1" color="red">
+									{errors.stateRegistrations[index].number.message}
+								</Text>
+							)}
+						</Flex>
+					))}
+
+					<Flex>
+						<Button
+							type="button"
+							variant="soft"
+							disabled={isLoading || stateRegistrationFields.length >= Object.values(BrazilianState).length}
+							onClick={() => {
+								appendStateRegistration({ state: "" as BrazilianState, number: "" });
+							}}
+						>
+							<PlusIcon size={16} />
+							{t(($) => $.producers.addStateRegistration)}
+						</Button>
+					</Flex>
+				</Flex>
+
+				{/* Address */}
+				<Flex direction="column" gap="2">
+					<Text as="div" size="2" weight="medium">
+						{t(($) => $.producers.address)}
+					</Text>
+
+					{address ?
+						<Card>
+							<Flex direction="column" gap="3">
+								<Grid columns={{ initial: "1", sm: "3" }} gap="3">
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.postalCode)} <Text color="red">*</Text>
+										</Text>
+										<TextField.Root
+											{...postalCodeField}
+											onChange={async (event) => {
+												await postalCodeField.onChange(event);
+												await handlePostalCodeChange(event.target.value);
+											}}
+											inputMode="numeric"
+											placeholder="01310-100"
+											disabled={isLoading}
+											color={errors.address?.postalCode ? "red" : undefined}
+										>
+											<TextField.Slot side="right">{isFetchingPostalCode && <Spinner />}</TextField.Slot>
+										</TextField.Root>
+										{errors.address?.postalCode ?
+											<Text size="1" color="red" mt="1">
+												{errors.address.postalCode.message}
+											</Text>
+										: isPostalCodeNotFound ?
+											<Text size="1" color="amber" mt="1">
+												{t(($) => $.producers.postalCodeNotFound)}
+											</Text>
+										:	<Text size="1" color="gray" mt="1">
+												{t(($) => $.producers.postalCodeHint)}
+											</Text>
+										}
+									</label>
+
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.state)} <Text color="red">*</Text>
+										</Text>
+										<Select.Root value={selectedState} onValueChange={handleStateChange} disabled={isLoading}>
+											<Select.Trigger placeholder={t(($) => $.farms.selectState)} style={{ width: "100%" }} />
+											<Select.Content>
+												{Object.values(BrazilianState).map((state) => (
+													<Select.Item key={state} value={state}>
+														{t(($) => $.states[state])}
+													</Select.Item>
+												))}
+											</Select.Content>
+										</Select.Root>
+										{errors.address?.state && (
+											<Text size="1" color="red" mt="1">
+												{errors.address.state.message}
+											</Text>
+										)}
+									</label>
+
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.city)} <Text color="red">*</Text>
+										</Text>
+										<Select.Root
+											value={address.city}
+											onValueChange={(value) => {
+												setValue("address.city", value, { shouldValidate: true });
+											}}
+											disabled={isLoading || !selectedState || availableCities.length === 0}
+										>
+											<Select.Trigger
+												style={{ width: "100%" }}
+												placeholder={
+													!selectedState ? t(($) => $.farms.selectStateFirst)
+													: availableCities.length === 0 ?
+														t(($) => $.farms.noCitiesAvailable)
+													:	t(($) => $.farms.selectCity)
+												}
+											/>
+											<Select.Content>
+												{availableCities.map((city) => (
+													<Select.Item key={city} value={city}>
+														{city}
+													</Select.Item>
+												))}
+											</Select.Content>
+										</Select.Root>
+										{errors.address?.city && (
+											<Text size="1" color="red" mt="1">
+												{errors.address.city.message}
+											</Text>
+										)}
+									</label>
+								</Grid>
+
+								<Grid columns={{ initial: "1", sm: "3" }} gap="3">
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.street)} <Text color="red">*</Text>
+										</Text>
+										<TextField.Root
+											{...register("address.street")}
+											placeholder="Avenida Francisco Glicério"
+											disabled={isLoading}
+											color={errors.address?.street ? "red" : undefined}
+										/>
+										{errors.address?.street && (
+											<Text size="1" color="red" mt="1">
+												{errors.address.street.message}
+											</Text>
+										)}
+									</label>
+
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.number)} <Text color="red">*</Text>
+										</Text>
+										<TextField.Root
+											{...register("address.number")}
+											placeholder="1000"
+											disabled={isLoading}
+											color={errors.address?.number ? "red" : undefined}
+										/>
+										{errors.address?.number && (
+											<Text size="1" color="red" mt="1">
+												{errors.address.number.message}
+											</Text>
+										)}
+									</label>
+
+									<label>
+										<Text as="div" size="2" weight="medium" mb="1">
+											{t(($) => $.producers.district)} <Text color="red">*</Text>
+										</Text>
+										<TextField.Root
+											{...register("address.district")}
+											placeholder="Centro"
+											disabled={isLoading}
+											color={errors.address?.district ? "red" : undefined}
+										/>
+										{errors.address?.district && (
+											<Text size="1" color="red" mt="1">
+												{errors.address.district.message}
+											</Text>
+										)}
+									</label>
+								</Grid>
+
+								<Flex>
+									<Button
+										type="button"
+										variant="soft"
+										color="red"
+										disabled={isLoading}
+										onClick={() => {
+											setValue("address", null);
+										}}
+									>
+										<TrashIcon size={16} />
+										{t(($) => $.producers.removeAddress)}
+									</Button>
+								</Flex>
+							</Flex>
+						</Card>
+					:	<Flex>
+							<Button
+								type="button"
+								variant="soft"
+								disabled={isLoading}
+								onClick={() => {
+									setValue("address", EMPTY_ADDRESS);
+								}}
+							>
+								<PlusIcon size={16} />
+								{t(($) => $.producers.addAddress)}
+							</Button>
+						</Flex>
+					}
+				</Flex>
+
 				{/* Submit Button */}
 				<Flex justify="end" mt="2">
 					<Button type="submit" disabled={isLoading} loading={isLoading}>
@@ -8,9 +8,10 @@ import type { ReactElement } from "react";
 
 import type { Farm, Producer } from "@agro/shared/types";
 
-import { CROP_TO_COLOR } from "@/utils";
+import { formatDocument } from "@agro/shared/validators";
 
-import { PaginationControls } from "../atoms/";
+import { LoadMoreTrigger } from "../atoms/";
+import { HarvestCropList } from "../molecules/HarvestCropList";
 import { EmptyState } from "../ui/EmptyState";
 import { ErrorMessage } from "../ui/ErrorMessage";
 
@@ -34,40 +35,38 @@ export interface ProducerListProps {
 	/** Whether delete operation is in progress */
 	isDeletingId?: string;
 
-	/**
-	 * Current page number
-	 *
-	 * @default 1
-	 */
-	page?: number;
+	/** Whether more producers can be loaded */
+	hasNextPage?: boolean;
 
-	/** Total number of items */
-	total?: number;
+	/** Whether the next page of producers is loading */
+	isFetchingNextPage?: boolean;
 
-	/** Number of items per page */
-	limit?: number;
-
-	/** Callback when page changes */
-	onPageChange?: (page: number) => void;
+	/** Callback loading the next page, when scrolled to the end of the list */
+	onLoadMore?: () => void;
 }
 
 /**
  * List component for displaying producers with actions.
  *
- * Handles loading, error, and empty states automatically.
+ * Handles loading, error, and empty states automatically, and loads the
+ * next page when scrolled to the end of the list.
  * Provides edit and delete actions for each producer.
  *
  * @example
  * ```tsx
- * const { data, isLoading, error, refetch } = useGetProducersQuery();
+ * const { data, isLoading, error, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+ *   useGetProducerPagesInfiniteQuery({});
  * const [deleteProducer] = useDeleteProducerMutation();
  *
  * <ProducerList
- *   producers={data?.data}
+ *   producers={data?.pages.flatMap((page) => page.data)}
  *   isLoading={isLoading}
  *   error={error?.message}
  *   onRetry={refetch}
  *   onDelete={(id) => deleteProducer(id)}
+ *   hasNextPage={hasNextPage}
+ *   isFetchingNextPage={isFetchingNextPage}
+ *   onLoadMore={() => void fetchNextPage()}
  * />
  * ```
  */
@@ -78,18 +77,14 @@ export function ProducerList({
 	onRetry,
 	onDelete,
 	isDeletingId,
-	page = 1,
-	total = 0,
-	limit = 10,
-	onPageChange,
+	hasNextPage = false,
+	isFetchingNextPage = false,
+	onLoadMore,
 }: ProducerListProps): ReactElement {
 	const { t } = useTranslation();
 	const navigate = useNavigate();
 	const [selectedFarm, setSelectedFarm] = useState<Farm | null>(null);
 
-	const totalPages = Math.ceil(total / limit);
-	const showPagination = total > limit;
-
 	if (error) {
 		return <ErrorMessage message={error} onRetry={onRetry} />;
 	}
@@ -134,14 +129,8 @@ export function ProducerList({
 					</Table.Body>
 				</Table.Root>
 
-				{showPagination ?
-					<PaginationControls
-						page={page}
-						total={total}
-						isLoading={isLoading}
-						totalPages={totalPages}
-						onPageChange={onPageChange}
-					/>
+				{hasNextPage && onLoadMore ?
+					<LoadMoreTrigger isLoading={isFetchingNextPage} onLoadMore={onLoadMore} />
 				:	null}
 			</Flex>
 
@@ -225,15 +214,7 @@ export function ProducerList({
 										<Text weight="bold">{t(($) => $.farms.crops)}</Text>
 									</Table.Cell>
 									<Table.Cell>
-										<Flex gap="1" wrap="wrap">
-											{farm.crops && farm.crops.length > 0 ?
-												farm.crops.map((crop) => (
-													<Badge key={crop} variant="soft" color={CROP_TO_COLOR[crop]}>
-														{t(($) => $.crops[crop])}
-													</Badge>
-												))
-											:	t(($) => $.common.none)}
-										</Flex>
+										<HarvestCropList cropsByHarvest={farm.cropsByHarvest ?? []} size="2" />
 									</Table.Cell>
 								</Table.Row>
 							</Table.Body>
@@ -263,7 +244,7 @@ export function ProducerList({
 	}
 
 	function ProducerDataRow({ producer }: { producer: Producer }) {
-		const hasFarms = producer.farms && producer.farms.length > 0;
+		const farms = producer.farms ?? [];
 
 		return (
 			<Table.Row>
@@ -272,16 +253,16 @@ export function ProducerList({
 				</Table.RowHeaderCell>
 				<Table.Cell>
 					<Text size="2" color="gray">
-						{producer.document}
+						{formatDocument(producer.document)}
 					</Text>
 				</Table.Cell>
 				<Table.Cell>
-					{!hasFarms ?
+					{farms.length === 0 ?
 						<Text size="2" color="gray">
 							{t(($) => $.common.none)}
 						</Text>
 					:	<Flex direction="column" gap="1">
-							{producer.farms.map((farm) => (
+							{farms.map((farm) => (
 								<Badge
 									key={farm.id}
 									variant="soft"
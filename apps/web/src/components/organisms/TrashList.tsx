@@ -0,0 +1,181 @@
+import { Button, Flex, Skeleton, Table, Text } from "@radix-ui/themes";
+import { BadgeXIcon as PurgeIcon, Undo2Icon as RestoreIcon } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import { ErrorMessage } from "../ui/ErrorMessage";
+
+/** Soft-deleted record displayed in the trash */
+export interface TrashItem {
+	/** UUID of the record */
+	id: string;
+
+	/** Name of the record */
+	name: string;
+
+	/** Short description of the record, such as its document or location */
+	details: string;
+
+	/** Timestamp when the record was moved to the trash */
+	deletedAt: string;
+
+	/**
+	 * Reason the record cannot be restored on its own, shown instead of the
+	 * restore button (e.g. a farm deleted along with its producer)
+	 */
+	restoreNote?: string;
+}
+
+/** Props for the TrashList component */
+export interface TrashListProps {
+	/** Records to display, most recently deleted first */
+	items?: TrashItem[];
+
+	/** Header of the details column */
+	detailsLabel: string;
+
+	/** Message displayed when the trash has no records */
+	emptyMessage: string;
+
+	/** Whether data is loading */
+	isLoading?: boolean;
+
+	/** Error message if fetch failed */
+	error?: string;
+
+	/** Callback for retrying failed request */
+	onRetry?: () => void;
+
+	/** Callback when the restore button of a record is clicked */
+	onRestore: (id: string) => void;
+
+	/** Callback when the purge button of a record is clicked, omitted to hide the button */
+	onPurge?: (id: string) => void;
+
+	/** ID of the record being restored or purged */
+	processingId?: string;
+}
+
+/**
+ * List component for displaying soft-deleted records with restore and purge actions.
+ *
+ * Handles loading, error, and empty states automatically.
+ *
+ * @example
+ * ```tsx
+ * <TrashList
+ *   items={deletedProducers.map(({ id, name, document, deletedAt }) => ({ id, name, details: document, deletedAt }))}
+ *   detailsLabel={t(($) => $.trash.document)}
+ *   emptyMessage={t(($) => $.trash.noProducers)}
+ *   onRestore={(id) => restoreProducer(id)}
+ *   onPurge={isAdmin ? openPurgeDialog : undefined}
+ * />
+ * ```
+ */
+export function TrashList({
+	items = [],
+	detailsLabel,
+	emptyMessage,
+	isLoading = false,
+	error,
+	onRetry,
+	onRestore,
+	onPurge,
+	processingId,
+}: TrashListProps): ReactElement {
+	const { t } = useTranslation();
+
+	if (error) {
+		return <ErrorMessage message={error} onRetry={onRetry} />;
+	}
+
+	if (!isLoading && items.length === 0) {
+		return (
+			<Text size="2" color="gray">
+				{emptyMessage}
+			</Text>
+		);
+	}
+
+	return (
+		<Table.Root variant="surface" size="2">
+			<Table.Header>
+				<Table.Row>
+					<Table.ColumnHeaderCell>{t(($) => $.trash.name)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{detailsLabel}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.trash.deletedAt)}</Table.ColumnHeaderCell>
+					<Table.ColumnHeaderCell>{t(($) => $.common.actions)}</Table.ColumnHeaderCell>
+				</Table.Row>
+			</Table.Header>
+
+			<Table.Body>
+				{isLoading ?
+					<LoadingState />
+				:	items.map((item) => (
+						<Table.Row key={item.id}>
+							<Table.RowHeaderCell>
+								<Text>{item.name}</Text>
+							</Table.RowHeaderCell>
+							<Table.Cell>
+								<Text size="2">{item.details}</Text>
+							</Table.Cell>
+							<Table.Cell>
+								<Text size="2">{new Date(item.deletedAt).toLocaleString()}</Text>
+							</Table.Cell>
+							<Table.Cell>
+								<Flex gap="2" align="center">
+									{item.restoreNote ?
+										<Text size="2" color="gray">
+											{item.restoreNote}
+										</Text>
+									:	<Button
+											variant="soft"
+											size="1"
+											onClick={() => onRestore(item.id)}
+											disabled={processingId === item.id}
+											loading={processingId === item.id}
+										>
+											<Flex>
+												<RestoreIcon size={16} aria-hidden="true" style={{ marginRight: 4 }} />
+												{t(($) => $.trash.restore)}
+											</Flex>
+										</Button>
+									}
+									{onPurge && (
+										<Button
+											color="red"
+											variant="soft"
+											size="1"
+											onClick={() => onPurge(item.id)}
+											disabled={processingId === item.id}
+										>
+											<Flex>
+												<PurgeIcon size={16} aria-hidden="true" style={{ marginRight: 4 }} />
+												{t(($) => $.trash.purge)}
+											</Flex>
+										</Button>
+									)}
+								</Flex>
+							</Table.Cell>
+						</Table.Row>
+					))
+				}
+			</Table.Body>
+		</Table.Root>
+	);
+
+	function LoadingState() {
+		return Array.from({ length: 2 }).map((_, index) => (
+			<Table.Row key={index}>
+				{Array.from({ length: 4 }).map((_, cellIndex) => (
+					<Table.Cell key={cellIndex}>
+						<Skeleton>
+							<Text>{t(($) => $.common.loading)}</Text>
+						</Skeleton>
+					</Table.Cell>
+				))}
+			</Table.Row>
+		));
+	}
+}
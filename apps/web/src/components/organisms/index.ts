@@ -1,4 +1,13 @@
+export * from "./AuditHistoryList";
+export * from "./ConflictDialog";
 export * from "./FarmForm";
 export * from "./FarmList";
+export * from "./FarmOwnershipHistoryList";
+export * from "./FarmPlotForm";
+export * from "./FarmPlotList";
+export * from "./GlobalSearch";
+export * from "./ImportColumnMapper";
+export * from "./ImportReportTable";
 export * from "./ProducerForm";
 export * from "./ProducerList";
+export * from "./TrashList";
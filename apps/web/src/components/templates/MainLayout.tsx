@@ -2,8 +2,10 @@ import {
 	BarChart3 as ChartIcon,
 	X as CloseIcon,
 	Factory as FarmIcon,
+	FileUp as ImportIcon,
 	LogOut as LogOutIcon,
 	Menu as MenuIcon,
+	Trash2 as TrashIcon,
 	Users as UsersIcon,
 } from "lucide-react";
 import { useState } from "react";
@@ -15,6 +17,7 @@ import type { ReactElement, ReactNode } from "react";
 
 import { ROUTES } from "@agro/shared/constants";
 
+import { GlobalSearch } from "@/components/organisms/GlobalSearch";
 import { Button } from "@/components/ui/Button";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/contexts/ToastContext";
@@ -30,7 +33,7 @@ interface MainLayoutProps {
  * Main application layout with header and sidebar navigation.
  *
  * Provides consistent navigation structure for all authenticated pages.
- * Includes header with user info and logout, sidebar with main navigation links.
+ * Includes header with the global search, user info and logout, sidebar with main navigation links.
  */
 export function MainLayout({ children }: MainLayoutProps): ReactElement {
 	const { t } = useTranslation();
@@ -65,6 +68,7 @@ export function MainLayout({ children }: MainLayoutProps): ReactElement {
 					</MenuButton>
 					<Logo>{t(($) => $.app.title)}</Logo>
 				</HeaderLeft>
+				<GlobalSearch />
 				<HeaderRight>
 					<UserInfo>
 						<UserEmail>{user?.email}</UserEmail>
@@ -91,6 +95,14 @@ export function MainLayout({ children }: MainLayoutProps): ReactElement {
 							<FarmIcon size={20} />
 							<NavText>{t(($) => $.nav.farms)}</NavText>
 						</NavItem>
+						<NavItem to={ROUTES.web.import}>
+							<ImportIcon size={20} />
+							<NavText>{t(($) => $.nav.import)}</NavText>
+						</NavItem>
+						<NavItem to={ROUTES.web.trash}>
+							<TrashIcon size={20} />
+							<NavText>{t(($) => $.nav.trash)}</NavText>
+						</NavItem>
 					</SidebarNav>
 				</Sidebar>
 
@@ -2,6 +2,8 @@ import { createContext, useCallback, useContext, useState } from "react";
 
 import type { ReactElement, ReactNode } from "react";
 
+import type { UserRole } from "@agro/shared/enums";
+
 import { Logger } from "@/utils/logger.util";
 
 import { useLocalStorageContext } from "./LocalStorageContext";
@@ -18,6 +20,9 @@ const TOKEN_STORAGE_KEY = "brain_ag_auth_token";
  */
 interface User {
 	email: string;
+
+	/** Role of the user, unknown for sessions started before roles were introduced */
+	role?: UserRole;
 }
 
 /**
@@ -34,7 +39,7 @@ export interface AuthContextValue {
 	isAuthenticated: boolean;
 
 	/** Login function to set token and user */
-	login: (token: string, email: string) => void;
+	login: (token: string, email: string, role: UserRole) => void;
 
 	/** Logout function to clear token and user */
 	logout: () => void;
@@ -82,16 +87,16 @@ export function AuthProvider({ children }: AuthProviderProps): ReactElement {
 	});
 
 	const login = useCallback(
-		(accessToken: string, email: string) => {
+		(accessToken: string, email: string, role: UserRole) => {
 			logger.debug("login() called with email:", email);
 
 			storage.setItem(TOKEN_STORAGE_KEY, accessToken);
-			storage.setItem("brain_ag_user", { email });
+			storage.setItem("brain_ag_user", { email, role });
 
 			logger.debug("Saved to localStorage successfully");
 
 			setToken(accessToken);
-			setUser({ email });
+			setUser({ email, role });
 
 			logger.debug("State updated - token and user set");
 		},
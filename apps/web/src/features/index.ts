@@ -2,3 +2,12 @@ export * from "../components/organisms/ProducerForm";
 export * from "../components/organisms/ProducerList";
 export * from "../components/organisms/FarmForm";
 export * from "../components/organisms/FarmList";
+export * from "../components/organisms/FarmOwnershipHistoryList";
+export * from "../components/organisms/FarmPlotForm";
+export * from "../components/organisms/FarmPlotList";
+export * from "../components/organisms/TrashList";
+export * from "../components/organisms/AuditHistoryList";
+export * from "../components/organisms/ConflictDialog";
+export * from "../components/organisms/GlobalSearch";
+export * from "../components/organisms/ImportColumnMapper";
+export * from "../components/organisms/ImportReportTable";
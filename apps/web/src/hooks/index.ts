@@ -1,2 +1,3 @@
+export { useCropCatalog } from "./useCropCatalog";
 export { useLocalStorage } from "./useLocalStorage";
 export { useLogger } from "./useLogger";
@@ -0,0 +1,64 @@
+import { useCallback } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { Crop, CropCode } from "@agro/shared/types";
+
+import { useGetCropsQuery } from "@/store/api/cropsApi";
+
+/** Color used for crops missing from the catalog */
+const FALLBACK_CROP_COLOR = "#6B7280";
+
+/** Value returned by {@link useCropCatalog} */
+export interface CropCatalog {
+	/** Crops of the catalog, sorted by code */
+	crops: Crop[];
+
+	/** Whether the catalog is still loading */
+	isLoading: boolean;
+
+	/** Label of a crop in the current language (the code itself when unknown) */
+	getCropLabel: (code: CropCode) => string;
+
+	/** Hex color of a crop (gray when unknown) */
+	getCropColor: (code: CropCode) => string;
+}
+
+/**
+ * Reads the crop catalog from the API.
+ *
+ * Crops are data-driven, so their labels and colors come from the catalog
+ * instead of translations or hard-coded maps.
+ *
+ * @returns The crops of the catalog and label/color lookups by code
+ *
+ * @example
+ * ```tsx
+ * const { crops, getCropLabel, getCropColor } = useCropCatalog();
+ *
+ * <Badge style={{ color: getCropColor("soy") }}>{getCropLabel("soy")}</Badge>
+ * ```
+ */
+export function useCropCatalog(): CropCatalog {
+	const { i18n } = useTranslation();
+	const { data: crops = [], isLoading } = useGetCropsQuery(undefined);
+	const isPortuguese = i18n.language.startsWith("pt");
+
+	const getCropLabel = useCallback(
+		(code: CropCode): string => {
+			const crop = crops.find((catalogCrop) => catalogCrop.code === code);
+
+			if (!crop) return code;
+
+			return isPortuguese ? crop.labelPtBr : crop.labelEn;
+		},
+		[crops, isPortuguese],
+	);
+
+	const getCropColor = useCallback(
+		(code: CropCode): string =>
+			crops.find((catalogCrop) => catalogCrop.code === code)?.color ?? FALLBACK_CROP_COLOR,
+		[crops],
+	);
+
+	return { crops, isLoading, getCropLabel, getCropColor };
+}
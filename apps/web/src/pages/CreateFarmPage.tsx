@@ -7,6 +7,7 @@ import type { ReactElement } from "react";
 import type { CreateFarmFormData } from "@/schemas";
 
 import { ROUTES } from "@agro/shared/constants";
+import { ProducerField } from "@agro/shared/enums";
 
 import { Typography } from "@/components/atoms";
 import { Card, EmptyState, LoadingState } from "@/components/ui/";
@@ -30,6 +31,7 @@ export function CreateFarmPage(): ReactElement {
 	const { data: producersData, isLoading: isLoadingProducers } = useGetProducersQuery({
 		page: 1,
 		limit: 100,
+		fields: [ProducerField.Name],
 	});
 	const [createFarm, { isLoading: isCreating }] = useCreateFarmMutation();
 
@@ -1,5 +1,13 @@
-import { Layers as AreaIcon, Factory as FarmIcon, TrendingUpIcon, UsersIcon } from "lucide-react";
-import { useMemo } from "react";
+import { SegmentedControl } from "@radix-ui/themes";
+import {
+	Layers as AreaIcon,
+	Factory as FarmIcon,
+	TreePineIcon,
+	TrendingUpIcon,
+	TriangleAlertIcon,
+	UsersIcon,
+} from "lucide-react";
+import { useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import styled from "styled-components";
 
@@ -12,13 +20,18 @@ import { DashboardGrid } from "@/components/organisms/DashboardGrid";
 import { DashboardPieChart } from "@/components/organisms/DashboardPieChart";
 import { DashboardStatCard } from "@/components/organisms/DashboardStatCard";
 import { PageContainer } from "@/components/templates/PageContainer";
+import { useCropCatalog } from "@/hooks";
 import { useGetDashboardStatsQuery } from "@/store/api/dashboardApi";
 
+/** Metric used to size the slices of the crop distribution chart */
+type CropMetric = "farms" | "hectares";
+
 /**
  * Enhanced dashboard page displaying comprehensive agricultural analytics.
  *
- * Shows totals, averages, distributions, top records, and land efficiency
- * metrics across all registered farms and producers. Uses a single optimized
+ * Shows totals, averages, distributions, top records, productivity rankings,
+ * legal reserve compliance and land efficiency metrics across all registered
+ * farms and producers. Uses a single optimized
  * API call for all data.
  *
  * ## Performance
@@ -34,6 +47,8 @@ import { useGetDashboardStatsQuery } from "@/store/api/dashboardApi";
 export function DashboardPage(): ReactElement {
 	const { t } = useTranslation();
 	const { data: stats, isLoading, error } = useGetDashboardStatsQuery(undefined);
+	const [cropMetric, setCropMetric] = useState<CropMetric>("farms");
+	const { getCropLabel, getCropColor } = useCropCatalog();
 
 	/** Transformed state distribution data for bar chart */
 	const stateChartData = useMemo(
@@ -67,15 +82,23 @@ export function DashboardPage(): ReactElement {
 		);
 	}, [stats?.distributions.producersByState, t]);
 
-	/** Transformed crop distribution data for pie chart */
+	/** Transformed crop distribution data for pie chart, by farm count or planted hectares */
 	const cropChartData = useMemo(() => {
 		if (!stats?.distributions.byCrop) return [];
-		const totalCrops = stats.distributions.byCrop.reduce((sum, item) => sum + item.count, 0);
+		const getValue = (item: (typeof stats.distributions.byCrop)[number]): number =>
+			cropMetric === "farms" ? item.count : item.plantedArea;
+		const total = stats.distributions.byCrop.reduce((sum, item) => sum + getValue(item), 0);
 		return stats.distributions.byCrop.map((item) => ({
-			name: t(($) => $.crops[item.cropType]),
-			value: totalCrops > 0 ? Math.round((item.count / totalCrops) * 100) : 0,
+			name: getCropLabel(item.cropType),
+			value: total > 0 ? Math.round((getValue(item) / total) * 100) : 0,
 		}));
-	}, [stats, t]);
+	}, [stats, cropMetric, getCropLabel]);
+
+	/** Slice colors of the crop distribution chart, from the crop catalog */
+	const cropChartColors = useMemo(
+		() => stats?.distributions.byCrop.map((item) => getCropColor(item.cropType)),
+		[stats?.distributions.byCrop, getCropColor],
+	);
 
 	/** Transformed land use data for pie chart */
 	const landUseChartData = useMemo(() => {
@@ -230,9 +253,22 @@ export function DashboardPage(): ReactElement {
 					<DashboardPieChart
 						title={t(($) => $.dashboard.cropsDistribution)}
 						data={cropChartData}
+						colors={cropChartColors}
 						isLoading={isLoading}
 						error={errorMessage}
 						overrides={{ outerRadius: 100 }}
+						actions={
+							<SegmentedControl.Root
+								size="1"
+								value={cropMetric}
+								onValueChange={(value) => {
+									setCropMetric(value as CropMetric);
+								}}
+							>
+								<SegmentedControl.Item value="farms">{t(($) => $.dashboard.byFarmCount)}</SegmentedControl.Item>
+								<SegmentedControl.Item value="hectares">{t(($) => $.dashboard.byPlantedArea)}</SegmentedControl.Item>
+							</SegmentedControl.Root>
+						}
 					/>
 					<DashboardPieChart
 						title={t(($) => $.dashboard.landUseDistribution)}
@@ -273,8 +309,8 @@ export function DashboardPage(): ReactElement {
 						error={errorMessage}
 					/>
 					<DashboardDataTable
-						title={t(($) => $.dashboard.mostProductiveProducers)}
-						data={stats?.topRecords.mostProductiveProducers}
+						title={t(($) => $.dashboard.producersWithMostFarms)}
+						data={stats?.topRecords.producersWithMostFarms}
 						columns={[
 							{
 								header: t(($) => $.dashboard.producerName),
@@ -294,6 +330,115 @@ export function DashboardPage(): ReactElement {
 						error={errorMessage}
 					/>
 				</DashboardGrid>
+
+				{/* Productivity Section */}
+				<SectionTitle>{t(($) => $.dashboard.productivity)}</SectionTitle>
+				<DashboardGrid columns={2}>
+					<DashboardDataTable
+						title={t(($) => $.dashboard.productivityByCrop)}
+						data={stats?.productivity.byCrop}
+						columns={[
+							{
+								header: t(($) => $.dashboard.crop),
+								accessor: (row) => getCropLabel(row.cropType),
+							},
+							{
+								header: t(($) => $.dashboard.averageYield),
+								accessor: (row) => row.averageYield,
+								format: (value) => `${Number(value).toFixed(2)} ${t(($) => $.dashboard.tonsPerHectare)}`,
+							},
+							{
+								header: t(($) => $.dashboard.totalProduction),
+								accessor: (row) => row.totalProduction,
+								format: (value) => `${Number(value).toFixed(2)} ${t(($) => $.dashboard.tons)}`,
+							},
+						]}
+						isLoading={isLoading}
+						error={errorMessage}
+					/>
+					<DashboardDataTable
+						title={t(($) => $.dashboard.productivityByState)}
+						data={stats?.productivity.byState}
+						columns={[
+							{
+								header: t(($) => $.dashboard.state),
+								accessor: (row) => t(($) => $.states[row.state]),
+							},
+							{
+								header: t(($) => $.dashboard.crop),
+								accessor: (row) => getCropLabel(row.cropType),
+							},
+							{
+								header: t(($) => $.dashboard.averageYield),
+								accessor: (row) => row.averageYield,
+								format: (value) => `${Number(value).toFixed(2)} ${t(($) => $.dashboard.tonsPerHectare)}`,
+							},
+						]}
+						isLoading={isLoading}
+						error={errorMessage}
+					/>
+				</DashboardGrid>
+
+				{/* Legal Reserve Compliance Section */}
+				<SectionTitle>{t(($) => $.dashboard.legalReserve)}</SectionTitle>
+				<DashboardGrid columns={2}>
+					<DashboardStatCard
+						label={t(($) => $.dashboard.nonCompliantFarms)}
+						value={stats?.compliance.nonCompliantFarms.length ?? 0}
+						icon={<TriangleAlertIcon size={24} />}
+						variant="error"
+						isLoading={isLoading}
+					/>
+					<DashboardStatCard
+						label={t(($) => $.dashboard.totalDeficit)}
+						value={stats?.compliance.totalDeficitHectares.toFixed(2) ?? "0"}
+						unit={t(($) => $.dashboard.hectares)}
+						icon={<TreePineIcon size={24} />}
+						variant="warning"
+						isLoading={isLoading}
+					/>
+				</DashboardGrid>
+				<DashboardGrid columns={1}>
+					<DashboardDataTable
+						title={t(($) => $.dashboard.nonCompliantFarms)}
+						data={stats?.compliance.nonCompliantFarms}
+						columns={[
+							{
+								header: t(($) => $.dashboard.farmName),
+								accessor: (row) => row.name,
+							},
+							{
+								header: t(($) => $.dashboard.city),
+								accessor: (row) => `${row.city}, ${row.state}`,
+							},
+							{
+								header: t(($) => $.dashboard.biome),
+								accessor: (row) => t(($) => $.biomes[row.biome]),
+							},
+							{
+								header: t(($) => $.dashboard.requiredReserve),
+								accessor: (row) => row.requiredPercentage,
+								format: (value) => `${String(value)}%`,
+							},
+							{
+								header: t(($) => $.dashboard.currentVegetation),
+								accessor: (row) => row.vegetationPercentage,
+								format: (value) => `${Number(value).toFixed(1)}%`,
+							},
+							{
+								header: t(($) => $.dashboard.deficit),
+								accessor: (row) => row.deficit,
+								format: (value) => `${Number(value).toFixed(2)} ${t(($) => $.dashboard.hectares)}`,
+							},
+							{
+								header: t(($) => $.dashboard.producerName),
+								accessor: (row) => row.producerName,
+							},
+						]}
+						isLoading={isLoading}
+						error={errorMessage}
+					/>
+				</DashboardGrid>
 			</Container>
 		</PageContainer>
 	);
@@ -1,25 +1,42 @@
+import { Tabs } from "@radix-ui/themes";
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Navigate, useNavigate, useParams } from "react-router-dom";
 import styled from "styled-components";
 
 import type { ReactElement } from "react";
 
-import type { UpdateFarmRequest } from "@agro/shared/types";
+import type { Farm, FarmPlot, HarvestCrops, HarvestCropsInput, UpdateFarmRequest } from "@agro/shared/types";
+
+import type { ConflictField } from "@/features";
+import type { CreateFarmFormData, FarmPlotFormData } from "@/schemas";
 
 import { ROUTES } from "@agro/shared/constants";
+import { AuditEntityType } from "@agro/shared/enums";
 
 import { Typography } from "@/components/atoms";
-import { Card, LoadingState } from "@/components/ui/";
+import { Card, ConfirmDialog, Dialog, LoadingState } from "@/components/ui/";
 import { useToast } from "@/contexts";
-import { FarmForm } from "@/features";
-import { useLogger } from "@/hooks";
-import { useGetFarmByIdQuery, useUpdateFarmMutation } from "@/store/api";
+import { AuditHistoryList, ConflictDialog, FarmForm, FarmPlotForm, FarmPlotList } from "@/features";
+import { useCropCatalog, useLogger } from "@/hooks";
+import {
+	isPreconditionFailedError,
+	useCreateFarmPlotMutation,
+	useDeleteFarmPlotMutation,
+	useGetAuditLogsQuery,
+	useGetFarmByIdQuery,
+	useGetFarmPlotsQuery,
+	useUpdateFarmMutation,
+	useUpdateFarmPlotMutation,
+} from "@/store/api";
 
 /**
  * Edit farm page component for updating existing agricultural farms.
  *
- * Loads farm data by ID and displays form for editing with pre-filled values.
- * Handles validation and submission with success/error feedback.
+ * Loads farm data by ID and displays form for editing with pre-filled values,
+ * alongside tabs for managing the farm's plots (talhões) and viewing its change history.
+ * Handles validation and submission with success/error feedback, and offers to reload
+ * or compare when the farm was changed by someone else in the meantime.
  */
 export function EditFarmPage(): ReactElement {
 	const logger = useLogger(EditFarmPage.name);
@@ -28,21 +45,60 @@ export function EditFarmPage(): ReactElement {
 	const toast = useToast();
 	const { id } = useParams<{ id: string }>();
 
-	const { data: farm, isLoading: isLoadingFarm, error: loadError } = useGetFarmByIdQuery(id ?? "", { skip: !id });
+	const { getCropLabel } = useCropCatalog();
+	const [formKey, setFormKey] = useState(0);
+	const [editedVersion, setEditedVersion] = useState<number>();
+	const [conflict, setConflict] = useState<UpdateFarmRequest>();
+
+	const {
+		data: farm,
+		isLoading: isLoadingFarm,
+		isFetching: isFetchingFarm,
+		error: loadError,
+		refetch: refetchFarm,
+	} = useGetFarmByIdQuery(id ?? "", { skip: !id });
 	const [updateFarm, { isLoading: isUpdating }] = useUpdateFarmMutation();
+	const { data: plots } = useGetFarmPlotsQuery(id ?? "", { skip: !id });
 
 	if (!id) {
 		return <Navigate to={ROUTES.web.dashboard} replace />;
 	}
 
-	const handleSubmit = async (data: UpdateFarmRequest) => {
+	const handleSubmit = async (formData: CreateFarmFormData) => {
+		const { name, city, state, totalArea, arableArea, vegetationArea, cropsByHarvest } = formData;
+		const submittedHarvestIds = new Set(cropsByHarvest?.map((entry) => entry.harvestId));
+		const removedHarvests = (farm?.cropsByHarvest ?? [])
+			.filter((entry) => !submittedHarvestIds.has(entry.harvestId))
+			.map((entry) => ({ harvestId: entry.harvestId, crops: [] }));
+
+		// The owner is changed through a transfer, so the form's producer is not sent
+		const changes: UpdateFarmRequest = {
+			name,
+			city,
+			state,
+			totalArea,
+			arableArea,
+			vegetationArea,
+			cropsByHarvest: [...(cropsByHarvest ?? []), ...removedHarvests],
+		};
+		// Keep checking against the version the form was loaded from, even once the latest is fetched
+		const version = editedVersion ?? farm?.version;
+
 		try {
-			await updateFarm({ id, ...data }).unwrap();
+			await updateFarm({ id, version, ...changes }).unwrap();
 
 			toast.success(t(($) => $.farms.updateSuccess));
 
 			await navigate(ROUTES.web.farms.list);
 		} catch (error) {
+			if (isPreconditionFailedError(error)) {
+				setEditedVersion(version);
+				setConflict(changes);
+				void refetchFarm();
+
+				return;
+			}
+
 			logger.error(
 				t(($) => $.farms.updateError),
 				error,
@@ -66,6 +122,41 @@ export function EditFarmPage(): ReactElement {
 		return <Navigate to={ROUTES.web.farms.list} replace />;
 	}
 
+	const handleReload = () => {
+		setConflict(undefined);
+		setEditedVersion(undefined);
+		setFormKey((key) => key + 1);
+	};
+
+	// Farms read by ID always have their crops
+	const cropsByHarvest = farm.cropsByHarvest ?? [];
+	const harvestYears = new Map(cropsByHarvest.map((entry) => [entry.harvestId, entry.harvestYear]));
+	const conflictFields: ConflictField[] = [
+		{ label: t(($) => $.farms.name), submitted: conflict?.name ?? farm.name, current: farm.name },
+		{ label: t(($) => $.farms.city), submitted: conflict?.city ?? farm.city, current: farm.city },
+		{ label: t(($) => $.farms.state), submitted: conflict?.state ?? farm.state, current: farm.state },
+		{
+			label: t(($) => $.farms.totalArea),
+			submitted: String(conflict?.totalArea ?? farm.totalArea),
+			current: String(farm.totalArea),
+		},
+		{
+			label: t(($) => $.farms.arableArea),
+			submitted: String(conflict?.arableArea ?? farm.arableArea),
+			current: String(farm.arableArea),
+		},
+		{
+			label: t(($) => $.farms.vegetationArea),
+			submitted: String(conflict?.vegetationArea ?? farm.vegetationArea),
+			current: String(farm.vegetationArea),
+		},
+		{
+			label: t(($) => $.farms.cropsByHarvest),
+			submitted: formatCropsByHarvest(conflict?.cropsByHarvest ?? cropsByHarvest, harvestYears, getCropLabel),
+			current: formatCropsByHarvest(cropsByHarvest, harvestYears, getCropLabel),
+		},
+	];
+
 	return (
 		<Container>
 			<Header>
@@ -73,23 +164,273 @@ export function EditFarmPage(): ReactElement {
 				<Typography variant="body">{farm.name}</Typography>
 			</Header>
 
-			<FormCard>
-				<FarmForm
+			<Tabs.Root defaultValue="details">
+				<Tabs.List>
+					<Tabs.Trigger value="details">{t(($) => $.farms.detailsTab)}</Tabs.Trigger>
+					<Tabs.Trigger value="plots">{t(($) => $.farms.plotsTab)}</Tabs.Trigger>
+					<Tabs.Trigger value="history">{t(($) => $.farms.historyTab)}</Tabs.Trigger>
+				</Tabs.List>
+
+				<Tabs.Content value="details">
+					<FormCard>
+						<FarmForm
+							key={formKey}
+							onSubmit={handleSubmit}
+							isLoading={isUpdating}
+							producerId={farm.producerId}
+							plots={plots}
+							defaultValues={{
+								name: farm.name,
+								city: farm.city,
+								state: farm.state,
+								totalArea: farm.totalArea,
+								arableArea: farm.arableArea,
+								vegetationArea: farm.vegetationArea,
+								cropsByHarvest: cropsByHarvest.map(({ harvestId, crops }) => ({
+									harvestId,
+									crops: crops.map(({ cropType, plantedArea, plotId }) => ({
+										cropType,
+										plantedArea: plantedArea ?? undefined,
+										plotId: plotId ?? undefined,
+									})),
+								})),
+							}}
+						/>
+					</FormCard>
+				</Tabs.Content>
+
+				<Tabs.Content value="plots">
+					<FormCard>
+						<FarmPlotsPanel farm={farm} />
+					</FormCard>
+				</Tabs.Content>
+
+				<Tabs.Content value="history">
+					<FormCard>
+						<FarmHistoryPanel farmId={farm.id} />
+					</FormCard>
+				</Tabs.Content>
+			</Tabs.Root>
+
+			<ConflictDialog
+				open={!!conflict}
+				onOpenChange={(open) => {
+					if (!open) setConflict(undefined);
+				}}
+				fields={conflictFields}
+				onReload={handleReload}
+				isLoading={isFetchingFarm}
+			/>
+		</Container>
+	);
+}
+
+/**
+ * Formats the crops planted per harvest for the conflict comparison.
+ *
+ * @param cropsByHarvest Crops planted per harvest, as submitted or saved
+ * @param harvestYears Harvest year of each known harvest, by ID
+ * @param getCropLabel Translates a crop code into its label
+ *
+ * @returns One "year: crops" group per harvest with crops, separated by semicolons
+ */
+function formatCropsByHarvest(
+	cropsByHarvest: (HarvestCrops | HarvestCropsInput)[],
+	harvestYears: Map<string, string>,
+	getCropLabel: (code: string) => string,
+): string {
+	return cropsByHarvest
+		.filter((entry) => entry.crops.length > 0)
+		.map((entry) => {
+			const crops = entry.crops.map((crop) =>
+				crop.plantedArea == null ?
+					getCropLabel(crop.cropType)
+				:	`${getCropLabel(crop.cropType)} (${crop.plantedArea} ha)`,
+			);
+
+			return `${harvestYears.get(entry.harvestId) ?? "?"}: ${crops.join(", ")}`;
+		})
+		.join("; ");
+}
+
+/** Props for the FarmPlotsPanel component */
+interface FarmPlotsPanelProps {
+	/** Farm whose plots are managed */
+	farm: Farm;
+}
+
+/**
+ * Plots tab of the edit farm page.
+ *
+ * Lists the farm's plots and handles their creation, edition and deletion
+ * through dialogs, with success/error feedback.
+ */
+function FarmPlotsPanel({ farm }: FarmPlotsPanelProps): ReactElement {
+	const logger = useLogger(FarmPlotsPanel.name);
+	const { t } = useTranslation();
+	const toast = useToast();
+
+	const [formOpen, setFormOpen] = useState(false);
+	const [plotToEdit, setPlotToEdit] = useState<FarmPlot | undefined>();
+	const [plotToDelete, setPlotToDelete] = useState<string | undefined>();
+	const [deletingId, setDeletingId] = useState<string | undefined>();
+
+	const { data: plots, isLoading, error, refetch } = useGetFarmPlotsQuery(farm.id);
+	const [createFarmPlot, { isLoading: isCreating }] = useCreateFarmPlotMutation();
+	const [updateFarmPlot, { isLoading: isUpdating }] = useUpdateFarmPlotMutation();
+	const [deleteFarmPlot] = useDeleteFarmPlotMutation();
+
+	const openForm = (plot?: FarmPlot) => {
+		setPlotToEdit(plot);
+		setFormOpen(true);
+	};
+
+	const handleSubmit = async (data: FarmPlotFormData) => {
+		try {
+			if (plotToEdit) {
+				await updateFarmPlot({
+					farmId: farm.id,
+					id: plotToEdit.id,
+					...data,
+					soilType: data.soilType ?? null,
+				}).unwrap();
+				toast.success(t(($) => $.plots.updateSuccess));
+			} else {
+				await createFarmPlot({ farmId: farm.id, ...data }).unwrap();
+				toast.success(t(($) => $.plots.createSuccess));
+			}
+
+			setFormOpen(false);
+		} catch (error) {
+			const message = plotToEdit ? t(($) => $.plots.updateError) : t(($) => $.plots.createError);
+			logger.error(message, error);
+			toast.error(
+				message,
+				t(($) => $.common.retry),
+			);
+		}
+	};
+
+	const handleDeleteConfirm = async () => {
+		if (!plotToDelete) return;
+
+		try {
+			setDeletingId(plotToDelete);
+			await deleteFarmPlot({ farmId: farm.id, id: plotToDelete }).unwrap();
+			toast.success(t(($) => $.plots.deleteSuccess));
+		} catch (error) {
+			logger.error(
+				t(($) => $.plots.deleteError),
+				error,
+			);
+			toast.error(
+				t(($) => $.plots.deleteError),
+				t(($) => $.common.retry),
+			);
+		} finally {
+			setDeletingId(undefined);
+			setPlotToDelete(undefined);
+		}
+	};
+
+	return (
+		<>
+			<Header>
+				<Typography variant="h3">{t(($) => $.plots.title)}</Typography>
+				<Typography variant="body">{t(($) => $.plots.subtitle)}</Typography>
+			</Header>
+
+			<FarmPlotList
+				plots={plots}
+				arableArea={farm.arableArea}
+				isLoading={isLoading}
+				error={error ? t(($) => $.plots.loadError) : undefined}
+				onRetry={() => {
+					void refetch();
+				}}
+				onAdd={() => {
+					openForm();
+				}}
+				onEdit={openForm}
+				onDelete={setPlotToDelete}
+				isDeletingId={deletingId}
+			/>
+
+			<Dialog
+				open={formOpen}
+				onOpenChange={setFormOpen}
+				title={plotToEdit ? t(($) => $.plots.editPlot) : t(($) => $.plots.addPlot)}
+			>
+				<FarmPlotForm
+					key={plotToEdit?.id ?? "new"}
 					onSubmit={handleSubmit}
-					isLoading={isUpdating}
-					producerId={farm.producerId}
-					defaultValues={{
-						name: farm.name,
-						city: farm.city,
-						state: farm.state,
-						totalArea: farm.totalArea,
-						arableArea: farm.arableArea,
-						vegetationArea: farm.vegetationArea,
-						crops: farm.crops,
+					onCancel={() => {
+						setFormOpen(false);
 					}}
+					isLoading={isCreating || isUpdating}
+					defaultValues={
+						plotToEdit && {
+							name: plotToEdit.name,
+							area: plotToEdit.area,
+							soilType: plotToEdit.soilType ?? undefined,
+						}
+					}
 				/>
-			</FormCard>
-		</Container>
+			</Dialog>
+
+			<ConfirmDialog
+				open={!!plotToDelete}
+				onOpenChange={(open) => {
+					if (!open) setPlotToDelete(undefined);
+				}}
+				title={t(($) => $.common.delete)}
+				description={t(($) => $.plots.deleteConfirm)}
+				confirmText={t(($) => $.common.delete)}
+				cancelText={t(($) => $.common.cancel)}
+				color="red"
+				onConfirm={() => {
+					void handleDeleteConfirm();
+				}}
+				isLoading={!!deletingId}
+			/>
+		</>
+	);
+}
+
+/** Props for the FarmHistoryPanel component */
+interface FarmHistoryPanelProps {
+	/** ID of the farm whose changes are listed */
+	farmId: string;
+}
+
+/**
+ * History tab of the edit farm page.
+ *
+ * Lists the most recent changes to the farm, refetched whenever the tab is opened.
+ */
+function FarmHistoryPanel({ farmId }: FarmHistoryPanelProps): ReactElement {
+	const { t } = useTranslation();
+	const { data, isLoading, error, refetch } = useGetAuditLogsQuery(
+		{ entityType: AuditEntityType.Farm, entityId: farmId, limit: 20 },
+		{ refetchOnMountOrArgChange: true },
+	);
+
+	return (
+		<>
+			<Header>
+				<Typography variant="h3">{t(($) => $.audit.title)}</Typography>
+				<Typography variant="body">{t(($) => $.audit.hint)}</Typography>
+			</Header>
+
+			<AuditHistoryList
+				entries={data?.data}
+				isLoading={isLoading}
+				error={error ? t(($) => $.audit.loadError) : undefined}
+				onRetry={() => {
+					void refetch();
+				}}
+			/>
+		</>
 	);
 }
 
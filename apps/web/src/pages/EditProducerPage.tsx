@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Navigate, useNavigate, useParams } from "react-router-dom";
 import styled from "styled-components";
@@ -6,47 +7,108 @@ import type { ReactElement } from "react";
 
 import type { UpdateProducerRequest } from "@agro/shared/types";
 
+import type { ConflictField } from "@/features";
+
 import { ROUTES } from "@agro/shared/constants";
+import { AuditEntityType, UserRole } from "@agro/shared/enums";
+import { formatCEP, formatDocument, formatPhone, isMaskedDocument } from "@agro/shared/validators";
 
 import { Typography } from "@/components/atoms";
-import { Card, LoadingState } from "@/components/ui/";
-import { useToast } from "@/contexts";
-import { ProducerForm } from "@/features";
+import { Button, Card, ConfirmDialog, LoadingState } from "@/components/ui/";
+import { useAuth, useToast } from "@/contexts";
+import { AuditHistoryList, ConflictDialog, FarmOwnershipHistoryList, ProducerForm } from "@/features";
 import { useLogger } from "@/hooks";
-import { useGetProducerByIdQuery, useUpdateProducerMutation } from "@/store/api";
+import {
+	isPreconditionFailedError,
+	useAnonymizeProducerMutation,
+	useExportProducerPersonalDataMutation,
+	useGetAuditLogsQuery,
+	useGetPreviouslyOwnedFarmsQuery,
+	useGetProducerByIdQuery,
+	useUpdateProducerMutation,
+} from "@/store/api";
 
 /**
  * Edit producer page component for updating existing rural producers.
  *
- * Loads producer data by ID and displays form for editing with pre-filled values.
- * Handles validation and submission with success/error feedback.
+ * Loads producer data by ID and displays form for editing with pre-filled values,
+ * followed by the farms the producer previously owned and the producer's change history.
+ * Handles validation and submission with success/error feedback, and offers to reload
+ * or compare when the producer was changed by someone else in the meantime. Admins can
+ * also export the producer's personal data or anonymize them, on a data subject request.
  */
 export function EditProducerPage(): ReactElement {
 	const logger = useLogger(EditProducerPage.name);
 	const { t } = useTranslation();
 	const navigate = useNavigate();
 	const toast = useToast();
+	const { user } = useAuth();
 	const { id } = useParams<{ id: string }>();
 
+	const [formKey, setFormKey] = useState(0);
+	const [editedVersion, setEditedVersion] = useState<number>();
+	const [conflict, setConflict] = useState<UpdateProducerRequest>();
+	const [isAnonymizeOpen, setIsAnonymizeOpen] = useState(false);
+
+	const isAdmin = user?.role === UserRole.Admin;
+
 	const {
 		data: producer,
 		isLoading: isLoadingProducer,
+		isFetching: isFetchingProducer,
 		error: loadError,
+		refetch: refetchProducer,
 	} = useGetProducerByIdQuery(id ?? "", { skip: !id });
 	const [updateProducer, { isLoading: isUpdating }] = useUpdateProducerMutation();
+	const [exportPersonalData, { isLoading: isExportingPersonalData }] = useExportProducerPersonalDataMutation();
+	const [anonymizeProducer, { isLoading: isAnonymizing }] = useAnonymizeProducerMutation();
+	const {
+		data: previouslyOwnedFarms,
+		isLoading: isLoadingPreviouslyOwnedFarms,
+		error: previouslyOwnedFarmsError,
+		refetch: refetchPreviouslyOwnedFarms,
+	} = useGetPreviouslyOwnedFarmsQuery(id ?? "", { skip: !id });
+	const {
+		data: auditLogs,
+		isLoading: isLoadingAuditLogs,
+		error: auditLogsError,
+		refetch: refetchAuditLogs,
+	} = useGetAuditLogsQuery(
+		{ entityType: AuditEntityType.Producer, entityId: id, limit: 20 },
+		{ skip: !id, refetchOnMountOrArgChange: true },
+	);
 
 	if (!id) {
 		return <Navigate to={ROUTES.web.dashboard} replace />;
 	}
 
 	const handleSubmit = async (data: UpdateProducerRequest) => {
+		// Keep checking against the version the form was loaded from, even once the latest is fetched
+		const version = editedVersion ?? producer?.version;
+
+		// Masked documents are kept as loaded, so they are left out of the update
+		const { document, ...fields } = data;
+
 		try {
-			await updateProducer({ id, ...data }).unwrap();
+			await updateProducer({
+				id,
+				version,
+				...fields,
+				...(!isMaskedDocument(document ?? "") && { document }),
+			}).unwrap();
 
 			toast.success(t(($) => $.producers.updateSuccess));
 
 			await navigate(ROUTES.web.producers.list);
 		} catch (error) {
+			if (isPreconditionFailedError(error)) {
+				setEditedVersion(version);
+				setConflict(data);
+				void refetchProducer();
+
+				return;
+			}
+
 			logger.error(
 				t(($) => $.producers.updateError),
 				error,
@@ -58,6 +120,38 @@ export function EditProducerPage(): ReactElement {
 		}
 	};
 
+	const handleExportPersonalData = async () => {
+		try {
+			await exportPersonalData(id).unwrap();
+		} catch (error) {
+			logger.error("Failed to export producer personal data:", error);
+			toast.error(
+				t(($) => $.producers.personalDataExportError),
+				t(($) => $.common.retry),
+			);
+		}
+	};
+
+	const handleAnonymizeConfirm = async () => {
+		try {
+			await anonymizeProducer(id).unwrap();
+			await refetchProducer();
+
+			toast.success(t(($) => $.producers.anonymizeSuccess));
+
+			setFormKey((key) => key + 1);
+			void refetchAuditLogs();
+		} catch (error) {
+			logger.error("Failed to anonymize producer:", error);
+			toast.error(
+				t(($) => $.producers.anonymizeError),
+				t(($) => $.common.retry),
+			);
+		} finally {
+			setIsAnonymizeOpen(false);
+		}
+	};
+
 	if (isLoadingProducer) {
 		return (
 			<Container>
@@ -70,6 +164,35 @@ export function EditProducerPage(): ReactElement {
 		return <Navigate to={ROUTES.web.producers.list} replace />;
 	}
 
+	const handleReload = () => {
+		setConflict(undefined);
+		setEditedVersion(undefined);
+		setFormKey((key) => key + 1);
+	};
+
+	const conflictFields: ConflictField[] = [
+		{
+			label: t(($) => $.producers.name),
+			submitted: conflict?.name ?? producer.name,
+			current: producer.name,
+		},
+		{
+			label: t(($) => $.producers.document),
+			submitted: formatDocument(conflict?.document ?? producer.document),
+			current: formatDocument(producer.document),
+		},
+		{
+			label: t(($) => $.producers.email),
+			submitted: (conflict ? conflict.email : producer.email) ?? "",
+			current: producer.email ?? "",
+		},
+		{
+			label: t(($) => $.producers.phones),
+			submitted: (conflict?.phones ?? producer.phones).map(formatPhone).join(", "),
+			current: producer.phones.map(formatPhone).join(", "),
+		},
+	];
+
 	return (
 		<Container>
 			<Header>
@@ -79,14 +202,109 @@ export function EditProducerPage(): ReactElement {
 
 			<FormCard>
 				<ProducerForm
+					key={formKey}
 					onSubmit={handleSubmit}
 					isLoading={isUpdating}
+					isDocumentLocked={isMaskedDocument(producer.document)}
 					defaultValues={{
 						name: producer.name,
-						document: producer.document,
+						document: formatDocument(producer.document),
+						email: producer.email ?? "",
+						phones: producer.phones.map((phone) => ({ number: formatPhone(phone) })),
+						address: producer.address && {
+							...producer.address,
+							postalCode: formatCEP(producer.address.postalCode),
+						},
+						stateRegistrations: producer.stateRegistrations,
 					}}
 				/>
 			</FormCard>
+
+			<ConflictDialog
+				open={!!conflict}
+				onOpenChange={(open) => {
+					if (!open) setConflict(undefined);
+				}}
+				fields={conflictFields}
+				onReload={handleReload}
+				isLoading={isFetchingProducer}
+			/>
+
+			<HistoryCard>
+				<Header>
+					<Typography variant="h3">{t(($) => $.producers.previouslyOwnedFarms)}</Typography>
+					<Typography variant="body">{t(($) => $.producers.previouslyOwnedFarmsHint)}</Typography>
+				</Header>
+
+				<FarmOwnershipHistoryList
+					entries={previouslyOwnedFarms}
+					isLoading={isLoadingPreviouslyOwnedFarms}
+					error={previouslyOwnedFarmsError ? t(($) => $.producers.previouslyOwnedFarmsLoadError) : undefined}
+					onRetry={() => {
+						void refetchPreviouslyOwnedFarms();
+					}}
+				/>
+			</HistoryCard>
+
+			<HistoryCard>
+				<Header>
+					<Typography variant="h3">{t(($) => $.audit.title)}</Typography>
+					<Typography variant="body">{t(($) => $.audit.hint)}</Typography>
+				</Header>
+
+				<AuditHistoryList
+					entries={auditLogs?.data}
+					isLoading={isLoadingAuditLogs}
+					error={auditLogsError ? t(($) => $.audit.loadError) : undefined}
+					onRetry={() => {
+						void refetchAuditLogs();
+					}}
+				/>
+			</HistoryCard>
+
+			{isAdmin && (
+				<HistoryCard>
+					<Header>
+						<Typography variant="h3">{t(($) => $.producers.personalData)}</Typography>
+						<Typography variant="body">
+							{producer.anonymizedAt ?
+								t(($) => $.producers.anonymizedHint, {
+									date: new Date(producer.anonymizedAt).toLocaleDateString(),
+								})
+							:	t(($) => $.producers.personalDataHint)}
+						</Typography>
+					</Header>
+
+					<Actions>
+						<Button
+							variant="secondary"
+							onClick={() => {
+								void handleExportPersonalData();
+							}}
+							isLoading={isExportingPersonalData}
+						>
+							{t(($) => $.producers.exportPersonalData)}
+						</Button>
+						<Button variant="danger" onClick={() => setIsAnonymizeOpen(true)} disabled={!!producer.anonymizedAt}>
+							{t(($) => $.producers.anonymize)}
+						</Button>
+					</Actions>
+				</HistoryCard>
+			)}
+
+			<ConfirmDialog
+				open={isAnonymizeOpen}
+				onOpenChange={setIsAnonymizeOpen}
+				title={t(($) => $.producers.anonymizeTitle)}
+				description={t(($) => $.producers.anonymizeConfirm)}
+				confirmText={t(($) => $.producers.anonymize)}
+				cancelText={t(($) => $.common.cancel)}
+				color="red"
+				onConfirm={() => {
+					void handleAnonymizeConfirm();
+				}}
+				isLoading={isAnonymizing}
+			/>
 		</Container>
 	);
 }
@@ -104,3 +322,12 @@ const Header = styled.div`
 const FormCard = styled(Card)`
 	padding: ${(props) => props.theme.spacing.xl};
 `;
+
+const HistoryCard = styled(FormCard)`
+	margin-top: ${(props) => props.theme.spacing.xl};
+`;
+
+const Actions = styled.div`
+	display: flex;
+	gap: ${(props) => props.theme.spacing.md};
+`;
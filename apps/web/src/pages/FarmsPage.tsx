@@ -1,38 +1,50 @@
-import { Flex, Heading } from "@radix-ui/themes";
-import { useState } from "react";
+import { Box, Flex, Heading } from "@radix-ui/themes";
+import { useCallback, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 
 import type { ReactElement } from "react";
 
 import type { FarmFilterOptions } from "@agro/shared/types";
 
 import { ROUTES } from "@agro/shared/constants";
-import { FarmSortField, SortOrder } from "@agro/shared/enums";
+import { BrazilianState, ExportFormat, FarmInclude, FarmSortField, ProducerField, SortOrder } from "@agro/shared/enums";
 
 import { FilterControls } from "@/components/atoms";
+import { ExportMenu } from "@/components/molecules";
 import { PageContainer } from "@/components/templates/PageContainer";
 import { Button, ConfirmDialog } from "@/components/ui/";
 import { useToast } from "@/contexts/ToastContext";
 import { FarmList } from "@/features";
 import { useLogger } from "@/hooks";
-import { useDeleteFarmMutation, useGetFarmsQuery, useGetProducersQuery } from "@/store/api";
+import {
+	useDeleteFarmMutation,
+	useExportFarmsMutation,
+	useGetFarmPagesInfiniteQuery,
+	useGetProducersQuery,
+} from "@/store/api";
 
 /**
  * Farms list page component displaying all registered farms.
  *
  * Shows table/list of farms with associated producer information,
- * search, filtering, and pagination capabilities.
+ * search and filtering, loading more farms as the user scrolls. The `state` and `city`
+ * query parameters, set when a city is picked in the global search, filter
+ * the farms of that city.
  */
 export function FarmsPage(): ReactElement {
 	const logger = useLogger(FarmsPage.name);
 	const { t } = useTranslation();
 	const navigate = useNavigate();
 	const toast = useToast();
-	const [page, setPage] = useState(1);
+	const [searchParams] = useSearchParams();
+	const cityParam = searchParams.get("city") ?? undefined;
+	const stateParam = Object.values(BrazilianState).find((state) => state === searchParams.get("state"));
 	const [filters, setFilters] = useState<FarmFilterOptions>({
 		sortBy: FarmSortField.Name,
 		sortOrder: SortOrder.Ascending,
+		state: stateParam,
+		city: cityParam,
 	});
 	const [deletingId, setDeletingId] = useState<string | undefined>();
 	const [confirmOpen, setConfirmOpen] = useState(false);
@@ -43,14 +55,25 @@ export function FarmsPage(): ReactElement {
 		isLoading,
 		error,
 		refetch,
-	} = useGetFarmsQuery({
-		page,
+		hasNextPage,
+		isFetchingNextPage,
+		fetchNextPage,
+	} = useGetFarmPagesInfiniteQuery({
 		limit: 10,
 		...filters,
+		include: [FarmInclude.Crops],
 	});
-	const { data: producersData } = useGetProducersQuery({ page: 1, limit: 100 });
+	const { data: producersData } = useGetProducersQuery({ page: 1, limit: 100, fields: [ProducerField.Name] });
+
+	// Picking another city in the global search keeps this page mounted
+	useEffect(() => {
+		if (!cityParam) return;
+
+		setFilters((current) => ({ ...current, state: stateParam, city: cityParam }));
+	}, [cityParam, stateParam]);
 
 	const [deleteFarm] = useDeleteFarmMutation();
+	const [exportFarms, { isLoading: isExporting }] = useExportFarmsMutation();
 
 	const handleCreate = () => {
 		void navigate(ROUTES.web.farms.create);
@@ -58,7 +81,22 @@ export function FarmsPage(): ReactElement {
 
 	const handleFiltersChange = (newFilters: FarmFilterOptions) => {
 		setFilters(newFilters);
-		setPage(1);
+	};
+
+	const handleLoadMore = useCallback(() => {
+		void fetchNextPage();
+	}, [fetchNextPage]);
+
+	const handleExport = async (format: ExportFormat) => {
+		try {
+			await exportFarms({ ...filters, format }).unwrap();
+		} catch (error) {
+			logger.error("Failed to export farms:", error);
+			toast.error(
+				t(($) => $.export.error),
+				t(($) => $.common.retry),
+			);
+		}
 	};
 
 	const handleDeleteClick = (id: string) => {
@@ -102,19 +140,30 @@ export function FarmsPage(): ReactElement {
 					</Button>
 				</Flex>
 
-				<FilterControls
-					type="farms"
-					filters={filters}
-					onFiltersChange={handleFiltersChange}
-					isLoading={isLoading}
-					availableProducers={producersData?.data.map((producer) => ({
-						id: producer.id,
-						name: producer.name,
-					}))}
-				/>
+				<Flex align="start" gap="2">
+					<Box flexGrow="1">
+						<FilterControls
+							type="farms"
+							filters={filters}
+							onFiltersChange={handleFiltersChange}
+							isLoading={isLoading}
+							availableProducers={producersData?.data.map((producer) => ({
+								id: producer.id,
+								name: producer.name,
+							}))}
+						/>
+					</Box>
+					<ExportMenu
+						formats={[ExportFormat.Csv, ExportFormat.Xlsx, ExportFormat.GeoJson]}
+						onExport={(format) => {
+							void handleExport(format);
+						}}
+						isExporting={isExporting}
+					/>
+				</Flex>
 
 				<FarmList
-					farms={farms?.data ?? []}
+					farms={farms?.pages.flatMap((page) => page.data) ?? []}
 					isLoading={isLoading}
 					error={error ? t(($) => $.farms.loadError) : undefined}
 					onRetry={() => {
@@ -122,10 +171,9 @@ export function FarmsPage(): ReactElement {
 					}}
 					onDelete={handleDeleteClick}
 					isDeletingId={deletingId}
-					page={page}
-					total={farms?.total ?? 0}
-					limit={farms?.limit ?? 10}
-					onPageChange={setPage}
+					hasNextPage={hasNextPage}
+					isFetchingNextPage={isFetchingNextPage}
+					onLoadMore={handleLoadMore}
 				/>
 
 				<ConfirmDialog
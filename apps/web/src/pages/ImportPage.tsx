@@ -0,0 +1,217 @@
+import { Button, Card, Flex, Heading, SegmentedControl, Text } from "@radix-ui/themes";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { ChangeEvent, ReactElement } from "react";
+
+import type { ImportColumnMapping, ImportReport } from "@agro/shared/types";
+
+import type { ImportField } from "@/features";
+
+import { FARM_IMPORT_FIELDS, MAX_IMPORT_FILE_SIZE, PRODUCER_IMPORT_FIELDS } from "@agro/shared/constants";
+
+import { PageContainer } from "@/components/templates/PageContainer";
+import { useToast } from "@/contexts/ToastContext";
+import { ImportColumnMapper, ImportReportTable } from "@/features";
+import { useLogger } from "@/hooks";
+import { useImportFarmsMutation, useImportProducersMutation } from "@/store/api";
+
+/** Kind of records being imported */
+type ImportKind = "producers" | "farms";
+
+/** File types accepted by the file picker */
+const ACCEPTED_FILE_TYPES = ".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Import wizard for bulk loading producers or farms from a CSV or XLSX file.
+ *
+ * The chosen file is first validated with a dry run, which suggests a column
+ * for each field from the file headers. Once every field is mapped and the
+ * report reflects the current mapping, the valid rows can be imported.
+ */
+export function ImportPage(): ReactElement {
+	const logger = useLogger(ImportPage.name);
+	const { t } = useTranslation();
+	const toast = useToast();
+	const [kind, setKind] = useState<ImportKind>("producers");
+	const [file, setFile] = useState<File | undefined>();
+	const [fileInputKey, setFileInputKey] = useState(0);
+	const [mapping, setMapping] = useState<ImportColumnMapping>({});
+	const [report, setReport] = useState<ImportReport | undefined>();
+	const [isReportStale, setIsReportStale] = useState(false);
+	const [importProducers, { isLoading: isImportingProducers }] = useImportProducersMutation();
+	const [importFarms, { isLoading: isImportingFarms }] = useImportFarmsMutation();
+
+	const isLoading = isImportingProducers || isImportingFarms;
+
+	const fields: ImportField[] =
+		kind === "producers" ?
+			PRODUCER_IMPORT_FIELDS.map((name) => ({ name, label: t(($) => $.producers[name]) }))
+		:	FARM_IMPORT_FIELDS.map((name) => ({
+				name,
+				label: name === "producerDocument" ? t(($) => $.import.producerDocument) : t(($) => $.farms[name]),
+			}));
+
+	const canImport =
+		!!file && !!report?.dryRun && !isReportStale && report.unmappedFields.length === 0 && report.validRows > 0;
+
+	const reset = () => {
+		setMapping({});
+		setReport(undefined);
+		setIsReportStale(false);
+	};
+
+	const handleKindChange = (value: string) => {
+		setKind(value as ImportKind);
+		reset();
+	};
+
+	const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+		const selectedFile = event.target.files?.[0];
+
+		reset();
+
+		if (selectedFile && selectedFile.size > MAX_IMPORT_FILE_SIZE) {
+			toast.error(t(($) => $.import.fileTooLarge));
+			setFile(undefined);
+			setFileInputKey((key) => key + 1);
+			return;
+		}
+
+		setFile(selectedFile);
+	};
+
+	const handleMappingChange = (field: string, column: string | undefined) => {
+		setMapping((current) => ({ ...current, [field]: column }));
+		setIsReportStale(true);
+	};
+
+	const runImport = async (dryRun: boolean) => {
+		if (!file) return;
+
+		const request = { file, dryRun, mapping: report ? mapping : undefined };
+
+		try {
+			const result = await (kind === "producers" ? importProducers(request) : importFarms(request)).unwrap();
+
+			setReport(result);
+			setMapping(result.mapping);
+			setIsReportStale(false);
+
+			if (!dryRun) {
+				toast.success(t(($) => $.import.importSuccess, { count: result.importedRows }));
+				setFile(undefined);
+				setFileInputKey((key) => key + 1);
+			}
+		} catch (error) {
+			logger.error("Failed to import:", error);
+			toast.error(
+				t(($) => (dryRun ? $.import.validateError : $.import.importError)),
+				t(($) => $.common.retry),
+			);
+		}
+	};
+
+	return (
+		<PageContainer>
+			<Flex direction="column" gap="5">
+				<Flex direction="column" gap="2">
+					<Heading as="h1" size="8">
+						{t(($) => $.import.title)}
+					</Heading>
+					<Heading as="h2" size="2" weight="regular">
+						{t(($) => $.import.subtitle)}
+					</Heading>
+				</Flex>
+
+				<Card size="3">
+					<Flex direction="column" gap="4">
+						<Heading as="h3" size="4">
+							{t(($) => $.import.fileStep)}
+						</Heading>
+
+						<SegmentedControl.Root value={kind} onValueChange={handleKindChange} disabled={isLoading}>
+							<SegmentedControl.Item value="producers">{t(($) => $.producers.title)}</SegmentedControl.Item>
+							<SegmentedControl.Item value="farms">{t(($) => $.farms.title)}</SegmentedControl.Item>
+						</SegmentedControl.Root>
+
+						<label>
+							<Text as="div" size="2" weight="medium" mb="1">
+								{t(($) => $.import.file)}
+							</Text>
+							<Text as="div" size="1" color="gray" mb="2">
+								{t(($) => (kind === "producers" ? $.import.producersHint : $.import.farmsHint))}
+							</Text>
+							<input
+								key={fileInputKey}
+								type="file"
+								accept={ACCEPTED_FILE_TYPES}
+								onChange={handleFileChange}
+								disabled={isLoading}
+							/>
+						</label>
+
+						<Flex justify="end">
+							<Button onClick={() => void runImport(true)} disabled={!file || isLoading} loading={isLoading && !report}>
+								{t(($) => $.import.analyze)}
+							</Button>
+						</Flex>
+					</Flex>
+				</Card>
+
+				{report && (
+					<Card size="3">
+						<Flex direction="column" gap="4">
+							<Heading as="h3" size="4">
+								{t(($) => $.import.mappingStep)}
+							</Heading>
+							<Text size="2" color="gray">
+								{t(($) => $.import.mappingHint)}
+							</Text>
+
+							<ImportColumnMapper
+								fields={fields}
+								columns={report.columns}
+								mapping={mapping}
+								onChange={handleMappingChange}
+								disabled={isLoading || !file}
+							/>
+
+							<Heading as="h3" size="4" mt="2">
+								{t(($) => (report.dryRun ? $.import.reportStep : $.import.resultStep))}
+							</Heading>
+
+							{report.unmappedFields.length > 0 ?
+								<Text size="2" color="red">
+									{t(($) => $.import.unmappedFields)}
+								</Text>
+							:	<ImportReportTable report={report} />}
+
+							{isReportStale && (
+								<Text size="2" color="amber">
+									{t(($) => $.import.staleReport)}
+								</Text>
+							)}
+
+							{file && (
+								<Flex gap="3" justify="end">
+									<Button
+										variant="soft"
+										onClick={() => void runImport(true)}
+										disabled={isLoading}
+										loading={isLoading && isReportStale}
+									>
+										{t(($) => $.import.validateAgain)}
+									</Button>
+									<Button onClick={() => void runImport(false)} disabled={!canImport || isLoading}>
+										{t(($) => $.import.confirm, { count: report.validRows })}
+									</Button>
+								</Flex>
+							)}
+						</Flex>
+					</Card>
+				)}
+			</Flex>
+		</PageContainer>
+	);
+}
@@ -55,7 +55,7 @@ export function LoginPage(): ReactElement {
 			logger.debug("Login API response:", response);
 
 			logger.debug("Calling setAuthToken...");
-			setAuthToken(response.accessToken, email);
+			setAuthToken(response.accessToken, email, response.role);
 			logger.debug("setAuthToken completed");
 
 			toast.success(
@@ -1,27 +1,29 @@
-import { Flex, Heading } from "@radix-ui/themes";
-import { useState } from "react";
+import { Box, Flex, Heading } from "@radix-ui/themes";
+import { useCallback, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useNavigate } from "react-router-dom";
 
 import type { ReactElement } from "react";
 
-import type { ProducersFilterOptions } from "@agro/shared/types";
+import type { ProducerExportOptions, ProducersFilterOptions } from "@agro/shared/types";
 
 import { ROUTES } from "@agro/shared/constants";
-import { ProducerSortField, SortOrder } from "@agro/shared/enums";
+import { ExportFormat, ProducerInclude, ProducerSortField, SortOrder } from "@agro/shared/enums";
 
 import { FilterControls } from "@/components/atoms";
+import { ExportMenu } from "@/components/molecules";
 import { PageContainer } from "@/components/templates/PageContainer";
 import { Button, ConfirmDialog } from "@/components/ui/";
 import { useToast } from "@/contexts/ToastContext";
 import { ProducerList } from "@/features";
 import { useLogger } from "@/hooks";
-import { useDeleteProducerMutation, useGetProducersQuery } from "@/store/api";
+import { useDeleteProducerMutation, useExportProducersMutation, useGetProducerPagesInfiniteQuery } from "@/store/api";
 
 /**
  * Producers list page component displaying all rural producers.
  *
- * Shows table/list of producers with search, filtering, and pagination.
+ * Shows table/list of producers with search and filtering, loading more
+ * producers as the user scrolls.
  * Provides actions for creating, editing, and deleting producers.
  */
 export function ProducersPage(): ReactElement {
@@ -29,7 +31,6 @@ export function ProducersPage(): ReactElement {
 	const { t } = useTranslation();
 	const navigate = useNavigate();
 	const toast = useToast();
-	const [page, setPage] = useState(1);
 	const [filters, setFilters] = useState<ProducersFilterOptions>({
 		sortBy: ProducerSortField.Name,
 		sortOrder: SortOrder.Ascending,
@@ -42,12 +43,16 @@ export function ProducersPage(): ReactElement {
 		data: producers,
 		isLoading,
 		error,
-	} = useGetProducersQuery({
-		page,
+		hasNextPage,
+		isFetchingNextPage,
+		fetchNextPage,
+	} = useGetProducerPagesInfiniteQuery({
 		limit: 10,
 		...filters,
+		include: [ProducerInclude.FarmCrops],
 	});
 	const [deleteProducer] = useDeleteProducerMutation();
+	const [exportProducers, { isLoading: isExporting }] = useExportProducersMutation();
 
 	const handleCreate = () => {
 		void navigate(ROUTES.web.producers.create);
@@ -55,7 +60,22 @@ export function ProducersPage(): ReactElement {
 
 	const handleFiltersChange = (newFilters: ProducersFilterOptions) => {
 		setFilters(newFilters);
-		setPage(1);
+	};
+
+	const handleLoadMore = useCallback(() => {
+		void fetchNextPage();
+	}, [fetchNextPage]);
+
+	const handleExport = async (format: ProducerExportOptions["format"]) => {
+		try {
+			await exportProducers({ ...filters, format }).unwrap();
+		} catch (error) {
+			logger.error("Failed to export producers:", error);
+			toast.error(
+				t(($) => $.export.error),
+				t(($) => $.common.retry),
+			);
+		}
 	};
 
 	const handleDeleteClick = (id: string) => {
@@ -99,23 +119,33 @@ export function ProducersPage(): ReactElement {
 					</Button>
 				</Flex>
 
-				<FilterControls
-					type="producers"
-					filters={filters}
-					onFiltersChange={handleFiltersChange}
-					isLoading={isLoading}
-				/>
+				<Flex align="start" gap="2">
+					<Box flexGrow="1">
+						<FilterControls
+							type="producers"
+							filters={filters}
+							onFiltersChange={handleFiltersChange}
+							isLoading={isLoading}
+						/>
+					</Box>
+					<ExportMenu
+						formats={[ExportFormat.Csv, ExportFormat.Xlsx]}
+						onExport={(format) => {
+							void handleExport(format);
+						}}
+						isExporting={isExporting}
+					/>
+				</Flex>
 
 				<ProducerList
-					producers={producers?.data ?? []}
+					producers={producers?.pages.flatMap((page) => page.data) ?? []}
 					isLoading={isLoading}
 					error={error ? t(($) => $.producers.loadError) : undefined}
 					onDelete={handleDeleteClick}
 					isDeletingId={deletingId}
-					page={page}
-					total={producers?.total ?? 0}
-					limit={producers?.limit ?? 10}
-					onPageChange={setPage}
+					hasNextPage={hasNextPage}
+					isFetchingNextPage={isFetchingNextPage}
+					onLoadMore={handleLoadMore}
 				/>
 
 				<ConfirmDialog
@@ -0,0 +1,185 @@
+import { Flex, Heading } from "@radix-ui/themes";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import type { ReactElement } from "react";
+
+import type { TrashItem } from "@/features";
+
+import { UserRole } from "@agro/shared/enums";
+
+import { PageContainer } from "@/components/templates/PageContainer";
+import { ConfirmDialog } from "@/components/ui/";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/contexts/ToastContext";
+import { TrashList } from "@/features";
+import { useLogger } from "@/hooks";
+import {
+	useGetDeletedFarmsQuery,
+	useGetDeletedProducersQuery,
+	usePurgeFarmMutation,
+	usePurgeProducerMutation,
+	useRestoreFarmMutation,
+	useRestoreProducerMutation,
+} from "@/store/api";
+
+/** Record selected for purging, with the kind of record it is */
+interface PurgeTarget {
+	type: "producer" | "farm";
+	id: string;
+}
+
+/**
+ * Trash page listing soft-deleted producers and farms.
+ *
+ * Allows restoring deleted records. Admins can also purge them, deleting
+ * them permanently along with all their data.
+ */
+export function TrashPage(): ReactElement {
+	const logger = useLogger(TrashPage.name);
+	const { t } = useTranslation();
+	const toast = useToast();
+	const { user } = useAuth();
+	const [processingId, setProcessingId] = useState<string | undefined>();
+	const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | undefined>();
+
+	const isAdmin = user?.role === UserRole.Admin;
+
+	const {
+		data: deletedProducers,
+		isLoading: isLoadingProducers,
+		error: producersError,
+		refetch: refetchProducers,
+	} = useGetDeletedProducersQuery(undefined);
+	const {
+		data: deletedFarms,
+		isLoading: isLoadingFarms,
+		error: farmsError,
+		refetch: refetchFarms,
+	} = useGetDeletedFarmsQuery(undefined);
+	const [restoreProducer] = useRestoreProducerMutation();
+	const [restoreFarm] = useRestoreFarmMutation();
+	const [purgeProducer] = usePurgeProducerMutation();
+	const [purgeFarm] = usePurgeFarmMutation();
+
+	const producerItems: TrashItem[] = (deletedProducers ?? []).map(({ id, name, document, deletedAt }) => ({
+		id,
+		name,
+		details: document,
+		deletedAt,
+	}));
+
+	const farmItems: TrashItem[] = (deletedFarms ?? []).map((farm) => ({
+		id: farm.id,
+		name: farm.name,
+		details: `${farm.city} - ${farm.state} · ${farm.producerName}`,
+		deletedAt: farm.deletedAt,
+		restoreNote: farm.producerDeleted ? t(($) => $.trash.restoredWithProducer) : undefined,
+	}));
+
+	const handleRestore = async (restore: (id: string) => Promise<unknown>, id: string) => {
+		try {
+			setProcessingId(id);
+			await restore(id);
+			toast.success(t(($) => $.trash.restoreSuccess));
+		} catch (error) {
+			logger.error("Failed to restore:", error);
+			toast.error(
+				t(($) => $.trash.restoreError),
+				t(($) => $.common.retry),
+			);
+		} finally {
+			setProcessingId(undefined);
+		}
+	};
+
+	const handlePurgeConfirm = async () => {
+		if (!purgeTarget) return;
+
+		const { type, id } = purgeTarget;
+
+		try {
+			setProcessingId(id);
+			await (type === "producer" ? purgeProducer(id) : purgeFarm(id)).unwrap();
+			toast.success(t(($) => $.trash.purgeSuccess));
+		} catch (error) {
+			logger.error("Failed to purge:", error);
+			toast.error(
+				t(($) => $.trash.purgeError),
+				t(($) => $.common.retry),
+			);
+		} finally {
+			setProcessingId(undefined);
+			setPurgeTarget(undefined);
+		}
+	};
+
+	return (
+		<PageContainer>
+			<Flex direction="column" gap="5">
+				<Flex direction="column" gap="2">
+					<Heading as="h1" size="8">
+						{t(($) => $.trash.title)}
+					</Heading>
+					<Heading as="h2" size="2" weight="regular">
+						{t(($) => $.trash.subtitle)}
+					</Heading>
+				</Flex>
+
+				<Flex direction="column" gap="3">
+					<Heading as="h3" size="5">
+						{t(($) => $.trash.producers)}
+					</Heading>
+					<TrashList
+						items={producerItems}
+						detailsLabel={t(($) => $.trash.document)}
+						emptyMessage={t(($) => $.trash.noProducers)}
+						isLoading={isLoadingProducers}
+						error={producersError ? t(($) => $.trash.loadError) : undefined}
+						onRetry={() => void refetchProducers()}
+						onRestore={(id) => {
+							void handleRestore((producerId) => restoreProducer(producerId).unwrap(), id);
+						}}
+						onPurge={isAdmin ? (id) => setPurgeTarget({ type: "producer", id }) : undefined}
+						processingId={processingId}
+					/>
+				</Flex>
+
+				<Flex direction="column" gap="3">
+					<Heading as="h3" size="5">
+						{t(($) => $.trash.farms)}
+					</Heading>
+					<TrashList
+						items={farmItems}
+						detailsLabel={t(($) => $.trash.location)}
+						emptyMessage={t(($) => $.trash.noFarms)}
+						isLoading={isLoadingFarms}
+						error={farmsError ? t(($) => $.trash.loadError) : undefined}
+						onRetry={() => void refetchFarms()}
+						onRestore={(id) => {
+							void handleRestore((farmId) => restoreFarm(farmId).unwrap(), id);
+						}}
+						onPurge={isAdmin ? (id) => setPurgeTarget({ type: "farm", id }) : undefined}
+						processingId={processingId}
+					/>
+				</Flex>
+
+				<ConfirmDialog
+					open={!!purgeTarget}
+					onOpenChange={(open) => {
+						if (!open) setPurgeTarget(undefined);
+					}}
+					title={t(($) => $.trash.purgeTitle)}
+					description={t(($) => $.trash.purgeConfirm)}
+					confirmText={t(($) => $.trash.purge)}
+					cancelText={t(($) => $.common.cancel)}
+					color="red"
+					onConfirm={() => {
+						void handlePurgeConfirm();
+					}}
+					isLoading={!!processingId}
+				/>
+			</Flex>
+		</PageContainer>
+	);
+}
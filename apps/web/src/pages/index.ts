@@ -4,6 +4,8 @@ export * from "./DashboardPage";
 export * from "./EditFarmPage";
 export * from "./EditProducerPage";
 export * from "./FarmsPage";
+export * from "./ImportPage";
 export * from "./LoginPage";
 export * from "./NotFoundPage";
 export * from "./ProducersPage";
+export * from "./TrashPage";
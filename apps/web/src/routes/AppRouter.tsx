@@ -19,6 +19,8 @@ const EditProducerPage = lazy(() => import("@/pages").then((module) => ({ defaul
 const FarmsPage = lazy(() => import("@/pages").then((module) => ({ default: module.FarmsPage })));
 const CreateFarmPage = lazy(() => import("@/pages").then((module) => ({ default: module.CreateFarmPage })));
 const EditFarmPage = lazy(() => import("@/pages").then((module) => ({ default: module.EditFarmPage })));
+const ImportPage = lazy(() => import("@/pages").then((module) => ({ default: module.ImportPage })));
+const TrashPage = lazy(() => import("@/pages").then((module) => ({ default: module.TrashPage })));
 const NotFoundPage = lazy(() => import("@/pages").then((module) => ({ default: module.NotFoundPage })));
 
 /**
@@ -110,6 +112,26 @@ export function AppRouter(): ReactElement {
 							</ProtectedRoute>
 						}
 					/>
+					<Route
+						path={ROUTES.web.import}
+						element={
+							<ProtectedRoute>
+								<MainLayout>
+									<ImportPage />
+								</MainLayout>
+							</ProtectedRoute>
+						}
+					/>
+					<Route
+						path={ROUTES.web.trash}
+						element={
+							<ProtectedRoute>
+								<MainLayout>
+									<TrashPage />
+								</MainLayout>
+							</ProtectedRoute>
+						}
+					/>
 					<Route path="*" element={<NotFoundPage />} />
 				</Routes>
 			</Suspense>
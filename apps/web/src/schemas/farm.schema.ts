@@ -1,7 +1,83 @@
 import { z } from "zod";
 
-import { BrazilianState, CropType } from "@agro/shared/enums";
-import { validateFarmArea } from "@agro/shared/validators";
+import { BrazilianState } from "@agro/shared/enums";
+import { validateFarmArea, validatePlantedArea } from "@agro/shared/validators";
+
+/**
+ * Zod schema for a crop planted during a harvest.
+ *
+ * The planted area is optional and left `undefined` when unknown, as is the
+ * plot for crops planted on the farm as a whole.
+ *
+ * @example
+ * ```typescript
+ * const crop = plantedCropSchema.parse({ cropType: "soy", plantedArea: 45.5 });
+ * ```
+ */
+export const plantedCropSchema = z.object({
+	cropType: z.string().min(1, "Please select a crop"),
+	plantedArea: z
+		.number({ message: "Planted area must be a number" })
+		.positive("Planted area must be greater than zero")
+		.optional(),
+	plotId: z.uuid("Please select a valid plot").optional(),
+});
+
+/**
+ * Zod schema for the crops planted on a farm during one harvest.
+ *
+ * @example
+ * ```typescript
+ * const entry = harvestCropsSchema.parse({
+ *   harvestId: "harvest-uuid",
+ *   crops: [{ cropType: "soy", plantedArea: 45.5 }, { cropType: "corn" }]
+ * });
+ * ```
+ */
+export const harvestCropsSchema = z.object({
+	harvestId: z.uuid("Please select a harvest"),
+	crops: z
+		.array(plantedCropSchema)
+		.min(1, "At least one crop must be selected")
+		.max(10, "Maximum of 10 crops allowed"),
+});
+
+/**
+ * Zod schema for the list of crops per harvest.
+ *
+ * Each harvest may appear only once.
+ */
+const cropsByHarvestSchema = z
+	.array(harvestCropsSchema)
+	.min(1, "At least one harvest must be added")
+	.refine((entries) => new Set(entries.map((entry) => entry.harvestId)).size === entries.length, {
+		message: "Each harvest can only be added once",
+	});
+
+/**
+ * Adds an issue for every harvest whose planted areas exceed the arable area.
+ *
+ * @param arableArea Arable area of the farm in hectares
+ * @param cropsByHarvest Crops planted per harvest
+ * @param ctx Zod refinement context
+ */
+function refinePlantedAreas(
+	arableArea: number,
+	cropsByHarvest: z.infer<typeof cropsByHarvestSchema>,
+	ctx: z.RefinementCtx,
+): void {
+	for (const [index, entry] of cropsByHarvest.entries()) {
+		const plantedAreas = entry.crops.flatMap((crop) => crop.plantedArea ?? []);
+
+		if (!validatePlantedArea(arableArea, plantedAreas).isValid) {
+			ctx.addIssue({
+				code: "custom",
+				message: "Sum of planted areas cannot exceed arable area",
+				path: ["cropsByHarvest", index, "crops"],
+			});
+		}
+	}
+}
 
 /**
  * Zod schema for farm creation form validation.
@@ -9,7 +85,8 @@ import { validateFarmArea } from "@agro/shared/validators";
  * Validates farm data with Brazilian-specific rules including:
  * - Valid Brazilian state codes
  * - Area validation (arable + vegetation ≤ total)
- * - Crop type enumeration
+ * - Crop type enumeration per harvest
+ * - Planted area validation (sum per harvest ≤ arable)
  *
  * @example
  * ```typescript
@@ -20,7 +97,7 @@ import { validateFarmArea } from "@agro/shared/validators";
  *   totalArea: 100.5,
  *   arableArea: 70.0,
  *   vegetationArea: 25.0,
- *   crops: ["soy", "corn"],
+ *   cropsByHarvest: [{ harvestId: "harvest-uuid", crops: [{ cropType: "soy", plantedArea: 45.5 }] }],
  *   producerId: "producer-uuid"
  * });
  * ```
@@ -56,10 +133,8 @@ export const createFarmSchema = z
 			.nonnegative("Vegetation area cannot be negative")
 			.default(0),
 
-		crops: z
-			.array(z.enum(CropType))
-			.min(1, "At least one crop must be selected")
-			.max(10, "Maximum of 10 crops allowed"),
+		cropsByHarvest: cropsByHarvestSchema,
+
 		producerId: z.uuid(),
 	})
 	.refine(
@@ -71,14 +146,17 @@ export const createFarmSchema = z
 			message: "Sum of arable and vegetation areas cannot exceed total area",
 			path: ["totalArea"],
 		},
-	);
+	)
+	.superRefine((data, ctx) => {
+		refinePlantedAreas(data.arableArea, data.cropsByHarvest, ctx);
+	});
 
 /**
  * Zod schema for farm update form validation.
  *
  * All fields are optional except for area validation.
- * When areas are provided, they must still satisfy the constraint:
- * arable + vegetation ≤ total
+ * When areas are provided, they must still satisfy the constraints:
+ * arable + vegetation ≤ total, and planted areas per harvest ≤ arable
  *
  * @example
  * ```typescript
@@ -122,13 +200,7 @@ export const updateFarmSchema = z
 			.nonnegative("Vegetation area cannot be negative")
 			.optional(),
 
-		crops: z
-			.array(z.enum(CropType))
-			.min(1, "At least one crop must be selected")
-			.max(10, "Maximum of 10 crops allowed")
-			.optional(),
-
-		producerId: z.uuid().optional(),
+		cropsByHarvest: cropsByHarvestSchema.optional(),
 	})
 	.refine(
 		(data) => {
@@ -146,7 +218,18 @@ export const updateFarmSchema = z
 			message: "Sum of arable and vegetation areas cannot exceed total area",
 			path: ["totalArea"],
 		},
-	);
+	)
+	.superRefine((data, ctx) => {
+		if (data.arableArea !== undefined && data.cropsByHarvest !== undefined) {
+			refinePlantedAreas(data.arableArea, data.cropsByHarvest, ctx);
+		}
+	});
+
+/** Inferred TypeScript type from plantedCropSchema */
+export type PlantedCropFormData = z.infer<typeof plantedCropSchema>;
+
+/** Inferred TypeScript type from harvestCropsSchema */
+export type HarvestCropsFormData = z.infer<typeof harvestCropsSchema>;
 
 /** Inferred TypeScript type from createFarmSchema */
 export type CreateFarmFormData = z.infer<typeof createFarmSchema>;
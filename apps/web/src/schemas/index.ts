@@ -1,2 +1,3 @@
 export * from "./farm.schema";
 export * from "./producer.schema";
+export * from "./plot.schema";
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+import { SoilType } from "@agro/shared/enums";
+
+/**
+ * Zod schema for the farm plot (talhão) form.
+ *
+ * The sum of plot areas against the farm's arable area is validated by the
+ * API, which knows every plot of the farm.
+ *
+ * @example
+ * ```typescript
+ * const formData = farmPlotSchema.parse({
+ *   name: "Talhão 01",
+ *   area: 25.5,
+ *   soilType: "clayey"
+ * });
+ * ```
+ */
+export const farmPlotSchema = z.object({
+	name: z
+		.string()
+		.trim()
+		.min(1, "Plot name is required")
+		.max(100, "Plot name must be at most 100 characters"),
+
+	area: z
+		.number({ message: "Plot area is required" })
+		.positive("Plot area must be greater than zero"),
+
+	soilType: z.enum(SoilType, { message: "Please select a valid soil type" }).optional(),
+});
+
+/** Inferred TypeScript type from farmPlotSchema */
+export type FarmPlotFormData = z.infer<typeof farmPlotSchema>;
@@ -1,18 +1,152 @@
 import { z } from "zod";
 
-import { validateCNPJ, validateCPF } from "@agro/shared/validators";
+import { BrazilianState } from "@agro/shared/enums";
+import {
+	isCPFDocument,
+	stripCEPFormatting,
+	stripDocumentFormatting,
+	stripInscricaoEstadualFormatting,
+	stripPhoneFormatting,
+	validateCEP,
+	validateCNPJ,
+	validateCPF,
+	validateInscricaoEstadual,
+	validatePhone,
+} from "@agro/shared/validators";
+
+/**
+ * Zod schema for the producer's email, where an empty value clears it.
+ */
+const emailSchema = z
+	.union([
+		z.email("Invalid email address").max(255, "Email must be at most 255 characters"),
+		z.literal(""),
+	])
+	.transform((value) => value || null);
+
+/**
+ * Zod schema for the producer's phone numbers, typed with the mask and sent
+ * as digits only.
+ *
+ * Each phone is wrapped in an object so the list can be edited with
+ * `useFieldArray`.
+ */
+const phonesSchema = z
+	.array(
+		z.object({
+			number: z.string().refine(validatePhone, { message: "Invalid phone number" }),
+		}),
+	)
+	.max(5, "Maximum of 5 phone numbers allowed")
+	.transform((phones) => [...new Set(phones.map((phone) => stripPhoneFormatting(phone.number)))]);
+
+/**
+ * Zod schema for the producer's state registrations (Inscrição Estadual).
+ *
+ * Each number is validated against the algorithm of its state, and each state
+ * can only be used once. Numbers are sent without formatting.
+ */
+const stateRegistrationsSchema = z
+	.array(
+		z
+			.object({
+				state: z.enum(BrazilianState, { message: "Please select a valid Brazilian state" }),
+				number: z.string().trim().min(1, "State registration number is required"),
+			})
+			.refine(({ state, number }) => validateInscricaoEstadual(number, state), {
+				message: "Invalid state registration for the selected state",
+				path: ["number"],
+			}),
+	)
+	.superRefine((registrations, ctx) => {
+		for (const [index, { state }] of registrations.entries()) {
+			if (registrations.findIndex((registration) => registration.state === state) !== index) {
+				ctx.addIssue({
+					code: "custom",
+					message: "Only one state registration per state is allowed",
+					path: [index, "state"],
+				});
+			}
+		}
+	})
+	.transform((registrations) =>
+		registrations.map(({ state, number }) => ({
+			state,
+			number: stripInscricaoEstadualFormatting(number),
+		})),
+	);
+
+/**
+ * Zod schema for the producer's postal address.
+ *
+ * The city is checked against the state by the API, since the cities offered
+ * by the form already come from the selected state.
+ *
+ * @example
+ * ```typescript
+ * const address = producerAddressSchema.parse({
+ *   postalCode: "13015-904",
+ *   street: "Avenida Francisco Glicério",
+ *   number: "1000",
+ *   district: "Centro",
+ *   city: "Campinas",
+ *   state: "SP"
+ * });
+ * ```
+ */
+export const producerAddressSchema = z.object({
+	postalCode: z
+		.string()
+		.refine(validateCEP, { message: "Invalid CEP" })
+		.transform((value) => stripCEPFormatting(value)),
+
+	street: z
+		.string()
+		.trim()
+		.min(2, "Street must be at least 2 characters")
+		.max(255, "Street must be at most 255 characters"),
+
+	number: z
+		.string()
+		.trim()
+		.min(1, "Number is required")
+		.max(20, "Number must be at most 20 characters"),
+
+	district: z
+		.string()
+		.trim()
+		.min(2, "District must be at least 2 characters")
+		.max(100, "District must be at most 100 characters"),
+
+	city: z
+		.string()
+		.min(2, "City name must be at least 2 characters")
+		.max(100, "City name must be at most 100 characters")
+		.trim(),
+
+	state: z.enum(BrazilianState, { message: "Please select a valid Brazilian state" }),
+});
 
 /**
  * Zod schema for producer creation form validation.
  *
- * Validates producer data with Brazilian-specific rules for CPF/CNPJ documents.
- * Uses shared validators to ensure document validity according to Brazilian algorithms.
+ * Validates producer data with Brazilian-specific rules for CPF/CNPJ documents,
+ * phone numbers and postal codes. Uses shared validators to ensure document
+ * validity according to Brazilian algorithms, numeric and alphanumeric CNPJs
+ * alike.
+ *
+ * The address is `null` while the producer has none, and state registrations
+ * are limited to one per state.
  *
  * @example
  * ```typescript
  * const formData = createProducerSchema.parse({
  *   name: "João Silva",
- *   document: "111.444.777-35"
+ *   document: "111.444.777-35",
+ *   email: "joao@example.com",
+ *   phones: [{ number: "(11) 98765-4321" }],
+ *   address: null,
+ *   stateRegistrations: [{ state: "SP", number: "110.042.490.114" }]
  * });
  * ```
  */
@@ -25,12 +159,31 @@ export const createProducerSchema = z.object({
 
 	document: z
 		.string({ message: "Document is required" })
-		.min(11, "Document must have at least 11 digits")
+		.min(11, "Document must have at least 11 characters")
 		.max(18, "Document must have at most 18 characters")
-		.transform((value) => value.replaceAll(/[^\d]/g, ""))
-		.refine((value) => validateCPF(value) || validateCNPJ(value), {
+		.transform((value) => stripDocumentFormatting(value))
+		.refine((value) => (isCPFDocument(value) ? validateCPF(value) : validateCNPJ(value)), {
 			message: "Invalid CPF or CNPJ",
 		}),
+
+	email: emailSchema,
+
+	phones: phonesSchema,
+
+	address: producerAddressSchema.nullable(),
+
+	stateRegistrations: stateRegistrationsSchema,
+});
+
+/**
+ * Zod schema for editing a producer whose document is masked.
+ *
+ * Users who may not reveal personal data load CPFs masked, as are the documents
+ * of anonymized producers. Masked documents cannot be validated, so the document
+ * is kept as loaded and must be left out of the update.
+ */
+export const lockedDocumentProducerSchema = createProducerSchema.extend({
+	document: z.string(),
 });
 
 /**
@@ -55,15 +208,26 @@ export const updateProducerSchema = z.object({
 
 	document: z
 		.string()
-		.min(11, "Document must have at least 11 digits")
+		.min(11, "Document must have at least 11 characters")
 		.max(18, "Document must have at most 18 characters")
-		.transform((value) => value.replaceAll(/[^\d]/g, ""))
-		.refine((value) => (value.length < 12 ? validateCPF(value) : validateCNPJ(value)), {
+		.transform((value) => stripDocumentFormatting(value))
+		.refine((value) => (isCPFDocument(value) ? validateCPF(value) : validateCNPJ(value)), {
 			message: "Invalid CPF or CNPJ",
 		})
 		.optional(),
+
+	email: emailSchema.optional(),
+
+	phones: phonesSchema.optional(),
+
+	address: producerAddressSchema.nullable().optional(),
+
+	stateRegistrations: stateRegistrationsSchema.optional(),
 });
 
+/** Values edited by the producer form, before createProducerSchema transforms them */
+export type CreateProducerFormValues = z.input<typeof createProducerSchema>;
+
 /** Inferred TypeScript type from createProducerSchema */
 export type CreateProducerFormData = z.infer<typeof createProducerSchema>;
 
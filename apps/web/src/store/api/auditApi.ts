@@ -0,0 +1,44 @@
+import type { ApiResponse, AuditLogFilterOptions, AuditLogListResponse } from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+
+/**
+ * Audit log API endpoints using RTK Query.
+ *
+ * The audit log is read-only, as entries are recorded by the API whenever an
+ * audited record is written.
+ */
+export const auditApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Fetches audit log entries with pagination and filters, most recent first.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data, isLoading } = useGetAuditLogsQuery({
+		 *   entityType: AuditEntityType.Farm,
+		 *   entityId: farmId,
+		 * });
+		 * ```
+		 */
+		getAuditLogs: builder.query<AuditLogListResponse, AuditLogFilterOptions>({
+			query: ({ page = 1, limit = 10, entityType, entityId, userId, from, to } = {}) => ({
+				url: ROUTES.api.audit.base,
+				params: {
+					page,
+					limit,
+					...(entityType && { entityType }),
+					...(entityId && { entityId }),
+					...(userId && { userId }),
+					...(from && { from }),
+					...(to && { to }),
+				},
+			}),
+			transformResponse: (response: ApiResponse<AuditLogListResponse>) => response.data,
+		}),
+	}),
+});
+
+export const { useGetAuditLogsQuery } = auditApi;
@@ -10,7 +10,8 @@ import { env } from "@/utils";
  * loading states, and request deduplication. Uses tagged cache
  * invalidation for optimistic updates.
  *
- * Automatically injects authentication token into request headers, if available.
+ * Automatically injects authentication token into request headers, if available,
+ * and sends JSON unless the body is a FormData file upload.
  *
  * @see {@link https://redux-toolkit.js.org/rtk-query/overview|RTK Query Documentation}
  */
@@ -18,8 +19,11 @@ export const api = createApi({
 	reducerPath: "api",
 	baseQuery: fetchBaseQuery({
 		baseUrl: env.WEB__VITE_API_BASE_URL,
-		prepareHeaders: (headers) => {
-			headers.set("Content-Type", "application/json");
+		prepareHeaders: (headers, { arg }) => {
+			// Let the browser set the multipart boundary of file uploads
+			if (typeof arg === "string" || !(arg.body instanceof FormData)) {
+				headers.set("Content-Type", "application/json");
+			}
 
 			const token = getAuthToken();
 
@@ -30,6 +34,20 @@ export const api = createApi({
 			return headers;
 		},
 	}),
-	tagTypes: ["Producer", "Farm", "DashboardStats", "Cities"],
+	tagTypes: ["Producer", "Farm", "FarmPlot", "Harvest", "Crop", "DashboardStats", "Cities"],
 	endpoints: () => ({}),
 });
+
+/**
+ * Checks whether a request was rejected because the resource changed since it was read.
+ *
+ * The API answers with `412 Precondition Failed` when the `If-Match` header of an
+ * update no longer matches the resource's version.
+ *
+ * @param error Error of a query or mutation
+ *
+ * @returns Whether the error is a `412 Precondition Failed` response
+ */
+export function isPreconditionFailedError(error: unknown): boolean {
+	return typeof error === "object" && error !== null && "status" in error && error.status === 412;
+}
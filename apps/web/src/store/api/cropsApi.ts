@@ -0,0 +1,34 @@
+import type { ApiResponse, Crop } from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+
+/**
+ * Crop catalog API endpoints using RTK Query.
+ *
+ * The catalog provides the crops farms can plant, along with the labels and
+ * colors used to display them.
+ */
+export const cropsApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Fetches the whole crop catalog.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data: crops = [] } = useGetCropsQuery(undefined);
+		 * ```
+		 */
+		getCrops: builder.query<Crop[], undefined>({
+			query: () => ROUTES.api.crops.base,
+			transformResponse: (response: ApiResponse<Crop[]>) => response.data,
+			providesTags: (result) =>
+				result ?
+					[...result.map(({ id }) => ({ type: "Crop" as const, id })), { type: "Crop", id: "LIST" }]
+				:	[{ type: "Crop", id: "LIST" }],
+		}),
+	}),
+});
+
+export const { useGetCropsQuery } = cropsApi;
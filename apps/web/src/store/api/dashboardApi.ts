@@ -34,7 +34,8 @@ export const dashboardApi = api.injectEndpoints({
 		 * - Totals (farms, producers, areas)
 		 * - Averages (area per farm, farms per producer, percentages)
 		 * - Distributions (by state, city, crop, producer)
-		 * - Top records (largest farms, most productive producers)
+		 * - Top records (largest farms, producers with the most farms)
+		 * - Productivity (average yield by crop and by state)
 		 * - Land use breakdown
 		 *
 		 * Cache is invalidated when farms or producers are created/updated/deleted.
@@ -0,0 +1,142 @@
+import type {
+	ApiResponse,
+	FarmExportOptions,
+	ProducerExportOptions,
+	ProducerPersonalData,
+} from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+import { toFarmFilterParams } from "./farmsApi";
+import { toProducerFilterParams } from "./producersApi";
+
+/**
+ * Saves a file through a temporary download link.
+ *
+ * @param file Contents of the file
+ * @param fileName Name of the downloaded file
+ *
+ * @returns Name of the downloaded file
+ */
+function saveFile(file: Blob, fileName: string): string {
+	const url = URL.createObjectURL(file);
+	const link = document.createElement("a");
+
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+
+	return fileName;
+}
+
+/**
+ * Saves the file of an export response through a temporary download link.
+ *
+ * The file name comes from the `Content-Disposition` header set by the API.
+ *
+ * @param response Successful export response
+ *
+ * @returns Name of the downloaded file
+ */
+async function downloadFile(response: Response): Promise<string> {
+	const disposition = response.headers.get("Content-Disposition") ?? "";
+	const fileName = /filename="?([^";]+)"?/.exec(disposition)?.[1] ?? "export";
+
+	return saveFile(await response.blob(), fileName);
+}
+
+/**
+ * Reads an export response, downloading the file or parsing the API error.
+ *
+ * Only the file name is kept in the store, as files are not serializable.
+ *
+ * @param response Export response
+ *
+ * @returns Name of the downloaded file, or the error body
+ */
+function handleExportResponse(response: Response): Promise<unknown> {
+	return response.ok ? downloadFile(response) : response.json();
+}
+
+/**
+ * Export API endpoints using RTK Query.
+ *
+ * Exports are mutations rather than queries, so each click downloads the
+ * current data instead of reusing a cached result.
+ */
+export const exportApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Downloads every producer matching the list filters as a CSV or XLSX file.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [exportProducers, { isLoading }] = useExportProducersMutation();
+		 * await exportProducers({ ...filters, format: ExportFormat.Csv }).unwrap();
+		 * ```
+		 */
+		exportProducers: builder.mutation<string, ProducerExportOptions>({
+			query: ({ format, ...filters }) => ({
+				url: ROUTES.api.producers.export,
+				params: {
+					format,
+					...toProducerFilterParams(filters),
+				},
+				responseHandler: handleExportResponse,
+			}),
+		}),
+
+		/**
+		 * Downloads everything held about a producer as a JSON file. Restricted to admins.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [exportPersonalData, { isLoading }] = useExportProducerPersonalDataMutation();
+		 * await exportPersonalData(producerId).unwrap();
+		 * ```
+		 */
+		exportProducerPersonalData: builder.mutation<string, string>({
+			query: (id) => ({
+				url: ROUTES.api.producers.personalData(id),
+				responseHandler: async (response: Response) => {
+					if (!response.ok) return response.json();
+
+					const { data } = (await response.json()) as ApiResponse<ProducerPersonalData>;
+
+					return saveFile(
+						new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+						`producer-${id}-personal-data.json`,
+					);
+				},
+			}),
+		}),
+
+		/**
+		 * Downloads every farm matching the list filters as a CSV, XLSX or GeoJSON file.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [exportFarms, { isLoading }] = useExportFarmsMutation();
+		 * await exportFarms({ ...filters, format: ExportFormat.GeoJson }).unwrap();
+		 * ```
+		 */
+		exportFarms: builder.mutation<string, FarmExportOptions>({
+			query: ({ format, ...filters }) => ({
+				url: ROUTES.api.farms.export,
+				params: {
+					format,
+					...toFarmFilterParams(filters),
+				},
+				responseHandler: handleExportResponse,
+			}),
+		}),
+	}),
+});
+
+export const {
+	useExportProducersMutation,
+	useExportProducerPersonalDataMutation,
+	useExportFarmsMutation,
+} = exportApi;
@@ -1,16 +1,70 @@
 import type {
 	ApiResponse,
 	CreateFarmRequest,
+	CursorPaginatedResponse,
+	DeletedFarm,
 	Farm,
 	FarmFilterOptions,
+	FarmOwnershipHistoryEntry,
 	FarmsListResponse,
 	UpdateFarmRequest,
 } from "@agro/shared/types";
 
 import { ROUTES } from "@agro/shared/constants";
 import { HttpMethod } from "@agro/shared/enums";
+import { toETag } from "@agro/shared/utils";
 
-import { api } from "./baseApi";
+import { api, isPreconditionFailedError } from "./baseApi";
+
+/**
+ * Builds the query parameters of the farm list filters, leaving out unset ones.
+ *
+ * Lists are sent comma-separated. Shared by the list, infinite scroll and
+ * export endpoints, so they always filter the same farms.
+ *
+ * @param filters Sorting, filters and search of the farm list
+ *
+ * @returns Query parameters, without pagination
+ */
+export function toFarmFilterParams({
+	sortBy,
+	sortOrder,
+	search,
+	state,
+	states,
+	city,
+	producerId,
+	crops,
+	cropsMatch,
+	minTotalArea,
+	maxTotalArea,
+	minArablePercentage,
+	maxArablePercentage,
+	createdFrom,
+	createdTo,
+	fields,
+	include,
+}: Omit<FarmFilterOptions, "page" | "limit">): Record<string, string | number> {
+	return {
+		...(sortBy && { sortBy }),
+		...(sortOrder && { sortOrder }),
+		...(search && { search }),
+		...(state && { state }),
+		...(states && states.length > 0 && { states: states.join(",") }),
+		...(city && { city }),
+		...(producerId && { producerId }),
+		...(crops && crops.length > 0 && { crops: crops.join(",") }),
+		...(crops && crops.length > 0 && cropsMatch && { cropsMatch }),
+		...(minTotalArea !== undefined && { minTotalArea }),
+		...(maxTotalArea !== undefined && { maxTotalArea }),
+		...(minArablePercentage !== undefined && { minArablePercentage }),
+		...(maxArablePercentage !== undefined && { maxArablePercentage }),
+		...(createdFrom && { createdFrom }),
+		...(createdTo && { createdTo }),
+		...(fields && fields.length > 0 && { fields: fields.join(",") }),
+		...(include && include.length > 0 && { include: include.join(",") }),
+	};
+}
 
 /**
  * Farms API endpoints using RTK Query.
@@ -36,29 +90,13 @@ export const farmsApi = api.injectEndpoints({
 		 * ```
 		 */
 		getFarms: builder.query<FarmsListResponse, FarmFilterOptions>({
-			query: ({
-				page = 1,
-				limit = 10,
-				sortBy,
-				sortOrder,
-				search,
-				state,
-				city,
-				producerId,
-				crops,
-			} = {}) => {
+			query: ({ page = 1, limit = 10, ...filters } = {}) => {
 				return {
 					url: ROUTES.api.farms.base,
 					params: {
 						page,
 						limit,
-						...(sortBy && { sortBy }),
-						...(sortOrder && { sortOrder }),
-						...(search && { search }),
-						...(state && { state }),
-						...(city && { city }),
-						...(producerId && { producerId }),
-						...(crops && crops.length > 0 && { crops: crops.join(",") }),
+						...toFarmFilterParams(filters),
 					},
 				};
 			},
@@ -72,6 +110,47 @@ export const farmsApi = api.injectEndpoints({
 				:	[{ type: "Farm", id: "LIST" }],
 		}),
 
+		/**
+		 * Fetches farms page after page, by cursor, for infinite scrolling.
+		 *
+		 * Takes the same sorting, filters and search as {@link getFarms}; each
+		 * page starts after the last farm of the previous one.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data, hasNextPage, fetchNextPage } = useGetFarmPagesInfiniteQuery({ state: "SP" });
+		 * const farms = data?.pages.flatMap((page) => page.data) ?? [];
+		 * ```
+		 */
+		getFarmPages: builder.infiniteQuery<
+			CursorPaginatedResponse<Farm>,
+			Omit<FarmFilterOptions, "page">,
+			string
+		>({
+			infiniteQueryOptions: {
+				initialPageParam: "",
+				getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+			},
+			query: ({ queryArg: { limit = 10, ...filters }, pageParam }) => ({
+				url: ROUTES.api.farms.base,
+				params: {
+					cursor: pageParam,
+					limit,
+					...toFarmFilterParams(filters),
+				},
+			}),
+			transformResponse: (response: ApiResponse<CursorPaginatedResponse<Farm>>) => response.data,
+			providesTags: (result) =>
+				result ?
+					[
+						...result.pages.flatMap((page) =>
+							page.data.map(({ id }) => ({ type: "Farm" as const, id })),
+						),
+						{ type: "Farm", id: "LIST" },
+					]
+				:	[{ type: "Farm", id: "LIST" }],
+		}),
+
 		/**
 		 * Fetches single farm by ID.
 		 *
@@ -86,6 +165,22 @@ export const farmsApi = api.injectEndpoints({
 			providesTags: (result, error, id) => [{ type: "Farm", id }],
 		}),
 
+		/**
+		 * Fetches the farms a producer previously owned, from their transfers.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data: transfers, isLoading } = useGetPreviouslyOwnedFarmsQuery(producerId);
+		 * ```
+		 */
+		getPreviouslyOwnedFarms: builder.query<FarmOwnershipHistoryEntry[], string>({
+			query: (producerId) => ROUTES.api.farms.previouslyOwnedByProducer(producerId),
+			transformResponse: (response: ApiResponse<FarmOwnershipHistoryEntry[]>) => response.data,
+			providesTags: (result, error, producerId) => [
+				{ type: "Farm", id: `PREVIOUSLY-OWNED-${producerId}` },
+			],
+		}),
+
 		/**
 		 * Creates new farm.
 		 *
@@ -111,24 +206,31 @@ export const farmsApi = api.injectEndpoints({
 		/**
 		 * Updates existing farm.
 		 *
+		 * When `version` is given, it is sent as `If-Match`, and the update is rejected
+		 * with `412 Precondition Failed` if the farm changed since it was loaded.
+		 *
 		 * @example
 		 * ```tsx
 		 * const [updateFarm, { isLoading }] = useUpdateFarmMutation();
 		 * await updateFarm({ id: farmId, name: "Fazenda Updated" });
 		 * ```
 		 */
-		updateFarm: builder.mutation<Farm, { id: string } & UpdateFarmRequest>({
-			query: ({ id, ...body }) => ({
+		updateFarm: builder.mutation<Farm, { id: string; version?: number } & UpdateFarmRequest>({
+			query: ({ id, version, ...body }) => ({
 				url: ROUTES.api.farms.byId(id),
 				method: HttpMethod.PATCH,
 				body,
+				...(version !== undefined && { headers: { "If-Match": toETag(version) } }),
 			}),
 			transformResponse: (response: ApiResponse<Farm>) => response.data,
-			invalidatesTags: (result, error, { id }) => [
-				{ type: "Farm", id },
-				{ type: "Farm", id: "LIST" },
-				{ type: "DashboardStats", id: "ALL" },
-			],
+			invalidatesTags: (result, error, { id }) =>
+				isPreconditionFailedError(error) ?
+					[]
+				:	[
+						{ type: "Farm", id },
+						{ type: "Farm", id: "LIST" },
+						{ type: "DashboardStats", id: "ALL" },
+					],
 		}),
 
 		/**
@@ -149,16 +251,76 @@ export const farmsApi = api.injectEndpoints({
 			invalidatesTags: (result, error, id) => [
 				{ type: "Farm", id },
 				{ type: "Farm", id: "LIST" },
+				{ type: "Farm", id: "TRASH" },
 				{ type: "DashboardStats", id: "ALL" },
 			],
 		}),
+
+		/**
+		 * Fetches the farms in the trash.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data: deletedFarms, isLoading } = useGetDeletedFarmsQuery();
+		 * ```
+		 */
+		getDeletedFarms: builder.query<DeletedFarm[], undefined>({
+			query: () => ROUTES.api.farms.trash,
+			transformResponse: (response: ApiResponse<DeletedFarm[]>) => response.data,
+			providesTags: [{ type: "Farm", id: "TRASH" }],
+		}),
+
+		/**
+		 * Restores farm from the trash.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [restoreFarm, { isLoading }] = useRestoreFarmMutation();
+		 * await restoreFarm(farmId);
+		 * ```
+		 */
+		restoreFarm: builder.mutation<Farm, string>({
+			query: (id) => ({
+				url: ROUTES.api.farms.restore(id),
+				method: HttpMethod.POST,
+			}),
+			transformResponse: (response: ApiResponse<Farm>) => response.data,
+			invalidatesTags: [
+				{ type: "Farm", id: "LIST" },
+				{ type: "Farm", id: "TRASH" },
+				{ type: "DashboardStats", id: "ALL" },
+			],
+		}),
+
+		/**
+		 * Permanently deletes farm from the trash. Restricted to admins.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [purgeFarm, { isLoading }] = usePurgeFarmMutation();
+		 * await purgeFarm(farmId);
+		 * ```
+		 */
+		purgeFarm: builder.mutation<unknown, string>({
+			query: (id) => ({
+				url: ROUTES.api.farms.purge(id),
+				method: HttpMethod.DELETE,
+			}),
+			transformResponse: (response: ApiResponse<unknown>) => response.data,
+			invalidatesTags: [{ type: "Farm", id: "TRASH" }],
+		}),
 	}),
 });
 
 export const {
 	useGetFarmsQuery,
+	useGetFarmPagesInfiniteQuery,
 	useGetFarmByIdQuery,
+	useGetPreviouslyOwnedFarmsQuery,
 	useCreateFarmMutation,
 	useUpdateFarmMutation,
 	useDeleteFarmMutation,
+	useGetDeletedFarmsQuery,
+	useRestoreFarmMutation,
+	usePurgeFarmMutation,
 } = farmsApi;
@@ -0,0 +1,122 @@
+import type {
+	ApiResponse,
+	CreateHarvestRequest,
+	Harvest,
+	HarvestFilterOptions,
+	HarvestsListResponse,
+	UpdateHarvestRequest,
+} from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+import { HttpMethod } from "@agro/shared/enums";
+
+import { api } from "./baseApi";
+
+/**
+ * Harvests API endpoints using RTK Query.
+ *
+ * Provides auto-generated hooks for CRUD operations on harvest seasons,
+ * which farms reference when recording planted crops.
+ */
+export const harvestsApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Fetches paginated list of harvests (most recent first by default).
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data, isLoading } = useGetHarvestsQuery({ limit: 100 });
+		 * ```
+		 */
+		getHarvests: builder.query<HarvestsListResponse, HarvestFilterOptions>({
+			query: ({ page = 1, limit = 10, sortBy, sortOrder, search } = {}) => ({
+				url: ROUTES.api.harvests.base,
+				params: {
+					page,
+					limit,
+					...(sortBy && { sortBy }),
+					...(sortOrder && { sortOrder }),
+					...(search && { search }),
+				},
+			}),
+			transformResponse: (response: ApiResponse<HarvestsListResponse>) => response.data,
+			providesTags: (result) =>
+				result ?
+					[
+						...result.data.map(({ id }) => ({ type: "Harvest" as const, id })),
+						{ type: "Harvest", id: "LIST" },
+					]
+				:	[{ type: "Harvest", id: "LIST" }],
+		}),
+
+		/**
+		 * Creates new harvest.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [createHarvest, { isLoading }] = useCreateHarvestMutation();
+		 * await createHarvest({ year: "2025/2026" });
+		 * ```
+		 */
+		createHarvest: builder.mutation<Harvest, CreateHarvestRequest>({
+			query: (body) => ({
+				url: ROUTES.api.harvests.create,
+				method: HttpMethod.POST,
+				body,
+			}),
+			transformResponse: (response: ApiResponse<Harvest>) => response.data,
+			invalidatesTags: [{ type: "Harvest", id: "LIST" }],
+		}),
+
+		/**
+		 * Updates existing harvest.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [updateHarvest] = useUpdateHarvestMutation();
+		 * await updateHarvest({ id: harvestId, description: "Safra 2025/2026" });
+		 * ```
+		 */
+		updateHarvest: builder.mutation<Harvest, { id: string } & UpdateHarvestRequest>({
+			query: ({ id, ...body }) => ({
+				url: ROUTES.api.harvests.update(id),
+				method: HttpMethod.PATCH,
+				body,
+			}),
+			transformResponse: (response: ApiResponse<Harvest>) => response.data,
+			invalidatesTags: (result, error, { id }) => [
+				{ type: "Harvest", id },
+				{ type: "Harvest", id: "LIST" },
+				{ type: "Farm", id: "LIST" },
+			],
+		}),
+
+		/**
+		 * Deletes harvest by ID.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [deleteHarvest] = useDeleteHarvestMutation();
+		 * await deleteHarvest(harvestId);
+		 * ```
+		 */
+		deleteHarvest: builder.mutation<unknown, string>({
+			query: (id) => ({
+				url: ROUTES.api.harvests.delete(id),
+				method: HttpMethod.DELETE,
+			}),
+			transformResponse: (response: ApiResponse<unknown>) => response.data,
+			invalidatesTags: (result, error, id) => [
+				{ type: "Harvest", id },
+				{ type: "Harvest", id: "LIST" },
+			],
+		}),
+	}),
+});
+
+export const {
+	useGetHarvestsQuery,
+	useCreateHarvestMutation,
+	useUpdateHarvestMutation,
+	useDeleteHarvestMutation,
+} = harvestsApi;
@@ -0,0 +1,113 @@
+import type {
+	ApiResponse,
+	FarmImportField,
+	ImportReport,
+	ImportRequestOptions,
+	ProducerImportField,
+} from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+
+/**
+ * Spreadsheet to import, with the import options.
+ *
+ * @template TField Importable fields
+ */
+export interface ImportFileRequest<TField extends string> extends ImportRequestOptions<TField> {
+	/** CSV or XLSX file */
+	file: File;
+}
+
+/**
+ * Builds the multipart body of an import request.
+ *
+ * @param request File and import options
+ *
+ * @returns Form data with the file, the dry run flag and the JSON mapping
+ */
+function toImportFormData<TField extends string>({
+	file,
+	dryRun = false,
+	mapping,
+}: ImportFileRequest<TField>): FormData {
+	const formData = new FormData();
+
+	formData.append("file", file);
+	formData.append("dryRun", String(dryRun));
+
+	if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+	return formData;
+}
+
+/**
+ * Spreadsheet import API endpoints using RTK Query.
+ *
+ * Dry runs only validate the file, so producer and farm lists are only
+ * refreshed once rows are actually imported.
+ */
+export const importApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Imports producers from a CSV or XLSX file, or only validates it on dry runs.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [importProducers, { isLoading }] = useImportProducersMutation();
+		 * const report = await importProducers({ file, dryRun: true }).unwrap();
+		 * ```
+		 */
+		importProducers: builder.mutation<
+			ImportReport<ProducerImportField>,
+			ImportFileRequest<ProducerImportField>
+		>({
+			query: (request) => ({
+				url: ROUTES.api.import.producers,
+				method: "POST",
+				body: toImportFormData(request),
+			}),
+			transformResponse: (response: ApiResponse<ImportReport<ProducerImportField>>) =>
+				response.data,
+			invalidatesTags: (result) =>
+				result?.importedRows ?
+					[
+						{ type: "Producer", id: "LIST" },
+						{ type: "DashboardStats", id: "ALL" },
+					]
+				:	[],
+		}),
+
+		/**
+		 * Imports farms from a CSV or XLSX file, or only validates it on dry runs.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [importFarms, { isLoading }] = useImportFarmsMutation();
+		 * const report = await importFarms({ file, mapping: { producerDocument: "CPF" } }).unwrap();
+		 * ```
+		 */
+		importFarms: builder.mutation<
+			ImportReport<FarmImportField>,
+			ImportFileRequest<FarmImportField>
+		>({
+			query: (request) => ({
+				url: ROUTES.api.import.farms,
+				method: "POST",
+				body: toImportFormData(request),
+			}),
+			transformResponse: (response: ApiResponse<ImportReport<FarmImportField>>) => response.data,
+			invalidatesTags: (result) =>
+				result?.importedRows ?
+					[
+						{ type: "Farm", id: "LIST" },
+						{ type: "Producer", id: "LIST" },
+						{ type: "DashboardStats", id: "ALL" },
+					]
+				:	[],
+		}),
+	}),
+});
+
+export const { useImportProducersMutation, useImportFarmsMutation } = importApi;
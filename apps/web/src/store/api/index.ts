@@ -1,6 +1,14 @@
 export * from "./baseApi";
+export * from "./auditApi";
 export * from "./authApi";
 export * from "./dashboardApi";
 export * from "./farmsApi";
+export * from "./plotsApi";
+export * from "./harvestsApi";
+export * from "./cropsApi";
 export * from "./producersApi";
 export * from "./citiesApi";
+export * from "./postalCodesApi";
+export * from "./searchApi";
+export * from "./importApi";
+export * from "./exportApi";
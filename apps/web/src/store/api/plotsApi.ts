@@ -0,0 +1,113 @@
+import type {
+	ApiResponse,
+	CreateFarmPlotRequest,
+	FarmPlot,
+	UpdateFarmPlotRequest,
+} from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+import { HttpMethod } from "@agro/shared/enums";
+
+import { api } from "./baseApi";
+
+/**
+ * Farm plot (talhão) API endpoints using RTK Query.
+ *
+ * Plots are a sub-resource of a farm, so every endpoint takes the farm ID and
+ * caches plots per farm.
+ */
+export const plotsApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Fetches the plots of a farm, sorted by name.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data: plots = [], isLoading } = useGetFarmPlotsQuery(farmId);
+		 * ```
+		 */
+		getFarmPlots: builder.query<FarmPlot[], string>({
+			query: (farmId) => ROUTES.api.farms.plots.base(farmId),
+			transformResponse: (response: ApiResponse<FarmPlot[]>) => response.data,
+			providesTags: (result, error, farmId) =>
+				result ?
+					[
+						...result.map(({ id }) => ({ type: "FarmPlot" as const, id })),
+						{ type: "FarmPlot", id: `LIST-${farmId}` },
+					]
+				:	[{ type: "FarmPlot", id: `LIST-${farmId}` }],
+		}),
+
+		/**
+		 * Adds a plot to a farm.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [createFarmPlot, { isLoading }] = useCreateFarmPlotMutation();
+		 * await createFarmPlot({ farmId, name: "Talhão 01", area: 25.5 });
+		 * ```
+		 */
+		createFarmPlot: builder.mutation<FarmPlot, { farmId: string } & CreateFarmPlotRequest>({
+			query: ({ farmId, ...body }) => ({
+				url: ROUTES.api.farms.plots.base(farmId),
+				method: HttpMethod.POST,
+				body,
+			}),
+			transformResponse: (response: ApiResponse<FarmPlot>) => response.data,
+			invalidatesTags: (result, error, { farmId }) => [{ type: "FarmPlot", id: `LIST-${farmId}` }],
+		}),
+
+		/**
+		 * Updates a plot of a farm.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [updateFarmPlot, { isLoading }] = useUpdateFarmPlotMutation();
+		 * await updateFarmPlot({ farmId, id: plotId, area: 30 });
+		 * ```
+		 */
+		updateFarmPlot: builder.mutation<
+			FarmPlot,
+			{ farmId: string; id: string } & UpdateFarmPlotRequest
+		>({
+			query: ({ farmId, id, ...body }) => ({
+				url: ROUTES.api.farms.plots.byId(farmId, id),
+				method: HttpMethod.PATCH,
+				body,
+			}),
+			transformResponse: (response: ApiResponse<FarmPlot>) => response.data,
+			invalidatesTags: (result, error, { farmId, id }) => [
+				{ type: "FarmPlot", id },
+				{ type: "FarmPlot", id: `LIST-${farmId}` },
+			],
+		}),
+
+		/**
+		 * Deletes a plot of a farm.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [deleteFarmPlot, { isLoading }] = useDeleteFarmPlotMutation();
+		 * await deleteFarmPlot({ farmId, id: plotId });
+		 * ```
+		 */
+		deleteFarmPlot: builder.mutation<unknown, { farmId: string; id: string }>({
+			query: ({ farmId, id }) => ({
+				url: ROUTES.api.farms.plots.byId(farmId, id),
+				method: HttpMethod.DELETE,
+			}),
+			transformResponse: (response: ApiResponse<unknown>) => response.data,
+			invalidatesTags: (result, error, { farmId, id }) => [
+				{ type: "FarmPlot", id },
+				{ type: "FarmPlot", id: `LIST-${farmId}` },
+			],
+		}),
+	}),
+});
+
+export const {
+	useGetFarmPlotsQuery,
+	useCreateFarmPlotMutation,
+	useUpdateFarmPlotMutation,
+	useDeleteFarmPlotMutation,
+} = plotsApi;
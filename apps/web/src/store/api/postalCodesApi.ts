@@ -0,0 +1,32 @@
+import type { ApiResponse, PostalCodeAddress } from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+
+/**
+ * Postal codes API endpoints using RTK Query.
+ *
+ * Looks Brazilian postal codes (CEP) up in the dataset bundled with the API,
+ * to fill in address fields without an external service.
+ */
+export const postalCodesApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Retrieves the address of a postal code.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [getPostalCode] = useLazyGetPostalCodeQuery();
+		 * const address = await getPostalCode("01310100", true).unwrap();
+		 * // address.city.name = "São Paulo"
+		 * ```
+		 */
+		getPostalCode: builder.query<PostalCodeAddress, string>({
+			query: (cep) => ROUTES.api.postalCodes.byCode(cep),
+			transformResponse: (response: ApiResponse<PostalCodeAddress>) => response.data,
+		}),
+	}),
+});
+
+export const { useGetPostalCodeQuery, useLazyGetPostalCodeQuery } = postalCodesApi;
@@ -1,6 +1,8 @@
 import type {
 	ApiResponse,
 	CreateProducerRequest,
+	CursorPaginatedResponse,
+	DeletedProducer,
 	Producer,
 	ProducersFilterOptions,
 	ProducersListResponse,
@@ -9,8 +11,45 @@ import type {
 
 import { ROUTES } from "@agro/shared/constants";
 import { HttpMethod } from "@agro/shared/enums";
+import { toETag } from "@agro/shared/utils";
 
-import { api } from "./baseApi";
+import { api, isPreconditionFailedError } from "./baseApi";
+
+/**
+ * Builds the query parameters of the producer list filters, leaving out unset ones.
+ *
+ * Lists are sent comma-separated. Shared by the list, infinite scroll and
+ * export endpoints, so they always filter the same producers.
+ *
+ * @param filters Sorting, filters and search of the producer list
+ *
+ * @returns Query parameters, without pagination
+ */
+export function toProducerFilterParams({
+	sortBy,
+	sortOrder,
+	search,
+	operatingState,
+	crop,
+	documentType,
+	minFarmCount,
+	maxFarmCount,
+	fields,
+	include,
+}: Omit<ProducersFilterOptions, "page" | "limit">): Record<string, string | number> {
+	return {
+		...(sortBy && { sortBy }),
+		...(sortOrder && { sortOrder }),
+		...(search && { search }),
+		...(operatingState && { operatingState }),
+		...(crop && { crop }),
+		...(documentType && { documentType }),
+		...(minFarmCount !== undefined && { minFarmCount }),
+		...(maxFarmCount !== undefined && { maxFarmCount }),
+		...(fields && fields.length > 0 && { fields: fields.join(",") }),
+		...(include && include.length > 0 && { include: include.join(",") }),
+	};
+}
 
 /**
  * Producers API endpoints using RTK Query.
@@ -21,7 +60,7 @@ import { api } from "./baseApi";
 export const producersApi = api.injectEndpoints({
 	endpoints: (builder) => ({
 		/**
-		 * Fetches paginated list of producers with sorting and search.
+		 * Fetches paginated list of producers with sorting, filtering and search.
 		 *
 		 * @example
 		 * ```tsx
@@ -30,19 +69,18 @@ export const producersApi = api.injectEndpoints({
 		 *   limit: 10,
 		 *   sortBy: "name",
 		 *   sortOrder: "ASC",
-		 *   search: "Silva"
+		 *   search: "Silva",
+		 *   include: ["farms"]
 		 * });
 		 * ```
 		 */
 		getProducers: builder.query<ProducersListResponse, ProducersFilterOptions>({
-			query: ({ page = 1, limit = 10, sortBy, sortOrder, search } = {}) => ({
+			query: ({ page = 1, limit = 10, ...filters } = {}) => ({
 				url: ROUTES.api.producers.base,
 				params: {
 					page,
 					limit,
-					...(sortBy && { sortBy }),
-					...(sortOrder && { sortOrder }),
-					...(search && { search }),
+					...toProducerFilterParams(filters),
 				},
 			}),
 			transformResponse: (response: ApiResponse<ProducersListResponse>): ProducersListResponse =>
@@ -56,6 +94,49 @@ export const producersApi = api.injectEndpoints({
 				:	[{ type: "Producer", id: "LIST" }],
 		}),
 
+		/**
+		 * Fetches producers page after page, by cursor, for infinite scrolling.
+		 *
+		 * Takes the same sorting, filters and search as {@link getProducers}; each page
+		 * starts after the last producer of the previous one.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data, hasNextPage, fetchNextPage } = useGetProducerPagesInfiniteQuery({ search: "Silva" });
+		 * const producers = data?.pages.flatMap((page) => page.data) ?? [];
+		 * ```
+		 */
+		getProducerPages: builder.infiniteQuery<
+			CursorPaginatedResponse<Producer>,
+			Omit<ProducersFilterOptions, "page">,
+			string
+		>({
+			infiniteQueryOptions: {
+				initialPageParam: "",
+				getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+			},
+			query: ({ queryArg: { limit = 10, ...filters }, pageParam }) => ({
+				url: ROUTES.api.producers.base,
+				params: {
+					cursor: pageParam,
+					limit,
+					...toProducerFilterParams(filters),
+				},
+			}),
+			transformResponse: (
+				response: ApiResponse<CursorPaginatedResponse<Producer>>,
+			): CursorPaginatedResponse<Producer> => response.data,
+			providesTags: (result) =>
+				result ?
+					[
+						...result.pages.flatMap((page) =>
+							page.data.map(({ id }) => ({ type: "Producer" as const, id })),
+						),
+						{ type: "Producer", id: "LIST" },
+					]
+				:	[{ type: "Producer", id: "LIST" }],
+		}),
+
 		/**
 		 * Fetches single producer by ID.
 		 *
@@ -95,24 +176,34 @@ export const producersApi = api.injectEndpoints({
 		/**
 		 * Updates existing producer.
 		 *
+		 * When `version` is given, it is sent as `If-Match`, and the update is rejected
+		 * with `412 Precondition Failed` if the producer changed since it was loaded.
+		 *
 		 * @example
 		 * ```tsx
 		 * const [updateProducer, { isLoading }] = useUpdateProducerMutation();
 		 * await updateProducer({ id: producerId, name: "João Updated" });
 		 * ```
 		 */
-		updateProducer: builder.mutation<Producer, { id: string } & UpdateProducerRequest>({
-			query: ({ id, ...body }) => ({
+		updateProducer: builder.mutation<
+			Producer,
+			{ id: string; version?: number } & UpdateProducerRequest
+		>({
+			query: ({ id, version, ...body }) => ({
 				url: ROUTES.api.producers.update(id),
 				method: HttpMethod.PATCH,
 				body,
+				...(version !== undefined && { headers: { "If-Match": toETag(version) } }),
 			}),
 			transformResponse: (response: ApiResponse<Producer>) => response.data,
-			invalidatesTags: (result, error, { id }) => [
-				{ type: "Producer", id },
-				{ type: "Producer", id: "LIST" },
-				{ type: "DashboardStats", id: "ALL" },
-			],
+			invalidatesTags: (result, error, { id }) =>
+				isPreconditionFailedError(error) ?
+					[]
+				:	[
+						{ type: "Producer", id },
+						{ type: "Producer", id: "LIST" },
+						{ type: "DashboardStats", id: "ALL" },
+					],
 		}),
 
 		/**
@@ -133,16 +224,105 @@ export const producersApi = api.injectEndpoints({
 			invalidatesTags: (result, error, id) => [
 				{ type: "Producer", id },
 				{ type: "Producer", id: "LIST" },
+				{ type: "Producer", id: "TRASH" },
+				{ type: "Farm", id: "LIST" },
+				{ type: "Farm", id: "TRASH" },
+				{ type: "DashboardStats", id: "ALL" },
+			],
+		}),
+
+		/**
+		 * Fetches the producers in the trash.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data: deletedProducers, isLoading } = useGetDeletedProducersQuery();
+		 * ```
+		 */
+		getDeletedProducers: builder.query<DeletedProducer[], undefined>({
+			query: () => ROUTES.api.producers.trash,
+			transformResponse: (response: ApiResponse<DeletedProducer[]>) => response.data,
+			providesTags: [{ type: "Producer", id: "TRASH" }],
+		}),
+
+		/**
+		 * Restores producer from the trash, along with the farms deleted with it.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [restoreProducer, { isLoading }] = useRestoreProducerMutation();
+		 * await restoreProducer(producerId);
+		 * ```
+		 */
+		restoreProducer: builder.mutation<Producer, string>({
+			query: (id) => ({
+				url: ROUTES.api.producers.restore(id),
+				method: HttpMethod.POST,
+			}),
+			transformResponse: (response: ApiResponse<Producer>) => response.data,
+			invalidatesTags: [
+				{ type: "Producer", id: "LIST" },
+				{ type: "Producer", id: "TRASH" },
+				{ type: "Farm", id: "LIST" },
+				{ type: "Farm", id: "TRASH" },
 				{ type: "DashboardStats", id: "ALL" },
 			],
 		}),
+
+		/**
+		 * Permanently deletes producer from the trash. Restricted to admins.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [purgeProducer, { isLoading }] = usePurgeProducerMutation();
+		 * await purgeProducer(producerId);
+		 * ```
+		 */
+		purgeProducer: builder.mutation<unknown, string>({
+			query: (id) => ({
+				url: ROUTES.api.producers.purge(id),
+				method: HttpMethod.DELETE,
+			}),
+			transformResponse: (response: ApiResponse<unknown>) => response.data,
+			invalidatesTags: [
+				{ type: "Producer", id: "TRASH" },
+				{ type: "Farm", id: "TRASH" },
+			],
+		}),
+
+		/**
+		 * Removes the personal data of a producer, keeping their farms. Restricted to admins.
+		 *
+		 * @example
+		 * ```tsx
+		 * const [anonymizeProducer, { isLoading }] = useAnonymizeProducerMutation();
+		 * await anonymizeProducer(producerId);
+		 * ```
+		 */
+		anonymizeProducer: builder.mutation<unknown, string>({
+			query: (id) => ({
+				url: ROUTES.api.producers.anonymize(id),
+				method: HttpMethod.POST,
+			}),
+			transformResponse: (response: ApiResponse<unknown>) => response.data,
+			invalidatesTags: (result, error, id) => [
+				{ type: "Producer", id },
+				{ type: "Producer", id: "LIST" },
+				{ type: "Producer", id: "TRASH" },
+			],
+		}),
 	}),
 });
 
 export const {
 	useGetProducersQuery,
+	useGetProducerPagesInfiniteQuery,
 	useGetProducerByIdQuery,
 	useCreateProducerMutation,
 	useUpdateProducerMutation,
 	useDeleteProducerMutation,
+	useGetDeletedProducersQuery,
+	useRestoreProducerMutation,
+	usePurgeProducerMutation,
+	useAnonymizeProducerMutation,
 } = producersApi;
@@ -0,0 +1,41 @@
+import type { ApiResponse, SearchOptions, SearchResults } from "@agro/shared/types";
+
+import { ROUTES } from "@agro/shared/constants";
+
+import { api } from "./baseApi";
+
+/**
+ * Global search API endpoints using RTK Query.
+ *
+ * Finds producers, farms and cities in a single request, ignoring case and
+ * accents, for the search box of the main layout.
+ */
+export const searchApi = api.injectEndpoints({
+	endpoints: (builder) => ({
+		/**
+		 * Searches producers, farms and cities, best match first.
+		 *
+		 * Refetched whenever producers or farms change, so renamed or deleted
+		 * records are not suggested.
+		 *
+		 * @example
+		 * ```tsx
+		 * const { data } = useSearchQuery({ q: "sao joao" });
+		 * // data.cities[0].name = "São João da Boa Vista"
+		 * ```
+		 */
+		search: builder.query<SearchResults, SearchOptions>({
+			query: ({ q, limit = 5 }) => ({
+				url: ROUTES.api.search.base,
+				params: { q, limit },
+			}),
+			transformResponse: (response: ApiResponse<SearchResults>) => response.data,
+			providesTags: [
+				{ type: "Producer", id: "LIST" },
+				{ type: "Farm", id: "LIST" },
+			],
+		}),
+	}),
+});
+
+export const { useSearchQuery } = searchApi;
@@ -1,4 +1,4 @@
-import { CropType, LogLevel, RuntimeEnvironment } from "@agro/shared/enums";
+import { LogLevel, RuntimeEnvironment } from "@agro/shared/enums";
 
 import { description, version } from "../../package.json";
 
@@ -66,11 +66,3 @@ export const environmentDefaults = {
 	WEB__HOST: "localhost",
 	WEB__PREVIEW_PORT: 4173,
 } as const;
-
-export const CROP_TO_COLOR = {
-	[CropType.Corn]: "green",
-	[CropType.Soy]: "blue",
-	[CropType.Coffee]: "orange",
-	[CropType.Sugarcane]: "gray",
-	[CropType.Cotton]: "red",
-} as const;
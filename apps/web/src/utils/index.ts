@@ -7,3 +7,4 @@
 export * from "./constants.util";
 export * from "./env.util";
 export * from "./logger.util";
+export * from "./mask.util";
@@ -0,0 +1,64 @@
+/**
+ * Applies a pattern to the digits typed so far, where each `9` in the pattern
+ * stands for one digit and every other character is inserted as typed.
+ *
+ * Literal characters are only added once a digit follows them, so erasing a
+ * value does not get stuck on a separator.
+ *
+ * @param value Value typed by the user, formatted or not
+ * @param pattern Pattern to apply, such as `"99999-999"`
+ *
+ * @returns The digits of the value formatted by the pattern
+ *
+ * @example
+ * ```typescript
+ * applyMask("1234", "99999-999");
+ * // => "1234"
+ *
+ * applyMask("123456", "99999-999");
+ * // => "12345-6"
+ * ```
+ */
+export function applyMask(value: string, pattern: string): string {
+	const digits = value.replaceAll(/\D/g, "");
+	let masked = "";
+	let index = 0;
+
+	for (const character of pattern) {
+		if (index >= digits.length) break;
+
+		if (character === "9") {
+			masked += digits[index];
+			index++;
+		} else {
+			masked += character;
+		}
+	}
+
+	return masked;
+}
+
+/**
+ * Masks a Brazilian phone number while it is typed, as `(99) 9999-9999` for
+ * landlines and `(99) 99999-9999` for mobiles.
+ *
+ * @param value Value typed by the user
+ *
+ * @returns The masked phone number
+ */
+export function maskPhone(value: string): string {
+	const digits = value.replaceAll(/\D/g, "");
+
+	return applyMask(digits, digits.length > 10 ? "(99) 99999-9999" : "(99) 9999-9999");
+}
+
+/**
+ * Masks a Brazilian postal code (CEP) while it is typed, as `99999-999`.
+ *
+ * @param value Value typed by the user
+ *
+ * @returns The masked postal code
+ */
+export function maskCEP(value: string): string {
+	return applyMask(value, "99999-999");
+}
@@ -40,6 +40,7 @@ export default defineConfig(
 			globals: {
 				...globals.node,
 				NodeJS: "readonly",
+				Express: "readonly",
 			},
 			parser: tseslint.parser,
 			parserOptions: {
@@ -1,5 +1,21 @@
+import { Permission, UserRole } from "../enums";
+
 /** Demo user credentials for testing and development purposes */
 export const DEMO_CREDENTIALS = {
 	username: "admin@brainag.com",
 	password: "admin123",
 } as const;
+
+/**
+ * Permissions granted to each user role.
+ *
+ * @example
+ * ```typescript
+ * ROLE_PERMISSIONS[UserRole.Admin].includes(Permission.RevealPersonalData);
+ * // => true
+ * ```
+ */
+export const ROLE_PERMISSIONS: Readonly<Record<UserRole, ReadonlyArray<Permission>>> = {
+	[UserRole.Admin]: [Permission.RevealPersonalData],
+	[UserRole.User]: [],
+};
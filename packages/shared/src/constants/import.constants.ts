@@ -0,0 +1,26 @@
+/**
+ * Producer fields that can be filled from a spreadsheet column when importing.
+ */
+export const PRODUCER_IMPORT_FIELDS = ["name", "document"] as const;
+
+/**
+ * Farm fields that can be filled from a spreadsheet column when importing.
+ *
+ * Farms reference their producer by CPF/CNPJ (`producerDocument`), since
+ * spreadsheets do not know producer IDs.
+ */
+export const FARM_IMPORT_FIELDS = [
+	"name",
+	"city",
+	"state",
+	"totalArea",
+	"arableArea",
+	"vegetationArea",
+	"producerDocument",
+] as const;
+
+/** Maximum size of an import file: 5 MB */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+/** Maximum number of data rows in an import file */
+export const MAX_IMPORT_ROWS = 5000;
@@ -1,3 +1,4 @@
 export * from "./locale.constants";
 export * from "./routes.constants";
 export * from "./auth.constants";
+export * from "./import.constants";
@@ -48,8 +48,26 @@ export const ROUTES = {
 			/** Update producer: `PATCH /api/producers/:id` */
 			update: (id: string) => `${API_PREFIX}/producers/${id}` as const,
 
-			/** Delete producer: `DELETE /api/producers/:id` */
+			/** Move producer and its farms to the trash: `DELETE /api/producers/:id` */
 			delete: (id: string) => `${API_PREFIX}/producers/${id}` as const,
+
+			/** Producers in the trash: `GET /api/producers/trash` */
+			trash: `${API_PREFIX}/producers/trash`,
+
+			/** Export filtered producers as CSV or XLSX: `GET /api/producers/export` */
+			export: `${API_PREFIX}/producers/export`,
+
+			/** Restore producer from the trash: `POST /api/producers/:id/restore` */
+			restore: (id: string) => `${API_PREFIX}/producers/${id}/restore` as const,
+
+			/** Permanently delete a trashed producer (admin only): `DELETE /api/producers/:id/purge` */
+			purge: (id: string) => `${API_PREFIX}/producers/${id}/purge` as const,
+
+			/** Export everything held about a producer (admin only): `GET /api/producers/:id/personal-data` */
+			personalData: (id: string) => `${API_PREFIX}/producers/${id}/personal-data` as const,
+
+			/** Remove the personal data of a producer (admin only): `POST /api/producers/:id/anonymize` */
+			anonymize: (id: string) => `${API_PREFIX}/producers/${id}/anonymize` as const,
 		},
 
 		/**
@@ -70,9 +88,59 @@ export const ROUTES = {
 			/** Update farm: `PATCH /api/farms/:id` */
 			update: (id: string) => `${API_PREFIX}/farms/${id}` as const,
 
-			/** Delete farm: `DELETE /api/farms/:id` */
+			/** Move farm to the trash: `DELETE /api/farms/:id` */
 			delete: (id: string) => `${API_PREFIX}/farms/${id}` as const,
 
+			/** Farms in the trash: `GET /api/farms/trash` */
+			trash: `${API_PREFIX}/farms/trash`,
+
+			/** Export filtered farms as CSV, XLSX or GeoJSON: `GET /api/farms/export` */
+			export: `${API_PREFIX}/farms/export`,
+
+			/** Restore farm from the trash: `POST /api/farms/:id/restore` */
+			restore: (id: string) => `${API_PREFIX}/farms/${id}/restore` as const,
+
+			/** Permanently delete a trashed farm (admin only): `DELETE /api/farms/:id/purge` */
+			purge: (id: string) => `${API_PREFIX}/farms/${id}/purge` as const,
+
+			/** Transfer farm to another producer: `POST /api/farms/:id/transfer` */
+			transfer: (id: string) => `${API_PREFIX}/farms/${id}/transfer` as const,
+
+			/** Ownership history of a farm: `GET /api/farms/:id/ownership-history` */
+			ownershipHistory: (id: string) => `${API_PREFIX}/farms/${id}/ownership-history` as const,
+
+			/** Farms previously owned by a producer: `GET /api/farms/producer/:producerId/previously-owned` */
+			previouslyOwnedByProducer: (producerId: string) =>
+				`${API_PREFIX}/farms/producer/${producerId}/previously-owned` as const,
+
+			/**
+			 * Plots (talhões) of a farm.
+			 */
+			plots: {
+				/** List/create plots: `GET|POST /api/farms/:id/plots` */
+				base: (id: string) => `${API_PREFIX}/farms/${id}/plots` as const,
+
+				/** Get/update/delete a plot: `GET|PATCH|DELETE /api/farms/:id/plots/:plotId` */
+				byId: (id: string, plotId: string) => `${API_PREFIX}/farms/${id}/plots/${plotId}` as const,
+			},
+
+			/**
+			 * Production records of a farm in a harvest.
+			 */
+			production: {
+				/** List/create production records: `GET|POST /api/farms/:id/harvests/:harvestId/production` */
+				base: (id: string, harvestId: string) =>
+					`${API_PREFIX}/farms/${id}/harvests/${harvestId}/production` as const,
+
+				/** Get/update/delete a production record: `GET|PATCH|DELETE /api/farms/:id/harvests/:harvestId/production/:recordId` */
+				byId: (id: string, harvestId: string, recordId: string) =>
+					`${API_PREFIX}/farms/${id}/harvests/${harvestId}/production/${recordId}` as const,
+
+				/** Yield per crop: `GET /api/farms/:id/harvests/:harvestId/production/yield` */
+				yield: (id: string, harvestId: string) =>
+					`${API_PREFIX}/farms/${id}/harvests/${harvestId}/production/yield` as const,
+			},
+
 			/** Farm statistics for dashboard */
 			stats: {
 				/** Total farms and area: `GET /api/farms/stats/total-area` */
@@ -89,6 +157,69 @@ export const ROUTES = {
 			},
 		},
 
+		/**
+		 * Harvest-related endpoints.
+		 *
+		 * Handles CRUD operations for harvest seasons.
+		 */
+		harvests: {
+			/** List/create harvests: `GET|POST /api/harvests` */
+			base: `${API_PREFIX}/harvests`,
+
+			/** Get single harvest: `GET /api/harvests/:id` */
+			byId: (id: string) => `${API_PREFIX}/harvests/${id}` as const,
+
+			/** Create harvest: `POST /api/harvests` */
+			create: `${API_PREFIX}/harvests`,
+
+			/** Update harvest: `PATCH /api/harvests/:id` */
+			update: (id: string) => `${API_PREFIX}/harvests/${id}` as const,
+
+			/** Delete harvest: `DELETE /api/harvests/:id` */
+			delete: (id: string) => `${API_PREFIX}/harvests/${id}` as const,
+		},
+
+		/**
+		 * Crop catalog endpoints.
+		 *
+		 * Handles CRUD operations for the crops that can be planted on farms.
+		 */
+		crops: {
+			/** List/create crops: `GET|POST /api/crops` */
+			base: `${API_PREFIX}/crops`,
+
+			/** Get single crop: `GET /api/crops/:id` */
+			byId: (id: string) => `${API_PREFIX}/crops/${id}` as const,
+
+			/** Create crop: `POST /api/crops` */
+			create: `${API_PREFIX}/crops`,
+
+			/** Update crop: `PATCH /api/crops/:id` */
+			update: (id: string) => `${API_PREFIX}/crops/${id}` as const,
+
+			/** Delete crop: `DELETE /api/crops/:id` */
+			delete: (id: string) => `${API_PREFIX}/crops/${id}` as const,
+		},
+
+		/**
+		 * Audit log endpoints.
+		 */
+		audit: {
+			/** List audit log entries: `GET /api/audit` */
+			base: `${API_PREFIX}/audit`,
+		},
+
+		/**
+		 * Spreadsheet import endpoints.
+		 */
+		import: {
+			/** Import producers from a CSV or XLSX file: `POST /api/import/producers` */
+			producers: `${API_PREFIX}/import/producers`,
+
+			/** Import farms from a CSV or XLSX file: `POST /api/import/farms` */
+			farms: `${API_PREFIX}/import/farms`,
+		},
+
 		/**
 		 * Authentication endpoints.
 		 */
@@ -120,6 +251,22 @@ export const ROUTES = {
 			groupedByState: `${API_PREFIX}/cities/all/grouped-by-state`,
 		},
 
+		/**
+		 * Offline postal code (CEP) lookup endpoints.
+		 */
+		postalCodes: {
+			/** Get the address of a CEP: `GET /api/postal-codes/:cep` */
+			byCode: (cep: string) => `${API_PREFIX}/postal-codes/${cep}` as const,
+		},
+
+		/**
+		 * Global search endpoints.
+		 */
+		search: {
+			/** Search producers, farms and cities: `GET /api/search?q=` */
+			base: `${API_PREFIX}/search`,
+		},
+
 		/**
 		 * Dashboard statistics endpoints.
 		 */
@@ -163,6 +310,12 @@ export const ROUTES = {
 		/** Dashboard overview: `/dashboard` */
 		dashboard: "/dashboard",
 
+		/** Deleted producers and farms: `/trash` */
+		trash: "/trash",
+
+		/** Spreadsheet import wizard: `/import` */
+		import: "/import",
+
 		/**
 		 * Authentication routes.
 		 */
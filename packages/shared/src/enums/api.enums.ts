@@ -46,3 +46,46 @@ export enum HttpMethod {
 	 */
 	HEAD = "HEAD",
 }
+
+/**
+ * Roles of the users of the application
+ *
+ * Admins can perform destructive operations such as permanently purging
+ * soft-deleted producers and farms.
+ */
+export enum UserRole {
+	Admin = "admin",
+	User = "user",
+}
+
+/**
+ * Permissions granted to users according to their role
+ *
+ * @see {@link ROLE_PERMISSIONS} for the permissions of each role
+ */
+export enum Permission {
+	/** See personal data, such as CPFs, without masking */
+	RevealPersonalData = "personal_data:reveal",
+}
+
+/** Entities whose changes are recorded in the audit log */
+export enum AuditEntityType {
+	Producer = "producer",
+	Farm = "farm",
+	FarmHarvestCrop = "farm_harvest_crop",
+	User = "user",
+}
+
+/**
+ * Operations recorded in the audit log
+ *
+ * Moving a record to the trash and restoring it are recorded apart from other
+ * updates, while `delete` is only used when a record is permanently deleted.
+ */
+export enum AuditAction {
+	Create = "create",
+	Update = "update",
+	SoftDelete = "soft_delete",
+	Restore = "restore",
+	Delete = "delete",
+}
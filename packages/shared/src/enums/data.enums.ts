@@ -88,15 +88,71 @@ export enum BrazilianState {
 }
 
 /**
- * Agricultural crop types enumeration
+ * Categories of the crops in the crop catalog
  *
- * Represents the main crops grown in Brazilian agriculture
- * as specified in the project requirements.
+ * Groups crops by their main use. Crops themselves are data-driven and
+ * managed through the crops endpoints.
  */
-export enum CropType {
-	Soy = "soy",
-	Corn = "corn",
-	Cotton = "cotton",
-	Coffee = "coffee",
-	Sugarcane = "sugarcane",
+export enum CropCategory {
+	Grain = "grain",
+	Oilseed = "oilseed",
+	Fiber = "fiber",
+	Beverage = "beverage",
+	SugarEnergy = "sugar_energy",
+	Fruit = "fruit",
+	Forestry = "forestry",
+}
+
+/**
+ * Types of producer documents
+ *
+ * Individuals are identified by a CPF (11 digits) and companies by a CNPJ
+ * (14 characters, possibly alphanumeric).
+ */
+export enum DocumentType {
+	CPF = "cpf",
+	CNPJ = "cnpj",
+}
+
+/**
+ * Units used to record agricultural production
+ *
+ * Covers the units commonly used in Brazilian agriculture: metric tons,
+ * 60 kg sacks (sacas, used for soy, corn and coffee) and arrobas (15 kg,
+ * used for cotton).
+ */
+export enum ProductionUnit {
+	Tons = "tons",
+	Sacks60Kg = "sacks_60kg",
+	Arrobas = "arrobas",
+}
+
+/**
+ * Soil texture classes of a plot
+ *
+ * Follows the texture groups used by Embrapa's Brazilian Soil Classification
+ * System (SiBCS), based on clay, silt and sand content.
+ */
+export enum SoilType {
+	Sandy = "sandy",
+	Medium = "medium",
+	Clayey = "clayey",
+	VeryClayey = "very_clayey",
+	Silty = "silty",
+	Organic = "organic",
+}
+
+/**
+ * Brazilian biomes
+ *
+ * Follows IBGE's official biome map. The biome of a farm decides the minimum
+ * share of native vegetation it must keep as legal reserve (Reserva Legal).
+ */
+export enum Biome {
+	Amazon = "amazon",
+	Cerrado = "cerrado",
+	Caatinga = "caatinga",
+	AtlanticForest = "atlantic_forest",
+	Pampa = "pampa",
+	Pantanal = "pantanal",
 }
@@ -7,6 +7,30 @@ export enum SortOrder {
 	Descending = "DESC",
 }
 
+/** File formats of list exports */
+export enum ExportFormat {
+	/** Comma-separated values, using semicolons in locales with a decimal comma */
+	Csv = "csv",
+
+	/** Excel workbook */
+	Xlsx = "xlsx",
+
+	/** GeoJSON FeatureCollection (RFC 7946), for farms only */
+	GeoJson = "geojson",
+}
+
+/** How the crops of a farm list filter are matched */
+export enum CropsMatch {
+	/** Farms growing at least one of the crops */
+	Any = "any",
+
+	/** Farms growing every one of the crops */
+	All = "all",
+
+	/** Farms growing none of the crops */
+	None = "none",
+}
+
 /** Sortable fields for producers */
 export enum ProducerSortField {
 	/** Sort by producer name */
@@ -17,6 +41,12 @@ export enum ProducerSortField {
 
 	/** Sort by creation date */
 	CreatedAt = "createdAt",
+
+	/** Sort by number of farms owned or co-owned */
+	FarmCount = "farmCount",
+
+	/** Sort by total area of the farms owned or co-owned */
+	TotalArea = "totalArea",
 }
 
 /** Sortable fields for farms */
@@ -43,6 +73,105 @@ export enum FarmSortField {
 	CreatedAt = "createdAt",
 }
 
+/** Fields of producers that list responses may be limited to, besides the ID */
+export enum ProducerField {
+	/** Name of the producer or company */
+	Name = "name",
+
+	/** Document (CPF/CNPJ) */
+	Document = "document",
+
+	/** Contact email address */
+	Email = "email",
+
+	/** Phone numbers */
+	Phones = "phones",
+
+	/** Postal address */
+	Address = "address",
+
+	/** State registrations */
+	StateRegistrations = "stateRegistrations",
+
+	/** Anonymization timestamp */
+	AnonymizedAt = "anonymizedAt",
+
+	/** Creation timestamp */
+	CreatedAt = "createdAt",
+
+	/** Last update timestamp */
+	UpdatedAt = "updatedAt",
+
+	/** Version, for `If-Match` */
+	Version = "version",
+}
+
+/** Relations that producer lists load only when asked to include them */
+export enum ProducerInclude {
+	/** Farms owned or co-owned by each producer */
+	Farms = "farms",
+
+	/** Crops of those farms, per harvest; includes the farms */
+	FarmCrops = "farms.crops",
+
+	/** Owners of those farms, with their shares; includes the farms */
+	FarmOwners = "farms.owners",
+}
+
+/** Fields of farms that list responses may be limited to, besides the ID */
+export enum FarmField {
+	/** Name of the farm */
+	Name = "name",
+
+	/** City */
+	City = "city",
+
+	/** State */
+	State = "state",
+
+	/** Total area */
+	TotalArea = "totalArea",
+
+	/** Arable area */
+	ArableArea = "arableArea",
+
+	/** Vegetation area */
+	VegetationArea = "vegetationArea",
+
+	/** Latitude of the headquarters */
+	Latitude = "latitude",
+
+	/** Longitude of the headquarters */
+	Longitude = "longitude",
+
+	/** Boundary */
+	Boundary = "boundary",
+
+	/** Geodesic area enclosed by the boundary */
+	BoundaryArea = "boundaryArea",
+
+	/** Main owner */
+	ProducerId = "producerId",
+
+	/** Creation timestamp */
+	CreatedAt = "createdAt",
+
+	/** Last update timestamp */
+	UpdatedAt = "updatedAt",
+
+	/** Version, for `If-Match` */
+	Version = "version",
+}
+
+/** Relations that farm lists load only when asked to include them */
+export enum FarmInclude {
+	/** Crops of each farm, per harvest */
+	Crops = "crops",
+
+	/** Owners of each farm, with their shares */
+	Owners = "owners",
+}
+
 /** Sortable fields for cities */
 export enum CitySortField {
 	/** Sort by city name */
@@ -54,3 +183,12 @@ export enum CitySortField {
 	/** Sort by IBGE code */
 	IbgeCode = "ibgeCode",
 }
+
+/** Sortable fields for harvests */
+export enum HarvestSortField {
+	/** Sort by harvest year/season identifier */
+	Year = "year",
+
+	/** Sort by creation date */
+	CreatedAt = "createdAt",
+}
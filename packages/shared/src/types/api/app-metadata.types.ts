@@ -29,6 +29,9 @@ export interface ApiAppMetadata {
 		/** Farms endpoint */
 		farms: string;
 
+		/** Harvests endpoint */
+		harvests: string;
+
 		/** Authentication endpoints */
 		auth: {
 			/** Login endpoint */
@@ -45,6 +45,32 @@ export interface PaginatedResponse<T> extends PaginationMeta {
 	data: Array<T>;
 }
 
+/**
+ * Base cursor pagination parameters
+ *
+ * An empty cursor requests the first page; the `nextCursor` of a page
+ * requests the page after it.
+ */
+export interface CursorPaginationParams {
+	/** Opaque cursor returned with the previous page, empty for the first page */
+	cursor?: string;
+
+	/** Number of items per page */
+	limit?: number;
+}
+
+/** Cursor paginated API response */
+export interface CursorPaginatedResponse<T> {
+	/** Array of data items for current page */
+	data: Array<T>;
+
+	/** Number of items per page */
+	limit: number;
+
+	/** Cursor of the next page, or `null` on the last page */
+	nextCursor: string | null;
+}
+
 export interface BaseListFilterOptions<T extends string>
 	extends PaginationParams,
 		SortParams<T>,
@@ -0,0 +1,88 @@
+import type { AuditAction, AuditEntityType } from "../enums";
+import type { PaginatedResponse, PaginationParams } from "./api";
+
+/**
+ * Value of a field before and after a change.
+ *
+ * `before` is `null` for created records and `after` is `null` for deleted ones.
+ * Dates are serialized as ISO 8601 strings.
+ */
+export interface AuditFieldChange {
+	/** Value before the change */
+	before: unknown;
+
+	/** Value after the change */
+	after: unknown;
+}
+
+/**
+ * Audit log entry recording a write to an audited entity.
+ *
+ * @example
+ * ```typescript
+ * const entry: AuditLogEntry = {
+ *   id: "0b6c3f0e-5d1a-4c8e-9f2b-7a4d6e8c1b3a",
+ *   entityType: AuditEntityType.Farm,
+ *   entityId: "660e8400-e29b-41d4-a716-446655440001",
+ *   action: AuditAction.Update,
+ *   userId: "3f1e2d4c-5b6a-4978-8e9d-0c1b2a3f4e5d",
+ *   userEmail: "admin@example.com",
+ *   correlationId: "c7a1d9e2-4b3f-4e6a-9d8c-2f1e0b9a8c7d",
+ *   changes: { totalArea: { before: 100, after: 120 } },
+ *   createdAt: "2025-11-24T10:00:00.000Z"
+ * };
+ * ```
+ */
+export interface AuditLogEntry {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/** Type of the changed entity */
+	entityType: AuditEntityType;
+
+	/** ID of the changed record */
+	entityId: string;
+
+	/** Operation performed on the record */
+	action: AuditAction;
+
+	/** ID of the user who performed the change, `null` for system changes (e.g. seeding) */
+	userId: string | null;
+
+	/** Email of the user who performed the change, `null` for system changes */
+	userEmail: string | null;
+
+	/** Correlation ID of the request that performed the change */
+	correlationId: string | null;
+
+	/** Changed fields with their values before and after the change */
+	changes: Record<string, AuditFieldChange>;
+
+	/** Timestamp of the change */
+	createdAt: string;
+}
+
+/**
+ * Filter options for audit log queries.
+ *
+ * Entries are always sorted by most recent first.
+ */
+export interface AuditLogFilterOptions extends PaginationParams {
+	/** Only entries of this entity type */
+	entityType?: AuditEntityType;
+
+	/** Only entries of this record */
+	entityId?: string;
+
+	/** Only entries performed by this user */
+	userId?: string;
+
+	/** Only entries recorded at or after this date (ISO 8601) */
+	from?: string;
+
+	/** Only entries recorded at or before this date (ISO 8601) */
+	to?: string;
+}
+
+/** Paginated response for audit log queries */
+export type AuditLogListResponse = PaginatedResponse<AuditLogEntry>;
@@ -1,3 +1,5 @@
+import type { UserRole } from "../enums";
+
 /**
  * Authentication response data transfer object.
  *
@@ -6,6 +8,9 @@
 export interface AuthResponseDto {
 	/** JWT access token for API authentication */
 	accessToken: string;
+
+	/** Role of the authenticated user */
+	role: UserRole;
 }
 
 /**
@@ -0,0 +1,107 @@
+import type { Biome, BrazilianState } from "../enums";
+
+/**
+ * Legal reserve (Reserva Legal) compliance of a farm.
+ *
+ * The Forest Code (Law 12.651/2012, art. 12) requires a minimum share of the
+ * property to be kept as native vegetation, depending on its biome and on
+ * whether it is within the Legal Amazon.
+ *
+ * @example
+ * ```typescript
+ * const compliance: LegalReserveCompliance = {
+ *   biome: Biome.Amazon,
+ *   legalAmazon: true,
+ *   requiredPercentage: 80,
+ *   requiredArea: 800,
+ *   vegetationArea: 500,
+ *   vegetationPercentage: 50,
+ *   deficit: 300,
+ *   isCompliant: false
+ * };
+ * ```
+ */
+export interface LegalReserveCompliance {
+	/** Biome of the farm's municipality */
+	biome: Biome;
+
+	/** Whether the farm is within the Legal Amazon */
+	legalAmazon: boolean;
+
+	/** Minimum share of the total area to keep as native vegetation, in percent */
+	requiredPercentage: number;
+
+	/** Minimum vegetation area in hectares */
+	requiredArea: number;
+
+	/** Current vegetation area in hectares */
+	vegetationArea: number;
+
+	/** Current share of the total area kept as vegetation, in percent */
+	vegetationPercentage: number;
+
+	/**
+	 * Vegetation area missing to reach the required area, in hectares.
+	 *
+	 * @minimum `0`
+	 */
+	deficit: number;
+
+	/** Whether the vegetation area meets the required area */
+	isCompliant: boolean;
+}
+
+/**
+ * Legal reserve compliance of a specific farm.
+ *
+ * Returned by `GET /api/farms/:id/compliance`.
+ */
+export interface FarmCompliance extends LegalReserveCompliance {
+	/** Farm unique identifier */
+	farmId: string;
+}
+
+/**
+ * Farm whose vegetation area is below the legal reserve requirement.
+ *
+ * Used in the dashboard compliance section.
+ */
+export interface NonCompliantFarm {
+	/** Farm unique identifier */
+	id: string;
+
+	/** Farm name */
+	name: string;
+
+	/** Brazilian state code */
+	state: BrazilianState;
+
+	/** City name */
+	city: string;
+
+	/** Producer name */
+	producerName: string;
+
+	/** Biome of the farm's municipality */
+	biome: Biome;
+
+	/** Minimum share of the total area to keep as native vegetation, in percent */
+	requiredPercentage: number;
+
+	/** Current share of the total area kept as vegetation, in percent */
+	vegetationPercentage: number;
+
+	/** Vegetation area missing to reach the required area, in hectares */
+	deficit: number;
+}
+
+/**
+ * Legal reserve compliance overview for the dashboard.
+ */
+export interface DashboardCompliance {
+	/** Non-compliant farms, ordered by deficit descending */
+	nonCompliantFarms: Array<NonCompliantFarm>;
+
+	/** Sum of the deficits of all non-compliant farms, in hectares */
+	totalDeficitHectares: number;
+}
@@ -0,0 +1,112 @@
+import type { CropCategory } from "../enums";
+
+/**
+ * Code identifying a crop in the crop catalog.
+ *
+ * Crops are managed through the crops endpoints, so codes are not known at
+ * compile time (e.g., "soy", "corn", "eucalyptus").
+ */
+export type CropCode = string;
+
+/**
+ * Crop entity type representing an entry of the crop catalog.
+ *
+ * @example
+ * ```typescript
+ * const crop: Crop = {
+ *   id: "2f6b1c7e-3d4a-4b8e-9f1a-5c6d7e8f9a0b",
+ *   code: "soy",
+ *   labelPtBr: "Soja",
+ *   labelEn: "Soy",
+ *   color: "#3B82F6",
+ *   category: CropCategory.Oilseed,
+ *   createdAt: "2024-01-15T10:30:00.000Z",
+ *   updatedAt: "2024-01-15T10:30:00.000Z"
+ * };
+ * ```
+ */
+export interface Crop {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/**
+	 * Unique crop code referenced by farm crops.
+	 *
+	 * Immutable once created.
+	 */
+	code: CropCode;
+
+	/** Crop name in Brazilian Portuguese */
+	labelPtBr: string;
+
+	/** Crop name in English */
+	labelEn: string;
+
+	/** Hex color used to represent the crop in charts and badges */
+	color: string;
+
+	/** Crop category */
+	category: CropCategory;
+
+	/** Timestamp when the crop was created */
+	createdAt: string;
+
+	/** Timestamp when the crop was last updated */
+	updatedAt: string;
+}
+
+/**
+ * Request payload for adding a crop to the catalog.
+ *
+ * @example
+ * ```typescript
+ * const request: CreateCropRequest = {
+ *   code: "sorghum",
+ *   labelPtBr: "Sorgo",
+ *   labelEn: "Sorghum",
+ *   color: "#B45309",
+ *   category: CropCategory.Grain
+ * };
+ * ```
+ */
+export interface CreateCropRequest {
+	/**
+	 * Unique crop code.
+	 *
+	 * Lowercase letters, digits and underscores.
+	 *
+	 * @maxLength `50`
+	 */
+	code: CropCode;
+
+	/**
+	 * Crop name in Brazilian Portuguese.
+	 *
+	 * @maxLength `100`
+	 */
+	labelPtBr: string;
+
+	/**
+	 * Crop name in English.
+	 *
+	 * @maxLength `100`
+	 */
+	labelEn: string;
+
+	/**
+	 * Hex color in `#RRGGBB` format.
+	 *
+	 * @example "#B45309"
+	 */
+	color: string;
+
+	/** Crop category */
+	category: CropCategory;
+}
+
+/**
+ * Request payload for updating a crop of the catalog.
+ *
+ * All fields are optional. The code cannot be changed.
+ */
+export type UpdateCropRequest = Partial<Omit<CreateCropRequest, "code">>;
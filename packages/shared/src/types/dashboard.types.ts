@@ -1,4 +1,6 @@
-import type { BrazilianState, CropType } from "../enums";
+import type { BrazilianState } from "../enums";
+import type { DashboardCompliance } from "./compliance.types";
+import type { CropCode } from "./crop.types";
 
 /**
  * Farm distribution by Brazilian state.
@@ -31,17 +33,42 @@ export interface StateDistribution {
 }
 
 /**
- * Crop distribution with count and percentage.
+ * Producer distribution by Brazilian state.
  *
- * Represents how many farms cultivate each crop type, including
- * the percentage relative to total farms with crops.
+ * Counts the producers owning or co-owning farms in a state, with the area
+ * they hold there weighted by their ownership shares, so a 10% co-owner of a
+ * 100 ha farm holds 10 ha.
+ *
+ * @example
+ * ```typescript
+ * const distribution: ProducerStateDistribution = {
+ *   state: "MT",
+ *   count: 12,
+ *   totalArea: 8450.5
+ * };
+ * ```
+ */
+export interface ProducerStateDistribution extends StateDistribution {
+	/**
+	 * Area in hectares held by the producers in this state, weighted by their ownership shares.
+	 *
+	 * @minimum `0`
+	 */
+	totalArea: number;
+}
+
+/**
+ * Crop distribution with farm count and planted area.
+ *
+ * Represents how many farms cultivate each crop type and how many
+ * hectares have been planted with it across all harvests.
  *
  * @example
  * ```typescript
  * const distribution: CropDistribution = {
- *   crop: "soy",
+ *   cropType: "soy",
  *   count: 85,
- *   percentage: 56.67
+ *   plantedArea: 4250.5
  * };
  * ```
  */
@@ -49,9 +76,9 @@ export interface CropDistribution {
 	/**
 	 * Crop type identifier.
 	 *
-	 * @see {@link CropType}
+	 * @see {@link CropCode}
 	 */
-	cropType: CropType;
+	cropType: CropCode;
 
 	/**
 	 * Number of farms cultivating this crop.
@@ -59,6 +86,14 @@ export interface CropDistribution {
 	 * @minimum `0`
 	 */
 	count: number;
+
+	/**
+	 * Total planted area in hectares, summed across all harvests.
+	 * Crops without a known planted area do not contribute.
+	 *
+	 * @minimum `0`
+	 */
+	plantedArea: number;
 }
 
 /**
@@ -181,6 +216,59 @@ export interface CityDistribution {
 	count: number;
 }
 
+/**
+ * Average productivity of a crop.
+ *
+ * Only crops with a known planted area and at least one production record
+ * are considered. The average yield is weighted by planted area.
+ *
+ * @example
+ * ```typescript
+ * const productivity: CropProductivity = {
+ *   cropType: "soy",
+ *   totalProduction: 5400,
+ *   harvestedArea: 1500,
+ *   averageYield: 3.6
+ * };
+ * ```
+ */
+export interface CropProductivity {
+	/** Crop type identifier */
+	cropType: CropCode;
+
+	/** Total production in metric tons */
+	totalProduction: number;
+
+	/** Planted area that produced the total production, in hectares */
+	harvestedArea: number;
+
+	/** Average yield in tons per hectare */
+	averageYield: number;
+}
+
+/**
+ * Average productivity of a crop within a Brazilian state.
+ *
+ * Yields are only comparable for the same crop, so states are ranked per crop.
+ */
+export interface StateProductivity extends CropProductivity {
+	/** Brazilian state code (UF) */
+	state: BrazilianState;
+}
+
+/**
+ * Productivity rankings for the dashboard.
+ *
+ * Built from production records, ordered by average yield descending.
+ */
+export interface DashboardProductivity {
+	/** Average yield per crop */
+	byCrop: Array<CropProductivity>;
+
+	/** Average yield per state and crop */
+	byState: Array<StateProductivity>;
+}
+
 /**
  * Total metrics for the dashboard.
  *
@@ -237,14 +325,14 @@ export interface DashboardDistributions {
 	/** Farm count by state */
 	byState: Array<StateDistribution>;
 
-	/** Farm count by crop type */
+	/** Farm count and planted area by crop type */
 	byCrop: Array<CropDistribution>;
 
 	/** Top 10 cities by farm count */
 	byCityTop10: Array<CityDistribution>;
 
-	/** Producer count by state */
-	producersByState: Array<StateDistribution>;
+	/** Producer count and share-weighted area by state */
+	producersByState: Array<ProducerStateDistribution>;
 }
 
 /**
@@ -257,7 +345,7 @@ export interface DashboardTopRecords {
 	largestFarms: Array<FarmSummary>;
 
 	/** Top 5 producers by farm count */
-	mostProductiveProducers: Array<ProducerSummary>;
+	producersWithMostFarms: Array<ProducerSummary>;
 }
 
 /**
@@ -273,7 +361,9 @@ export interface DashboardTopRecords {
  *   averages: { areaPerFarm: 101.54, ... },
  *   distributions: { byState: [...], ... },
  *   topRecords: { largestFarms: [...], ... },
+ *   productivity: { byCrop: [...], byState: [...] },
  *   landUse: { arableArea: 10500.5, ... },
+ *   compliance: { nonCompliantFarms: [...], totalDeficitHectares: 320.5 },
  *   timestamp: "2024-01-15T10:30:00.000Z"
  * };
  * ```
@@ -291,9 +381,15 @@ export interface DashboardStats {
 	/** Top performing records */
 	topRecords: DashboardTopRecords;
 
+	/** Productivity rankings by crop and state */
+	productivity: DashboardProductivity;
+
 	/** Land use statistics */
 	landUse: LandUseStats;
 
+	/** Legal reserve compliance overview */
+	compliance: DashboardCompliance;
+
 	/** Timestamp when stats were generated */
 	timestamp: string;
 }
@@ -1,13 +1,189 @@
 import type { BaseListFilterOptions, PaginatedResponse } from "./api";
+import type { CropCode } from "./crop.types";
+import type { FarmBoundary, GeoJsonFeatureCollection, GeoJsonPoint } from "./geo.types";
+
+import {
+	BrazilianState,
+	CropsMatch,
+	ExportFormat,
+	FarmField,
+	FarmInclude,
+	FarmSortField,
+} from "../enums";
 
-import { BrazilianState, CropType, FarmSortField } from "../enums";
+/**
+ * Crop planted on a farm during a harvest, as sent by clients.
+ *
+ * @example
+ * ```typescript
+ * const crop: PlantedCropInput = { cropType: "soy", plantedArea: 45.5 };
+ * ```
+ */
+export interface PlantedCropInput {
+	/**
+	 * Code of the crop planted, from the crop catalog.
+	 *
+	 * @see {@link CropCode}
+	 */
+	cropType: CropCode;
+
+	/**
+	 * Area planted with the crop in hectares. Omit when unknown.
+	 *
+	 * @minimum `0` (exclusive)
+	 */
+	plantedArea?: number;
+
+	/**
+	 * UUID of the farm plot the crop is planted on. Omit when planted on the whole farm.
+	 *
+	 * @format uuid
+	 */
+	plotId?: string;
+}
+
+/**
+ * Crop planted on a farm during a harvest, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const crop: PlantedCrop = { cropType: "soy", plantedArea: 45.5 };
+ * ```
+ */
+export interface PlantedCrop {
+	/**
+	 * Code of the crop planted, from the crop catalog.
+	 *
+	 * @see {@link CropCode}
+	 */
+	cropType: CropCode;
+
+	/** Area planted with the crop in hectares, `null` when unknown */
+	plantedArea: number | null;
+
+	/** UUID of the farm plot the crop is planted on, `null` when planted on the whole farm */
+	plotId: string | null;
+}
+
+/**
+ * Crops planted on a farm during a specific harvest, as sent by clients.
+ *
+ * The sum of planted areas in a harvest cannot exceed the farm's arable area.
+ *
+ * @example
+ * ```typescript
+ * const entry: HarvestCropsInput = {
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   crops: [
+ *     { cropType: "soy", plantedArea: 45.5 },
+ *     { cropType: "corn" }
+ *   ]
+ * };
+ * ```
+ */
+export interface HarvestCropsInput {
+	/**
+	 * UUID of an existing harvest.
+	 *
+	 * @format uuid
+	 */
+	harvestId: string;
+
+	/**
+	 * Crops planted during the harvest.
+	 *
+	 * @see {@link PlantedCropInput}
+	 */
+	crops: Array<PlantedCropInput>;
+}
+
+/**
+ * Crops planted on a farm during a specific harvest, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const entry: HarvestCrops = {
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   harvestYear: "2024/2025",
+ *   crops: [
+ *     { cropType: "soy", plantedArea: 45.5 },
+ *     { cropType: "corn", plantedArea: null }
+ *   ]
+ * };
+ * ```
+ */
+export interface HarvestCrops {
+	/**
+	 * UUID of the harvest.
+	 *
+	 * @format uuid
+	 */
+	harvestId: string;
+
+	/** Year or season identifier of the harvest (e.g., "2024/2025") */
+	harvestYear: string;
+
+	/**
+	 * Crops planted during the harvest.
+	 *
+	 * @see {@link PlantedCrop}
+	 */
+	crops: Array<PlantedCrop>;
+}
+
+/**
+ * Ownership share of a producer in a farm, as sent by clients.
+ *
+ * @example
+ * ```typescript
+ * const owner: FarmOwnerInput = { producerId: "producer-uuid", percentage: 50 };
+ * ```
+ */
+export interface FarmOwnerInput {
+	/**
+	 * UUID of the co-owner (producer).
+	 *
+	 * @format uuid
+	 */
+	producerId: string;
+
+	/**
+	 * Share of the farm held by the producer, as a percentage.
+	 *
+	 * The shares of all owners of a farm must add up to 100.
+	 *
+	 * @minimum `0` (exclusive)
+	 * @maximum `100`
+	 */
+	percentage: number;
+}
+
+/**
+ * Ownership share of a producer in a farm, as returned by the API.
+ *
+ * @example
+ * ```typescript
+ * const owner: FarmOwner = { producerId: "producer-uuid", producerName: "João da Silva", percentage: 50 };
+ * ```
+ */
+export interface FarmOwner {
+	/** UUID of the co-owner (producer) */
+	producerId: string;
+
+	/** Name of the co-owner */
+	producerName: string;
+
+	/** Share of the farm held by the producer, as a percentage */
+	percentage: number;
+}
 
 /**
  * Farm entity type representing agricultural properties.
  *
- * A farm is an agricultural property owned by a producer. It contains information
- * about location, area distribution, and cultivated crops. Area validation ensures
- * that arable + vegetation areas do not exceed total area.
+ * A farm is an agricultural property owned by a producer, possibly shared with
+ * co-owners. It contains information about location, area distribution, and
+ * cultivated crops. Area validation ensures that arable + vegetation areas do
+ * not exceed total area.
  *
  * @example
  * ```typescript
@@ -19,10 +195,18 @@ import { BrazilianState, CropType, FarmSortField } from "../enums";
  *   totalArea: 100.5,
  *   arableArea: 70.0,
  *   vegetationArea: 25.0,
- *   crops: ["soy", "corn"],
+ *   cropsByHarvest: [
+ *     {
+ *       harvestId: "harvest-uuid",
+ *       harvestYear: "2024/2025",
+ *       crops: [{ cropType: "soy", plantedArea: 60 }]
+ *     }
+ *   ],
  *   producerId: "producer-uuid",
+ *   owners: [{ producerId: "producer-uuid", producerName: "João da Silva", percentage: 100 }],
  *   createdAt: "2024-01-15T10:30:00.000Z",
- *   updatedAt: "2024-01-15T10:30:00.000Z"
+ *   updatedAt: "2024-01-15T10:30:00.000Z",
+ *   version: 1
  * };
  * ```
  */
@@ -81,24 +265,70 @@ export interface Farm {
 	vegetationArea: number;
 
 	/**
-	 * Array of crop types cultivated on this farm.
+	 * Latitude of the farm headquarters in decimal degrees (WGS 84), `null` when unknown.
 	 *
-	 * @see {@link CropType}
+	 * @minimum `-90`
+	 * @maximum `90`
 	 */
-	crops: Array<CropType>;
+	latitude: number | null;
+
+	/**
+	 * Longitude of the farm headquarters in decimal degrees (WGS 84), `null` when unknown.
+	 *
+	 * @minimum `-180`
+	 * @maximum `180`
+	 */
+	longitude: number | null;
+
+	/**
+	 * Boundary of the farm, `null` when unknown.
+	 *
+	 * @see {@link FarmBoundary}
+	 */
+	boundary: FarmBoundary | null;
+
+	/** Geodesic area enclosed by the boundary in hectares, `null` without a boundary */
+	boundaryArea: number | null;
+
+	/**
+	 * Crops cultivated on this farm, grouped per harvest.
+	 *
+	 * Left out of lists unless included with {@link FarmInclude.Crops}.
+	 *
+	 * @see {@link HarvestCrops}
+	 */
+	cropsByHarvest?: Array<HarvestCrops>;
 
 	/**
 	 * UUID of the producer who owns this farm.
 	 *
-	 * References an existing producer in the database.
+	 * References an existing producer in the database. With co-owners, this is
+	 * the main owner, who is always one of the {@link owners}.
 	 */
 	producerId: string;
 
+	/**
+	 * Owners of the farm with their shares, adding up to 100%.
+	 *
+	 * Left out of lists unless included with {@link FarmInclude.Owners}.
+	 *
+	 * @see {@link FarmOwner}
+	 */
+	owners?: Array<FarmOwner>;
+
 	/** Timestamp when the farm was created */
 	createdAt: string;
 
 	/** Timestamp when the farm was last updated */
 	updatedAt: string;
+
+	/**
+	 * Version of the farm, incremented on every change.
+	 *
+	 * Sent back in the `If-Match` header of updates and deletions to detect
+	 * concurrent changes.
+	 */
+	version: number;
 }
 
 /**
@@ -113,7 +343,7 @@ export interface Farm {
  *   totalArea: 100.5,
  *   arableArea: 70.0,
  *   vegetationArea: 25.0,
- *   crops: ["soy", "corn"],
+ *   cropsByHarvest: [{ harvestId: "harvest-uuid", crops: ["soy", "corn"] }],
  *   producerId: "550e8400-e29b-41d4-a716-446655440000"
  * };
  * ```
@@ -172,12 +402,40 @@ export interface CreateFarmRequest {
 	vegetationArea: number;
 
 	/**
-	 * Array of crop types cultivated on this farm.
+	 * Latitude of the farm headquarters in decimal degrees. Requires `longitude`.
+	 *
+	 * @minimum `-90`
+	 * @maximum `90`
+	 * @example -22.9056
+	 */
+	latitude?: number;
+
+	/**
+	 * Longitude of the farm headquarters in decimal degrees. Requires `latitude`.
 	 *
-	 * @example ["soy", "corn"]
-	 * @see {@link CropType}
+	 * @minimum `-180`
+	 * @maximum `180`
+	 * @example -47.0608
 	 */
-	crops: Array<CropType>;
+	longitude?: number;
+
+	/**
+	 * Boundary of the farm.
+	 *
+	 * Its geodesic area is compared to `totalArea`, within a tolerance configured in the API.
+	 *
+	 * @see {@link FarmBoundary}
+	 */
+	boundary?: FarmBoundary;
+
+	/**
+	 * Crops cultivated on this farm, grouped per harvest.
+	 *
+	 * Each harvest may appear only once.
+	 *
+	 * @see {@link HarvestCropsInput}
+	 */
+	cropsByHarvest?: Array<HarvestCropsInput>;
 
 	/**
 	 * UUID of the producer who owns this farm.
@@ -186,6 +444,16 @@ export interface CreateFarmRequest {
 	 * @example "550e8400-e29b-41d4-a716-446655440000"
 	 */
 	producerId: string;
+
+	/**
+	 * Owners of the farm with their shares, for farms held by several producers.
+	 *
+	 * Must include `producerId` and add up to 100%. Omit when `producerId` owns
+	 * the whole farm.
+	 *
+	 * @see {@link FarmOwnerInput}
+	 */
+	owners?: Array<FarmOwnerInput>;
 }
 
 /**
@@ -242,8 +510,146 @@ export interface UpdateFarmRequest {
 	 */
 	vegetationArea?: number;
 
-	/** Array of crop types cultivated on this farm */
-	crops?: Array<CropType>;
+	/**
+	 * Latitude of the farm headquarters in decimal degrees. Requires `longitude`;
+	 * send both as `null` to clear the coordinates.
+	 *
+	 * @minimum `-90`
+	 * @maximum `90`
+	 */
+	latitude?: number | null;
+
+	/**
+	 * Longitude of the farm headquarters in decimal degrees. Requires `latitude`;
+	 * send both as `null` to clear the coordinates.
+	 *
+	 * @minimum `-180`
+	 * @maximum `180`
+	 */
+	longitude?: number | null;
+
+	/** Boundary of the farm, `null` to clear it */
+	boundary?: FarmBoundary | null;
+
+	/**
+	 * Crops cultivated on this farm, grouped per harvest.
+	 *
+	 * Only the harvests listed are replaced; harvests not listed keep their crops.
+	 */
+	cropsByHarvest?: Array<HarvestCropsInput>;
+
+	/**
+	 * Owners of the farm with their shares, replacing the current ones.
+	 *
+	 * Must include the farm's main owner and add up to 100%.
+	 *
+	 * @see {@link FarmOwnerInput}
+	 */
+	owners?: Array<FarmOwnerInput>;
+}
+
+/**
+ * Request payload for transferring a farm to another producer.
+ *
+ * The main owner's share passes to the new producer, added to their own share
+ * when they already co-own the farm.
+ *
+ * @example
+ * ```typescript
+ * const request: TransferFarmRequest = {
+ *   newProducerId: "660e9500-f30c-52e5-b827-557766551111",
+ *   effectiveDate: "2025-07-01",
+ *   reason: "Sale of the property"
+ * };
+ * ```
+ */
+export interface TransferFarmRequest {
+	/** UUID of the producer the farm is transferred to */
+	newProducerId: string;
+
+	/**
+	 * Date the transfer takes effect (YYYY-MM-DD).
+	 *
+	 * Cannot precede the previous transfer of the farm.
+	 */
+	effectiveDate: string;
+
+	/**
+	 * Reason of the transfer (e.g., sale, inheritance).
+	 *
+	 * @maxLength `500`
+	 */
+	reason: string;
+}
+
+/**
+ * Entry of a farm's ownership history, recorded by each transfer.
+ *
+ * Producer references and names are `null` when the producer has since been deleted.
+ */
+export interface FarmOwnershipHistoryEntry {
+	/** Unique identifier of the history entry */
+	id: string;
+
+	/** UUID of the transferred farm */
+	farmId: string;
+
+	/** Name of the transferred farm */
+	farmName: string;
+
+	/** UUID of the producer who owned the farm before the transfer */
+	previousProducerId: string | null;
+
+	/** Name of the producer who owned the farm before the transfer */
+	previousProducerName: string | null;
+
+	/** UUID of the producer who owns the farm after the transfer */
+	newProducerId: string | null;
+
+	/** Name of the producer who owns the farm after the transfer */
+	newProducerName: string | null;
+
+	/** Date the transfer takes effect (YYYY-MM-DD) */
+	effectiveDate: string;
+
+	/** Reason of the transfer */
+	reason: string;
+
+	/** Timestamp when the transfer was registered */
+	createdAt: string;
+}
+
+/**
+ * Soft-deleted farm listed in the trash.
+ */
+export interface DeletedFarm {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/** Farm name */
+	name: string;
+
+	/** City where the farm is located */
+	city: string;
+
+	/** Brazilian state code */
+	state: BrazilianState;
+
+	/** UUID of the farm's main owner */
+	producerId: string;
+
+	/** Name of the farm's main owner */
+	producerName: string;
+
+	/**
+	 * Whether the farm's main owner is in the trash as well.
+	 *
+	 * Such a farm is restored together with its producer.
+	 */
+	producerDeleted: boolean;
+
+	/** Timestamp when the farm was moved to the trash */
+	deletedAt: string;
 }
 
 /**
@@ -262,6 +668,24 @@ export interface UpdateFarmRequest {
  */
 export type FarmsListResponse = PaginatedResponse<Farm>;
 
+/**
+ * Properties of a farm served as a GeoJSON feature.
+ *
+ * Geometry-related fields are left out, since they are the feature geometry.
+ */
+export type FarmFeatureProperties = Omit<Farm, "latitude" | "longitude" | "boundary">;
+
+/**
+ * GeoJSON FeatureCollection of farms, served for `Accept: application/geo+json`.
+ *
+ * Each feature's geometry is the farm boundary, or a point at its coordinates
+ * when it has no boundary, or `null` when it has neither.
+ */
+export type FarmsFeatureCollection = GeoJsonFeatureCollection<
+	FarmBoundary | GeoJsonPoint,
+	FarmFeatureProperties
+>;
+
 export interface FarmFilterOptions extends BaseListFilterOptions<FarmSortField> {
 	/** Filter by Brazilian state */
 	state?: BrazilianState;
@@ -273,5 +697,45 @@ export interface FarmFilterOptions extends BaseListFilterOptions<FarmSortField>
 	producerId?: string;
 
 	/** Filter by crop types */
-	crops?: Array<CropType>;
+	crops?: Array<CropCode>;
+
+	/** How {@link crops} are matched. Defaults to {@link CropsMatch.Any} */
+	cropsMatch?: CropsMatch;
+
+	/** Filter by any of these Brazilian states */
+	states?: Array<BrazilianState>;
+
+	/** Minimum total area in hectares (inclusive) */
+	minTotalArea?: number;
+
+	/** Maximum total area in hectares (inclusive) */
+	maxTotalArea?: number;
+
+	/** Minimum share of the total area that is arable, in percent (inclusive) */
+	minArablePercentage?: number;
+
+	/** Maximum share of the total area that is arable, in percent (inclusive) */
+	maxArablePercentage?: number;
+
+	/** Only farms created at or after this date (ISO 8601) */
+	createdFrom?: string;
+
+	/** Only farms created at or before this date (ISO 8601) */
+	createdTo?: string;
+
+	/** Fields to return besides the ID, every field when empty; relations are set by {@link include} */
+	fields?: Array<FarmField>;
+
+	/** Relations to load along with the farms, none when empty */
+	include?: Array<FarmInclude>;
+}
+
+/**
+ * Query parameters of a farm export: the list filters, plus the file format.
+ *
+ * Every farm matching the filters is exported, regardless of pagination.
+ */
+export interface FarmExportOptions extends FarmFilterOptions {
+	/** File format of the export */
+	format: ExportFormat;
 }
@@ -0,0 +1,89 @@
+/**
+ * GeoJSON position as `[longitude, latitude]` in decimal degrees (WGS 84).
+ *
+ * An optional third element holds the altitude in meters, which is ignored by
+ * area calculations.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/html/rfc7946#section-3.1.1 RFC 7946 §3.1.1}
+ */
+export type GeoJsonPosition = [longitude: number, latitude: number, altitude?: number];
+
+/**
+ * Closed ring of positions, where the first and last positions are equal.
+ *
+ * The first ring of a polygon is its exterior; any further rings are holes.
+ */
+export type GeoJsonLinearRing = Array<GeoJsonPosition>;
+
+/**
+ * GeoJSON Point geometry.
+ *
+ * @example
+ * ```typescript
+ * const point: GeoJsonPoint = { type: "Point", coordinates: [-47.0608, -22.9056] };
+ * ```
+ */
+export interface GeoJsonPoint {
+	type: "Point";
+	coordinates: GeoJsonPosition;
+}
+
+/**
+ * GeoJSON Polygon geometry.
+ *
+ * @example
+ * ```typescript
+ * const polygon: GeoJsonPolygon = {
+ *   type: "Polygon",
+ *   coordinates: [[[-47.07, -22.91], [-47.06, -22.91], [-47.06, -22.90], [-47.07, -22.91]]]
+ * };
+ * ```
+ */
+export interface GeoJsonPolygon {
+	type: "Polygon";
+	coordinates: Array<GeoJsonLinearRing>;
+}
+
+/** GeoJSON MultiPolygon geometry, for properties made of disjoint parcels */
+export interface GeoJsonMultiPolygon {
+	type: "MultiPolygon";
+	coordinates: Array<Array<GeoJsonLinearRing>>;
+}
+
+/**
+ * Boundary of a farm, as a GeoJSON Polygon or MultiPolygon.
+ *
+ * @see {@link GeoJsonPolygon}
+ * @see {@link GeoJsonMultiPolygon}
+ */
+export type FarmBoundary = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+/**
+ * GeoJSON Feature wrapping a geometry and its properties.
+ *
+ * @template G Geometry type of the feature
+ * @template P Properties of the feature
+ */
+export interface GeoJsonFeature<G, P> {
+	type: "Feature";
+
+	/** Identifier of the feature */
+	id?: string;
+
+	/** Geometry of the feature, `null` when unlocated */
+	geometry: G | null;
+
+	/** Properties of the feature */
+	properties: P;
+}
+
+/**
+ * GeoJSON FeatureCollection, served as `application/geo+json`.
+ *
+ * @template G Geometry type of the features
+ * @template P Properties of the features
+ */
+export interface GeoJsonFeatureCollection<G, P> {
+	type: "FeatureCollection";
+	features: Array<GeoJsonFeature<G, P>>;
+}
@@ -0,0 +1,90 @@
+import type { HarvestSortField } from "../enums";
+import type { BaseListFilterOptions, PaginatedResponse } from "./api";
+
+/**
+ * Harvest entity type representing an agricultural season/cycle.
+ *
+ * Harvests are managed explicitly through the harvests endpoints and
+ * referenced by farms when recording which crops were planted in a season.
+ *
+ * @example
+ * ```typescript
+ * const harvest: Harvest = {
+ *   id: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   year: "2024/2025",
+ *   description: "Safra 2024/2025",
+ *   createdAt: "2024-01-15T10:30:00.000Z",
+ *   updatedAt: "2024-01-15T10:30:00.000Z"
+ * };
+ * ```
+ */
+export interface Harvest {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/**
+	 * Harvest year or season identifier.
+	 *
+	 * Unique across all harvests (e.g., "2024" or "2024/2025").
+	 */
+	year: string;
+
+	/** Optional description of the harvest season */
+	description?: string;
+
+	/** Timestamp when the harvest was created */
+	createdAt: string;
+
+	/** Timestamp when the harvest was last updated */
+	updatedAt: string;
+}
+
+/**
+ * Request payload for creating a new harvest.
+ *
+ * @example
+ * ```typescript
+ * const request: CreateHarvestRequest = {
+ *   year: "2025/2026",
+ *   description: "Safra 2025/2026"
+ * };
+ * ```
+ */
+export interface CreateHarvestRequest {
+	/**
+	 * Harvest year or season identifier.
+	 *
+	 * @maxLength `20`
+	 * @example "2025/2026"
+	 */
+	year: string;
+
+	/**
+	 * Optional description of the harvest season.
+	 *
+	 * @example "Safra 2025/2026"
+	 */
+	description?: string;
+}
+
+/**
+ * Request payload for updating an existing harvest.
+ *
+ * All fields are optional - only provided fields will be updated.
+ */
+export interface UpdateHarvestRequest {
+	/**
+	 * Harvest year or season identifier.
+	 *
+	 * @maxLength `20`
+	 */
+	year?: string;
+
+	/** Description of the harvest season */
+	description?: string;
+}
+
+/** Paginated response for harvest list queries */
+export type HarvestsListResponse = PaginatedResponse<Harvest>;
+
+export type HarvestFilterOptions = BaseListFilterOptions<HarvestSortField>;
@@ -0,0 +1,96 @@
+import type { FARM_IMPORT_FIELDS, PRODUCER_IMPORT_FIELDS } from "../constants";
+
+/** Producer field that can be filled from a spreadsheet column */
+export type ProducerImportField = (typeof PRODUCER_IMPORT_FIELDS)[number];
+
+/** Farm field that can be filled from a spreadsheet column */
+export type FarmImportField = (typeof FARM_IMPORT_FIELDS)[number];
+
+/**
+ * Spreadsheet column (header) to read each field from.
+ *
+ * @template TField Importable fields
+ *
+ * @example
+ * ```typescript
+ * const mapping: ImportColumnMapping<ProducerImportField> = { name: "Nome", document: "CPF/CNPJ" };
+ * ```
+ */
+export type ImportColumnMapping<TField extends string = string> = Partial<Record<TField, string>>;
+
+/**
+ * Options of an import request, sent as multipart form fields along with the file.
+ *
+ * @template TField Importable fields
+ */
+export interface ImportRequestOptions<TField extends string = string> {
+	/** Validate the rows and report errors without writing anything */
+	dryRun?: boolean;
+
+	/** Column to read each field from, guessed from the headers when omitted */
+	mapping?: ImportColumnMapping<TField>;
+}
+
+/**
+ * Errors of an invalid spreadsheet row.
+ *
+ * @example
+ * ```typescript
+ * const error: ImportRowError = { row: 3, messages: ["Invalid CPF format"] };
+ * ```
+ */
+export interface ImportRowError {
+	/** Row number in the spreadsheet, the header being row 1 */
+	row: number;
+
+	/** Validation error messages of the row */
+	messages: Array<string>;
+}
+
+/**
+ * Row-by-row report of an import.
+ *
+ * Rows are only validated once every field is mapped to a column. Valid rows
+ * are written in a single transaction, unless `dryRun` is set.
+ *
+ * @template TField Importable fields
+ *
+ * @example
+ * ```typescript
+ * const report: ImportReport<ProducerImportField> = {
+ *   dryRun: true,
+ *   columns: ["Nome", "CPF/CNPJ"],
+ *   mapping: { name: "Nome", document: "CPF/CNPJ" },
+ *   unmappedFields: [],
+ *   totalRows: 2,
+ *   validRows: 1,
+ *   importedRows: 0,
+ *   errors: [{ row: 3, messages: ["Invalid CPF format"] }]
+ * };
+ * ```
+ */
+export interface ImportReport<TField extends string = string> {
+	/** Whether the import was only validated */
+	dryRun: boolean;
+
+	/** Column headers found in the file */
+	columns: Array<string>;
+
+	/** Column each field was read from */
+	mapping: ImportColumnMapping<TField>;
+
+	/** Fields without a column, preventing the rows from being validated */
+	unmappedFields: Array<TField>;
+
+	/** Number of data rows in the file */
+	totalRows: number;
+
+	/** Number of rows without errors */
+	validRows: number;
+
+	/** Number of rows written, always `0` on dry runs */
+	importedRows: number;
+
+	/** Errors of the invalid rows, by row number */
+	errors: Array<ImportRowError>;
+}
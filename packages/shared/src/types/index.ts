@@ -5,8 +5,18 @@
  */
 
 export * from "./api/";
+export * from "./audit.types";
 export * from "./auth.types";
 export * from "./city.types";
+export * from "./compliance.types";
+export * from "./crop.types";
 export * from "./dashboard.types";
 export * from "./farm.types";
+export * from "./geo.types";
+export * from "./harvest.types";
+export * from "./import.types";
+export * from "./plot.types";
+export * from "./postal-code.types";
 export * from "./producer.types";
+export * from "./production.types";
+export * from "./search.types";
@@ -0,0 +1,140 @@
+import type { FarmBoundary } from "./geo.types";
+
+import { SoilType } from "../enums";
+
+/**
+ * Plot (talhão) entity type representing a managed subdivision of a farm.
+ *
+ * Large farms are managed by plot rather than as one block. The areas of all
+ * plots of a farm cannot exceed its arable area.
+ *
+ * @example
+ * ```typescript
+ * const plot: FarmPlot = {
+ *   id: "5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a",
+ *   farmId: "550e8400-e29b-41d4-a716-446655440000",
+ *   name: "Talhão 01",
+ *   area: 45.5,
+ *   boundary: null,
+ *   boundaryArea: null,
+ *   soilType: SoilType.Clayey,
+ *   createdAt: "2024-01-15T10:30:00.000Z",
+ *   updatedAt: "2024-01-15T10:30:00.000Z"
+ * };
+ * ```
+ */
+export interface FarmPlot {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/** UUID of the farm the plot belongs to */
+	farmId: string;
+
+	/** Name of the plot, unique within the farm */
+	name: string;
+
+	/**
+	 * Area of the plot in hectares.
+	 *
+	 * @minimum `0.01`
+	 */
+	area: number;
+
+	/**
+	 * Boundary of the plot, `null` when unknown.
+	 *
+	 * @see {@link FarmBoundary}
+	 */
+	boundary: FarmBoundary | null;
+
+	/** Geodesic area enclosed by the boundary in hectares, `null` without a boundary */
+	boundaryArea: number | null;
+
+	/**
+	 * Soil texture class of the plot, `null` when unknown.
+	 *
+	 * @see {@link SoilType}
+	 */
+	soilType: SoilType | null;
+
+	/** Timestamp when the plot was created */
+	createdAt: string;
+
+	/** Timestamp when the plot was last updated */
+	updatedAt: string;
+}
+
+/**
+ * Request payload for creating a plot in a farm.
+ *
+ * @example
+ * ```typescript
+ * const request: CreateFarmPlotRequest = {
+ *   name: "Talhão 01",
+ *   area: 45.5,
+ *   soilType: SoilType.Clayey
+ * };
+ * ```
+ */
+export interface CreateFarmPlotRequest {
+	/**
+	 * Name of the plot, unique within the farm.
+	 *
+	 * @minLength `1`
+	 * @maxLength `100`
+	 */
+	name: string;
+
+	/**
+	 * Area of the plot in hectares.
+	 *
+	 * The areas of all plots of a farm cannot exceed its arable area.
+	 *
+	 * @minimum `0.01`
+	 */
+	area: number;
+
+	/**
+	 * Boundary of the plot.
+	 *
+	 * @see {@link FarmBoundary}
+	 */
+	boundary?: FarmBoundary;
+
+	/**
+	 * Soil texture class of the plot.
+	 *
+	 * @see {@link SoilType}
+	 */
+	soilType?: SoilType;
+}
+
+/**
+ * Request payload for updating a plot.
+ *
+ * All fields are optional. Send `null` to clear the boundary or soil type.
+ */
+export interface UpdateFarmPlotRequest {
+	/**
+	 * Name of the plot, unique within the farm.
+	 *
+	 * @minLength `1`
+	 * @maxLength `100`
+	 */
+	name?: string;
+
+	/**
+	 * Area of the plot in hectares.
+	 *
+	 * Cannot be smaller than the crops planted on the plot in any harvest.
+	 *
+	 * @minimum `0.01`
+	 */
+	area?: number;
+
+	/** Boundary of the plot, `null` to clear it */
+	boundary?: FarmBoundary | null;
+
+	/** Soil texture class of the plot, `null` to clear it */
+	soilType?: SoilType | null;
+}
@@ -0,0 +1,37 @@
+import type { BrazilianState } from "../enums";
+import type { CityData } from "./city.types";
+
+/**
+ * Address found for a Brazilian postal code (CEP).
+ *
+ * The street and district are only known for CEPs assigned to a single
+ * street; CEPs within a range spanning a whole municipality only identify
+ * the city.
+ *
+ * @example
+ * ```typescript
+ * const address: PostalCodeAddress = {
+ *   postalCode: "01310100",
+ *   street: "Avenida Paulista",
+ *   district: "Bela Vista",
+ *   state: BrazilianState.SP,
+ *   city: { id: "...", name: "São Paulo", state: "SP", ibgeCode: "3550308", ... }
+ * };
+ * ```
+ */
+export interface PostalCodeAddress {
+	/** Postal code, digits only */
+	postalCode: string;
+
+	/** Street the CEP is assigned to, when known */
+	street: string | null;
+
+	/** District the CEP is assigned to, when known */
+	district: string | null;
+
+	/** Brazilian state (UF) of the city */
+	state: BrazilianState;
+
+	/** City the CEP belongs to, matched by IBGE code */
+	city: CityData;
+}
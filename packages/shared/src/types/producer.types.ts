@@ -1,7 +1,88 @@
 import type { BaseListFilterOptions } from "./api";
-import type { Farm } from "./farm.types";
+import type { AuditLogEntry } from "./audit.types";
+import type { CropCode } from "./crop.types";
+import type { Farm, FarmOwnershipHistoryEntry } from "./farm.types";
 
-import type { ProducerSortField } from "@/enums";
+import type {
+	BrazilianState,
+	DocumentType,
+	ExportFormat,
+	ProducerField,
+	ProducerInclude,
+	ProducerSortField,
+} from "@/enums";
+
+/**
+ * Postal address of a producer.
+ *
+ * The city must exist within the state, as listed by IBGE.
+ *
+ * @example
+ * ```typescript
+ * const address: ProducerAddress = {
+ *   postalCode: "13010111",
+ *   street: "Rua Barão de Jaguara",
+ *   number: "1000",
+ *   district: "Centro",
+ *   city: "Campinas",
+ *   state: BrazilianState.SP
+ * };
+ * ```
+ */
+export interface ProducerAddress {
+	/**
+	 * Postal code (CEP), digits only in responses.
+	 *
+	 * @example "13010111"
+	 */
+	postalCode: string;
+
+	/** Street name */
+	street: string;
+
+	/**
+	 * Street number, or "S/N" for addresses without one.
+	 *
+	 * @example "1000"
+	 */
+	number: string;
+
+	/** District (bairro) */
+	district: string;
+
+	/** City name */
+	city: string;
+
+	/** Brazilian state (UF) */
+	state: BrazilianState;
+}
+
+/**
+ * State registration (Inscrição Estadual) of a producer.
+ *
+ * Producers hold one registration in each state where they operate.
+ *
+ * @example
+ * ```typescript
+ * const registration: ProducerStateRegistration = {
+ *   state: BrazilianState.SP,
+ *   number: "110042490114"
+ * };
+ * ```
+ */
+export interface ProducerStateRegistration {
+	/** Brazilian state (UF) that issued the registration */
+	state: BrazilianState;
+
+	/**
+	 * Registration number, digits only in responses.
+	 *
+	 * São Paulo rural producer registrations keep their leading "P".
+	 *
+	 * @example "110042490114"
+	 */
+	number: string;
+}
 
 /**
  * Producer entity type representing rural producers and agricultural companies.
@@ -16,9 +97,15 @@ import type { ProducerSortField } from "@/enums";
  *   id: "550e8400-e29b-41d4-a716-446655440000",
  *   name: "João Silva",
  *   document: "111.444.777-35",
+ *   email: "joao.silva@example.com",
+ *   phones: ["11987654321"],
+ *   address: null,
+ *   stateRegistrations: [],
  *   farms: [],
+ *   anonymizedAt: null,
  *   createdAt: "2024-01-15T10:30:00.000Z",
- *   updatedAt: "2024-01-15T10:30:00.000Z"
+ *   updatedAt: "2024-01-15T10:30:00.000Z",
+ *   version: 1
  * };
  * ```
  */
@@ -34,17 +121,87 @@ export interface Producer {
 	 *
 	 * - CPF format: "111.444.777-35" or "11144477735" (11 digits)
 	 * - CNPJ format: "11.222.333/0001-81" or "11222333000181" (14 digits)
+	 *
+	 * CPFs are masked (e.g., "***.444.777-**") for users without the
+	 * `personal_data:reveal` permission, as are the documents of
+	 * anonymized producers.
 	 */
 	document: string;
 
-	/** Array of farms owned by the producer */
-	farms: Array<Farm>;
+	/** Contact email address, if any */
+	email: string | null;
+
+	/** Phone numbers with area code (DDD), digits only */
+	phones: Array<string>;
+
+	/** Postal address, if any */
+	address: ProducerAddress | null;
+
+	/** State registrations, at most one per state */
+	stateRegistrations: Array<ProducerStateRegistration>;
+
+	/**
+	 * Array of farms owned by the producer.
+	 *
+	 * Left out of lists unless included with {@link ProducerInclude.Farms}, and
+	 * their crops and owners unless included as well.
+	 */
+	farms?: Array<Farm>;
+
+	/** Timestamp when the producer's personal data was removed, if it was */
+	anonymizedAt: string | null;
 
 	/** Timestamp when the producer was created */
 	createdAt: string;
 
 	/** Timestamp when the producer was last updated */
 	updatedAt: string;
+
+	/**
+	 * Version of the producer, incremented on every change.
+	 *
+	 * Sent back in the `If-Match` header of updates and deletions to detect
+	 * concurrent changes.
+	 */
+	version: number;
+}
+
+/**
+ * Soft-deleted producer listed in the trash.
+ *
+ * Restoring the producer also restores the farms deleted along with it.
+ */
+export interface DeletedProducer {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/** Full name of the producer or company */
+	name: string;
+
+	/** Brazilian document number (CPF or CNPJ), digits only */
+	document: string;
+
+	/** Timestamp when the producer was moved to the trash */
+	deletedAt: string;
+}
+
+/**
+ * Everything held about a producer, exported on a data subject request.
+ *
+ * Documents are never masked in this export.
+ */
+export interface ProducerPersonalData {
+	/** The producer with their contact details, address and farms */
+	producer: Producer;
+
+	/** Transfers of farms to or from the producer, most recent first */
+	ownershipHistory: Array<FarmOwnershipHistoryEntry>;
+
+	/** Recorded changes to the producer, most recent first */
+	auditLogs: Array<AuditLogEntry>;
+
+	/** Timestamp when the export was generated */
+	exportedAt: string;
 }
 
 /**
@@ -54,7 +211,9 @@ export interface Producer {
  * ```typescript
  * const request: CreateProducerRequest = {
  *   name: "João Silva",
- *   document: "111.444.777-35"
+ *   document: "111.444.777-35",
+ *   email: "joao.silva@example.com",
+ *   phones: ["(11) 98765-4321"]
  * };
  * ```
  */
@@ -80,6 +239,37 @@ export interface CreateProducerRequest {
 	 * @example "11.222.333/0001-81"
 	 */
 	document: string;
+
+	/**
+	 * Contact email address.
+	 *
+	 * @example "joao.silva@example.com"
+	 */
+	email?: string | null;
+
+	/**
+	 * Phone numbers with area code (DDD), formatted or unformatted.
+	 *
+	 * @maxItems `5`
+	 * @example ["(11) 98765-4321", "(19) 3456-7890"]
+	 */
+	phones?: Array<string>;
+
+	/**
+	 * Postal address, with the CEP formatted or unformatted.
+	 *
+	 * Send `null` to remove the address.
+	 */
+	address?: ProducerAddress | null;
+
+	/**
+	 * State registrations, at most one per state, formatted or unformatted.
+	 *
+	 * Each number is validated against the algorithm of its state.
+	 *
+	 * @example [{ state: "SP", number: "110.042.490.114" }]
+	 */
+	stateRegistrations?: Array<ProducerStateRegistration>;
 }
 
 /**
@@ -112,6 +302,37 @@ export interface UpdateProducerRequest {
 	 * @example "111.444.777-35"
 	 */
 	document?: string;
+
+	/**
+	 * Contact email address.
+	 *
+	 * @example "joao.silva@example.com"
+	 */
+	email?: string | null;
+
+	/**
+	 * Phone numbers with area code (DDD), formatted or unformatted.
+	 *
+	 * @maxItems `5`
+	 * @example ["(11) 98765-4321", "(19) 3456-7890"]
+	 */
+	phones?: Array<string>;
+
+	/**
+	 * Postal address, with the CEP formatted or unformatted.
+	 *
+	 * Send `null` to remove the address.
+	 */
+	address?: ProducerAddress | null;
+
+	/**
+	 * State registrations, at most one per state, formatted or unformatted.
+	 *
+	 * Each number is validated against the algorithm of its state.
+	 *
+	 * @example [{ state: "SP", number: "110.042.490.114" }]
+	 */
+	stateRegistrations?: Array<ProducerStateRegistration>;
 }
 
 /**
@@ -141,4 +362,35 @@ export interface ProducersListResponse {
 	limit: number;
 }
 
-export type ProducersFilterOptions = BaseListFilterOptions<ProducerSortField>;
+export interface ProducersFilterOptions extends BaseListFilterOptions<ProducerSortField> {
+	/** Filter by producers owning a farm in this Brazilian state */
+	operatingState?: BrazilianState;
+
+	/** Filter by producers owning a farm that grows this crop, in any harvest */
+	crop?: CropCode;
+
+	/** Filter by type of document */
+	documentType?: DocumentType;
+
+	/** Minimum number of farms owned or co-owned (inclusive) */
+	minFarmCount?: number;
+
+	/** Maximum number of farms owned or co-owned (inclusive) */
+	maxFarmCount?: number;
+
+	/** Fields to return besides the ID, every field when empty; relations are set by {@link include} */
+	fields?: Array<ProducerField>;
+
+	/** Relations to load along with the producers, none when empty */
+	include?: Array<ProducerInclude>;
+}
+
+/**
+ * Query parameters of a producer export: the list filters, plus the file format.
+ *
+ * Every producer matching the filters is exported, regardless of pagination.
+ */
+export interface ProducerExportOptions extends ProducersFilterOptions {
+	/** File format of the export, GeoJSON being only available for farms */
+	format: Exclude<ExportFormat, ExportFormat.GeoJson>;
+}
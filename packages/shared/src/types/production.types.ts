@@ -0,0 +1,158 @@
+import type { ProductionUnit } from "../enums";
+import type { CropCode } from "./crop.types";
+
+/**
+ * Production record of a crop planted on a farm during a harvest.
+ *
+ * A crop may have several records in the same harvest (e.g., partial
+ * harvests on different dates).
+ *
+ * @example
+ * ```typescript
+ * const record: ProductionRecord = {
+ *   id: "3f1b2c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d",
+ *   farmId: "550e8400-e29b-41d4-a716-446655440000",
+ *   harvestId: "9b2f4c1e-7a3d-4e8b-9c6f-1d2e3f4a5b6c",
+ *   cropType: "soy",
+ *   quantity: 3000,
+ *   unit: "sacks_60kg",
+ *   quantityInTons: 180,
+ *   harvestedAt: "2025-03-20",
+ *   createdAt: "2025-03-21T10:30:00.000Z",
+ *   updatedAt: "2025-03-21T10:30:00.000Z"
+ * };
+ * ```
+ */
+export interface ProductionRecord {
+	/** Unique identifier (UUID v4) */
+	id: string;
+
+	/** UUID of the farm */
+	farmId: string;
+
+	/** UUID of the harvest */
+	harvestId: string;
+
+	/**
+	 * Crop that was harvested.
+	 *
+	 * @see {@link CropCode}
+	 */
+	cropType: CropCode;
+
+	/** UUID of the plot the crop was planted on, `null` when planted on the whole farm */
+	plotId: string | null;
+
+	/** Quantity produced, in `unit` */
+	quantity: number;
+
+	/**
+	 * Unit the quantity was recorded in.
+	 *
+	 * @see {@link ProductionUnit}
+	 */
+	unit: ProductionUnit;
+
+	/** Quantity produced converted to metric tons */
+	quantityInTons: number;
+
+	/**
+	 * Date the crop was harvested.
+	 *
+	 * @format date (YYYY-MM-DD)
+	 */
+	harvestedAt: string;
+
+	/** Timestamp when the record was created */
+	createdAt: string;
+
+	/** Timestamp when the record was last updated */
+	updatedAt: string;
+}
+
+/**
+ * Request payload for recording the production of a crop.
+ *
+ * The crop must be planted on the farm in the given harvest.
+ *
+ * @example
+ * ```typescript
+ * const request: CreateProductionRecordRequest = {
+ *   cropType: "soy",
+ *   quantity: 3000,
+ *   unit: "sacks_60kg",
+ *   harvestedAt: "2025-03-20"
+ * };
+ * ```
+ */
+export interface CreateProductionRecordRequest {
+	/** Crop that was harvested */
+	cropType: CropCode;
+
+	/**
+	 * UUID of the plot the crop was planted on.
+	 *
+	 * Omit for crops planted on the whole farm.
+	 *
+	 * @format uuid
+	 */
+	plotId?: string;
+
+	/**
+	 * Quantity produced.
+	 *
+	 * @minimum `0` (exclusive)
+	 */
+	quantity: number;
+
+	/** Unit the quantity was recorded in */
+	unit: ProductionUnit;
+
+	/**
+	 * Date the crop was harvested.
+	 *
+	 * @format date (YYYY-MM-DD)
+	 */
+	harvestedAt: string;
+}
+
+/**
+ * Request payload for updating a production record.
+ *
+ * The crop of an existing record cannot be changed.
+ */
+export type UpdateProductionRecordRequest = Partial<
+	Omit<CreateProductionRecordRequest, "cropType" | "plotId">
+>;
+
+/**
+ * Yield of a crop planted on a farm during a harvest.
+ *
+ * Aggregates every production record of the crop in the harvest.
+ *
+ * @example
+ * ```typescript
+ * const cropYield: CropYield = {
+ *   cropType: "soy",
+ *   plantedArea: 50,
+ *   totalProduction: 180,
+ *   yieldPerHectare: 3.6
+ * };
+ * ```
+ */
+export interface CropYield {
+	/** Crop type */
+	cropType: CropCode;
+
+	/** UUID of the plot the crop was planted on, `null` when planted on the whole farm */
+	plotId: string | null;
+
+	/** Planted area in hectares, `null` when unknown */
+	plantedArea: number | null;
+
+	/** Total production in metric tons */
+	totalProduction: number;
+
+	/** Yield in tons per hectare, `null` when the planted area is unknown */
+	yieldPerHectare: number | null;
+}
@@ -0,0 +1,75 @@
+import type { BrazilianState } from "../enums";
+
+/** Producer found by a global search */
+export interface ProducerSearchResult {
+	/** Unique identifier (UUID) */
+	id: string;
+
+	/** Producer name */
+	name: string;
+
+	/** CPF or CNPJ without formatting; CPFs are masked unless the user may reveal personal data */
+	document: string;
+}
+
+/** Farm found by a global search */
+export interface FarmSearchResult {
+	/** Unique identifier (UUID) */
+	id: string;
+
+	/** Farm name */
+	name: string;
+
+	/** City where the farm is located */
+	city: string;
+
+	/** Brazilian state (UF) where the farm is located */
+	state: BrazilianState;
+}
+
+/** City found by a global search */
+export interface CitySearchResult {
+	/** Unique identifier (UUID) */
+	id: string;
+
+	/** City name */
+	name: string;
+
+	/** Brazilian state (UF) of the city */
+	state: BrazilianState;
+}
+
+/** Parameters of a global search */
+export interface SearchOptions {
+	/** Words to search for, ignoring case and accents */
+	q: string;
+
+	/** Maximum number of results of each kind */
+	limit?: number;
+}
+
+/**
+ * Results of a global search, grouped by kind.
+ *
+ * Each group is sorted by relevance, best match first. Deleted producers
+ * and farms are left out.
+ *
+ * @example
+ * ```typescript
+ * const results: SearchResults = {
+ *   producers: [{ id: "...", name: "João da Silva", document: "***.444.777-**" }],
+ *   farms: [{ id: "...", name: "Fazenda São João", city: "Campinas", state: "SP" }],
+ *   cities: [{ id: "...", name: "São João da Boa Vista", state: "SP" }]
+ * };
+ * ```
+ */
+export interface SearchResults {
+	/** Matching producers, by name or document */
+	producers: Array<ProducerSearchResult>;
+
+	/** Matching farms, by name or city */
+	farms: Array<FarmSearchResult>;
+
+	/** Matching cities, by name or state */
+	cities: Array<CitySearchResult>;
+}
@@ -0,0 +1,125 @@
+import { Biome, BrazilianState } from "../enums";
+
+/**
+ * Predominant biome of each state, by share of its territory (IBGE).
+ *
+ * Used when a municipality has no entry in {@link MUNICIPALITY_BIOMES}.
+ */
+export const STATE_BIOMES: Readonly<Record<BrazilianState, Biome>> = {
+	[BrazilianState.AC]: Biome.Amazon,
+	[BrazilianState.AL]: Biome.AtlanticForest,
+	[BrazilianState.AP]: Biome.Amazon,
+	[BrazilianState.AM]: Biome.Amazon,
+	[BrazilianState.BA]: Biome.Caatinga,
+	[BrazilianState.CE]: Biome.Caatinga,
+	[BrazilianState.DF]: Biome.Cerrado,
+	[BrazilianState.ES]: Biome.AtlanticForest,
+	[BrazilianState.GO]: Biome.Cerrado,
+	[BrazilianState.MA]: Biome.Cerrado,
+	[BrazilianState.MT]: Biome.Amazon,
+	[BrazilianState.MS]: Biome.Cerrado,
+	[BrazilianState.MG]: Biome.Cerrado,
+	[BrazilianState.PA]: Biome.Amazon,
+	[BrazilianState.PB]: Biome.Caatinga,
+	[BrazilianState.PR]: Biome.AtlanticForest,
+	[BrazilianState.PE]: Biome.Caatinga,
+	[BrazilianState.PI]: Biome.Caatinga,
+	[BrazilianState.RJ]: Biome.AtlanticForest,
+	[BrazilianState.RN]: Biome.Caatinga,
+	[BrazilianState.RS]: Biome.Pampa,
+	[BrazilianState.RO]: Biome.Amazon,
+	[BrazilianState.RR]: Biome.Amazon,
+	[BrazilianState.SC]: Biome.AtlanticForest,
+	[BrazilianState.SP]: Biome.AtlanticForest,
+	[BrazilianState.SE]: Biome.AtlanticForest,
+	[BrazilianState.TO]: Biome.Cerrado,
+};
+
+/**
+ * Biome of municipalities that differ from the predominant biome of their state.
+ *
+ * Keyed by state, then by municipality name in lower case without accents.
+ * Covers agricultural municipalities of states split between biomes.
+ */
+export const MUNICIPALITY_BIOMES: Readonly<
+	Partial<Record<BrazilianState, Readonly<Record<string, Biome>>>>
+> = {
+	[BrazilianState.MA]: {
+		acailandia: Biome.Amazon,
+		imperatriz: Biome.Amazon,
+	},
+	[BrazilianState.MS]: {
+		aquidauana: Biome.Pantanal,
+		corumba: Biome.Pantanal,
+	},
+	[BrazilianState.MT]: {
+		"barra do garcas": Biome.Cerrado,
+		"caceres": Biome.Pantanal,
+		"campo verde": Biome.Cerrado,
+		"cuiaba": Biome.Cerrado,
+		"pocone": Biome.Pantanal,
+		"primavera do leste": Biome.Cerrado,
+		"rondonopolis": Biome.Cerrado,
+		"varzea grande": Biome.Cerrado,
+	},
+};
+
+/**
+ * States within the Legal Amazon (Amazônia Legal), where the Forest Code
+ * requires larger legal reserves.
+ *
+ * Maranhão is only partially within it (west of the 44° W meridian) and is
+ * listed as a whole.
+ */
+export const LEGAL_AMAZON_STATES: ReadonlySet<BrazilianState> = new Set([
+	BrazilianState.AC,
+	BrazilianState.AP,
+	BrazilianState.AM,
+	BrazilianState.MA,
+	BrazilianState.MT,
+	BrazilianState.PA,
+	BrazilianState.RO,
+	BrazilianState.RR,
+	BrazilianState.TO,
+]);
+
+/**
+ * Resolves the biome of a municipality.
+ *
+ * @param state State (UF) of the municipality
+ * @param city Municipality name, matched ignoring case and accents
+ *
+ * @returns The biome of the municipality, or the predominant biome of the state when unknown
+ *
+ * @example
+ * ```typescript
+ * getBiome(BrazilianState.MT, "Sinop");
+ * // => Biome.Amazon
+ *
+ * getBiome(BrazilianState.MT, "Cuiabá");
+ * // => Biome.Cerrado
+ * ```
+ */
+export function getBiome(state: BrazilianState, city?: string): Biome {
+	const municipalityKey = city
+		?.normalize("NFD")
+		.replaceAll(/\p{Diacritic}/gu, "")
+		.trim()
+		.toLowerCase();
+
+	const municipalityBiome =
+		municipalityKey ? MUNICIPALITY_BIOMES[state]?.[municipalityKey] : undefined;
+
+	return municipalityBiome ?? STATE_BIOMES[state];
+}
+
+/**
+ * Checks whether a state is within the Legal Amazon.
+ *
+ * @param state State (UF) to check
+ *
+ * @returns `true` when the state is in {@link LEGAL_AMAZON_STATES}
+ */
+export function isInLegalAmazon(state: BrazilianState): boolean {
+	return LEGAL_AMAZON_STATES.has(state);
+}
@@ -11,14 +11,31 @@ function generateSafeCpf(options?: { formatted?: boolean }): string {
 	return generatedCpf;
 }
 
-function generateSafeCnpj(options?: { formatted?: boolean }): string {
-	const generatedCnpj = cnpj.generate(options?.formatted ?? false);
+/** Characters of the base of numeric CNPJs */
+const NUMERIC_CNPJ_CHARACTERS = "0123456789";
 
-	if (!generatedCnpj || typeof generatedCnpj !== "string") {
+/** Characters of the base of alphanumeric CNPJs, issued since July 2026 */
+const ALPHANUMERIC_CNPJ_CHARACTERS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+function generateSafeCnpj(options?: { formatted?: boolean; alphanumeric?: boolean }): string {
+	const characters = options?.alphanumeric ? ALPHANUMERIC_CNPJ_CHARACTERS : NUMERIC_CNPJ_CHARACTERS;
+	const base = Array.from(
+		{ length: 12 },
+		() => characters[Math.floor(Math.random() * characters.length)] ?? "0",
+	);
+	// Each character is worth its ASCII code minus 48, so digits keep their value
+	const values = base.map((character) => character.charCodeAt(0) - 48);
+
+	values.push(cnpj.verifierDigit(values));
+	values.push(cnpj.verifierDigit(values));
+
+	const generatedCnpj = `${base.join("")}${values.slice(12).join("")}`;
+
+	if (!cnpj.isValid(generatedCnpj)) {
 		throw new Error("Failed to generate a valid CNPJ");
 	}
 
-	return generatedCnpj;
+	return options?.formatted ? cnpj.format(generatedCnpj) : generatedCnpj;
 }
 
 export const generateDocument = {
@@ -44,7 +61,8 @@ export const generateDocument = {
 	 * Generate a random CNPJ.
 	 *
 	 * @param options
-	 * @param options.formatted if `true`, it will format using `.` and `-`
+	 * @param options.formatted if `true`, it will format using `.`, `/` and `-`
+	 * @param options.alphanumeric if `true`, the first 12 characters may be uppercase letters
 	 *
 	 * @returns the generated CNPJ. ex.: `"12.345.678/0001-95"`, if formatted is set to `true`
 	 *
@@ -54,6 +72,7 @@ export const generateDocument = {
 	 *
 	 * const formattedCnpj = generateDocument.cnpj({ formatted: true });
 	 * const unformattedCnpj = generateDocument.cnpj();
+	 * const alphanumericCnpj = generateDocument.cnpj({ alphanumeric: true });
 	 * ```
 	 */
 	cnpj: generateSafeCnpj,
@@ -0,0 +1,51 @@
+/**
+ * Formats the version of a record as an HTTP entity tag.
+ *
+ * @param version Version of the record
+ *
+ * @returns The strong entity tag of the version
+ *
+ * @example
+ * ```typescript
+ * toETag(3);
+ * // => "\"3\""
+ * ```
+ *
+ * @see [MDN Web Docs](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/ETag)
+ */
+export function toETag(version: number): string {
+	return `"${String(version)}"`;
+}
+
+/**
+ * Parses the versions listed in an `If-Match` header.
+ *
+ * Accepts strong entity tags (`"3"`) separated by commas. `If-Match` uses the
+ * strong comparison, so weak tags (`W/"3"`) and tags that are not versions are
+ * ignored and never match.
+ *
+ * @param header Value of the `If-Match` header
+ *
+ * @returns The listed versions, or `"*"` when any version matches
+ *
+ * @example
+ * ```typescript
+ * parseIfMatch('"3", W/"4"');
+ * // => [3]
+ *
+ * parseIfMatch("*");
+ * // => "*"
+ * ```
+ *
+ * @see [MDN Web Docs](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/If-Match)
+ * @see [RFC 9110 §13.1.1](https://www.rfc-editor.org/rfc/rfc9110#section-13.1.1)
+ */
+export function parseIfMatch(header: string): Array<number> | "*" {
+	if (header.trim() === "*") return "*";
+
+	return header
+		.split(",")
+		.map((tag) => /^\s*"(\d+)"\s*$/.exec(tag)?.[1])
+		.filter((version) => version !== undefined)
+		.map(Number);
+}
@@ -0,0 +1,79 @@
+import type { FarmBoundary, GeoJsonLinearRing } from "../types";
+
+/** Equatorial radius of the WGS 84 ellipsoid in meters */
+const EARTH_RADIUS_METERS = 6_378_137;
+
+/** Square meters in one hectare */
+const SQUARE_METERS_PER_HECTARE = 10_000;
+
+/**
+ * Calculates the area enclosed by a ring on the sphere, in square meters.
+ *
+ * Uses the spherical polygon area formula from Chamberlain & Duquette,
+ * "Some Algorithms for Polygons on a Sphere" (JPL, 2007). The result is
+ * always positive, regardless of the ring's winding order.
+ *
+ * @param ring Closed ring of `[longitude, latitude]` positions
+ *
+ * @returns The area of the ring in square meters
+ */
+function calculateRingArea(ring: GeoJsonLinearRing): number {
+	const count = ring.length;
+
+	if (count < 3) return 0;
+
+	let total = 0;
+
+	for (let index = 0; index < count; index++) {
+		const previous = ring[(index + count - 1) % count];
+		const current = ring[index];
+		const next = ring[(index + 1) % count];
+
+		if (!previous || !current || !next) continue;
+
+		total += (toRadians(next[0]) - toRadians(previous[0])) * Math.sin(toRadians(current[1]));
+	}
+
+	return Math.abs((total * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2);
+}
+
+/**
+ * Converts an angle from degrees to radians.
+ *
+ * @param degrees Angle in degrees
+ *
+ * @returns The angle in radians
+ */
+function toRadians(degrees: number): number {
+	return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Calculates the geodesic area of a farm boundary in hectares.
+ *
+ * The exterior ring of each polygon adds to the area and its holes are
+ * subtracted. Positions are expected to be valid WGS 84 coordinates.
+ *
+ * @param boundary GeoJSON Polygon or MultiPolygon of the farm
+ *
+ * @returns The area enclosed by the boundary in hectares
+ *
+ * @example
+ * ```typescript
+ * calculateGeodesicArea({
+ *   type: "Polygon",
+ *   coordinates: [[[-47.07, -22.91], [-47.06, -22.91], [-47.06, -22.90], [-47.07, -22.90], [-47.07, -22.91]]]
+ * });
+ * // => ~114.15
+ * ```
+ */
+export function calculateGeodesicArea(boundary: FarmBoundary): number {
+	const polygons = boundary.type === "Polygon" ? [boundary.coordinates] : boundary.coordinates;
+	const squareMeters = polygons.reduce((sum, [exterior = [], ...holes]) => {
+		const holesArea = holes.reduce((holesSum, hole) => holesSum + calculateRingArea(hole), 0);
+
+		return sum + calculateRingArea(exterior) - holesArea;
+	}, 0);
+
+	return squareMeters / SQUARE_METERS_PER_HECTARE;
+}
@@ -1,3 +1,8 @@
+export * from "./biome.util";
 export * from "./cpf-cnpj.util";
 export * from "./env.util";
+export * from "./etag.util";
+export * from "./geo.util";
 export * from "./logger.util";
+export * from "./permission.util";
+export * from "./production.util";
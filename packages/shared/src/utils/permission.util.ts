@@ -0,0 +1,24 @@
+import type { Permission, UserRole } from "../enums";
+
+import { ROLE_PERMISSIONS } from "../constants";
+
+/**
+ * Tells whether a user role is granted a permission.
+ *
+ * @param role Role of the user, or `undefined` when no user is signed in
+ * @param permission Permission to check
+ *
+ * @returns `true` if the role is granted the permission, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * hasPermission(UserRole.Admin, Permission.RevealPersonalData);
+ * // => true
+ *
+ * hasPermission(UserRole.User, Permission.RevealPersonalData);
+ * // => false
+ * ```
+ */
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+	return role !== undefined && ROLE_PERMISSIONS[role].includes(permission);
+}
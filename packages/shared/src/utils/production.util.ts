@@ -0,0 +1,58 @@
+import { ProductionUnit } from "../enums";
+
+/**
+ * Conversion factor from each production unit to metric tons.
+ *
+ * - 1 ton = 1 ton
+ * - 1 sack (saca) = 60 kg = 0.06 ton
+ * - 1 arroba = 15 kg = 0.015 ton
+ */
+export const PRODUCTION_UNIT_TO_TONS: Readonly<Record<ProductionUnit, number>> = {
+	[ProductionUnit.Tons]: 1,
+	[ProductionUnit.Sacks60Kg]: 0.06,
+	[ProductionUnit.Arrobas]: 0.015,
+};
+
+/**
+ * Converts a production quantity to metric tons.
+ *
+ * @param quantity Quantity produced, in the given unit
+ * @param unit Unit the quantity was recorded in
+ *
+ * @returns The quantity in metric tons
+ *
+ * @example
+ * ```typescript
+ * convertToTons(100, ProductionUnit.Sacks60Kg);
+ * // => 6
+ * ```
+ */
+export function convertToTons(quantity: number, unit: ProductionUnit): number {
+	return quantity * PRODUCTION_UNIT_TO_TONS[unit];
+}
+
+/**
+ * Calculates the yield (tons per hectare) of a crop.
+ *
+ * @param productionInTons Total production in metric tons
+ * @param plantedArea Planted area in hectares, `null` when unknown
+ *
+ * @returns The yield in tons per hectare, or `null` when the planted area is unknown or zero
+ *
+ * @example
+ * ```typescript
+ * calculateYieldPerHectare(180, 50);
+ * // => 3.6
+ *
+ * calculateYieldPerHectare(180, null);
+ * // => null
+ * ```
+ */
+export function calculateYieldPerHectare(
+	productionInTons: number,
+	plantedArea: number | null,
+): number | null {
+	if (plantedArea === null || plantedArea <= 0) return null;
+
+	return productionInTons / plantedArea;
+}
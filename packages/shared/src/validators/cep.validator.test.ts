@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+
+import { formatCEP, stripCEPFormatting, validateCEP } from "@agro/shared/validators";
+
+describe("CEP Validator", () => {
+	describe("validateCEP", () => {
+		it("should validate a formatted CEP", () => {
+			expect(validateCEP("13010-111")).toBe(true);
+			expect(validateCEP("13.010-111")).toBe(true);
+		});
+
+		it("should validate an unformatted CEP", () => {
+			expect(validateCEP("13010111")).toBe(true);
+		});
+
+		it("should reject the all zeros sequence", () => {
+			expect(validateCEP("00000-000")).toBe(false);
+		});
+
+		it("should reject CEPs with the wrong length", () => {
+			expect(validateCEP("1301-111")).toBe(false);
+			expect(validateCEP("130100-111")).toBe(false);
+			expect(validateCEP("")).toBe(false);
+		});
+
+		it("should reject CEPs with other characters", () => {
+			expect(validateCEP("13010-11a")).toBe(false);
+			expect(validateCEP("13010/111")).toBe(false);
+		});
+	});
+
+	describe("formatCEP", () => {
+		it("should format an unformatted CEP", () => {
+			expect(formatCEP("13010111")).toBe("13010-111");
+		});
+
+		it("should return invalid input as-is", () => {
+			expect(formatCEP("1301")).toBe("1301");
+		});
+	});
+
+	describe("stripCEPFormatting", () => {
+		it("should remove formatting characters", () => {
+			expect(stripCEPFormatting("13.010-111")).toBe("13010111");
+		});
+	});
+});
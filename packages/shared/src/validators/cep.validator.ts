@@ -0,0 +1,71 @@
+/**
+ * Removes all formatting characters from a CEP (Código de Endereçamento Postal).
+ *
+ * @param cep The CEP to strip (formatted or unformatted)
+ *
+ * @returns The CEP with only numeric digits
+ *
+ * @example
+ * ```typescript
+ * stripCEPFormatting("13010-111");
+ * // => "13010111"
+ * ```
+ */
+export function stripCEPFormatting(cep: string): string {
+	return cep.replace(/\D/g, "");
+}
+
+/**
+ * Validates the format of Brazilian postal codes (CEP).
+ *
+ * Accepts eight digits, optionally written as `NNNNN-NNN` or `NN.NNN-NNN`.
+ * Only the format is checked, not whether the CEP is assigned to an address.
+ *
+ * @param cep The CEP to validate (formatted or unformatted)
+ *
+ * @returns `true` if the CEP is well-formed, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * validateCEP("13010-111");
+ * // => true
+ *
+ * validateCEP("13010111");
+ * // => true
+ *
+ * validateCEP("00000-000");
+ * // => false (known invalid sequence)
+ *
+ * validateCEP("1301-111");
+ * // => false (seven digits)
+ * ```
+ */
+export function validateCEP(cep: string): boolean {
+	if (!/^(?:\d{2}\.?\d{3}|\d{5})-?\d{3}$/.test(cep.trim())) return false;
+
+	return stripCEPFormatting(cep) !== "00000000";
+}
+
+/**
+ * Formats a CEP as `NNNNN-NNN`.
+ *
+ * If the input does not have eight digits, returns the original input.
+ *
+ * @param cep The CEP to format (digits only or already formatted)
+ *
+ * @returns The formatted CEP or original input if invalid
+ *
+ * @example
+ * ```typescript
+ * formatCEP("13010111");
+ * // => "13010-111"
+ *
+ * formatCEP("1301");
+ * // => "1301" (invalid length, returns as-is)
+ * ```
+ */
+export function formatCEP(cep: string): string {
+	const digits = stripCEPFormatting(cep);
+
+	return digits.length === 8 ? `${digits.slice(0, 5)}-${digits.slice(5)}` : cep;
+}
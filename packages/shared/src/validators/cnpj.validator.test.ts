@@ -1,5 +1,6 @@
 import { describe, expect, it } from "bun:test";
 
+import { generateDocument } from "@agro/shared/utils";
 import { formatCNPJ, stripCNPJFormatting, validateCNPJ } from "@agro/shared/validators";
 
 describe("CNPJ Validator", () => {
@@ -14,6 +15,39 @@ describe("CNPJ Validator", () => {
 			expect(result).toBe(true);
 		});
 
+		it("should validate a valid formatted alphanumeric CNPJ", () => {
+			const result = validateCNPJ("12.ABC.345/01DE-35");
+			expect(result).toBe(true);
+		});
+
+		it("should validate a valid unformatted alphanumeric CNPJ in lowercase", () => {
+			const result = validateCNPJ("12abc34501de35");
+			expect(result).toBe(true);
+		});
+
+		it("should reject an alphanumeric CNPJ with wrong check digits", () => {
+			const result = validateCNPJ("12.ABC.345/01DE-36");
+			expect(result).toBe(false);
+		});
+
+		it("should reject an alphanumeric CNPJ with letters in the check digits", () => {
+			const result = validateCNPJ("12.ABC.345/01DE-3A");
+			expect(result).toBe(false);
+		});
+
+		it("should validate generated numeric and alphanumeric CNPJs", () => {
+			for (let index = 0; index < 20; index++) {
+				expect(validateCNPJ(generateDocument.cnpj())).toBe(true);
+				expect(validateCNPJ(generateDocument.cnpj({ alphanumeric: true, formatted: true }))).toBe(
+					true,
+				);
+			}
+		});
+
+		it("should generate numeric CNPJs by default", () => {
+			expect(generateDocument.cnpj()).toMatch(/^\d{14}$/);
+		});
+
 		it("should reject an invalid CNPJ with wrong check digits", () => {
 			const result = validateCNPJ("11.222.333/0001-99");
 			expect(result).toBe(false);
@@ -61,6 +95,11 @@ describe("CNPJ Validator", () => {
 			expect(result).toBe("11.222.333/0001-81");
 		});
 
+		it("should format an alphanumeric CNPJ in uppercase", () => {
+			const result = formatCNPJ("12abc34501de35");
+			expect(result).toBe("12.ABC.345/01DE-35");
+		});
+
 		it("should return original input for invalid CNPJ", () => {
 			const input = "12345";
 			const result = formatCNPJ(input);
@@ -84,6 +123,11 @@ describe("CNPJ Validator", () => {
 			expect(result).toBe("11222333000181");
 		});
 
+		it("should keep the upper-cased letters of alphanumeric CNPJs", () => {
+			const result = stripCNPJFormatting("12.abc.345/01de-35");
+			expect(result).toBe("12ABC34501DE35");
+		});
+
 		it("should handle mixed formatting", () => {
 			const result = stripCNPJFormatting("11.222 333/0001-81");
 			expect(result).toBe("11222333000181");
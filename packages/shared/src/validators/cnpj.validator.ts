@@ -5,7 +5,12 @@ import { format as formatCNPJLib, isValid as isValidCNPJ, strip as stripCNPJ } f
  *
  * Uses the battle-tested `@fnando/cnpj` library which implements the official
  * CNPJ validation algorithm with verification digits. Accepts both formatted
- * (XX.XXX.XXX/XXXX-YY) and unformatted (14 digits) inputs.
+ * (XX.XXX.XXX/XXXX-YY) and unformatted (14 characters) inputs.
+ *
+ * Besides numeric CNPJs, accepts the alphanumeric ones issued since July 2026,
+ * whose first 12 characters may be uppercase letters. Their check digits are
+ * computed with each character worth its ASCII code minus 48, so digits keep
+ * their value and `A` is worth 17. Lowercase letters are upper-cased.
  *
  * @param cnpj The CNPJ string to validate (formatted or unformatted)
  *
@@ -19,6 +24,9 @@ import { format as formatCNPJLib, isValid as isValidCNPJ, strip as stripCNPJ } f
  * validateCNPJ("11222333000181");
  * // => true (valid CNPJ, unformatted)
  *
+ * validateCNPJ("12.ABC.345/01DE-35");
+ * // => true (valid alphanumeric CNPJ)
+ *
  * validateCNPJ("00.000.000/0000-00");
  * // => false (known invalid sequence)
  *
@@ -28,6 +36,7 @@ import { format as formatCNPJLib, isValid as isValidCNPJ, strip as stripCNPJ } f
  *
  * @see {@link https://github.com/fnando/cnpj|@fnando/cnpj Library Documentation}
  * @see {@link https://www.gov.br/receitafederal/pt-br/assuntos/orientacao-tributaria/cadastros/cnpj|CNPJ Official Documentation}
+ * @see {@link https://www.gov.br/receitafederal/pt-br/acesso-a-informacao/acoes-e-programas/programas-e-atividades/cnpj-alfanumerico|Alphanumeric CNPJ}
  */
 export function validateCNPJ(cnpj: string): boolean {
 	return isValidCNPJ(cnpj);
@@ -40,7 +49,7 @@ export function validateCNPJ(cnpj: string): boolean {
  * the standard CNPJ format: XX.XXX.XXX/XXXX-YY. If the input is invalid,
  * returns the original input.
  *
- * @param cnpj The CNPJ string to format (digits only or already formatted)
+ * @param cnpj The CNPJ string to format (unformatted or already formatted)
  *
  * @returns The formatted CNPJ string or original input if invalid
  *
@@ -52,6 +61,9 @@ export function validateCNPJ(cnpj: string): boolean {
  * formatCNPJ("11.222.333/0001-81");
  * // => "11.222.333/0001-81"
  *
+ * formatCNPJ("12abc34501de35");
+ * // => "12.ABC.345/01DE-35"
+ *
  * formatCNPJ("12345");
  * // => "12345" (invalid length, returns as-is)
  * ```
@@ -65,12 +77,13 @@ export function formatCNPJ(cnpj: string): string {
 /**
  * Removes all formatting characters from a CNPJ string.
  *
- * Strips dots, slashes, hyphens, and spaces to return only the numeric digits.
- * Useful for storing CNPJ values in databases or performing comparisons.
+ * Strips dots, slashes, hyphens, and spaces to return only the digits and the
+ * upper-cased letters of alphanumeric CNPJs. Useful for storing CNPJ values in
+ * databases or performing comparisons.
  *
  * @param cnpj The CNPJ string to strip (formatted or unformatted)
  *
- * @returns The CNPJ string with only numeric digits
+ * @returns The CNPJ string with only digits and uppercase letters
  *
  * @example
  * ```typescript
@@ -82,6 +95,9 @@ export function formatCNPJ(cnpj: string): string {
  *
  * stripCNPJFormatting("11222333000181");
  * // => "11222333000181"
+ *
+ * stripCNPJFormatting("12.abc.345/01de-35");
+ * // => "12ABC34501DE35"
  * ```
  */
 export function stripCNPJFormatting(cnpj: string): string {
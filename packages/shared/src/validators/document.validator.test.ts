@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+
+import {
+	formatDocument,
+	isCPFDocument,
+	isMaskedDocument,
+	maskDocument,
+	stripDocumentFormatting,
+} from "@agro/shared/validators";
+
+describe("Document Validator", () => {
+	describe("stripDocumentFormatting", () => {
+		it("should remove formatting from a CPF", () => {
+			expect(stripDocumentFormatting("111.444.777-35")).toBe("11144477735");
+		});
+
+		it("should remove formatting from a numeric CNPJ", () => {
+			expect(stripDocumentFormatting("11.222.333/0001-81")).toBe("11222333000181");
+		});
+
+		it("should keep the upper-cased letters of an alphanumeric CNPJ", () => {
+			expect(stripDocumentFormatting("12.abc.345/01de-35")).toBe("12ABC34501DE35");
+		});
+	});
+
+	describe("isCPFDocument", () => {
+		it("should identify CPFs", () => {
+			expect(isCPFDocument("111.444.777-35")).toBe(true);
+			expect(isCPFDocument("11144477735")).toBe(true);
+		});
+
+		it("should not identify CNPJs as CPFs", () => {
+			expect(isCPFDocument("11.222.333/0001-81")).toBe(false);
+			expect(isCPFDocument("12.ABC.345/01DE-35")).toBe(false);
+		});
+	});
+
+	describe("formatDocument", () => {
+		it("should format a CPF", () => {
+			expect(formatDocument("11144477735")).toBe("111.444.777-35");
+		});
+
+		it("should format a numeric CNPJ", () => {
+			expect(formatDocument("11222333000181")).toBe("11.222.333/0001-81");
+		});
+
+		it("should format an alphanumeric CNPJ", () => {
+			expect(formatDocument("12ABC34501DE35")).toBe("12.ABC.345/01DE-35");
+		});
+	});
+	describe("maskDocument", () => {
+		it("should hide the first digits and the check digits of a CPF", () => {
+			expect(maskDocument("11144477735")).toBe("***.444.777-**");
+			expect(maskDocument("111.444.777-35")).toBe("***.444.777-**");
+		});
+
+		it("should keep CNPJs unchanged", () => {
+			expect(maskDocument("11222333000181")).toBe("11222333000181");
+			expect(maskDocument("12.ABC.345/01DE-35")).toBe("12.ABC.345/01DE-35");
+		});
+
+		it("should keep masked documents unchanged", () => {
+			expect(maskDocument("***.444.777-**")).toBe("***.444.777-**");
+			expect(formatDocument("***.444.777-**")).toBe("***.444.777-**");
+		});
+	});
+
+	describe("isMaskedDocument", () => {
+		it("should identify masked documents", () => {
+			expect(isMaskedDocument(maskDocument("11144477735"))).toBe(true);
+		});
+
+		it("should not identify formatted documents as masked", () => {
+			expect(isMaskedDocument("111.444.777-35")).toBe(false);
+			expect(isMaskedDocument("11.222.333/0001-81")).toBe(false);
+		});
+	});
+});
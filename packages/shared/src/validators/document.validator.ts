@@ -0,0 +1,125 @@
+import { formatCNPJ, stripCNPJFormatting } from "./cnpj.validator.js";
+import { formatCPF } from "./cpf.validator.js";
+
+/** Length of an unformatted CPF, telling it apart from a 14-character CNPJ */
+const CPF_LENGTH = 11;
+
+/** Character replacing the hidden characters of masked documents */
+const MASK_CHARACTER = "*";
+
+/**
+ * Removes the formatting of a producer document, whether a CPF or a CNPJ.
+ *
+ * Keeps the digits and the upper-cased letters of alphanumeric CNPJs, so the
+ * length of the result tells the kind of document apart: 11 characters for a
+ * CPF and 14 for a CNPJ.
+ *
+ * @param document The CPF or CNPJ to strip (formatted or unformatted)
+ *
+ * @returns The document with only digits and uppercase letters
+ *
+ * @example
+ * ```typescript
+ * stripDocumentFormatting("111.444.777-35");
+ * // => "11144477735"
+ *
+ * stripDocumentFormatting("12.abc.345/01de-35");
+ * // => "12ABC34501DE35"
+ * ```
+ */
+export function stripDocumentFormatting(document: string): string {
+	return stripCNPJFormatting(document);
+}
+
+/**
+ * Tells whether a producer document is a CPF rather than a CNPJ.
+ *
+ * Only the length is checked, the check digits are not validated.
+ *
+ * @param document The CPF or CNPJ to check (formatted or unformatted)
+ *
+ * @returns `true` if the document has the length of a CPF, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * isCPFDocument("111.444.777-35");
+ * // => true
+ *
+ * isCPFDocument("12.ABC.345/01DE-35");
+ * // => false
+ * ```
+ */
+export function isCPFDocument(document: string): boolean {
+	return stripDocumentFormatting(document).length === CPF_LENGTH;
+}
+
+/**
+ * Formats a producer document as a CPF or a CNPJ, according to its length.
+ *
+ * Masked documents are returned unchanged.
+ *
+ * @param document The CPF or CNPJ to format (formatted or unformatted)
+ *
+ * @returns The formatted document, or the original input if it is neither
+ *
+ * @example
+ * ```typescript
+ * formatDocument("11144477735");
+ * // => "111.444.777-35"
+ *
+ * formatDocument("12ABC34501DE35");
+ * // => "12.ABC.345/01DE-35"
+ * ```
+ */
+export function formatDocument(document: string): string {
+	if (isMaskedDocument(document)) return document;
+
+	return isCPFDocument(document) ? formatCPF(document) : formatCNPJ(document);
+}
+
+/**
+ * Masks a CPF, hiding its first three digits and its check digits.
+ *
+ * CPFs identify people and are personal data under the LGPD, so they are
+ * masked for users who may not see them. CNPJs identify companies and are
+ * public, so they are returned unchanged, as are documents already masked.
+ *
+ * @param document The CPF or CNPJ to mask (formatted or unformatted)
+ *
+ * @returns The masked CPF, or the unchanged CNPJ
+ *
+ * @example
+ * ```typescript
+ * maskDocument("11144477735");
+ * // => "***.444.777-**"
+ *
+ * maskDocument("11222333000181");
+ * // => "11222333000181"
+ * ```
+ */
+export function maskDocument(document: string): string {
+	if (isMaskedDocument(document) || !isCPFDocument(document)) return document;
+
+	const middle = stripDocumentFormatting(document).slice(3, 9);
+
+	return `${MASK_CHARACTER.repeat(3)}.${middle.slice(0, 3)}.${middle.slice(3)}-${MASK_CHARACTER.repeat(2)}`;
+}
+
+/**
+ * Tells whether a document was masked by {@link maskDocument}.
+ *
+ * Masked documents cannot be validated nor sent back to the API.
+ *
+ * @param document The document to check
+ *
+ * @returns `true` if the document is masked, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * isMaskedDocument("***.444.777-**");
+ * // => true
+ * ```
+ */
+export function isMaskedDocument(document: string): boolean {
+	return document.includes(MASK_CHARACTER);
+}
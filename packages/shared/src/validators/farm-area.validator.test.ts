@@ -1,6 +1,14 @@
 import { describe, expect, it } from "bun:test";
 
-import { assertValidFarmArea, validateFarmArea } from "@agro/shared/validators";
+import {
+	assertValidFarmArea,
+	assertValidPlantedArea,
+	validateBoundaryArea,
+	validateFarmArea,
+	validatePlantedArea,
+	validatePlotAreas,
+	validatePlotPlantedArea,
+} from "@agro/shared/validators";
 
 describe("Farm Area Validator", () => {
 	describe("validateFarmArea", () => {
@@ -176,4 +184,95 @@ describe("Farm Area Validator", () => {
 			expect(result.isValid).toBe(true);
 		});
 	});
+
+	describe("validatePlantedArea", () => {
+		it("should validate when planted areas equal the arable area", () => {
+			const result = validatePlantedArea(100, [60, 40]);
+			expect(result.isValid).toBe(true);
+			expect(result.error).toBeUndefined();
+		});
+
+		it("should validate when planted areas are below the arable area", () => {
+			const result = validatePlantedArea(100, [30.5, 20.25]);
+			expect(result.isValid).toBe(true);
+		});
+
+		it("should validate an empty list of planted areas", () => {
+			const result = validatePlantedArea(100, []);
+			expect(result.isValid).toBe(true);
+		});
+
+		it("should invalidate when planted areas exceed the arable area", () => {
+			const result = validatePlantedArea(100, [70, 40]);
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Sum of planted areas (110.00 ha) exceeds arable area (100.00 ha)");
+		});
+
+		it("should invalidate zero or negative planted areas", () => {
+			expect(validatePlantedArea(100, [0]).error).toBe("Planted area must be greater than 0");
+			expect(validatePlantedArea(100, [-5, 10]).error).toBe("Planted area must be greater than 0");
+		});
+	});
+
+	describe("assertValidPlantedArea", () => {
+		it("should not throw for valid planted areas", () => {
+			expect(() => {
+				assertValidPlantedArea(100, [50, 50]);
+			}).not.toThrow();
+		});
+
+		it("should throw with descriptive message for exceeding sum", () => {
+			expect(() => {
+				assertValidPlantedArea(50, [30, 25]);
+			}).toThrow("Sum of planted areas (55.00 ha) exceeds arable area (50.00 ha)");
+		});
+	});
+
+	describe("validateBoundaryArea", () => {
+		it("should validate when the boundary area is within the tolerance", () => {
+			expect(validateBoundaryArea(100, 104, 5).isValid).toBe(true);
+			expect(validateBoundaryArea(100, 95, 5).isValid).toBe(true);
+		});
+
+		it("should invalidate when the boundary area is beyond the tolerance", () => {
+			const result = validateBoundaryArea(100, 120, 5);
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe(
+				"Boundary area (120.00 ha) differs from total area (100.00 ha) by 20.00%, above the 5% tolerance",
+			);
+		});
+
+		it("should invalidate any difference with zero tolerance", () => {
+			expect(validateBoundaryArea(100, 100.5, 0).isValid).toBe(false);
+		});
+	});
+
+	describe("validatePlotAreas", () => {
+		it("should validate when plot areas fit in the arable area", () => {
+			expect(validatePlotAreas(100, [60, 40]).isValid).toBe(true);
+			expect(validatePlotAreas(100, []).isValid).toBe(true);
+		});
+
+		it("should invalidate when plot areas exceed the arable area", () => {
+			const result = validatePlotAreas(100, [70, 40]);
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Sum of plot areas (110.00 ha) exceeds arable area (100.00 ha)");
+		});
+
+		it("should invalidate zero or negative plot areas", () => {
+			expect(validatePlotAreas(100, [0]).error).toBe("Plot area must be greater than 0");
+		});
+	});
+
+	describe("validatePlotPlantedArea", () => {
+		it("should validate when planted areas fit in the plot", () => {
+			expect(validatePlotPlantedArea(25, [15, 10]).isValid).toBe(true);
+		});
+
+		it("should invalidate when planted areas exceed the plot area", () => {
+			const result = validatePlotPlantedArea(25, [20, 10]);
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Sum of planted areas (30.00 ha) exceeds plot area (25.00 ha)");
+		});
+	});
 });
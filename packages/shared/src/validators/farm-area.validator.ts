@@ -123,3 +123,212 @@ export function assertValidFarmArea(
 
 	if (!result.isValid) throw new Error(result.error);
 }
+
+/**
+ * Validates the planted areas of a single harvest against the farm's arable area.
+ *
+ * Crops planted during the same harvest share the farm's arable land, so the sum
+ * of their planted areas cannot exceed it. Crops without a known planted area
+ * should simply be left out of `plantedAreas`.
+ *
+ * Business Rules:
+ * - Each planted area must be greater than 0
+ * - Sum of planted areas must be ≤ Arable area
+ *
+ * @param arableArea Arable/agricultural area of the farm in hectares
+ * @param plantedAreas Planted area of each crop in the harvest, in hectares
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validatePlantedArea(100, [60, 40]);
+ * // => { isValid: true }
+ *
+ * validatePlantedArea(100, [70, 40]);
+ * // => { isValid: false, error: "Sum of planted areas (110.00 ha) exceeds arable area (100.00 ha)" }
+ *
+ * validatePlantedArea(100, [0]);
+ * // => { isValid: false, error: "Planted area must be greater than 0" }
+ * ```
+ *
+ * @see {@link FarmAreaValidationResult} for the return type structure
+ */
+export function validatePlantedArea(
+	arableArea: number,
+	plantedAreas: Array<number>,
+): FarmAreaValidationResult {
+	if (plantedAreas.some((area) => area <= 0)) {
+		return {
+			isValid: false,
+			error: "Planted area must be greater than 0",
+		};
+	}
+
+	const sumOfAreas = plantedAreas.reduce((sum, area) => sum + area, 0);
+
+	if (sumOfAreas > arableArea) {
+		return {
+			isValid: false,
+			error: `Sum of planted areas (${sumOfAreas.toFixed(2)} ha) exceeds arable area (${arableArea.toFixed(2)} ha)`,
+		};
+	}
+
+	return { isValid: true };
+}
+
+/**
+ * Validates the planted areas of a harvest and throws an error if invalid.
+ *
+ * Convenience wrapper around {@link validatePlantedArea} that throws a descriptive
+ * error instead of returning a result object.
+ *
+ * @param arableArea Arable/agricultural area of the farm in hectares
+ * @param plantedAreas Planted area of each crop in the harvest, in hectares
+ *
+ * @throws Error with descriptive message if validation fails
+ *
+ * @example
+ * ```typescript
+ * assertValidPlantedArea(100, [70, 40]);
+ * // throws Error: "Sum of planted areas (110.00 ha) exceeds arable area (100.00 ha)"
+ * ```
+ *
+ * @see {@link validatePlantedArea} for the underlying validation logic
+ */
+export function assertValidPlantedArea(arableArea: number, plantedAreas: Array<number>): void {
+	const result = validatePlantedArea(arableArea, plantedAreas);
+
+	if (!result.isValid) throw new Error(result.error);
+}
+
+/**
+ * Validates that the area enclosed by a farm boundary matches its declared total area.
+ *
+ * Declared areas usually come from registry documents, while boundaries are
+ * drawn or surveyed, so small differences are expected. The difference is
+ * measured relative to the declared total area.
+ *
+ * Business Rules:
+ * - |Boundary area - Total area| / Total area must be ≤ Tolerance
+ *
+ * @param totalArea Declared total farm area in hectares
+ * @param boundaryArea Geodesic area of the farm boundary in hectares
+ * @param tolerancePercent Accepted difference, as a percentage of the total area
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validateBoundaryArea(100, 104, 5);
+ * // => { isValid: true }
+ *
+ * validateBoundaryArea(100, 120, 5);
+ * // => { isValid: false, error: "Boundary area (120.00 ha) differs from total area (100.00 ha) by 20.00%, above the 5% tolerance" }
+ * ```
+ *
+ * @see {@link FarmAreaValidationResult} for the return type structure
+ */
+export function validateBoundaryArea(
+	totalArea: number,
+	boundaryArea: number,
+	tolerancePercent: number,
+): FarmAreaValidationResult {
+	const differencePercent = (Math.abs(boundaryArea - totalArea) / totalArea) * 100;
+
+	if (differencePercent > tolerancePercent) {
+		return {
+			isValid: false,
+			error: `Boundary area (${boundaryArea.toFixed(2)} ha) differs from total area (${totalArea.toFixed(2)} ha) by ${differencePercent.toFixed(2)}%, above the ${String(tolerancePercent)}% tolerance`,
+		};
+	}
+
+	return { isValid: true };
+}
+
+/**
+ * Validates the plot areas of a farm against its arable area.
+ *
+ * Plots (talhões) subdivide the farm's arable land, so the sum of their areas
+ * cannot exceed it.
+ *
+ * Business Rules:
+ * - Each plot area must be greater than 0
+ * - Sum of plot areas must be ≤ Arable area
+ *
+ * @param arableArea Arable/agricultural area of the farm in hectares
+ * @param plotAreas Area of each plot of the farm, in hectares
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validatePlotAreas(100, [60, 40]);
+ * // => { isValid: true }
+ *
+ * validatePlotAreas(100, [70, 40]);
+ * // => { isValid: false, error: "Sum of plot areas (110.00 ha) exceeds arable area (100.00 ha)" }
+ * ```
+ *
+ * @see {@link FarmAreaValidationResult} for the return type structure
+ */
+export function validatePlotAreas(
+	arableArea: number,
+	plotAreas: Array<number>,
+): FarmAreaValidationResult {
+	if (plotAreas.some((area) => area <= 0)) {
+		return {
+			isValid: false,
+			error: "Plot area must be greater than 0",
+		};
+	}
+
+	const sumOfAreas = plotAreas.reduce((sum, area) => sum + area, 0);
+
+	if (sumOfAreas > arableArea) {
+		return {
+			isValid: false,
+			error: `Sum of plot areas (${sumOfAreas.toFixed(2)} ha) exceeds arable area (${arableArea.toFixed(2)} ha)`,
+		};
+	}
+
+	return { isValid: true };
+}
+
+/**
+ * Validates the planted areas of a plot in a harvest against the plot area.
+ *
+ * Crops assigned to a plot share its land, so the sum of their planted areas
+ * in a harvest cannot exceed it.
+ *
+ * @param plotArea Area of the plot in hectares
+ * @param plantedAreas Planted area of each crop assigned to the plot in the harvest, in hectares
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validatePlotPlantedArea(25, [25]);
+ * // => { isValid: true }
+ *
+ * validatePlotPlantedArea(25, [20, 10]);
+ * // => { isValid: false, error: "Sum of planted areas (30.00 ha) exceeds plot area (25.00 ha)" }
+ * ```
+ *
+ * @see {@link FarmAreaValidationResult} for the return type structure
+ */
+export function validatePlotPlantedArea(
+	plotArea: number,
+	plantedAreas: Array<number>,
+): FarmAreaValidationResult {
+	const sumOfAreas = plantedAreas.reduce((sum, area) => sum + area, 0);
+
+	if (sumOfAreas > plotArea) {
+		return {
+			isValid: false,
+			error: `Sum of planted areas (${sumOfAreas.toFixed(2)} ha) exceeds plot area (${plotArea.toFixed(2)} ha)`,
+		};
+	}
+
+	return { isValid: true };
+}
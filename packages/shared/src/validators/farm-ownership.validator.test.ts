@@ -0,0 +1,47 @@
+import { describe, expect, it } from "bun:test";
+
+import { validateOwnershipShares } from "@agro/shared/validators";
+
+describe("Farm Ownership Validator", () => {
+	describe("validateOwnershipShares", () => {
+		it("should accept a single owner with the whole farm", () => {
+			expect(validateOwnershipShares([100])).toEqual({ isValid: true });
+		});
+
+		it("should accept shares adding up to 100%", () => {
+			expect(validateOwnershipShares([50, 25, 25])).toEqual({ isValid: true });
+		});
+
+		it("should accept decimal shares despite floating point rounding", () => {
+			expect(validateOwnershipShares([33.33, 33.33, 33.34])).toEqual({ isValid: true });
+			expect(validateOwnershipShares([10.1, 20.2, 69.7])).toEqual({ isValid: true });
+		});
+
+		it("should reject shares adding up to less than 100%", () => {
+			const result = validateOwnershipShares([60, 30]);
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Sum of ownership percentages (90.00%) must be 100%");
+		});
+
+		it("should reject shares adding up to more than 100%", () => {
+			const result = validateOwnershipShares([60, 50.5]);
+
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Sum of ownership percentages (110.50%) must be 100%");
+		});
+
+		it("should reject zero, negative and above 100% shares", () => {
+			expect(validateOwnershipShares([0, 100]).isValid).toBe(false);
+			expect(validateOwnershipShares([-10, 110]).isValid).toBe(false);
+			expect(validateOwnershipShares([150]).isValid).toBe(false);
+		});
+
+		it("should reject a farm without owners", () => {
+			expect(validateOwnershipShares([])).toEqual({
+				isValid: false,
+				error: "A farm must have at least one owner",
+			});
+		});
+	});
+});
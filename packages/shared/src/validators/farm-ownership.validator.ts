@@ -0,0 +1,73 @@
+/**
+ * Farm ownership validation result interface.
+ *
+ * Contains the validation outcome and optional error message for detailed
+ * feedback on ownership share validation failures.
+ */
+export interface FarmOwnershipValidationResult {
+	/** Whether the ownership shares are valid */
+	isValid: boolean;
+
+	/** Error message if validation failed, undefined otherwise */
+	error?: string;
+}
+
+/**
+ * Validates the ownership shares of a farm held by several producers.
+ *
+ * Rural properties are often held in co-ownership (condomínio rural), each
+ * owner holding a percentage of the property. Shares are compared in hundredths
+ * of a percent, so decimal rounding does not reject valid splits.
+ *
+ * Business Rules:
+ * - At least one owner is required
+ * - Each share must be greater than 0 and ≤ 100
+ * - Sum of shares must be exactly 100
+ *
+ * @param percentages Ownership share of each owner, as a percentage of the farm
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validateOwnershipShares([50, 25, 25]);
+ * // => { isValid: true }
+ *
+ * validateOwnershipShares([33.33, 33.33, 33.34]);
+ * // => { isValid: true }
+ *
+ * validateOwnershipShares([60, 30]);
+ * // => { isValid: false, error: "Sum of ownership percentages (90.00%) must be 100%" }
+ * ```
+ *
+ * @see {@link FarmOwnershipValidationResult} for the return type structure
+ */
+export function validateOwnershipShares(percentages: Array<number>): FarmOwnershipValidationResult {
+	if (percentages.length === 0) {
+		return {
+			isValid: false,
+			error: "A farm must have at least one owner",
+		};
+	}
+
+	if (percentages.some((percentage) => percentage <= 0 || percentage > 100)) {
+		return {
+			isValid: false,
+			error: "Ownership percentage must be greater than 0 and at most 100",
+		};
+	}
+
+	const sumInHundredths = percentages.reduce(
+		(sum, percentage) => sum + Math.round(percentage * 100),
+		0,
+	);
+
+	if (sumInHundredths !== 10_000) {
+		return {
+			isValid: false,
+			error: `Sum of ownership percentages (${(sumInHundredths / 100).toFixed(2)}%) must be 100%`,
+		};
+	}
+
+	return { isValid: true };
+}
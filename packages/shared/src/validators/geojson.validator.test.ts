@@ -0,0 +1,133 @@
+import { describe, expect, it } from "bun:test";
+
+import type { FarmBoundary } from "@agro/shared/types";
+
+import { calculateGeodesicArea } from "@agro/shared/utils";
+import { isFarmBoundary, validateFarmBoundary } from "@agro/shared/validators";
+
+describe("GeoJSON Validator", () => {
+	const square: FarmBoundary = {
+		type: "Polygon",
+		coordinates: [
+			[
+				[-47.07, -22.91],
+				[-47.06, -22.91],
+				[-47.06, -22.9],
+				[-47.07, -22.9],
+				[-47.07, -22.91],
+			],
+		],
+	};
+
+	describe("validateFarmBoundary", () => {
+		it("should validate a Polygon", () => {
+			const result = validateFarmBoundary(square);
+			expect(result.isValid).toBe(true);
+			expect(result.error).toBeUndefined();
+		});
+
+		it("should validate a MultiPolygon", () => {
+			const result = validateFarmBoundary({
+				type: "MultiPolygon",
+				coordinates: [square.coordinates, square.coordinates],
+			});
+			expect(result.isValid).toBe(true);
+		});
+
+		it("should invalidate other geometry types", () => {
+			const result = validateFarmBoundary({ type: "Point", coordinates: [-47.07, -22.91] });
+			expect(result.isValid).toBe(false);
+			expect(result.error).toBe("Boundary must be a GeoJSON Polygon or MultiPolygon");
+		});
+
+		it("should invalidate non-object values", () => {
+			expect(validateFarmBoundary(null).isValid).toBe(false);
+			expect(validateFarmBoundary("Polygon").isValid).toBe(false);
+		});
+
+		it("should invalidate rings that are not closed", () => {
+			const result = validateFarmBoundary({
+				type: "Polygon",
+				coordinates: [
+					[
+						[-47.07, -22.91],
+						[-47.06, -22.91],
+						[-47.06, -22.9],
+						[-47.07, -22.9],
+					],
+				],
+			});
+			expect(result.error).toBe(
+				"Each ring must be closed (first and last positions must be equal)",
+			);
+		});
+
+		it("should invalidate rings with too few positions", () => {
+			const result = validateFarmBoundary({
+				type: "Polygon",
+				coordinates: [
+					[
+						[-47.07, -22.91],
+						[-47.06, -22.91],
+						[-47.07, -22.91],
+					],
+				],
+			});
+			expect(result.error).toBe("Each ring must have at least 4 positions");
+		});
+
+		it("should invalidate out of range coordinates", () => {
+			const result = validateFarmBoundary({
+				type: "Polygon",
+				coordinates: [
+					[
+						[-47.07, -95],
+						[-47.06, -22.91],
+						[-47.06, -22.9],
+						[-47.07, -95],
+					],
+				],
+			});
+			expect(result.error).toBe("Latitude -95 must be between -90 and 90");
+		});
+
+		it("should invalidate empty MultiPolygons", () => {
+			const result = validateFarmBoundary({ type: "MultiPolygon", coordinates: [] });
+			expect(result.error).toBe("MultiPolygon must have at least one polygon");
+		});
+	});
+
+	describe("isFarmBoundary", () => {
+		it("should narrow valid boundaries", () => {
+			expect(isFarmBoundary(square)).toBe(true);
+			expect(isFarmBoundary({ type: "Polygon", coordinates: [] })).toBe(false);
+		});
+	});
+
+	describe("calculateGeodesicArea", () => {
+		it("should calculate the area of a Polygon in hectares", () => {
+			expect(calculateGeodesicArea(square)).toBeCloseTo(114.15, 1);
+		});
+
+		it("should not depend on the winding order", () => {
+			const reversed: FarmBoundary = {
+				type: "Polygon",
+				coordinates: [[...(square.coordinates[0] ?? [])].reverse()],
+			};
+			expect(calculateGeodesicArea(reversed)).toBeCloseTo(calculateGeodesicArea(square), 6);
+		});
+
+		it("should subtract holes and add MultiPolygon parts", () => {
+			const withHole: FarmBoundary = {
+				type: "Polygon",
+				coordinates: [...square.coordinates, ...square.coordinates],
+			};
+			const twoParts: FarmBoundary = {
+				type: "MultiPolygon",
+				coordinates: [square.coordinates, square.coordinates],
+			};
+			expect(calculateGeodesicArea(withHole)).toBeCloseTo(0, 6);
+			expect(calculateGeodesicArea(twoParts)).toBeCloseTo(calculateGeodesicArea(square) * 2, 6);
+		});
+	});
+});
@@ -0,0 +1,163 @@
+import type { FarmBoundary } from "../types";
+
+/**
+ * GeoJSON validation result interface.
+ *
+ * Contains the validation outcome and optional error message describing the
+ * first problem found in the geometry.
+ */
+export interface GeoJsonValidationResult {
+	/** Whether the geometry is valid */
+	isValid: boolean;
+
+	/** Error message if validation failed, undefined otherwise */
+	error?: string;
+}
+
+/** Minimum number of positions of a closed ring (a triangle plus the closing position) */
+const MIN_RING_POSITIONS = 4;
+
+/**
+ * Validates a single `[longitude, latitude]` position.
+ *
+ * @param position Value to validate
+ *
+ * @returns Error message if invalid, undefined otherwise
+ */
+function validatePosition(position: unknown): string | undefined {
+	if (
+		!Array.isArray(position) ||
+		position.length < 2 ||
+		position.length > 3 ||
+		!position.every((value) => typeof value === "number" && Number.isFinite(value))
+	) {
+		return "Each position must be an array of [longitude, latitude] numbers";
+	}
+
+	const [longitude, latitude] = position as Array<number>;
+
+	if (longitude === undefined || longitude < -180 || longitude > 180) {
+		return `Longitude ${String(longitude)} must be between -180 and 180`;
+	}
+
+	if (latitude === undefined || latitude < -90 || latitude > 90) {
+		return `Latitude ${String(latitude)} must be between -90 and 90`;
+	}
+
+	return undefined;
+}
+
+/**
+ * Validates a closed linear ring.
+ *
+ * @param ring Value to validate
+ *
+ * @returns Error message if invalid, undefined otherwise
+ */
+function validateRing(ring: unknown): string | undefined {
+	if (!Array.isArray(ring) || ring.length < MIN_RING_POSITIONS) {
+		return `Each ring must have at least ${String(MIN_RING_POSITIONS)} positions`;
+	}
+
+	for (const position of ring) {
+		const error = validatePosition(position);
+
+		if (error) return error;
+	}
+
+	const first = ring[0] as Array<number>;
+	const last = ring[ring.length - 1] as Array<number>;
+
+	if (first[0] !== last[0] || first[1] !== last[1]) {
+		return "Each ring must be closed (first and last positions must be equal)";
+	}
+
+	return undefined;
+}
+
+/**
+ * Validates the rings of a single polygon.
+ *
+ * @param rings Value to validate
+ *
+ * @returns Error message if invalid, undefined otherwise
+ */
+function validatePolygonRings(rings: unknown): string | undefined {
+	if (!Array.isArray(rings) || rings.length === 0) {
+		return "Each polygon must have at least one ring";
+	}
+
+	for (const ring of rings) {
+		const error = validateRing(ring);
+
+		if (error) return error;
+	}
+
+	return undefined;
+}
+
+/**
+ * Validates a farm boundary as a GeoJSON Polygon or MultiPolygon.
+ *
+ * Checks the structure described by RFC 7946 for the supported geometries.
+ * Ring winding order is not enforced, since areas are calculated regardless of it.
+ *
+ * Business Rules:
+ * - Geometry type must be `Polygon` or `MultiPolygon`
+ * - Every polygon must have at least one ring (the exterior)
+ * - Every ring must have at least 4 positions and be closed
+ * - Longitudes must be between -180 and 180, latitudes between -90 and 90
+ *
+ * @param boundary Value to validate
+ *
+ * @returns Validation result with `isValid` boolean and optional `error` message
+ *
+ * @example
+ * ```typescript
+ * validateFarmBoundary({
+ *   type: "Polygon",
+ *   coordinates: [[[-47.07, -22.91], [-47.06, -22.91], [-47.06, -22.90], [-47.07, -22.91]]]
+ * });
+ * // => { isValid: true }
+ *
+ * validateFarmBoundary({ type: "Point", coordinates: [-47.07, -22.91] });
+ * // => { isValid: false, error: "Boundary must be a GeoJSON Polygon or MultiPolygon" }
+ * ```
+ *
+ * @see {@link GeoJsonValidationResult} for the return type structure
+ */
+export function validateFarmBoundary(boundary: unknown): GeoJsonValidationResult {
+	if (typeof boundary !== "object" || boundary === null) {
+		return { isValid: false, error: "Boundary must be a GeoJSON Polygon or MultiPolygon" };
+	}
+
+	const { type, coordinates } = boundary as Partial<FarmBoundary>;
+	let error: string | undefined;
+
+	if (type === "Polygon") {
+		error = validatePolygonRings(coordinates);
+	} else if (type === "MultiPolygon") {
+		if (!Array.isArray(coordinates) || coordinates.length === 0) {
+			error = "MultiPolygon must have at least one polygon";
+		} else {
+			error = coordinates.map((polygon) => validatePolygonRings(polygon)).find(Boolean);
+		}
+	} else {
+		error = "Boundary must be a GeoJSON Polygon or MultiPolygon";
+	}
+
+	return error ? { isValid: false, error } : { isValid: true };
+}
+
+/**
+ * Type guard checking that a value is a valid farm boundary.
+ *
+ * @param boundary Value to check
+ *
+ * @returns `true` if the value is a valid GeoJSON Polygon or MultiPolygon
+ *
+ * @see {@link validateFarmBoundary} for the underlying validation logic
+ */
+export function isFarmBoundary(boundary: unknown): boundary is FarmBoundary {
+	return validateFarmBoundary(boundary).isValid;
+}
@@ -4,6 +4,13 @@
  * @module validators
  */
 
+export * from "./cep.validator.js";
 export * from "./cnpj.validator.js";
 export * from "./cpf.validator.js";
+export * from "./document.validator.js";
 export * from "./farm-area.validator.js";
+export * from "./farm-ownership.validator.js";
+export * from "./geojson.validator.js";
+export * from "./inscricao-estadual.validator.js";
+export * from "./legal-reserve.validator.js";
+export * from "./phone.validator.js";
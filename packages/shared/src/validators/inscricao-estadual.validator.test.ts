@@ -0,0 +1,123 @@
+import { describe, expect, it } from "bun:test";
+
+import { BrazilianState } from "@agro/shared/enums";
+import {
+	stripInscricaoEstadualFormatting,
+	validateInscricaoEstadual,
+} from "@agro/shared/validators";
+
+/** Valid registrations of every state, as written in the SINTEGRA examples */
+const VALID_REGISTRATIONS: Array<[BrazilianState, string]> = [
+	[BrazilianState.AC, "01.004.823/001-12"],
+	[BrazilianState.AL, "24.000.004-8"],
+	[BrazilianState.AP, "03.012.345-9"],
+	[BrazilianState.AM, "04.293.368-4"],
+	[BrazilianState.BA, "123456-63"],
+	[BrazilianState.BA, "1000003-06"],
+	[BrazilianState.CE, "06000001-5"],
+	[BrazilianState.DF, "07300001001-09"],
+	[BrazilianState.ES, "99999999-0"],
+	[BrazilianState.GO, "10.987.654-7"],
+	[BrazilianState.MA, "12000038-5"],
+	[BrazilianState.MT, "0013000001-9"],
+	[BrazilianState.MS, "28.311.594-7"],
+	[BrazilianState.MG, "062.307.904/0081"],
+	[BrazilianState.PA, "15-999999-5"],
+	[BrazilianState.PB, "06000001-5"],
+	[BrazilianState.PR, "123.45678-50"],
+	[BrazilianState.PE, "0321418-40"],
+	[BrazilianState.PE, "18.1.001.0000004-9"],
+	[BrazilianState.PI, "01234567-9"],
+	[BrazilianState.RJ, "99.999.99-3"],
+	[BrazilianState.RN, "20.040.040-1"],
+	[BrazilianState.RN, "20.0.040.040-0"],
+	[BrazilianState.RS, "224/3658792"],
+	[BrazilianState.RO, "0000000062521-3"],
+	[BrazilianState.RR, "24006628-1"],
+	[BrazilianState.SC, "251.040.852"],
+	[BrazilianState.SP, "110.042.490.114"],
+	[BrazilianState.SP, "P-01100424.3/002"],
+	[BrazilianState.SE, "27123456-3"],
+	[BrazilianState.TO, "29.01.022783-6"],
+	[BrazilianState.TO, "29022783-6"],
+];
+
+/**
+ * Changes the last digit of a registration, making its check digit wrong.
+ *
+ * @param ie Valid registration
+ *
+ * @returns The registration with a wrong last digit
+ */
+const withWrongLastDigit = (ie: string): string =>
+	`${ie.slice(0, -1)}${String((Number(ie.at(-1)) + 1) % 10)}`;
+
+describe("Inscrição Estadual Validator", () => {
+	describe("validateInscricaoEstadual", () => {
+		it("should cover every state", () => {
+			const states = new Set(VALID_REGISTRATIONS.map(([state]) => state));
+
+			expect([...states].sort()).toEqual(Object.values(BrazilianState).sort());
+		});
+
+		for (const [state, ie] of VALID_REGISTRATIONS) {
+			it(`should validate ${ie} in ${state}`, () => {
+				expect(validateInscricaoEstadual(ie, state)).toBe(true);
+			});
+
+			// The check digit of São Paulo rural producers is not the last digit
+			if (!ie.startsWith("P")) {
+				it(`should reject ${ie} with a wrong check digit in ${state}`, () => {
+					expect(validateInscricaoEstadual(withWrongLastDigit(ie), state)).toBe(false);
+				});
+			}
+		}
+
+		it("should reject São Paulo rural producer registrations with a wrong check digit", () => {
+			expect(validateInscricaoEstadual("P-01100424.4/002", BrazilianState.SP)).toBe(false);
+		});
+
+		it("should validate unformatted registrations", () => {
+			expect(validateInscricaoEstadual("110042490114", BrazilianState.SP)).toBe(true);
+			expect(validateInscricaoEstadual("0623079040081", BrazilianState.MG)).toBe(true);
+		});
+
+		it("should validate Mato Grosso registrations without leading zeros", () => {
+			expect(validateInscricaoEstadual("130000019", BrazilianState.MT)).toBe(true);
+		});
+
+		it("should reject registrations of another state", () => {
+			expect(validateInscricaoEstadual("110.042.490.114", BrazilianState.MG)).toBe(false);
+			expect(validateInscricaoEstadual("062.307.904/0081", BrazilianState.SP)).toBe(false);
+		});
+
+		it("should reject the rural producer prefix outside São Paulo", () => {
+			expect(validateInscricaoEstadual("P-01100424.3/002", BrazilianState.MG)).toBe(false);
+		});
+
+		it("should reject registrations with a wrong prefix", () => {
+			expect(validateInscricaoEstadual("25.000.004-8", BrazilianState.AL)).toBe(false);
+			expect(validateInscricaoEstadual("02.004.823/001-12", BrazilianState.AC)).toBe(false);
+		});
+
+		it("should reject registrations with the wrong length", () => {
+			expect(validateInscricaoEstadual("110.042.490.11", BrazilianState.SP)).toBe(false);
+			expect(validateInscricaoEstadual("224/36587921", BrazilianState.RS)).toBe(false);
+		});
+
+		it("should reject known invalid sequences and empty strings", () => {
+			expect(validateInscricaoEstadual("000000000", BrazilianState.ES)).toBe(false);
+			expect(validateInscricaoEstadual("", BrazilianState.SP)).toBe(false);
+		});
+	});
+
+	describe("stripInscricaoEstadualFormatting", () => {
+		it("should remove dots, slashes and hyphens", () => {
+			expect(stripInscricaoEstadualFormatting("062.307.904/0081")).toBe("0623079040081");
+		});
+
+		it("should keep the upper-cased rural producer prefix", () => {
+			expect(stripInscricaoEstadualFormatting("p-01100424.3/002")).toBe("P011004243002");
+		});
+	});
+});
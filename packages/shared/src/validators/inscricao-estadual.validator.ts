@@ -0,0 +1,473 @@
+import { BrazilianState } from "../enums";
+
+/**
+ * Sums the digits of a number, each multiplied by the weight in the same position.
+ *
+ * @param digits Digits to weigh, only the first `weights.length` are used
+ * @param weights Weight of each digit
+ *
+ * @returns The weighted sum
+ */
+function weightedSum(digits: string, weights: Array<number>): number {
+	return weights.reduce((sum, weight, index) => sum + Number(digits[index]) * weight, 0);
+}
+
+/**
+ * Computes the most common modulo 11 check digit, where remainders 0 and 1
+ * yield 0.
+ *
+ * @param sum Weighted sum of the digits
+ *
+ * @returns The check digit
+ */
+function modulo11(sum: number): number {
+	const remainder = sum % 11;
+
+	return remainder < 2 ? 0 : 11 - remainder;
+}
+
+/**
+ * Computes a modulo 11 check digit where results of 10 and 11 yield 0.
+ *
+ * Equivalent to {@link modulo11} except when the remainder is 1, which yields
+ * 0 here as well.
+ *
+ * @param sum Weighted sum of the digits
+ *
+ * @returns The check digit
+ */
+function complementOf11(sum: number): number {
+	const digit = 11 - (sum % 11);
+
+	return digit >= 10 ? 0 : digit;
+}
+
+/**
+ * Computes a modulo 10 check digit, as used by Bahia.
+ *
+ * @param sum Weighted sum of the digits
+ *
+ * @returns The check digit
+ */
+function modulo10(sum: number): number {
+	const remainder = sum % 10;
+
+	return remainder === 0 ? 0 : 10 - remainder;
+}
+
+/**
+ * Creates a validator for the many states using a single modulo 11 check digit
+ * weighed from 9 down to 2 over 8 digits.
+ *
+ * @param prefixes Prefixes the registration must start with, when restricted
+ * @param checkDigit Check digit rule of the state
+ *
+ * @returns Validator of the digits of a registration
+ */
+function singleDigitModulo11(
+	prefixes: Array<string> = [],
+	checkDigit: (sum: number) => number = modulo11,
+): (ie: string) => boolean {
+	return (ie) =>
+		ie.length === 9 &&
+		(prefixes.length === 0 || prefixes.some((prefix) => ie.startsWith(prefix))) &&
+		checkDigit(weightedSum(ie, [9, 8, 7, 6, 5, 4, 3, 2])) === Number(ie[8]);
+}
+
+/**
+ * Validates registrations with two check digits weighed like the CNPJ, as
+ * used by Acre and the Federal District.
+ *
+ * @param ie Registration digits
+ * @param prefix Prefix the registration must start with
+ *
+ * @returns `true` if both check digits match
+ */
+function validateTwoDigitsLikeCNPJ(ie: string, prefix: string): boolean {
+	if (ie.length !== 13 || !ie.startsWith(prefix)) return false;
+
+	const first = complementOf11(weightedSum(ie, [4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]));
+	const second = complementOf11(weightedSum(ie, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]));
+
+	return first === Number(ie[11]) && second === Number(ie[12]);
+}
+
+/**
+ * Validates Amapá registrations, whose check digit depends on the range the
+ * registration falls within.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateAP(ie: string): boolean {
+	if (ie.length !== 9 || !ie.startsWith("03")) return false;
+
+	const base = Number(ie.slice(0, 8));
+	const [offset, fallback] =
+		base <= 3017000 ? [5, 0]
+		: base <= 3019022 ? [9, 1]
+		: [0, 0];
+	const digit = 11 - ((offset + weightedSum(ie, [9, 8, 7, 6, 5, 4, 3, 2])) % 11);
+
+	return (
+		(digit === 10 ? 0
+		: digit === 11 ? fallback
+		: digit) === Number(ie[8])
+	);
+}
+
+/**
+ * Validates Amazonas registrations, whose check digit is the complement of
+ * small sums.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateAM(ie: string): boolean {
+	if (ie.length !== 9) return false;
+
+	const sum = weightedSum(ie, [9, 8, 7, 6, 5, 4, 3, 2]);
+
+	return (sum < 11 ? 11 - sum : modulo11(sum)) === Number(ie[8]);
+}
+
+/**
+ * Validates Bahia registrations of 8 or 9 digits, whose two check digits are
+ * computed modulo 10 or 11 depending on the first digit of the number.
+ *
+ * The second check digit is computed first, and then takes part in the first.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if both check digits match
+ */
+function validateBA(ie: string): boolean {
+	if (ie.length !== 8 && ie.length !== 9) return false;
+
+	const baseLength = ie.length - 2;
+	const base = ie.slice(0, baseLength);
+	const leadingDigit = ie.length === 8 ? ie[0] : ie[1];
+	const checkDigit = "679".includes(leadingDigit ?? "") ? modulo11 : modulo10;
+	const weights = (length: number): Array<number> =>
+		Array.from({ length }, (_, index) => length + 1 - index);
+
+	const second = checkDigit(weightedSum(base, weights(baseLength)));
+	const first = checkDigit(weightedSum(`${base}${String(second)}`, weights(baseLength + 1)));
+
+	return first === Number(ie[baseLength]) && second === Number(ie[baseLength + 1]);
+}
+
+/**
+ * Validates Goiás registrations, including the special rules for remainders
+ * of 1 within a historical range of numbers.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateGO(ie: string): boolean {
+	if (ie.length !== 9 || !/^(?:1[015]|2\d)/.test(ie)) return false;
+
+	const base = Number(ie.slice(0, 8));
+	const remainder = weightedSum(ie, [9, 8, 7, 6, 5, 4, 3, 2]) % 11;
+	let digit = 11 - remainder;
+
+	if (base === 11094402) return ie[8] === "0" || ie[8] === "1";
+	if (remainder === 0) digit = 0;
+	if (remainder === 1) digit = base >= 10103105 && base <= 10119997 ? 1 : 0;
+
+	return digit === Number(ie[8]);
+}
+
+/**
+ * Validates Minas Gerais registrations of 13 digits.
+ *
+ * The first check digit sums the digits of each product after a zero is
+ * inserted following the municipality code, and the second is a modulo 11
+ * digit over the 12 preceding digits.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if both check digits match
+ */
+function validateMG(ie: string): boolean {
+	if (ie.length !== 13) return false;
+
+	const padded = `${ie.slice(0, 3)}0${ie.slice(3, 11)}`;
+	const productDigits = [...padded]
+		.map((digit, index) => String(Number(digit) * (index % 2 === 0 ? 1 : 2)))
+		.join("");
+	const sum = [...productDigits].reduce((total, digit) => total + Number(digit), 0);
+	const first = (10 - (sum % 10)) % 10;
+	const second = modulo11(weightedSum(ie, [3, 2, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2]));
+
+	return first === Number(ie[11]) && second === Number(ie[12]);
+}
+
+/**
+ * Validates Mato Grosso registrations of 11 digits, shorter numbers being
+ * padded with leading zeros.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateMT(ie: string): boolean {
+	if (ie.length < 9 || ie.length > 11) return false;
+
+	const padded = ie.padStart(11, "0");
+
+	return modulo11(weightedSum(padded, [3, 2, 9, 8, 7, 6, 5, 4, 3, 2])) === Number(padded[10]);
+}
+
+/**
+ * Validates Paraná registrations of 10 digits with two modulo 11 check digits.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if both check digits match
+ */
+function validatePR(ie: string): boolean {
+	if (ie.length !== 10) return false;
+
+	const first = modulo11(weightedSum(ie, [3, 2, 7, 6, 5, 4, 3, 2]));
+	const second = modulo11(weightedSum(ie, [4, 3, 2, 7, 6, 5, 4, 3, 2]));
+
+	return first === Number(ie[8]) && second === Number(ie[9]);
+}
+
+/**
+ * Validates Pernambuco registrations, either the current 9-digit eFisco
+ * number with two check digits or the former 14-digit CACEPE number.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digits match
+ */
+function validatePE(ie: string): boolean {
+	if (ie.length === 14) {
+		const digit = 11 - (weightedSum(ie, [5, 4, 3, 2, 1, 9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+
+		return (digit > 9 ? digit - 10 : digit) === Number(ie[13]);
+	}
+
+	if (ie.length !== 9) return false;
+
+	const first = modulo11(weightedSum(ie, [8, 7, 6, 5, 4, 3, 2]));
+	const second = modulo11(weightedSum(ie, [9, 8, 7, 6, 5, 4, 3, 2]));
+
+	return first === Number(ie[7]) && second === Number(ie[8]);
+}
+
+/**
+ * Validates Rio de Janeiro registrations of 8 digits.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateRJ(ie: string): boolean {
+	return ie.length === 8 && modulo11(weightedSum(ie, [2, 7, 6, 5, 4, 3, 2])) === Number(ie[7]);
+}
+
+/**
+ * Validates Rio Grande do Norte registrations of 9 or 10 digits.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateRN(ie: string): boolean {
+	if ((ie.length !== 9 && ie.length !== 10) || !ie.startsWith("20")) return false;
+
+	const weights = Array.from({ length: ie.length - 1 }, (_, index) => ie.length - index);
+	const digit = ((weightedSum(ie, weights) * 10) % 11) % 10;
+
+	return digit === Number(ie.at(-1));
+}
+
+/**
+ * Validates Rio Grande do Sul registrations of 10 digits.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateRS(ie: string): boolean {
+	return (
+		ie.length === 10 &&
+		complementOf11(weightedSum(ie, [2, 9, 8, 7, 6, 5, 4, 3, 2])) === Number(ie[9])
+	);
+}
+
+/**
+ * Validates Rondônia registrations of 14 digits, issued since 2000.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateRO(ie: string): boolean {
+	if (ie.length !== 14) return false;
+
+	const digit = 11 - (weightedSum(ie, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+
+	return (digit >= 10 ? digit - 10 : digit) === Number(ie[13]);
+}
+
+/**
+ * Validates Roraima registrations of 9 digits, whose check digit is modulo 9.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateRR(ie: string): boolean {
+	return (
+		ie.length === 9 &&
+		ie.startsWith("24") &&
+		weightedSum(ie, [1, 2, 3, 4, 5, 6, 7, 8]) % 9 === Number(ie[8])
+	);
+}
+
+/**
+ * Validates São Paulo registrations, either the 12-digit number of
+ * industries and traders or the `P`-prefixed number of rural producers.
+ *
+ * @param ie Registration digits, with the `P` prefix for rural producers
+ *
+ * @returns `true` if the check digits match
+ */
+function validateSP(ie: string): boolean {
+	const firstWeights = [1, 3, 4, 5, 6, 7, 8, 10];
+
+	if (ie.startsWith("P")) {
+		const digits = ie.slice(1);
+
+		return (
+			/^\d{12}$/.test(digits) && (weightedSum(digits, firstWeights) % 11) % 10 === Number(digits[8])
+		);
+	}
+
+	if (!/^\d{12}$/.test(ie)) return false;
+
+	const first = (weightedSum(ie, firstWeights) % 11) % 10;
+	const second = (weightedSum(ie, [3, 2, 10, 9, 8, 7, 6, 5, 4, 3, 2]) % 11) % 10;
+
+	return first === Number(ie[8]) && second === Number(ie[11]);
+}
+
+/**
+ * Validates Tocantins registrations, either the current 9-digit number or the
+ * former 11-digit number whose third and fourth digits identify the company
+ * type and are left out of the check digit.
+ *
+ * @param ie Registration digits
+ *
+ * @returns `true` if the check digit matches
+ */
+function validateTO(ie: string): boolean {
+	if (ie.length === 9) return singleDigitModulo11()(ie);
+
+	if (ie.length !== 11 || !["01", "02", "03", "99"].includes(ie.slice(2, 4))) return false;
+
+	return singleDigitModulo11()(`${ie.slice(0, 2)}${ie.slice(4)}`);
+}
+
+/**
+ * Validators of the registration digits of each state.
+ *
+ * @see {@link http://www.sintegra.gov.br/insc_est.html|SINTEGRA - Check digit rules per state}
+ */
+const VALIDATORS: Record<BrazilianState, (ie: string) => boolean> = {
+	[BrazilianState.AC]: (ie) => validateTwoDigitsLikeCNPJ(ie, "01"),
+	[BrazilianState.AL]: singleDigitModulo11(
+		["240", "243", "245", "247", "248"],
+		(sum) => ((sum * 10) % 11) % 10,
+	),
+	[BrazilianState.AP]: validateAP,
+	[BrazilianState.AM]: validateAM,
+	[BrazilianState.BA]: validateBA,
+	[BrazilianState.CE]: singleDigitModulo11([], complementOf11),
+	[BrazilianState.DF]: (ie) => validateTwoDigitsLikeCNPJ(ie, "07"),
+	[BrazilianState.ES]: singleDigitModulo11(),
+	[BrazilianState.GO]: validateGO,
+	[BrazilianState.MA]: singleDigitModulo11(["12"]),
+	[BrazilianState.MT]: validateMT,
+	[BrazilianState.MS]: singleDigitModulo11(["28", "50"], complementOf11),
+	[BrazilianState.MG]: validateMG,
+	[BrazilianState.PA]: singleDigitModulo11(["15", "75", "76", "77", "78", "79"]),
+	[BrazilianState.PB]: singleDigitModulo11([], complementOf11),
+	[BrazilianState.PR]: validatePR,
+	[BrazilianState.PE]: validatePE,
+	[BrazilianState.PI]: singleDigitModulo11(),
+	[BrazilianState.RJ]: validateRJ,
+	[BrazilianState.RN]: validateRN,
+	[BrazilianState.RS]: validateRS,
+	[BrazilianState.RO]: validateRO,
+	[BrazilianState.RR]: validateRR,
+	[BrazilianState.SC]: singleDigitModulo11(),
+	[BrazilianState.SP]: validateSP,
+	[BrazilianState.SE]: singleDigitModulo11([], complementOf11),
+	[BrazilianState.TO]: validateTO,
+};
+
+/**
+ * Removes all formatting characters from a state registration (Inscrição Estadual).
+ *
+ * Keeps the digits and the `P` prefix of São Paulo rural producers, upper-cased.
+ *
+ * @param ie The registration to strip (formatted or unformatted)
+ *
+ * @returns The registration with only digits and the `P` prefix
+ *
+ * @example
+ * ```typescript
+ * stripInscricaoEstadualFormatting("110.042.490.114");
+ * // => "110042490114"
+ *
+ * stripInscricaoEstadualFormatting("p-01100424.3/002");
+ * // => "P011004243002"
+ * ```
+ */
+export function stripInscricaoEstadualFormatting(ie: string): string {
+	return ie.toUpperCase().replace(/[^\dP]/g, "");
+}
+
+/**
+ * Validates a Brazilian state registration (Inscrição Estadual) for its state.
+ *
+ * Each state has its own length, prefixes and check digit rules, as published
+ * by SINTEGRA. Accepts formatted or unformatted registrations, including the
+ * `P`-prefixed registrations of São Paulo rural producers.
+ *
+ * @param ie The registration to validate (formatted or unformatted)
+ * @param state Brazilian state (UF) that issued the registration
+ *
+ * @returns `true` if the registration is valid for the state, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * validateInscricaoEstadual("110.042.490.114", BrazilianState.SP);
+ * // => true
+ *
+ * validateInscricaoEstadual("062.307.904/0081", BrazilianState.MG);
+ * // => true
+ *
+ * validateInscricaoEstadual("110.042.490.114", BrazilianState.MG);
+ * // => false (São Paulo registration)
+ * ```
+ *
+ * @see {@link http://www.sintegra.gov.br/insc_est.html|SINTEGRA - Check digit rules per state}
+ */
+export function validateInscricaoEstadual(ie: string, state: BrazilianState): boolean {
+	const stripped = stripInscricaoEstadualFormatting(ie);
+
+	if (stripped.length === 0 || (stripped.includes("P") && state !== BrazilianState.SP))
+		return false;
+	if (/^(\d)\1*$/.test(stripped)) return false;
+
+	return VALIDATORS[state](stripped);
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "bun:test";
+
+import { Biome, BrazilianState } from "@agro/shared/enums";
+import { getBiome } from "@agro/shared/utils";
+import { evaluateLegalReserve, getLegalReservePercentage } from "@agro/shared/validators";
+
+describe("Legal Reserve Validator", () => {
+	describe("getBiome", () => {
+		it("should fall back to the predominant biome of the state", () => {
+			expect(getBiome(BrazilianState.PA)).toBe(Biome.Amazon);
+			expect(getBiome(BrazilianState.RS, "Passo Fundo")).toBe(Biome.Pampa);
+		});
+
+		it("should resolve municipality overrides ignoring case and accents", () => {
+			expect(getBiome(BrazilianState.MT, "Cuiabá")).toBe(Biome.Cerrado);
+			expect(getBiome(BrazilianState.MT, "  CACERES ")).toBe(Biome.Pantanal);
+			expect(getBiome(BrazilianState.MT, "Sinop")).toBe(Biome.Amazon);
+		});
+	});
+
+	describe("getLegalReservePercentage", () => {
+		it("should require 80% of Amazon forest within the Legal Amazon", () => {
+			expect(getLegalReservePercentage(Biome.Amazon, true)).toBe(80);
+		});
+
+		it("should require 35% of Cerrado within the Legal Amazon", () => {
+			expect(getLegalReservePercentage(Biome.Cerrado, true)).toBe(35);
+		});
+
+		it("should require 20% elsewhere", () => {
+			expect(getLegalReservePercentage(Biome.Pantanal, true)).toBe(20);
+			expect(getLegalReservePercentage(Biome.Cerrado, false)).toBe(20);
+			expect(getLegalReservePercentage(Biome.AtlanticForest, false)).toBe(20);
+		});
+	});
+
+	describe("evaluateLegalReserve", () => {
+		it("should report the deficit of a non-compliant Amazon farm", () => {
+			const result = evaluateLegalReserve({
+				state: BrazilianState.PA,
+				city: "Paragominas",
+				totalArea: 1000,
+				vegetationArea: 500,
+			});
+
+			expect(result).toEqual({
+				biome: Biome.Amazon,
+				legalAmazon: true,
+				requiredPercentage: 80,
+				requiredArea: 800,
+				vegetationArea: 500,
+				vegetationPercentage: 50,
+				deficit: 300,
+				isCompliant: false,
+			});
+		});
+
+		it("should apply the Cerrado requirement to Cerrado municipalities of the Legal Amazon", () => {
+			const result = evaluateLegalReserve({
+				state: BrazilianState.MT,
+				city: "Rondonópolis",
+				totalArea: 1000,
+				vegetationArea: 350,
+			});
+
+			expect(result.requiredPercentage).toBe(35);
+			expect(result.isCompliant).toBe(true);
+			expect(result.deficit).toBe(0);
+		});
+
+		it("should be compliant when the vegetation area exceeds the requirement", () => {
+			const result = evaluateLegalReserve({
+				state: BrazilianState.SP,
+				city: "Campinas",
+				totalArea: 100,
+				vegetationArea: 25,
+			});
+
+			expect(result.requiredArea).toBe(20);
+			expect(result.isCompliant).toBe(true);
+		});
+
+		it("should not report floating point residues as a deficit", () => {
+			const result = evaluateLegalReserve({
+				state: BrazilianState.SP,
+				totalArea: 100.15,
+				vegetationArea: 20.03,
+			});
+
+			expect(result.deficit).toBe(0);
+			expect(result.isCompliant).toBe(true);
+		});
+	});
+});
@@ -0,0 +1,116 @@
+import type { LegalReserveCompliance } from "../types";
+
+import { Biome, BrazilianState } from "../enums";
+import { getBiome, isInLegalAmazon } from "../utils/biome.util.js";
+
+/**
+ * Farm data needed to evaluate legal reserve compliance.
+ */
+export interface LegalReserveInput {
+	/** State (UF) of the farm */
+	state: BrazilianState;
+
+	/** Municipality of the farm, used to resolve its biome */
+	city?: string;
+
+	/** Total farm area in hectares */
+	totalArea: number;
+
+	/** Vegetation/preservation area in hectares (área de vegetação) */
+	vegetationArea: number;
+}
+
+/**
+ * Gets the minimum legal reserve share for a biome.
+ *
+ * Business Rules (Forest Code, art. 12):
+ * - 80% for forest (Amazon) within the Legal Amazon
+ * - 35% for Cerrado within the Legal Amazon
+ * - 20% for any other biome within the Legal Amazon, and everywhere else
+ *
+ * @param biome Biome of the farm
+ * @param legalAmazon Whether the farm is within the Legal Amazon
+ *
+ * @returns Minimum share of the total area to keep as native vegetation, in percent
+ *
+ * @example
+ * ```typescript
+ * getLegalReservePercentage(Biome.Cerrado, true);
+ * // => 35
+ *
+ * getLegalReservePercentage(Biome.Cerrado, false);
+ * // => 20
+ * ```
+ */
+export function getLegalReservePercentage(biome: Biome, legalAmazon: boolean): number {
+	if (!legalAmazon) return 20;
+
+	switch (biome) {
+		case Biome.Amazon: {
+			return 80;
+		}
+		case Biome.Cerrado: {
+			return 35;
+		}
+		default: {
+			return 20;
+		}
+	}
+}
+
+/**
+ * Evaluates whether a farm keeps the legal reserve (Reserva Legal) required by
+ * the Forest Code for its biome.
+ *
+ * The requirement is a share of the total farm area that must be kept as
+ * native vegetation. The biome is resolved from the farm's municipality,
+ * falling back to the predominant biome of its state.
+ *
+ * @param input Location and areas of the farm
+ *
+ * @returns Compliance evaluation with the required area and the deficit in hectares
+ *
+ * @example
+ * ```typescript
+ * evaluateLegalReserve({ state: BrazilianState.PA, city: "Paragominas", totalArea: 1000, vegetationArea: 500 });
+ * // => { biome: "amazon", legalAmazon: true, requiredPercentage: 80, requiredArea: 800, deficit: 300, isCompliant: false, ... }
+ *
+ * evaluateLegalReserve({ state: BrazilianState.SP, city: "Campinas", totalArea: 100, vegetationArea: 25 });
+ * // => { biome: "atlantic_forest", legalAmazon: false, requiredPercentage: 20, requiredArea: 20, deficit: 0, isCompliant: true, ... }
+ * ```
+ *
+ * @see {@link LegalReserveCompliance} for the return type structure
+ */
+export function evaluateLegalReserve({
+	state,
+	city,
+	totalArea,
+	vegetationArea,
+}: LegalReserveInput): LegalReserveCompliance {
+	const biome = getBiome(state, city);
+	const legalAmazon = isInLegalAmazon(state);
+	const requiredPercentage = getLegalReservePercentage(biome, legalAmazon);
+
+	const requiredArea = roundArea((totalArea * requiredPercentage) / 100);
+	const deficit = Math.max(0, roundArea(requiredArea - vegetationArea));
+
+	return {
+		biome,
+		legalAmazon,
+		requiredPercentage,
+		requiredArea,
+		vegetationArea,
+		vegetationPercentage: totalArea > 0 ? roundArea((vegetationArea / totalArea) * 100) : 0,
+		deficit,
+		isCompliant: deficit === 0,
+	};
+}
+
+/**
+ * Rounds an area to 2 decimal places, the precision areas are stored with.
+ *
+ * Avoids reporting floating point residues (e.g. `1e-13 ha`) as deficits.
+ */
+function roundArea(value: number): number {
+	return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+
+import { formatPhone, stripPhoneFormatting, validatePhone } from "@agro/shared/validators";
+
+describe("Phone Validator", () => {
+	describe("validatePhone", () => {
+		it("should validate a formatted mobile number", () => {
+			expect(validatePhone("(11) 98765-4321")).toBe(true);
+		});
+
+		it("should validate an unformatted landline number", () => {
+			expect(validatePhone("1934567890")).toBe(true);
+		});
+
+		it("should validate numbers with the country code", () => {
+			expect(validatePhone("+55 (62) 99876-5432")).toBe(true);
+			expect(validatePhone("556232345678")).toBe(true);
+		});
+
+		it("should reject area codes not in use", () => {
+			expect(validatePhone("(20) 98765-4321")).toBe(false);
+			expect(validatePhone("(01) 3456-7890")).toBe(false);
+		});
+
+		it("should reject mobile numbers not starting with 9", () => {
+			expect(validatePhone("(11) 88765-4321")).toBe(false);
+		});
+
+		it("should reject landline numbers not starting with 2 to 5", () => {
+			expect(validatePhone("(11) 8765-4321")).toBe(false);
+		});
+
+		it("should reject numbers with the wrong length", () => {
+			expect(validatePhone("(11) 9876-543")).toBe(false);
+			expect(validatePhone("(11) 98765-43210")).toBe(false);
+			expect(validatePhone("")).toBe(false);
+		});
+	});
+
+	describe("formatPhone", () => {
+		it("should format mobile numbers", () => {
+			expect(formatPhone("11987654321")).toBe("(11) 98765-4321");
+		});
+
+		it("should format landline numbers", () => {
+			expect(formatPhone("+55 19 34567890")).toBe("(19) 3456-7890");
+		});
+
+		it("should return invalid input as-is", () => {
+			expect(formatPhone("12345")).toBe("12345");
+		});
+	});
+
+	describe("stripPhoneFormatting", () => {
+		it("should remove formatting characters", () => {
+			expect(stripPhoneFormatting("(11) 98765-4321")).toBe("11987654321");
+		});
+
+		it("should remove the country code", () => {
+			expect(stripPhoneFormatting("+55 11 98765-4321")).toBe("11987654321");
+			expect(stripPhoneFormatting("+55 11 3456-7890")).toBe("1134567890");
+		});
+
+		it("should keep area code 55 of numbers without country code", () => {
+			expect(stripPhoneFormatting("(55) 99876-5432")).toBe("55998765432");
+		});
+	});
+});
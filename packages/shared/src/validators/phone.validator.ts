@@ -0,0 +1,101 @@
+/**
+ * Area codes (DDD) in use in Brazil, as assigned by Anatel.
+ *
+ * @see {@link https://www.gov.br/anatel/pt-br/regulado/numeracao/tabela-servico-telefonico-fixo-comutado|Anatel Numbering Plan}
+ */
+const AREA_CODES = new Set([
+	11, 12, 13, 14, 15, 16, 17, 18, 19, 21, 22, 24, 27, 28, 31, 32, 33, 34, 35, 37, 38, 41, 42, 43,
+	44, 45, 46, 47, 48, 49, 51, 53, 54, 55, 61, 62, 63, 64, 65, 66, 67, 68, 69, 71, 73, 74, 75, 77,
+	79, 81, 82, 83, 84, 85, 86, 87, 88, 89, 91, 92, 93, 94, 95, 96, 97, 98, 99,
+]);
+
+/**
+ * Removes all formatting characters from a Brazilian phone number.
+ *
+ * Strips parentheses, spaces, hyphens and the `+55` country code, returning
+ * the area code (DDD) followed by the subscriber number.
+ *
+ * @param phone The phone number to strip (formatted or unformatted)
+ *
+ * @returns The phone number with only numeric digits
+ *
+ * @example
+ * ```typescript
+ * stripPhoneFormatting("(11) 98765-4321");
+ * // => "11987654321"
+ *
+ * stripPhoneFormatting("+55 11 3456-7890");
+ * // => "1134567890"
+ * ```
+ */
+export function stripPhoneFormatting(phone: string): string {
+	const digits = phone.replace(/\D/g, "");
+
+	return digits.length > 11 && digits.startsWith("55") ? digits.slice(2) : digits;
+}
+
+/**
+ * Validates Brazilian landline and mobile phone numbers.
+ *
+ * Accepts formatted or unformatted numbers, with or without the `+55` country
+ * code. The number must start with an area code (DDD) in use, followed by
+ * either eight digits starting with 2 to 5 (landline) or nine digits starting
+ * with 9 (mobile).
+ *
+ * @param phone The phone number to validate (formatted or unformatted)
+ *
+ * @returns `true` if the phone number is valid, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * validatePhone("(11) 98765-4321");
+ * // => true (mobile)
+ *
+ * validatePhone("+55 19 3456-7890");
+ * // => true (landline)
+ *
+ * validatePhone("(20) 98765-4321");
+ * // => false (area code not in use)
+ *
+ * validatePhone("(11) 8765-4321");
+ * // => false (landlines start with 2 to 5)
+ * ```
+ */
+export function validatePhone(phone: string): boolean {
+	const digits = stripPhoneFormatting(phone);
+
+	if (!AREA_CODES.has(Number(digits.slice(0, 2)))) return false;
+
+	return /^\d{2}(?:9\d{8}|[2-5]\d{7})$/.test(digits);
+}
+
+/**
+ * Formats a Brazilian phone number as `(DD) NNNNN-NNNN` or `(DD) NNNN-NNNN`.
+ *
+ * If the input does not have the length of a landline or mobile number,
+ * returns the original input.
+ *
+ * @param phone The phone number to format (digits only or already formatted)
+ *
+ * @returns The formatted phone number or original input if invalid
+ *
+ * @example
+ * ```typescript
+ * formatPhone("11987654321");
+ * // => "(11) 98765-4321"
+ *
+ * formatPhone("1934567890");
+ * // => "(19) 3456-7890"
+ *
+ * formatPhone("12345");
+ * // => "12345" (invalid length, returns as-is)
+ * ```
+ */
+export function formatPhone(phone: string): string {
+	const digits = stripPhoneFormatting(phone);
+	const match = /^(\d{2})(\d{4,5})(\d{4})$/.exec(digits);
+
+	if (!match || digits.length < 10) return phone;
+
+	return `(${match[1] ?? ""}) ${match[2] ?? ""}-${match[3] ?? ""}`;
+}